@@ -23,6 +23,12 @@ async function main() {
     { resource: 'appointments', action: 'update', description: 'Actualizar citas' },
     { resource: 'appointments', action: 'delete', description: 'Eliminar citas' },
 
+    // Horarios y bloqueos de agenda
+    { resource: 'schedules', action: 'create', description: 'Crear horarios y bloqueos de agenda' },
+    { resource: 'schedules', action: 'read', description: 'Ver horarios y bloqueos de agenda' },
+    { resource: 'schedules', action: 'update', description: 'Actualizar horarios y bloqueos de agenda' },
+    { resource: 'schedules', action: 'delete', description: 'Eliminar horarios y bloqueos de agenda' },
+
     // Tratamientos
     { resource: 'treatments', action: 'create', description: 'Crear tratamientos' },
     { resource: 'treatments', action: 'read', description: 'Ver tratamientos' },
@@ -39,6 +45,18 @@ async function main() {
     { resource: 'odontograms', action: 'read', description: 'Ver odontogramas' },
     { resource: 'odontograms', action: 'update', description: 'Actualizar odontogramas' },
 
+    // Periodontogramas
+    { resource: 'periodontograms', action: 'create', description: 'Crear periodontogramas' },
+    { resource: 'periodontograms', action: 'read', description: 'Ver periodontogramas' },
+    { resource: 'periodontograms', action: 'update', description: 'Actualizar periodontogramas' },
+    { resource: 'periodontograms', action: 'delete', description: 'Eliminar periodontogramas' },
+
+    // Seguimientos
+    { resource: 'followups', action: 'create', description: 'Crear seguimientos y notas' },
+    { resource: 'followups', action: 'read', description: 'Ver seguimientos y notas' },
+    { resource: 'followups', action: 'update', description: 'Actualizar seguimientos y notas' },
+    { resource: 'followups', action: 'delete', description: 'Eliminar seguimientos y notas' },
+
     // Contabilidad
     { resource: 'billing', action: 'create', description: 'Crear transacciones' },
     { resource: 'billing', action: 'read', description: 'Ver contabilidad' },
@@ -48,6 +66,41 @@ async function main() {
     // Reportes
     { resource: 'reports', action: 'read', description: 'Ver reportes' },
     { resource: 'reports', action: 'export', description: 'Exportar reportes' },
+    { resource: 'financial-reports', action: 'read', description: 'Ver reportes financieros' },
+
+    // Usuarios
+    { resource: 'users', action: 'create', description: 'Crear usuarios' },
+    { resource: 'users', action: 'read', description: 'Ver usuarios' },
+    { resource: 'users', action: 'update', description: 'Actualizar usuarios' },
+    { resource: 'users', action: 'delete', description: 'Desactivar usuarios' },
+
+    // Roles y permisos
+    { resource: 'roles', action: 'create', description: 'Crear roles' },
+    { resource: 'roles', action: 'read', description: 'Ver roles y permisos' },
+    { resource: 'roles', action: 'update', description: 'Asignar y quitar permisos de roles' },
+    { resource: 'roles', action: 'assign', description: 'Asignar roles a usuarios' },
+
+    // Consentimientos informados
+    { resource: 'consents', action: 'create', description: 'Registrar consentimientos firmados' },
+    { resource: 'consents', action: 'read', description: 'Ver consentimientos firmados' },
+    { resource: 'consent-templates', action: 'create', description: 'Crear plantillas de consentimiento' },
+    { resource: 'consent-templates', action: 'read', description: 'Ver plantillas de consentimiento' },
+    { resource: 'consent-templates', action: 'update', description: 'Actualizar plantillas de consentimiento' },
+
+    // Catálogos (CIE-10 y tratamientos)
+    { resource: 'catalogs', action: 'create', description: 'Crear e importar elementos de catálogo' },
+    { resource: 'catalogs', action: 'read', description: 'Ver catálogos' },
+    { resource: 'catalogs', action: 'update', description: 'Actualizar catálogos y precios' },
+    { resource: 'catalogs', action: 'delete', description: 'Eliminar o desactivar elementos de catálogo' },
+
+    // Seguros (aseguradoras, planes y reclamos)
+    { resource: 'insurance', action: 'create', description: 'Crear aseguradoras, planes y reclamos' },
+    { resource: 'insurance', action: 'read', description: 'Ver aseguradoras, coberturas y reclamos' },
+    { resource: 'insurance', action: 'update', description: 'Actualizar planes, tramitar reclamos y registrar remesas' },
+    { resource: 'insurance', action: 'delete', description: 'Desactivar aseguradoras y eliminar reclamos en borrador' },
+
+    // Auditoría
+    { resource: 'audit', action: 'read', description: 'Ver bitácora de auditoría' },
 
     // Configuración
     { resource: 'settings', action: 'read', description: 'Ver configuración' },
@@ -66,14 +119,21 @@ async function main() {
   // Crear roles
   console.log('Creating roles...');
 
+  // Los roles existentes reciben los permisos nuevos sin perder los asignados manualmente
+  const allPermissions = await prisma.permission.findMany();
+
   const adminRole = await prisma.role.upsert({
     where: { name: 'admin' },
-    update: {},
+    update: {
+      permissions: {
+        connect: allPermissions.map(p => ({ id: p.id })),
+      },
+    },
     create: {
       name: 'admin',
       description: 'Administrador del sistema con acceso total',
       permissions: {
-        connect: await prisma.permission.findMany().then(perms => perms.map(p => ({ id: p.id }))),
+        connect: allPermissions.map(p => ({ id: p.id })),
       },
     },
   });
@@ -81,20 +141,32 @@ async function main() {
   const doctorPermissions = await prisma.permission.findMany({
     where: {
       OR: [
-        { resource: 'patients' },
+        { resource: 'patients', action: { in: ['create', 'read', 'update'] } },
         { resource: 'appointments' },
+        { resource: 'schedules' },
         { resource: 'treatments' },
         { resource: 'medical-history' },
         { resource: 'odontograms' },
+        { resource: 'periodontograms' },
+        { resource: 'consents' },
+        { resource: 'consent-templates' },
+        { resource: 'catalogs', action: 'read' },
+        { resource: 'insurance', action: 'read' },
+        { resource: 'followups' },
         { resource: 'billing', action: { in: ['create', 'read'] } },
         { resource: 'reports', action: 'read' },
+        { resource: 'users', action: 'read' },
       ],
     },
   });
 
   const doctorRole = await prisma.role.upsert({
     where: { name: 'doctor' },
-    update: {},
+    update: {
+      permissions: {
+        connect: doctorPermissions.map(p => ({ id: p.id })),
+      },
+    },
     create: {
       name: 'doctor',
       description: 'Doctor odontólogo',
@@ -109,15 +181,30 @@ async function main() {
       OR: [
         { resource: 'patients', action: { in: ['create', 'read', 'update'] } },
         { resource: 'appointments' },
-        { resource: 'billing', action: { in: ['create', 'read'] } },
+        { resource: 'schedules' },
+        { resource: 'treatments', action: 'read' },
+        { resource: 'medical-history', action: 'read' },
+        { resource: 'odontograms', action: 'read' },
+        { resource: 'periodontograms', action: 'read' },
+        { resource: 'consents', action: { in: ['create', 'read'] } },
+        { resource: 'consent-templates', action: 'read' },
+        { resource: 'catalogs', action: 'read' },
+        { resource: 'insurance', action: { in: ['create', 'read', 'update'] } },
+        { resource: 'followups', action: { in: ['create', 'read', 'update'] } },
+        { resource: 'billing', action: { in: ['create', 'read', 'update'] } },
         { resource: 'reports', action: 'read' },
+        { resource: 'users', action: 'read' },
       ],
     },
   });
 
   const receptionistRole = await prisma.role.upsert({
     where: { name: 'receptionist' },
-    update: {},
+    update: {
+      permissions: {
+        connect: receptionistPermissions.map(p => ({ id: p.id })),
+      },
+    },
     create: {
       name: 'receptionist',
       description: 'Recepcionista',
@@ -297,7 +384,78 @@ async function main() {
     await prisma.treatmentCatalog.upsert({
       where: { code: treatment.code },
       update: {},
-      create: treatment,
+      create: {
+        ...treatment,
+        prices: { create: { price: treatment.baseCost, reason: 'Precio inicial' } },
+      },
+    });
+  }
+
+  // ============================================
+  // LISTAS DE PRECIOS
+  // ============================================
+
+  console.log('Creating price lists...');
+
+  // Particulares pagan el precio base; el personal de la clínica tiene descuento
+  const priceLists = [
+    { name: 'Particular', description: 'Pacientes sin aseguradora ni lista asignada', isDefault: true, discountPercent: 0 },
+    { name: 'Personal de la clínica', description: 'Personal y familiares directos', isDefault: false, discountPercent: 30 },
+  ];
+
+  for (const priceList of priceLists) {
+    await prisma.priceList.upsert({
+      where: { name: priceList.name },
+      update: {},
+      create: priceList,
+    });
+  }
+
+  // ============================================
+  // PLANTILLAS DE CONSENTIMIENTO
+  // ============================================
+
+  console.log('Creating consent templates...');
+
+  const consentBody = (risks: string) =>
+    'Yo, {{patientName}}, con identificación {{patientIdentification}}, autorizo a {{doctorName}} ' +
+    'de {{clinicName}} a realizar: {{procedures}} (piezas: {{teeth}}).\n\n' +
+    `He sido informado/a de la naturaleza del procedimiento, sus alternativas y sus posibles riesgos: ${risks}.\n\n` +
+    'He podido hacer preguntas, que han sido respondidas, y sé que puedo revocar este consentimiento antes del procedimiento.\n\n' +
+    'Fecha: {{date}}';
+
+  const consentTemplates = [
+    {
+      category: 'Cirugía',
+      title: 'Consentimiento informado para cirugía oral',
+      content: consentBody('dolor, inflamación, sangrado, infección, alveolitis, lesión de nervios o dientes vecinos y comunicación oroantral'),
+      isRequired: true,
+    },
+    {
+      category: 'Endodoncia',
+      title: 'Consentimiento informado para endodoncia',
+      content: consentBody('dolor posoperatorio, fractura de instrumentos o del diente, perforaciones y necesidad de retratamiento o extracción'),
+      isRequired: true,
+    },
+    {
+      category: 'Periodoncia',
+      title: 'Consentimiento informado para tratamiento periodontal',
+      content: consentBody('sensibilidad dental, retracción de encías, sangrado, inflamación y movilidad dentaria transitoria'),
+      isRequired: true,
+    },
+    {
+      category: 'Ortodoncia',
+      title: 'Consentimiento informado para ortodoncia',
+      content: consentBody('molestias, lesiones en mucosas, reabsorción radicular, descalcificaciones y recidiva sin el uso de retenedores'),
+      isRequired: false,
+    },
+  ];
+
+  for (const template of consentTemplates) {
+    await prisma.consentTemplate.upsert({
+      where: { category: template.category },
+      update: {},
+      create: template,
     });
   }
 
@@ -308,6 +466,7 @@ async function main() {
   console.log('  - 3 users');
   console.log(`  - ${cie10Codes.length} CIE-10 codes`);
   console.log(`  - ${treatments.length} treatment catalog items`);
+  console.log(`  - ${consentTemplates.length} consent templates`);
   console.log('\n👤 Test users:');
   console.log('  - admin@soldent.com / admin123');
   console.log('  - doctor@soldent.com / admin123');
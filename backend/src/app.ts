@@ -5,6 +5,7 @@ import { env, isDev } from '@config/env';
 import corsMiddleware from '@middleware/cors';
 import { errorHandler, notFoundHandler } from '@middleware/errorHandler';
 import { requestLogger } from '@middleware/logger';
+import { requestContext } from '@middleware/requestContext';
 import { apiLimiter } from '@middleware/rateLimiter';
 import routes from '@routes/index';
 
@@ -54,6 +55,11 @@ const createApp = (): Application => {
    */
   app.use(requestLogger);
 
+  /**
+   * Request context - actor, IP and user agent for the audit log
+   */
+  app.use(requestContext);
+
   // ==========================================
   // Rate Limiting
   // ==========================================
@@ -0,0 +1,407 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditAction, Prisma, PrismaClient } from '@prisma/client';
+import { getRequestContext } from '@utils/requestContext';
+import {
+  AuditSnapshot,
+  computeAuditHash,
+  diffSnapshots,
+  resolveUpdateAction,
+  toAuditSnapshot,
+} from '@utils/audit';
+
+/**
+ * Audit log Prisma extension
+ * Every write to a clinical or financial model is recorded in `audit_logs`
+ * with the actor and IP of the current request (see middleware/requestContext).
+ *
+ * Entries are stored in the same transaction as the writes they describe:
+ * writes inside `prisma.$transaction(async (tx) => ...)` are audited through
+ * `tx` when the callback finishes, and any other write runs in a transaction
+ * of its own. A rollback discards the entries, and a failure to store them
+ * fails the write instead of leaving a gap in the hash chain.
+ */
+
+type AuditRecord = Record<string, unknown>;
+
+/**
+ * Client the audit reads and writes go through (the caller's transaction)
+ */
+type AuditClient = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>;
+
+/**
+ * Resolves the patient a record belongs to
+ */
+type PatientResolver = (record: AuditRecord, client: AuditClient) => Promise<string | null>;
+
+/**
+ * Entry waiting to be chained and stored
+ */
+interface PendingAuditEntry {
+  action: AuditAction;
+  entityType: string;
+  entityId: string | null;
+  patientId: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+/**
+ * Interactive transaction being audited and the entries of its writes
+ */
+interface AuditScope {
+  tx: AuditClient;
+  entries: PendingAuditEntry[];
+}
+
+/**
+ * Minimal delegate used to read records before and after a write
+ */
+interface AuditDelegate {
+  findUnique(args: { where: unknown }): Promise<AuditRecord | null>;
+  findMany(args: { where: unknown }): Promise<AuditRecord[]>;
+}
+
+const auditScope = new AsyncLocalStorage<AuditScope>();
+
+/**
+ * Set while a batch transaction (`$transaction([...])`) queues its writes
+ */
+const batchScope = new AsyncLocalStorage<true>();
+
+const fromField =
+  (field: string): PatientResolver =>
+  async (record) =>
+    (record[field] as string | null | undefined) ?? null;
+
+/**
+ * Audited models and how to find their patient
+ */
+const AUDITED_MODELS: Partial<Record<Prisma.ModelName, PatientResolver>> = {
+  Patient: fromField('id'),
+  MedicalHistory: fromField('patientId'),
+  Diagnosis: fromField('patientId'),
+  Treatment: fromField('patientId'),
+  Odontogram: fromField('patientId'),
+  Tooth: async (record, client) => {
+    if (typeof record.odontogramId !== 'string') {
+      return null;
+    }
+
+    const odontogram = await client.odontogram.findUnique({
+      where: { id: record.odontogramId },
+      select: { patientId: true },
+    });
+
+    return odontogram?.patientId ?? null;
+  },
+  Periodontogram: fromField('patientId'),
+  PeriodontalTooth: async (record, client) => {
+    if (typeof record.periodontogramId !== 'string') {
+      return null;
+    }
+
+    const periodontogram = await client.periodontogram.findUnique({
+      where: { id: record.periodontogramId },
+      select: { patientId: true },
+    });
+
+    return periodontogram?.patientId ?? null;
+  },
+  ConsentTemplate: async () => null,
+  PatientConsent: fromField('patientId'),
+  Appointment: fromField('patientId'),
+  Invoice: fromField('patientId'),
+  InvoiceItem: async (record, client) => {
+    if (typeof record.invoiceId !== 'string') {
+      return null;
+    }
+
+    const invoice = await client.invoice.findUnique({
+      where: { id: record.invoiceId },
+      select: { patientId: true },
+    });
+
+    return invoice?.patientId ?? null;
+  },
+  PatientPayment: fromField('patientId'),
+  Transaction: fromField('patientId'),
+  Expense: async () => null,
+};
+
+const WRITE_OPERATIONS = new Set([
+  'create',
+  'createMany',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+/**
+ * Scalar and enum fields per model (relations are not audited)
+ */
+const SCALAR_FIELDS = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    model.fields.filter((field) => field.kind === 'scalar' || field.kind === 'enum').map((field) => field.name),
+  ])
+);
+
+const getDelegate = <T = AuditDelegate>(client: AuditClient, model: string): T =>
+  (client as unknown as Record<string, T>)[model.charAt(0).toLowerCase() + model.slice(1)] as T;
+
+/**
+ * Apply plain `data` values to a record
+ * @returns Updated record, or null if `data` uses operations (increment, relations, ...)
+ */
+const applyScalarUpdate = (record: AuditRecord, data: unknown): AuditRecord | null => {
+  const updated: AuditRecord = { ...record };
+
+  for (const [field, value] of Object.entries((data ?? {}) as AuditRecord)) {
+    if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+      return null;
+    }
+    updated[field] = value;
+  }
+
+  return updated;
+};
+
+/**
+ * Build the entry for a changed record (UPDATE or soft DELETE), or null if nothing changed
+ */
+const buildUpdateEntry = async (
+  model: string,
+  before: AuditRecord,
+  after: AuditRecord,
+  client: AuditClient,
+  resolvePatientId: PatientResolver
+): Promise<PendingAuditEntry | null> => {
+  const fields = SCALAR_FIELDS.get(model) ?? [];
+  const beforeSnapshot = toAuditSnapshot(before, fields);
+  const afterSnapshot = toAuditSnapshot(after, fields);
+  const diff = diffSnapshots(beforeSnapshot, afterSnapshot);
+
+  if (!diff) {
+    return null;
+  }
+
+  return {
+    action: resolveUpdateAction(beforeSnapshot, afterSnapshot),
+    entityType: model,
+    entityId: (before.id as string | undefined) ?? null,
+    patientId: await resolvePatientId({ ...before, ...after }, client),
+    before: diff.before,
+    after: diff.after,
+  };
+};
+
+/**
+ * Build the entry for a created or deleted record
+ */
+const buildSnapshotEntry = async (
+  model: string,
+  action: AuditAction,
+  record: AuditRecord,
+  client: AuditClient,
+  resolvePatientId: PatientResolver
+): Promise<PendingAuditEntry> => {
+  const snapshot = toAuditSnapshot(record, SCALAR_FIELDS.get(model) ?? []);
+
+  return {
+    action,
+    entityType: model,
+    entityId: (record.id as string | undefined) ?? null,
+    patientId: await resolvePatientId(record, client),
+    before: action === AuditAction.DELETE ? snapshot : null,
+    after: action === AuditAction.CREATE ? snapshot : null,
+  };
+};
+
+/**
+ * Chain and store audit entries
+ * Runs inside the caller's transaction; an advisory lock held until it commits
+ * serializes writers so the hash chain never forks
+ * @param tx - Transaction client of the audited writes
+ * @param entries - Entries in the order the writes happened
+ */
+export const writeAuditEntries = async (tx: AuditClient, entries: PendingAuditEntry[]): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const context = getRequestContext();
+
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('audit_logs'))`;
+
+  const last = await tx.auditLog.findFirst({
+    orderBy: { sequence: 'desc' },
+    select: { hash: true },
+  });
+
+  let previousHash = last?.hash ?? null;
+
+  for (const entry of entries) {
+    const data = {
+      ...entry,
+      userId: context?.userId ?? null,
+      ipAddress: context?.ipAddress ?? null,
+      userAgent: context?.userAgent ?? null,
+      previousHash,
+      createdAt: new Date(),
+    };
+    const hash = computeAuditHash(data);
+
+    await tx.auditLog.create({
+      data: {
+        ...data,
+        before: (data.before ?? undefined) as Prisma.InputJsonValue | undefined,
+        after: (data.after ?? undefined) as Prisma.InputJsonValue | undefined,
+        hash,
+      },
+    });
+
+    previousHash = hash;
+  }
+};
+
+/**
+ * Run a transaction callback collecting the audit entries of its writes,
+ * then store them in the same transaction before it commits
+ */
+const runAuditScope = async <T>(tx: AuditClient, callback: (scope: AuditScope) => Promise<T>): Promise<T> => {
+  const scope: AuditScope = { tx, entries: [] };
+  const result = await auditScope.run(scope, () => callback(scope));
+
+  await writeAuditEntries(tx, scope.entries);
+
+  return result;
+};
+
+/**
+ * Run a write of an audited model and collect its audit entries,
+ * reading the previous state through the transaction client
+ * @param run - Performs the write inside `scope.tx`
+ */
+const auditWrite = async (
+  scope: AuditScope,
+  model: string,
+  operation: string,
+  args: { where?: unknown; data?: unknown; select?: unknown; update?: unknown },
+  resolvePatientId: PatientResolver,
+  run: () => Promise<unknown>
+): Promise<unknown> => {
+  const { tx } = scope;
+  const delegate = getDelegate(tx, model);
+
+  // State before the write
+  let previous: AuditRecord[] = [];
+  if (operation === 'update' || operation === 'upsert' || operation === 'delete') {
+    const record = await delegate.findUnique({ where: args.where });
+    previous = record ? [record] : [];
+  } else if (operation === 'updateMany' || operation === 'deleteMany') {
+    previous = await delegate.findMany({ where: args.where ?? {} });
+  }
+
+  const result = await run();
+  const entries: (PendingAuditEntry | null)[] = [];
+
+  if (operation === 'create' || (operation === 'upsert' && previous.length === 0)) {
+    entries.push(await buildSnapshotEntry(model, AuditAction.CREATE, result as AuditRecord, tx, resolvePatientId));
+  } else if (operation === 'createMany') {
+    const items = Array.isArray(args.data) ? args.data : [args.data];
+    for (const item of items as AuditRecord[]) {
+      entries.push(await buildSnapshotEntry(model, AuditAction.CREATE, item, tx, resolvePatientId));
+    }
+  } else if (operation === 'update' || operation === 'upsert') {
+    const before = previous[0] as AuditRecord;
+    const after = args.select
+      ? applyScalarUpdate(before, args.update ?? args.data) ??
+        (await delegate.findUnique({ where: { id: before.id } })) ??
+        before
+      : (result as AuditRecord);
+    entries.push(await buildUpdateEntry(model, before, after, tx, resolvePatientId));
+  } else if (operation === 'updateMany') {
+    for (const before of previous) {
+      const after =
+        applyScalarUpdate(before, args.data) ?? (await delegate.findUnique({ where: { id: before.id } })) ?? before;
+      entries.push(await buildUpdateEntry(model, before, after, tx, resolvePatientId));
+    }
+  } else {
+    for (const before of previous) {
+      entries.push(await buildSnapshotEntry(model, AuditAction.DELETE, before, tx, resolvePatientId));
+    }
+  }
+
+  scope.entries.push(...entries.filter((entry): entry is PendingAuditEntry => entry !== null));
+
+  return result;
+};
+
+type AuditTransaction = <T>(callback: (tx: AuditClient) => Promise<T>, options?: unknown) => Promise<T>;
+
+/**
+ * Audit extension
+ * Audits writes of the audited models and makes interactive transactions
+ * store the audit entries of their writes before committing
+ */
+export const auditExtension = Prisma.defineExtension((client) => {
+  // Transactions of the client below this extension (its writes are not intercepted)
+  const baseTransaction = client.$transaction.bind(client) as unknown as AuditTransaction;
+
+  const audited = client.$extends({
+    name: 'audit-log',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const resolvePatientId = AUDITED_MODELS[model as Prisma.ModelName];
+
+          if (!resolvePatientId || !WRITE_OPERATIONS.has(operation)) {
+            return query(args);
+          }
+
+          const writeArgs = args as { where?: unknown; data?: unknown; select?: unknown; update?: unknown };
+          const scope = auditScope.getStore();
+
+          if (scope) {
+            return auditWrite(scope, model, operation, writeArgs, resolvePatientId, () => query(args));
+          }
+
+          if (batchScope.getStore()) {
+            // Previous state cannot be read inside a batch
+            throw new Error(`${model}.${operation} is audited and must run in an interactive transaction`);
+          }
+
+          // Stand-alone write: run it and its audit entries in one transaction
+          return baseTransaction((tx) =>
+            runAuditScope(tx, (txScope) =>
+              auditWrite(txScope, model, operation, writeArgs, resolvePatientId, () =>
+                getDelegate<Record<string, (args: unknown) => Promise<unknown>>>(tx, model)[operation]!(args)
+              )
+            )
+          );
+        },
+      },
+    },
+  });
+
+  const auditedTransaction = audited.$transaction.bind(audited) as unknown as AuditTransaction &
+    ((queries: unknown, options?: unknown) => Promise<unknown>);
+
+  const $transaction = ((input: unknown, options?: unknown) => {
+    if (typeof input !== 'function') {
+      return batchScope.run(true, () => auditedTransaction(input, options));
+    }
+
+    return auditedTransaction(
+      (tx) => runAuditScope(tx, () => (input as (tx: AuditClient) => Promise<unknown>)(tx)),
+      options
+    );
+  }) as typeof audited.$transaction;
+
+  return audited.$extends({
+    name: 'audit-log-transactions',
+    client: { $transaction },
+  });
+});
@@ -1,5 +1,6 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import { isDev } from './env';
+import { auditExtension } from './audit';
 
 /**
  * PrismaClient options configuration
@@ -21,15 +22,21 @@ declare global {
 }
 
 /**
- * Prisma Client singleton
+ * Base Prisma Client singleton
  * Reuses the same instance across hot-reloads in development
  */
-export const prisma = global.prisma || new PrismaClient(prismaOptions);
+const basePrisma = global.prisma || new PrismaClient(prismaOptions);
 
 if (isDev) {
-  global.prisma = prisma;
+  global.prisma = basePrisma;
 }
 
+/**
+ * Prisma Client used by the application
+ * Writes to clinical and financial models are recorded in the audit log
+ */
+export const prisma = basePrisma.$extends(auditExtension);
+
 /**
  * Connect to database
  * @throws Error if connection fails
@@ -4,6 +4,17 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
+/**
+ * Values of SRI_ENVIRONMENT accepted from older configurations
+ */
+const SRI_ENVIRONMENT_ALIASES: Record<string, string> = {
+  test: '1',
+  pruebas: '1',
+  production: '2',
+  produccion: '2',
+  'producción': '2',
+};
+
 /**
  * Environment variables schema validation using Zod
  * Ensures all required environment variables are present and valid
@@ -35,6 +46,12 @@ const envSchema = z.object({
 
   // Security
   BCRYPT_ROUNDS: z.string().transform(Number).pipe(z.number().min(10).max(15)).default('10'),
+  LOGIN_MAX_FAILED_ATTEMPTS: z.string().transform(Number).pipe(z.number().int().positive()).default('5'),
+  LOGIN_LOCKOUT_BASE_MINUTES: z.string().transform(Number).pipe(z.number().positive()).default('5'),
+  LOGIN_LOCKOUT_MAX_MINUTES: z.string().transform(Number).pipe(z.number().positive()).default('1440'),
+  ACCESS_ANOMALY_DAILY_PATIENTS: z.string().transform(Number).pipe(z.number().int().positive()).default('40'),
+  ACCESS_ANOMALY_BASELINE_DAYS: z.string().transform(Number).pipe(z.number().int().positive()).default('30'),
+  ACCESS_ANOMALY_BASELINE_FACTOR: z.string().transform(Number).pipe(z.number().positive()).default('3'),
 
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'http', 'debug']).default('info'),
@@ -53,6 +70,25 @@ const envSchema = z.object({
   EMAIL_USER: z.string().email().optional(),
   EMAIL_PASSWORD: z.string().optional(),
   EMAIL_FROM: z.string().optional(),
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'memory']).default('file'), // file: writes .eml files and logs them
+  MAIL_FILE_PATH: z.string().default('./mails'),
+
+  // SMS and WhatsApp (appointment reminders)
+  SMS_TRANSPORT: z.enum(['http', 'file', 'memory']).default('file'), // file: writes messages to NOTIFICATION_FILE_PATH
+  SMS_API_URL: z.string().url().optional(),
+  SMS_API_KEY: z.string().optional(),
+  SMS_API_SECRET: z.string().optional(),
+  SMS_SENDER: z.string().optional(),
+  WHATSAPP_TRANSPORT: z.enum(['cloud', 'file', 'memory']).default('file'), // cloud: WhatsApp Cloud API
+  WHATSAPP_API_KEY: z.string().optional(),
+  WHATSAPP_PHONE_NUMBER_ID: z.string().optional(),
+  NOTIFICATION_FILE_PATH: z.string().default('./notifications'),
+  PHONE_COUNTRY_CODE: z.string().regex(/^\d{1,3}$/).default('593'),
+
+  // Frontend (links sent by email)
+  FRONTEND_URL: z.string().url().default('http://localhost:3000'),
+  PASSWORD_RESET_EXPIRES_MINUTES: z.string().transform(Number).pipe(z.number().int().positive()).default('60'),
+  EMAIL_VERIFICATION_EXPIRES_HOURS: z.string().transform(Number).pipe(z.number().int().positive()).default('24'),
 
   // Redis (optional)
   REDIS_HOST: z.string().optional(),
@@ -67,16 +103,54 @@ const envSchema = z.object({
   MAX_ADVANCE_BOOKING_DAYS: z.string().transform(Number).pipe(z.number().positive()).default('90'),
   APPOINTMENT_BUFFER_MINUTES: z.string().transform(Number).pipe(z.number().min(0)).default('5'),
 
+  // Appointment reminders: lead times in hours before the appointment and channels, comma separated
+  REMINDER_LEAD_HOURS: z.string()
+    .transform(val => val.split(',').map(Number))
+    .pipe(z.array(z.number().int().positive()).min(1))
+    .default('48,2'),
+  REMINDER_CHANNELS: z.string()
+    .transform(val => val.split(',').map(channel => channel.trim().toUpperCase()))
+    .pipe(z.array(z.enum(['EMAIL', 'SMS', 'WHATSAPP'])).min(1))
+    .default('email,whatsapp'),
+  REMINDER_INTERVAL_MINUTES: z.string().transform(Number).pipe(z.number().int().positive()).default('15'),
+  REMINDER_MAX_ATTEMPTS: z.string().transform(Number).pipe(z.number().int().positive()).default('3'),
+
   // Billing
   CURRENCY: z.string().default('USD'),
   TAX_RATE: z.string().transform(Number).pipe(z.number().min(0).max(1)).default('0.12'),
   TAX_APPLIES_TO_SERVICES: z.string().transform(val => val === 'true').default('false'),
+  INVOICE_ESTABLISHMENT: z.string().regex(/^\d{3}$/).default('001'),
+  INVOICE_EMISSION_POINT: z.string().regex(/^\d{3}$/).default('001'),
+  INVOICE_DUE_DAYS: z.string().transform(Number).pipe(z.number().int().min(0)).default('30'),
+
+  // Clinic (header of quotes and other documents)
+  CLINIC_NAME: z.string().default('Clínica Odontológica'),
+  CLINIC_RUC: z.string().optional(),
+  CLINIC_ADDRESS: z.string().optional(),
+  CLINIC_PHONE: z.string().optional(),
+  CLINIC_EMAIL: z.string().email().optional(),
+  CLINIC_TIME_ZONE: z.string().default('America/Guayaquil'), // zone of appointment start times
+  QUOTE_VALIDITY_DAYS: z.string().transform(Number).pipe(z.number().int().positive()).default('30'),
+
+  // SRI electronic invoicing
+  SRI_ENABLED: z.string().transform(val => val === 'true').default('false'),
+  SRI_ENVIRONMENT: z.string() // 1: pruebas, 2: producción (also test / production)
+    .transform(val => SRI_ENVIRONMENT_ALIASES[val.trim().toLowerCase()] ?? val.trim())
+    .pipe(z.enum(['1', '2']))
+    .default('1'),
+  SRI_TRANSPORT: z.enum(['soap', 'file', 'memory']).default('file'), // file: writes signed XML and simulates authorization
+  SRI_FILE_PATH: z.string().default('./sri'),
+  SRI_CERTIFICATE_PATH: z.string().optional(),
+  SRI_CERTIFICATE_PASSWORD: z.string().optional(),
+  SRI_BUSINESS_NAME: z.string().optional(),
+  SRI_ACCOUNTING_REQUIRED: z.string().transform(val => val === 'true').default('false'),
 
   // Feature Flags
   FEATURE_REGISTRATION_ENABLED: z.string().transform(val => val === 'true').default('true'),
   FEATURE_EMAIL_VERIFICATION: z.string().transform(val => val === 'true').default('false'),
   FEATURE_TWO_FACTOR_AUTH: z.string().transform(val => val === 'true').default('false'),
   FEATURE_ONLINE_BOOKING: z.string().transform(val => val === 'true').default('true'),
+  FEATURE_APPOINTMENT_REMINDERS: z.string().transform(val => val === 'true').default('true'),
 });
 
 /**
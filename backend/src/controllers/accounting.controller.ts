@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { catchAsync } from '@utils/catchAsync';
 import { ResponseHelper } from '@utils/response';
 import { accountingService } from '@services/accounting.service';
+import { sriService } from '@services/sri.service';
 import type {
   CreateTransactionDTO,
   GetTransactionsDTO,
@@ -16,6 +17,12 @@ import type {
   ExpenseListOptions,
   MonthlyBalanceDTO,
   CashFlowDTO,
+  CreateInvoiceDTO,
+  UpdateInvoiceDTO,
+  IssueInvoiceDTO,
+  VoidInvoiceDTO,
+  GetInvoicesDTO,
+  InvoiceListOptions,
 } from '../types/accounting.types';
 
 /**
@@ -326,6 +333,185 @@ export class AccountingController {
     );
   });
 
+  // ============================================
+  // INVOICE ENDPOINTS
+  // ============================================
+
+  /**
+   * Get all invoices with optional filters and pagination
+   * GET /api/v1/accounting/invoices
+   *
+   * @query {GetInvoicesDTO} - Filter parameters
+   * @returns {PaginatedInvoiceResponse} - List of invoices
+   */
+  getAllInvoices = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as GetInvoicesDTO;
+
+    const options: InvoiceListOptions = {
+      filters: {
+        status: query.status,
+        patientId: query.patientId,
+        search: query.search,
+        startDate: query.startDate,
+        endDate: query.endDate,
+      },
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 10,
+      },
+    };
+
+    const result = await accountingService.getAllInvoices(options);
+
+    return ResponseHelper.success(res, result, 'Invoices retrieved successfully');
+  });
+
+  /**
+   * Get invoices by patient ID
+   * GET /api/v1/accounting/patients/:patientId/invoices
+   *
+   * @param {string} patientId - Patient ID
+   * @returns {InvoiceResponse[]} - List of invoices
+   */
+  getInvoicesByPatientId = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+
+    const invoices = await accountingService.getInvoicesByPatientId(patientId);
+
+    return ResponseHelper.success(res, invoices, 'Invoices retrieved successfully');
+  });
+
+  /**
+   * Get invoice by ID
+   * GET /api/v1/accounting/invoices/:id
+   *
+   * @param {string} id - Invoice ID
+   * @returns {InvoiceResponse} - Invoice with its items
+   */
+  getInvoiceById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const invoice = await accountingService.getInvoiceById(id);
+
+    return ResponseHelper.success(res, invoice, 'Invoice retrieved successfully');
+  });
+
+  /**
+   * Create draft invoice
+   * POST /api/v1/accounting/invoices
+   *
+   * @body {CreateInvoiceDTO} - Invoice creation data
+   * @returns {InvoiceResponse} - Created invoice
+   */
+  createInvoice = catchAsync(async (req: Request, res: Response) => {
+    const data: CreateInvoiceDTO = req.body;
+    const userId = req.user!.id;
+
+    const invoice = await accountingService.createInvoice({
+      ...data,
+      createdBy: userId,
+    });
+
+    return ResponseHelper.created(res, invoice, 'Invoice created successfully');
+  });
+
+  /**
+   * Update draft invoice
+   * PUT /api/v1/accounting/invoices/:id
+   *
+   * @param {string} id - Invoice ID
+   * @body {UpdateInvoiceDTO} - Invoice update data
+   * @returns {InvoiceResponse} - Updated invoice
+   */
+  updateInvoice = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: UpdateInvoiceDTO = req.body;
+
+    const invoice = await accountingService.updateInvoice(id, data);
+
+    return ResponseHelper.success(res, invoice, 'Invoice updated successfully');
+  });
+
+  /**
+   * Delete draft invoice
+   * DELETE /api/v1/accounting/invoices/:id
+   *
+   * @param {string} id - Invoice ID
+   * @returns {Object} - Success message
+   */
+  deleteInvoice = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const result = await accountingService.deleteInvoice(id);
+
+    return ResponseHelper.success(res, result, 'Invoice deleted successfully');
+  });
+
+  /**
+   * Issue draft invoice, assigning its number
+   * POST /api/v1/accounting/invoices/:id/issue
+   *
+   * @param {string} id - Invoice ID
+   * @body {IssueInvoiceDTO} - Optional due date
+   * @returns {InvoiceResponse} - Issued invoice
+   */
+  issueInvoice = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: IssueInvoiceDTO = req.body;
+
+    const invoice = await accountingService.issueInvoice(id, data.dueDate);
+
+    return ResponseHelper.success(res, invoice, 'Invoice issued successfully');
+  });
+
+  /**
+   * Void issued invoice
+   * POST /api/v1/accounting/invoices/:id/void
+   *
+   * @param {string} id - Invoice ID
+   * @body {VoidInvoiceDTO} - Void reason
+   * @returns {InvoiceResponse} - Voided invoice
+   */
+  voidInvoice = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: VoidInvoiceDTO = req.body;
+
+    const invoice = await accountingService.voidInvoice(id, data.reason);
+
+    return ResponseHelper.success(res, invoice, 'Invoice voided successfully');
+  });
+
+  /**
+   * Sign and submit issued invoice to the SRI
+   * POST /api/v1/accounting/invoices/:id/sri
+   *
+   * @param {string} id - Invoice ID
+   * @returns {InvoiceResponse} - Invoice with its access key and SRI status
+   */
+  submitInvoiceToSri = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const invoice = await sriService.submitInvoice(id);
+
+    return ResponseHelper.success(res, invoice, 'Invoice submitted to the SRI');
+  });
+
+  /**
+   * Download signed electronic invoice XML
+   * GET /api/v1/accounting/invoices/:id/sri/xml
+   *
+   * @param {string} id - Invoice ID
+   */
+  getInvoiceSignedXml = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const file = await sriService.getSignedXml(id);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.send(file.content);
+  });
+
   // ============================================
   // EXPENSE ENDPOINTS
   // ============================================
@@ -11,6 +11,7 @@ import type {
   GetAvailableSlotsDTO,
   ListAppointmentsDTO,
   CancelAppointmentDTO,
+  RescheduleAppointmentDTO,
 } from '../types/appointment.types';
 
 /**
@@ -108,7 +109,10 @@ export class AppointmentController {
     const { id } = req.params;
     const data: UpdateAppointmentStatusDTO = req.body;
 
-    const appointment = await appointmentService.updateStatus(id!, data);
+    const appointment = await appointmentService.updateStatus(id!, data, {
+      id: req.user!.id,
+      role: req.user!.role,
+    });
 
     return ResponseHelper.success(
       res,
@@ -129,7 +133,10 @@ export class AppointmentController {
     const { id } = req.params;
     const data: CancelAppointmentDTO = req.body;
 
-    const appointment = await appointmentService.cancelAppointment(id!, data);
+    const appointment = await appointmentService.cancelAppointment(id!, data, {
+      id: req.user!.id,
+      role: req.user!.role,
+    });
 
     return ResponseHelper.success(
       res,
@@ -138,6 +145,30 @@ export class AppointmentController {
     );
   });
 
+  /**
+   * Reschedule appointment
+   * POST /api/v1/appointments/:id/reschedule
+   *
+   * @param {string} id - Appointment ID
+   * @body {RescheduleAppointmentDTO} - New date and time
+   * @returns {AppointmentResponse} 201 - Replacement appointment
+   */
+  reschedule = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: RescheduleAppointmentDTO = req.body;
+
+    const appointment = await appointmentService.rescheduleAppointment(id, data, {
+      id: req.user!.id,
+      role: req.user!.role,
+    });
+
+    return ResponseHelper.created(
+      res,
+      appointment,
+      'Appointment rescheduled successfully'
+    );
+  });
+
   /**
    * Delete appointment
    * DELETE /api/v1/appointments/:id
@@ -148,7 +179,10 @@ export class AppointmentController {
   delete = catchAsync(async (req: Request, res: Response) => {
     const { id } = req.params;
 
-    await appointmentService.deleteAppointment(id!);
+    await appointmentService.deleteAppointment(id!, {
+      id: req.user!.id,
+      role: req.user!.role,
+    });
 
     return ResponseHelper.success(
       res,
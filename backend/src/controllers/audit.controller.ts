@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { auditService } from '@services/audit.service';
+import type {
+  AccessAnomalyReportDTO,
+  AuditHistoryQueryDTO,
+  AuditLogListOptions,
+  SearchAuditLogsDTO,
+} from '../types/audit.types';
+
+/**
+ * Build list options from the query string
+ */
+const toListOptions = (query: SearchAuditLogsDTO | AuditHistoryQueryDTO): AuditLogListOptions => ({
+  filters: {
+    ...('entityType' in query && {
+      entityType: query.entityType,
+      entityId: query.entityId,
+      userId: query.userId,
+      patientId: query.patientId,
+    }),
+    action: query.action,
+    startDate: query.startDate,
+    endDate: query.endDate,
+  },
+  pagination: {
+    page: query.page || 1,
+    limit: query.limit || 20,
+  },
+});
+
+/**
+ * Audit Controller
+ * Handles HTTP requests for the audit log
+ */
+export class AuditController {
+  /**
+   * Search the audit log
+   * GET /api/v1/audit-logs
+   *
+   * @query {SearchAuditLogsDTO} - Entity, user, patient, action and date range filters
+   * @returns {PaginatedAuditLogResponse} - Audit entries, newest first
+   */
+  search = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as SearchAuditLogsDTO;
+
+    const result = await auditService.searchAuditLogs(toListOptions(query));
+
+    return ResponseHelper.success(res, result, 'Audit log retrieved successfully');
+  });
+
+  /**
+   * Get changes to a patient's records
+   * GET /api/v1/audit-logs/patients/:patientId
+   *
+   * @param {string} patientId - Patient ID
+   * @query {AuditHistoryQueryDTO} - Action and date range filters
+   * @returns {PaginatedAuditLogResponse} - Audit entries, newest first
+   */
+  getByPatient = catchAsync(async (req: Request, res: Response) => {
+    const { patientId } = req.params;
+    const query = req.query as unknown as AuditHistoryQueryDTO;
+
+    const result = await auditService.getPatientAuditLog(patientId as string, toListOptions(query));
+
+    return ResponseHelper.success(res, result, 'Patient audit log retrieved successfully');
+  });
+
+  /**
+   * Get changes made by a user
+   * GET /api/v1/audit-logs/users/:userId
+   *
+   * @param {string} userId - User ID
+   * @query {AuditHistoryQueryDTO} - Action and date range filters
+   * @returns {PaginatedAuditLogResponse} - Audit entries, newest first
+   */
+  getByUser = catchAsync(async (req: Request, res: Response) => {
+    const { userId } = req.params;
+    const query = req.query as unknown as AuditHistoryQueryDTO;
+
+    const result = await auditService.getUserAuditLog(userId as string, toListOptions(query));
+
+    return ResponseHelper.success(res, result, 'User audit log retrieved successfully');
+  });
+
+  /**
+   * Get changes to a single record
+   * GET /api/v1/audit-logs/entities/:entityType/:entityId
+   *
+   * @param {string} entityType - Model name (e.g. Tooth, Transaction)
+   * @param {string} entityId - Record ID
+   * @query {AuditHistoryQueryDTO} - Action and date range filters
+   * @returns {PaginatedAuditLogResponse} - Audit entries, newest first
+   */
+  getByEntity = catchAsync(async (req: Request, res: Response) => {
+    const { entityType, entityId } = req.params;
+    const query = req.query as unknown as AuditHistoryQueryDTO;
+
+    const result = await auditService.getEntityAuditLog(
+      entityType as string,
+      entityId as string,
+      toListOptions(query)
+    );
+
+    return ResponseHelper.success(res, result, 'Entity audit log retrieved successfully');
+  });
+
+  /**
+   * Users who opened an unusual number of patient charts in a day
+   * GET /api/v1/audit-logs/access-anomalies
+   *
+   * @query {AccessAnomalyReportDTO} - Day range (YYYY-MM-DD), defaults to today
+   * @returns {AccessAnomalyReport} - Flagged user-days with the reason
+   */
+  getAccessAnomalies = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as AccessAnomalyReportDTO;
+
+    const report = await auditService.getAccessAnomalyReport(query.startDate, query.endDate);
+
+    return ResponseHelper.success(res, report, 'Access anomaly report generated successfully');
+  });
+
+  /**
+   * Verify the audit log hash chain
+   * GET /api/v1/audit-logs/verify
+   *
+   * @returns {AuditChainVerification} - Whether the chain is intact and the first broken entry
+   */
+  verify = catchAsync(async (_req: Request, res: Response) => {
+    const result = await auditService.verifyChain();
+
+    return ResponseHelper.success(
+      res,
+      result,
+      result.valid ? 'Audit log is intact' : 'Audit log has been tampered with'
+    );
+  });
+}
+
+// Export singleton instance
+export const auditController = new AuditController();
+export default auditController;
@@ -2,14 +2,31 @@ import { Request, Response } from 'express';
 import { catchAsync } from '@utils/catchAsync';
 import { ResponseHelper } from '@utils/response';
 import { authService } from '@services/auth.service';
+import { twoFactorService } from '@services/two-factor.service';
 import type {
   RegisterDTO,
   LoginDTO,
+  LoginTwoFactorDTO,
   RefreshTokenDTO,
+  LogoutDTO,
   ChangePasswordDTO,
+  TwoFactorCodeDTO,
+  DisableTwoFactorDTO,
+  LoginHistoryQueryDTO,
+  VerifyEmailDTO,
+  ResendVerificationDTO,
+  SessionContext,
 } from '../types/auth.types';
 import { AuthRequest } from '@middleware/auth';
 
+/**
+ * Client information recorded with each session
+ */
+const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 /**
  * Auth Controller
  * Handles all HTTP requests related to authentication
@@ -25,12 +42,14 @@ export class AuthController {
   register = catchAsync(async (req: Request, res: Response) => {
     const data: RegisterDTO = req.body;
 
-    const result = await authService.register(data);
+    const result = await authService.register(data, getSessionContext(req));
 
     return ResponseHelper.created(
       res,
       result,
-      'User registered successfully. Welcome!'
+      'emailVerificationRequired' in result
+        ? 'User registered successfully. Check your email to verify your account'
+        : 'User registered successfully. Welcome!'
     );
   });
 
@@ -39,12 +58,33 @@ export class AuthController {
    * POST /api/v1/auth/login
    *
    * @body {LoginDTO} - Login credentials
-   * @returns {AuthResponse} - User data and tokens
+   * @returns {LoginResult} - User data and tokens, or a two-factor challenge
    */
   login = catchAsync(async (req: Request, res: Response) => {
     const data: LoginDTO = req.body;
 
-    const result = await authService.login(data);
+    const result = await authService.login(data, getSessionContext(req));
+
+    return ResponseHelper.success(
+      res,
+      result,
+      'twoFactorRequired' in result
+        ? 'Two-factor code required'
+        : 'Login successful. Welcome back!'
+    );
+  });
+
+  /**
+   * Complete login with a two-factor code
+   * POST /api/v1/auth/login/2fa
+   *
+   * @body {LoginTwoFactorDTO} - Challenge token and TOTP or recovery code
+   * @returns {AuthResponse} - User data and tokens
+   */
+  loginTwoFactor = catchAsync(async (req: Request, res: Response) => {
+    const data: LoginTwoFactorDTO = req.body;
+
+    const result = await authService.loginTwoFactor(data, getSessionContext(req));
 
     return ResponseHelper.success(
       res,
@@ -63,7 +103,7 @@ export class AuthController {
   refreshToken = catchAsync(async (req: Request, res: Response) => {
     const { refreshToken }: RefreshTokenDTO = req.body;
 
-    const tokens = await authService.refreshToken(refreshToken);
+    const tokens = await authService.refreshToken(refreshToken, getSessionContext(req));
 
     return ResponseHelper.success(
       res,
@@ -73,16 +113,18 @@ export class AuthController {
   });
 
   /**
-   * Logout user
+   * Logout user from the current session
    * POST /api/v1/auth/logout
    *
    * @requires Authentication
+   * @body {LogoutDTO} - Optional refresh token of the session
    * @returns {void}
    */
   logout = catchAsync(async (req: Request, res: Response) => {
     const { user } = req as AuthRequest;
+    const { refreshToken }: LogoutDTO = req.body;
 
-    await authService.logout(user.id);
+    await authService.logout(user.id, user.sessionId, refreshToken);
 
     return ResponseHelper.success(
       res,
@@ -91,6 +133,25 @@ export class AuthController {
     );
   });
 
+  /**
+   * Logout user from every session
+   * POST /api/v1/auth/logout-all
+   *
+   * @requires Authentication
+   * @returns {Object} - Number of revoked tokens
+   */
+  logoutAll = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+
+    const revokedTokens = await authService.logoutAll(user.id);
+
+    return ResponseHelper.success(
+      res,
+      { revokedTokens },
+      'Logged out from all devices'
+    );
+  });
+
   /**
    * Change password
    * POST /api/v1/auth/change-password
@@ -131,6 +192,23 @@ export class AuthController {
     );
   });
 
+  /**
+   * Get login history of the current user
+   * GET /api/v1/auth/login-history
+   *
+   * @requires Authentication
+   * @query {LoginHistoryQueryDTO} - Filter and pagination parameters
+   * @returns {PaginatedLoginHistory} - Login attempts, newest first
+   */
+  getLoginHistory = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const query = req.query as unknown as LoginHistoryQueryDTO;
+
+    const history = await authService.getLoginHistory(user.id, query);
+
+    return ResponseHelper.success(res, history, 'Login history retrieved successfully');
+  });
+
   /**
    * Validate token
    * GET /api/v1/auth/validate
@@ -153,6 +231,107 @@ export class AuthController {
     );
   });
 
+  /**
+   * Get two-factor status
+   * GET /api/v1/auth/2fa
+   *
+   * @requires Authentication
+   * @returns {TwoFactorStatus} - Enabled, required and remaining recovery codes
+   */
+  getTwoFactorStatus = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+
+    const status = await twoFactorService.getStatus(user.id);
+
+    return ResponseHelper.success(
+      res,
+      status,
+      'Two-factor status retrieved successfully'
+    );
+  });
+
+  /**
+   * Start two-factor enrollment
+   * POST /api/v1/auth/2fa/setup
+   *
+   * @requires Authentication
+   * @returns {TwoFactorSetupResponse} - Secret and otpauth URI for the QR code
+   */
+  setupTwoFactor = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+
+    const setup = await twoFactorService.setup(user.id);
+
+    return ResponseHelper.success(
+      res,
+      setup,
+      'Scan the QR code and confirm with a code from your authenticator app'
+    );
+  });
+
+  /**
+   * Confirm two-factor enrollment
+   * POST /api/v1/auth/2fa/verify
+   *
+   * @requires Authentication
+   * @body {TwoFactorCodeDTO} - TOTP code
+   * @returns {RecoveryCodesResponse} - Recovery codes (shown once)
+   */
+  confirmTwoFactor = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { code }: TwoFactorCodeDTO = req.body;
+
+    const result = await twoFactorService.confirm(user.id, code);
+
+    return ResponseHelper.success(
+      res,
+      result,
+      'Two-factor authentication enabled. Store your recovery codes in a safe place'
+    );
+  });
+
+  /**
+   * Disable two-factor authentication
+   * POST /api/v1/auth/2fa/disable
+   *
+   * @requires Authentication
+   * @body {DisableTwoFactorDTO} - Password and TOTP code
+   * @returns {void}
+   */
+  disableTwoFactor = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { password, code }: DisableTwoFactorDTO = req.body;
+
+    await twoFactorService.disable(user.id, password, code);
+
+    return ResponseHelper.success(
+      res,
+      null,
+      'Two-factor authentication disabled'
+    );
+  });
+
+  /**
+   * Regenerate recovery codes
+   * POST /api/v1/auth/2fa/recovery-codes
+   *
+   * @requires Authentication
+   * @body {TwoFactorCodeDTO} - TOTP code
+   * @returns {RecoveryCodesResponse} - New recovery codes (shown once)
+   */
+  regenerateRecoveryCodes = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { code }: TwoFactorCodeDTO = req.body;
+
+    const result = await twoFactorService.regenerateRecoveryCodes(user.id, code);
+
+    return ResponseHelper.success(
+      res,
+      result,
+      'Recovery codes regenerated. Previous codes no longer work'
+    );
+  });
+
   /**
    * Request password reset
    * POST /api/v1/auth/forgot-password
@@ -163,7 +342,7 @@ export class AuthController {
   forgotPassword = catchAsync(async (req: Request, res: Response) => {
     const { email } = req.body;
 
-    await authService.generatePasswordResetToken(email);
+    await authService.requestPasswordReset(email);
 
     // Always return success to prevent email enumeration
     return ResponseHelper.success(
@@ -191,6 +370,41 @@ export class AuthController {
       'Password reset successfully. You can now login with your new password'
     );
   });
+
+  /**
+   * Verify email address
+   * POST /api/v1/auth/verify-email
+   *
+   * @body {VerifyEmailDTO} - Verification token from the email
+   * @returns {void}
+   */
+  verifyEmail = catchAsync(async (req: Request, res: Response) => {
+    const { token }: VerifyEmailDTO = req.body;
+
+    await authService.verifyEmail(token);
+
+    return ResponseHelper.success(res, null, 'Email verified successfully. You can now login');
+  });
+
+  /**
+   * Resend verification email
+   * POST /api/v1/auth/resend-verification
+   *
+   * @body {ResendVerificationDTO} - Account email
+   * @returns {void}
+   */
+  resendVerification = catchAsync(async (req: Request, res: Response) => {
+    const { email }: ResendVerificationDTO = req.body;
+
+    await authService.resendVerificationEmail(email);
+
+    // Always return success to prevent email enumeration
+    return ResponseHelper.success(
+      res,
+      null,
+      'If the account exists and is not verified, a new verification link has been sent'
+    );
+  });
 }
 
 // Export singleton instance
@@ -0,0 +1,314 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { catalogService } from '@services/catalog.service';
+import { AuthRequest } from '@middleware/auth';
+import type {
+  Cie10QueryDTO,
+  CreateCie10CodeDTO,
+  UpdateCie10CodeDTO,
+  ImportCie10DTO,
+  TreatmentCatalogQueryDTO,
+  CreateTreatmentCatalogDTO,
+  UpdateTreatmentCatalogDTO,
+  PriceListsQueryDTO,
+  CreatePriceListDTO,
+  UpdatePriceListDTO,
+  CreatePriceListItemDTO,
+  PatientPricesQueryDTO,
+} from '../types/catalog.types';
+
+/**
+ * Catalog Controller
+ * Handles all HTTP requests related to the CIE-10 and treatment catalogs and
+ * the price lists
+ */
+export class CatalogController {
+  /**
+   * ============================================
+   * CIE-10 ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Search CIE-10 codes
+   * GET /api/v1/catalogs/cie10
+   */
+  getCie10Codes = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as Cie10QueryDTO;
+
+    const result = await catalogService.getCie10Codes({
+      filters: {
+        search: query.search,
+        category: query.category,
+      },
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 20,
+      },
+    });
+
+    return ResponseHelper.success(res, result, 'CIE-10 codes retrieved successfully');
+  });
+
+  /**
+   * Get CIE-10 code
+   * GET /api/v1/catalogs/cie10/:code
+   */
+  getCie10Code = catchAsync(async (req: Request, res: Response) => {
+    const code = req.params.code as string;
+
+    const cie10 = await catalogService.getCie10Code(code);
+
+    return ResponseHelper.success(res, cie10, 'CIE-10 code retrieved successfully');
+  });
+
+  /**
+   * Create CIE-10 code
+   * POST /api/v1/catalogs/cie10
+   */
+  createCie10Code = catchAsync(async (req: Request, res: Response) => {
+    const data: CreateCie10CodeDTO = req.body;
+
+    const cie10 = await catalogService.createCie10Code(data);
+
+    return ResponseHelper.created(res, cie10, 'CIE-10 code created successfully');
+  });
+
+  /**
+   * Update CIE-10 code
+   * PUT /api/v1/catalogs/cie10/:code
+   */
+  updateCie10Code = catchAsync(async (req: Request, res: Response) => {
+    const code = req.params.code as string;
+    const data: UpdateCie10CodeDTO = req.body;
+
+    const cie10 = await catalogService.updateCie10Code(code, data);
+
+    return ResponseHelper.success(res, cie10, 'CIE-10 code updated successfully');
+  });
+
+  /**
+   * Delete CIE-10 code
+   * DELETE /api/v1/catalogs/cie10/:code
+   */
+  deleteCie10Code = catchAsync(async (req: Request, res: Response) => {
+    const code = req.params.code as string;
+
+    await catalogService.deleteCie10Code(code);
+
+    return ResponseHelper.success(res, null, 'CIE-10 code deleted successfully');
+  });
+
+  /**
+   * Import the K00–K14 chapter from CSV
+   * POST /api/v1/catalogs/cie10/import
+   */
+  importCie10Codes = catchAsync(async (req: Request, res: Response) => {
+    const { csv }: ImportCie10DTO = req.body;
+
+    const result = await catalogService.importCie10Codes(csv);
+
+    return ResponseHelper.success(res, result, 'CIE-10 codes imported successfully');
+  });
+
+  /**
+   * ============================================
+   * TREATMENT CATALOG ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Search catalog treatments
+   * GET /api/v1/catalogs/treatments
+   */
+  getTreatments = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as TreatmentCatalogQueryDTO;
+
+    const result = await catalogService.getTreatments({
+      filters: {
+        search: query.search,
+        category: query.category,
+        includeInactive: query.includeInactive,
+      },
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 20,
+      },
+    });
+
+    return ResponseHelper.success(res, result, 'Treatment catalog retrieved successfully');
+  });
+
+  /**
+   * Get catalog treatment
+   * GET /api/v1/catalogs/treatments/:id
+   */
+  getTreatmentById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const item = await catalogService.getTreatmentById(id);
+
+    return ResponseHelper.success(res, item, 'Treatment catalog item retrieved successfully');
+  });
+
+  /**
+   * Get price history of a catalog treatment
+   * GET /api/v1/catalogs/treatments/:id/prices
+   */
+  getPriceHistory = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const prices = await catalogService.getPriceHistory(id);
+
+    return ResponseHelper.success(res, prices, 'Price history retrieved successfully');
+  });
+
+  /**
+   * Create catalog treatment
+   * POST /api/v1/catalogs/treatments
+   */
+  createTreatment = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const data: CreateTreatmentCatalogDTO = req.body;
+
+    const item = await catalogService.createTreatment(data, user.id);
+
+    return ResponseHelper.created(res, item, 'Treatment catalog item created successfully');
+  });
+
+  /**
+   * Update catalog treatment
+   * PUT /api/v1/catalogs/treatments/:id
+   */
+  updateTreatment = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const id = req.params.id as string;
+    const data: UpdateTreatmentCatalogDTO = req.body;
+
+    const item = await catalogService.updateTreatment(id, data, user.id);
+
+    return ResponseHelper.success(res, item, 'Treatment catalog item updated successfully');
+  });
+
+  /**
+   * Deactivate catalog treatment
+   * DELETE /api/v1/catalogs/treatments/:id
+   */
+  deactivateTreatment = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const id = req.params.id as string;
+
+    const item = await catalogService.deactivateTreatment(id, user.id);
+
+    return ResponseHelper.success(res, item, 'Treatment catalog item deactivated successfully');
+  });
+
+  /**
+   * ============================================
+   * PRICE LIST ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Get price lists
+   * GET /api/v1/catalogs/price-lists
+   */
+  getPriceLists = catchAsync(async (req: Request, res: Response) => {
+    const { includeInactive } = req.query as unknown as PriceListsQueryDTO;
+
+    const lists = await catalogService.getPriceLists(includeInactive);
+
+    return ResponseHelper.success(res, lists, 'Price lists retrieved successfully');
+  });
+
+  /**
+   * Get price list with its prices
+   * GET /api/v1/catalogs/price-lists/:id
+   */
+  getPriceListById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const list = await catalogService.getPriceListById(id);
+
+    return ResponseHelper.success(res, list, 'Price list retrieved successfully');
+  });
+
+  /**
+   * Create price list
+   * POST /api/v1/catalogs/price-lists
+   */
+  createPriceList = catchAsync(async (req: Request, res: Response) => {
+    const data: CreatePriceListDTO = req.body;
+
+    const list = await catalogService.createPriceList(data);
+
+    return ResponseHelper.created(res, list, 'Price list created successfully');
+  });
+
+  /**
+   * Update price list
+   * PUT /api/v1/catalogs/price-lists/:id
+   */
+  updatePriceList = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: UpdatePriceListDTO = req.body;
+
+    const list = await catalogService.updatePriceList(id, data);
+
+    return ResponseHelper.success(res, list, 'Price list updated successfully');
+  });
+
+  /**
+   * Deactivate price list
+   * DELETE /api/v1/catalogs/price-lists/:id
+   */
+  deactivatePriceList = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const list = await catalogService.deactivatePriceList(id);
+
+    return ResponseHelper.success(res, list, 'Price list deactivated successfully');
+  });
+
+  /**
+   * Add the price of a catalog treatment to a list
+   * POST /api/v1/catalogs/price-lists/:id/items
+   */
+  addPriceListItem = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: CreatePriceListItemDTO = req.body;
+
+    const item = await catalogService.addPriceListItem(id, data);
+
+    return ResponseHelper.created(res, item, 'Price list item added successfully');
+  });
+
+  /**
+   * Remove the price of a catalog treatment from a list
+   * DELETE /api/v1/catalogs/price-lists/:id/items/:itemId
+   */
+  removePriceListItem = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const itemId = req.params.itemId as string;
+
+    await catalogService.removePriceListItem(id, itemId);
+
+    return ResponseHelper.success(res, null, 'Price list item removed successfully');
+  });
+
+  /**
+   * Get the price list of a patient and the resulting prices
+   * GET /api/v1/catalogs/patients/:patientId/prices
+   */
+  getPatientPrices = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+    const { catalogIds } = req.query as unknown as PatientPricesQueryDTO;
+
+    const result = await catalogService.getPatientPrices(patientId, catalogIds);
+
+    return ResponseHelper.success(res, result, 'Patient prices retrieved successfully');
+  });
+}
+
+export const catalogController = new CatalogController();
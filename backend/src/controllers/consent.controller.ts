@@ -0,0 +1,180 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { consentService } from '@services/consent.service';
+import { AuthRequest } from '@middleware/auth';
+import type {
+  CreateConsentTemplateDTO,
+  UpdateConsentTemplateDTO,
+  ConsentTemplatesQueryDTO,
+  PreviewConsentQueryDTO,
+  SignConsentDTO,
+} from '../types/consent.types';
+
+/**
+ * Consent Controller
+ * Handles all HTTP requests related to informed consents
+ */
+export class ConsentController {
+  /**
+   * ============================================
+   * TEMPLATE ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Get templates
+   * GET /api/v1/consents/templates
+   */
+  getTemplates = catchAsync(async (req: Request, res: Response) => {
+    const { includeInactive } = req.query as unknown as ConsentTemplatesQueryDTO;
+
+    const templates = await consentService.getTemplates(includeInactive);
+
+    return ResponseHelper.success(
+      res,
+      templates,
+      'Consent templates retrieved successfully'
+    );
+  });
+
+  /**
+   * Get template by ID
+   * GET /api/v1/consents/templates/:id
+   */
+  getTemplateById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const template = await consentService.getTemplateById(id);
+
+    return ResponseHelper.success(
+      res,
+      template,
+      'Consent template retrieved successfully'
+    );
+  });
+
+  /**
+   * Create template
+   * POST /api/v1/consents/templates
+   */
+  createTemplate = catchAsync(async (req: Request, res: Response) => {
+    const data: CreateConsentTemplateDTO = req.body;
+
+    const template = await consentService.createTemplate(data);
+
+    return ResponseHelper.created(
+      res,
+      template,
+      'Consent template created successfully'
+    );
+  });
+
+  /**
+   * Update template
+   * PUT /api/v1/consents/templates/:id
+   */
+  updateTemplate = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: UpdateConsentTemplateDTO = req.body;
+
+    const template = await consentService.updateTemplate(id, data);
+
+    return ResponseHelper.success(
+      res,
+      template,
+      'Consent template updated successfully'
+    );
+  });
+
+  /**
+   * ============================================
+   * CONSENT ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Get signed consents of a patient
+   * GET /api/v1/consents/patients/:patientId/consents
+   */
+  getPatientConsents = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+
+    const consents = await consentService.getPatientConsents(patientId);
+
+    return ResponseHelper.success(
+      res,
+      consents,
+      'Consents retrieved successfully'
+    );
+  });
+
+  /**
+   * Preview the document to be signed
+   * GET /api/v1/consents/patients/:patientId/preview?category=...
+   */
+  previewConsent = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+    const query = req.query as unknown as PreviewConsentQueryDTO;
+
+    const preview = await consentService.previewConsent(patientId, query);
+
+    return ResponseHelper.success(
+      res,
+      preview,
+      'Consent document generated successfully'
+    );
+  });
+
+  /**
+   * Sign a consent
+   * POST /api/v1/consents/patients/:patientId/consents
+   */
+  signConsent = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+    const { user } = req as AuthRequest;
+    const data: SignConsentDTO = req.body;
+
+    const consent = await consentService.signConsent(patientId, user.id, data);
+
+    return ResponseHelper.created(
+      res,
+      consent,
+      'Consent signed successfully'
+    );
+  });
+
+  /**
+   * Get signed consent with document and signature
+   * GET /api/v1/consents/:id
+   */
+  getConsentById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const consent = await consentService.getConsentById(id);
+
+    return ResponseHelper.success(
+      res,
+      consent,
+      'Consent retrieved successfully'
+    );
+  });
+
+  /**
+   * Verify the integrity of a signed consent
+   * GET /api/v1/consents/:id/verify
+   */
+  verifyConsent = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const verification = await consentService.verifyConsent(id);
+
+    return ResponseHelper.success(
+      res,
+      verification,
+      verification.valid ? 'Consent is intact' : 'Consent has been altered'
+    );
+  });
+}
+
+export const consentController = new ConsentController();
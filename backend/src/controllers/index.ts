@@ -7,6 +7,14 @@ export * from './auth.controller';
 export * from './patient.controller';
 export * from './appointment.controller';
 export * from './odontogram.controller';
-// export * from './user.controller';
+export * from './periodontogram.controller';
+export * from './role.controller';
+export * from './user.controller';
+export * from './schedule.controller';
+export * from './audit.controller';
+export * from './consent.controller';
+export * from './catalog.controller';
+export * from './insurance.controller';
+export * from './reminder.controller';
 // export * from './treatment.controller';
 // export * from './invoice.controller';
@@ -0,0 +1,267 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { insuranceService } from '@services/insurance.service';
+import { AuthRequest } from '@middleware/auth';
+import type {
+  InsurersQueryDTO,
+  CreateInsurerDTO,
+  UpdateInsurerDTO,
+  CreateInsurancePlanDTO,
+  UpdateInsurancePlanDTO,
+  ClaimsQueryDTO,
+  CreateClaimDTO,
+  SubmitClaimDTO,
+  ApproveClaimDTO,
+  DenyClaimDTO,
+  CreateClaimPaymentDTO,
+} from '../types/insurance.types';
+
+/**
+ * Insurance Controller
+ * Handles all HTTP requests related to insurers, their plans and claims
+ */
+export class InsuranceController {
+  /**
+   * ============================================
+   * INSURER ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Get insurers
+   * GET /api/v1/insurance/insurers
+   */
+  getInsurers = catchAsync(async (req: Request, res: Response) => {
+    const { includeInactive } = req.query as unknown as InsurersQueryDTO;
+
+    const insurers = await insuranceService.getInsurers(includeInactive);
+
+    return ResponseHelper.success(res, insurers, 'Insurers retrieved successfully');
+  });
+
+  /**
+   * Get insurer with its plans
+   * GET /api/v1/insurance/insurers/:id
+   */
+  getInsurerById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const insurer = await insuranceService.getInsurerById(id);
+
+    return ResponseHelper.success(res, insurer, 'Insurer retrieved successfully');
+  });
+
+  /**
+   * Create insurer
+   * POST /api/v1/insurance/insurers
+   */
+  createInsurer = catchAsync(async (req: Request, res: Response) => {
+    const data: CreateInsurerDTO = req.body;
+
+    const insurer = await insuranceService.createInsurer(data);
+
+    return ResponseHelper.created(res, insurer, 'Insurer created successfully');
+  });
+
+  /**
+   * Update insurer
+   * PUT /api/v1/insurance/insurers/:id
+   */
+  updateInsurer = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: UpdateInsurerDTO = req.body;
+
+    const insurer = await insuranceService.updateInsurer(id, data);
+
+    return ResponseHelper.success(res, insurer, 'Insurer updated successfully');
+  });
+
+  /**
+   * Deactivate insurer
+   * DELETE /api/v1/insurance/insurers/:id
+   */
+  deactivateInsurer = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const insurer = await insuranceService.deactivateInsurer(id);
+
+    return ResponseHelper.success(res, insurer, 'Insurer deactivated successfully');
+  });
+
+  /**
+   * ============================================
+   * PLAN ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Create plan of an insurer
+   * POST /api/v1/insurance/insurers/:id/plans
+   */
+  createPlan = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: CreateInsurancePlanDTO = req.body;
+
+    const plan = await insuranceService.createPlan(id, data);
+
+    return ResponseHelper.created(res, plan, 'Insurance plan created successfully');
+  });
+
+  /**
+   * Get plan with its coverage rules
+   * GET /api/v1/insurance/plans/:id
+   */
+  getPlanById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const plan = await insuranceService.getPlanById(id);
+
+    return ResponseHelper.success(res, plan, 'Insurance plan retrieved successfully');
+  });
+
+  /**
+   * Update plan
+   * PUT /api/v1/insurance/plans/:id
+   */
+  updatePlan = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: UpdateInsurancePlanDTO = req.body;
+
+    const plan = await insuranceService.updatePlan(id, data);
+
+    return ResponseHelper.success(res, plan, 'Insurance plan updated successfully');
+  });
+
+  /**
+   * Get the split of a treatment cost between insurer and patient
+   * GET /api/v1/insurance/treatments/:id/coverage
+   */
+  getTreatmentCoverage = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const coverage = await insuranceService.getTreatmentCoverage(id);
+
+    return ResponseHelper.success(res, coverage, 'Treatment coverage retrieved successfully');
+  });
+
+  /**
+   * ============================================
+   * CLAIM ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Get claims
+   * GET /api/v1/insurance/claims
+   */
+  getClaims = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as ClaimsQueryDTO;
+
+    const result = await insuranceService.getClaims({
+      filters: {
+        status: query.status,
+        patientId: query.patientId,
+        insurerId: query.insurerId,
+      },
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 20,
+      },
+    });
+
+    return ResponseHelper.success(res, result, 'Insurance claims retrieved successfully');
+  });
+
+  /**
+   * Get claim with its items and payments
+   * GET /api/v1/insurance/claims/:id
+   */
+  getClaimById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const claim = await insuranceService.getClaimById(id);
+
+    return ResponseHelper.success(res, claim, 'Insurance claim retrieved successfully');
+  });
+
+  /**
+   * Create draft claim
+   * POST /api/v1/insurance/claims
+   */
+  createClaim = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const data: CreateClaimDTO = req.body;
+
+    const claim = await insuranceService.createClaim(data, user.id);
+
+    return ResponseHelper.created(res, claim, 'Insurance claim created successfully');
+  });
+
+  /**
+   * Delete draft claim
+   * DELETE /api/v1/insurance/claims/:id
+   */
+  deleteClaim = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    await insuranceService.deleteClaim(id);
+
+    return ResponseHelper.success(res, null, 'Insurance claim deleted successfully');
+  });
+
+  /**
+   * Submit claim to the insurer
+   * POST /api/v1/insurance/claims/:id/submit
+   */
+  submitClaim = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: SubmitClaimDTO = req.body;
+
+    const claim = await insuranceService.submitClaim(id, data);
+
+    return ResponseHelper.success(res, claim, 'Insurance claim submitted successfully');
+  });
+
+  /**
+   * Record claim approval
+   * POST /api/v1/insurance/claims/:id/approve
+   */
+  approveClaim = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: ApproveClaimDTO = req.body;
+
+    const claim = await insuranceService.approveClaim(id, data);
+
+    return ResponseHelper.success(res, claim, 'Insurance claim approved successfully');
+  });
+
+  /**
+   * Record claim denial
+   * POST /api/v1/insurance/claims/:id/deny
+   */
+  denyClaim = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { reason }: DenyClaimDTO = req.body;
+
+    const claim = await insuranceService.denyClaim(id, reason);
+
+    return ResponseHelper.success(res, claim, 'Insurance claim denied successfully');
+  });
+
+  /**
+   * Post a remittance on a claim
+   * POST /api/v1/insurance/claims/:id/payments
+   */
+  createClaimPayment = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const id = req.params.id as string;
+    const data: CreateClaimPaymentDTO = req.body;
+
+    const payment = await insuranceService.createClaimPayment(id, data, user.id);
+
+    return ResponseHelper.created(res, payment, 'Insurance claim payment recorded successfully');
+  });
+}
+
+export const insuranceController = new InsuranceController();
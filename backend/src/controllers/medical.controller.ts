@@ -11,6 +11,8 @@ import type {
   UpdateTreatmentDTO,
   CreateTreatmentPlanDTO,
   UpdateTreatmentPlanDTO,
+  ApproveTreatmentPlanDTO,
+  RejectTreatmentPlanDTO,
 } from '../types/medical.types';
 
 /**
@@ -295,9 +297,10 @@ export class MedicalController {
    */
   createTreatmentPlan = catchAsync(async (req: Request, res: Response) => {
     const { patientId } = req.params;
+    const { user } = req as AuthRequest;
     const data: CreateTreatmentPlanDTO = req.body;
 
-    const plan = await medicalService.createTreatmentPlan(patientId!, data);
+    const plan = await medicalService.createTreatmentPlan(patientId!, user.id, data);
 
     return ResponseHelper.created(
       res,
@@ -323,6 +326,71 @@ export class MedicalController {
     );
   });
 
+  /**
+   * Download treatment plan quote (PDF)
+   * GET /api/v1/medical/treatment-plans/:id/quote
+   */
+  getTreatmentPlanQuote = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const file = await medicalService.getTreatmentPlanQuote(id);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.send(file.content);
+  });
+
+  /**
+   * Submit treatment plan for approval
+   * POST /api/v1/medical/treatment-plans/:id/submit
+   */
+  submitTreatmentPlan = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const plan = await medicalService.submitTreatmentPlan(id);
+
+    return ResponseHelper.success(
+      res,
+      plan,
+      'Treatment plan submitted for approval'
+    );
+  });
+
+  /**
+   * Approve treatment plan
+   * POST /api/v1/medical/treatment-plans/:id/approve
+   */
+  approveTreatmentPlan = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { user } = req as AuthRequest;
+    const data: ApproveTreatmentPlanDTO = req.body;
+
+    const plan = await medicalService.approveTreatmentPlan(id, user.id, data);
+
+    return ResponseHelper.success(
+      res,
+      plan,
+      `Treatment plan approved, ${plan.treatments.length} treatment(s) planned`
+    );
+  });
+
+  /**
+   * Reject treatment plan
+   * POST /api/v1/medical/treatment-plans/:id/reject
+   */
+  rejectTreatmentPlan = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: RejectTreatmentPlanDTO = req.body;
+
+    const plan = await medicalService.rejectTreatmentPlan(id, data);
+
+    return ResponseHelper.success(
+      res,
+      plan,
+      'Treatment plan rejected'
+    );
+  });
+
   /**
    * ============================================
    * COMPLETE HISTORY ENDPOINT
@@ -7,6 +7,8 @@ import type {
   CreateOdontogramDTO,
   UpdateOdontogramDTO,
   UpdateToothDTO,
+  ExportOdontogramQueryDTO,
+  OdontogramProposalQueryDTO,
 } from '../types/odontogram.types';
 
 /**
@@ -157,6 +159,21 @@ export class OdontogramController {
     );
   });
 
+  /**
+   * Export odontogram as a PDF or SVG chart
+   * GET /api/v1/odontograms/:id/export?format=pdf|svg
+   */
+  exportOdontogram = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const { format } = req.query as unknown as ExportOdontogramQueryDTO;
+
+    const file = await odontogramService.exportOdontogram(id, format);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.send(file.content);
+  });
+
   /**
    * ============================================
    * ODONTOGRAM CREATE/UPDATE ENDPOINTS
@@ -204,7 +221,7 @@ export class OdontogramController {
 
   /**
    * Update specific tooth in odontogram
-   * PATCH /api/v1/odontograms/:id/teeth/:toothNumber
+   * PUT /api/v1/odontograms/:id/teeth/:toothNumber
    */
   updateTooth = catchAsync(async (req: Request, res: Response) => {
     const id = req.params.id as string;
@@ -247,6 +264,63 @@ export class OdontogramController {
       'New odontogram version created successfully'
     );
   });
+
+  /**
+   * ============================================
+   * PROPOSAL ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Get chart changes proposed by completed treatments
+   * GET /api/v1/odontograms/patients/:patientId/proposals
+   */
+  getProposals = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+    const { status } = req.query as unknown as OdontogramProposalQueryDTO;
+
+    const proposals = await odontogramService.getProposals(patientId, status);
+
+    return ResponseHelper.success(
+      res,
+      proposals,
+      'Odontogram proposals retrieved successfully'
+    );
+  });
+
+  /**
+   * Apply a proposal as a new odontogram version
+   * POST /api/v1/odontograms/proposals/:proposalId/apply
+   */
+  applyProposal = catchAsync(async (req: Request, res: Response) => {
+    const proposalId = req.params.proposalId as string;
+    const { user } = req as AuthRequest;
+
+    const result = await odontogramService.applyProposal(proposalId, user.id);
+
+    return ResponseHelper.created(
+      res,
+      result,
+      'Odontogram proposal applied successfully (new version created)'
+    );
+  });
+
+  /**
+   * Dismiss a proposal
+   * POST /api/v1/odontograms/proposals/:proposalId/dismiss
+   */
+  dismissProposal = catchAsync(async (req: Request, res: Response) => {
+    const proposalId = req.params.proposalId as string;
+    const { user } = req as AuthRequest;
+
+    const proposal = await odontogramService.dismissProposal(proposalId, user.id);
+
+    return ResponseHelper.success(
+      res,
+      proposal,
+      'Odontogram proposal dismissed successfully'
+    );
+  });
 }
 
 export const odontogramController = new OdontogramController();
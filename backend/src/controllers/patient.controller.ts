@@ -2,12 +2,14 @@ import { Request, Response } from 'express';
 import { catchAsync } from '@utils/catchAsync';
 import { ResponseHelper } from '@utils/response';
 import { patientService } from '@services/patient.service';
+import { auditService } from '@services/audit.service';
 import type {
   CreatePatientDTO,
   UpdatePatientDTO,
   SearchPatientsDTO,
   PatientListOptions,
 } from '../types/patient.types';
+import type { PatientAccessLogQueryDTO } from '../types/audit.types';
 
 /**
  * Patient Controller
@@ -208,6 +210,34 @@ export class PatientController {
     );
   });
 
+  /**
+   * Get who viewed the patient's clinical record
+   * GET /api/v1/patients/:id/access-log
+   *
+   * @param {string} id - Patient ID
+   * @query {PatientAccessLogQueryDTO} - User, resource and date range filters
+   * @returns {PaginatedPatientAccessLogResponse} - Accesses, newest first
+   */
+  getAccessLog = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const query = req.query as unknown as PatientAccessLogQueryDTO;
+
+    const result = await auditService.getPatientAccessLog(id as string, {
+      filters: {
+        userId: query.userId,
+        resource: query.resource,
+        startDate: query.startDate,
+        endDate: query.endDate,
+      },
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 20,
+      },
+    });
+
+    return ResponseHelper.success(res, result, 'Patient access log retrieved successfully');
+  });
+
   /**
    * Get patient appointments
    * GET /api/v1/patients/:id/appointments
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { periodontogramService } from '@services/periodontogram.service';
+import { AuthRequest } from '@middleware/auth';
+import type {
+  CreatePeriodontogramDTO,
+  UpdatePeriodontogramDTO,
+  UpdatePeriodontalToothDTO,
+  ComparePeriodontogramsDTO,
+} from '../types/periodontogram.types';
+
+/**
+ * Periodontogram Controller
+ * Handles all HTTP requests related to periodontal charts
+ */
+export class PeriodontogramController {
+  /**
+   * ============================================
+   * QUERY ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Get all exams of a patient
+   * GET /api/v1/periodontograms/patients/:patientId/periodontograms
+   */
+  getPeriodontograms = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+
+    const periodontograms = await periodontogramService.getPeriodontogramsByPatient(patientId);
+
+    return ResponseHelper.success(
+      res,
+      periodontograms,
+      'Periodontograms retrieved successfully'
+    );
+  });
+
+  /**
+   * Get the current periodontogram of a patient
+   * GET /api/v1/periodontograms/patients/:patientId/periodontograms/current
+   */
+  getCurrentPeriodontogram = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+
+    const periodontogram = await periodontogramService.getCurrentPeriodontogram(patientId);
+
+    return ResponseHelper.success(
+      res,
+      periodontogram,
+      periodontogram
+        ? 'Current periodontogram retrieved successfully'
+        : 'No current periodontogram found for this patient'
+    );
+  });
+
+  /**
+   * Get periodontogram by ID with teeth and indices
+   * GET /api/v1/periodontograms/:id
+   */
+  getPeriodontogramById = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    const periodontogram = await periodontogramService.getPeriodontogramById(id);
+
+    return ResponseHelper.success(
+      res,
+      periodontogram,
+      'Periodontogram retrieved successfully'
+    );
+  });
+
+  /**
+   * Compare two exams
+   * GET /api/v1/periodontograms/compare?p1=uuid&p2=uuid
+   */
+  comparePeriodontograms = catchAsync(async (req: Request, res: Response) => {
+    const { p1, p2 } = req.query as unknown as ComparePeriodontogramsDTO;
+
+    const comparison = await periodontogramService.comparePeriodontograms(p1, p2);
+
+    return ResponseHelper.success(
+      res,
+      comparison,
+      'Comparison completed successfully'
+    );
+  });
+
+  /**
+   * ============================================
+   * CREATE/UPDATE/DELETE ENDPOINTS
+   * ============================================
+   */
+
+  /**
+   * Record a new exam
+   * POST /api/v1/periodontograms/patients/:patientId/periodontograms
+   */
+  createPeriodontogram = catchAsync(async (req: Request, res: Response) => {
+    const patientId = req.params.patientId as string;
+    const { user } = req as AuthRequest;
+    const data: CreatePeriodontogramDTO = req.body;
+
+    const periodontogram = await periodontogramService.createPeriodontogram(
+      patientId,
+      user.id,
+      data
+    );
+
+    return ResponseHelper.created(
+      res,
+      periodontogram,
+      'Periodontogram created successfully'
+    );
+  });
+
+  /**
+   * Update exam date or notes
+   * PUT /api/v1/periodontograms/:id
+   */
+  updatePeriodontogram = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const data: UpdatePeriodontogramDTO = req.body;
+
+    const periodontogram = await periodontogramService.updatePeriodontogram(id, data);
+
+    return ResponseHelper.success(
+      res,
+      periodontogram,
+      'Periodontogram updated successfully'
+    );
+  });
+
+  /**
+   * Update the measurements of a tooth
+   * PUT /api/v1/periodontograms/:id/teeth/:toothNumber
+   */
+  updateTooth = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    const toothNumber = req.params.toothNumber as string;
+    const data: UpdatePeriodontalToothDTO = req.body;
+
+    const tooth = await periodontogramService.updateTooth(id, toothNumber, data);
+
+    return ResponseHelper.success(
+      res,
+      tooth,
+      `Tooth ${toothNumber} updated successfully`
+    );
+  });
+
+  /**
+   * Delete an exam
+   * DELETE /api/v1/periodontograms/:id
+   */
+  deletePeriodontogram = catchAsync(async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+
+    await periodontogramService.deletePeriodontogram(id);
+
+    return ResponseHelper.success(
+      res,
+      null,
+      'Periodontogram deleted successfully'
+    );
+  });
+}
+
+export const periodontogramController = new PeriodontogramController();
@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { reminderService } from '@services/reminder.service';
+import type { RemindersQueryDTO } from '../types/reminder.types';
+
+/**
+ * Reminder Controller
+ * Handles HTTP requests related to appointment reminders
+ */
+export class ReminderController {
+  /**
+   * Get reminder outcomes
+   * GET /api/v1/reminders
+   */
+  getReminders = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as RemindersQueryDTO;
+
+    const result = await reminderService.getReminders({
+      filters: {
+        status: query.status,
+        channel: query.channel,
+        appointmentId: query.appointmentId,
+        patientId: query.patientId,
+      },
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 20,
+      },
+    });
+
+    return ResponseHelper.success(res, result, 'Appointment reminders retrieved successfully');
+  });
+
+  /**
+   * Send the reminders due now without waiting for the scheduled job
+   * POST /api/v1/reminders/run
+   */
+  runReminders = catchAsync(async (_req: Request, res: Response) => {
+    const summary = await reminderService.runReminders();
+
+    return ResponseHelper.success(res, summary, 'Appointment reminders processed successfully');
+  });
+}
+
+export const reminderController = new ReminderController();
@@ -0,0 +1,159 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { roleService } from '@services/role.service';
+import { AuthRequest } from '@middleware/auth';
+import type {
+  CreateRoleDTO,
+  AttachPermissionsDTO,
+  TwoFactorRequirementDTO,
+} from '../types/role.types';
+
+/**
+ * Role Controller
+ * Handles all HTTP requests related to roles and permissions
+ */
+export class RoleController {
+  /**
+   * Get all roles
+   * GET /api/v1/roles
+   *
+   * @returns {RoleWithPermissions[]} - Roles with permissions and user count
+   */
+  getAll = catchAsync(async (_req: Request, res: Response) => {
+    const roles = await roleService.getAllRoles();
+
+    return ResponseHelper.success(res, roles, 'Roles retrieved successfully');
+  });
+
+  /**
+   * Get all permissions
+   * GET /api/v1/roles/permissions
+   *
+   * @returns {Permission[]} - Available permissions
+   */
+  getPermissions = catchAsync(async (_req: Request, res: Response) => {
+    const permissions = await roleService.getAllPermissions();
+
+    return ResponseHelper.success(
+      res,
+      permissions,
+      'Permissions retrieved successfully'
+    );
+  });
+
+  /**
+   * Get role by ID
+   * GET /api/v1/roles/:id
+   *
+   * @param {string} id - Role ID
+   * @returns {RoleWithPermissions} - Role details
+   */
+  getById = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const role = await roleService.getRoleById(id as string);
+
+    return ResponseHelper.success(res, role, 'Role retrieved successfully');
+  });
+
+  /**
+   * Create new role
+   * POST /api/v1/roles
+   *
+   * @body {CreateRoleDTO} - Role data
+   * @returns {RoleWithPermissions} - Created role
+   */
+  create = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const data: CreateRoleDTO = req.body;
+
+    const role = await roleService.createRole(data, user);
+
+    return ResponseHelper.created(res, role, 'Role created successfully');
+  });
+
+  /**
+   * Attach permissions to a role
+   * POST /api/v1/roles/:id/permissions
+   *
+   * @param {string} id - Role ID
+   * @body {AttachPermissionsDTO} - Permission IDs
+   * @returns {RoleWithPermissions} - Updated role
+   */
+  attachPermissions = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id } = req.params;
+    const { permissionIds }: AttachPermissionsDTO = req.body;
+
+    const role = await roleService.attachPermissions(id as string, permissionIds, user);
+
+    return ResponseHelper.success(res, role, 'Permissions attached successfully');
+  });
+
+  /**
+   * Detach a permission from a role
+   * DELETE /api/v1/roles/:id/permissions/:permissionId
+   *
+   * @param {string} id - Role ID
+   * @param {string} permissionId - Permission ID
+   * @returns {RoleWithPermissions} - Updated role
+   */
+  detachPermission = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id, permissionId } = req.params;
+
+    const role = await roleService.detachPermission(
+      id as string,
+      permissionId as string,
+      user
+    );
+
+    return ResponseHelper.success(res, role, 'Permission detached successfully');
+  });
+
+  /**
+   * Require two-factor authentication for a role
+   * PUT /api/v1/roles/:id/two-factor
+   *
+   * @param {string} id - Role ID
+   * @body {TwoFactorRequirementDTO} - Whether 2FA is required
+   * @returns {RoleWithPermissions} - Updated role
+   */
+  setTwoFactorRequirement = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id } = req.params;
+    const { required }: TwoFactorRequirementDTO = req.body;
+
+    const role = await roleService.setTwoFactorRequirement(id as string, required, user);
+
+    return ResponseHelper.success(
+      res,
+      role,
+      required
+        ? 'Two-factor authentication is now required for this role'
+        : 'Two-factor authentication is no longer required for this role'
+    );
+  });
+
+  /**
+   * Assign a role to a user
+   * PUT /api/v1/roles/:id/users/:userId
+   *
+   * @param {string} id - Role ID
+   * @param {string} userId - User ID
+   * @returns {RoleWithPermissions} - Assigned role
+   */
+  assignToUser = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id, userId } = req.params;
+
+    const role = await roleService.assignRoleToUser(id as string, userId as string, user);
+
+    return ResponseHelper.success(res, role, 'Role assigned successfully');
+  });
+}
+
+// Export singleton instance
+export const roleController = new RoleController();
+export default roleController;
@@ -0,0 +1,198 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { scheduleService } from '@services/schedule.service';
+import type {
+  UpsertWorkScheduleDTO,
+  SetWeeklyScheduleDTO,
+  CreateBlockedTimeDTO,
+  UpdateBlockedTimeDTO,
+  ListBlockedTimesDTO,
+  BlockedTimeResult,
+} from '../types/schedule.types';
+
+/**
+ * Build the response message for a created or updated blocked time
+ */
+const blockedTimeMessage = (action: string, result: BlockedTimeResult): string => {
+  const count = result.overlappingAppointments.length;
+
+  if (count === 0) {
+    return `Blocked time ${action} successfully`;
+  }
+
+  return `Blocked time ${action} successfully. ${count} appointment(s) overlap and should be rescheduled`;
+};
+
+/**
+ * Schedule Controller
+ * Handles HTTP requests for doctor work schedules and blocked times
+ */
+export class ScheduleController {
+  // ============================================
+  // WORK SCHEDULES
+  // ============================================
+
+  /**
+   * Get weekly work schedule of a doctor
+   * GET /api/v1/schedules/doctors/:doctorId/work-schedule
+   *
+   * @param {string} doctorId - Doctor ID
+   * @returns {WeeklyScheduleResponse} - Working hours per day
+   */
+  getWeeklySchedule = catchAsync(async (req: Request, res: Response) => {
+    const { doctorId } = req.params;
+
+    const schedule = await scheduleService.getWeeklySchedule(doctorId as string);
+
+    return ResponseHelper.success(res, schedule, 'Work schedule retrieved successfully');
+  });
+
+  /**
+   * Replace weekly work schedule of a doctor
+   * PUT /api/v1/schedules/doctors/:doctorId/work-schedule
+   *
+   * @param {string} doctorId - Doctor ID
+   * @body {SetWeeklyScheduleDTO} - Working hours per day
+   * @returns {WeeklyScheduleResponse} - New weekly schedule
+   */
+  setWeeklySchedule = catchAsync(async (req: Request, res: Response) => {
+    const { doctorId } = req.params;
+    const { days }: SetWeeklyScheduleDTO = req.body;
+
+    const schedule = await scheduleService.setWeeklySchedule(doctorId as string, days);
+
+    return ResponseHelper.success(res, schedule, 'Work schedule updated successfully');
+  });
+
+  /**
+   * Create or update one day of the work schedule
+   * PUT /api/v1/schedules/doctors/:doctorId/work-schedule/:dayOfWeek
+   *
+   * @param {string} doctorId - Doctor ID
+   * @param {number} dayOfWeek - 0 (Sunday) - 6 (Saturday)
+   * @body {UpsertWorkScheduleDTO} - Working hours
+   * @returns {WorkSchedule} - Work schedule day
+   */
+  upsertWorkScheduleDay = catchAsync(async (req: Request, res: Response) => {
+    const { doctorId, dayOfWeek } = req.params as unknown as {
+      doctorId: string;
+      dayOfWeek: number;
+    };
+    const data: UpsertWorkScheduleDTO = req.body;
+
+    const schedule = await scheduleService.upsertWorkScheduleDay(doctorId, dayOfWeek, data);
+
+    return ResponseHelper.success(res, schedule, 'Work schedule updated successfully');
+  });
+
+  /**
+   * Remove one day from the work schedule
+   * DELETE /api/v1/schedules/doctors/:doctorId/work-schedule/:dayOfWeek
+   *
+   * @param {string} doctorId - Doctor ID
+   * @param {number} dayOfWeek - 0 (Sunday) - 6 (Saturday)
+   * @returns {void}
+   */
+  deleteWorkScheduleDay = catchAsync(async (req: Request, res: Response) => {
+    const { doctorId, dayOfWeek } = req.params as unknown as {
+      doctorId: string;
+      dayOfWeek: number;
+    };
+
+    await scheduleService.deleteWorkScheduleDay(doctorId, dayOfWeek);
+
+    return ResponseHelper.success(res, null, 'Work schedule day removed successfully');
+  });
+
+  // ============================================
+  // BLOCKED TIMES
+  // ============================================
+
+  /**
+   * List blocked times of a doctor
+   * GET /api/v1/schedules/doctors/:doctorId/blocked-times
+   *
+   * @param {string} doctorId - Doctor ID
+   * @query {ListBlockedTimesDTO} - Optional date window
+   * @returns {BlockedTime[]} - Blocked times
+   */
+  listBlockedTimes = catchAsync(async (req: Request, res: Response) => {
+    const { doctorId } = req.params;
+    const { startDate, endDate } = req.query as ListBlockedTimesDTO;
+
+    const blockedTimes = await scheduleService.listBlockedTimes(
+      doctorId as string,
+      startDate,
+      endDate
+    );
+
+    return ResponseHelper.success(res, blockedTimes, 'Blocked times retrieved successfully');
+  });
+
+  /**
+   * Get blocked time by ID
+   * GET /api/v1/schedules/blocked-times/:id
+   *
+   * @param {string} id - Blocked time ID
+   * @returns {BlockedTime} - Blocked time
+   */
+  getBlockedTime = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const blockedTime = await scheduleService.getBlockedTimeById(id as string);
+
+    return ResponseHelper.success(res, blockedTime, 'Blocked time retrieved successfully');
+  });
+
+  /**
+   * Create blocked time
+   * POST /api/v1/schedules/blocked-times
+   *
+   * @body {CreateBlockedTimeDTO} - Blocked time data
+   * @returns {BlockedTimeResult} 201 - Blocked time and overlapping appointments
+   */
+  createBlockedTime = catchAsync(async (req: Request, res: Response) => {
+    const data: CreateBlockedTimeDTO = req.body;
+
+    const result = await scheduleService.createBlockedTime(data);
+
+    return ResponseHelper.created(res, result, blockedTimeMessage('created', result));
+  });
+
+  /**
+   * Update blocked time
+   * PUT /api/v1/schedules/blocked-times/:id
+   *
+   * @param {string} id - Blocked time ID
+   * @body {UpdateBlockedTimeDTO} - Fields to update
+   * @returns {BlockedTimeResult} - Blocked time and overlapping appointments
+   */
+  updateBlockedTime = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const data: UpdateBlockedTimeDTO = req.body;
+
+    const result = await scheduleService.updateBlockedTime(id as string, data);
+
+    return ResponseHelper.success(res, result, blockedTimeMessage('updated', result));
+  });
+
+  /**
+   * Delete blocked time
+   * DELETE /api/v1/schedules/blocked-times/:id
+   *
+   * @param {string} id - Blocked time ID
+   * @returns {void}
+   */
+  deleteBlockedTime = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await scheduleService.deleteBlockedTime(id as string);
+
+    return ResponseHelper.success(res, null, 'Blocked time deleted successfully');
+  });
+}
+
+// Export singleton instance
+export const scheduleController = new ScheduleController();
+export default scheduleController;
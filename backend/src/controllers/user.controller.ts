@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import { catchAsync } from '@utils/catchAsync';
+import { ResponseHelper } from '@utils/response';
+import { userService } from '@services/user.service';
+import { AuthRequest } from '@middleware/auth';
+import type {
+  SearchUsersDTO,
+  UpdateUserDTO,
+  AdminResetPasswordDTO,
+  UserListOptions,
+} from '../types/user.types';
+import type { LoginHistoryQueryDTO } from '../types/auth.types';
+
+/**
+ * User Controller
+ * Handles all HTTP requests related to staff users
+ */
+export class UserController {
+  /**
+   * Get all users with optional filters and pagination
+   * GET /api/v1/users
+   *
+   * @query {SearchUsersDTO} - Search and filter parameters
+   * @returns {PaginatedUserResponse} - List of users with pagination
+   */
+  getAll = catchAsync(async (req: Request, res: Response) => {
+    const query = req.query as unknown as SearchUsersDTO;
+
+    const options: UserListOptions = {
+      filters: {
+        search: query.search,
+        role: query.role,
+        isActive: query.isActive,
+        includeDeleted: query.includeDeleted,
+      },
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 10,
+      },
+      sorting: {
+        sortBy: query.sortBy || 'createdAt',
+        sortOrder: query.sortOrder || 'desc',
+      },
+    };
+
+    const result = await userService.getAllUsers(options);
+
+    return ResponseHelper.success(res, result, 'Users retrieved successfully');
+  });
+
+  /**
+   * Get active doctors
+   * GET /api/v1/users/doctors
+   *
+   * @returns {DoctorSummary[]} - Doctors for appointment pickers
+   */
+  getDoctors = catchAsync(async (_req: Request, res: Response) => {
+    const doctors = await userService.getDoctors();
+
+    return ResponseHelper.success(res, doctors, 'Doctors retrieved successfully');
+  });
+
+  /**
+   * Get user by ID
+   * GET /api/v1/users/:id
+   *
+   * @param {string} id - User ID
+   * @returns {SafeUserWithRole} - User details
+   */
+  getById = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const user = await userService.getUserById(id as string);
+
+    return ResponseHelper.success(res, user, 'User retrieved successfully');
+  });
+
+  /**
+   * Get login history of a user
+   * GET /api/v1/users/:id/login-history
+   *
+   * @param {string} id - User ID
+   * @query {LoginHistoryQueryDTO} - Filter and pagination parameters
+   * @returns {PaginatedLoginHistory} - Login attempts, newest first
+   */
+  getLoginHistory = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const query = req.query as unknown as LoginHistoryQueryDTO;
+
+    const history = await userService.getLoginHistory(id as string, query);
+
+    return ResponseHelper.success(res, history, 'Login history retrieved successfully');
+  });
+
+  /**
+   * Update user
+   * PUT /api/v1/users/:id
+   *
+   * @param {string} id - User ID
+   * @body {UpdateUserDTO} - Fields to update
+   * @returns {SafeUserWithRole} - Updated user
+   */
+  update = catchAsync(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const data: UpdateUserDTO = req.body;
+
+    const user = await userService.updateUser(id as string, data);
+
+    return ResponseHelper.success(res, user, 'User updated successfully');
+  });
+
+  /**
+   * Delete user (soft delete)
+   * DELETE /api/v1/users/:id
+   *
+   * @param {string} id - User ID
+   * @returns {void}
+   */
+  delete = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id } = req.params;
+
+    await userService.deleteUser(id as string, user.id);
+
+    return ResponseHelper.success(res, null, 'User deleted successfully');
+  });
+
+  /**
+   * Reactivate user
+   * POST /api/v1/users/:id/reactivate
+   *
+   * @param {string} id - User ID
+   * @returns {SafeUserWithRole} - Reactivated user
+   */
+  reactivate = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id } = req.params;
+
+    const reactivated = await userService.reactivateUser(id as string, user.id);
+
+    return ResponseHelper.success(res, reactivated, 'User reactivated successfully');
+  });
+
+  /**
+   * Reset user password as admin
+   * POST /api/v1/users/:id/reset-password
+   *
+   * @param {string} id - User ID
+   * @body {AdminResetPasswordDTO} - New password
+   * @returns {void}
+   */
+  resetPassword = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id } = req.params;
+    const { password }: AdminResetPasswordDTO = req.body;
+
+    await userService.resetUserPassword(id as string, password, user.id);
+
+    return ResponseHelper.success(
+      res,
+      null,
+      'Password reset successfully. The user must login again'
+    );
+  });
+
+  /**
+   * Unlock a user locked out by failed login attempts
+   * POST /api/v1/users/:id/unlock
+   *
+   * @param {string} id - User ID
+   * @returns {void}
+   */
+  unlock = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id } = req.params;
+
+    await userService.unlockUser(id as string, user.id);
+
+    return ResponseHelper.success(res, null, 'User unlocked successfully');
+  });
+
+  /**
+   * Reset two-factor authentication of a user
+   * DELETE /api/v1/users/:id/two-factor
+   *
+   * @param {string} id - User ID
+   * @returns {void}
+   */
+  resetTwoFactor = catchAsync(async (req: Request, res: Response) => {
+    const { user } = req as AuthRequest;
+    const { id } = req.params;
+
+    await userService.resetTwoFactor(id as string, user.id);
+
+    return ResponseHelper.success(
+      res,
+      null,
+      'Two-factor authentication reset successfully. The user must enroll again'
+    );
+  });
+}
+
+// Export singleton instance
+export const userController = new UserController();
+export default userController;
@@ -5,6 +5,7 @@ import { catchAsync } from '@utils/catchAsync';
 import { env } from '@config/env';
 import { prisma } from '@config/database';
 import { loggers } from '@utils/logger';
+import { setRequestUser } from '@utils/requestContext';
 
 /**
  * JWT Payload interface
@@ -13,6 +14,8 @@ export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string;
+  type?: string;
   iat?: number;
   exp?: number;
 }
@@ -27,7 +30,10 @@ export interface AuthRequest extends Request {
     role: string;
     firstName: string;
     lastName: string;
+    sessionId?: string;
+    twoFactorSetupRequired?: boolean;
   };
+  permissions?: Set<string>;
 }
 
 /**
@@ -54,9 +60,10 @@ const extractToken = (req: Request): string | null => {
  * Verify JWT token
  */
 const verifyToken = (token: string): JwtPayload => {
+  let decoded: JwtPayload;
+
   try {
-    const decoded = jwt.verify(token, env.JWT_SECRET) as JwtPayload;
-    return decoded;
+    decoded = jwt.verify(token, env.JWT_SECRET) as JwtPayload;
   } catch (error: any) {
     if (error?.name === 'TokenExpiredError') {
       throw ApiError.unauthorized('Token has expired');
@@ -66,6 +73,13 @@ const verifyToken = (token: string): JwtPayload => {
     }
     throw ApiError.unauthorized('Token verification failed');
   }
+
+  // Typed tokens (two-factor challenge, password reset) are not access tokens
+  if (decoded.type) {
+    throw ApiError.unauthorized('Invalid token');
+  }
+
+  return decoded;
 };
 
 /**
@@ -94,9 +108,21 @@ export const authenticate = catchAsync(async (req: Request, _res: Response, next
       role: {
         select: {
           name: true,
+          requireTwoFactor: true,
         },
       },
       isActive: true,
+      twoFactorEnabled: true,
+      ...(decoded.sessionId && {
+        refreshTokens: {
+          where: {
+            familyId: decoded.sessionId,
+            revokedAt: null,
+          },
+          select: { id: true },
+          take: 1,
+        },
+      }),
     },
   });
 
@@ -116,12 +142,27 @@ export const authenticate = catchAsync(async (req: Request, _res: Response, next
     throw ApiError.forbidden('Account is inactive');
   }
 
+  // Access tokens die with their session (logout, logout-all, token reuse)
+  if (decoded.sessionId && !user.refreshTokens?.length) {
+    throw ApiError.unauthorized('Session has been revoked');
+  }
+
   // Attach user to request
   (req as AuthRequest).user = {
-    ...user,
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
     role: user.role.name,
+    ...(decoded.sessionId && { sessionId: decoded.sessionId }),
+    ...(env.FEATURE_TWO_FACTOR_AUTH &&
+      user.role.requireTwoFactor &&
+      !user.twoFactorEnabled && { twoFactorSetupRequired: true }),
   };
 
+  // Actor of the changes recorded in the audit log
+  setRequestUser(user.id);
+
   next();
 });
 
@@ -154,6 +195,129 @@ export const authorize = (...roles: string[]) => {
   });
 };
 
+/**
+ * Permission cache by access token
+ * Avoids reloading the role permissions on every request made with the same token
+ */
+const PERMISSION_CACHE_TTL_MS = 60 * 1000;
+const PERMISSION_CACHE_MAX_ENTRIES = 1000;
+
+const permissionCache = new Map<string, { permissions: Set<string>; expiresAt: number }>();
+
+/**
+ * Clear cached permissions
+ * Must be called whenever roles, their permissions or user role assignments change
+ */
+export const clearPermissionCache = (): void => {
+  permissionCache.clear();
+};
+
+/**
+ * Load the permissions granted to a user through their role
+ * Permissions are returned as "resource:action" keys
+ */
+const loadPermissions = async (userId: string): Promise<Set<string>> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      role: {
+        select: {
+          permissions: {
+            select: {
+              resource: true,
+              action: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return new Set(
+    (user?.role.permissions || []).map((permission) => `${permission.resource}:${permission.action}`)
+  );
+};
+
+/**
+ * Resolve the permissions of the authenticated user
+ * Cached on the request, and by token for a short time
+ */
+const resolvePermissions = async (req: AuthRequest): Promise<Set<string>> => {
+  if (req.permissions) {
+    return req.permissions;
+  }
+
+  const token = extractToken(req);
+  const now = Date.now();
+  const cached = token ? permissionCache.get(token) : undefined;
+
+  if (cached && cached.expiresAt > now) {
+    req.permissions = cached.permissions;
+    return cached.permissions;
+  }
+
+  const permissions = await loadPermissions(req.user.id);
+
+  if (token) {
+    if (permissionCache.size >= PERMISSION_CACHE_MAX_ENTRIES) {
+      for (const [key, entry] of permissionCache) {
+        if (entry.expiresAt <= now) {
+          permissionCache.delete(key);
+        }
+      }
+
+      if (permissionCache.size >= PERMISSION_CACHE_MAX_ENTRIES) {
+        permissionCache.clear();
+      }
+    }
+
+    permissionCache.set(token, { permissions, expiresAt: now + PERMISSION_CACHE_TTL_MS });
+  }
+
+  req.permissions = permissions;
+  return permissions;
+};
+
+/**
+ * Permission Middleware Factory
+ * Checks if the user's role grants the permission (resource, action)
+ * Must be used after authenticate
+ *
+ * @param resource - Permission resource, e.g. 'patients'
+ * @param action - Permission action, e.g. 'update'
+ */
+export const requirePermission = (resource: string, action: string) => {
+  return catchAsync(async (req: Request, _res: Response, next: NextFunction) => {
+    const authReq = req as AuthRequest;
+
+    if (!authReq.user) {
+      throw ApiError.unauthorized('Authentication required');
+    }
+
+    // The role requires 2FA: only the enrollment endpoints (no permission) are reachable
+    if (authReq.user.twoFactorSetupRequired) {
+      throw ApiError.forbidden(
+        'Two-factor authentication is required for your role. Please enable it to continue'
+      );
+    }
+
+    const permissions = await resolvePermissions(authReq);
+
+    if (!permissions.has(`${resource}:${action}`)) {
+      loggers.security('Unauthorized access attempt', 'high', {
+        userId: authReq.user.id,
+        userRole: authReq.user.role,
+        requiredPermission: `${resource}:${action}`,
+        endpoint: req.path,
+      });
+
+      throw ApiError.forbidden('You do not have permission to access this resource');
+    }
+
+    next();
+  });
+};
+
 /**
  * Optional Authentication Middleware
  * Attaches user if token is valid, but doesn't require it
@@ -189,6 +353,7 @@ export const optionalAuth = catchAsync(async (req: Request, _res: Response, next
         ...user,
         role: user.role.name,
       };
+      setRequestUser(user.id);
     }
   } catch (error) {
     // Ignore errors for optional auth
@@ -235,13 +400,4 @@ export const generateToken = (payload: Omit<JwtPayload, 'iat' | 'exp'>): string
   } as jwt.SignOptions);
 };
 
-/**
- * Generate refresh token
- */
-export const generateRefreshToken = (payload: Omit<JwtPayload, 'iat' | 'exp'>): string => {
-  return jwt.sign(payload as any, env.JWT_SECRET, {
-    expiresIn: env.JWT_REFRESH_EXPIRES_IN,
-  } as jwt.SignOptions);
-};
-
 export default authenticate;
@@ -12,6 +12,7 @@ interface ErrorResponse {
   success: false;
   message: string;
   statusCode: number;
+  code?: string;
   errors?: any[];
   stack?: string;
   timestamp: string;
@@ -82,6 +83,7 @@ const formatErrorResponse = (error: ApiError): ErrorResponse => {
     success: false,
     message: error.message,
     statusCode: error.statusCode,
+    ...(error.code && { code: error.code }),
     ...(error.errors && { errors: error.errors }),
     ...(isDev && error.stack && { stack: error.stack }),
     timestamp: new Date().toISOString(),
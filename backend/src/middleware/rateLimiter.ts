@@ -50,6 +50,36 @@ export const passwordResetLimiter = rateLimit({
   },
 });
 
+/**
+ * Rate limiter for email verification
+ */
+export const emailVerificationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10, // 10 verification attempts per hour
+  message: 'Too many email verification attempts, please try again later',
+  handler: (_req, res) => {
+    const error = ApiError.tooManyRequests(
+      'Too many email verification attempts. Please try again in an hour'
+    );
+    res.status(error.statusCode).json(error.toJSON());
+  },
+});
+
+/**
+ * Rate limiter for resending the verification email
+ */
+export const resendVerificationLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 3, // 3 emails per hour
+  message: 'Too many verification emails requested, please try again later',
+  handler: (_req, res) => {
+    const error = ApiError.tooManyRequests(
+      'Too many verification emails requested. Please try again in an hour'
+    );
+    res.status(error.statusCode).json(error.toJSON());
+  },
+});
+
 /**
  * Rate limiter for registration endpoint
  */
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '@utils/requestContext';
+
+/**
+ * Request context middleware
+ * Opens a context with the client IP and user agent for the rest of the request;
+ * `authenticate` adds the user once the token is verified
+ */
+export const requestContext = (req: Request, _res: Response, next: NextFunction): void => {
+  runWithRequestContext(
+    {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    },
+    next
+  );
+};
+
+export default requestContext;
@@ -7,6 +7,7 @@ import {
   Expense,
   Prisma,
   InstallmentStatus,
+  InvoiceStatus,
   PaymentPlanStatus,
   TransactionType,
 } from '@prisma/client';
@@ -23,7 +24,39 @@ import type {
   UpdateExpenseData,
   ExpenseListOptions,
   PaginatedExpenseResponse,
+  InvoiceLine,
+  InvoiceTotals,
+  InvoiceListOptions,
+  InvoiceResponse,
+  PaginatedInvoiceResponse,
 } from '../types/accounting.types';
+import { PAYABLE_INVOICE_STATUSES, resolveInvoicePaymentStatus } from '@utils/invoice';
+
+/**
+ * Create input of an active payment plan with its pending installments
+ * Shared with treatment plan approval, which creates the plan in its own transaction
+ */
+export const buildPaymentPlanData = (
+  planData: CreatePaymentPlanData,
+  installments: InstallmentCalculation[]
+): Prisma.PaymentPlanUncheckedCreateInput => ({
+  patientId: planData.patientId,
+  treatmentId: planData.treatmentId,
+  treatmentPlanId: planData.treatmentPlanId,
+  totalAmount: planData.totalAmount,
+  paidAmount: 0,
+  balance: planData.totalAmount,
+  startDate: planData.startDate ? new Date(planData.startDate) : new Date(),
+  status: PaymentPlanStatus.ACTIVE,
+  installments: {
+    create: installments.map((inst) => ({
+      number: inst.number,
+      amount: inst.amount,
+      dueDate: inst.dueDate,
+      status: InstallmentStatus.PENDING,
+    })),
+  },
+});
 
 /**
  * Payment Plan with Installments
@@ -41,9 +74,67 @@ export type PaymentPlanWithInstallments = PaymentPlan & {
       name: string;
       code: string;
     };
-  };
+  } | null;
+  treatmentPlan: {
+    id: string;
+    title: string;
+  } | null;
 };
 
+/**
+ * Invoice relations returned with every invoice
+ */
+const invoiceInclude = {
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      identification: true,
+    },
+  },
+  items: { orderBy: { sequence: 'asc' } },
+} satisfies Prisma.InvoiceInclude;
+
+type InvoiceWithRelations = Prisma.InvoiceGetPayload<{ include: typeof invoiceInclude }>;
+
+/**
+ * Convert decimals of an invoice and its items to numbers
+ */
+const formatInvoice = (invoice: InvoiceWithRelations): InvoiceResponse => ({
+  ...invoice,
+  subtotal: Number(invoice.subtotal),
+  discount: Number(invoice.discount),
+  taxRate: Number(invoice.taxRate),
+  tax: Number(invoice.tax),
+  total: Number(invoice.total),
+  paidAmount: Number(invoice.paidAmount),
+  balance: Number(invoice.balance),
+  items: invoice.items.map(({ invoiceId: _invoiceId, ...item }) => ({
+    ...item,
+    unitPrice: Number(item.unitPrice),
+    discount: Number(item.discount),
+    total: Number(item.total),
+  })),
+});
+
+/**
+ * Invoice totals as stored columns
+ */
+const invoiceTotalsData = (totals: InvoiceTotals) => ({
+  subtotal: totals.subtotal,
+  discount: totals.discount,
+  taxRate: totals.taxRate,
+  tax: totals.tax,
+  total: totals.total,
+  balance: totals.total,
+});
+
+/**
+ * Thrown inside a transaction to roll it back when a guarded row changed meanwhile
+ */
+class StaleRowError extends Error {}
+
 /**
  * Accounting Repository
  * Handles all database operations related to accounting
@@ -339,6 +430,12 @@ export class AccountingRepository {
             },
           },
         },
+        treatmentPlan: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
       },
     });
   }
@@ -386,6 +483,12 @@ export class AccountingRepository {
             },
           },
         },
+        treatmentPlan: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
       },
     });
   }
@@ -398,23 +501,7 @@ export class AccountingRepository {
     installments: InstallmentCalculation[]
   ): Promise<PaymentPlanWithInstallments> {
     return prisma.paymentPlan.create({
-      data: {
-        patientId: planData.patientId,
-        treatmentId: planData.treatmentId,
-        totalAmount: planData.totalAmount,
-        paidAmount: 0,
-        balance: planData.totalAmount,
-        startDate: planData.startDate ? new Date(planData.startDate) : new Date(),
-        status: PaymentPlanStatus.ACTIVE,
-        installments: {
-          create: installments.map((inst) => ({
-            number: inst.number,
-            amount: inst.amount,
-            dueDate: inst.dueDate,
-            status: InstallmentStatus.PENDING,
-          })),
-        },
-      },
+      data: buildPaymentPlanData(planData, installments),
       include: {
         installments: {
           orderBy: { number: 'asc' },
@@ -436,6 +523,12 @@ export class AccountingRepository {
             },
           },
         },
+        treatmentPlan: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
       },
     });
   }
@@ -582,6 +675,395 @@ export class AccountingRepository {
     });
   }
 
+  // ============================================
+  // INVOICE METHODS
+  // ============================================
+
+  /**
+   * Find all invoices with optional filters and pagination
+   */
+  async findAllInvoices(
+    options: InvoiceListOptions = {}
+  ): Promise<PaginatedInvoiceResponse> {
+    const {
+      filters = {},
+      pagination = { page: 1, limit: 10 },
+    } = options;
+
+    const where: Prisma.InvoiceWhereInput = {
+      status: filters.status,
+      patientId: filters.patientId,
+    };
+
+    if (filters.search) {
+      where.OR = [
+        { number: { contains: filters.search } },
+        { patient: { firstName: { contains: filters.search, mode: 'insensitive' } } },
+        { patient: { lastName: { contains: filters.search, mode: 'insensitive' } } },
+        { patient: { identification: { contains: filters.search } } },
+      ];
+    }
+
+    // Add date range filter (drafts have no issue date and are filtered by creation)
+    if (filters.startDate || filters.endDate) {
+      const range: Prisma.DateTimeFilter = {};
+      if (filters.startDate) {
+        range.gte = new Date(filters.startDate);
+      }
+      if (filters.endDate) {
+        range.lte = new Date(filters.endDate);
+      }
+      where.AND = [
+        {
+          OR: [
+            { issueDate: range },
+            { issueDate: null, createdAt: range },
+          ],
+        },
+      ];
+    }
+
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const [invoices, total] = await Promise.all([
+      prisma.invoice.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: [{ issueDate: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+        include: invoiceInclude,
+      }),
+      prisma.invoice.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    const hasMore = page < totalPages;
+
+    return {
+      data: invoices.map(formatInvoice),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasMore,
+      },
+    };
+  }
+
+  /**
+   * Find invoice by ID
+   */
+  async findInvoiceById(id: string): Promise<InvoiceResponse | null> {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: invoiceInclude,
+    });
+
+    return invoice ? formatInvoice(invoice) : null;
+  }
+
+  /**
+   * Find treatments to bill with their catalog item
+   */
+  async findTreatmentsForInvoice(ids: string[]) {
+    return prisma.treatment.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        patientId: true,
+        catalogId: true,
+        toothNumber: true,
+        cost: true,
+        catalog: { select: { name: true } },
+      },
+    });
+  }
+
+  /**
+   * Find active catalog items to bill
+   */
+  async findCatalogItemsForInvoice(ids: string[]) {
+    return prisma.treatmentCatalog.findMany({
+      where: { id: { in: ids }, isActive: true },
+      select: { id: true, name: true, baseCost: true },
+    });
+  }
+
+  /**
+   * Create a draft invoice with its lines
+   */
+  async createInvoice(
+    data: { patientId: string; dueDate?: string; notes?: string; createdBy: string },
+    lines: InvoiceLine[],
+    totals: InvoiceTotals
+  ): Promise<InvoiceResponse> {
+    const invoice = await prisma.invoice.create({
+      data: {
+        patientId: data.patientId,
+        dueDate: data.dueDate ? new Date(data.dueDate) : null,
+        notes: data.notes,
+        createdBy: data.createdBy,
+        ...invoiceTotalsData(totals),
+        items: { create: lines },
+      },
+      include: invoiceInclude,
+    });
+
+    return formatInvoice(invoice);
+  }
+
+  /**
+   * Update a draft invoice, replacing its lines when given
+   * @returns Updated invoice, or null if it is no longer a draft
+   */
+  async updateDraftInvoice(
+    id: string,
+    data: { dueDate?: string | null; notes?: string | null },
+    lines?: { items: InvoiceLine[]; totals: InvoiceTotals }
+  ): Promise<InvoiceResponse | null> {
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.invoice.updateMany({
+        where: { id, status: InvoiceStatus.DRAFT },
+        data: {
+          dueDate: data.dueDate === undefined ? undefined : data.dueDate && new Date(data.dueDate),
+          notes: data.notes,
+          ...(lines ? invoiceTotalsData(lines.totals) : {}),
+        },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      if (lines) {
+        await tx.invoiceItem.deleteMany({ where: { invoiceId: id } });
+        await tx.invoiceItem.createMany({
+          data: lines.items.map((line) => ({ ...line, invoiceId: id })),
+        });
+      }
+
+      const invoice = await tx.invoice.findUniqueOrThrow({
+        where: { id },
+        include: invoiceInclude,
+      });
+
+      return formatInvoice(invoice);
+    });
+  }
+
+  /**
+   * Delete a draft invoice
+   * @returns Whether it was deleted (false if it is no longer a draft)
+   */
+  async deleteDraftInvoice(id: string): Promise<boolean> {
+    const deleted = await prisma.invoice.deleteMany({
+      where: { id, status: InvoiceStatus.DRAFT },
+    });
+
+    return deleted.count > 0;
+  }
+
+  /**
+   * Issue a draft invoice: take the next number of the series atomically
+   * @returns Issued invoice, or null if it is no longer a draft
+   */
+  async issueInvoice(
+    id: string,
+    series: string,
+    formatNumber: (sequence: number) => string,
+    dates: { issueDate: Date; dueDate: Date }
+  ): Promise<InvoiceResponse | null> {
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.invoice.updateMany({
+        where: { id, status: InvoiceStatus.DRAFT },
+        data: { status: InvoiceStatus.ISSUED, ...dates },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      const { value: sequence } = await tx.documentSequence.upsert({
+        where: { name: series },
+        create: { name: series, value: 1 },
+        update: { value: { increment: 1 } },
+      });
+
+      const invoice = await tx.invoice.update({
+        where: { id },
+        data: { sequence, number: formatNumber(sequence) },
+        include: invoiceInclude,
+      });
+
+      return formatInvoice(invoice);
+    });
+  }
+
+  /**
+   * Void an issued invoice without payments
+   * @returns Voided invoice, or null if it changed meanwhile
+   */
+  async voidInvoice(id: string, reason: string): Promise<InvoiceResponse | null> {
+    const updated = await prisma.invoice.updateMany({
+      where: { id, status: InvoiceStatus.ISSUED, paidAmount: 0 },
+      data: {
+        status: InvoiceStatus.VOID,
+        voidedAt: new Date(),
+        voidReason: reason,
+        balance: 0,
+      },
+    });
+
+    return updated.count > 0 ? this.findInvoiceById(id) : null;
+  }
+
+  /**
+   * Create a patient payment allocated to its invoice and treatment (if any),
+   * updating the invoice paid amount, balance and status and the treatment
+   * paid amount and balance in the same transaction
+   * @returns Payment, or null if the invoice stopped accepting this amount
+   * or the treatment balance changed meanwhile
+   */
+  async createAllocatedPayment(data: CreatePatientPaymentData): Promise<PatientPayment | null> {
+    try {
+      return await this.writeAllocatedPayment(data);
+    } catch (error) {
+      if (error instanceof StaleRowError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeAllocatedPayment(data: CreatePatientPaymentData): Promise<PatientPayment | null> {
+    return prisma.$transaction(async (tx) => {
+      if (data.invoiceId) {
+        const invoice = await tx.invoice.findUnique({ where: { id: data.invoiceId } });
+        if (!invoice || !PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+          return null;
+        }
+
+        const total = Number(invoice.total);
+        const paidAmount = Math.round((Number(invoice.paidAmount) + data.amount) * 100) / 100;
+        if (paidAmount > total) {
+          return null;
+        }
+
+        const updated = await tx.invoice.updateMany({
+          where: {
+            id: data.invoiceId,
+            status: invoice.status,
+            paidAmount: invoice.paidAmount,
+          },
+          data: {
+            paidAmount,
+            balance: Math.round((total - paidAmount) * 100) / 100,
+            status: resolveInvoicePaymentStatus(total, paidAmount),
+          },
+        });
+
+        if (updated.count === 0) {
+          return null;
+        }
+      }
+
+      if (data.treatmentId) {
+        const treatment = await tx.treatment.findUniqueOrThrow({ where: { id: data.treatmentId } });
+
+        const updated = await tx.treatment.updateMany({
+          where: { id: data.treatmentId, paid: treatment.paid },
+          data: {
+            paid: { increment: data.amount },
+            balance: Math.max(0, Number(treatment.balance) - data.amount),
+          },
+        });
+
+        // The invoice may already be updated, so roll the whole payment back
+        if (updated.count === 0) {
+          throw new StaleRowError();
+        }
+      }
+
+      return tx.patientPayment.create({
+        data: {
+          ...data,
+          date: data.date ? new Date(data.date) : new Date(),
+        },
+        include: {
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          treatment: {
+            include: {
+              catalog: true,
+            },
+          },
+          invoice: {
+            select: {
+              id: true,
+              number: true,
+              status: true,
+              balance: true,
+            },
+          },
+        },
+      });
+    });
+  }
+
+  /**
+   * Find an invoice with the buyer, item codes and payments needed by its SRI document
+   */
+  async findInvoiceForSri(id: string) {
+    return prisma.invoice.findUnique({
+      where: { id },
+      include: {
+        patient: {
+          select: {
+            firstName: true,
+            lastName: true,
+            identification: true,
+            identificationType: true,
+            address: true,
+            email: true,
+            phone: true,
+          },
+        },
+        items: {
+          orderBy: { sequence: 'asc' },
+          include: {
+            catalog: { select: { code: true } },
+            treatment: { select: { catalog: { select: { code: true } } } },
+          },
+        },
+        payments: { select: { amount: true, paymentMethod: true } },
+      },
+    });
+  }
+
+  /**
+   * Record the access key and SRI status of an invoice
+   */
+  async updateInvoiceSri(
+    id: string,
+    data: Pick<Prisma.InvoiceUpdateInput, 'accessKey' | 'sriStatus' | 'sriAuthorizedAt' | 'sriMessages'>
+  ): Promise<InvoiceResponse> {
+    const invoice = await prisma.invoice.update({
+      where: { id },
+      data,
+      include: invoiceInclude,
+    });
+
+    return formatInvoice(invoice);
+  }
+
   // ============================================
   // EXPENSE METHODS
   // ============================================
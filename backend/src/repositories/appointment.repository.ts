@@ -5,6 +5,7 @@ import {
   AppointmentStatus,
   Prisma,
 } from '@prisma/client';
+import { scheduleRepository } from '@repositories/schedule.repository';
 import type {
   CreateAppointmentData,
   UpdateAppointmentData,
@@ -13,22 +14,32 @@ import type {
 } from '../types/appointment.types';
 
 /**
- * Appointment with relations
+ * Relations returned with every appointment
  */
-export type AppointmentWithRelations = Appointment & {
+const appointmentInclude = {
   patient: {
-    id: string;
-    firstName: string;
-    lastName: string;
-    phone: string;
-    email: string | null;
-  };
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      phone: true,
+      email: true,
+    },
+  },
   doctor: {
-    id: string;
-    firstName: string;
-    lastName: string;
-  };
-};
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  rescheduledFrom: { select: { id: true } },
+} satisfies Prisma.AppointmentInclude;
+
+/**
+ * Appointment with relations
+ */
+export type AppointmentWithRelations = Prisma.AppointmentGetPayload<{ include: typeof appointmentInclude }>;
 
 /**
  * Appointment Repository
@@ -127,24 +138,7 @@ export class AppointmentRepository {
     const [data, total] = await Promise.all([
       prisma.appointment.findMany({
         where,
-        include: {
-          patient: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              phone: true,
-              email: true,
-            },
-          },
-          doctor: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-            },
-          },
-        },
+        include: appointmentInclude,
         orderBy,
         skip,
         take: limit,
@@ -161,24 +155,7 @@ export class AppointmentRepository {
   async findById(id: string): Promise<AppointmentWithRelations | null> {
     return prisma.appointment.findUnique({
       where: { id },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            email: true,
-          },
-        },
-        doctor: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+      include: appointmentInclude,
     });
   }
 
@@ -202,24 +179,7 @@ export class AppointmentRepository {
         color: data.color || null,
         status: AppointmentStatus.SCHEDULED,
       },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            email: true,
-          },
-        },
-        doctor: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+      include: appointmentInclude,
     });
   }
 
@@ -246,6 +206,13 @@ export class AppointmentRepository {
     if (data.notes !== undefined) updateData.notes = data.notes;
     if (data.color !== undefined) updateData.color = data.color;
 
+    // A new date or time needs new reminders
+    if (data.date || data.startTime) {
+      updateData.reminderSent = false;
+      updateData.reminderSentAt = null;
+      updateData.reminders = { deleteMany: {} };
+    }
+
     // Recalculate end time if start time or duration changed
     if (data.startTime || data.duration) {
       const appointment = await prisma.appointment.findUnique({
@@ -263,72 +230,130 @@ export class AppointmentRepository {
     return prisma.appointment.update({
       where: { id },
       data: updateData,
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            email: true,
-          },
-        },
-        doctor: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
+      include: appointmentInclude,
+    });
+  }
+
+  /**
+   * Change the status of an appointment, recording the change in its history
+   * @returns Updated appointment, or null if its status changed meanwhile
+   */
+  async changeStatus(
+    id: string,
+    from: AppointmentStatus,
+    to: AppointmentStatus,
+    change: { changedById: string; reason?: string }
+  ): Promise<AppointmentWithRelations | null> {
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.appointment.updateMany({
+        where: { id, status: from },
+        data: { status: to },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      await tx.appointmentStatusChange.create({
+        data: {
+          appointmentId: id,
+          fromStatus: from,
+          toStatus: to,
+          reason: change.reason,
+          changedById: change.changedById,
         },
-      },
+      });
+
+      return tx.appointment.findUniqueOrThrow({
+        where: { id },
+        include: appointmentInclude,
+      });
     });
   }
 
   /**
-   * Update appointment status
+   * Reschedule an appointment: create its replacement, mark the original as
+   * RESCHEDULED and link it to the replacement
+   * @returns Replacement appointment, or null if the original status changed meanwhile
    */
-  async updateStatus(
+  async reschedule(
     id: string,
-    status: AppointmentStatus,
-    notes?: string
-  ): Promise<AppointmentWithRelations> {
-    const updateData: Prisma.AppointmentUpdateInput = { status };
+    from: AppointmentStatus,
+    replacement: CreateAppointmentData,
+    change: { changedById: string; reason?: string }
+  ): Promise<AppointmentWithRelations | null> {
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.appointment.updateMany({
+        where: { id, status: from },
+        data: { status: AppointmentStatus.RESCHEDULED },
+      });
 
-    if (notes) {
-      updateData.notes = notes;
-    }
+      if (updated.count === 0) {
+        return null;
+      }
 
-    return prisma.appointment.update({
-      where: { id },
-      data: updateData,
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            email: true,
-          },
+      const created = await tx.appointment.create({
+        data: {
+          patientId: replacement.patientId,
+          doctorId: replacement.doctorId,
+          date: new Date(replacement.date),
+          startTime: replacement.startTime,
+          endTime: this.calculateEndTime(replacement.startTime, replacement.duration),
+          duration: replacement.duration,
+          type: replacement.type,
+          reason: replacement.reason,
+          notes: replacement.notes || null,
+          color: replacement.color || null,
+          status: AppointmentStatus.SCHEDULED,
+        },
+      });
+
+      await tx.appointment.update({
+        where: { id },
+        data: { rescheduledToId: created.id },
+      });
+
+      await tx.appointmentStatusChange.create({
+        data: {
+          appointmentId: id,
+          fromStatus: from,
+          toStatus: AppointmentStatus.RESCHEDULED,
+          reason: change.reason,
+          changedById: change.changedById,
         },
-        doctor: {
+      });
+
+      return tx.appointment.findUniqueOrThrow({
+        where: { id: created.id },
+        include: appointmentInclude,
+      });
+    });
+  }
+
+  /**
+   * Find the status history of an appointment (oldest first)
+   */
+  async findStatusHistory(appointmentId: string) {
+    return prisma.appointmentStatusChange.findMany({
+      where: { appointmentId },
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        reason: true,
+        changedBy: {
           select: {
             id: true,
             firstName: true,
             lastName: true,
           },
         },
+        createdAt: true,
       },
+      orderBy: { createdAt: 'asc' },
     });
   }
 
-  /**
-   * Delete appointment (soft delete - just cancel it)
-   */
-  async delete(id: string): Promise<AppointmentWithRelations> {
-    return this.updateStatus(id, AppointmentStatus.CANCELLED);
-  }
-
   /**
    * Find appointments by date range
    */
@@ -345,7 +370,7 @@ export class AppointmentRepository {
           lte: endDate,
         },
         status: {
-          notIn: [AppointmentStatus.CANCELLED, AppointmentStatus.NO_SHOW],
+          notIn: [AppointmentStatus.CANCELLED, AppointmentStatus.NO_SHOW, AppointmentStatus.RESCHEDULED],
         },
       },
       orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
@@ -371,7 +396,7 @@ export class AppointmentRepository {
       doctorId,
       date: normalizedDate,
       status: {
-        notIn: [AppointmentStatus.CANCELLED, AppointmentStatus.NO_SHOW],
+        notIn: [AppointmentStatus.CANCELLED, AppointmentStatus.NO_SHOW, AppointmentStatus.RESCHEDULED],
       },
       OR: [
         // New appointment starts during existing appointment
@@ -395,24 +420,7 @@ export class AppointmentRepository {
 
     return prisma.appointment.findMany({
       where,
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            phone: true,
-            email: true,
-          },
-        },
-        doctor: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+      include: appointmentInclude,
       orderBy: { startTime: 'asc' },
     });
   }
@@ -504,17 +512,10 @@ export class AppointmentRepository {
 
   /**
    * Get blocked times for a doctor on a specific date
+   * Includes multi-day and recurring blocks that apply on that date
    */
   async getBlockedTimes(doctorId: string, date: Date) {
-    const normalizedDate = new Date(date);
-    normalizedDate.setHours(0, 0, 0, 0);
-
-    return prisma.blockedTime.findMany({
-      where: {
-        doctorId,
-        date: normalizedDate,
-      },
-    });
+    return scheduleRepository.findBlockedTimesForDate(doctorId, date);
   }
 
   /**
@@ -0,0 +1,232 @@
+import { prisma } from '@config/database';
+import { AuditLog, PatientAccessLog, PatientAccessResource, Prisma } from '@prisma/client';
+import type {
+  AuditActor,
+  AuditLogFilters,
+  AuditLogListOptions,
+  DailyAccessCount,
+  PaginatedAuditLogResponse,
+  PaginatedPatientAccessLogResponse,
+  PatientAccessLogListOptions,
+} from '../types/audit.types';
+
+/**
+ * Build a createdAt range filter
+ * Date-only end dates include the whole day
+ */
+const buildDateRange = (startDate?: string, endDate?: string): Prisma.DateTimeFilter | undefined => {
+  if (!startDate && !endDate) {
+    return undefined;
+  }
+
+  const range: Prisma.DateTimeFilter = {};
+  if (startDate) {
+    range.gte = new Date(startDate);
+  }
+  if (endDate) {
+    const end = new Date(endDate);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+      end.setUTCHours(23, 59, 59, 999);
+    }
+    range.lte = end;
+  }
+
+  return range;
+};
+
+/**
+ * Audit Repository
+ * Audit log queries (entries are written by the Prisma audit extension) and patient access log
+ */
+export class AuditRepository {
+  /**
+   * Build the where clause for audit log filters
+   */
+  private buildWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+    return {
+      entityType: filters.entityType,
+      entityId: filters.entityId,
+      userId: filters.userId,
+      patientId: filters.patientId,
+      action: filters.action,
+      createdAt: buildDateRange(filters.startDate, filters.endDate),
+    };
+  }
+
+  /**
+   * Find audit entries with filters and pagination (newest first)
+   * @param options - Filter and pagination options
+   * @returns Paginated audit entries with their actor
+   */
+  async findAll(options: AuditLogListOptions = {}): Promise<PaginatedAuditLogResponse> {
+    const { filters = {}, pagination = { page: 1, limit: 20 } } = options;
+
+    const where = this.buildWhere(filters);
+
+    // Calculate pagination
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { sequence: 'desc' },
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    // Actors are looked up separately: audit entries keep no foreign keys
+    // so they survive the deletion of the user
+    const userIds = [...new Set(entries.map((entry) => entry.userId).filter((id): id is string => !!id))];
+    const users = await this.findActors(userIds);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: entries.map((entry) => ({
+        ...entry,
+        user: entry.userId ? users.get(entry.userId) ?? null : null,
+      })),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Find users by ID for display
+   * @param ids - User IDs
+   */
+  async findActors(ids: string[]): Promise<Map<string, AuditActor>> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+      },
+    });
+
+    return new Map(users.map((user) => [user.id, user]));
+  }
+
+  /**
+   * ============================================
+   * PATIENT ACCESS LOG
+   * ============================================
+   */
+
+  /**
+   * Record a read of a patient's clinical record
+   * @param data - User, patient, resource and client information
+   */
+  async createAccessLog(data: {
+    userId: string | null;
+    patientId: string;
+    resource: PatientAccessResource;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }): Promise<PatientAccessLog> {
+    return prisma.patientAccessLog.create({ data });
+  }
+
+  /**
+   * Find reads of a patient's clinical record (newest first)
+   * @param patientId - Patient ID
+   * @param options - Filter and pagination options
+   */
+  async findAccessLogs(
+    patientId: string,
+    options: PatientAccessLogListOptions = {}
+  ): Promise<PaginatedPatientAccessLogResponse> {
+    const { filters = {}, pagination = { page: 1, limit: 20 } } = options;
+
+    const where: Prisma.PatientAccessLogWhereInput = {
+      patientId,
+      userId: filters.userId,
+      resource: filters.resource,
+      createdAt: buildDateRange(filters.startDate, filters.endDate),
+    };
+
+    // Calculate pagination
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const [entries, total] = await Promise.all([
+      prisma.patientAccessLog.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.patientAccessLog.count({ where }),
+    ]);
+
+    const userIds = [...new Set(entries.map((entry) => entry.userId).filter((id): id is string => !!id))];
+    const users = await this.findActors(userIds);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: entries.map((entry) => ({
+        ...entry,
+        user: entry.userId ? users.get(entry.userId) ?? null : null,
+      })),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Count distinct patients opened per user and UTC day
+   * @param from - Start of the range (inclusive)
+   * @param to - End of the range (exclusive)
+   */
+  async findDailyAccessCounts(from: Date, to: Date): Promise<DailyAccessCount[]> {
+    return prisma.$queryRaw<DailyAccessCount[]>`
+      SELECT "userId",
+             to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS "day",
+             COUNT(DISTINCT "patientId")::int AS "patients",
+             COUNT(*)::int AS "accesses"
+      FROM "patient_access_logs"
+      WHERE "createdAt" >= ${from} AND "createdAt" < ${to} AND "userId" IS NOT NULL
+      GROUP BY "userId", "day"
+      ORDER BY "day"
+    `;
+  }
+
+  /**
+   * Find a batch of entries in chain order
+   * @param afterSequence - Last sequence already read (0 to start)
+   * @param take - Batch size
+   */
+  async findChainBatch(afterSequence: number, take: number): Promise<AuditLog[]> {
+    return prisma.auditLog.findMany({
+      where: { sequence: { gt: afterSequence } },
+      orderBy: { sequence: 'asc' },
+      take,
+    });
+  }
+}
+
+// Export singleton instance
+export const auditRepository = new AuditRepository();
+export default auditRepository;
@@ -1,6 +1,11 @@
 import { prisma } from '@config/database';
-import { User, Role, Permission } from '@prisma/client';
-import type { RegisterData } from '../types/auth.types';
+import { User, Role, Permission, RefreshToken, LoginAttempt, Prisma } from '@prisma/client';
+import type {
+  RegisterData,
+  LoginAttemptData,
+  LoginHistoryOptions,
+  PaginatedLoginHistory,
+} from '../types/auth.types';
 
 /**
  * User with role relation
@@ -18,6 +23,25 @@ export type UserWithFullRole = User & {
   };
 };
 
+/**
+ * Refresh token with its owner
+ */
+export type RefreshTokenWithUser = RefreshToken & {
+  user: UserWithRole;
+};
+
+/**
+ * Data needed to persist a refresh token
+ */
+export interface CreateRefreshTokenData {
+  userId: string;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 /**
  * Auth Repository
  * Handles all database operations related to authentication
@@ -91,7 +115,8 @@ export class AuthRepository {
    */
   async createUser(
     data: RegisterData & { password: string },
-    roleId: string
+    roleId: string,
+    options: { emailVerified?: boolean } = {}
   ): Promise<UserWithRole> {
     return prisma.user.create({
       data: {
@@ -101,6 +126,7 @@ export class AuthRepository {
         lastName: data.lastName,
         phone: data.phone || null,
         roleId,
+        emailVerified: options.emailVerified ?? true,
       },
       include: {
         role: true,
@@ -115,29 +141,309 @@ export class AuthRepository {
    * @returns Updated user
    */
   async updatePassword(userId: string, hashedPassword: string): Promise<User> {
-    return prisma.user.update({
-      where: { id: userId },
-      data: { password: hashedPassword },
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { password: hashedPassword },
+      }),
+      // Any password change invalidates pending reset links
+      prisma.passwordResetToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+    ]);
+
+    return user;
+  }
+
+  /**
+   * Store a password reset token, invalidating the previous ones
+   * @param userId - User ID
+   * @param tokenHash - SHA-256 of the token sent by email
+   * @param expiresAt - Expiration date
+   */
+  async createPasswordResetToken(
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.passwordResetToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      prisma.passwordResetToken.create({
+        data: { userId, tokenHash, expiresAt },
+      }),
+    ]);
+  }
+
+  /**
+   * Mark a valid reset token as used
+   * Only one caller can consume a token
+   * @param tokenHash - SHA-256 of the token
+   * @returns User ID of the token owner, or null if the token is invalid, used or expired
+   */
+  async consumePasswordResetToken(tokenHash: string): Promise<string | null> {
+    const token = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash },
+    });
+
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { id: token.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return count === 1 ? token.userId : null;
+  }
+
+  /**
+   * Store a new refresh token
+   * @param data - Hashed token, family and session details
+   * @returns Created refresh token
+   */
+  async createRefreshToken(data: CreateRefreshTokenData): Promise<RefreshToken> {
+    return prisma.refreshToken.create({
+      data: {
+        userId: data.userId,
+        tokenHash: data.tokenHash,
+        familyId: data.familyId,
+        expiresAt: data.expiresAt,
+        userAgent: data.userAgent || null,
+        ipAddress: data.ipAddress || null,
+      },
     });
   }
 
   /**
-   * Update refresh token
-   * Note: In production, store refresh tokens in a separate table
-   * This is a simplified implementation
+   * Find refresh token by its hash
+   * @param tokenHash - SHA-256 hash of the token
+   * @returns Refresh token with user or null if not found
+   */
+  async findRefreshTokenByHash(tokenHash: string): Promise<RefreshTokenWithUser | null> {
+    return prisma.refreshToken.findUnique({
+      where: { tokenHash },
+      include: {
+        user: {
+          include: {
+            role: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Rotate a refresh token
+   * Revokes the used token and stores its replacement in the same family.
+   * The used token is only revoked if it is still active, so of two concurrent
+   * refreshes with the same token only one gets a replacement.
+   * @param oldTokenId - ID of the token being used
+   * @param data - Replacement token data
+   * @returns Replacement refresh token, or null if the used token was already revoked
+   */
+  async rotateRefreshToken(
+    oldTokenId: string,
+    data: CreateRefreshTokenData
+  ): Promise<RefreshToken | null> {
+    return prisma.$transaction(async (tx) => {
+      const now = new Date();
+
+      const { count } = await tx.refreshToken.updateMany({
+        where: { id: oldTokenId, revokedAt: null },
+        data: {
+          revokedAt: now,
+          lastUsedAt: now,
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const replacement = await tx.refreshToken.create({
+        data: {
+          userId: data.userId,
+          tokenHash: data.tokenHash,
+          familyId: data.familyId,
+          expiresAt: data.expiresAt,
+          userAgent: data.userAgent || null,
+          ipAddress: data.ipAddress || null,
+        },
+      });
+
+      await tx.refreshToken.update({
+        where: { id: oldTokenId },
+        data: { replacedById: replacement.id },
+      });
+
+      return replacement;
+    });
+  }
+
+  /**
+   * Revoke every token of a family (one device/session)
+   * @param familyId - Token family ID
+   * @returns Number of tokens revoked
+   */
+  async revokeRefreshTokenFamily(familyId: string): Promise<number> {
+    const result = await prisma.refreshToken.updateMany({
+      where: {
+        familyId,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Revoke every refresh token of a user (all sessions)
    * @param userId - User ID
-   * @param _refreshToken - Refresh token (null to invalidate) - currently unused
-   * @returns Updated user
+   * @returns Number of tokens revoked
    */
-  async updateRefreshToken(userId: string, _refreshToken: string | null): Promise<User> {
-    // For now, we're not storing refresh tokens in the User model
-    // In production, create a separate RefreshToken table
-    // This method is a placeholder for future implementation
-    return prisma.user.findUniqueOrThrow({
+  async revokeAllRefreshTokens(userId: string): Promise<number> {
+    const result = await prisma.refreshToken.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Store a pending two-factor secret
+   * 2FA stays disabled until the secret is confirmed with a code
+   * @param userId - User ID
+   * @param secret - Base32 TOTP secret
+   */
+  async setPendingTwoFactorSecret(userId: string, secret: string): Promise<void> {
+    await prisma.user.update({
       where: { id: userId },
+      data: {
+        twoFactorSecret: secret,
+        twoFactorEnabled: false,
+        twoFactorConfirmedAt: null,
+        twoFactorLastUsedStep: null,
+      },
     });
   }
 
+  /**
+   * Enable two-factor authentication and replace the recovery codes
+   * @param userId - User ID
+   * @param usedStep - Time step of the confirmation code
+   * @param codeHashes - Hashes of the new recovery codes
+   */
+  async enableTwoFactor(userId: string, usedStep: number, codeHashes: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorConfirmedAt: new Date(),
+          twoFactorLastUsedStep: usedStep,
+        },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  /**
+   * Record the last accepted TOTP time step
+   * Only moves forward, so a code cannot be accepted twice
+   * @param userId - User ID
+   * @param step - Time step of the accepted code
+   * @returns true if the step was recorded, false if it was already used
+   */
+  async markTwoFactorStepUsed(userId: string, step: number): Promise<boolean> {
+    const result = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Replace the recovery codes of a user
+   * @param userId - User ID
+   * @param codeHashes - Hashes of the new recovery codes
+   */
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  /**
+   * Consume a recovery code
+   * @param userId - User ID
+   * @param codeHash - Hash of the recovery code
+   * @returns true if an unused code matched and was consumed
+   */
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await prisma.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash,
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Count unused recovery codes of a user
+   * @param userId - User ID
+   */
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    return prisma.twoFactorRecoveryCode.count({
+      where: {
+        userId,
+        usedAt: null,
+      },
+    });
+  }
+
+  /**
+   * Disable two-factor authentication and delete the recovery codes
+   * @param userId - User ID
+   */
+  async disableTwoFactor(userId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorConfirmedAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
   /**
    * Get default role for new users
    * Returns the 'receptionist' role by default
@@ -242,6 +548,162 @@ export class AuthRepository {
       where: { roleId },
     });
   }
+
+  /**
+   * Store an email verification token, invalidating the previous ones
+   * @param userId - User ID
+   * @param tokenHash - SHA-256 of the token sent by email
+   * @param expiresAt - Expiration date
+   */
+  async createEmailVerificationToken(
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.emailVerificationToken.updateMany({
+        where: { userId, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      prisma.emailVerificationToken.create({
+        data: { userId, tokenHash, expiresAt },
+      }),
+    ]);
+  }
+
+  /**
+   * Consume a valid verification token and mark the email as verified
+   * @param tokenHash - SHA-256 of the token
+   * @returns User ID of the token owner, or null if the token is invalid, used or expired
+   */
+  async consumeEmailVerificationToken(tokenHash: string): Promise<string | null> {
+    const token = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash },
+    });
+
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return null;
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.emailVerificationToken.updateMany({
+        where: { id: token.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (count !== 1) {
+        return null;
+      }
+
+      await tx.user.update({
+        where: { id: token.userId },
+        data: { emailVerified: true, emailVerifiedAt: new Date() },
+      });
+
+      return token.userId;
+    });
+  }
+
+  /**
+   * Record a login attempt
+   * @param data - Attempt details
+   * @returns Created attempt
+   */
+  async createLoginAttempt(data: LoginAttemptData): Promise<LoginAttempt> {
+    return prisma.loginAttempt.create({ data });
+  }
+
+  /**
+   * Increment the consecutive failed login counter
+   * @param userId - User ID
+   * @returns New number of consecutive failures
+   */
+  async incrementFailedLogins(userId: string): Promise<number> {
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    return user.failedLoginAttempts;
+  }
+
+  /**
+   * Lock an account until the given date
+   * @param userId - User ID
+   * @param lockedUntil - End of the lockout
+   */
+  async lockUser(userId: string, lockedUntil: Date): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { lockedUntil },
+    });
+  }
+
+  /**
+   * Clear the failed login counter and any lockout
+   * @param userId - User ID
+   */
+  async resetFailedLogins(userId: string): Promise<void> {
+    await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ failedLoginAttempts: { gt: 0 } }, { lockedUntil: { not: null } }],
+      },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+  }
+
+  /**
+   * Get the login history of a user, newest first
+   * @param userId - User ID
+   * @param options - Filters and pagination
+   * @returns Paginated login attempts
+   */
+  async findLoginAttempts(
+    userId: string,
+    options: LoginHistoryOptions = {}
+  ): Promise<PaginatedLoginHistory> {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.LoginAttemptWhereInput = {
+      userId,
+      success: options.success,
+    };
+
+    const [data, total] = await Promise.all([
+      prisma.loginAttempt.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          success: true,
+          failureReason: true,
+          ipAddress: true,
+          userAgent: true,
+          createdAt: true,
+        },
+      }),
+      prisma.loginAttempt.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    };
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,541 @@
+import { prisma } from '@config/database';
+import { Prisma, PriceList, TreatmentCatalog } from '@prisma/client';
+import { getSearchTerms } from '@utils/catalog';
+import type {
+  CatalogChange,
+  CatalogListOptions,
+  Cie10CodeResponse,
+  Cie10ImportRow,
+  CreateCie10CodeDTO,
+  CreatePriceListDTO,
+  CreatePriceListItemDTO,
+  CreateTreatmentCatalogDTO,
+  PaginatedCatalogResponse,
+  PatientPricingProfile,
+  PriceListItemResponse,
+  PriceListResponse,
+  TreatmentCatalogPriceResponse,
+  TreatmentCatalogResponse,
+  UpdateCie10CodeDTO,
+  UpdatePriceListDTO,
+  UpdateTreatmentCatalogDTO,
+} from '../types/catalog.types';
+
+const priceSelect = {
+  id: true,
+  catalogId: true,
+  price: true,
+  validFrom: true,
+  validTo: true,
+  reason: true,
+  changedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.TreatmentCatalogPriceSelect;
+
+const priceListItemInclude = {
+  catalog: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      baseCost: true,
+    },
+  },
+} satisfies Prisma.PriceListItemInclude;
+
+type PriceListItemWithCatalog = Prisma.PriceListItemGetPayload<{ include: typeof priceListItemInclude }>;
+
+const formatPriceListItem = (item: PriceListItemWithCatalog): PriceListItemResponse => ({
+  ...item,
+  price: Number(item.price),
+  catalog: {
+    ...item.catalog,
+    baseCost: Number(item.catalog.baseCost),
+  },
+});
+
+const formatPriceList = (
+  list: PriceList & { items?: PriceListItemWithCatalog[] }
+): PriceListResponse => ({
+  ...list,
+  discountPercent: Number(list.discountPercent),
+  items: list.items?.map(formatPriceListItem),
+});
+
+const toDate = (value: string | null | undefined): Date | null | undefined =>
+  value == null ? value : new Date(value);
+
+const formatTreatmentCatalog = (item: TreatmentCatalog): TreatmentCatalogResponse => ({
+  ...item,
+  baseCost: Number(item.baseCost),
+});
+
+const paginate = <T>(data: T[], total: number, page: number, limit: number): PaginatedCatalogResponse<T> => {
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data,
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages,
+      hasMore: page < totalPages,
+    },
+  };
+};
+
+/**
+ * Catalog Repository
+ * Handles database operations for the CIE-10 codes and the treatment catalog
+ */
+export class CatalogRepository {
+  /**
+   * ============================================
+   * CIE-10 METHODS
+   * ============================================
+   */
+
+  /**
+   * Find CIE-10 codes: every search term matches a code prefix or a word of the name
+   */
+  async findCie10Codes(options: CatalogListOptions = {}): Promise<PaginatedCatalogResponse<Cie10CodeResponse>> {
+    const { filters = {}, pagination = { page: 1, limit: 20 } } = options;
+
+    const where: Prisma.CIE10CodeWhereInput = {
+      AND: getSearchTerms(filters.search).map((term) => ({
+        OR: [
+          { code: { startsWith: term, mode: 'insensitive' } },
+          { name: { contains: term, mode: 'insensitive' } },
+          { description: { contains: term, mode: 'insensitive' } },
+        ],
+      })),
+    };
+
+    if (filters.category) {
+      where.category = { startsWith: filters.category, mode: 'insensitive' };
+    }
+
+    const skip = (pagination.page - 1) * pagination.limit;
+
+    const [codes, total] = await Promise.all([
+      prisma.cIE10Code.findMany({
+        where,
+        skip,
+        take: pagination.limit,
+        orderBy: { code: 'asc' },
+      }),
+      prisma.cIE10Code.count({ where }),
+    ]);
+
+    return paginate(codes, total, pagination.page, pagination.limit);
+  }
+
+  /**
+   * Find CIE-10 code
+   */
+  async findCie10Code(code: string): Promise<Cie10CodeResponse | null> {
+    return prisma.cIE10Code.findUnique({ where: { code } });
+  }
+
+  /**
+   * Create CIE-10 code
+   */
+  async createCie10Code(data: CreateCie10CodeDTO): Promise<Cie10CodeResponse> {
+    return prisma.cIE10Code.create({ data });
+  }
+
+  /**
+   * Update CIE-10 code
+   */
+  async updateCie10Code(code: string, data: UpdateCie10CodeDTO): Promise<Cie10CodeResponse> {
+    return prisma.cIE10Code.update({
+      where: { code },
+      data,
+    });
+  }
+
+  /**
+   * Delete CIE-10 code
+   */
+  async deleteCie10Code(code: string): Promise<void> {
+    await prisma.cIE10Code.delete({ where: { code } });
+  }
+
+  /**
+   * Count diagnoses recorded with a CIE-10 code
+   */
+  async countDiagnosesByCie10Code(code: string): Promise<number> {
+    return prisma.diagnosis.count({ where: { cie10Code: code } });
+  }
+
+  /**
+   * Create or update imported codes in one transaction
+   * Diagnoses keep the name they were recorded with (Diagnosis.cie10Name)
+   */
+  async importCie10Codes(rows: Cie10ImportRow[]): Promise<{ created: number; updated: number }> {
+    return prisma.$transaction(
+      async (tx) => {
+        const existing = await tx.cIE10Code.findMany({
+          where: { code: { in: rows.map((row) => row.code) } },
+          select: { code: true },
+        });
+        const existingCodes = new Set(existing.map((item) => item.code));
+
+        const newRows = rows.filter((row) => !existingCodes.has(row.code));
+        if (newRows.length > 0) {
+          await tx.cIE10Code.createMany({ data: newRows });
+        }
+
+        for (const { code, ...data } of rows.filter((row) => existingCodes.has(row.code))) {
+          await tx.cIE10Code.update({ where: { code }, data });
+        }
+
+        return { created: newRows.length, updated: existingCodes.size };
+      },
+      { timeout: 30000 }
+    );
+  }
+
+  /**
+   * ============================================
+   * TREATMENT CATALOG METHODS
+   * ============================================
+   */
+
+  /**
+   * Find catalog treatments: every search term matches a code prefix or a word
+   * of the name, description or category
+   */
+  async findTreatments(
+    options: CatalogListOptions = {}
+  ): Promise<PaginatedCatalogResponse<TreatmentCatalogResponse>> {
+    const { filters = {}, pagination = { page: 1, limit: 20 } } = options;
+
+    const where: Prisma.TreatmentCatalogWhereInput = {
+      isActive: filters.includeInactive ? undefined : true,
+      AND: getSearchTerms(filters.search).map((term) => ({
+        OR: [
+          { code: { startsWith: term, mode: 'insensitive' } },
+          { name: { contains: term, mode: 'insensitive' } },
+          { description: { contains: term, mode: 'insensitive' } },
+          { category: { contains: term, mode: 'insensitive' } },
+        ],
+      })),
+    };
+
+    if (filters.category) {
+      where.category = { equals: filters.category, mode: 'insensitive' };
+    }
+
+    const skip = (pagination.page - 1) * pagination.limit;
+
+    const [items, total] = await Promise.all([
+      prisma.treatmentCatalog.findMany({
+        where,
+        skip,
+        take: pagination.limit,
+        orderBy: [{ category: 'asc' }, { name: 'asc' }],
+      }),
+      prisma.treatmentCatalog.count({ where }),
+    ]);
+
+    return paginate(items.map(formatTreatmentCatalog), total, pagination.page, pagination.limit);
+  }
+
+  /**
+   * Find catalog treatment by ID
+   */
+  async findTreatmentById(id: string): Promise<TreatmentCatalogResponse | null> {
+    const item = await prisma.treatmentCatalog.findUnique({ where: { id } });
+    return item ? formatTreatmentCatalog(item) : null;
+  }
+
+  /**
+   * Find catalog treatment by code
+   */
+  async findTreatmentByCode(code: string): Promise<TreatmentCatalogResponse | null> {
+    const item = await prisma.treatmentCatalog.findUnique({ where: { code } });
+    return item ? formatTreatmentCatalog(item) : null;
+  }
+
+  /**
+   * Create catalog treatment with its first price
+   */
+  async createTreatment(
+    data: CreateTreatmentCatalogDTO,
+    change: CatalogChange
+  ): Promise<TreatmentCatalogResponse> {
+    const item = await prisma.treatmentCatalog.create({
+      data: {
+        ...data,
+        prices: {
+          create: {
+            price: data.baseCost,
+            changedById: change.changedById,
+            reason: change.reason,
+          },
+        },
+      },
+    });
+
+    return formatTreatmentCatalog(item);
+  }
+
+  /**
+   * Update catalog treatment
+   * A new baseCost closes the current price and opens a new one. Items created
+   * before the history existed get their previous price recorded first.
+   */
+  async updateTreatment(
+    id: string,
+    data: Omit<UpdateTreatmentCatalogDTO, 'priceChangeReason'>,
+    change: CatalogChange
+  ): Promise<TreatmentCatalogResponse> {
+    return prisma.$transaction(async (tx) => {
+      const current = await tx.treatmentCatalog.findUniqueOrThrow({ where: { id } });
+
+      if (data.baseCost !== undefined && data.baseCost !== Number(current.baseCost)) {
+        const now = new Date();
+        const closed = await tx.treatmentCatalogPrice.updateMany({
+          where: { catalogId: id, validTo: null },
+          data: { validTo: now },
+        });
+
+        if (closed.count === 0) {
+          await tx.treatmentCatalogPrice.create({
+            data: {
+              catalogId: id,
+              price: current.baseCost,
+              validFrom: current.createdAt,
+              validTo: now,
+            },
+          });
+        }
+
+        await tx.treatmentCatalogPrice.create({
+          data: {
+            catalogId: id,
+            price: data.baseCost,
+            validFrom: now,
+            changedById: change.changedById,
+            reason: change.reason,
+          },
+        });
+      }
+
+      const item = await tx.treatmentCatalog.update({
+        where: { id },
+        data,
+      });
+
+      return formatTreatmentCatalog(item);
+    });
+  }
+
+  /**
+   * Find the price history of a catalog treatment, newest first
+   */
+  async findPriceHistory(catalogId: string): Promise<TreatmentCatalogPriceResponse[]> {
+    const prices = await prisma.treatmentCatalogPrice.findMany({
+      where: { catalogId },
+      select: priceSelect,
+      orderBy: { validFrom: 'desc' },
+    });
+
+    return prices.map((price) => ({ ...price, price: Number(price.price) }));
+  }
+
+  /**
+   * ============================================
+   * PRICE LIST METHODS
+   * ============================================
+   */
+
+  /**
+   * Find price lists (active only unless includeInactive)
+   */
+  async findPriceLists(includeInactive = false): Promise<PriceListResponse[]> {
+    const lists = await prisma.priceList.findMany({
+      where: { isActive: includeInactive ? undefined : true },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return lists.map(formatPriceList);
+  }
+
+  /**
+   * Find price list by ID with its prices
+   */
+  async findPriceListById(id: string): Promise<PriceListResponse | null> {
+    const list = await prisma.priceList.findUnique({
+      where: { id },
+      include: {
+        items: {
+          include: priceListItemInclude,
+          orderBy: [{ catalog: { name: 'asc' } }, { validFrom: 'asc' }],
+        },
+      },
+    });
+
+    return list ? formatPriceList(list) : null;
+  }
+
+  /**
+   * Find price list by name
+   */
+  async findPriceListByName(name: string): Promise<PriceListResponse | null> {
+    const list = await prisma.priceList.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    });
+
+    return list ? formatPriceList(list) : null;
+  }
+
+  /**
+   * Create price list; a new default list replaces the previous one
+   */
+  async createPriceList(data: CreatePriceListDTO): Promise<PriceListResponse> {
+    return prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.priceList.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+
+      const list = await tx.priceList.create({
+        data: {
+          ...data,
+          validFrom: toDate(data.validFrom),
+          validTo: toDate(data.validTo),
+        },
+      });
+
+      return formatPriceList(list);
+    });
+  }
+
+  /**
+   * Update price list; a new default list replaces the previous one
+   */
+  async updatePriceList(id: string, data: UpdatePriceListDTO): Promise<PriceListResponse> {
+    return prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.priceList.updateMany({
+          where: { isDefault: true, id: { not: id } },
+          data: { isDefault: false },
+        });
+      }
+
+      const list = await tx.priceList.update({
+        where: { id },
+        data: {
+          ...data,
+          validFrom: toDate(data.validFrom),
+          validTo: toDate(data.validTo),
+        },
+      });
+
+      return formatPriceList(list);
+    });
+  }
+
+  /**
+   * Find the prices of a catalog item in a list
+   */
+  async findPriceListItems(priceListId: string, catalogId: string): Promise<PriceListItemResponse[]> {
+    const items = await prisma.priceListItem.findMany({
+      where: { priceListId, catalogId },
+      include: priceListItemInclude,
+    });
+
+    return items.map(formatPriceListItem);
+  }
+
+  /**
+   * Find price list item by ID
+   */
+  async findPriceListItem(priceListId: string, itemId: string): Promise<PriceListItemResponse | null> {
+    const item = await prisma.priceListItem.findFirst({
+      where: { id: itemId, priceListId },
+      include: priceListItemInclude,
+    });
+
+    return item ? formatPriceListItem(item) : null;
+  }
+
+  /**
+   * Add the price of a catalog item to a list
+   */
+  async createPriceListItem(priceListId: string, data: CreatePriceListItemDTO): Promise<PriceListItemResponse> {
+    const item = await prisma.priceListItem.create({
+      data: {
+        ...data,
+        priceListId,
+        validFrom: toDate(data.validFrom),
+        validTo: toDate(data.validTo),
+      },
+      include: priceListItemInclude,
+    });
+
+    return formatPriceListItem(item);
+  }
+
+  /**
+   * Delete price list item
+   */
+  async deletePriceListItem(itemId: string): Promise<void> {
+    await prisma.priceListItem.delete({ where: { id: itemId } });
+  }
+
+  /**
+   * Find the data that decides the price list of a patient
+   */
+  async findPatientPricingProfile(patientId: string): Promise<PatientPricingProfile | null> {
+    return prisma.patient.findFirst({
+      where: { id: patientId, deletedAt: null },
+      select: {
+        priceListId: true,
+        hasInsurance: true,
+        insuranceProvider: true,
+      },
+    });
+  }
+
+  /**
+   * Find the active price lists with their prices for some catalog items
+   */
+  async findActivePriceListsWithItems(catalogIds: string[]): Promise<PriceListResponse[]> {
+    const lists = await prisma.priceList.findMany({
+      where: { isActive: true },
+      include: {
+        items: {
+          where: { catalogId: { in: catalogIds } },
+          include: priceListItemInclude,
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return lists.map(formatPriceList);
+  }
+
+  /**
+   * Find the base cost of catalog items
+   */
+  async findBaseCosts(catalogIds: string[]): Promise<Map<string, number>> {
+    const items = await prisma.treatmentCatalog.findMany({
+      where: { id: { in: catalogIds } },
+      select: { id: true, baseCost: true },
+    });
+
+    return new Map(items.map((item) => [item.id, Number(item.baseCost)]));
+  }
+}
+
+const catalogRepository = new CatalogRepository();
+export { catalogRepository };
+export default catalogRepository;
@@ -0,0 +1,227 @@
+import { prisma } from '@config/database';
+import { Prisma } from '@prisma/client';
+import type {
+  ConsentTemplateResponse,
+  PatientConsentResponse,
+  PatientConsentDetailResponse,
+  CreateConsentTemplateDTO,
+  UpdateConsentTemplateDTO,
+} from '../types/consent.types';
+
+/**
+ * Fields of a consent returned in lists (without the document and signature)
+ */
+const consentSummarySelect = {
+  id: true,
+  patientId: true,
+  templateId: true,
+  category: true,
+  treatmentPlanId: true,
+  treatmentId: true,
+  title: true,
+  signedName: true,
+  signedAt: true,
+  collectedById: true,
+  documentHash: true,
+  createdAt: true,
+} satisfies Prisma.PatientConsentSelect;
+
+/**
+ * Consent Repository
+ * Handles database operations for consent templates and signed consents
+ * Signed consents are immutable: there are no update or delete methods
+ */
+export class ConsentRepository {
+  /**
+   * ============================================
+   * TEMPLATE METHODS
+   * ============================================
+   */
+
+  /**
+   * Find templates ordered by category
+   */
+  async findTemplates(includeInactive: boolean): Promise<ConsentTemplateResponse[]> {
+    return prisma.consentTemplate.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      orderBy: { category: 'asc' },
+    });
+  }
+
+  /**
+   * Find template by ID
+   */
+  async findTemplateById(id: string): Promise<ConsentTemplateResponse | null> {
+    return prisma.consentTemplate.findUnique({ where: { id } });
+  }
+
+  /**
+   * Find template by procedure category
+   */
+  async findTemplateByCategory(category: string): Promise<ConsentTemplateResponse | null> {
+    return prisma.consentTemplate.findUnique({ where: { category } });
+  }
+
+  /**
+   * Find active templates that require a signed consent for the given categories
+   */
+  async findRequiredTemplates(categories: string[]): Promise<ConsentTemplateResponse[]> {
+    return prisma.consentTemplate.findMany({
+      where: { category: { in: categories }, isActive: true, isRequired: true },
+    });
+  }
+
+  /**
+   * Create template
+   */
+  async createTemplate(data: CreateConsentTemplateDTO): Promise<ConsentTemplateResponse> {
+    return prisma.consentTemplate.create({ data });
+  }
+
+  /**
+   * Update template
+   */
+  async updateTemplate(id: string, data: UpdateConsentTemplateDTO): Promise<ConsentTemplateResponse> {
+    return prisma.consentTemplate.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * ============================================
+   * CONSENT METHODS
+   * ============================================
+   */
+
+  /**
+   * Find signed consents of a patient, newest first
+   */
+  async findByPatientId(patientId: string): Promise<PatientConsentResponse[]> {
+    return prisma.patientConsent.findMany({
+      where: { patientId },
+      select: consentSummarySelect,
+      orderBy: { signedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Find signed consent by ID (full document)
+   */
+  async findById(id: string): Promise<PatientConsentDetailResponse | null> {
+    return prisma.patientConsent.findUnique({
+      where: { id },
+      select: {
+        ...consentSummarySelect,
+        content: true,
+        signatureImage: true,
+        ipAddress: true,
+        userAgent: true,
+      },
+    });
+  }
+
+  /**
+   * Store a signed consent
+   */
+  async create(data: Prisma.PatientConsentUncheckedCreateInput): Promise<PatientConsentResponse> {
+    return prisma.patientConsent.create({
+      data,
+      select: consentSummarySelect,
+    });
+  }
+
+  /**
+   * Categories with a signed consent for a treatment or a treatment plan
+   */
+  async findSignedCategories(where: { treatmentId: string } | { treatmentPlanId: string }): Promise<string[]> {
+    const consents = await prisma.patientConsent.findMany({
+      where,
+      select: { category: true },
+      distinct: ['category'],
+    });
+
+    return consents.map((consent) => consent.category);
+  }
+
+  /**
+   * ============================================
+   * DOCUMENT DATA METHODS
+   * ============================================
+   */
+
+  /**
+   * Find the patient named in the document
+   */
+  async findPatient(patientId: string) {
+    return prisma.patient.findFirst({
+      where: { id: patientId, deletedAt: null },
+      select: { firstName: true, lastName: true, identification: true, identificationType: true },
+    });
+  }
+
+  /**
+   * Find a treatment with its catalog item, professional and plan
+   */
+  async findTreatment(treatmentId: string) {
+    return prisma.treatment.findUnique({
+      where: { id: treatmentId },
+      select: {
+        id: true,
+        patientId: true,
+        toothNumber: true,
+        catalog: { select: { name: true, category: true } },
+        doctor: { select: { firstName: true, lastName: true } },
+        planItem: { select: { treatmentPlanId: true } },
+      },
+    });
+  }
+
+  /**
+   * Find the procedure category of a catalog item
+   */
+  async findCatalogCategory(catalogId: string): Promise<string | null> {
+    const catalog = await prisma.treatmentCatalog.findUnique({
+      where: { id: catalogId },
+      select: { category: true },
+    });
+
+    return catalog?.category ?? null;
+  }
+
+  /**
+   * Find a treatment plan with its items and professional
+   */
+  async findTreatmentPlan(treatmentPlanId: string) {
+    const plan = await prisma.treatmentPlan.findUnique({
+      where: { id: treatmentPlanId },
+      select: {
+        id: true,
+        patientId: true,
+        doctorId: true,
+        items: {
+          orderBy: [{ phase: { sequence: 'asc' } }, { sequence: 'asc' }],
+          select: {
+            toothNumber: true,
+            catalog: { select: { name: true, category: true } },
+          },
+        },
+      },
+    });
+
+    if (!plan) return null;
+
+    const doctor = plan.doctorId
+      ? await prisma.user.findUnique({
+          where: { id: plan.doctorId },
+          select: { firstName: true, lastName: true },
+        })
+      : null;
+
+    return { ...plan, doctor };
+  }
+}
+
+const consentRepository = new ConsentRepository();
+export { consentRepository };
+export default consentRepository;
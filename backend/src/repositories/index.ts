@@ -7,6 +7,14 @@ export * from './auth.repository';
 export * from './patient.repository';
 export * from './appointment.repository';
 export * from './odontogram.repository';
-// export * from './user.repository';
+export * from './periodontogram.repository';
+export * from './role.repository';
+export * from './user.repository';
+export * from './schedule.repository';
+export * from './audit.repository';
+export * from './consent.repository';
+export * from './catalog.repository';
+export * from './insurance.repository';
+export * from './reminder.repository';
 // export * from './treatment.repository';
 // export * from './invoice.repository';
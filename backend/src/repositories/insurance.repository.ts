@@ -0,0 +1,591 @@
+import { prisma } from '@config/database';
+import { ClaimStatus, Prisma } from '@prisma/client';
+import { PAYABLE_CLAIM_STATUSES, resolveClaimPaymentStatus } from '@utils/insurance';
+import type {
+  ClaimItemInput,
+  ClaimListOptions,
+  ClaimPaymentAllocation,
+  ClaimPaymentResponse,
+  ClaimResponse,
+  CoverageUsage,
+  CreateClaimDTO,
+  CreateClaimPaymentDTO,
+  CreateInsurancePlanDTO,
+  CreateInsurerDTO,
+  InsurancePlanResponse,
+  InsurerResponse,
+  PaginatedClaimResponse,
+  UpdateInsurancePlanDTO,
+  UpdateInsurerDTO,
+} from '../types/insurance.types';
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const planInclude = {
+  rules: { orderBy: { category: 'asc' } },
+  insurer: { select: { id: true, name: true, isActive: true } },
+} satisfies Prisma.InsurancePlanInclude;
+
+type PlanWithRules = Prisma.InsurancePlanGetPayload<{ include: typeof planInclude }>;
+
+const claimInclude = {
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      insuranceNumber: true,
+    },
+  },
+  insurer: { select: { id: true, name: true } },
+  plan: { select: { id: true, name: true } },
+} satisfies Prisma.InsuranceClaimInclude;
+
+const claimDetailInclude = {
+  ...claimInclude,
+  items: {
+    include: {
+      treatment: {
+        select: {
+          id: true,
+          toothNumber: true,
+          completedDate: true,
+          catalog: {
+            select: {
+              code: true,
+              name: true,
+              category: true,
+            },
+          },
+        },
+      },
+    },
+  },
+  payments: { orderBy: { date: 'asc' } },
+} satisfies Prisma.InsuranceClaimInclude;
+
+type ClaimWithRelations = Prisma.InsuranceClaimGetPayload<{ include: typeof claimInclude }> &
+  Partial<Pick<Prisma.InsuranceClaimGetPayload<{ include: typeof claimDetailInclude }>, 'items' | 'payments'>>;
+
+const formatPlan = (plan: PlanWithRules): InsurancePlanResponse => ({
+  ...plan,
+  annualMaximum: plan.annualMaximum === null ? null : Number(plan.annualMaximum),
+  deductible: Number(plan.deductible),
+  defaultCoveragePercent: Number(plan.defaultCoveragePercent),
+  rules: plan.rules.map(({ planId: _planId, ...rule }) => ({
+    ...rule,
+    coveragePercent: Number(rule.coveragePercent),
+  })),
+});
+
+const formatClaimPayment = (
+  payment: Prisma.InsuranceClaimPaymentGetPayload<object>
+): ClaimPaymentResponse => ({
+  id: payment.id,
+  claimId: payment.claimId,
+  amount: Number(payment.amount),
+  paymentMethod: payment.paymentMethod,
+  date: payment.date,
+  reference: payment.reference,
+  notes: payment.notes,
+  createdAt: payment.createdAt,
+});
+
+const formatClaim = (claim: ClaimWithRelations): ClaimResponse => ({
+  ...claim,
+  claimedAmount: Number(claim.claimedAmount),
+  approvedAmount: claim.approvedAmount === null ? null : Number(claim.approvedAmount),
+  paidAmount: Number(claim.paidAmount),
+  items: claim.items?.map((item) => ({
+    id: item.id,
+    treatmentId: item.treatmentId,
+    cost: Number(item.cost),
+    coveragePercent: Number(item.coveragePercent),
+    deductibleApplied: Number(item.deductibleApplied),
+    claimedAmount: Number(item.claimedAmount),
+    approvedAmount: item.approvedAmount === null ? null : Number(item.approvedAmount),
+    paidAmount: Number(item.paidAmount),
+    treatment: item.treatment,
+  })),
+  payments: claim.payments?.map(formatClaimPayment),
+});
+
+/**
+ * Insurance Repository
+ * Handles database operations for insurers, their plans and coverage rules,
+ * and the claims sent to them
+ */
+export class InsuranceRepository {
+  /**
+   * ============================================
+   * INSURER METHODS
+   * ============================================
+   */
+
+  /**
+   * Find insurers (active only unless includeInactive)
+   */
+  async findInsurers(includeInactive = false): Promise<InsurerResponse[]> {
+    return prisma.insurer.findMany({
+      where: { isActive: includeInactive ? undefined : true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Find insurer by ID with its plans
+   */
+  async findInsurerById(id: string): Promise<InsurerResponse | null> {
+    const insurer = await prisma.insurer.findUnique({
+      where: { id },
+      include: {
+        plans: {
+          include: planInclude,
+          orderBy: { name: 'asc' },
+        },
+      },
+    });
+
+    return insurer ? { ...insurer, plans: insurer.plans.map(formatPlan) } : null;
+  }
+
+  /**
+   * Find insurer by name
+   */
+  async findInsurerByName(name: string): Promise<InsurerResponse | null> {
+    return prisma.insurer.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+    });
+  }
+
+  /**
+   * Create insurer
+   */
+  async createInsurer(data: CreateInsurerDTO): Promise<InsurerResponse> {
+    return prisma.insurer.create({ data });
+  }
+
+  /**
+   * Update insurer
+   */
+  async updateInsurer(id: string, data: UpdateInsurerDTO): Promise<InsurerResponse> {
+    return prisma.insurer.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * ============================================
+   * PLAN METHODS
+   * ============================================
+   */
+
+  /**
+   * Find plan by ID with its coverage rules
+   */
+  async findPlanById(id: string): Promise<InsurancePlanResponse | null> {
+    const plan = await prisma.insurancePlan.findUnique({
+      where: { id },
+      include: planInclude,
+    });
+
+    return plan ? formatPlan(plan) : null;
+  }
+
+  /**
+   * Find plan of an insurer by name
+   */
+  async findPlanByName(insurerId: string, name: string): Promise<InsurancePlanResponse | null> {
+    const plan = await prisma.insurancePlan.findFirst({
+      where: { insurerId, name: { equals: name, mode: 'insensitive' } },
+      include: planInclude,
+    });
+
+    return plan ? formatPlan(plan) : null;
+  }
+
+  /**
+   * Create plan with its coverage rules
+   */
+  async createPlan(insurerId: string, data: CreateInsurancePlanDTO): Promise<InsurancePlanResponse> {
+    const { rules, ...planData } = data;
+
+    const plan = await prisma.insurancePlan.create({
+      data: {
+        ...planData,
+        insurerId,
+        rules: { create: rules },
+      },
+      include: planInclude,
+    });
+
+    return formatPlan(plan);
+  }
+
+  /**
+   * Update plan; given rules replace the current ones
+   */
+  async updatePlan(id: string, data: UpdateInsurancePlanDTO): Promise<InsurancePlanResponse> {
+    const { rules, ...planData } = data;
+
+    return prisma.$transaction(async (tx) => {
+      if (rules) {
+        await tx.coverageRule.deleteMany({ where: { planId: id } });
+        await tx.coverageRule.createMany({
+          data: rules.map((rule) => ({ ...rule, planId: id })),
+        });
+      }
+
+      const plan = await tx.insurancePlan.update({
+        where: { id },
+        data: planData,
+        include: planInclude,
+      });
+
+      return formatPlan(plan);
+    });
+  }
+
+  /**
+   * ============================================
+   * COVERAGE METHODS
+   * ============================================
+   */
+
+  /**
+   * Find the insurance data of a patient with the rules of their plan
+   */
+  async findPatientCoverage(patientId: string) {
+    const patient = await prisma.patient.findFirst({
+      where: { id: patientId, deletedAt: null },
+      select: {
+        id: true,
+        hasInsurance: true,
+        insuranceStartDate: true,
+        insurancePlan: { include: planInclude },
+      },
+    });
+
+    if (!patient) {
+      return null;
+    }
+
+    return {
+      ...patient,
+      insurancePlan: patient.insurancePlan ? formatPlan(patient.insurancePlan) : null,
+    };
+  }
+
+  /**
+   * Sum the deductible and benefits a patient used from a plan in a year
+   * Benefits count the approved amount, or the claimed one while pending;
+   * denied claims do not count
+   */
+  async findYearUsage(
+    patientId: string,
+    planId: string,
+    year: number,
+    excludeTreatmentIds: string[] = []
+  ): Promise<CoverageUsage> {
+    const items = await prisma.insuranceClaimItem.findMany({
+      where: {
+        treatmentId: { notIn: excludeTreatmentIds },
+        claim: {
+          patientId,
+          planId,
+          status: { not: ClaimStatus.DENIED },
+        },
+        treatment: {
+          completedDate: {
+            gte: new Date(year, 0, 1),
+            lt: new Date(year + 1, 0, 1),
+          },
+        },
+      },
+      select: {
+        deductibleApplied: true,
+        claimedAmount: true,
+        approvedAmount: true,
+      },
+    });
+
+    return {
+      deductibleUsed: round(items.reduce((sum, item) => sum + Number(item.deductibleApplied), 0)),
+      benefitsUsed: round(
+        items.reduce((sum, item) => sum + Number(item.approvedAmount ?? item.claimedAmount), 0)
+      ),
+    };
+  }
+
+  /**
+   * Find treatments to claim with their category and the claims they are in
+   */
+  async findTreatmentsForClaim(ids: string[]) {
+    return prisma.treatment.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        patientId: true,
+        catalogId: true,
+        status: true,
+        cost: true,
+        completedDate: true,
+        plannedDate: true,
+        catalog: { select: { code: true, category: true } },
+        claimItems: {
+          where: { claim: { status: { not: ClaimStatus.DENIED } } },
+          select: { claimId: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Check whether a treatment is in a claim that was not denied
+   */
+  async hasActiveClaim(treatmentId: string): Promise<boolean> {
+    const count = await prisma.insuranceClaimItem.count({
+      where: {
+        treatmentId,
+        claim: { status: { not: ClaimStatus.DENIED } },
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * ============================================
+   * CLAIM METHODS
+   * ============================================
+   */
+
+  /**
+   * Find claims with filters and pagination, newest first
+   */
+  async findClaims(options: ClaimListOptions = {}): Promise<PaginatedClaimResponse> {
+    const { filters = {}, pagination = { page: 1, limit: 20 } } = options;
+
+    const where: Prisma.InsuranceClaimWhereInput = {
+      status: filters.status,
+      patientId: filters.patientId,
+      insurerId: filters.insurerId,
+    };
+
+    const skip = (pagination.page - 1) * pagination.limit;
+
+    const [claims, total] = await Promise.all([
+      prisma.insuranceClaim.findMany({
+        where,
+        skip,
+        take: pagination.limit,
+        include: claimInclude,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.insuranceClaim.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / pagination.limit);
+
+    return {
+      data: claims.map(formatClaim),
+      pagination: {
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages,
+        hasMore: pagination.page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Find claim by ID with its items and payments
+   */
+  async findClaimById(id: string): Promise<ClaimResponse | null> {
+    const claim = await prisma.insuranceClaim.findUnique({
+      where: { id },
+      include: claimDetailInclude,
+    });
+
+    return claim ? formatClaim(claim) : null;
+  }
+
+  /**
+   * Create a draft claim; each treatment takes the claimed amount as its insurer portion
+   */
+  async createClaim(
+    data: Omit<CreateClaimDTO, 'treatmentIds'> & { insurerId: string; planId: string; createdBy: string },
+    items: ClaimItemInput[]
+  ): Promise<ClaimResponse> {
+    return prisma.$transaction(async (tx) => {
+      const claim = await tx.insuranceClaim.create({
+        data: {
+          ...data,
+          claimedAmount: round(items.reduce((sum, item) => sum + item.insurerPortion, 0)),
+          items: {
+            create: items.map((item) => ({
+              treatmentId: item.treatmentId,
+              cost: item.cost,
+              coveragePercent: item.coveragePercent,
+              deductibleApplied: item.deductibleApplied,
+              claimedAmount: item.insurerPortion,
+            })),
+          },
+        },
+        include: claimDetailInclude,
+      });
+
+      for (const item of items) {
+        await tx.treatment.update({
+          where: { id: item.treatmentId },
+          data: { insurerPortion: item.insurerPortion },
+        });
+      }
+
+      return formatClaim(claim);
+    });
+  }
+
+  /**
+   * Delete a draft claim
+   * @returns false if the claim left DRAFT meanwhile
+   */
+  async deleteDraftClaim(id: string): Promise<boolean> {
+    const deleted = await prisma.insuranceClaim.deleteMany({
+      where: { id, status: ClaimStatus.DRAFT },
+    });
+
+    return deleted.count > 0;
+  }
+
+  /**
+   * Update claim status only if it is still in the expected status
+   * @returns null if the claim changed meanwhile
+   */
+  async updateClaimStatus(
+    id: string,
+    from: ClaimStatus,
+    data: Prisma.InsuranceClaimUpdateManyMutationInput & { status: ClaimStatus }
+  ): Promise<ClaimResponse | null> {
+    const updated = await prisma.insuranceClaim.updateMany({
+      where: { id, status: from },
+      data,
+    });
+
+    return updated.count > 0 ? this.findClaimById(id) : null;
+  }
+
+  /**
+   * Record the insurer's answer on a submitted claim: each item gets its
+   * approved amount (0 on denial) and its treatment moves the rest of the cost
+   * to the patient
+   * @returns null if the claim left SUBMITTED meanwhile
+   */
+  async resolveClaim(
+    id: string,
+    approvals: { itemId: string; treatmentId: string; approvedAmount: number }[],
+    data: Prisma.InsuranceClaimUpdateManyMutationInput & { status: ClaimStatus }
+  ): Promise<ClaimResponse | null> {
+    const resolved = await prisma.$transaction(async (tx) => {
+      const updated = await tx.insuranceClaim.updateMany({
+        where: { id, status: ClaimStatus.SUBMITTED },
+        data: {
+          ...data,
+          approvedAmount: round(approvals.reduce((sum, item) => sum + item.approvedAmount, 0)),
+          respondedAt: new Date(),
+        },
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      for (const approval of approvals) {
+        await tx.insuranceClaimItem.update({
+          where: { id: approval.itemId },
+          data: { approvedAmount: approval.approvedAmount },
+        });
+        await tx.treatment.update({
+          where: { id: approval.treatmentId },
+          data: { insurerPortion: approval.approvedAmount },
+        });
+      }
+
+      return true;
+    });
+
+    return resolved ? this.findClaimById(id) : null;
+  }
+
+  /**
+   * Post a remittance: the claim, its items and their treatments are paid
+   * the same way a patient payment pays a treatment
+   * @returns null if the claim was paid or changed meanwhile
+   */
+  async createClaimPayment(
+    id: string,
+    data: CreateClaimPaymentDTO & { createdBy: string },
+    allocations: ClaimPaymentAllocation[]
+  ): Promise<ClaimPaymentResponse | null> {
+    return prisma.$transaction(async (tx) => {
+      const claim = await tx.insuranceClaim.findUnique({ where: { id } });
+      if (!claim || !PAYABLE_CLAIM_STATUSES.includes(claim.status) || claim.approvedAmount === null) {
+        return null;
+      }
+
+      const approvedAmount = Number(claim.approvedAmount);
+      const paidAmount = round(Number(claim.paidAmount) + data.amount);
+      if (paidAmount > approvedAmount) {
+        return null;
+      }
+
+      const updated = await tx.insuranceClaim.updateMany({
+        where: {
+          id,
+          status: claim.status,
+          paidAmount: claim.paidAmount,
+        },
+        data: {
+          paidAmount,
+          status: resolveClaimPaymentStatus(approvedAmount, paidAmount),
+        },
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      for (const allocation of allocations) {
+        await tx.insuranceClaimItem.update({
+          where: { id: allocation.itemId },
+          data: { paidAmount: { increment: allocation.amount } },
+        });
+
+        const treatment = await tx.treatment.findUniqueOrThrow({ where: { id: allocation.treatmentId } });
+        await tx.treatment.update({
+          where: { id: allocation.treatmentId },
+          data: {
+            paid: round(Number(treatment.paid) + allocation.amount),
+            balance: Math.max(0, round(Number(treatment.balance) - allocation.amount)),
+          },
+        });
+      }
+
+      const payment = await tx.insuranceClaimPayment.create({
+        data: {
+          ...data,
+          claimId: id,
+          date: data.date ? new Date(data.date) : new Date(),
+        },
+      });
+
+      return formatClaimPayment(payment);
+    });
+  }
+}
+
+const insuranceRepository = new InsuranceRepository();
+export { insuranceRepository };
+export default insuranceRepository;
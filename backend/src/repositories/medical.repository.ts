@@ -1,5 +1,7 @@
 import { prisma } from '@config/database';
-import { Prisma } from '@prisma/client';
+import { Prisma, TreatmentPlanStatus, TreatmentStatus } from '@prisma/client';
+import { sumLineTotals } from '@utils/treatmentPlan';
+import { buildPaymentPlanData } from '@repositories/accounting.repository';
 import type {
   MedicalHistoryResponse,
   DiagnosisResponse,
@@ -12,8 +14,33 @@ import type {
   UpdateTreatmentDTO,
   CreateTreatmentPlanDTO,
   UpdateTreatmentPlanDTO,
+  PricedTreatmentPlanPhase,
+  ApprovalPaymentPlan,
 } from '../types/medical.types';
 
+const treatmentPlanInclude = {
+  phases: {
+    orderBy: { sequence: 'asc' },
+    include: {
+      items: {
+        orderBy: { sequence: 'asc' },
+        include: {
+          catalog: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+              category: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.TreatmentPlanInclude;
+
+type TreatmentPlanWithPhases = Prisma.TreatmentPlanGetPayload<{ include: typeof treatmentPlanInclude }>;
+
 /**
  * Medical Repository
  * Handles all database operations for medical records
@@ -294,6 +321,33 @@ export class MedicalRepository {
     });
   }
 
+  /**
+   * Find CIE-10 codes by code
+   */
+  async findCIE10Codes(codes: string[]) {
+    return prisma.cIE10Code.findMany({
+      where: { code: { in: codes } },
+    });
+  }
+
+  /**
+   * Find active treatment catalog items by code
+   */
+  async findActiveCatalogItemsByCode(codes: string[]) {
+    return prisma.treatmentCatalog.findMany({
+      where: { code: { in: codes }, isActive: true },
+    });
+  }
+
+  /**
+   * Find active catalog items by ID
+   */
+  async findActiveCatalogItemsByIds(ids: string[]) {
+    return prisma.treatmentCatalog.findMany({
+      where: { id: { in: ids }, isActive: true },
+    });
+  }
+
   /**
    * ============================================
    * TREATMENT METHODS
@@ -373,7 +427,7 @@ export class MedicalRepository {
   async createTreatment(
     patientId: string,
     doctorId: string,
-    data: CreateTreatmentDTO
+    data: CreateTreatmentDTO & { cost: number; insurerPortion?: number }
   ): Promise<TreatmentResponse> {
     const paid = data.paid ?? 0;
     const balance = data.cost - paid;
@@ -388,6 +442,7 @@ export class MedicalRepository {
         description: data.description,
         status: data.status ?? 'PLANNED',
         cost: data.cost,
+        insurerPortion: data.insurerPortion ?? 0,
         paid,
         balance,
         plannedDate: data.plannedDate ? new Date(data.plannedDate) : null,
@@ -423,7 +478,10 @@ export class MedicalRepository {
   /**
    * Update treatment
    */
-  async updateTreatment(id: string, data: UpdateTreatmentDTO): Promise<TreatmentResponse> {
+  async updateTreatment(
+    id: string,
+    data: UpdateTreatmentDTO & { insurerPortion?: number }
+  ): Promise<TreatmentResponse> {
     // First get current treatment to calculate balance
     const current = await prisma.treatment.findUnique({
       where: { id },
@@ -451,6 +509,7 @@ export class MedicalRepository {
     if (data.description !== undefined) updateData.description = data.description;
     if (data.status !== undefined) updateData.status = data.status;
     if (data.cost !== undefined) updateData.cost = data.cost;
+    if (data.insurerPortion !== undefined) updateData.insurerPortion = data.insurerPortion;
     if (data.paid !== undefined) updateData.paid = data.paid;
     if (data.plannedDate !== undefined) {
       updateData.plannedDate = data.plannedDate ? new Date(data.plannedDate) : null;
@@ -537,12 +596,10 @@ export class MedicalRepository {
     const plans = await prisma.treatmentPlan.findMany({
       where: { patientId },
       orderBy: { createdAt: 'desc' },
+      include: treatmentPlanInclude,
     });
 
-    return plans.map(plan => ({
-      ...plan,
-      totalCost: Number(plan.totalCost),
-    }));
+    return plans.map(plan => this.formatTreatmentPlan(plan));
   }
 
   /**
@@ -551,69 +608,275 @@ export class MedicalRepository {
   async findTreatmentPlanById(id: string): Promise<TreatmentPlanResponse | null> {
     const plan = await prisma.treatmentPlan.findUnique({
       where: { id },
+      include: treatmentPlanInclude,
     });
 
     if (!plan) return null;
 
-    return {
-      ...plan,
-      totalCost: Number(plan.totalCost),
-    };
+    return this.formatTreatmentPlan(plan);
   }
 
   /**
-   * Create treatment plan
+   * Create treatment plan with its phases and items
+   * The total cost is the sum of the item totals
    */
   async createTreatmentPlan(
     patientId: string,
-    data: CreateTreatmentPlanDTO
+    doctorId: string,
+    data: Omit<CreateTreatmentPlanDTO, 'phases'>,
+    phases: PricedTreatmentPlanPhase[]
   ): Promise<TreatmentPlanResponse> {
-    const plan = await prisma.treatmentPlan.create({
-      data: {
-        patientId,
-        title: data.title,
-        description: data.description,
-        totalCost: data.totalCost,
-        status: data.status ?? 'DRAFT',
-        pdfUrl: data.pdfUrl,
-      },
+    const plan = await prisma.$transaction(async (tx) => {
+      const created = await tx.treatmentPlan.create({
+        data: {
+          patientId,
+          doctorId,
+          title: data.title,
+          description: data.description,
+          totalCost: sumLineTotals(phases.flatMap(phase => phase.items)),
+        },
+      });
+
+      for (const phase of this.buildTreatmentPlanPhases(created.id, phases)) {
+        await tx.treatmentPlanPhase.create({ data: phase });
+      }
+
+      return tx.treatmentPlan.findUniqueOrThrow({
+        where: { id: created.id },
+        include: treatmentPlanInclude,
+      });
     });
 
-    return {
-      ...plan,
-      totalCost: Number(plan.totalCost),
-    };
+    return this.formatTreatmentPlan(plan);
   }
 
   /**
-   * Update treatment plan
+   * Update a draft treatment plan
+   * If phases are sent, the existing phases and items are replaced
+   * @returns Updated plan, or null if it is no longer a draft
    */
   async updateTreatmentPlan(
     id: string,
-    data: UpdateTreatmentPlanDTO
-  ): Promise<TreatmentPlanResponse> {
-    const updateData: Prisma.TreatmentPlanUpdateInput = {};
+    data: Omit<UpdateTreatmentPlanDTO, 'phases'>,
+    phases?: PricedTreatmentPlanPhase[]
+  ): Promise<TreatmentPlanResponse | null> {
+    const updateData: Prisma.TreatmentPlanUpdateManyMutationInput = {};
 
     if (data.title !== undefined) updateData.title = data.title;
     if (data.description !== undefined) updateData.description = data.description;
-    if (data.totalCost !== undefined) updateData.totalCost = data.totalCost;
-    if (data.status !== undefined) updateData.status = data.status;
-    if (data.pdfUrl !== undefined) updateData.pdfUrl = data.pdfUrl;
-    if (data.approvedAt !== undefined) {
-      updateData.approvedAt = data.approvedAt ? new Date(data.approvedAt) : null;
+    if (phases !== undefined) {
+      updateData.totalCost = sumLineTotals(phases.flatMap(phase => phase.items));
     }
 
-    const plan = await prisma.treatmentPlan.update({
+    const plan = await prisma.$transaction(async (tx) => {
+      const updated = await tx.treatmentPlan.updateMany({
+        where: { id, status: TreatmentPlanStatus.DRAFT },
+        data: updateData,
+      });
+
+      if (updated.count === 0) {
+        return null;
+      }
+
+      if (phases !== undefined) {
+        await tx.treatmentPlanPhase.deleteMany({ where: { treatmentPlanId: id } });
+        for (const phase of this.buildTreatmentPlanPhases(id, phases)) {
+          await tx.treatmentPlanPhase.create({ data: phase });
+        }
+      }
+
+      return tx.treatmentPlan.findUniqueOrThrow({
+        where: { id },
+        include: treatmentPlanInclude,
+      });
+    });
+
+    return plan && this.formatTreatmentPlan(plan);
+  }
+
+  /**
+   * Set the URL of the plan quote PDF
+   */
+  async setTreatmentPlanPdfUrl(id: string, pdfUrl: string): Promise<void> {
+    await prisma.treatmentPlan.update({
       where: { id },
-      data: updateData,
+      data: { pdfUrl },
+    });
+  }
+
+  /**
+   * Find the patient and professional shown on a plan quote
+   */
+  async findTreatmentPlanQuoteParties(patientId: string, doctorId: string | null) {
+    const [patient, doctor] = await Promise.all([
+      prisma.patient.findUnique({
+        where: { id: patientId },
+        select: {
+          firstName: true,
+          lastName: true,
+          identification: true,
+          identificationType: true,
+          phone: true,
+          email: true,
+          address: true,
+        },
+      }),
+      doctorId
+        ? prisma.user.findUnique({
+            where: { id: doctorId },
+            select: { firstName: true, lastName: true },
+          })
+        : null,
+    ]);
+
+    return { patient, doctor };
+  }
+
+  /**
+   * Move a plan to a new status, only if it is still in the expected one
+   * Returns null if the plan changed status in the meantime
+   */
+  async updateTreatmentPlanStatus(
+    id: string,
+    from: TreatmentPlanStatus,
+    data: Prisma.TreatmentPlanUpdateManyMutationInput & { status: TreatmentPlanStatus }
+  ): Promise<TreatmentPlanResponse | null> {
+    const { count } = await prisma.treatmentPlan.updateMany({
+      where: { id, status: from },
+      data,
+    });
+
+    return count > 0 ? this.findTreatmentPlanById(id) : null;
+  }
+
+  /**
+   * Approve a plan pending approval
+   * Creates a PLANNED treatment for each item (in phase order) and links it to the item,
+   * and the payment plan if one is given
+   * Returns null if the plan is no longer pending approval
+   */
+  async approveTreatmentPlan(
+    id: string,
+    approvedById: string,
+    paymentPlan?: ApprovalPaymentPlan
+  ): Promise<{
+    plan: TreatmentPlanResponse;
+    treatments: TreatmentResponse[];
+    paymentPlanId: string | null;
+  } | null> {
+    const result = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.treatmentPlan.updateMany({
+        where: { id, status: TreatmentPlanStatus.PENDING_APPROVAL },
+        data: {
+          status: TreatmentPlanStatus.APPROVED,
+          approvedAt: new Date(),
+          approvedById,
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const plan = await tx.treatmentPlan.findUniqueOrThrow({
+        where: { id },
+        include: treatmentPlanInclude,
+      });
+
+      const treatments = [];
+
+      for (const phase of plan.phases) {
+        for (const item of phase.items) {
+          const treatment = await tx.treatment.create({
+            data: {
+              patientId: plan.patientId,
+              doctorId: plan.doctorId ?? approvedById,
+              catalogId: item.catalogId,
+              toothNumber: item.toothNumber,
+              description: `${phase.name}: ${item.catalog.name}`,
+              status: TreatmentStatus.PLANNED,
+              cost: item.total,
+              paid: 0,
+              balance: item.total,
+              notes: item.notes,
+            },
+            include: {
+              doctor: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                },
+              },
+              catalog: {
+                select: {
+                  id: true,
+                  code: true,
+                  name: true,
+                  category: true,
+                },
+              },
+            },
+          });
+
+          await tx.treatmentPlanItem.update({
+            where: { id: item.id },
+            data: { treatmentId: treatment.id },
+          });
+
+          item.treatmentId = treatment.id;
+          treatments.push(treatment);
+        }
+      }
+
+      const createdPaymentPlan = paymentPlan
+        ? await tx.paymentPlan.create({
+            data: buildPaymentPlanData(paymentPlan.data, paymentPlan.installments),
+            select: { id: true },
+          })
+        : null;
+
+      return { plan, treatments, paymentPlanId: createdPaymentPlan?.id ?? null };
     });
 
+    if (!result) return null;
+
     return {
-      ...plan,
-      totalCost: Number(plan.totalCost),
+      plan: this.formatTreatmentPlan(result.plan),
+      treatments: result.treatments.map(t => this.formatTreatment(t)),
+      paymentPlanId: result.paymentPlanId,
     };
   }
 
+  /**
+   * Build the create input of sequenced phases and items of a plan
+   */
+  private buildTreatmentPlanPhases(
+    treatmentPlanId: string,
+    phases: PricedTreatmentPlanPhase[]
+  ): Prisma.TreatmentPlanPhaseUncheckedCreateInput[] {
+    return phases.map((phase, phaseIndex) => ({
+      treatmentPlanId,
+      sequence: phaseIndex + 1,
+      name: phase.name,
+      description: phase.description,
+      items: {
+        create: phase.items.map((item, itemIndex) => ({
+          treatmentPlanId,
+          sequence: itemIndex + 1,
+          catalogId: item.catalogId,
+          toothNumber: item.toothNumber,
+          surfaces: item.surfaces?.length ? JSON.stringify(item.surfaces) : null,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+          total: item.total,
+          notes: item.notes,
+        })),
+      },
+    }));
+  }
+
   /**
    * ============================================
    * UTILITY METHODS
@@ -630,16 +893,6 @@ export class MedicalRepository {
     return !!patient;
   }
 
-  /**
-   * Check if treatment catalog exists
-   */
-  async treatmentCatalogExists(catalogId: string): Promise<boolean> {
-    const catalog = await prisma.treatmentCatalog.findUnique({
-      where: { id: catalogId },
-    });
-    return !!catalog;
-  }
-
   /**
    * Check if CIE-10 code exists
    */
@@ -680,6 +933,44 @@ export class MedicalRepository {
     };
   }
 
+  /**
+   * Format treatment plan with its phases and items
+   */
+  private formatTreatmentPlan(plan: TreatmentPlanWithPhases): TreatmentPlanResponse {
+    const phases = plan.phases.map(phase => {
+      const items = phase.items.map(item => ({
+        id: item.id,
+        phaseId: item.phaseId,
+        sequence: item.sequence,
+        catalogId: item.catalogId,
+        toothNumber: item.toothNumber,
+        surfaces: item.surfaces ? JSON.parse(item.surfaces) : [],
+        quantity: item.quantity,
+        unitPrice: Number(item.unitPrice),
+        discount: Number(item.discount),
+        total: Number(item.total),
+        notes: item.notes,
+        treatmentId: item.treatmentId,
+        catalog: item.catalog,
+      }));
+
+      return {
+        id: phase.id,
+        sequence: phase.sequence,
+        name: phase.name,
+        description: phase.description,
+        total: sumLineTotals(items),
+        items,
+      };
+    });
+
+    return {
+      ...plan,
+      totalCost: Number(plan.totalCost),
+      phases,
+    };
+  }
+
   /**
    * Format treatment
    */
@@ -687,6 +978,8 @@ export class MedicalRepository {
     return {
       ...treatment,
       cost: Number(treatment.cost),
+      insurerPortion: Number(treatment.insurerPortion),
+      patientPortion: Number(treatment.cost) - Number(treatment.insurerPortion),
       paid: Number(treatment.paid),
       balance: Number(treatment.balance),
       diagnosis: treatment.diagnosis ? this.formatDiagnosis(treatment.diagnosis) : undefined,
@@ -1,5 +1,5 @@
 import { prisma } from '@config/database';
-import { DentitionType, Prisma } from '@prisma/client';
+import { DentitionType, OdontogramProposal, OdontogramProposalStatus, Prisma, ToothStatus } from '@prisma/client';
 import type {
   OdontogramResponse,
   OdontogramWithTeethResponse,
@@ -8,6 +8,8 @@ import type {
   UpdateOdontogramDTO,
   UpdateToothDTO,
   ToothSurfacesResponse,
+  OdontogramExportPatient,
+  OdontogramProposalResponse,
 } from '../types/odontogram.types';
 import { getAllToothNumbers } from '../types/odontogram.types';
 
@@ -254,11 +256,13 @@ export class OdontogramRepository {
 
   /**
    * Create new version from existing odontogram
+   * @param toothChange - Optional status/surfaces applied to one tooth of the copy
    */
   async createNewVersion(
     patientId: string,
     _doctorId: string,
-    previousOdontogramId: string
+    previousOdontogramId: string,
+    toothChange?: { toothNumber: string; status: ToothStatus; surfaces?: ToothSurfacesResponse }
   ): Promise<OdontogramWithTeethResponse> {
     // Get previous odontogram
     const previous = await prisma.odontogram.findUnique({
@@ -284,12 +288,21 @@ export class OdontogramRepository {
         generalNotes: previous.generalNotes,
         isCurrent: true,
         teeth: {
-          create: previous.teeth.map((tooth) => ({
-            toothNumber: tooth.toothNumber,
-            status: tooth.status,
-            surfaces: tooth.surfaces,
-            notes: tooth.notes,
-          })),
+          create: previous.teeth.map((tooth) =>
+            tooth.toothNumber === toothChange?.toothNumber
+              ? {
+                  toothNumber: tooth.toothNumber,
+                  status: toothChange.status,
+                  surfaces: toothChange.surfaces ? JSON.stringify(toothChange.surfaces) : null,
+                  notes: tooth.notes,
+                }
+              : {
+                  toothNumber: tooth.toothNumber,
+                  status: tooth.status,
+                  surfaces: tooth.surfaces,
+                  notes: tooth.notes,
+                }
+          ),
         },
       },
       include: {
@@ -302,6 +315,101 @@ export class OdontogramRepository {
     return this.formatOdontogramWithTeeth(odontogram);
   }
 
+  /**
+   * ============================================
+   * PROPOSAL METHODS
+   * ============================================
+   */
+
+  /**
+   * Find proposal by ID
+   */
+  async findProposalById(id: string): Promise<OdontogramProposalResponse | null> {
+    const proposal = await prisma.odontogramProposal.findUnique({
+      where: { id },
+    });
+
+    return proposal ? this.formatProposal(proposal) : null;
+  }
+
+  /**
+   * Find the proposal created for a treatment
+   */
+  async findProposalByTreatmentId(treatmentId: string): Promise<OdontogramProposalResponse | null> {
+    const proposal = await prisma.odontogramProposal.findUnique({
+      where: { treatmentId },
+    });
+
+    return proposal ? this.formatProposal(proposal) : null;
+  }
+
+  /**
+   * Find proposals for a patient, newest first
+   */
+  async findProposalsByPatientId(
+    patientId: string,
+    status?: OdontogramProposalStatus
+  ): Promise<OdontogramProposalResponse[]> {
+    const proposals = await prisma.odontogramProposal.findMany({
+      where: { patientId, ...(status && { status }) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return proposals.map((p) => this.formatProposal(p));
+  }
+
+  /**
+   * Create or replace the pending proposal of a treatment
+   */
+  async upsertProposal(data: {
+    patientId: string;
+    treatmentId: string;
+    odontogramId: string;
+    toothNumber: string;
+    currentStatus: ToothStatus;
+    proposedStatus: ToothStatus;
+    surfaces?: ToothSurfacesResponse;
+  }): Promise<OdontogramProposalResponse> {
+    const values = {
+      odontogramId: data.odontogramId,
+      toothNumber: data.toothNumber,
+      currentStatus: data.currentStatus,
+      proposedStatus: data.proposedStatus,
+      surfaces: data.surfaces ? JSON.stringify(data.surfaces) : null,
+      status: OdontogramProposalStatus.PENDING,
+    };
+
+    const proposal = await prisma.odontogramProposal.upsert({
+      where: { treatmentId: data.treatmentId },
+      create: { patientId: data.patientId, treatmentId: data.treatmentId, ...values },
+      update: values,
+    });
+
+    return this.formatProposal(proposal);
+  }
+
+  /**
+   * Mark a proposal as applied or dismissed
+   */
+  async resolveProposal(
+    id: string,
+    status: OdontogramProposalStatus,
+    resolvedById: string,
+    resultingOdontogramId?: string
+  ): Promise<OdontogramProposalResponse> {
+    const proposal = await prisma.odontogramProposal.update({
+      where: { id },
+      data: {
+        status,
+        resolvedById,
+        resolvedAt: new Date(),
+        resultingOdontogramId: resultingOdontogramId ?? null,
+      },
+    });
+
+    return this.formatProposal(proposal);
+  }
+
   /**
    * ============================================
    * UTILITY METHODS
@@ -364,6 +472,22 @@ export class OdontogramRepository {
     return count > 0;
   }
 
+  /**
+   * Get the patient data printed on exported odontograms
+   */
+  async findPatientForExport(patientId: string): Promise<OdontogramExportPatient | null> {
+    return prisma.patient.findUnique({
+      where: { id: patientId },
+      select: {
+        firstName: true,
+        lastName: true,
+        identification: true,
+        identificationType: true,
+        dateOfBirth: true,
+      },
+    });
+  }
+
   /**
    * Check if patient has any odontogram
    */
@@ -420,6 +544,38 @@ export class OdontogramRepository {
     };
   }
 
+  /**
+   * Format proposal response
+   */
+  private formatProposal(proposal: OdontogramProposal): OdontogramProposalResponse {
+    let surfaces: ToothSurfacesResponse | undefined;
+
+    if (proposal.surfaces) {
+      try {
+        surfaces = JSON.parse(proposal.surfaces);
+      } catch {
+        surfaces = undefined;
+      }
+    }
+
+    return {
+      id: proposal.id,
+      patientId: proposal.patientId,
+      treatmentId: proposal.treatmentId,
+      odontogramId: proposal.odontogramId,
+      toothNumber: proposal.toothNumber,
+      currentStatus: proposal.currentStatus,
+      proposedStatus: proposal.proposedStatus,
+      surfaces,
+      status: proposal.status,
+      resultingOdontogramId: proposal.resultingOdontogramId,
+      resolvedById: proposal.resolvedById,
+      resolvedAt: proposal.resolvedAt?.toISOString() ?? null,
+      createdAt: proposal.createdAt.toISOString(),
+      updatedAt: proposal.updatedAt.toISOString(),
+    };
+  }
+
   /**
    * Format tooth response
    */
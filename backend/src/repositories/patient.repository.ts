@@ -215,6 +215,7 @@ export class PatientRepository {
       data: {
         ...patientData,
         dateOfBirth: new Date(patientData.dateOfBirth),
+        ...(patientData.insuranceStartDate && { insuranceStartDate: new Date(patientData.insuranceStartDate) }),
         ...(emergencyContact && {
           emergencyContacts: {
             create: emergencyContact,
@@ -242,6 +243,7 @@ export class PatientRepository {
       data: {
         ...data,
         ...(data.dateOfBirth && { dateOfBirth: new Date(data.dateOfBirth) }),
+        ...(data.insuranceStartDate && { insuranceStartDate: new Date(data.insuranceStartDate) }),
       },
       include: {
         emergencyContacts: true,
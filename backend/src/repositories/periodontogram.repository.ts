@@ -0,0 +1,308 @@
+import { prisma } from '@config/database';
+import { PeriodontalTooth, Periodontogram, Prisma } from '@prisma/client';
+import type {
+  PeriodontogramResponse,
+  PeriodontogramWithTeethResponse,
+  PeriodontalToothResponse,
+  CreatePeriodontogramDTO,
+  UpdatePeriodontogramDTO,
+  UpdatePeriodontalToothDTO,
+  ProbingSiteDTO,
+  ProbingSitesDTO,
+  ProbingSitesResponse,
+} from '../types/periodontogram.types';
+import { PROBING_SITES } from '../types/periodontogram.types';
+import { getAllToothNumbers } from '../types/odontogram.types';
+import { calculatePeriodontalIndices, withAttachmentLevels } from '@utils/periodontalIndices';
+
+const teethInclude = {
+  teeth: {
+    orderBy: { toothNumber: 'asc' },
+  },
+} satisfies Prisma.PeriodontogramInclude;
+
+/**
+ * Periodontogram Repository
+ * Handles all database operations for periodontograms and their teeth
+ */
+export class PeriodontogramRepository {
+  /**
+   * ============================================
+   * QUERY METHODS
+   * ============================================
+   */
+
+  /**
+   * Find all periodontograms for a patient, newest first
+   */
+  async findByPatientId(patientId: string): Promise<PeriodontogramResponse[]> {
+    const periodontograms = await prisma.periodontogram.findMany({
+      where: { patientId },
+      orderBy: [{ version: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return periodontograms.map((p) => this.formatPeriodontogram(p));
+  }
+
+  /**
+   * Find current periodontogram for a patient
+   */
+  async findCurrentByPatientId(patientId: string): Promise<PeriodontogramWithTeethResponse | null> {
+    const periodontogram = await prisma.periodontogram.findFirst({
+      where: { patientId, isCurrent: true },
+      include: teethInclude,
+    });
+
+    return periodontogram ? this.formatPeriodontogramWithTeeth(periodontogram) : null;
+  }
+
+  /**
+   * Find periodontogram by ID with teeth
+   */
+  async findById(id: string): Promise<PeriodontogramWithTeethResponse | null> {
+    const periodontogram = await prisma.periodontogram.findUnique({
+      where: { id },
+      include: teethInclude,
+    });
+
+    return periodontogram ? this.formatPeriodontogramWithTeeth(periodontogram) : null;
+  }
+
+  /**
+   * Find tooth by periodontogram and tooth number
+   */
+  async findToothByNumber(
+    periodontogramId: string,
+    toothNumber: string
+  ): Promise<PeriodontalToothResponse | null> {
+    const tooth = await prisma.periodontalTooth.findUnique({
+      where: { periodontogramId_toothNumber: { periodontogramId, toothNumber } },
+    });
+
+    return tooth ? this.formatTooth(tooth) : null;
+  }
+
+  /**
+   * ============================================
+   * CREATE/UPDATE METHODS
+   * ============================================
+   */
+
+  /**
+   * Create a new exam as the patient's current periodontogram
+   * Teeth of the dentition that are not provided are created without measurements
+   */
+  async create(
+    patientId: string,
+    examinerId: string,
+    data: CreatePeriodontogramDTO
+  ): Promise<PeriodontogramWithTeethResponse> {
+    const provided = new Map((data.teeth ?? []).map((tooth) => [tooth.toothNumber, tooth]));
+
+    const periodontogram = await prisma.$transaction(async (tx) => {
+      const latest = await tx.periodontogram.findFirst({
+        where: { patientId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      await tx.periodontogram.updateMany({
+        where: { patientId, isCurrent: true },
+        data: { isCurrent: false },
+      });
+
+      return tx.periodontogram.create({
+        data: {
+          patientId,
+          examinerId,
+          version: (latest?.version ?? 0) + 1,
+          type: data.type,
+          date: data.date ? new Date(data.date) : undefined,
+          notes: data.notes,
+          isCurrent: true,
+          teeth: {
+            create: getAllToothNumbers(data.type).map((toothNumber) => {
+              const tooth = provided.get(toothNumber);
+              return {
+                toothNumber,
+                isMissing: tooth?.isMissing ?? false,
+                mobility: tooth?.mobility,
+                furcation: tooth?.furcation,
+                sites: this.serializeSites(tooth?.sites),
+                notes: tooth?.notes,
+              };
+            }),
+          },
+        },
+        include: teethInclude,
+      });
+    });
+
+    return this.formatPeriodontogramWithTeeth(periodontogram);
+  }
+
+  /**
+   * Update exam date or notes
+   */
+  async update(id: string, data: UpdatePeriodontogramDTO): Promise<PeriodontogramWithTeethResponse> {
+    const periodontogram = await prisma.periodontogram.update({
+      where: { id },
+      data: {
+        ...(data.date !== undefined && { date: new Date(data.date) }),
+        ...(data.notes !== undefined && { notes: data.notes }),
+      },
+      include: teethInclude,
+    });
+
+    return this.formatPeriodontogramWithTeeth(periodontogram);
+  }
+
+  /**
+   * Update the measurements of a tooth
+   * Sites are merged: only the sites sent are replaced
+   */
+  async updateTooth(
+    tooth: PeriodontalToothResponse,
+    data: UpdatePeriodontalToothDTO
+  ): Promise<PeriodontalToothResponse> {
+    const updateData: Prisma.PeriodontalToothUpdateInput = {};
+
+    if (data.isMissing !== undefined) updateData.isMissing = data.isMissing;
+    if (data.mobility !== undefined) updateData.mobility = data.mobility;
+    if (data.furcation !== undefined) updateData.furcation = data.furcation;
+    if (data.notes !== undefined) updateData.notes = data.notes;
+    if (data.sites !== undefined) {
+      updateData.sites = this.serializeSites({ ...tooth.sites, ...data.sites });
+    }
+
+    const updated = await prisma.periodontalTooth.update({
+      where: { id: tooth.id },
+      data: updateData,
+    });
+
+    return this.formatTooth(updated);
+  }
+
+  /**
+   * Delete an exam; if it was the current one, the latest remaining exam becomes current
+   */
+  async delete(id: string): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.periodontogram.delete({ where: { id } });
+
+      if (!deleted.isCurrent) {
+        return;
+      }
+
+      const latest = await tx.periodontogram.findFirst({
+        where: { patientId: deleted.patientId },
+        orderBy: { version: 'desc' },
+        select: { id: true },
+      });
+
+      if (latest) {
+        await tx.periodontogram.update({
+          where: { id: latest.id },
+          data: { isCurrent: true },
+        });
+      }
+    });
+  }
+
+  /**
+   * Check if periodontogram exists
+   */
+  async exists(id: string): Promise<boolean> {
+    const count = await prisma.periodontogram.count({
+      where: { id },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * ============================================
+   * FORMATTERS
+   * ============================================
+   */
+
+  /**
+   * Store only the measured sites (without derived values)
+   */
+  private serializeSites(sites: ProbingSitesResponse | undefined): string | null {
+    const stored: Record<string, ProbingSiteDTO> = {};
+
+    for (const key of PROBING_SITES) {
+      const site = sites?.[key];
+      if (site) {
+        const { attachmentLevel: _attachmentLevel, ...measurement } = site;
+        stored[key] = measurement;
+      }
+    }
+
+    return Object.keys(stored).length > 0 ? JSON.stringify(stored) : null;
+  }
+
+  /**
+   * Format periodontogram response (without teeth)
+   */
+  private formatPeriodontogram(periodontogram: Periodontogram): PeriodontogramResponse {
+    return {
+      id: periodontogram.id,
+      patientId: periodontogram.patientId,
+      examinerId: periodontogram.examinerId,
+      date: periodontogram.date.toISOString(),
+      version: periodontogram.version,
+      type: periodontogram.type,
+      notes: periodontogram.notes ?? undefined,
+      isCurrent: periodontogram.isCurrent,
+      createdAt: periodontogram.createdAt.toISOString(),
+      updatedAt: periodontogram.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Format periodontogram with teeth and indices
+   */
+  private formatPeriodontogramWithTeeth(
+    periodontogram: Periodontogram & { teeth: PeriodontalTooth[] }
+  ): PeriodontogramWithTeethResponse {
+    const teeth = periodontogram.teeth.map((t) => this.formatTooth(t));
+
+    return {
+      ...this.formatPeriodontogram(periodontogram),
+      teeth,
+      indices: calculatePeriodontalIndices(teeth),
+    };
+  }
+
+  /**
+   * Format tooth response (sites with their attachment levels)
+   */
+  private formatTooth(tooth: PeriodontalTooth): PeriodontalToothResponse {
+    let sites: ProbingSitesDTO;
+
+    try {
+      sites = tooth.sites ? JSON.parse(tooth.sites) : {};
+    } catch {
+      sites = {};
+    }
+
+    return {
+      id: tooth.id,
+      periodontogramId: tooth.periodontogramId,
+      toothNumber: tooth.toothNumber,
+      isMissing: tooth.isMissing,
+      mobility: tooth.mobility,
+      furcation: tooth.furcation,
+      sites: withAttachmentLevels(sites),
+      notes: tooth.notes ?? undefined,
+      createdAt: tooth.createdAt.toISOString(),
+      updatedAt: tooth.updatedAt.toISOString(),
+    };
+  }
+}
+
+const periodontogramRepository = new PeriodontogramRepository();
+export { periodontogramRepository };
+export default periodontogramRepository;
@@ -0,0 +1,155 @@
+import { prisma } from '@config/database';
+import { AppointmentStatus, Prisma, ReminderChannel } from '@prisma/client';
+import type {
+  PaginatedReminderResponse,
+  ReminderListOptions,
+  ReminderOutcome,
+} from '../types/reminder.types';
+
+/**
+ * Statuses of appointments that still get reminders
+ */
+const REMINDABLE_STATUSES: AppointmentStatus[] = [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED];
+
+/**
+ * Relations the reminder job needs for each appointment
+ */
+const upcomingAppointmentInclude = {
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      phone: true,
+      email: true,
+    },
+  },
+  doctor: {
+    select: {
+      firstName: true,
+      lastName: true,
+    },
+  },
+  reminders: {
+    select: {
+      leadHours: true,
+      channel: true,
+      status: true,
+      attempts: true,
+    },
+  },
+} satisfies Prisma.AppointmentInclude;
+
+/**
+ * Appointment as seen by the reminder job
+ */
+export type UpcomingAppointment = Prisma.AppointmentGetPayload<{ include: typeof upcomingAppointmentInclude }>;
+
+const reminderInclude = {
+  appointment: {
+    select: {
+      id: true,
+      date: true,
+      startTime: true,
+      type: true,
+      patient: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.AppointmentReminderInclude;
+
+/**
+ * Reminder Repository
+ * Handles database operations of appointment reminders
+ */
+export class ReminderRepository {
+  /**
+   * Find scheduled or confirmed appointments stored between two days
+   * (inclusive), with the reminders already recorded for them
+   */
+  async findUpcomingAppointments(fromDay: Date, toDay: Date): Promise<UpcomingAppointment[]> {
+    return prisma.appointment.findMany({
+      where: {
+        status: { in: REMINDABLE_STATUSES },
+        date: { gte: fromDay, lte: toDay },
+      },
+      include: upcomingAppointmentInclude,
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  /**
+   * Record the outcome of a reminder; retries of a failed one add an attempt
+   */
+  async saveOutcome(
+    appointmentId: string,
+    leadHours: number,
+    channel: ReminderChannel,
+    outcome: ReminderOutcome
+  ): Promise<void> {
+    await prisma.appointmentReminder.upsert({
+      where: { appointmentId_leadHours_channel: { appointmentId, leadHours, channel } },
+      create: { appointmentId, leadHours, channel, ...outcome },
+      update: { ...outcome, attempts: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Mark an appointment as reminded
+   */
+  async markReminderSent(appointmentId: string, sentAt: Date): Promise<void> {
+    await prisma.appointment.update({
+      where: { id: appointmentId },
+      data: { reminderSent: true, reminderSentAt: sentAt },
+    });
+  }
+
+  /**
+   * Find reminder outcomes with filters and pagination
+   */
+  async findReminders(options: ReminderListOptions = {}): Promise<PaginatedReminderResponse> {
+    const { filters = {}, pagination = { page: 1, limit: 20 } } = options;
+
+    const where: Prisma.AppointmentReminderWhereInput = {
+      status: filters.status,
+      channel: filters.channel,
+      appointmentId: filters.appointmentId,
+      ...(filters.patientId && { appointment: { patientId: filters.patientId } }),
+    };
+
+    const skip = (pagination.page - 1) * pagination.limit;
+
+    const [reminders, total] = await Promise.all([
+      prisma.appointmentReminder.findMany({
+        where,
+        skip,
+        take: pagination.limit,
+        include: reminderInclude,
+        orderBy: { updatedAt: 'desc' },
+      }),
+      prisma.appointmentReminder.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / pagination.limit);
+
+    return {
+      data: reminders,
+      pagination: {
+        total,
+        page: pagination.page,
+        limit: pagination.limit,
+        totalPages,
+        hasMore: pagination.page < totalPages,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const reminderRepository = new ReminderRepository();
+export default reminderRepository;
@@ -0,0 +1,183 @@
+import { prisma } from '@config/database';
+import { Permission, User } from '@prisma/client';
+import type { CreateRoleData, RoleWithPermissions } from '../types/role.types';
+
+/**
+ * Relations included with every role
+ */
+const roleInclude = {
+  permissions: {
+    orderBy: [{ resource: 'asc' as const }, { action: 'asc' as const }],
+  },
+  _count: {
+    select: {
+      users: true,
+    },
+  },
+};
+
+/**
+ * Role Repository
+ * Handles all database operations related to roles and permissions
+ */
+export class RoleRepository {
+  /**
+   * Find all roles with their permissions
+   * @returns List of roles
+   */
+  async findAll(): Promise<RoleWithPermissions[]> {
+    return prisma.role.findMany({
+      include: roleInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Find role by ID
+   * @param id - Role ID
+   * @returns Role with permissions or null
+   */
+  async findById(id: string): Promise<RoleWithPermissions | null> {
+    return prisma.role.findUnique({
+      where: { id },
+      include: roleInclude,
+    });
+  }
+
+  /**
+   * Check if a role name is already taken
+   * @param name - Role name
+   * @returns true if exists, false otherwise
+   */
+  async nameExists(name: string): Promise<boolean> {
+    const role = await prisma.role.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+
+    return !!role;
+  }
+
+  /**
+   * Create new role
+   * @param data - Role creation data
+   * @returns Created role with permissions
+   */
+  async create(data: CreateRoleData): Promise<RoleWithPermissions> {
+    const { permissionIds, ...roleData } = data;
+
+    return prisma.role.create({
+      data: {
+        ...roleData,
+        ...(permissionIds?.length && {
+          permissions: {
+            connect: permissionIds.map((id) => ({ id })),
+          },
+        }),
+      },
+      include: roleInclude,
+    });
+  }
+
+  /**
+   * Attach permissions to a role
+   * @param id - Role ID
+   * @param permissionIds - Permission IDs
+   * @returns Updated role with permissions
+   */
+  async attachPermissions(id: string, permissionIds: string[]): Promise<RoleWithPermissions> {
+    return prisma.role.update({
+      where: { id },
+      data: {
+        permissions: {
+          connect: permissionIds.map((permissionId) => ({ id: permissionId })),
+        },
+      },
+      include: roleInclude,
+    });
+  }
+
+  /**
+   * Detach a permission from a role
+   * @param id - Role ID
+   * @param permissionId - Permission ID
+   * @returns Updated role with permissions
+   */
+  async detachPermission(id: string, permissionId: string): Promise<RoleWithPermissions> {
+    return prisma.role.update({
+      where: { id },
+      data: {
+        permissions: {
+          disconnect: { id: permissionId },
+        },
+      },
+      include: roleInclude,
+    });
+  }
+
+  /**
+   * Set whether users of a role must use two-factor authentication
+   * @param id - Role ID
+   * @param required - Whether 2FA is required
+   * @returns Updated role with permissions
+   */
+  async setTwoFactorRequirement(id: string, required: boolean): Promise<RoleWithPermissions> {
+    return prisma.role.update({
+      where: { id },
+      data: { requireTwoFactor: required },
+      include: roleInclude,
+    });
+  }
+
+  /**
+   * Find all permissions
+   * @returns List of permissions
+   */
+  async findAllPermissions(): Promise<Permission[]> {
+    return prisma.permission.findMany({
+      orderBy: [{ resource: 'asc' }, { action: 'asc' }],
+    });
+  }
+
+  /**
+   * Find permissions by IDs
+   * @param ids - Permission IDs
+   * @returns Matching permissions
+   */
+  async findPermissionsByIds(ids: string[]): Promise<Permission[]> {
+    return prisma.permission.findMany({
+      where: { id: { in: ids } },
+    });
+  }
+
+  /**
+   * Find user by ID (excluding soft-deleted users)
+   * @param userId - User ID
+   * @returns User or null
+   */
+  async findUserById(userId: string): Promise<User | null> {
+    return prisma.user.findFirst({
+      where: {
+        id: userId,
+        deletedAt: null,
+      },
+    });
+  }
+
+  /**
+   * Assign a role to a user
+   * @param userId - User ID
+   * @param roleId - Role ID
+   * @returns Updated user
+   */
+  async assignToUser(userId: string, roleId: string): Promise<User> {
+    return prisma.user.update({
+      where: { id: userId },
+      data: { roleId },
+    });
+  }
+}
+
+// Export singleton instance
+export const roleRepository = new RoleRepository();
+export default roleRepository;
@@ -0,0 +1,289 @@
+import { prisma } from '@config/database';
+import {
+  AppointmentStatus,
+  BlockedTime,
+  Prisma,
+  WorkSchedule,
+} from '@prisma/client';
+import { DAY_MS, occursOn, startOfDay } from '@utils/schedule';
+import type {
+  WorkScheduleDayData,
+  WeeklyScheduleDayData,
+  BlockedTimeRecordData,
+  OverlappingAppointment,
+} from '../types/schedule.types';
+
+/**
+ * How far ahead open-ended recurring blocks are checked against appointments
+ */
+const RECURRING_LOOKAHEAD_DAYS = 365;
+
+/**
+ * Schedule Repository
+ * Handles database operations for doctor work schedules and blocked times
+ */
+export class ScheduleRepository {
+  // ============================================
+  // WORK SCHEDULES
+  // ============================================
+
+  /**
+   * Get the weekly work schedule of a doctor
+   * @param doctorId - Doctor user ID
+   * @returns Work schedule days ordered by day of week
+   */
+  async findWorkSchedules(doctorId: string): Promise<WorkSchedule[]> {
+    return prisma.workSchedule.findMany({
+      where: { doctorId },
+      orderBy: { dayOfWeek: 'asc' },
+    });
+  }
+
+  /**
+   * Get the work schedule of a doctor for one day
+   * @param doctorId - Doctor user ID
+   * @param dayOfWeek - 0 (Sunday) - 6 (Saturday)
+   */
+  async findWorkScheduleDay(doctorId: string, dayOfWeek: number): Promise<WorkSchedule | null> {
+    return prisma.workSchedule.findUnique({
+      where: { doctorId_dayOfWeek: { doctorId, dayOfWeek } },
+    });
+  }
+
+  /**
+   * Create or update the work schedule of a doctor for one day
+   * @param doctorId - Doctor user ID
+   * @param dayOfWeek - 0 (Sunday) - 6 (Saturday)
+   * @param data - Working hours
+   */
+  async upsertWorkSchedule(
+    doctorId: string,
+    dayOfWeek: number,
+    data: WorkScheduleDayData
+  ): Promise<WorkSchedule> {
+    const fields = {
+      startTime: data.startTime,
+      endTime: data.endTime,
+      breakStart: data.breakStart ?? null,
+      breakEnd: data.breakEnd ?? null,
+      isActive: data.isActive ?? true,
+    };
+
+    return prisma.workSchedule.upsert({
+      where: { doctorId_dayOfWeek: { doctorId, dayOfWeek } },
+      update: fields,
+      create: { doctorId, dayOfWeek, ...fields },
+    });
+  }
+
+  /**
+   * Replace the whole weekly schedule of a doctor
+   * Days not included are removed
+   * @param doctorId - Doctor user ID
+   * @param days - Working hours per day of week
+   * @returns New weekly schedule
+   */
+  async replaceWeeklySchedule(
+    doctorId: string,
+    days: WeeklyScheduleDayData[]
+  ): Promise<WorkSchedule[]> {
+    return prisma.$transaction(async (tx) => {
+      await tx.workSchedule.deleteMany({
+        where: {
+          doctorId,
+          dayOfWeek: { notIn: days.map((day) => day.dayOfWeek) },
+        },
+      });
+
+      for (const day of days) {
+        const fields = {
+          startTime: day.startTime,
+          endTime: day.endTime,
+          breakStart: day.breakStart ?? null,
+          breakEnd: day.breakEnd ?? null,
+          isActive: day.isActive ?? true,
+        };
+
+        await tx.workSchedule.upsert({
+          where: { doctorId_dayOfWeek: { doctorId, dayOfWeek: day.dayOfWeek } },
+          update: fields,
+          create: { doctorId, dayOfWeek: day.dayOfWeek, ...fields },
+        });
+      }
+
+      return tx.workSchedule.findMany({
+        where: { doctorId },
+        orderBy: { dayOfWeek: 'asc' },
+      });
+    });
+  }
+
+  /**
+   * Delete the work schedule of a doctor for one day
+   * @param doctorId - Doctor user ID
+   * @param dayOfWeek - 0 (Sunday) - 6 (Saturday)
+   */
+  async deleteWorkSchedule(doctorId: string, dayOfWeek: number): Promise<void> {
+    await prisma.workSchedule.delete({
+      where: { doctorId_dayOfWeek: { doctorId, dayOfWeek } },
+    });
+  }
+
+  // ============================================
+  // BLOCKED TIMES
+  // ============================================
+
+  /**
+   * Find blocked time by ID
+   * @param id - Blocked time ID
+   */
+  async findBlockedTimeById(id: string): Promise<BlockedTime | null> {
+    return prisma.blockedTime.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find blocked times of a doctor that may apply within a date window
+   * Recurring blocks are returned once, not expanded per occurrence
+   * @param doctorId - Doctor user ID
+   * @param startDate - Window start (inclusive)
+   * @param endDate - Window end (inclusive)
+   */
+  async findBlockedTimes(
+    doctorId: string,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<BlockedTime[]> {
+    const where: Prisma.BlockedTimeWhereInput = { doctorId };
+    const and: Prisma.BlockedTimeWhereInput[] = [];
+
+    if (endDate) {
+      and.push({ date: { lte: startOfDay(endDate) } });
+    }
+
+    if (startDate) {
+      const windowStart = startOfDay(startDate);
+      and.push({
+        OR: [
+          { endDate: { gte: windowStart } },
+          { endDate: null, frequency: { not: null } },
+          { endDate: null, date: { gte: windowStart } },
+        ],
+      });
+    }
+
+    if (and.length > 0) {
+      where.AND = and;
+    }
+
+    return prisma.blockedTime.findMany({
+      where,
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    });
+  }
+
+  /**
+   * Get blocked times of a doctor that apply on a specific date
+   * Expands multi-day ranges and recurring blocks
+   * @param doctorId - Doctor user ID
+   * @param date - Day to check
+   */
+  async findBlockedTimesForDate(doctorId: string, date: Date): Promise<BlockedTime[]> {
+    const day = startOfDay(date);
+
+    const candidates = await prisma.blockedTime.findMany({
+      where: {
+        doctorId,
+        date: { lte: day },
+        OR: [{ endDate: null }, { endDate: { gte: day } }],
+      },
+    });
+
+    return candidates.filter((block) => occursOn(block, day));
+  }
+
+  /**
+   * Create blocked time
+   * @param data - Blocked time data
+   */
+  async createBlockedTime(data: BlockedTimeRecordData): Promise<BlockedTime> {
+    return prisma.blockedTime.create({
+      data,
+    });
+  }
+
+  /**
+   * Update blocked time
+   * @param id - Blocked time ID
+   * @param data - Blocked time data
+   */
+  async updateBlockedTime(
+    id: string,
+    data: Partial<BlockedTimeRecordData>
+  ): Promise<BlockedTime> {
+    return prisma.blockedTime.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Delete blocked time
+   * @param id - Blocked time ID
+   */
+  async deleteBlockedTime(id: string): Promise<void> {
+    await prisma.blockedTime.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Find scheduled or confirmed appointments that fall within a blocked time
+   * Open-ended recurring blocks are checked one year ahead
+   * @param block - Blocked time (persisted or about to be)
+   * @returns Overlapping appointments ordered by date
+   */
+  async findOverlappingAppointments(
+    block: BlockedTimeRecordData
+  ): Promise<OverlappingAppointment[]> {
+    const start = startOfDay(block.date);
+    let end = block.endDate ? startOfDay(block.endDate) : start;
+
+    if (block.frequency && !block.endDate) {
+      end = new Date(start.getTime() + RECURRING_LOOKAHEAD_DAYS * DAY_MS);
+    }
+
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        doctorId: block.doctorId,
+        date: { gte: start, lte: end },
+        status: { in: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED] },
+        startTime: { lt: block.endTime },
+        endTime: { gt: block.startTime },
+      },
+      select: {
+        id: true,
+        date: true,
+        startTime: true,
+        endTime: true,
+        status: true,
+        patient: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            phone: true,
+          },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+    });
+
+    return appointments.filter((appointment) => occursOn(block, appointment.date));
+  }
+}
+
+// Export singleton instance
+export const scheduleRepository = new ScheduleRepository();
+export default scheduleRepository;
@@ -0,0 +1,234 @@
+import { prisma } from '@config/database';
+import { Prisma } from '@prisma/client';
+import type {
+  UpdateUserData,
+  UserListOptions,
+  PaginatedUserResponse,
+  SafeUserWithRole,
+  DoctorSummary,
+} from '../types/user.types';
+
+/**
+ * Role name used for doctors
+ */
+export const DOCTOR_ROLE = 'doctor';
+
+/**
+ * User fields returned by the API (never the password)
+ */
+const safeUserSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  phone: true,
+  avatar: true,
+  isActive: true,
+  twoFactorEnabled: true,
+  lockedUntil: true,
+  roleId: true,
+  role: {
+    select: {
+      id: true,
+      name: true,
+      description: true,
+    },
+  },
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * User Repository
+ * Handles all database operations related to staff users
+ */
+export class UserRepository {
+  /**
+   * Find all users with optional filters and pagination
+   * @param options - Filter, pagination and sorting options
+   * @returns Paginated list of users
+   */
+  async findAll(options: UserListOptions = {}): Promise<PaginatedUserResponse> {
+    const {
+      filters = {},
+      pagination = { page: 1, limit: 10 },
+      sorting = { sortBy: 'createdAt', sortOrder: 'desc' },
+    } = options;
+
+    // Build where clause
+    const where: Prisma.UserWhereInput = {
+      deletedAt: filters.includeDeleted ? undefined : null,
+      isActive: filters.isActive,
+      ...(filters.role && { role: { name: filters.role } }),
+    };
+
+    if (filters.search) {
+      where.OR = [
+        { firstName: { contains: filters.search, mode: 'insensitive' } },
+        { lastName: { contains: filters.search, mode: 'insensitive' } },
+        { email: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
+
+    // Calculate pagination
+    const page = pagination.page || 1;
+    const limit = pagination.limit || 10;
+    const skip = (page - 1) * limit;
+
+    const orderBy: Prisma.UserOrderByWithRelationInput = {
+      [sorting.sortBy || 'createdAt']: sorting.sortOrder || 'desc',
+    };
+
+    const [data, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy,
+        select: safeUserSelect,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    };
+  }
+
+  /**
+   * Find user by ID
+   * @param id - User ID
+   * @param includeDeleted - Also return soft-deleted users
+   * @returns User without password or null
+   */
+  async findById(id: string, includeDeleted = false): Promise<SafeUserWithRole | null> {
+    return prisma.user.findFirst({
+      where: {
+        id,
+        ...(!includeDeleted && { deletedAt: null }),
+      },
+      select: safeUserSelect,
+    });
+  }
+
+  /**
+   * Find active doctors for pickers
+   * @returns Doctors ordered by name
+   */
+  async findDoctors(): Promise<DoctorSummary[]> {
+    return prisma.user.findMany({
+      where: {
+        deletedAt: null,
+        isActive: true,
+        role: { name: DOCTOR_ROLE },
+      },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        phone: true,
+        avatar: true,
+      },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+    });
+  }
+
+  /**
+   * Update user by ID
+   * @param id - User ID
+   * @param data - User update data
+   * @returns Updated user
+   */
+  async update(id: string, data: UpdateUserData): Promise<SafeUserWithRole> {
+    return prisma.user.update({
+      where: { id },
+      data,
+      select: safeUserSelect,
+    });
+  }
+
+  /**
+   * Soft delete user by ID
+   * Sets deletedAt timestamp and deactivates account
+   * @param id - User ID
+   * @returns Deleted user
+   */
+  async softDelete(id: string): Promise<SafeUserWithRole> {
+    return prisma.user.update({
+      where: { id },
+      data: {
+        deletedAt: new Date(),
+        isActive: false,
+      },
+      select: safeUserSelect,
+    });
+  }
+
+  /**
+   * Reactivate a deactivated or soft-deleted user
+   * @param id - User ID
+   * @returns Reactivated user
+   */
+  async reactivate(id: string): Promise<SafeUserWithRole> {
+    return prisma.user.update({
+      where: { id },
+      data: {
+        deletedAt: null,
+        isActive: true,
+      },
+      select: safeUserSelect,
+    });
+  }
+
+  /**
+   * Update user password
+   * @param id - User ID
+   * @param hashedPassword - New hashed password
+   */
+  async updatePassword(id: string, hashedPassword: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id },
+        data: { password: hashedPassword },
+      }),
+      // Any password change invalidates pending reset links
+      prisma.passwordResetToken.updateMany({
+        where: { userId: id, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+    ]);
+  }
+
+  /**
+   * Count upcoming active appointments of a doctor
+   * @param doctorId - Doctor user ID
+   * @returns Number of scheduled or confirmed appointments from today on
+   */
+  async countUpcomingAppointments(doctorId: string): Promise<number> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    return prisma.appointment.count({
+      where: {
+        doctorId,
+        date: { gte: today },
+        status: { in: ['SCHEDULED', 'CONFIRMED'] },
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export const userRepository = new UserRepository();
+export default userRepository;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { accountingController } from '@controllers/accounting.controller';
-import { authenticate, authorize } from '@middleware/auth';
+import { authenticate, requirePermission } from '@middleware/auth';
 import { validate } from '@middleware/validation';
 import {
   createTransactionSchema,
@@ -20,6 +20,12 @@ import {
   expenseCategoryParamSchema,
   monthlyBalanceSchema,
   cashFlowSchema,
+  createInvoiceSchema,
+  updateInvoiceSchema,
+  issueInvoiceSchema,
+  voidInvoiceSchema,
+  getInvoicesSchema,
+  invoiceIdSchema,
 } from '../types/accounting.types';
 
 const router = Router();
@@ -37,12 +43,12 @@ const router = Router();
 /**
  * Get all transactions with filters and pagination
  * GET /transactions?type=INCOME&page=1&limit=10
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/transactions',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ query: getTransactionsSchema }),
   accountingController.getAllTransactions
 );
@@ -50,12 +56,12 @@ router.get(
 /**
  * Create new transaction
  * POST /transactions
- * Permissions: accounting:create
+ * Permissions: billing:create
  */
 router.post(
   '/transactions',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'create'),
   validate({ body: createTransactionSchema }),
   accountingController.createTransaction
 );
@@ -63,12 +69,12 @@ router.post(
 /**
  * Get transaction by ID
  * GET /transactions/:id
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/transactions/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: transactionIdSchema }),
   accountingController.getTransactionById
 );
@@ -76,12 +82,12 @@ router.get(
 /**
  * Delete transaction (soft delete)
  * DELETE /transactions/:id
- * Permissions: accounting:delete (admin only)
+ * Permissions: billing:delete
  */
 router.delete(
   '/transactions/:id',
   authenticate,
-  authorize('admin'),
+  requirePermission('billing', 'delete'),
   validate({ params: transactionIdSchema }),
   accountingController.deleteTransaction
 );
@@ -93,12 +99,12 @@ router.delete(
 /**
  * Get payments by patient ID
  * GET /patients/:patientId/payments
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/patients/:patientId/payments',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: patientIdParamSchema }),
   accountingController.getPaymentsByPatientId
 );
@@ -106,12 +112,12 @@ router.get(
 /**
  * Create patient payment
  * POST /patients/:patientId/payments
- * Permissions: accounting:create
+ * Permissions: billing:create
  */
 router.post(
   '/patients/:patientId/payments',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'create'),
   validate({
     params: patientIdParamSchema,
     body: createPatientPaymentSchema,
@@ -122,12 +128,12 @@ router.post(
 /**
  * Get payment by ID
  * GET /payments/:id
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/payments/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: paymentIdSchema }),
   accountingController.getPaymentById
 );
@@ -139,12 +145,12 @@ router.get(
 /**
  * Get payment plans by patient ID
  * GET /patients/:patientId/payment-plans
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/patients/:patientId/payment-plans',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: patientIdParamSchema }),
   accountingController.getPaymentPlansByPatientId
 );
@@ -152,12 +158,12 @@ router.get(
 /**
  * Create payment plan
  * POST /patients/:patientId/payment-plans
- * Permissions: accounting:create
+ * Permissions: billing:create
  */
 router.post(
   '/patients/:patientId/payment-plans',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'create'),
   validate({
     params: patientIdParamSchema,
     body: createPaymentPlanSchema,
@@ -168,12 +174,12 @@ router.post(
 /**
  * Get payment plan by ID
  * GET /payment-plans/:id
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/payment-plans/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: paymentPlanIdSchema }),
   accountingController.getPaymentPlanById
 );
@@ -181,12 +187,12 @@ router.get(
 /**
  * Update payment plan
  * PUT /payment-plans/:id
- * Permissions: accounting:update
+ * Permissions: billing:update
  */
 router.put(
   '/payment-plans/:id',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'update'),
   validate({
     params: paymentPlanIdSchema,
     body: updatePaymentPlanSchema,
@@ -197,12 +203,12 @@ router.put(
 /**
  * Record payment for payment plan
  * POST /payment-plans/:id/record-payment
- * Permissions: accounting:create
+ * Permissions: billing:create
  */
 router.post(
   '/payment-plans/:id/record-payment',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'create'),
   validate({
     params: paymentPlanIdSchema,
     body: recordPaymentSchema,
@@ -213,12 +219,12 @@ router.post(
 /**
  * Get installments for payment plan
  * GET /payment-plans/:id/installments
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/payment-plans/:id/installments',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: paymentPlanIdSchema }),
   accountingController.getInstallments
 );
@@ -226,15 +232,162 @@ router.get(
 /**
  * Get overdue installments
  * GET /installments/overdue
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/installments/overdue',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'read'),
   accountingController.getOverdueInstallments
 );
 
+// ============================================
+// INVOICE ROUTES
+// ============================================
+
+/**
+ * Get all invoices with filters and pagination
+ * GET /invoices?status=ISSUED&search=001-001&page=1&limit=10
+ * Permissions: billing:read
+ */
+router.get(
+  '/invoices',
+  authenticate,
+  requirePermission('billing', 'read'),
+  validate({ query: getInvoicesSchema }),
+  accountingController.getAllInvoices
+);
+
+/**
+ * Get invoices by patient ID
+ * GET /patients/:patientId/invoices
+ * Permissions: billing:read
+ */
+router.get(
+  '/patients/:patientId/invoices',
+  authenticate,
+  requirePermission('billing', 'read'),
+  validate({ params: patientIdParamSchema }),
+  accountingController.getInvoicesByPatientId
+);
+
+/**
+ * Get invoice by ID
+ * GET /invoices/:id
+ * Permissions: billing:read
+ */
+router.get(
+  '/invoices/:id',
+  authenticate,
+  requirePermission('billing', 'read'),
+  validate({ params: invoiceIdSchema }),
+  accountingController.getInvoiceById
+);
+
+/**
+ * Create draft invoice
+ * POST /invoices
+ * Permissions: billing:create
+ */
+router.post(
+  '/invoices',
+  authenticate,
+  requirePermission('billing', 'create'),
+  validate({ body: createInvoiceSchema }),
+  accountingController.createInvoice
+);
+
+/**
+ * Update draft invoice
+ * PUT /invoices/:id
+ * Permissions: billing:update
+ */
+router.put(
+  '/invoices/:id',
+  authenticate,
+  requirePermission('billing', 'update'),
+  validate({
+    params: invoiceIdSchema,
+    body: updateInvoiceSchema,
+  }),
+  accountingController.updateInvoice
+);
+
+/**
+ * Delete draft invoice
+ * DELETE /invoices/:id
+ * Permissions: billing:delete
+ */
+router.delete(
+  '/invoices/:id',
+  authenticate,
+  requirePermission('billing', 'delete'),
+  validate({ params: invoiceIdSchema }),
+  accountingController.deleteInvoice
+);
+
+/**
+ * Issue draft invoice (assigns its number)
+ * POST /invoices/:id/issue
+ * Permissions: billing:update
+ */
+router.post(
+  '/invoices/:id/issue',
+  authenticate,
+  requirePermission('billing', 'update'),
+  validate({
+    params: invoiceIdSchema,
+    body: issueInvoiceSchema,
+  }),
+  accountingController.issueInvoice
+);
+
+/**
+ * Void issued invoice without payments
+ * POST /invoices/:id/void
+ * Permissions: billing:update
+ */
+router.post(
+  '/invoices/:id/void',
+  authenticate,
+  requirePermission('billing', 'update'),
+  validate({
+    params: invoiceIdSchema,
+    body: voidInvoiceSchema,
+  }),
+  accountingController.voidInvoice
+);
+
+/**
+ * Sign and submit issued invoice to the SRI (factura electrónica)
+ * POST /invoices/:id/sri
+ * Permissions: billing:update
+ */
+router.post(
+  '/invoices/:id/sri',
+  authenticate,
+  requirePermission('billing', 'update'),
+  validate({
+    params: invoiceIdSchema,
+  }),
+  accountingController.submitInvoiceToSri
+);
+
+/**
+ * Download signed electronic invoice XML
+ * GET /invoices/:id/sri/xml
+ * Permissions: billing:read
+ */
+router.get(
+  '/invoices/:id/sri/xml',
+  authenticate,
+  requirePermission('billing', 'read'),
+  validate({
+    params: invoiceIdSchema,
+  }),
+  accountingController.getInvoiceSignedXml
+);
+
 // ============================================
 // EXPENSE ROUTES
 // ============================================
@@ -242,12 +395,12 @@ router.get(
 /**
  * Get all expenses with filters and pagination
  * GET /expenses?category=SUPPLIES&page=1&limit=10
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/expenses',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ query: getExpensesSchema }),
   accountingController.getAllExpenses
 );
@@ -255,12 +408,12 @@ router.get(
 /**
  * Create expense
  * POST /expenses
- * Permissions: accounting:create
+ * Permissions: billing:create
  */
 router.post(
   '/expenses',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'create'),
   validate({ body: createExpenseSchema }),
   accountingController.createExpense
 );
@@ -268,12 +421,12 @@ router.post(
 /**
  * Get expense by ID
  * GET /expenses/:id
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/expenses/:id',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: expenseIdSchema }),
   accountingController.getExpenseById
 );
@@ -281,12 +434,12 @@ router.get(
 /**
  * Update expense
  * PUT /expenses/:id
- * Permissions: accounting:update
+ * Permissions: billing:update
  */
 router.put(
   '/expenses/:id',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'update'),
   validate({
     params: expenseIdSchema,
     body: updateExpenseSchema,
@@ -297,12 +450,12 @@ router.put(
 /**
  * Delete expense (soft delete)
  * DELETE /expenses/:id
- * Permissions: accounting:delete (admin only)
+ * Permissions: billing:delete
  */
 router.delete(
   '/expenses/:id',
   authenticate,
-  authorize('admin'),
+  requirePermission('billing', 'delete'),
   validate({ params: expenseIdSchema }),
   accountingController.deleteExpense
 );
@@ -310,12 +463,12 @@ router.delete(
 /**
  * Get expenses by category
  * GET /expenses/by-category/:category
- * Permissions: accounting:read
+ * Permissions: billing:read
  */
 router.get(
   '/expenses/by-category/:category',
   authenticate,
-  authorize('admin', 'receptionist'),
+  requirePermission('billing', 'read'),
   validate({ params: expenseCategoryParamSchema }),
   accountingController.getExpensesByCategory
 );
@@ -327,12 +480,12 @@ router.get(
 /**
  * Get monthly balance report
  * GET /reports/monthly?month=1&year=2025
- * Permissions: admin only
+ * Permissions: financial-reports:read
  */
 router.get(
   '/reports/monthly',
   authenticate,
-  authorize('admin'),
+  requirePermission('financial-reports', 'read'),
   validate({ query: monthlyBalanceSchema }),
   accountingController.getMonthlyBalance
 );
@@ -340,12 +493,12 @@ router.get(
 /**
  * Get cash flow report
  * GET /reports/cash-flow?startDate=...&endDate=...
- * Permissions: admin only
+ * Permissions: financial-reports:read
  */
 router.get(
   '/reports/cash-flow',
   authenticate,
-  authorize('admin'),
+  requirePermission('financial-reports', 'read'),
   validate({ query: cashFlowSchema }),
   accountingController.getCashFlow
 );
@@ -353,36 +506,36 @@ router.get(
 /**
  * Get accounts receivable report
  * GET /reports/accounts-receivable
- * Permissions: admin only
+ * Permissions: financial-reports:read
  */
 router.get(
   '/reports/accounts-receivable',
   authenticate,
-  authorize('admin'),
+  requirePermission('financial-reports', 'read'),
   accountingController.getAccountsReceivable
 );
 
 /**
  * Get income by treatment report
  * GET /reports/income-by-treatment
- * Permissions: admin only
+ * Permissions: financial-reports:read
  */
 router.get(
   '/reports/income-by-treatment',
   authenticate,
-  authorize('admin'),
+  requirePermission('financial-reports', 'read'),
   accountingController.getIncomeByTreatment
 );
 
 /**
  * Get financial summary report
  * GET /reports/financial?month=1&year=2025
- * Permissions: admin only
+ * Permissions: financial-reports:read
  */
 router.get(
   '/reports/financial',
   authenticate,
-  authorize('admin'),
+  requirePermission('financial-reports', 'read'),
   validate({ query: monthlyBalanceSchema }),
   accountingController.getFinancialReport
 );
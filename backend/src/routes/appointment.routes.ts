@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { appointmentController } from '@controllers/appointment.controller';
 import { validate, commonSchemas } from '@middleware/validation';
-import { authenticate } from '@middleware/auth';
+import { authenticate, requirePermission } from '@middleware/auth';
 import {
   createAppointmentSchema,
   updateAppointmentSchema,
@@ -11,6 +11,7 @@ import {
   getAvailableSlotsSchema,
   listAppointmentsSchema,
   cancelAppointmentSchema,
+  rescheduleAppointmentSchema,
 } from '../types/appointment.types';
 
 const router = Router();
@@ -33,7 +34,7 @@ router.use(authenticate);
  * POST /api/v1/appointments/check-availability
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @body {CheckAvailabilityDTO}
  * @returns {AvailabilityResult} 200 - Availability status
  * @returns {ApiError} 400 - Validation error
@@ -42,6 +43,7 @@ router.use(authenticate);
  */
 router.post(
   '/check-availability',
+  requirePermission('appointments', 'read'),
   validate({ body: checkAvailabilitySchema }),
   appointmentController.checkAvailability
 );
@@ -51,7 +53,7 @@ router.post(
  * GET /api/v1/appointments/available-slots
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @query {GetAvailableSlotsDTO}
  * @returns {TimeSlot[]} 200 - List of available slots
  * @returns {ApiError} 400 - Validation error
@@ -60,6 +62,7 @@ router.post(
  */
 router.get(
   '/available-slots',
+  requirePermission('appointments', 'read'),
   validate({ query: getAvailableSlotsSchema }),
   appointmentController.getAvailableSlots
 );
@@ -69,7 +72,7 @@ router.get(
  * POST /api/v1/appointments/recurring
  *
  * @requires Authentication
- * @permission appointment:create
+ * @permission appointments:create
  * @body {CreateRecurringAppointmentDTO}
  * @returns {RecurringAppointmentResponse} 201 - Created recurring pattern
  * @returns {ApiError} 400 - Validation error or no valid dates
@@ -79,6 +82,7 @@ router.get(
  */
 router.post(
   '/recurring',
+  requirePermission('appointments', 'create'),
   validate({ body: createRecurringAppointmentSchema as any }),
   appointmentController.createRecurring
 );
@@ -88,49 +92,65 @@ router.post(
  * GET /api/v1/appointments/calendar
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @query {startDate, endDate, doctorId?}
  * @returns {AppointmentResponse[]} 200 - Appointments in date range
  * @returns {ApiError} 400 - Validation error
  * @returns {ApiError} 401 - Not authenticated
  */
-router.get('/calendar', appointmentController.getCalendarView);
+router.get(
+  '/calendar',
+  requirePermission('appointments', 'read'),
+  appointmentController.getCalendarView
+);
 
 /**
  * Get today's appointments
  * GET /api/v1/appointments/today
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @query {doctorId?}
  * @returns {AppointmentResponse[]} 200 - Today's appointments
  * @returns {ApiError} 401 - Not authenticated
  */
-router.get('/today', appointmentController.getTodayAppointments);
+router.get(
+  '/today',
+  requirePermission('appointments', 'read'),
+  appointmentController.getTodayAppointments
+);
 
 /**
  * Get upcoming appointments
  * GET /api/v1/appointments/upcoming
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @query {doctorId?, patientId?, limit?}
  * @returns {AppointmentResponse[]} 200 - Upcoming appointments
  * @returns {ApiError} 401 - Not authenticated
  */
-router.get('/upcoming', appointmentController.getUpcomingAppointments);
+router.get(
+  '/upcoming',
+  requirePermission('appointments', 'read'),
+  appointmentController.getUpcomingAppointments
+);
 
 /**
  * Get appointment statistics
  * GET /api/v1/appointments/stats
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @query {startDate?, endDate?, doctorId?}
  * @returns {AppointmentStats} 200 - Statistics summary
  * @returns {ApiError} 401 - Not authenticated
  */
-router.get('/stats', appointmentController.getStats);
+router.get(
+  '/stats',
+  requirePermission('appointments', 'read'),
+  appointmentController.getStats
+);
 
 /**
  * ============================================
@@ -143,7 +163,7 @@ router.get('/stats', appointmentController.getStats);
  * GET /api/v1/appointments
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @query {ListAppointmentsDTO}
  * @returns {PaginatedAppointments} 200 - List of appointments with pagination
  * @returns {ApiError} 400 - Validation error
@@ -151,6 +171,7 @@ router.get('/stats', appointmentController.getStats);
  */
 router.get(
   '/',
+  requirePermission('appointments', 'read'),
   validate({ query: listAppointmentsSchema as any }),
   appointmentController.list
 );
@@ -160,7 +181,7 @@ router.get(
  * POST /api/v1/appointments
  *
  * @requires Authentication
- * @permission appointment:create
+ * @permission appointments:create
  * @body {CreateAppointmentDTO}
  * @returns {AppointmentResponse} 201 - Created appointment
  * @returns {ApiError} 400 - Validation error
@@ -170,6 +191,7 @@ router.get(
  */
 router.post(
   '/',
+  requirePermission('appointments', 'create'),
   validate({ body: createAppointmentSchema }),
   appointmentController.create
 );
@@ -179,7 +201,7 @@ router.post(
  * GET /api/v1/appointments/:id
  *
  * @requires Authentication
- * @permission appointment:read
+ * @permission appointments:read
  * @param {string} id - Appointment ID (UUID)
  * @returns {AppointmentResponse} 200 - Appointment details
  * @returns {ApiError} 400 - Invalid ID format
@@ -188,6 +210,7 @@ router.post(
  */
 router.get(
   '/:id',
+  requirePermission('appointments', 'read'),
   validate({ params: commonSchemas.id }),
   appointmentController.getById
 );
@@ -197,7 +220,7 @@ router.get(
  * PUT /api/v1/appointments/:id
  *
  * @requires Authentication
- * @permission appointment:update
+ * @permission appointments:update
  * @param {string} id - Appointment ID (UUID)
  * @body {UpdateAppointmentDTO}
  * @returns {AppointmentResponse} 200 - Updated appointment
@@ -208,6 +231,7 @@ router.get(
  */
 router.put(
   '/:id',
+  requirePermission('appointments', 'update'),
   validate({
     params: commonSchemas.id,
     body: updateAppointmentSchema,
@@ -220,16 +244,19 @@ router.put(
  * PATCH /api/v1/appointments/:id/status
  *
  * @requires Authentication
- * @permission appointment:update
+ * @permission appointments:update
  * @param {string} id - Appointment ID (UUID)
  * @body {UpdateAppointmentStatusDTO}
  * @returns {AppointmentResponse} 200 - Updated appointment
- * @returns {ApiError} 400 - Validation error
+ * @returns {ApiError} 400 - Validation error or transition not allowed
  * @returns {ApiError} 401 - Not authenticated
+ * @returns {ApiError} 403 - Only doctors can start or complete an appointment
  * @returns {ApiError} 404 - Appointment not found
+ * @returns {ApiError} 409 - Status changed meanwhile
  */
 router.patch(
   '/:id/status',
+  requirePermission('appointments', 'update'),
   validate({
     params: commonSchemas.id,
     body: updateAppointmentStatusSchema,
@@ -242,16 +269,18 @@ router.patch(
  * POST /api/v1/appointments/:id/cancel
  *
  * @requires Authentication
- * @permission appointment:update
+ * @permission appointments:update
  * @param {string} id - Appointment ID (UUID)
  * @body {CancelAppointmentDTO}
  * @returns {AppointmentResponse} 200 - Cancelled appointment
  * @returns {ApiError} 400 - Validation error or already cancelled/completed
  * @returns {ApiError} 401 - Not authenticated
  * @returns {ApiError} 404 - Appointment not found
+ * @returns {ApiError} 409 - Status changed meanwhile
  */
 router.post(
   '/:id/cancel',
+  requirePermission('appointments', 'update'),
   validate({
     params: commonSchemas.id,
     body: cancelAppointmentSchema,
@@ -259,12 +288,36 @@ router.post(
   appointmentController.cancel
 );
 
+/**
+ * Reschedule appointment
+ * POST /api/v1/appointments/:id/reschedule
+ *
+ * @requires Authentication
+ * @permission appointments:update
+ * @param {string} id - Appointment ID (UUID)
+ * @body {RescheduleAppointmentDTO}
+ * @returns {AppointmentResponse} 201 - Replacement appointment, linked from the original
+ * @returns {ApiError} 400 - Validation error or appointment cannot be rescheduled
+ * @returns {ApiError} 401 - Not authenticated
+ * @returns {ApiError} 404 - Appointment or doctor not found
+ * @returns {ApiError} 409 - Time slot not available or status changed meanwhile
+ */
+router.post(
+  '/:id/reschedule',
+  requirePermission('appointments', 'update'),
+  validate({
+    params: commonSchemas.id,
+    body: rescheduleAppointmentSchema,
+  }),
+  appointmentController.reschedule
+);
+
 /**
  * Delete appointment
  * DELETE /api/v1/appointments/:id
  *
  * @requires Authentication
- * @permission appointment:delete
+ * @permission appointments:delete
  * @param {string} id - Appointment ID (UUID)
  * @returns {void} 200 - Appointment deleted
  * @returns {ApiError} 400 - Invalid ID format
@@ -273,6 +326,7 @@ router.post(
  */
 router.delete(
   '/:id',
+  requirePermission('appointments', 'delete'),
   validate({ params: commonSchemas.id }),
   appointmentController.delete
 );
@@ -285,10 +339,10 @@ router.delete(
  * All routes require authentication and return standardized JSON responses.
  *
  * Required Permissions:
- * - appointment:read   - View appointments
- * - appointment:create - Create appointments (including recurring)
- * - appointment:update - Update appointments, status, and cancel
- * - appointment:delete - Delete appointments
+ * - appointments:read   - View appointments
+ * - appointments:create - Create appointments (including recurring)
+ * - appointments:update - Update appointments, status, and cancel
+ * - appointments:delete - Delete appointments
  *
  * Success Response Format:
  * {
@@ -318,18 +372,20 @@ router.delete(
  * - 401: Unauthorized (not authenticated)
  * - 403: Forbidden (insufficient permissions)
  * - 404: Not Found
- * - 409: Conflict (time slot not available)
+ * - 409: Conflict (time slot not available or status changed meanwhile)
  * - 422: Unprocessable Entity (validation failed)
  * - 500: Internal Server Error
  *
  * Appointment Status Flow:
  * SCHEDULED -> CONFIRMED -> IN_PROGRESS -> COMPLETED
- *     |            |              |
- *     v            v              v
- * CANCELLED   CANCELLED      CANCELLED
- *     |            |              |
- *     v            v              v
- * NO_SHOW      NO_SHOW        NO_SHOW
+ *     |            |
+ *     +------------+--> CANCELLED | NO_SHOW | RESCHEDULED
+ *
+ * - SCHEDULED can also go straight to IN_PROGRESS
+ * - Only doctors can move an appointment to IN_PROGRESS or COMPLETED
+ * - RESCHEDULED is set by POST /:id/reschedule, which links the new appointment
+ * - COMPLETED, CANCELLED, NO_SHOW and RESCHEDULED are final
+ * - Every change is recorded in the status history (GET /:id)
  *
  * Appointment Types:
  * - CONSULTATION: Initial consultation
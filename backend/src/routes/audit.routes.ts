@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { auditController } from '@controllers/audit.controller';
+import { authenticate, requirePermission } from '@middleware/auth';
+import { validate } from '@middleware/validation';
+import {
+  searchAuditLogsSchema,
+  auditHistoryQuerySchema,
+  auditPatientIdParamSchema,
+  auditUserIdParamSchema,
+  auditEntityParamSchema,
+  accessAnomalyReportSchema,
+} from '../types/audit.types';
+
+const router = Router();
+
+/**
+ * Audit Log Routes
+ * Read-only access to the record of changes to clinical and financial data
+ * All routes require authentication
+ * Base path: /api/v1/audit-logs
+ */
+
+/**
+ * Search the audit log
+ * GET /
+ * Filters: entityType, entityId, userId, patientId, action, startDate, endDate
+ * Permissions: audit:read
+ */
+router.get(
+  '/',
+  authenticate,
+  requirePermission('audit', 'read'),
+  validate({ query: searchAuditLogsSchema }),
+  auditController.search
+);
+
+/**
+ * Verify the hash chain
+ * GET /verify
+ * Permissions: audit:read
+ */
+router.get(
+  '/verify',
+  authenticate,
+  requirePermission('audit', 'read'),
+  auditController.verify
+);
+
+/**
+ * Users who opened an unusual number of patient charts in a day
+ * GET /access-anomalies?startDate=2025-07-01&endDate=2025-07-07
+ * Permissions: audit:read
+ */
+router.get(
+  '/access-anomalies',
+  authenticate,
+  requirePermission('audit', 'read'),
+  validate({ query: accessAnomalyReportSchema }),
+  auditController.getAccessAnomalies
+);
+
+/**
+ * Changes to a patient's records
+ * GET /patients/:patientId
+ * Permissions: audit:read
+ */
+router.get(
+  '/patients/:patientId',
+  authenticate,
+  requirePermission('audit', 'read'),
+  validate({ params: auditPatientIdParamSchema, query: auditHistoryQuerySchema }),
+  auditController.getByPatient
+);
+
+/**
+ * Changes made by a user
+ * GET /users/:userId
+ * Permissions: audit:read
+ */
+router.get(
+  '/users/:userId',
+  authenticate,
+  requirePermission('audit', 'read'),
+  validate({ params: auditUserIdParamSchema, query: auditHistoryQuerySchema }),
+  auditController.getByUser
+);
+
+/**
+ * Changes to a single record
+ * GET /entities/:entityType/:entityId
+ * Permissions: audit:read
+ */
+router.get(
+  '/entities/:entityType/:entityId',
+  authenticate,
+  requirePermission('audit', 'read'),
+  validate({ params: auditEntityParamSchema, query: auditHistoryQuerySchema }),
+  auditController.getByEntity
+);
+
+export default router;
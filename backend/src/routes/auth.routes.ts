@@ -2,14 +2,27 @@ import { Router } from 'express';
 import { authController } from '@controllers/auth.controller';
 import { validate, validateSource } from '@middleware/validation';
 import { authenticate } from '@middleware/auth';
-import { authLimiter, registerLimiter, passwordResetLimiter } from '@middleware/rateLimiter';
+import {
+  authLimiter,
+  registerLimiter,
+  passwordResetLimiter,
+  emailVerificationLimiter,
+  resendVerificationLimiter,
+} from '@middleware/rateLimiter';
 import {
   registerSchema,
   loginSchema,
   refreshTokenSchema,
+  logoutSchema,
   changePasswordSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  loginTwoFactorSchema,
+  twoFactorCodeSchema,
+  disableTwoFactorSchema,
+  loginHistorySchema,
+  verifyEmailSchema,
+  resendVerificationSchema,
 } from '../types/auth.types';
 
 const router = Router();
@@ -26,6 +39,7 @@ const router = Router();
  *
  * @body {RegisterDTO}
  * @returns {AuthResponse} 201 - User created with tokens
+ * @returns {EmailVerificationPendingResponse} 201 - User created, verification email sent (no tokens)
  * @returns {ApiError} 400 - Validation error
  * @returns {ApiError} 409 - Email already exists
  * @returns {ApiError} 429 - Too many requests
@@ -45,10 +59,11 @@ router.post(
  *
  * @body {LoginDTO}
  * @returns {AuthResponse} 200 - Login successful with tokens
+ * @returns {TwoFactorChallengeResponse} 200 - Two-factor code required (continue at /login/2fa)
  * @returns {ApiError} 400 - Validation error
  * @returns {ApiError} 401 - Invalid credentials
- * @returns {ApiError} 403 - Account inactive
- * @returns {ApiError} 429 - Too many requests
+ * @returns {ApiError} 403 - Account inactive, or email not verified (code EMAIL_NOT_VERIFIED)
+ * @returns {ApiError} 429 - Too many requests or account temporarily locked
  *
  * Rate limit: 5 requests per 15 minutes per IP
  */
@@ -59,14 +74,34 @@ router.post(
   authController.login
 );
 
+/**
+ * Complete login with a second factor
+ * POST /api/v1/auth/login/2fa
+ *
+ * @body {LoginTwoFactorDTO} - Challenge token plus a TOTP code or a recovery code
+ * @returns {AuthResponse} 200 - Login successful with tokens
+ * @returns {ApiError} 400 - Validation error
+ * @returns {ApiError} 401 - Invalid or expired challenge, or invalid code
+ * @returns {ApiError} 403 - Account inactive
+ * @returns {ApiError} 429 - Too many requests
+ *
+ * Rate limit: 5 requests per 15 minutes per IP
+ */
+router.post(
+  '/login/2fa',
+  authLimiter,
+  validate({ body: loginTwoFactorSchema }),
+  authController.loginTwoFactor
+);
+
 /**
  * Refresh access token
  * POST /api/v1/auth/refresh
  *
  * @body {RefreshTokenDTO}
- * @returns {AuthTokens} 200 - New tokens generated
+ * @returns {AuthTokens} 200 - New tokens generated (the refresh token is rotated)
  * @returns {ApiError} 400 - Validation error
- * @returns {ApiError} 401 - Invalid or expired refresh token
+ * @returns {ApiError} 401 - Invalid, expired or reused refresh token
  * @returns {ApiError} 403 - Account inactive
  *
  * No rate limit (token validation is sufficient)
@@ -115,6 +150,44 @@ router.post(
   authController.resetPassword
 );
 
+/**
+ * Verify email address
+ * POST /api/v1/auth/verify-email
+ *
+ * @body {VerifyEmailDTO}
+ * @returns {void} 200 - Email verified
+ * @returns {ApiError} 400 - Validation error or invalid/expired token
+ * @returns {ApiError} 404 - Email verification disabled
+ * @returns {ApiError} 429 - Too many requests
+ *
+ * Rate limit: 10 requests per hour per IP
+ */
+router.post(
+  '/verify-email',
+  emailVerificationLimiter,
+  validate({ body: verifyEmailSchema }),
+  authController.verifyEmail
+);
+
+/**
+ * Resend verification email
+ * POST /api/v1/auth/resend-verification
+ *
+ * @body {ResendVerificationDTO}
+ * @returns {void} 200 - Link sent if the account exists and is unverified (always returns success)
+ * @returns {ApiError} 400 - Validation error
+ * @returns {ApiError} 404 - Email verification disabled
+ * @returns {ApiError} 429 - Too many requests
+ *
+ * Rate limit: 3 requests per hour per IP
+ */
+router.post(
+  '/resend-verification',
+  resendVerificationLimiter,
+  validate({ body: resendVerificationSchema }),
+  authController.resendVerification
+);
+
 /**
  * ============================================
  * PROTECTED ROUTES (Authentication required)
@@ -133,6 +206,22 @@ router.post(
  */
 router.get('/me', authenticate, authController.getProfile);
 
+/**
+ * Get login history of the current user
+ * GET /api/v1/auth/login-history?success=false&page=1&limit=20
+ *
+ * @requires Authentication
+ * @query {LoginHistoryQueryDTO}
+ * @returns {PaginatedLoginHistory} 200 - Login attempts (IP, user agent, result), newest first
+ * @returns {ApiError} 401 - Not authenticated
+ */
+router.get(
+  '/login-history',
+  authenticate,
+  validate({ query: loginHistorySchema }),
+  authController.getLoginHistory
+);
+
 /**
  * Validate current token
  * GET /api/v1/auth/validate
@@ -145,14 +234,30 @@ router.get('/me', authenticate, authController.getProfile);
 router.get('/validate', authenticate, authController.validateToken);
 
 /**
- * Logout user
+ * Logout user from the current session
  * POST /api/v1/auth/logout
  *
  * @requires Authentication
+ * @body {LogoutDTO} - Optional refresh token; defaults to the access token session
  * @returns {void} 200 - Logout successful
+ * @returns {ApiError} 401 - Not authenticated or refresh token not owned by user
+ */
+router.post(
+  '/logout',
+  authenticate,
+  validate({ body: logoutSchema }),
+  authController.logout
+);
+
+/**
+ * Logout user from every session
+ * POST /api/v1/auth/logout-all
+ *
+ * @requires Authentication
+ * @returns {Object} 200 - Number of revoked refresh tokens
  * @returns {ApiError} 401 - Not authenticated
  */
-router.post('/logout', authenticate, authController.logout);
+router.post('/logout-all', authenticate, authController.logoutAll);
 
 /**
  * Change password
@@ -172,6 +277,89 @@ router.post(
   authController.changePassword
 );
 
+/**
+ * ============================================
+ * TWO-FACTOR AUTHENTICATION
+ * Only available when FEATURE_TWO_FACTOR_AUTH is enabled
+ * ============================================
+ */
+
+/**
+ * Get two-factor status
+ * GET /api/v1/auth/2fa
+ *
+ * @requires Authentication
+ * @returns {TwoFactorStatus} 200 - Enabled, required by role, recovery codes left
+ * @returns {ApiError} 401 - Not authenticated
+ * @returns {ApiError} 404 - Feature disabled
+ */
+router.get('/2fa', authenticate, authController.getTwoFactorStatus);
+
+/**
+ * Start two-factor enrollment
+ * POST /api/v1/auth/2fa/setup
+ *
+ * @requires Authentication
+ * @returns {TwoFactorSetupResponse} 200 - Secret and otpauth URI for the QR code
+ * @returns {ApiError} 401 - Not authenticated
+ * @returns {ApiError} 404 - Feature disabled
+ * @returns {ApiError} 409 - Already enabled
+ */
+router.post('/2fa/setup', authenticate, authController.setupTwoFactor);
+
+/**
+ * Confirm two-factor enrollment
+ * POST /api/v1/auth/2fa/verify
+ *
+ * @requires Authentication
+ * @body {TwoFactorCodeDTO}
+ * @returns {RecoveryCodesResponse} 200 - Two-factor enabled, recovery codes (shown once)
+ * @returns {ApiError} 400 - Validation error or setup not started
+ * @returns {ApiError} 401 - Invalid code
+ * @returns {ApiError} 409 - Already enabled
+ */
+router.post(
+  '/2fa/verify',
+  authenticate,
+  validate({ body: twoFactorCodeSchema }),
+  authController.confirmTwoFactor
+);
+
+/**
+ * Disable two-factor authentication
+ * POST /api/v1/auth/2fa/disable
+ *
+ * @requires Authentication
+ * @body {DisableTwoFactorDTO}
+ * @returns {void} 200 - Two-factor disabled
+ * @returns {ApiError} 400 - Validation error or not enabled
+ * @returns {ApiError} 401 - Invalid password or code
+ * @returns {ApiError} 403 - Required by the user's role
+ */
+router.post(
+  '/2fa/disable',
+  authenticate,
+  validate({ body: disableTwoFactorSchema }),
+  authController.disableTwoFactor
+);
+
+/**
+ * Regenerate recovery codes
+ * POST /api/v1/auth/2fa/recovery-codes
+ *
+ * @requires Authentication
+ * @body {TwoFactorCodeDTO}
+ * @returns {RecoveryCodesResponse} 200 - New recovery codes (previous ones are invalidated)
+ * @returns {ApiError} 400 - Validation error or not enabled
+ * @returns {ApiError} 401 - Invalid code
+ */
+router.post(
+  '/2fa/recovery-codes',
+  authenticate,
+  validate({ body: twoFactorCodeSchema }),
+  authController.regenerateRecoveryCodes
+);
+
 /**
  * ============================================
  * ROUTE DOCUMENTATION
@@ -200,10 +388,31 @@ router.post(
  * - Protected routes require a valid JWT token in the Authorization header
  * - Format: "Authorization: Bearer <token>"
  *
+ * Sessions:
+ * - Refresh tokens are opaque, stored hashed and rotated on every /refresh
+ * - Reusing a rotated refresh token revokes the whole session
+ * - Access tokens stop working once their session is revoked
+ *
+ * Two-Factor:
+ * - With 2FA enabled, /login returns a short-lived challenge token instead of tokens
+ * - The challenge is completed at /login/2fa with a TOTP code or a recovery code
+ * - Users whose role requires 2FA and have not enrolled can only use /auth routes
+ *
+ * Email Verification (FEATURE_EMAIL_VERIFICATION):
+ * - Self-registered accounts must verify their email before logging in
+ * - Login of an unverified account fails with 403 and code EMAIL_NOT_VERIFIED
+ *
+ * Account Lockout:
+ * - Failed passwords and two-factor codes are counted per account
+ * - After LOGIN_MAX_FAILED_ATTEMPTS the account is locked; each further failure doubles the lockout
+ * - Every attempt is stored in the login history (/login-history)
+ *
  * Rate Limiting:
  * - Register: 3 requests/hour per IP
- * - Login: 5 requests/15min per IP
+ * - Login (and /login/2fa): 5 requests/15min per IP
  * - Password Reset: 3 requests/hour per IP
+ * - Verify Email: 10 requests/hour per IP
+ * - Resend Verification: 3 requests/hour per IP
  * - Other routes: Standard API rate limits apply
  */
 
@@ -0,0 +1,293 @@
+import { Router } from 'express';
+import { catalogController } from '@controllers/catalog.controller';
+import { validate, commonSchemas } from '@middleware/validation';
+import { authenticate, requirePermission } from '@middleware/auth';
+import {
+  cie10QuerySchema,
+  cie10CodeParamSchema,
+  createCie10CodeSchema,
+  updateCie10CodeSchema,
+  importCie10Schema,
+  treatmentCatalogQuerySchema,
+  createTreatmentCatalogSchema,
+  updateTreatmentCatalogSchema,
+  priceListsQuerySchema,
+  createPriceListSchema,
+  updatePriceListSchema,
+  createPriceListItemSchema,
+  priceListItemParamsSchema,
+  patientPricesParamsSchema,
+  patientPricesQuerySchema,
+} from '../types/catalog.types';
+
+const router = Router();
+
+/**
+ * Catalog Routes
+ * CIE-10 codes used in diagnoses, the treatment catalog with its price history
+ * and the price lists applied to each patient
+ * All routes require authentication
+ * Base path: /api/v1/catalogs
+ */
+
+/**
+ * Search CIE-10 codes by code prefix or words of the name
+ * GET /cie10?search=...&category=...&page=...&limit=...
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/cie10',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ query: cie10QuerySchema }),
+  catalogController.getCie10Codes
+);
+
+/**
+ * Import the K00–K14 chapter from CSV (creates new codes, updates existing ones)
+ * POST /cie10/import
+ * Permissions: catalogs:create
+ */
+router.post(
+  '/cie10/import',
+  authenticate,
+  requirePermission('catalogs', 'create'),
+  validate({ body: importCie10Schema }),
+  catalogController.importCie10Codes
+);
+
+/**
+ * Get CIE-10 code
+ * GET /cie10/:code
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/cie10/:code',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ params: cie10CodeParamSchema }),
+  catalogController.getCie10Code
+);
+
+/**
+ * Create CIE-10 code
+ * POST /cie10
+ * Permissions: catalogs:create
+ */
+router.post(
+  '/cie10',
+  authenticate,
+  requirePermission('catalogs', 'create'),
+  validate({ body: createCie10CodeSchema }),
+  catalogController.createCie10Code
+);
+
+/**
+ * Update CIE-10 code
+ * PUT /cie10/:code
+ * Permissions: catalogs:update
+ */
+router.put(
+  '/cie10/:code',
+  authenticate,
+  requirePermission('catalogs', 'update'),
+  validate({ params: cie10CodeParamSchema, body: updateCie10CodeSchema }),
+  catalogController.updateCie10Code
+);
+
+/**
+ * Delete CIE-10 code (only if no diagnosis uses it)
+ * DELETE /cie10/:code
+ * Permissions: catalogs:delete
+ */
+router.delete(
+  '/cie10/:code',
+  authenticate,
+  requirePermission('catalogs', 'delete'),
+  validate({ params: cie10CodeParamSchema }),
+  catalogController.deleteCie10Code
+);
+
+/**
+ * Search catalog treatments (active only unless includeInactive=true)
+ * GET /treatments?search=...&category=...&includeInactive=...&page=...&limit=...
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/treatments',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ query: treatmentCatalogQuerySchema }),
+  catalogController.getTreatments
+);
+
+/**
+ * Get catalog treatment
+ * GET /treatments/:id
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/treatments/:id',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ params: commonSchemas.id }),
+  catalogController.getTreatmentById
+);
+
+/**
+ * Get price history of a catalog treatment
+ * GET /treatments/:id/prices
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/treatments/:id/prices',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ params: commonSchemas.id }),
+  catalogController.getPriceHistory
+);
+
+/**
+ * Create catalog treatment
+ * POST /treatments
+ * Permissions: catalogs:create
+ */
+router.post(
+  '/treatments',
+  authenticate,
+  requirePermission('catalogs', 'create'),
+  validate({ body: createTreatmentCatalogSchema }),
+  catalogController.createTreatment
+);
+
+/**
+ * Update catalog treatment (a new baseCost is recorded in the price history)
+ * PUT /treatments/:id
+ * Permissions: catalogs:update
+ */
+router.put(
+  '/treatments/:id',
+  authenticate,
+  requirePermission('catalogs', 'update'),
+  validate({ params: commonSchemas.id, body: updateTreatmentCatalogSchema }),
+  catalogController.updateTreatment
+);
+
+/**
+ * Deactivate catalog treatment (reactivate with PUT isActive=true)
+ * DELETE /treatments/:id
+ * Permissions: catalogs:delete
+ */
+router.delete(
+  '/treatments/:id',
+  authenticate,
+  requirePermission('catalogs', 'delete'),
+  validate({ params: commonSchemas.id }),
+  catalogController.deactivateTreatment
+);
+
+/**
+ * Get price lists (active only unless includeInactive=true)
+ * GET /price-lists?includeInactive=...
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/price-lists',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ query: priceListsQuerySchema }),
+  catalogController.getPriceLists
+);
+
+/**
+ * Get price list with its prices
+ * GET /price-lists/:id
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/price-lists/:id',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ params: commonSchemas.id }),
+  catalogController.getPriceListById
+);
+
+/**
+ * Create price list (for an insurer, the default list or to assign to patients)
+ * POST /price-lists
+ * Permissions: catalogs:create
+ */
+router.post(
+  '/price-lists',
+  authenticate,
+  requirePermission('catalogs', 'create'),
+  validate({ body: createPriceListSchema }),
+  catalogController.createPriceList
+);
+
+/**
+ * Update price list
+ * PUT /price-lists/:id
+ * Permissions: catalogs:update
+ */
+router.put(
+  '/price-lists/:id',
+  authenticate,
+  requirePermission('catalogs', 'update'),
+  validate({ params: commonSchemas.id, body: updatePriceListSchema }),
+  catalogController.updatePriceList
+);
+
+/**
+ * Deactivate price list (reactivate with PUT isActive=true)
+ * DELETE /price-lists/:id
+ * Permissions: catalogs:delete
+ */
+router.delete(
+  '/price-lists/:id',
+  authenticate,
+  requirePermission('catalogs', 'delete'),
+  validate({ params: commonSchemas.id }),
+  catalogController.deactivatePriceList
+);
+
+/**
+ * Add the price of a catalog treatment to a list, optionally for a period
+ * POST /price-lists/:id/items
+ * Permissions: catalogs:update
+ */
+router.post(
+  '/price-lists/:id/items',
+  authenticate,
+  requirePermission('catalogs', 'update'),
+  validate({ params: commonSchemas.id, body: createPriceListItemSchema }),
+  catalogController.addPriceListItem
+);
+
+/**
+ * Remove the price of a catalog treatment from a list
+ * DELETE /price-lists/:id/items/:itemId
+ * Permissions: catalogs:update
+ */
+router.delete(
+  '/price-lists/:id/items/:itemId',
+  authenticate,
+  requirePermission('catalogs', 'update'),
+  validate({ params: priceListItemParamsSchema }),
+  catalogController.removePriceListItem
+);
+
+/**
+ * Get the price list of a patient and the resulting prices of catalog treatments
+ * GET /patients/:patientId/prices?catalogIds=id1,id2
+ * Permissions: catalogs:read
+ */
+router.get(
+  '/patients/:patientId/prices',
+  authenticate,
+  requirePermission('catalogs', 'read'),
+  validate({ params: patientPricesParamsSchema, query: patientPricesQuerySchema }),
+  catalogController.getPatientPrices
+);
+
+export default router;
@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import { consentController } from '@controllers/consent.controller';
+import { validate } from '@middleware/validation';
+import { authenticate, requirePermission } from '@middleware/auth';
+import {
+  createConsentTemplateSchema,
+  updateConsentTemplateSchema,
+  consentTemplatesQuerySchema,
+  previewConsentQuerySchema,
+  signConsentSchema,
+} from '../types/consent.types';
+
+const router = Router();
+
+/**
+ * Consent Routes
+ * Informed consent templates per procedure category and signed patient consents
+ * All routes require authentication
+ * Base path: /api/v1/consents
+ */
+
+/**
+ * Get templates (active only unless includeInactive=true)
+ * GET /templates
+ * Permissions: consent-templates:read
+ */
+router.get(
+  '/templates',
+  authenticate,
+  requirePermission('consent-templates', 'read'),
+  validate({ query: consentTemplatesQuerySchema }),
+  consentController.getTemplates
+);
+
+/**
+ * Get template by ID
+ * GET /templates/:id
+ * Permissions: consent-templates:read
+ */
+router.get(
+  '/templates/:id',
+  authenticate,
+  requirePermission('consent-templates', 'read'),
+  consentController.getTemplateById
+);
+
+/**
+ * Create template (one per procedure category)
+ * POST /templates
+ * Permissions: consent-templates:create
+ */
+router.post(
+  '/templates',
+  authenticate,
+  requirePermission('consent-templates', 'create'),
+  validate({ body: createConsentTemplateSchema }),
+  consentController.createTemplate
+);
+
+/**
+ * Update template
+ * PUT /templates/:id
+ * Permissions: consent-templates:update
+ */
+router.put(
+  '/templates/:id',
+  authenticate,
+  requirePermission('consent-templates', 'update'),
+  validate({ body: updateConsentTemplateSchema }),
+  consentController.updateTemplate
+);
+
+/**
+ * Get signed consents of a patient
+ * GET /patients/:patientId/consents
+ * Permissions: consents:read
+ */
+router.get(
+  '/patients/:patientId/consents',
+  authenticate,
+  requirePermission('consents', 'read'),
+  consentController.getPatientConsents
+);
+
+/**
+ * Preview the document to be signed
+ * GET /patients/:patientId/preview?category=...&treatmentPlanId=...|treatmentId=...
+ * Permissions: consents:read
+ */
+router.get(
+  '/patients/:patientId/preview',
+  authenticate,
+  requirePermission('consents', 'read'),
+  validate({ query: previewConsentQuerySchema }),
+  consentController.previewConsent
+);
+
+/**
+ * Sign a consent (typed name and drawn signature)
+ * POST /patients/:patientId/consents
+ * Permissions: consents:create
+ */
+router.post(
+  '/patients/:patientId/consents',
+  authenticate,
+  requirePermission('consents', 'create'),
+  validate({ body: signConsentSchema }),
+  consentController.signConsent
+);
+
+/**
+ * Get signed consent with document and signature
+ * GET /:id
+ * Permissions: consents:read
+ */
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('consents', 'read'),
+  consentController.getConsentById
+);
+
+/**
+ * Verify that a signed consent has not been altered
+ * GET /:id/verify
+ * Permissions: consents:read
+ */
+router.get(
+  '/:id/verify',
+  authenticate,
+  requirePermission('consents', 'read'),
+  consentController.verifyConsent
+);
+
+export default router;
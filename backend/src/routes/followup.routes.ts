@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { followUpController } from '@controllers/followup.controller';
-import { authenticate, authorize } from '@middleware/auth';
+import { authenticate, requirePermission } from '@middleware/auth';
 import { validate } from '@middleware/validation';
 import {
   createFollowUpSchema,
@@ -29,24 +29,24 @@ const router = Router();
 /**
  * Get overdue follow-ups
  * GET /overdue
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/overdue',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   followUpController.getOverdue
 );
 
 /**
  * Get upcoming follow-ups
  * GET /upcoming?days=7
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/upcoming',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   validate({ query: upcomingFollowUpsSchema }),
   followUpController.getUpcoming
 );
@@ -54,24 +54,24 @@ router.get(
 /**
  * Get dashboard statistics
  * GET /stats
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/stats',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   followUpController.getStats
 );
 
 /**
  * Get follow-ups by priority
  * GET /priority/:priority
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/priority/:priority',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   followUpController.getByPriority
 );
 
@@ -82,12 +82,12 @@ router.get(
 /**
  * Get patient notes
  * GET /patients/:patientId/notes
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/patients/:patientId/notes',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   validate({ params: patientIdParamSchema }),
   followUpController.getPatientNotes
 );
@@ -95,12 +95,12 @@ router.get(
 /**
  * Create note for patient
  * POST /patients/:patientId/notes
- * Permissions: followup:create
+ * Permissions: followups:create
  */
 router.post(
   '/patients/:patientId/notes',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'create'),
   validate({
     params: patientIdParamSchema,
     body: createNoteSchema,
@@ -111,12 +111,12 @@ router.post(
 /**
  * Get note by ID
  * GET /notes/:id
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/notes/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   validate({ params: noteIdSchema }),
   followUpController.getNoteById
 );
@@ -124,12 +124,12 @@ router.get(
 /**
  * Update note by ID
  * PUT /notes/:id
- * Permissions: followup:update
+ * Permissions: followups:update
  */
 router.put(
   '/notes/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'update'),
   validate({
     params: noteIdSchema,
     body: updateNoteSchema,
@@ -140,12 +140,12 @@ router.put(
 /**
  * Delete note by ID
  * DELETE /notes/:id
- * Permissions: followup:delete
+ * Permissions: followups:delete
  */
 router.delete(
   '/notes/:id',
   authenticate,
-  authorize('admin', 'doctor'),
+  requirePermission('followups', 'delete'),
   validate({ params: noteIdSchema }),
   followUpController.deleteNote
 );
@@ -157,12 +157,12 @@ router.delete(
 /**
  * Get all follow-ups with filters and pagination
  * GET /?page=1&limit=10&status=PENDING&priority=HIGH
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   validate({ query: searchFollowUpsSchema }),
   followUpController.getAll
 );
@@ -170,12 +170,12 @@ router.get(
 /**
  * Create new follow-up
  * POST /
- * Permissions: followup:create
+ * Permissions: followups:create
  */
 router.post(
   '/',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'create'),
   validate({ body: createFollowUpSchema }),
   followUpController.create
 );
@@ -183,12 +183,12 @@ router.post(
 /**
  * Get follow-up by ID
  * GET /:id
- * Permissions: followup:read
+ * Permissions: followups:read
  */
 router.get(
   '/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'read'),
   validate({ params: followUpIdSchema }),
   followUpController.getById
 );
@@ -196,12 +196,12 @@ router.get(
 /**
  * Update follow-up by ID
  * PUT /:id
- * Permissions: followup:update
+ * Permissions: followups:update
  */
 router.put(
   '/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'update'),
   validate({
     params: followUpIdSchema,
     body: updateFollowUpSchema,
@@ -212,12 +212,12 @@ router.put(
 /**
  * Delete follow-up by ID
  * DELETE /:id
- * Permissions: followup:delete
+ * Permissions: followups:delete
  */
 router.delete(
   '/:id',
   authenticate,
-  authorize('admin', 'doctor'),
+  requirePermission('followups', 'delete'),
   validate({ params: followUpIdSchema }),
   followUpController.delete
 );
@@ -225,12 +225,12 @@ router.delete(
 /**
  * Mark follow-up as completed
  * PATCH /:id/complete
- * Permissions: followup:update
+ * Permissions: followups:update
  */
 router.patch(
   '/:id/complete',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'update'),
   validate({ params: followUpIdSchema }),
   followUpController.markAsCompleted
 );
@@ -238,12 +238,12 @@ router.patch(
 /**
  * Mark follow-up as cancelled
  * PATCH /:id/cancel
- * Permissions: followup:update
+ * Permissions: followups:update
  */
 router.patch(
   '/:id/cancel',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('followups', 'update'),
   validate({ params: followUpIdSchema }),
   followUpController.markAsCancelled
 );
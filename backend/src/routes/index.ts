@@ -80,9 +80,17 @@ import patientRoutes from './patient.routes';
 import medicalRoutes from './medical.routes';
 import appointmentRoutes from './appointment.routes';
 import odontogramRoutes from './odontogram.routes';
+import periodontogramRoutes from './periodontogram.routes';
 import followupRoutes from './followup.routes';
 import accountingRoutes from './accounting.routes';
-// import userRoutes from './user.routes';
+import roleRoutes from './role.routes';
+import userRoutes from './user.routes';
+import scheduleRoutes from './schedule.routes';
+import auditRoutes from './audit.routes';
+import consentRoutes from './consent.routes';
+import catalogRoutes from './catalog.routes';
+import insuranceRoutes from './insurance.routes';
+import reminderRoutes from './reminder.routes';
 // import treatmentRoutes from './treatment.routes';
 // import invoiceRoutes from './invoice.routes';
 
@@ -92,9 +100,17 @@ router.use('/patients', patientRoutes);
 router.use('/medical', medicalRoutes);
 router.use('/appointments', appointmentRoutes);
 router.use('/odontograms', odontogramRoutes);
+router.use('/periodontograms', periodontogramRoutes);
 router.use('/followups', followupRoutes);
 router.use('/accounting', accountingRoutes);
-// router.use('/users', authenticate, userRoutes);
+router.use('/roles', roleRoutes);
+router.use('/users', userRoutes);
+router.use('/schedules', scheduleRoutes);
+router.use('/audit-logs', auditRoutes);
+router.use('/consents', consentRoutes);
+router.use('/catalogs', catalogRoutes);
+router.use('/insurance', insuranceRoutes);
+router.use('/reminders', reminderRoutes);
 // router.use('/treatments', authenticate, treatmentRoutes);
 // router.use('/invoices', authenticate, invoiceRoutes);
 
@@ -0,0 +1,253 @@
+import { Router } from 'express';
+import { insuranceController } from '@controllers/insurance.controller';
+import { validate, commonSchemas } from '@middleware/validation';
+import { authenticate, requirePermission } from '@middleware/auth';
+import {
+  insurersQuerySchema,
+  createInsurerSchema,
+  updateInsurerSchema,
+  createInsurancePlanSchema,
+  updateInsurancePlanSchema,
+  claimsQuerySchema,
+  createClaimSchema,
+  submitClaimSchema,
+  approveClaimSchema,
+  denyClaimSchema,
+  createClaimPaymentSchema,
+} from '../types/insurance.types';
+
+const router = Router();
+
+/**
+ * Insurance Routes
+ * Insurers with their plans and coverage rules, the split of treatment costs
+ * and the claims sent to insurers
+ * All routes require authentication
+ * Base path: /api/v1/insurance
+ *
+ * Claim flow: DRAFT → SUBMITTED → APPROVED → PARTIALLY_PAID → PAID
+ *                              ↘ DENIED
+ */
+
+/**
+ * Get insurers (active only unless includeInactive=true)
+ * GET /insurers?includeInactive=...
+ * Permissions: insurance:read
+ */
+router.get(
+  '/insurers',
+  authenticate,
+  requirePermission('insurance', 'read'),
+  validate({ query: insurersQuerySchema }),
+  insuranceController.getInsurers
+);
+
+/**
+ * Get insurer with its plans
+ * GET /insurers/:id
+ * Permissions: insurance:read
+ */
+router.get(
+  '/insurers/:id',
+  authenticate,
+  requirePermission('insurance', 'read'),
+  validate({ params: commonSchemas.id }),
+  insuranceController.getInsurerById
+);
+
+/**
+ * Create insurer
+ * POST /insurers
+ * Permissions: insurance:create
+ */
+router.post(
+  '/insurers',
+  authenticate,
+  requirePermission('insurance', 'create'),
+  validate({ body: createInsurerSchema }),
+  insuranceController.createInsurer
+);
+
+/**
+ * Update insurer
+ * PUT /insurers/:id
+ * Permissions: insurance:update
+ */
+router.put(
+  '/insurers/:id',
+  authenticate,
+  requirePermission('insurance', 'update'),
+  validate({ params: commonSchemas.id, body: updateInsurerSchema }),
+  insuranceController.updateInsurer
+);
+
+/**
+ * Deactivate insurer (reactivate with PUT isActive=true)
+ * DELETE /insurers/:id
+ * Permissions: insurance:delete
+ */
+router.delete(
+  '/insurers/:id',
+  authenticate,
+  requirePermission('insurance', 'delete'),
+  validate({ params: commonSchemas.id }),
+  insuranceController.deactivateInsurer
+);
+
+/**
+ * Create plan of an insurer with its coverage rules
+ * POST /insurers/:id/plans
+ * Permissions: insurance:create
+ */
+router.post(
+  '/insurers/:id/plans',
+  authenticate,
+  requirePermission('insurance', 'create'),
+  validate({ params: commonSchemas.id, body: createInsurancePlanSchema }),
+  insuranceController.createPlan
+);
+
+/**
+ * Get plan with its coverage rules
+ * GET /plans/:id
+ * Permissions: insurance:read
+ */
+router.get(
+  '/plans/:id',
+  authenticate,
+  requirePermission('insurance', 'read'),
+  validate({ params: commonSchemas.id }),
+  insuranceController.getPlanById
+);
+
+/**
+ * Update plan (rules replace the current ones)
+ * PUT /plans/:id
+ * Permissions: insurance:update
+ */
+router.put(
+  '/plans/:id',
+  authenticate,
+  requirePermission('insurance', 'update'),
+  validate({ params: commonSchemas.id, body: updateInsurancePlanSchema }),
+  insuranceController.updatePlan
+);
+
+/**
+ * Get the split of a treatment cost between insurer and patient
+ * GET /treatments/:id/coverage
+ * Permissions: insurance:read
+ */
+router.get(
+  '/treatments/:id/coverage',
+  authenticate,
+  requirePermission('insurance', 'read'),
+  validate({ params: commonSchemas.id }),
+  insuranceController.getTreatmentCoverage
+);
+
+/**
+ * Get claims
+ * GET /claims?status=...&patientId=...&insurerId=...&page=...&limit=...
+ * Permissions: insurance:read
+ */
+router.get(
+  '/claims',
+  authenticate,
+  requirePermission('insurance', 'read'),
+  validate({ query: claimsQuerySchema }),
+  insuranceController.getClaims
+);
+
+/**
+ * Get claim with its items and payments
+ * GET /claims/:id
+ * Permissions: insurance:read
+ */
+router.get(
+  '/claims/:id',
+  authenticate,
+  requirePermission('insurance', 'read'),
+  validate({ params: commonSchemas.id }),
+  insuranceController.getClaimById
+);
+
+/**
+ * Create draft claim from completed treatments
+ * POST /claims
+ * Permissions: insurance:create
+ */
+router.post(
+  '/claims',
+  authenticate,
+  requirePermission('insurance', 'create'),
+  validate({ body: createClaimSchema }),
+  insuranceController.createClaim
+);
+
+/**
+ * Delete draft claim
+ * DELETE /claims/:id
+ * Permissions: insurance:delete
+ */
+router.delete(
+  '/claims/:id',
+  authenticate,
+  requirePermission('insurance', 'delete'),
+  validate({ params: commonSchemas.id }),
+  insuranceController.deleteClaim
+);
+
+/**
+ * Submit claim to the insurer
+ * POST /claims/:id/submit
+ * Permissions: insurance:update
+ */
+router.post(
+  '/claims/:id/submit',
+  authenticate,
+  requirePermission('insurance', 'update'),
+  validate({ params: commonSchemas.id, body: submitClaimSchema }),
+  insuranceController.submitClaim
+);
+
+/**
+ * Record claim approval (per treatment amounts optional)
+ * POST /claims/:id/approve
+ * Permissions: insurance:update
+ */
+router.post(
+  '/claims/:id/approve',
+  authenticate,
+  requirePermission('insurance', 'update'),
+  validate({ params: commonSchemas.id, body: approveClaimSchema }),
+  insuranceController.approveClaim
+);
+
+/**
+ * Record claim denial
+ * POST /claims/:id/deny
+ * Permissions: insurance:update
+ */
+router.post(
+  '/claims/:id/deny',
+  authenticate,
+  requirePermission('insurance', 'update'),
+  validate({ params: commonSchemas.id, body: denyClaimSchema }),
+  insuranceController.denyClaim
+);
+
+/**
+ * Post a remittance on an approved claim
+ * POST /claims/:id/payments
+ * Permissions: insurance:update
+ */
+router.post(
+  '/claims/:id/payments',
+  authenticate,
+  requirePermission('insurance', 'update'),
+  validate({ params: commonSchemas.id, body: createClaimPaymentSchema }),
+  insuranceController.createClaimPayment
+);
+
+export default router;
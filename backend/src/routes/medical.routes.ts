@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { medicalController } from '@controllers/medical.controller';
 import { validate } from '@middleware/validation';
-import { authenticate, authorize } from '@middleware/auth';
+import { authenticate, requirePermission } from '@middleware/auth';
 import {
   createMedicalHistorySchema,
   updateMedicalHistorySchema,
@@ -10,6 +10,8 @@ import {
   updateTreatmentSchema,
   createTreatmentPlanSchema,
   updateTreatmentPlanSchema,
+  approveTreatmentPlanSchema,
+  rejectTreatmentPlanSchema,
 } from '../types/medical.types';
 
 const router = Router();
@@ -35,7 +37,7 @@ const router = Router();
  * GET /api/v1/medical/patients/:patientId/medical-history
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: medical-history:read
  * @param patientId - Patient UUID
  * @returns {MedicalHistoryResponse} 200 - Medical history
  * @returns {ApiError} 404 - Patient not found
@@ -43,6 +45,7 @@ const router = Router();
 router.get(
   '/patients/:patientId/medical-history',
   authenticate,
+  requirePermission('medical-history', 'read'),
   medicalController.getMedicalHistory
 );
 
@@ -51,8 +54,7 @@ router.get(
  * POST /api/v1/medical/patients/:patientId/medical-history
  *
  * @requires Authentication
- * @requires Permission: medical:create
- * @requires Role: doctor or admin
+ * @requires Permission: medical-history:create
  * @param patientId - Patient UUID
  * @body {CreateMedicalHistoryDTO}
  * @returns {MedicalHistoryResponse} 201 - Medical history created
@@ -62,7 +64,7 @@ router.get(
 router.post(
   '/patients/:patientId/medical-history',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('medical-history', 'create'),
   validate({ body: createMedicalHistorySchema }),
   medicalController.createMedicalHistory
 );
@@ -72,8 +74,7 @@ router.post(
  * PUT /api/v1/medical/medical-history/:id
  *
  * @requires Authentication
- * @requires Permission: medical:update
- * @requires Role: doctor or admin
+ * @requires Permission: medical-history:update
  * @param id - Medical history UUID
  * @body {UpdateMedicalHistoryDTO}
  * @returns {MedicalHistoryResponse} 200 - Medical history updated
@@ -82,7 +83,7 @@ router.post(
 router.put(
   '/medical-history/:id',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('medical-history', 'update'),
   validate({ body: updateMedicalHistorySchema }),
   medicalController.updateMedicalHistory
 );
@@ -98,7 +99,7 @@ router.put(
  * GET /api/v1/medical/patients/:patientId/diagnoses
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: medical-history:read
  * @param patientId - Patient UUID
  * @returns {DiagnosisResponse[]} 200 - List of diagnoses
  * @returns {ApiError} 404 - Patient not found
@@ -106,6 +107,7 @@ router.put(
 router.get(
   '/patients/:patientId/diagnoses',
   authenticate,
+  requirePermission('medical-history', 'read'),
   medicalController.getDiagnoses
 );
 
@@ -114,7 +116,7 @@ router.get(
  * GET /api/v1/medical/diagnoses/:id
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: medical-history:read
  * @param id - Diagnosis UUID
  * @returns {DiagnosisResponse} 200 - Diagnosis details
  * @returns {ApiError} 404 - Diagnosis not found
@@ -122,6 +124,7 @@ router.get(
 router.get(
   '/diagnoses/:id',
   authenticate,
+  requirePermission('medical-history', 'read'),
   medicalController.getDiagnosisById
 );
 
@@ -130,8 +133,7 @@ router.get(
  * POST /api/v1/medical/patients/:patientId/diagnoses
  *
  * @requires Authentication
- * @requires Permission: medical:create
- * @requires Role: doctor or admin
+ * @requires Permission: medical-history:create
  * @param patientId - Patient UUID
  * @body {CreateDiagnosisDTO}
  * @returns {DiagnosisResponse} 201 - Diagnosis created
@@ -141,7 +143,7 @@ router.get(
 router.post(
   '/patients/:patientId/diagnoses',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('medical-history', 'create'),
   validate({ body: createDiagnosisSchema }),
   medicalController.createDiagnosis
 );
@@ -151,13 +153,14 @@ router.post(
  * GET /api/v1/medical/diagnoses/by-code/:code
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: medical-history:read
  * @param code - CIE-10 code (e.g., K02.1)
  * @returns {DiagnosisResponse[]} 200 - List of diagnoses
  */
 router.get(
   '/diagnoses/by-code/:code',
   authenticate,
+  requirePermission('medical-history', 'read'),
   medicalController.getDiagnosesByCIE10Code
 );
 
@@ -172,7 +175,7 @@ router.get(
  * GET /api/v1/medical/patients/:patientId/treatments
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: treatments:read
  * @param patientId - Patient UUID
  * @returns {TreatmentResponse[]} 200 - List of treatments
  * @returns {ApiError} 404 - Patient not found
@@ -180,6 +183,7 @@ router.get(
 router.get(
   '/patients/:patientId/treatments',
   authenticate,
+  requirePermission('treatments', 'read'),
   medicalController.getTreatments
 );
 
@@ -188,7 +192,7 @@ router.get(
  * GET /api/v1/medical/treatments/:id
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: treatments:read
  * @param id - Treatment UUID
  * @returns {TreatmentResponse} 200 - Treatment details
  * @returns {ApiError} 404 - Treatment not found
@@ -196,6 +200,7 @@ router.get(
 router.get(
   '/treatments/:id',
   authenticate,
+  requirePermission('treatments', 'read'),
   medicalController.getTreatmentById
 );
 
@@ -204,8 +209,7 @@ router.get(
  * POST /api/v1/medical/patients/:patientId/treatments
  *
  * @requires Authentication
- * @requires Permission: medical:create
- * @requires Role: doctor or admin
+ * @requires Permission: treatments:create
  * @param patientId - Patient UUID
  * @body {CreateTreatmentDTO}
  * @returns {TreatmentResponse} 201 - Treatment created
@@ -215,7 +219,7 @@ router.get(
 router.post(
   '/patients/:patientId/treatments',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('treatments', 'create'),
   validate({ body: createTreatmentSchema }),
   medicalController.createTreatment
 );
@@ -225,8 +229,7 @@ router.post(
  * PUT /api/v1/medical/treatments/:id
  *
  * @requires Authentication
- * @requires Permission: medical:update
- * @requires Role: doctor or admin
+ * @requires Permission: treatments:update
  * @param id - Treatment UUID
  * @body {UpdateTreatmentDTO}
  * @returns {TreatmentResponse} 200 - Treatment updated
@@ -236,7 +239,7 @@ router.post(
 router.put(
   '/treatments/:id',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('treatments', 'update'),
   validate({ body: updateTreatmentSchema }),
   medicalController.updateTreatment
 );
@@ -246,13 +249,14 @@ router.put(
  * GET /api/v1/medical/diagnoses/:diagnosisId/treatments
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: treatments:read
  * @param diagnosisId - Diagnosis UUID
  * @returns {TreatmentResponse[]} 200 - List of treatments
  */
 router.get(
   '/diagnoses/:diagnosisId/treatments',
   authenticate,
+  requirePermission('treatments', 'read'),
   medicalController.getTreatmentsByDiagnosisId
 );
 
@@ -267,7 +271,7 @@ router.get(
  * GET /api/v1/medical/patients/:patientId/treatment-plans
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: treatments:read
  * @param patientId - Patient UUID
  * @returns {TreatmentPlanResponse[]} 200 - List of treatment plans
  * @returns {ApiError} 404 - Patient not found
@@ -275,6 +279,7 @@ router.get(
 router.get(
   '/patients/:patientId/treatment-plans',
   authenticate,
+  requirePermission('treatments', 'read'),
   medicalController.getTreatmentPlans
 );
 
@@ -283,7 +288,7 @@ router.get(
  * GET /api/v1/medical/treatment-plans/:id
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: treatments:read
  * @param id - Treatment plan UUID
  * @returns {TreatmentPlanResponse} 200 - Treatment plan details
  * @returns {ApiError} 404 - Treatment plan not found
@@ -291,6 +296,7 @@ router.get(
 router.get(
   '/treatment-plans/:id',
   authenticate,
+  requirePermission('treatments', 'read'),
   medicalController.getTreatmentPlanById
 );
 
@@ -299,17 +305,17 @@ router.get(
  * POST /api/v1/medical/patients/:patientId/treatment-plans
  *
  * @requires Authentication
- * @requires Permission: medical:create
- * @requires Role: doctor or admin
+ * @requires Permission: treatments:create
  * @param patientId - Patient UUID
  * @body {CreateTreatmentPlanDTO}
- * @returns {TreatmentPlanResponse} 201 - Treatment plan created
+ * @returns {TreatmentPlanResponse} 201 - Treatment plan created (total computed from items)
+ * @returns {ApiError} 400 - Catalog item not found or inactive
  * @returns {ApiError} 404 - Patient not found
  */
 router.post(
   '/patients/:patientId/treatment-plans',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('treatments', 'create'),
   validate({ body: createTreatmentPlanSchema }),
   medicalController.createTreatmentPlan
 );
@@ -319,21 +325,97 @@ router.post(
  * PUT /api/v1/medical/treatment-plans/:id
  *
  * @requires Authentication
- * @requires Permission: medical:update
- * @requires Role: doctor or admin
+ * @requires Permission: treatments:update
  * @param id - Treatment plan UUID
  * @body {UpdateTreatmentPlanDTO}
  * @returns {TreatmentPlanResponse} 200 - Treatment plan updated
  * @returns {ApiError} 404 - Treatment plan not found
+ * @returns {ApiError} 409 - Phases changed on a plan that is not a draft
  */
 router.put(
   '/treatment-plans/:id',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('treatments', 'update'),
   validate({ body: updateTreatmentPlanSchema }),
   medicalController.updateTreatmentPlan
 );
 
+/**
+ * Download treatment plan quote (presupuesto) as PDF
+ * GET /api/v1/medical/treatment-plans/:id/quote
+ *
+ * @requires Authentication
+ * @requires Permission: treatments:read
+ * @param id - Treatment plan UUID
+ * @returns {application/pdf} 200 - Quote file
+ * @returns {ApiError} 404 - Treatment plan not found
+ */
+router.get(
+  '/treatment-plans/:id/quote',
+  authenticate,
+  requirePermission('treatments', 'read'),
+  medicalController.getTreatmentPlanQuote
+);
+
+/**
+ * Submit treatment plan for approval (DRAFT → PENDING_APPROVAL)
+ * POST /api/v1/medical/treatment-plans/:id/submit
+ *
+ * @requires Authentication
+ * @requires Permission: treatments:update
+ * @param id - Treatment plan UUID
+ * @returns {TreatmentPlanResponse} 200 - Treatment plan submitted
+ * @returns {ApiError} 404 - Treatment plan not found
+ * @returns {ApiError} 409 - Plan is not a draft
+ */
+router.post(
+  '/treatment-plans/:id/submit',
+  authenticate,
+  requirePermission('treatments', 'update'),
+  medicalController.submitTreatmentPlan
+);
+
+/**
+ * Approve treatment plan (PENDING_APPROVAL → APPROVED)
+ * Creates a PLANNED treatment per item and an optional payment plan for the total
+ * POST /api/v1/medical/treatment-plans/:id/approve
+ *
+ * @requires Authentication
+ * @requires Permission: treatments:update
+ * @param id - Treatment plan UUID
+ * @body {ApproveTreatmentPlanDTO}
+ * @returns {ApprovedTreatmentPlanResponse} 200 - Treatment plan approved
+ * @returns {ApiError} 404 - Treatment plan not found
+ * @returns {ApiError} 409 - Plan is not pending approval
+ */
+router.post(
+  '/treatment-plans/:id/approve',
+  authenticate,
+  requirePermission('treatments', 'update'),
+  validate({ body: approveTreatmentPlanSchema }),
+  medicalController.approveTreatmentPlan
+);
+
+/**
+ * Reject treatment plan (PENDING_APPROVAL → REJECTED)
+ * POST /api/v1/medical/treatment-plans/:id/reject
+ *
+ * @requires Authentication
+ * @requires Permission: treatments:update
+ * @param id - Treatment plan UUID
+ * @body {RejectTreatmentPlanDTO}
+ * @returns {TreatmentPlanResponse} 200 - Treatment plan rejected
+ * @returns {ApiError} 404 - Treatment plan not found
+ * @returns {ApiError} 409 - Plan is not pending approval
+ */
+router.post(
+  '/treatment-plans/:id/reject',
+  authenticate,
+  requirePermission('treatments', 'update'),
+  validate({ body: rejectTreatmentPlanSchema }),
+  medicalController.rejectTreatmentPlan
+);
+
 /**
  * ============================================
  * COMPLETE HISTORY ROUTE
@@ -345,7 +427,7 @@ router.put(
  * GET /api/v1/medical/patients/:patientId/complete-history
  *
  * @requires Authentication
- * @requires Permission: medical:read
+ * @requires Permission: medical-history:read
  * @param patientId - Patient UUID
  * @returns {CompleteMedicalHistoryResponse} 200 - Complete medical history
  * @returns {ApiError} 404 - Patient not found
@@ -359,6 +441,7 @@ router.put(
 router.get(
   '/patients/:patientId/complete-history',
   authenticate,
+  requirePermission('medical-history', 'read'),
   medicalController.getCompleteHistory
 );
 
@@ -368,11 +451,14 @@ router.get(
  * ============================================
  *
  * Permissions Required:
- * - medical:read - View medical records
- * - medical:create - Create diagnoses, treatments, plans
- * - medical:update - Update medical records
+ * - medical-history:read - View medical histories and diagnoses
+ * - medical-history:create - Create medical histories and diagnoses
+ * - medical-history:update - Update medical histories
+ * - treatments:read - View treatments and treatment plans
+ * - treatments:create - Create treatments and treatment plans
+ * - treatments:update - Update treatments and treatment plans
  *
- * Roles:
+ * Default roles (permissions are assigned per role in the database):
  * - admin: Full access to all medical operations
  * - doctor: Can create and update medical records
  * - receptionist: Read-only access to medical records
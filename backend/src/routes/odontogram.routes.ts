@@ -1,13 +1,15 @@
 import { Router } from 'express';
 import { odontogramController } from '@controllers/odontogram.controller';
 import { validate } from '@middleware/validation';
-import { authenticate, authorize } from '@middleware/auth';
+import { authenticate, requirePermission } from '@middleware/auth';
 import {
   createOdontogramSchema,
   updateOdontogramSchema,
   updateToothSchema,
   odontogramQuerySchema,
   compareVersionsSchema,
+  exportOdontogramQuerySchema,
+  odontogramProposalQuerySchema,
 } from '../types/odontogram.types';
 
 const router = Router();
@@ -33,7 +35,7 @@ const router = Router();
  * GET /api/v1/odontograms/patients/:patientId/odontograms
  *
  * @requires Authentication
- * @requires Permission: odontogram:read
+ * @requires Permission: odontograms:read
  * @param patientId - Patient UUID
  * @query isCurrent - Filter by current status (true/false)
  * @returns {OdontogramResponse[]} 200 - List of odontograms
@@ -47,6 +49,7 @@ const router = Router();
 router.get(
   '/patients/:patientId/odontograms',
   authenticate,
+  requirePermission('odontograms', 'read'),
   validate({ query: odontogramQuerySchema }),
   odontogramController.getOdontograms
 );
@@ -56,7 +59,7 @@ router.get(
  * GET /api/v1/odontograms/patients/:patientId/odontograms/current
  *
  * @requires Authentication
- * @requires Permission: odontogram:read
+ * @requires Permission: odontograms:read
  * @param patientId - Patient UUID
  * @returns {OdontogramWithTeethResponse} 200 - Current odontogram with teeth
  * @returns {ApiError} 404 - Patient not found or no current odontogram
@@ -64,15 +67,41 @@ router.get(
 router.get(
   '/patients/:patientId/odontograms/current',
   authenticate,
+  requirePermission('odontograms', 'read'),
   odontogramController.getCurrentOdontogram
 );
 
+/**
+ * Compare two odontogram versions
+ * GET /api/v1/odontograms/compare?v1=...&v2=...
+ *
+ * @requires Authentication
+ * @requires Permission: odontograms:read
+ * @query v1 - First odontogram UUID
+ * @query v2 - Second odontogram UUID
+ * @returns {OdontogramComparisonResponse} 200 - Comparison with changes
+ * @returns {ApiError} 400 - Missing v1 or v2 parameters
+ * @returns {ApiError} 404 - One or both odontograms not found
+ * @returns {ApiError} 400 - Odontograms belong to different patients
+ *
+ * Example: GET /api/v1/odontograms/compare?v1=uuid1&v2=uuid2
+ *
+ * Registered before /:id so that "compare" is not taken as an odontogram ID
+ */
+router.get(
+  '/compare',
+  authenticate,
+  requirePermission('odontograms', 'read'),
+  validate({ query: compareVersionsSchema }),
+  odontogramController.compareVersions
+);
+
 /**
  * Get odontogram by ID with teeth
  * GET /api/v1/odontograms/:id
  *
  * @requires Authentication
- * @requires Permission: odontogram:read
+ * @requires Permission: odontograms:read
  * @param id - Odontogram UUID
  * @returns {OdontogramWithTeethResponse} 200 - Odontogram with teeth
  * @returns {ApiError} 404 - Odontogram not found
@@ -80,6 +109,7 @@ router.get(
 router.get(
   '/:id',
   authenticate,
+  requirePermission('odontograms', 'read'),
   odontogramController.getOdontogramById
 );
 
@@ -88,7 +118,7 @@ router.get(
  * GET /api/v1/odontograms/:id/history
  *
  * @requires Authentication
- * @requires Permission: odontogram:read
+ * @requires Permission: odontograms:read
  * @param id - Odontogram UUID (any version)
  * @returns {OdontogramResponse[]} 200 - All versions of odontograms
  * @returns {ApiError} 404 - Odontogram not found
@@ -96,6 +126,7 @@ router.get(
 router.get(
   '/:id/history',
   authenticate,
+  requirePermission('odontograms', 'read'),
   odontogramController.getOdontogramHistory
 );
 
@@ -104,7 +135,7 @@ router.get(
  * GET /api/v1/odontograms/:id/statistics
  *
  * @requires Authentication
- * @requires Permission: odontogram:read
+ * @requires Permission: odontograms:read
  * @param id - Odontogram UUID
  * @returns {OdontogramStatistics} 200 - Statistics (healthy, caries, filled, etc.)
  * @returns {ApiError} 404 - Odontogram not found
@@ -112,29 +143,31 @@ router.get(
 router.get(
   '/:id/statistics',
   authenticate,
+  requirePermission('odontograms', 'read'),
   odontogramController.getOdontogramStatistics
 );
 
 /**
- * Compare two odontogram versions
- * GET /api/v1/odontograms/compare?v1=...&v2=...
+ * Export odontogram as a chart for referrals and printed records
+ * GET /api/v1/odontograms/:id/export?format=pdf|svg
  *
  * @requires Authentication
- * @requires Permission: odontogram:read
- * @query v1 - First odontogram UUID
- * @query v2 - Second odontogram UUID
- * @returns {OdontogramComparisonResponse} 200 - Comparison with changes
- * @returns {ApiError} 400 - Missing v1 or v2 parameters
- * @returns {ApiError} 404 - One or both odontograms not found
- * @returns {ApiError} 400 - Odontograms belong to different patients
+ * @requires Permission: odontograms:read
+ * @param id - Odontogram UUID (any version)
+ * @query format - pdf (default) or svg
+ * @returns {Buffer} 200 - PDF (A4 landscape) or SVG file as an attachment
+ * @returns {ApiError} 404 - Odontogram not found
  *
- * Example: GET /api/v1/odontograms/compare?v1=uuid1&v2=uuid2
+ * Notes:
+ * - Includes the patient header, teeth with surface colors, legend and notes
+ * - Supports permanent, temporary and mixed dentition
  */
 router.get(
-  '/compare',
+  '/:id/export',
   authenticate,
-  validate({ query: compareVersionsSchema }),
-  odontogramController.compareVersions
+  requirePermission('odontograms', 'read'),
+  validate({ query: exportOdontogramQuerySchema }),
+  odontogramController.exportOdontogram
 );
 
 /**
@@ -148,8 +181,7 @@ router.get(
  * POST /api/v1/odontograms/patients/:patientId/odontograms
  *
  * @requires Authentication
- * @requires Permission: odontogram:create
- * @requires Role: doctor or admin
+ * @requires Permission: odontograms:create
  * @param patientId - Patient UUID
  * @body {CreateOdontogramDTO}
  * @returns {OdontogramWithTeethResponse} 201 - Odontogram created
@@ -183,7 +215,7 @@ router.get(
 router.post(
   '/patients/:patientId/odontograms',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('odontograms', 'create'),
   validate({ body: createOdontogramSchema }),
   odontogramController.createOdontogram
 );
@@ -193,8 +225,7 @@ router.post(
  * PUT /api/v1/odontograms/:id
  *
  * @requires Authentication
- * @requires Permission: odontogram:update
- * @requires Role: doctor or admin
+ * @requires Permission: odontograms:update
  * @param id - Odontogram UUID
  * @body {UpdateOdontogramDTO}
  * @returns {OdontogramWithTeethResponse} 200 - New version created
@@ -214,18 +245,17 @@ router.post(
 router.put(
   '/:id',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('odontograms', 'update'),
   validate({ body: updateOdontogramSchema }),
   odontogramController.updateOdontogram
 );
 
 /**
  * Update specific tooth in odontogram
- * PATCH /api/v1/odontograms/:id/teeth/:toothNumber
+ * PUT /api/v1/odontograms/:id/teeth/:toothNumber
  *
  * @requires Authentication
- * @requires Permission: odontogram:update
- * @requires Role: doctor or admin
+ * @requires Permission: odontograms:update
  * @param id - Odontogram UUID
  * @param toothNumber - FDI tooth number (e.g., "11", "51")
  * @body {UpdateToothDTO}
@@ -249,10 +279,22 @@ router.put(
  * - Validates surfaces (O, M, D, V, L, P)
  * - All fields are optional
  */
+router.put(
+  '/:id/teeth/:toothNumber',
+  authenticate,
+  requirePermission('odontograms', 'update'),
+  validate({ body: updateToothSchema }),
+  odontogramController.updateTooth
+);
+
+/**
+ * Update specific tooth in odontogram (same as PUT, kept for existing clients)
+ * PATCH /api/v1/odontograms/:id/teeth/:toothNumber
+ */
 router.patch(
   '/:id/teeth/:toothNumber',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('odontograms', 'update'),
   validate({ body: updateToothSchema }),
   odontogramController.updateTooth
 );
@@ -262,8 +304,7 @@ router.patch(
  * POST /api/v1/odontograms/:id/new-version
  *
  * @requires Authentication
- * @requires Permission: odontogram:create
- * @requires Role: doctor or admin
+ * @requires Permission: odontograms:create
  * @param id - Odontogram UUID (to copy from)
  * @returns {OdontogramWithTeethResponse} 201 - New version created
  * @returns {ApiError} 404 - Odontogram not found
@@ -277,21 +318,84 @@ router.patch(
 router.post(
   '/:id/new-version',
   authenticate,
-  authorize('doctor', 'admin'),
+  requirePermission('odontograms', 'create'),
   odontogramController.createNewVersion
 );
 
+/**
+ * ============================================
+ * PROPOSAL ROUTES
+ * ============================================
+ */
+
+/**
+ * Get chart changes proposed by completed treatments
+ * GET /api/v1/odontograms/patients/:patientId/proposals
+ *
+ * @requires Authentication
+ * @requires Permission: odontograms:read
+ * @param patientId - Patient UUID
+ * @query status - PENDING | APPLIED | DISMISSED (optional)
+ * @returns {OdontogramProposalResponse[]} 200 - Proposals, newest first
+ */
+router.get(
+  '/patients/:patientId/proposals',
+  authenticate,
+  requirePermission('odontograms', 'read'),
+  validate({ query: odontogramProposalQuerySchema }),
+  odontogramController.getProposals
+);
+
+/**
+ * Apply a proposal
+ * POST /api/v1/odontograms/proposals/:proposalId/apply
+ *
+ * @requires Authentication
+ * @requires Permission: odontograms:create
+ * @param proposalId - Proposal UUID
+ * @returns {ApplyOdontogramProposalResponse} 201 - Applied proposal and new version
+ * @returns {ApiError} 404 - Proposal not found
+ * @returns {ApiError} 409 - Proposal already resolved or tooth not in the current odontogram
+ *
+ * Notes:
+ * - Copies the current odontogram with the proposed tooth status and surfaces
+ */
+router.post(
+  '/proposals/:proposalId/apply',
+  authenticate,
+  requirePermission('odontograms', 'create'),
+  odontogramController.applyProposal
+);
+
+/**
+ * Dismiss a proposal
+ * POST /api/v1/odontograms/proposals/:proposalId/dismiss
+ *
+ * @requires Authentication
+ * @requires Permission: odontograms:update
+ * @param proposalId - Proposal UUID
+ * @returns {OdontogramProposalResponse} 200 - Dismissed proposal
+ * @returns {ApiError} 404 - Proposal not found
+ * @returns {ApiError} 409 - Proposal already resolved
+ */
+router.post(
+  '/proposals/:proposalId/dismiss',
+  authenticate,
+  requirePermission('odontograms', 'update'),
+  odontogramController.dismissProposal
+);
+
 /**
  * ============================================
  * ROUTE DOCUMENTATION
  * ============================================
  *
  * Permissions Required:
- * - odontogram:read - View odontograms
- * - odontogram:create - Create new odontograms
- * - odontogram:update - Update odontograms and teeth
+ * - odontograms:read - View odontograms
+ * - odontograms:create - Create new odontograms and versions
+ * - odontograms:update - Update odontograms and teeth
  *
- * Roles:
+ * Default roles (permissions are assigned per role in the database):
  * - admin: Full access to all odontogram operations
  * - doctor: Can create and update odontograms
  * - receptionist: Read-only access to odontograms
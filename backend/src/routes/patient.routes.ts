@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { patientController } from '@controllers/patient.controller';
-import { authenticate, authorize } from '@middleware/auth';
+import { authenticate, requirePermission } from '@middleware/auth';
 import { validate } from '@middleware/validation';
 import {
   createPatientSchema,
@@ -8,6 +8,7 @@ import {
   searchPatientsSchema,
   patientIdSchema,
 } from '../types/patient.types';
+import { patientAccessLogQuerySchema } from '../types/audit.types';
 
 const router = Router();
 
@@ -29,7 +30,7 @@ const router = Router();
 router.get(
   '/search',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   patientController.searchByName
 );
 
@@ -41,7 +42,7 @@ router.get(
 router.get(
   '/upcoming',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   patientController.getUpcoming
 );
 
@@ -53,7 +54,7 @@ router.get(
 router.get(
   '/dashboard/stats',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   patientController.getDashboardStats
 );
 
@@ -65,7 +66,7 @@ router.get(
 router.get(
   '/identification/:identification',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   patientController.findByIdentification
 );
 
@@ -81,7 +82,7 @@ router.get(
 router.get(
   '/',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   validate({ query: searchPatientsSchema }),
   patientController.getAll
 );
@@ -94,7 +95,7 @@ router.get(
 router.post(
   '/',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'create'),
   validate({ body: createPatientSchema }),
   patientController.create
 );
@@ -107,7 +108,7 @@ router.post(
 router.get(
   '/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   validate({ params: patientIdSchema }),
   patientController.getById
 );
@@ -120,7 +121,7 @@ router.get(
 router.put(
   '/:id',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'update'),
   validate({
     params: patientIdSchema,
     body: updatePatientSchema,
@@ -136,7 +137,7 @@ router.put(
 router.delete(
   '/:id',
   authenticate,
-  authorize('admin'), // Only admins can delete
+  requirePermission('patients', 'delete'),
   validate({ params: patientIdSchema }),
   patientController.delete
 );
@@ -153,11 +154,24 @@ router.delete(
 router.get(
   '/:id/history',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   validate({ params: patientIdSchema }),
   patientController.getMedicalHistory
 );
 
+/**
+ * Get who viewed the patient's clinical record
+ * GET /:id/access-log?userId=&resource=&startDate=&endDate=
+ * Permissions: audit:read
+ */
+router.get(
+  '/:id/access-log',
+  authenticate,
+  requirePermission('audit', 'read'),
+  validate({ params: patientIdSchema, query: patientAccessLogQuerySchema }),
+  patientController.getAccessLog
+);
+
 /**
  * Get patient appointments
  * GET /:id/appointments?limit=10
@@ -166,7 +180,7 @@ router.get(
 router.get(
   '/:id/appointments',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   validate({ params: patientIdSchema }),
   patientController.getAppointments
 );
@@ -179,7 +193,7 @@ router.get(
 router.get(
   '/:id/treatments',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   validate({ params: patientIdSchema }),
   patientController.getTreatments
 );
@@ -192,7 +206,7 @@ router.get(
 router.get(
   '/:id/stats',
   authenticate,
-  authorize('admin', 'doctor', 'receptionist'),
+  requirePermission('patients', 'read'),
   validate({ params: patientIdSchema }),
   patientController.getStats
 );
@@ -200,12 +214,12 @@ router.get(
 /**
  * Restore soft-deleted patient
  * POST /:id/restore
- * Permissions: patients:delete (admin only)
+ * Permissions: patients:delete
  */
 router.post(
   '/:id/restore',
   authenticate,
-  authorize('admin'),
+  requirePermission('patients', 'delete'),
   validate({ params: patientIdSchema }),
   patientController.restore
 );
@@ -218,7 +232,7 @@ router.post(
 router.post(
   '/:id/activate',
   authenticate,
-  authorize('admin'),
+  requirePermission('patients', 'update'),
   validate({ params: patientIdSchema }),
   patientController.activate
 );
@@ -231,7 +245,7 @@ router.post(
 router.post(
   '/:id/deactivate',
   authenticate,
-  authorize('admin'),
+  requirePermission('patients', 'update'),
   validate({ params: patientIdSchema }),
   patientController.deactivate
 );
@@ -0,0 +1,123 @@
+import { Router } from 'express';
+import { periodontogramController } from '@controllers/periodontogram.controller';
+import { validate } from '@middleware/validation';
+import { authenticate, requirePermission } from '@middleware/auth';
+import {
+  createPeriodontogramSchema,
+  updatePeriodontogramSchema,
+  updatePeriodontalToothSchema,
+  comparePeriodontogramsSchema,
+} from '../types/periodontogram.types';
+
+const router = Router();
+
+/**
+ * Periodontogram Routes
+ * Versioned periodontal exams: probing depth, gingival margin, bleeding,
+ * suppuration and plaque at 6 sites per tooth, plus mobility and furcation
+ * All routes require authentication
+ * Base path: /api/v1/periodontograms
+ */
+
+/**
+ * Get all exams of a patient (newest first, without teeth)
+ * GET /patients/:patientId/periodontograms
+ * Permissions: periodontograms:read
+ */
+router.get(
+  '/patients/:patientId/periodontograms',
+  authenticate,
+  requirePermission('periodontograms', 'read'),
+  periodontogramController.getPeriodontograms
+);
+
+/**
+ * Get the current periodontogram with teeth and indices
+ * GET /patients/:patientId/periodontograms/current
+ * Permissions: periodontograms:read
+ */
+router.get(
+  '/patients/:patientId/periodontograms/current',
+  authenticate,
+  requirePermission('periodontograms', 'read'),
+  periodontogramController.getCurrentPeriodontogram
+);
+
+/**
+ * Record a new exam (becomes the current one)
+ * POST /patients/:patientId/periodontograms
+ * Permissions: periodontograms:create
+ */
+router.post(
+  '/patients/:patientId/periodontograms',
+  authenticate,
+  requirePermission('periodontograms', 'create'),
+  validate({ body: createPeriodontogramSchema }),
+  periodontogramController.createPeriodontogram
+);
+
+/**
+ * Compare two exams of the same patient
+ * GET /compare?p1=uuid&p2=uuid
+ * Permissions: periodontograms:read
+ * Note: declared before /:id so it is not captured as an ID
+ */
+router.get(
+  '/compare',
+  authenticate,
+  requirePermission('periodontograms', 'read'),
+  validate({ query: comparePeriodontogramsSchema }),
+  periodontogramController.comparePeriodontograms
+);
+
+/**
+ * Get an exam with teeth and indices
+ * GET /:id
+ * Permissions: periodontograms:read
+ */
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('periodontograms', 'read'),
+  periodontogramController.getPeriodontogramById
+);
+
+/**
+ * Update exam date or notes
+ * PUT /:id
+ * Permissions: periodontograms:update
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requirePermission('periodontograms', 'update'),
+  validate({ body: updatePeriodontogramSchema }),
+  periodontogramController.updatePeriodontogram
+);
+
+/**
+ * Update the measurements of a tooth (only the sites sent are replaced)
+ * PUT /:id/teeth/:toothNumber
+ * Permissions: periodontograms:update
+ */
+router.put(
+  '/:id/teeth/:toothNumber',
+  authenticate,
+  requirePermission('periodontograms', 'update'),
+  validate({ body: updatePeriodontalToothSchema }),
+  periodontogramController.updateTooth
+);
+
+/**
+ * Delete an exam (the latest remaining exam becomes current)
+ * DELETE /:id
+ * Permissions: periodontograms:delete
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('periodontograms', 'delete'),
+  periodontogramController.deletePeriodontogram
+);
+
+export default router;
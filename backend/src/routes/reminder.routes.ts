@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { reminderController } from '@controllers/reminder.controller';
+import { validate } from '@middleware/validation';
+import { authenticate, requirePermission } from '@middleware/auth';
+import { remindersQuerySchema } from '../types/reminder.types';
+
+const router = Router();
+
+/**
+ * Reminder Routes
+ * Outcomes of the appointment reminder job and manual runs
+ * All routes require authentication
+ * Base path: /api/v1/reminders
+ */
+
+/**
+ * Get reminder outcomes (SENT, FAILED or SKIPPED per lead time and channel)
+ * GET /?status=...&channel=...&appointmentId=...&patientId=...&page=...&limit=...
+ * Permissions: appointments:read
+ */
+router.get(
+  '/',
+  authenticate,
+  requirePermission('appointments', 'read'),
+  validate({ query: remindersQuerySchema }),
+  reminderController.getReminders
+);
+
+/**
+ * Send the reminders due now; returns the summary with the skipped patients
+ * POST /run
+ * Permissions: appointments:update
+ */
+router.post(
+  '/run',
+  authenticate,
+  requirePermission('appointments', 'update'),
+  reminderController.runReminders
+);
+
+export default router;
@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { roleController } from '@controllers/role.controller';
+import { authenticate, requirePermission } from '@middleware/auth';
+import { validate } from '@middleware/validation';
+import {
+  createRoleSchema,
+  attachPermissionsSchema,
+  roleIdSchema,
+  rolePermissionParamsSchema,
+  roleUserParamsSchema,
+  twoFactorRequirementSchema,
+} from '../types/role.types';
+
+const router = Router();
+
+/**
+ * Role Routes
+ * All routes require authentication
+ * Base path: /api/v1/roles
+ */
+
+// ============================================
+// SPECIAL ROUTES (must come before /:id)
+// ============================================
+
+/**
+ * Get all available permissions
+ * GET /permissions
+ * Permissions: roles:read
+ */
+router.get(
+  '/permissions',
+  authenticate,
+  requirePermission('roles', 'read'),
+  roleController.getPermissions
+);
+
+// ============================================
+// CRUD ROUTES
+// ============================================
+
+/**
+ * Get all roles with their permissions
+ * GET /
+ * Permissions: roles:read
+ */
+router.get(
+  '/',
+  authenticate,
+  requirePermission('roles', 'read'),
+  roleController.getAll
+);
+
+/**
+ * Create new role
+ * POST /
+ * Permissions: roles:create
+ */
+router.post(
+  '/',
+  authenticate,
+  requirePermission('roles', 'create'),
+  validate({ body: createRoleSchema }),
+  roleController.create
+);
+
+/**
+ * Get role by ID
+ * GET /:id
+ * Permissions: roles:read
+ */
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('roles', 'read'),
+  validate({ params: roleIdSchema }),
+  roleController.getById
+);
+
+// ============================================
+// ROLE PERMISSIONS
+// ============================================
+
+/**
+ * Attach permissions to a role
+ * POST /:id/permissions
+ * Permissions: roles:update
+ */
+router.post(
+  '/:id/permissions',
+  authenticate,
+  requirePermission('roles', 'update'),
+  validate({ params: roleIdSchema, body: attachPermissionsSchema }),
+  roleController.attachPermissions
+);
+
+/**
+ * Detach a permission from a role
+ * DELETE /:id/permissions/:permissionId
+ * Permissions: roles:update
+ */
+router.delete(
+  '/:id/permissions/:permissionId',
+  authenticate,
+  requirePermission('roles', 'update'),
+  validate({ params: rolePermissionParamsSchema }),
+  roleController.detachPermission
+);
+
+// ============================================
+// SECURITY POLICY
+// ============================================
+
+/**
+ * Require two-factor authentication for users of a role
+ * PUT /:id/two-factor
+ * Permissions: roles:update
+ */
+router.put(
+  '/:id/two-factor',
+  authenticate,
+  requirePermission('roles', 'update'),
+  validate({ params: roleIdSchema, body: twoFactorRequirementSchema }),
+  roleController.setTwoFactorRequirement
+);
+
+// ============================================
+// ROLE ASSIGNMENT
+// ============================================
+
+/**
+ * Assign a role to a user
+ * PUT /:id/users/:userId
+ * Permissions: roles:assign
+ */
+router.put(
+  '/:id/users/:userId',
+  authenticate,
+  requirePermission('roles', 'assign'),
+  validate({ params: roleUserParamsSchema }),
+  roleController.assignToUser
+);
+
+export default router;
@@ -0,0 +1,153 @@
+import { Router } from 'express';
+import { scheduleController } from '@controllers/schedule.controller';
+import { authenticate, requirePermission } from '@middleware/auth';
+import { validate } from '@middleware/validation';
+import {
+  upsertWorkScheduleSchema,
+  setWeeklyScheduleSchema,
+  createBlockedTimeSchema,
+  updateBlockedTimeSchema,
+  listBlockedTimesSchema,
+  doctorIdParamSchema,
+  workScheduleDayParamSchema,
+  blockedTimeIdSchema,
+} from '../types/schedule.types';
+
+const router = Router();
+
+/**
+ * Schedule Routes
+ * Doctor work schedules and blocked times (vacations, meetings, leaves)
+ * All routes require authentication
+ * Base path: /api/v1/schedules
+ */
+
+// ============================================
+// WORK SCHEDULES
+// ============================================
+
+/**
+ * Get weekly work schedule of a doctor
+ * GET /doctors/:doctorId/work-schedule
+ * Permissions: schedules:read
+ */
+router.get(
+  '/doctors/:doctorId/work-schedule',
+  authenticate,
+  requirePermission('schedules', 'read'),
+  validate({ params: doctorIdParamSchema }),
+  scheduleController.getWeeklySchedule
+);
+
+/**
+ * Replace weekly work schedule of a doctor
+ * PUT /doctors/:doctorId/work-schedule
+ * Days not included become non-working days
+ * Permissions: schedules:update
+ */
+router.put(
+  '/doctors/:doctorId/work-schedule',
+  authenticate,
+  requirePermission('schedules', 'update'),
+  validate({ params: doctorIdParamSchema, body: setWeeklyScheduleSchema }),
+  scheduleController.setWeeklySchedule
+);
+
+/**
+ * Create or update one day of the work schedule
+ * PUT /doctors/:doctorId/work-schedule/:dayOfWeek
+ * Permissions: schedules:update
+ */
+router.put(
+  '/doctors/:doctorId/work-schedule/:dayOfWeek',
+  authenticate,
+  requirePermission('schedules', 'update'),
+  validate({ params: workScheduleDayParamSchema, body: upsertWorkScheduleSchema }),
+  scheduleController.upsertWorkScheduleDay
+);
+
+/**
+ * Remove one day from the work schedule
+ * DELETE /doctors/:doctorId/work-schedule/:dayOfWeek
+ * Permissions: schedules:delete
+ */
+router.delete(
+  '/doctors/:doctorId/work-schedule/:dayOfWeek',
+  authenticate,
+  requirePermission('schedules', 'delete'),
+  validate({ params: workScheduleDayParamSchema }),
+  scheduleController.deleteWorkScheduleDay
+);
+
+// ============================================
+// BLOCKED TIMES
+// ============================================
+
+/**
+ * List blocked times of a doctor
+ * GET /doctors/:doctorId/blocked-times?startDate=2025-01-01&endDate=2025-01-31
+ * Permissions: schedules:read
+ */
+router.get(
+  '/doctors/:doctorId/blocked-times',
+  authenticate,
+  requirePermission('schedules', 'read'),
+  validate({ params: doctorIdParamSchema, query: listBlockedTimesSchema }),
+  scheduleController.listBlockedTimes
+);
+
+/**
+ * Create blocked time
+ * POST /blocked-times
+ * Returns the appointments that overlap the block
+ * Permissions: schedules:create
+ */
+router.post(
+  '/blocked-times',
+  authenticate,
+  requirePermission('schedules', 'create'),
+  validate({ body: createBlockedTimeSchema }),
+  scheduleController.createBlockedTime
+);
+
+/**
+ * Get blocked time by ID
+ * GET /blocked-times/:id
+ * Permissions: schedules:read
+ */
+router.get(
+  '/blocked-times/:id',
+  authenticate,
+  requirePermission('schedules', 'read'),
+  validate({ params: blockedTimeIdSchema }),
+  scheduleController.getBlockedTime
+);
+
+/**
+ * Update blocked time
+ * PUT /blocked-times/:id
+ * Returns the appointments that overlap the updated block
+ * Permissions: schedules:update
+ */
+router.put(
+  '/blocked-times/:id',
+  authenticate,
+  requirePermission('schedules', 'update'),
+  validate({ params: blockedTimeIdSchema, body: updateBlockedTimeSchema }),
+  scheduleController.updateBlockedTime
+);
+
+/**
+ * Delete blocked time
+ * DELETE /blocked-times/:id
+ * Permissions: schedules:delete
+ */
+router.delete(
+  '/blocked-times/:id',
+  authenticate,
+  requirePermission('schedules', 'delete'),
+  validate({ params: blockedTimeIdSchema }),
+  scheduleController.deleteBlockedTime
+);
+
+export default router;
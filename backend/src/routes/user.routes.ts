@@ -0,0 +1,164 @@
+import { Router } from 'express';
+import { userController } from '@controllers/user.controller';
+import { authenticate, requirePermission } from '@middleware/auth';
+import { validate, validateSource } from '@middleware/validation';
+import {
+  searchUsersSchema,
+  updateUserSchema,
+  adminResetPasswordSchema,
+  userIdSchema,
+} from '../types/user.types';
+import { loginHistorySchema } from '../types/auth.types';
+
+const router = Router();
+
+/**
+ * User Routes
+ * All routes require authentication
+ * Base path: /api/v1/users
+ */
+
+// ============================================
+// SPECIAL ROUTES (must come before /:id)
+// ============================================
+
+/**
+ * Get active doctors (doctor pickers)
+ * GET /doctors
+ * Permissions: appointments:read
+ */
+router.get(
+  '/doctors',
+  authenticate,
+  requirePermission('appointments', 'read'),
+  userController.getDoctors
+);
+
+// ============================================
+// CRUD ROUTES
+// ============================================
+
+/**
+ * Get all users with filters and pagination
+ * GET /?role=doctor&isActive=true&page=1&limit=10
+ * Permissions: users:read
+ */
+router.get(
+  '/',
+  authenticate,
+  requirePermission('users', 'read'),
+  validate({ query: searchUsersSchema }),
+  userController.getAll
+);
+
+/**
+ * Get user by ID
+ * GET /:id
+ * Permissions: users:read
+ */
+router.get(
+  '/:id',
+  authenticate,
+  requirePermission('users', 'read'),
+  validate({ params: userIdSchema }),
+  userController.getById
+);
+
+/**
+ * Update user (name, phone, avatar)
+ * PUT /:id
+ * Permissions: users:update
+ */
+router.put(
+  '/:id',
+  authenticate,
+  requirePermission('users', 'update'),
+  validate({ params: userIdSchema }),
+  validateSource(updateUserSchema, 'body'),
+  userController.update
+);
+
+/**
+ * Delete user (soft delete)
+ * DELETE /:id
+ * Permissions: users:delete
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  requirePermission('users', 'delete'),
+  validate({ params: userIdSchema }),
+  userController.delete
+);
+
+// ============================================
+// ACCOUNT MANAGEMENT
+// ============================================
+
+/**
+ * Reactivate a deactivated or deleted user
+ * POST /:id/reactivate
+ * Permissions: users:delete
+ */
+router.post(
+  '/:id/reactivate',
+  authenticate,
+  requirePermission('users', 'delete'),
+  validate({ params: userIdSchema }),
+  userController.reactivate
+);
+
+/**
+ * Reset another user's password
+ * POST /:id/reset-password
+ * Permissions: users:update
+ */
+router.post(
+  '/:id/reset-password',
+  authenticate,
+  requirePermission('users', 'update'),
+  validate({ params: userIdSchema }),
+  validateSource(adminResetPasswordSchema, 'body'),
+  userController.resetPassword
+);
+
+/**
+ * Get login history of a user
+ * GET /:id/login-history?success=false&page=1&limit=20
+ * Permissions: users:read
+ */
+router.get(
+  '/:id/login-history',
+  authenticate,
+  requirePermission('users', 'read'),
+  validate({ params: userIdSchema, query: loginHistorySchema }),
+  userController.getLoginHistory
+);
+
+/**
+ * Unlock a user locked out by failed login attempts
+ * POST /:id/unlock
+ * Permissions: users:update
+ */
+router.post(
+  '/:id/unlock',
+  authenticate,
+  requirePermission('users', 'update'),
+  validate({ params: userIdSchema }),
+  userController.unlock
+);
+
+/**
+ * Reset two-factor authentication of a user (lost device)
+ * DELETE /:id/two-factor
+ * Permissions: users:update
+ */
+router.delete(
+  '/:id/two-factor',
+  authenticate,
+  requirePermission('users', 'update'),
+  validate({ params: userIdSchema }),
+  userController.resetTwoFactor
+);
+
+export default router;
@@ -3,6 +3,7 @@ import app from './app';
 import { env, isDev } from '@config/env';
 import { connectDatabase, disconnectDatabase } from '@config/database';
 import logger from '@utils/logger';
+import { reminderService } from '@services/reminder.service';
 
 /**
  * Normalize port value
@@ -66,6 +67,9 @@ const onListening = (): void => {
   if (isDev) {
     logger.info(`🔧 Development mode enabled`);
   }
+
+  // Appointment reminders (FEATURE_APPOINTMENT_REMINDERS)
+  reminderService.start();
 };
 
 /**
@@ -74,6 +78,8 @@ const onListening = (): void => {
 const gracefulShutdown = async (signal: string): Promise<void> => {
   logger.info(`\n${signal} received. Starting graceful shutdown...`);
 
+  reminderService.stop();
+
   // Stop accepting new connections
   server.close(async () => {
     logger.info('HTTP server closed');
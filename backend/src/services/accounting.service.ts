@@ -1,8 +1,17 @@
 import { ApiError } from '@utils/ApiError';
 import logger from '@utils/logger';
 import { accountingRepository } from '@repositories/accounting.repository';
+import { catalogService } from '@services/catalog.service';
 import { prisma } from '@config/database';
-import { TransactionType, InstallmentStatus } from '@prisma/client';
+import { env } from '@config/env';
+import { TransactionType, InstallmentStatus, InvoiceStatus } from '@prisma/client';
+import { calculateLineTotal } from '@utils/treatmentPlan';
+import {
+  PAYABLE_INVOICE_STATUSES,
+  calculateInvoiceTotals,
+  canTransitionInvoice,
+  formatInvoiceNumber,
+} from '@utils/invoice';
 import type {
   CreateTransactionData,
   TransactionListOptions,
@@ -20,6 +29,14 @@ import type {
   CashFlow,
   AccountsReceivable,
   IncomeByTreatment,
+  CreateInvoiceData,
+  UpdateInvoiceDTO,
+  InvoiceItemInput,
+  InvoiceLine,
+  InvoiceTotals,
+  InvoiceListOptions,
+  PaginatedInvoiceResponse,
+  InvoiceResponse,
 } from '../types/accounting.types';
 
 /**
@@ -174,6 +191,30 @@ export class AccountingService {
       throw ApiError.notFound('Patient not found');
     }
 
+    // Validate the invoice the payment is allocated to
+    let invoiceNumber: string | undefined;
+    if (data.invoiceId) {
+      const invoice = await accountingRepository.findInvoiceById(data.invoiceId);
+
+      if (!invoice) {
+        throw ApiError.notFound('Invoice not found');
+      }
+
+      if (invoice.patientId !== data.patientId) {
+        throw ApiError.badRequest('Invoice does not belong to this patient');
+      }
+
+      if (!PAYABLE_INVOICE_STATUSES.includes(invoice.status)) {
+        throw ApiError.conflict(`Cannot record payments on an invoice in ${invoice.status} status`);
+      }
+
+      if (data.amount > invoice.balance) {
+        throw ApiError.badRequest(`Amount exceeds the invoice balance of ${invoice.balance.toFixed(2)}`);
+      }
+
+      invoiceNumber = invoice.number ?? undefined;
+    }
+
     // Validate treatment exists if provided
     if (data.treatmentId) {
       const treatment = await prisma.treatment.findUnique({
@@ -183,22 +224,15 @@ export class AccountingService {
       if (!treatment) {
         throw ApiError.notFound('Treatment not found');
       }
-
-      // Update treatment balance
-      const newBalance = Number(treatment.balance) - data.amount;
-      const newPaid = Number(treatment.paid) + data.amount;
-
-      await prisma.treatment.update({
-        where: { id: data.treatmentId },
-        data: {
-          paid: newPaid,
-          balance: Math.max(0, newBalance),
-        },
-      });
     }
 
     try {
-      const payment = await accountingRepository.createPatientPayment(data);
+      // Payment, invoice allocation and treatment balance are stored together
+      const payment = await accountingRepository.createAllocatedPayment(data);
+
+      if (!payment) {
+        throw ApiError.conflict('Balance changed while recording the payment, please reload');
+      }
 
       // Create income transaction
       await accountingRepository.createTransaction({
@@ -210,16 +244,21 @@ export class AccountingService {
         patientId: data.patientId,
         createdBy: data.createdBy,
         date: data.date,
+        invoiceNumber,
       });
 
       logger.info('Patient payment created successfully', {
         paymentId: payment.id,
         patientId: data.patientId,
+        invoiceId: data.invoiceId,
         amount: data.amount,
       });
 
       return payment;
     } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
       logger.error('Error creating patient payment', error);
       throw ApiError.internal('Failed to create patient payment');
     }
@@ -272,9 +311,10 @@ export class AccountingService {
   }
 
   /**
-   * Create payment plan
+   * Validate a payment plan and calculate its installments
+   * @throws ApiError if the amount, number of installments or first due date is invalid
    */
-  async createPaymentPlan(data: CreatePaymentPlanData) {
+  calculatePaymentPlanInstallments(data: CreatePaymentPlanData): InstallmentCalculation[] {
     // Validate amount is positive
     if (data.totalAmount <= 0) {
       throw ApiError.badRequest('Total amount must be positive');
@@ -285,24 +325,6 @@ export class AccountingService {
       throw ApiError.badRequest('Total installments must be between 1 and 60');
     }
 
-    // Validate patient exists
-    const patient = await prisma.patient.findFirst({
-      where: { id: data.patientId, deletedAt: null },
-    });
-
-    if (!patient) {
-      throw ApiError.notFound('Patient not found');
-    }
-
-    // Validate treatment exists
-    const treatment = await prisma.treatment.findUnique({
-      where: { id: data.treatmentId },
-    });
-
-    if (!treatment) {
-      throw ApiError.notFound('Treatment not found');
-    }
-
     // Validate first due date is not in the past
     const firstDueDate = new Date(data.firstDueDate);
     const today = new Date();
@@ -312,25 +334,53 @@ export class AccountingService {
       throw ApiError.badRequest('First due date cannot be in the past');
     }
 
-    try {
-      // Calculate installments
-      const installments = this.calculateInstallments(
-        data.totalAmount,
-        data.totalInstallments,
-        firstDueDate,
-        data.frequency
-      );
+    const installments = this.calculateInstallments(
+      data.totalAmount,
+      data.totalInstallments,
+      firstDueDate,
+      data.frequency
+    );
 
-      // Verify installments sum equals total amount
-      const installmentsSum = installments.reduce(
-        (sum, inst) => sum + inst.amount,
-        0
-      );
+    // Verify installments sum equals total amount
+    const installmentsSum = installments.reduce(
+      (sum, inst) => sum + inst.amount,
+      0
+    );
+
+    if (Math.abs(installmentsSum - data.totalAmount) > 0.01) {
+      throw ApiError.internal('Installments calculation error');
+    }
+
+    return installments;
+  }
+
+  /**
+   * Create payment plan
+   */
+  async createPaymentPlan(data: CreatePaymentPlanData) {
+    const installments = this.calculatePaymentPlanInstallments(data);
+
+    // Validate patient exists
+    const patient = await prisma.patient.findFirst({
+      where: { id: data.patientId, deletedAt: null },
+    });
 
-      if (Math.abs(installmentsSum - data.totalAmount) > 0.01) {
-        throw ApiError.internal('Installments calculation error');
+    if (!patient) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    // Validate treatment exists (plans created on treatment plan approval have none)
+    if (data.treatmentId) {
+      const treatment = await prisma.treatment.findUnique({
+        where: { id: data.treatmentId },
+      });
+
+      if (!treatment) {
+        throw ApiError.notFound('Treatment not found');
       }
+    }
 
+    try {
       // Create payment plan with installments
       const paymentPlan = await accountingRepository.createPaymentPlan(
         data,
@@ -446,7 +496,7 @@ export class AccountingService {
       // Create patient payment
       const payment = await accountingRepository.createPatientPayment({
         patientId: paymentPlan.patientId,
-        treatmentId: paymentPlan.treatmentId,
+        treatmentId: paymentPlan.treatmentId ?? undefined,
         amount: paymentData.amount,
         paymentMethod: paymentData.paymentMethod,
         date: paymentData.date,
@@ -550,6 +600,282 @@ export class AccountingService {
     }
   }
 
+  // ============================================
+  // INVOICE METHODS
+  // ============================================
+
+  /**
+   * Get all invoices with optional filters and pagination
+   */
+  async getAllInvoices(
+    options: InvoiceListOptions = {}
+  ): Promise<PaginatedInvoiceResponse> {
+    try {
+      return await accountingRepository.findAllInvoices(options);
+    } catch (error) {
+      logger.error('Error fetching invoices', error);
+      throw ApiError.internal('Failed to fetch invoices');
+    }
+  }
+
+  /**
+   * Get invoice by ID
+   */
+  async getInvoiceById(id: string): Promise<InvoiceResponse> {
+    const invoice = await accountingRepository.findInvoiceById(id);
+
+    if (!invoice) {
+      throw ApiError.notFound('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Get invoices of a patient, newest first
+   */
+  async getInvoicesByPatientId(patientId: string): Promise<InvoiceResponse[]> {
+    const patient = await prisma.patient.findFirst({
+      where: { id: patientId, deletedAt: null },
+    });
+
+    if (!patient) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    const { data } = await accountingRepository.findAllInvoices({
+      filters: { patientId },
+      pagination: { page: 1, limit: 100 },
+    });
+
+    return data;
+  }
+
+  /**
+   * Create a draft invoice
+   * Numbering happens on issue, so drafts can be edited or discarded freely
+   */
+  async createInvoice(data: CreateInvoiceData): Promise<InvoiceResponse> {
+    const patient = await prisma.patient.findFirst({
+      where: { id: data.patientId, deletedAt: null },
+    });
+
+    if (!patient) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    const { lines, totals } = await this.resolveInvoiceLines(data.patientId, data.items);
+
+    try {
+      const invoice = await accountingRepository.createInvoice(data, lines, totals);
+
+      logger.info('Invoice created successfully', {
+        invoiceId: invoice.id,
+        patientId: data.patientId,
+        total: totals.total,
+      });
+
+      return invoice;
+    } catch (error) {
+      logger.error('Error creating invoice', error);
+      throw ApiError.internal('Failed to create invoice');
+    }
+  }
+
+  /**
+   * Update a draft invoice; its items are replaced when given
+   */
+  async updateInvoice(id: string, data: UpdateInvoiceDTO): Promise<InvoiceResponse> {
+    const invoice = await this.getInvoiceById(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw ApiError.conflict('Only draft invoices can be modified');
+    }
+
+    const resolved = data.items
+      ? await this.resolveInvoiceLines(invoice.patientId, data.items)
+      : undefined;
+
+    const updated = await accountingRepository.updateDraftInvoice(
+      id,
+      { dueDate: data.dueDate, notes: data.notes },
+      resolved && { items: resolved.lines, totals: resolved.totals }
+    );
+
+    if (!updated) {
+      throw ApiError.conflict('Invoice was issued meanwhile, please reload');
+    }
+
+    logger.info('Invoice updated successfully', { invoiceId: id });
+
+    return updated;
+  }
+
+  /**
+   * Delete a draft invoice
+   */
+  async deleteInvoice(id: string) {
+    const invoice = await this.getInvoiceById(id);
+
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw ApiError.conflict('Only draft invoices can be deleted, void it instead');
+    }
+
+    const deleted = await accountingRepository.deleteDraftInvoice(id);
+
+    if (!deleted) {
+      throw ApiError.conflict('Invoice was issued meanwhile, please reload');
+    }
+
+    logger.info('Invoice deleted successfully', { invoiceId: id });
+
+    return { message: 'Invoice deleted successfully' };
+  }
+
+  /**
+   * Issue a draft invoice, assigning the next number of the
+   * establishment and emission point series
+   */
+  async issueInvoice(id: string, dueDate?: string): Promise<InvoiceResponse> {
+    const invoice = await this.getInvoiceById(id);
+
+    if (!canTransitionInvoice(invoice.status, InvoiceStatus.ISSUED)) {
+      throw ApiError.conflict(`Cannot issue an invoice in ${invoice.status} status`);
+    }
+
+    const issueDate = new Date();
+    const due = dueDate
+      ? new Date(dueDate)
+      : invoice.dueDate ?? new Date(issueDate.getTime() + env.INVOICE_DUE_DAYS * 24 * 60 * 60 * 1000);
+
+    if (due < issueDate) {
+      throw ApiError.badRequest('Due date cannot be before the issue date');
+    }
+
+    const { INVOICE_ESTABLISHMENT: establishment, INVOICE_EMISSION_POINT: emissionPoint } = env;
+    const issued = await accountingRepository.issueInvoice(
+      id,
+      `invoice:${establishment}-${emissionPoint}`,
+      (sequence) => formatInvoiceNumber(establishment, emissionPoint, sequence),
+      { issueDate, dueDate: due }
+    );
+
+    if (!issued) {
+      throw ApiError.conflict('Invoice was issued meanwhile, please reload');
+    }
+
+    logger.info('Invoice issued successfully', {
+      invoiceId: id,
+      number: issued.number,
+      total: issued.total,
+    });
+
+    return issued;
+  }
+
+  /**
+   * Void an issued invoice that has no payments
+   * Its number stays used so the series keeps no gaps
+   */
+  async voidInvoice(id: string, reason: string): Promise<InvoiceResponse> {
+    const invoice = await this.getInvoiceById(id);
+
+    if (!canTransitionInvoice(invoice.status, InvoiceStatus.VOID)) {
+      throw ApiError.conflict(
+        invoice.status === InvoiceStatus.DRAFT
+          ? 'Draft invoices are deleted, not voided'
+          : `Cannot void an invoice in ${invoice.status} status`
+      );
+    }
+
+    if (invoice.paidAmount > 0) {
+      throw ApiError.conflict('Cannot void an invoice with payments');
+    }
+
+    const voided = await accountingRepository.voidInvoice(id, reason);
+
+    if (!voided) {
+      throw ApiError.conflict('Invoice received a payment meanwhile, please reload');
+    }
+
+    logger.info('Invoice voided successfully', { invoiceId: id, number: invoice.number });
+
+    return voided;
+  }
+
+  /**
+   * Resolve invoice items into lines: treatments must belong to the patient
+   * and catalog procedures must be active; both default their description and
+   * price (the treatment cost, or the price in the patient's price list)
+   */
+  private async resolveInvoiceLines(
+    patientId: string,
+    items: InvoiceItemInput[]
+  ): Promise<{ lines: InvoiceLine[]; totals: InvoiceTotals }> {
+    const treatmentIds = items.flatMap((item) => (item.treatmentId ? [item.treatmentId] : []));
+    const catalogIds = items.flatMap((item) => (item.catalogId ? [item.catalogId] : []));
+
+    const [treatments, catalogItems] = await Promise.all([
+      treatmentIds.length ? accountingRepository.findTreatmentsForInvoice(treatmentIds) : [],
+      catalogIds.length ? accountingRepository.findCatalogItemsForInvoice(catalogIds) : [],
+    ]);
+
+    // Catalog procedures without an explicit price take the patient's price list
+    const unpricedCatalogIds = catalogItems
+      .map((c) => c.id)
+      .filter((id) => items.some((item) => item.catalogId === id && item.unitPrice === undefined));
+    const { prices } = unpricedCatalogIds.length
+      ? await catalogService.getPatientPrices(patientId, unpricedCatalogIds)
+      : { prices: [] };
+
+    const lines = items.map((item, index): InvoiceLine => {
+      let description = item.description;
+      let unitPrice = item.unitPrice;
+      let catalogId: string | null = null;
+
+      if (item.treatmentId) {
+        const treatment = treatments.find((t) => t.id === item.treatmentId);
+        if (!treatment || treatment.patientId !== patientId) {
+          throw ApiError.badRequest(`Treatment ${item.treatmentId} not found for this patient`);
+        }
+        catalogId = treatment.catalogId;
+        description ??= treatment.toothNumber
+          ? `${treatment.catalog.name} - pieza ${treatment.toothNumber}`
+          : treatment.catalog.name;
+        unitPrice ??= Number(treatment.cost);
+      } else if (item.catalogId) {
+        const catalogItem = catalogItems.find((c) => c.id === item.catalogId);
+        if (!catalogItem) {
+          throw ApiError.badRequest(`Catalog item ${item.catalogId} not found or inactive`);
+        }
+        catalogId = catalogItem.id;
+        description ??= catalogItem.name;
+        unitPrice ??= prices.find((p) => p.catalogId === catalogItem.id)?.price ?? Number(catalogItem.baseCost);
+      }
+
+      const price = unitPrice ?? 0;
+      const total = calculateLineTotal(item.quantity, price, item.discount);
+      if (total < 0) {
+        throw ApiError.badRequest(`Discount of item ${index + 1} exceeds its amount`);
+      }
+
+      return {
+        sequence: index + 1,
+        treatmentId: item.treatmentId ?? null,
+        catalogId,
+        description: description ?? '',
+        quantity: item.quantity,
+        unitPrice: price,
+        discount: item.discount,
+        total,
+        // Dental services follow the tax setting; free concepts are taxed unless stated
+        taxable: item.taxable ?? (catalogId ? env.TAX_APPLIES_TO_SERVICES : true),
+      };
+    });
+
+    return { lines, totals: calculateInvoiceTotals(lines, env.TAX_RATE) };
+  }
+
   // ============================================
   // EXPENSE METHODS
   // ============================================
@@ -2,6 +2,11 @@ import { ApiError } from '@utils/ApiError';
 import { loggers } from '@utils/logger';
 import { appointmentRepository } from '@repositories/appointment.repository';
 import { AppointmentStatus, RecurrenceFrequency } from '@prisma/client';
+import {
+  canRoleSetAppointmentStatus,
+  canTransitionAppointment,
+  isFinalAppointmentStatus,
+} from '@utils/appointment';
 import type {
   CreateAppointmentData,
   UpdateAppointmentData,
@@ -16,6 +21,8 @@ import type {
   PaginatedAppointments,
   RecurringAppointmentResponse,
   CancelAppointmentData,
+  RescheduleAppointmentData,
+  AppointmentActor,
 } from '../types/appointment.types';
 
 /**
@@ -72,6 +79,8 @@ export class AppointmentService {
       reminderSent: appointment.reminderSent,
       reminderSentAt: appointment.reminderSentAt,
       recurringAppointmentId: appointment.recurringAppointmentId,
+      rescheduledToId: appointment.rescheduledToId,
+      rescheduledFromId: appointment.rescheduledFrom?.id ?? null,
       createdAt: appointment.createdAt,
       updatedAt: appointment.updatedAt,
     };
@@ -98,16 +107,19 @@ export class AppointmentService {
   }
 
   /**
-   * Get appointment by ID
+   * Get appointment by ID, with its status history
    */
   async getAppointmentById(id: string): Promise<AppointmentResponse> {
-    const appointment = await appointmentRepository.findById(id);
+    const [appointment, statusHistory] = await Promise.all([
+      appointmentRepository.findById(id),
+      appointmentRepository.findStatusHistory(id),
+    ]);
 
     if (!appointment) {
       throw ApiError.notFound('Appointment not found');
     }
 
-    return this.formatAppointmentResponse(appointment);
+    return { ...this.formatAppointmentResponse(appointment), statusHistory };
   }
 
   /**
@@ -168,7 +180,13 @@ export class AppointmentService {
     }
 
     // If changing date, time, or duration, validate availability
-    if (data.date || data.startTime || data.duration) {
+    if (data.date || data.startTime || data.duration || data.doctorId) {
+      if (isFinalAppointmentStatus(existingAppointment.status)) {
+        throw ApiError.badRequest(
+          `Cannot change the time of an appointment in ${existingAppointment.status} status`
+        );
+      }
+
       const doctorId = data.doctorId || existingAppointment.doctorId;
       const date = data.date || existingAppointment.date;
       const startTime = data.startTime || existingAppointment.startTime;
@@ -201,27 +219,39 @@ export class AppointmentService {
   }
 
   /**
-   * Update appointment status
+   * Update appointment status following the allowed transitions
+   * Rescheduling goes through rescheduleAppointment, which creates the replacement
    */
   async updateStatus(
     id: string,
-    data: UpdateAppointmentStatusData
+    data: UpdateAppointmentStatusData,
+    actor: AppointmentActor
   ): Promise<AppointmentResponse> {
+    if (data.status === AppointmentStatus.RESCHEDULED) {
+      throw ApiError.badRequest('Use the reschedule endpoint to reschedule an appointment');
+    }
+
     const appointment = await appointmentRepository.findById(id);
     if (!appointment) {
       throw ApiError.notFound('Appointment not found');
     }
 
-    const updated = await appointmentRepository.updateStatus(
-      id,
-      data.status,
-      data.notes
-    );
+    this.assertStatusChange(appointment.status, data.status, actor);
+
+    const updated = await appointmentRepository.changeStatus(id, appointment.status, data.status, {
+      changedById: actor.id,
+      reason: data.notes,
+    });
+
+    if (!updated) {
+      throw ApiError.conflict('Appointment status changed meanwhile, please reload');
+    }
 
     loggers.business('appointment_status_updated', {
       appointmentId: id,
       oldStatus: appointment.status,
       newStatus: data.status,
+      changedBy: actor.id,
     });
 
     return this.formatAppointmentResponse(updated);
@@ -232,7 +262,8 @@ export class AppointmentService {
    */
   async cancelAppointment(
     id: string,
-    data: CancelAppointmentData
+    data: CancelAppointmentData,
+    actor: AppointmentActor
   ): Promise<AppointmentResponse> {
     const appointment = await appointmentRepository.findById(id);
     if (!appointment) {
@@ -243,40 +274,144 @@ export class AppointmentService {
       throw ApiError.badRequest('Appointment is already cancelled');
     }
 
-    if (appointment.status === AppointmentStatus.COMPLETED) {
-      throw ApiError.badRequest('Cannot cancel a completed appointment');
-    }
+    this.assertStatusChange(appointment.status, AppointmentStatus.CANCELLED, actor);
 
-    const updated = await appointmentRepository.updateStatus(
+    const updated = await appointmentRepository.changeStatus(
       id,
+      appointment.status,
       AppointmentStatus.CANCELLED,
-      `Cancellation reason: ${data.reason}`
+      { changedById: actor.id, reason: data.reason }
     );
 
+    if (!updated) {
+      throw ApiError.conflict('Appointment status changed meanwhile, please reload');
+    }
+
     loggers.business('appointment_cancelled', {
       appointmentId: id,
       reason: data.reason,
+      changedBy: actor.id,
     });
 
     return this.formatAppointmentResponse(updated);
   }
 
   /**
-   * Delete appointment
+   * Reschedule appointment: the original becomes RESCHEDULED and links to a new
+   * SCHEDULED appointment for the same patient at the new date and time
+   * @returns The replacement appointment
+   */
+  async rescheduleAppointment(
+    id: string,
+    data: RescheduleAppointmentData,
+    actor: AppointmentActor
+  ): Promise<AppointmentResponse> {
+    const appointment = await appointmentRepository.findById(id);
+    if (!appointment) {
+      throw ApiError.notFound('Appointment not found');
+    }
+
+    this.assertStatusChange(appointment.status, AppointmentStatus.RESCHEDULED, actor);
+
+    const doctorId = data.doctorId || appointment.doctorId;
+    if (data.doctorId && !(await appointmentRepository.doctorExists(data.doctorId))) {
+      throw ApiError.notFound('Doctor not found');
+    }
+
+    const duration = data.duration || appointment.duration;
+    const availability = await this.validateAvailability({
+      doctorId,
+      date: data.date,
+      startTime: data.startTime,
+      duration,
+      excludeAppointmentId: id,
+    });
+
+    if (!availability.available) {
+      throw ApiError.conflict(
+        availability.reason || 'The selected time slot is not available'
+      );
+    }
+
+    const replacement = await appointmentRepository.reschedule(
+      id,
+      appointment.status,
+      {
+        patientId: appointment.patientId,
+        doctorId,
+        date: data.date,
+        startTime: data.startTime,
+        duration,
+        type: appointment.type,
+        reason: appointment.reason,
+        notes: appointment.notes ?? undefined,
+        color: appointment.color ?? undefined,
+      },
+      { changedById: actor.id, reason: data.reason }
+    );
+
+    if (!replacement) {
+      throw ApiError.conflict('Appointment status changed meanwhile, please reload');
+    }
+
+    loggers.business('appointment_rescheduled', {
+      appointmentId: id,
+      replacementId: replacement.id,
+      date: data.date,
+      startTime: data.startTime,
+      changedBy: actor.id,
+    });
+
+    return this.formatAppointmentResponse(replacement);
+  }
+
+  /**
+   * Delete appointment (soft delete: it is cancelled and the change recorded)
    */
-  async deleteAppointment(id: string): Promise<void> {
+  async deleteAppointment(id: string, actor: AppointmentActor): Promise<void> {
     const appointment = await appointmentRepository.findById(id);
     if (!appointment) {
       throw ApiError.notFound('Appointment not found');
     }
 
-    await appointmentRepository.delete(id);
+    if (appointment.status !== AppointmentStatus.CANCELLED) {
+      this.assertStatusChange(appointment.status, AppointmentStatus.CANCELLED, actor);
+
+      const deleted = await appointmentRepository.changeStatus(
+        id,
+        appointment.status,
+        AppointmentStatus.CANCELLED,
+        { changedById: actor.id, reason: 'Appointment deleted' }
+      );
+
+      if (!deleted) {
+        throw ApiError.conflict('Appointment status changed meanwhile, please reload');
+      }
+    }
 
     loggers.business('appointment_deleted', {
       appointmentId: id,
     });
   }
 
+  /**
+   * Check a status change against the allowed transitions and the actor role
+   * @throws ApiError 400 if the transition is not allowed, 403 if the role cannot set the status
+   */
+  private assertStatusChange(
+    from: AppointmentStatus,
+    to: AppointmentStatus,
+    actor: AppointmentActor
+  ): void {
+    if (!canTransitionAppointment(from, to)) {
+      throw ApiError.badRequest(`Cannot change an appointment from ${from} to ${to}`);
+    }
+
+    if (!canRoleSetAppointmentStatus(actor.role, to)) {
+      throw ApiError.forbidden(`Only doctors can move an appointment to ${to}`);
+    }
+  }
+
   /**
    * Validate appointment availability
    */
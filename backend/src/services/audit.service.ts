@@ -0,0 +1,293 @@
+import { PatientAccessResource } from '@prisma/client';
+import { env } from '@config/env';
+import { ApiError } from '@utils/ApiError';
+import { loggers } from '@utils/logger';
+import logger from '@utils/logger';
+import { computeAuditHash } from '@utils/audit';
+import { getRequestContext } from '@utils/requestContext';
+import { auditRepository } from '@repositories/audit.repository';
+import { medicalRepository } from '@repositories/medical.repository';
+import type {
+  AccessAnomaly,
+  AccessAnomalyReason,
+  AccessAnomalyReport,
+  AccessAnomalyThresholds,
+  AuditChainVerification,
+  AuditLogFilters,
+  AuditLogListOptions,
+  DailyAccessCount,
+  PaginatedAuditLogResponse,
+  PaginatedPatientAccessLogResponse,
+  PatientAccessLogListOptions,
+} from '../types/audit.types';
+
+/**
+ * Entries read per batch when verifying the hash chain
+ */
+const VERIFY_BATCH_SIZE = 500;
+
+/**
+ * Active days needed before a user's own average is used as a baseline
+ */
+const MIN_BASELINE_ACTIVE_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as a UTC day (YYYY-MM-DD)
+ */
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Flag user-days with an unusual number of charts opened
+ * @param counts - Daily counts for the period and the baseline window before it
+ * @param startDay - First day of the period (YYYY-MM-DD)
+ * @param endDay - Last day of the period (YYYY-MM-DD)
+ * @param thresholds - Daily limit and baseline settings
+ */
+export const detectAccessAnomalies = (
+  counts: DailyAccessCount[],
+  startDay: string,
+  endDay: string,
+  thresholds: AccessAnomalyThresholds
+): Omit<AccessAnomaly, 'user'>[] => {
+  const anomalies: Omit<AccessAnomaly, 'user'>[] = [];
+
+  for (const count of counts) {
+    if (count.day < startDay || count.day > endDay) {
+      continue;
+    }
+
+    const windowStart = toDay(new Date(Date.parse(count.day) - thresholds.baselineDays * DAY_MS));
+    const history = counts.filter(
+      (other) => other.userId === count.userId && other.day >= windowStart && other.day < count.day
+    );
+    const baselineAverage =
+      history.length >= MIN_BASELINE_ACTIVE_DAYS
+        ? history.reduce((sum, other) => sum + other.patients, 0) / history.length
+        : null;
+
+    const reasons: AccessAnomalyReason[] = [];
+    if (count.patients > thresholds.dailyPatients) {
+      reasons.push('HIGH_VOLUME');
+    }
+    if (baselineAverage !== null && count.patients > baselineAverage * thresholds.baselineFactor) {
+      reasons.push('ABOVE_BASELINE');
+    }
+
+    if (reasons.length > 0) {
+      anomalies.push({
+        ...count,
+        baselineAverage: baselineAverage === null ? null : Math.round(baselineAverage * 100) / 100,
+        reasons,
+      });
+    }
+  }
+
+  return anomalies.sort((a, b) => b.day.localeCompare(a.day) || b.patients - a.patients);
+};
+
+/**
+ * Audit Service
+ * Queries over the audit log, verification of its hash chain and the patient access log
+ */
+export class AuditService {
+  /**
+   * Search audit entries
+   * @param options - Filter and pagination options
+   */
+  async searchAuditLogs(options: AuditLogListOptions): Promise<PaginatedAuditLogResponse> {
+    return auditRepository.findAll(options);
+  }
+
+  /**
+   * Changes to a patient's records (patient, history, diagnoses, treatments, odontograms, ...)
+   * @param patientId - Patient ID
+   * @param options - Filter and pagination options
+   */
+  async getPatientAuditLog(
+    patientId: string,
+    options: AuditLogListOptions
+  ): Promise<PaginatedAuditLogResponse> {
+    return auditRepository.findAll({
+      ...options,
+      filters: { ...options.filters, patientId },
+    });
+  }
+
+  /**
+   * Changes made by a user
+   * @param userId - User ID
+   * @param options - Filter and pagination options
+   */
+  async getUserAuditLog(
+    userId: string,
+    options: AuditLogListOptions
+  ): Promise<PaginatedAuditLogResponse> {
+    return auditRepository.findAll({
+      ...options,
+      filters: { ...options.filters, userId },
+    });
+  }
+
+  /**
+   * Changes to a single record
+   * @param entityType - Model name (e.g. 'Tooth', 'Transaction')
+   * @param entityId - Record ID
+   * @param options - Filter and pagination options
+   */
+  async getEntityAuditLog(
+    entityType: string,
+    entityId: string,
+    options: AuditLogListOptions
+  ): Promise<PaginatedAuditLogResponse> {
+    const filters: AuditLogFilters = { ...options.filters, entityType, entityId };
+
+    return auditRepository.findAll({ ...options, filters });
+  }
+
+  /**
+   * Recompute the hash chain from the first entry
+   * Any edited, deleted or reordered entry breaks the chain
+   * @returns Whether the chain is intact and the first broken entry
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    let previousHash: string | null = null;
+    let lastSequence = 0;
+    let checked = 0;
+
+    for (;;) {
+      const batch = await auditRepository.findChainBatch(lastSequence, VERIFY_BATCH_SIZE);
+
+      for (const entry of batch) {
+        if (entry.previousHash !== previousHash) {
+          return this.reportBrokenChain(checked, entry.sequence, entry.id, 'CHAIN_MISMATCH');
+        }
+
+        if (computeAuditHash(entry) !== entry.hash) {
+          return this.reportBrokenChain(checked, entry.sequence, entry.id, 'HASH_MISMATCH');
+        }
+
+        previousHash = entry.hash;
+        lastSequence = entry.sequence;
+        checked++;
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        return { valid: true, checked, brokenAt: null };
+      }
+    }
+  }
+
+  /**
+   * ============================================
+   * PATIENT ACCESS LOG
+   * ============================================
+   */
+
+  /**
+   * Record that the current user opened part of a patient's clinical record
+   * Failures are logged and never block the read
+   * @param patientId - Patient ID
+   * @param resource - Part of the record that was read
+   */
+  async recordPatientAccess(patientId: string, resource: PatientAccessResource): Promise<void> {
+    const context = getRequestContext();
+
+    try {
+      await auditRepository.createAccessLog({
+        userId: context?.userId ?? null,
+        patientId,
+        resource,
+        ipAddress: context?.ipAddress ?? null,
+        userAgent: context?.userAgent ?? null,
+      });
+    } catch (error) {
+      logger.error('Failed to record patient access', {
+        patientId,
+        resource,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Reads of a patient's clinical record
+   * @param patientId - Patient ID
+   * @param options - Filter and pagination options
+   * @throws ApiError if patient not found
+   */
+  async getPatientAccessLog(
+    patientId: string,
+    options: PatientAccessLogListOptions
+  ): Promise<PaginatedPatientAccessLogResponse> {
+    const patientExists = await medicalRepository.patientExists(patientId);
+    if (!patientExists) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    return auditRepository.findAccessLogs(patientId, options);
+  }
+
+  /**
+   * Users who opened an unusual number of patient charts in a day
+   * @param startDate - First day (YYYY-MM-DD, UTC); defaults to endDate or today
+   * @param endDate - Last day (YYYY-MM-DD, UTC); defaults to startDate
+   */
+  async getAccessAnomalyReport(startDate?: string, endDate?: string): Promise<AccessAnomalyReport> {
+    const startDay = startDate ?? endDate ?? toDay(new Date());
+    const endDay = endDate ?? startDay;
+
+    const thresholds: AccessAnomalyThresholds = {
+      dailyPatients: env.ACCESS_ANOMALY_DAILY_PATIENTS,
+      baselineDays: env.ACCESS_ANOMALY_BASELINE_DAYS,
+      baselineFactor: env.ACCESS_ANOMALY_BASELINE_FACTOR,
+    };
+
+    const from = new Date(Date.parse(startDay) - thresholds.baselineDays * DAY_MS);
+    const to = new Date(Date.parse(endDay) + DAY_MS);
+    const counts = await auditRepository.findDailyAccessCounts(from, to);
+
+    const anomalies = detectAccessAnomalies(counts, startDay, endDay, thresholds);
+    const users = await auditRepository.findActors([...new Set(anomalies.map((a) => a.userId))]);
+
+    if (anomalies.length > 0) {
+      loggers.security('Unusual patient record access detected', 'medium', {
+        startDate: startDay,
+        endDate: endDay,
+        flagged: anomalies.length,
+      });
+    }
+
+    return {
+      period: { startDate: startDay, endDate: endDay },
+      thresholds,
+      anomalies: anomalies.map((anomaly) => ({
+        ...anomaly,
+        user: users.get(anomaly.userId) ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Log and build the result for a broken chain
+   */
+  private reportBrokenChain(
+    checked: number,
+    sequence: number,
+    id: string,
+    reason: 'HASH_MISMATCH' | 'CHAIN_MISMATCH'
+  ): AuditChainVerification {
+    loggers.security('Audit log hash chain broken', 'critical', { sequence, id, reason });
+
+    return {
+      valid: false,
+      checked,
+      brokenAt: { sequence, id, reason },
+    };
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
+export default auditService;
@@ -1,19 +1,37 @@
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { LoginFailureReason } from '@prisma/client';
 import { env } from '@config/env';
-import { ApiError } from '@utils/ApiError';
+import { ApiError, ErrorCode } from '@utils/ApiError';
 import { loggers } from '@utils/logger';
-import { authRepository } from '@repositories/auth.repository';
+import logger from '@utils/logger';
+import { authRepository, UserWithRole } from '@repositories/auth.repository';
+import { twoFactorService } from '@services/two-factor.service';
+import { mailService } from '@services/mail.service';
 import type {
   RegisterData,
+  RegisterResult,
   LoginData,
+  LoginResult,
+  LoginTwoFactorData,
   AuthResponse,
   AuthTokens,
   UserProfile,
   ChangePasswordData,
   JwtPayload,
+  SessionContext,
+  LoginAttemptData,
+  LoginHistoryOptions,
+  PaginatedLoginHistory,
 } from '../types/auth.types';
 
+/**
+ * Token type of the short-lived token between the two login steps
+ */
+const TWO_FACTOR_CHALLENGE_TYPE = 'two_factor_challenge';
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
 /**
  * Auth Service
  * Handles all business logic related to authentication
@@ -27,9 +45,10 @@ export class AuthService {
   /**
    * Register a new user
    * @param data - Registration data
-   * @returns Auth response with user and tokens
+   * @param context - Client information for the new session
+   * @returns Auth response with user and tokens, or a pending email verification
    */
-  async register(data: RegisterData): Promise<AuthResponse> {
+  async register(data: RegisterData, context: SessionContext = {}): Promise<RegisterResult> {
     // Check if email already exists
     const emailExists = await authRepository.emailExists(data.email);
     if (emailExists) {
@@ -45,21 +64,40 @@ export class AuthService {
     // Get default role for new users
     const defaultRole = await authRepository.getDefaultRole();
 
+    // Self-registered accounts start unverified when email verification is on
+    const requireVerification = env.FEATURE_EMAIL_VERIFICATION;
+
     // Create user
     const user = await authRepository.createUser(
       {
         ...data,
         password: hashedPassword,
       },
-      defaultRole.id
+      defaultRole.id,
+      { emailVerified: !requireVerification }
     );
 
-    // Generate tokens
-    const tokens = this.generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role.name,
-    });
+    if (requireVerification) {
+      await this.sendVerificationEmail(user);
+
+      loggers.auth('user_registered', user.id, true, {
+        email: user.email,
+        role: user.role.name,
+        emailVerificationRequired: true,
+      });
+
+      return { user: this.toSafeUser(user), emailVerificationRequired: true };
+    }
+
+    // Start a new session
+    const tokens = await this.issueTokens(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role.name,
+      },
+      context
+    );
 
     // Log successful registration
     loggers.auth('user_registered', user.id, true, {
@@ -67,21 +105,18 @@ export class AuthService {
       role: user.role.name,
     });
 
-    // Return user without password
-    const { password: _, ...userWithoutPassword } = user;
-
-    return {
-      user: userWithoutPassword,
-      tokens,
-    };
+    return this.buildAuthResponse(user, tokens);
   }
 
   /**
    * Login user
+   * When the user has two-factor authentication enabled, no session is started:
+   * a short-lived challenge token is returned for the second step (loginTwoFactor).
    * @param data - Login credentials
-   * @returns Auth response with user and tokens
+   * @param context - Client information for the new session
+   * @returns Auth response with user and tokens, or a two-factor challenge
    */
-  async login(data: LoginData): Promise<AuthResponse> {
+  async login(data: LoginData, context: SessionContext = {}): Promise<LoginResult> {
     // Find user by email
     const user = await authRepository.findActiveUserByEmail(data.email);
 
@@ -89,9 +124,16 @@ export class AuthService {
       loggers.security('Login attempt with non-existent email', 'medium', {
         email: data.email,
       });
+      await this.recordLoginAttempt(
+        { email: data.email, success: false, failureReason: LoginFailureReason.UNKNOWN_EMAIL },
+        context
+      );
       throw ApiError.unauthorized('Invalid email or password');
     }
 
+    // Locked accounts are rejected before the password is checked
+    await this.ensureNotLocked(user, context);
+
     // Verify password
     const isPasswordValid = await this.verifyPassword(data.password, user.password);
 
@@ -100,6 +142,7 @@ export class AuthService {
         email: data.email,
         userId: user.id,
       });
+      await this.registerFailedLogin(user, LoginFailureReason.INVALID_PASSWORD, context);
       throw ApiError.unauthorized('Invalid email or password');
     }
 
@@ -109,98 +152,209 @@ export class AuthService {
         email: data.email,
         userId: user.id,
       });
+      await this.recordLoginAttempt(
+        {
+          userId: user.id,
+          email: user.email,
+          success: false,
+          failureReason: LoginFailureReason.ACCOUNT_INACTIVE,
+        },
+        context
+      );
       throw ApiError.forbidden('Account is inactive. Please contact support');
     }
 
-    // Generate tokens
-    const tokens = this.generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: user.role.name,
-    });
+    // Check email verification
+    if (env.FEATURE_EMAIL_VERIFICATION && !user.emailVerified) {
+      await this.recordLoginAttempt(
+        {
+          userId: user.id,
+          email: user.email,
+          success: false,
+          failureReason: LoginFailureReason.EMAIL_NOT_VERIFIED,
+        },
+        context
+      );
+      throw ApiError.forbidden(
+        'Email address is not verified. Check your inbox or request a new verification link'
+      ).withCode(ErrorCode.EMAIL_NOT_VERIFIED);
+    }
 
-    // Update last login
-    await authRepository.updateLastLogin(user.id);
+    // Second step required: password is correct but no session yet
+    if (twoFactorService.isFeatureEnabled() && user.twoFactorEnabled) {
+      const challengeToken = jwt.sign(
+        { userId: user.id, type: TWO_FACTOR_CHALLENGE_TYPE },
+        this.jwtSecret,
+        { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN }
+      );
 
-    // Log successful login
-    loggers.auth('user_login', user.id, true, {
-      email: user.email,
-      role: user.role.name,
+      loggers.auth('two_factor_challenge_issued', user.id, true, {
+        email: user.email,
+      });
+
+      return {
+        twoFactorRequired: true,
+        challengeToken,
+        expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+      };
+    }
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Complete a two-step login
+   * @param data - Challenge token and TOTP code or recovery code
+   * @param context - Client information for the new session
+   * @returns Auth response with user and tokens
+   */
+  async loginTwoFactor(
+    data: LoginTwoFactorData,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> {
+    let userId: string;
+
+    try {
+      const decoded = jwt.verify(data.challengeToken, this.jwtSecret) as {
+        userId: string;
+        type?: string;
+      };
+
+      if (decoded.type !== TWO_FACTOR_CHALLENGE_TYPE) {
+        throw new Error('Wrong token type');
+      }
+
+      userId = decoded.userId;
+    } catch {
+      throw ApiError.unauthorized('Invalid or expired two-factor challenge. Please login again');
+    }
+
+    const user = await authRepository.findUserById(userId);
+
+    if (!user || !user.isActive || user.deletedAt || !user.twoFactorEnabled) {
+      throw ApiError.unauthorized('Invalid or expired two-factor challenge. Please login again');
+    }
+
+    await this.ensureNotLocked(user, context);
+
+    const isValid = await twoFactorService.verifyLoginFactor(user, {
+      code: data.code,
+      recoveryCode: data.recoveryCode,
     });
 
-    // Return user without password
-    const { password: _, ...userWithoutPassword } = user;
+    if (!isValid) {
+      loggers.security('Login attempt with invalid two-factor code', 'medium', {
+        userId: user.id,
+        email: user.email,
+        method: data.recoveryCode ? 'recovery_code' : 'totp',
+        ipAddress: context.ipAddress,
+      });
+      await this.registerFailedLogin(user, LoginFailureReason.INVALID_TWO_FACTOR, context);
+      throw ApiError.unauthorized('Invalid two-factor code');
+    }
 
-    return {
-      user: userWithoutPassword,
-      tokens,
-    };
+    return this.startSession(user, context, { twoFactor: true });
   }
 
   /**
    * Refresh access token
+   * Rotates the refresh token: the presented token is revoked and replaced by a
+   * new one in the same family. Presenting an already rotated token is treated
+   * as theft and revokes the whole family.
    * @param refreshToken - Refresh token
+   * @param context - Client information for the rotated token
    * @returns New tokens
    */
-  async refreshToken(refreshToken: string): Promise<AuthTokens> {
-    try {
-      // Verify refresh token
-      const decoded = this.verifyToken(refreshToken) as JwtPayload;
+  async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const stored = await authRepository.findRefreshTokenByHash(this.hashToken(refreshToken));
+
+    if (!stored) {
+      loggers.security('Invalid refresh token attempt', 'medium', {
+        ipAddress: context.ipAddress,
+      });
+      throw ApiError.unauthorized('Invalid or expired refresh token');
+    }
 
-      // Find user
-      const user = await authRepository.findUserById(decoded.userId);
+    if (stored.revokedAt) {
+      // A rotated or revoked token came back: assume it was stolen
+      return this.rejectReusedRefreshToken(stored.userId, stored.familyId, context);
+    }
 
-      if (!user) {
-        loggers.security('Refresh token used for non-existent user', 'high', {
-          userId: decoded.userId,
-        });
-        throw ApiError.unauthorized('Invalid refresh token');
-      }
+    if (stored.expiresAt <= new Date()) {
+      await authRepository.revokeRefreshTokenFamily(stored.familyId);
+      throw ApiError.unauthorized('Invalid or expired refresh token');
+    }
 
-      if (!user.isActive) {
-        loggers.security('Refresh token used for inactive user', 'medium', {
-          userId: user.id,
-          email: user.email,
-        });
-        throw ApiError.forbidden('Account is inactive');
-      }
+    const { user } = stored;
 
-      // Generate new tokens
-      const tokens = this.generateTokens({
+    if (!user.isActive || user.deletedAt) {
+      await authRepository.revokeRefreshTokenFamily(stored.familyId);
+
+      loggers.security('Refresh token used for inactive user', 'medium', {
         userId: user.id,
         email: user.email,
-        role: user.role.name,
       });
+      throw ApiError.forbidden('Account is inactive');
+    }
 
-      loggers.auth('token_refreshed', user.id, true, {
+    const tokens = await this.issueTokens(
+      {
+        userId: user.id,
         email: user.email,
-      });
+        role: user.role.name,
+      },
+      context,
+      { familyId: stored.familyId, previousTokenId: stored.id }
+    );
 
-      return tokens;
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
+    loggers.auth('token_refreshed', user.id, true, {
+      email: user.email,
+      familyId: stored.familyId,
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Logout user from the current session
+   * Revokes the refresh token family of the session. The session is taken from
+   * the given refresh token, or from the access token when none is sent.
+   * @param userId - User ID
+   * @param sessionId - Session (token family) of the access token
+   * @param refreshToken - Refresh token of the session to close
+   */
+  async logout(userId: string, sessionId?: string, refreshToken?: string): Promise<void> {
+    let familyId = sessionId;
+
+    if (refreshToken) {
+      const stored = await authRepository.findRefreshTokenByHash(this.hashToken(refreshToken));
+
+      if (!stored || stored.userId !== userId) {
+        throw ApiError.unauthorized('Invalid refresh token');
       }
 
-      loggers.security('Invalid refresh token attempt', 'medium', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+      familyId = stored.familyId;
+    }
 
-      throw ApiError.unauthorized('Invalid or expired refresh token');
+    if (familyId) {
+      await authRepository.revokeRefreshTokenFamily(familyId);
     }
+
+    loggers.auth('user_logout', userId, true, { familyId });
   }
 
   /**
-   * Logout user
-   * Invalidates refresh token
+   * Logout user from every session
+   * Revokes all refresh tokens of the user
    * @param userId - User ID
+   * @returns Number of revoked tokens
    */
-  async logout(userId: string): Promise<void> {
-    // In a production app with refresh token storage,
-    // we would invalidate the refresh token here
-    await authRepository.updateRefreshToken(userId, null);
+  async logoutAll(userId: string): Promise<number> {
+    const revoked = await authRepository.revokeAllRefreshTokens(userId);
+
+    loggers.auth('user_logout_all', userId, true, { revokedTokens: revoked });
 
-    loggers.auth('user_logout', userId, true, {});
+    return revoked;
   }
 
   /**
@@ -230,8 +384,9 @@ export class AuthService {
     // Hash new password
     const hashedPassword = await this.hashPassword(data.newPassword);
 
-    // Update password
+    // Update password and close every session
     await authRepository.updatePassword(userId, hashedPassword);
+    await authRepository.revokeAllRefreshTokens(userId);
 
     loggers.auth('password_changed', userId, true, {
       email: user.email,
@@ -259,12 +414,30 @@ export class AuthService {
       throw ApiError.forbidden('Account is inactive');
     }
 
-    // Return user without password
-    const { password: _, ...profile } = user;
+    // Return user without password or two-factor secrets
+    const {
+      password: _password,
+      twoFactorSecret: _secret,
+      twoFactorLastUsedStep: _step,
+      ...profile
+    } = user;
 
     return profile as UserProfile;
   }
 
+  /**
+   * Get the login history of a user
+   * @param userId - User ID
+   * @param options - Filters and pagination
+   * @returns Paginated login attempts, newest first
+   */
+  async getLoginHistory(
+    userId: string,
+    options: LoginHistoryOptions = {}
+  ): Promise<PaginatedLoginHistory> {
+    return authRepository.findLoginAttempts(userId, options);
+  }
+
   /**
    * Validate token
    * @param token - JWT token
@@ -278,6 +451,203 @@ export class AuthService {
     }
   }
 
+  /**
+   * Start a session after the user has been authenticated
+   * @param user - Authenticated user
+   * @param context - Client information for the new session
+   * @param details - Extra login log details
+   * @returns Auth response with user and tokens
+   */
+  private async startSession(
+    user: UserWithRole,
+    context: SessionContext,
+    details: Record<string, unknown> = {}
+  ): Promise<AuthResponse> {
+    const tokens = await this.issueTokens(
+      {
+        userId: user.id,
+        email: user.email,
+        role: user.role.name,
+      },
+      context
+    );
+
+    // Update last login and clear failed attempts
+    await authRepository.updateLastLogin(user.id);
+    await authRepository.resetFailedLogins(user.id);
+    await this.recordLoginAttempt({ userId: user.id, email: user.email, success: true }, context);
+
+    // Log successful login
+    loggers.auth('user_login', user.id, true, {
+      email: user.email,
+      role: user.role.name,
+      ...details,
+    });
+
+    return this.buildAuthResponse(user, tokens);
+  }
+
+  /**
+   * Reject the login while the account is locked
+   * @param user - User trying to login
+   * @param context - Client information
+   */
+  private async ensureNotLocked(user: UserWithRole, context: SessionContext): Promise<void> {
+    if (!user.lockedUntil || user.lockedUntil <= new Date()) {
+      return;
+    }
+
+    await this.recordLoginAttempt(
+      {
+        userId: user.id,
+        email: user.email,
+        success: false,
+        failureReason: LoginFailureReason.ACCOUNT_LOCKED,
+      },
+      context
+    );
+
+    const minutes = Math.ceil((user.lockedUntil.getTime() - Date.now()) / 60000);
+    throw ApiError.tooManyRequests(
+      `Account temporarily locked due to failed login attempts. Try again in ${minutes} minute(s)`
+    );
+  }
+
+  /**
+   * Count a failed login and lock the account once the limit is reached
+   * Every failure past the limit doubles the lockout (exponential backoff)
+   * @param user - User whose login failed
+   * @param reason - Failure reason
+   * @param context - Client information
+   */
+  private async registerFailedLogin(
+    user: UserWithRole,
+    reason: LoginFailureReason,
+    context: SessionContext
+  ): Promise<void> {
+    await this.recordLoginAttempt(
+      { userId: user.id, email: user.email, success: false, failureReason: reason },
+      context
+    );
+
+    const failedAttempts = await authRepository.incrementFailedLogins(user.id);
+    const overLimit = failedAttempts - env.LOGIN_MAX_FAILED_ATTEMPTS;
+
+    if (overLimit < 0) {
+      return;
+    }
+
+    const lockoutMinutes = Math.min(
+      env.LOGIN_LOCKOUT_BASE_MINUTES * 2 ** overLimit,
+      env.LOGIN_LOCKOUT_MAX_MINUTES
+    );
+    const lockedUntil = new Date(Date.now() + lockoutMinutes * 60 * 1000);
+
+    await authRepository.lockUser(user.id, lockedUntil);
+
+    loggers.security('Account locked after failed login attempts', 'high', {
+      userId: user.id,
+      email: user.email,
+      failedAttempts,
+      lockoutMinutes,
+      lockedUntil,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+  }
+
+  /**
+   * Store a login attempt in the login history
+   * @param data - Attempt details without client information
+   * @param context - Client information
+   */
+  private async recordLoginAttempt(
+    data: Omit<LoginAttemptData, 'ipAddress' | 'userAgent'>,
+    context: SessionContext
+  ): Promise<void> {
+    await authRepository.createLoginAttempt({
+      ...data,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+  }
+
+  /**
+   * Ensure the email verification feature flag is on
+   */
+  private ensureEmailVerificationEnabled(): void {
+    if (!env.FEATURE_EMAIL_VERIFICATION) {
+      throw ApiError.notFound('Email verification is not enabled');
+    }
+  }
+
+  /**
+   * Store a hashed verification token and email the link
+   * Delivery errors are only logged; the user can request a new link
+   * @param user - Unverified user
+   */
+  private async sendVerificationEmail(user: UserWithRole): Promise<void> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresInHours = env.EMAIL_VERIFICATION_EXPIRES_HOURS;
+
+    await authRepository.createEmailVerificationToken(
+      user.id,
+      this.hashToken(token),
+      new Date(Date.now() + expiresInHours * 60 * 60 * 1000)
+    );
+
+    try {
+      await mailService.sendEmailVerification({
+        to: user.email,
+        firstName: user.firstName,
+        token,
+        expiresInHours,
+      });
+    } catch (error) {
+      logger.error('Failed to send verification email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    loggers.auth('email_verification_sent', user.id, true, { email: user.email });
+  }
+
+  /**
+   * Build the auth response without sensitive user fields
+   * Flags users whose role requires 2FA but have not enabled it yet
+   * @param user - User with role
+   * @param tokens - Session tokens
+   */
+  private buildAuthResponse(user: UserWithRole, tokens: AuthTokens): AuthResponse {
+    const response: AuthResponse = { user: this.toSafeUser(user), tokens };
+
+    if (
+      twoFactorService.isFeatureEnabled() &&
+      user.role.requireTwoFactor &&
+      !user.twoFactorEnabled
+    ) {
+      response.twoFactorSetupRequired = true;
+    }
+
+    return response;
+  }
+
+  /**
+   * Remove password and two-factor secrets from a user
+   * @param user - User with role
+   */
+  private toSafeUser(user: UserWithRole): AuthResponse['user'] {
+    const {
+      password: _password,
+      twoFactorSecret: _secret,
+      twoFactorLastUsedStep: _step,
+      ...safeUser
+    } = user;
+
+    return safeUser;
+  }
+
   /**
    * Hash password using bcrypt
    * @param password - Plain text password
@@ -298,17 +668,44 @@ export class AuthService {
   }
 
   /**
-   * Generate access and refresh tokens
-   * @param payload - Token payload
+   * Issue an access token and a persisted refresh token
+   * Starts a new token family unless one is given; when rotating, the previous
+   * token is revoked in the same transaction.
+   * @param payload - Access token payload
+   * @param context - Client information stored with the refresh token
+   * @param rotation - Family and token being rotated
    * @returns Auth tokens
    */
-  private generateTokens(payload: Omit<JwtPayload, 'iat' | 'exp'>): AuthTokens {
-    const accessToken = jwt.sign(payload as object, this.jwtSecret, {
-      expiresIn: this.jwtExpiresIn,
-    } as jwt.SignOptions);
+  private async issueTokens(
+    payload: Omit<JwtPayload, 'iat' | 'exp' | 'sessionId'>,
+    context: SessionContext,
+    rotation?: { familyId: string; previousTokenId: string }
+  ): Promise<AuthTokens> {
+    const familyId = rotation?.familyId || crypto.randomUUID();
+    const refreshToken = crypto.randomBytes(48).toString('hex');
+
+    const tokenData = {
+      userId: payload.userId,
+      tokenHash: this.hashToken(refreshToken),
+      familyId,
+      expiresAt: new Date(Date.now() + this.parseDuration(this.jwtRefreshExpiresIn)),
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+    };
+
+    if (rotation) {
+      const replacement = await authRepository.rotateRefreshToken(rotation.previousTokenId, tokenData);
 
-    const refreshToken = jwt.sign(payload as object, this.jwtSecret, {
-      expiresIn: this.jwtRefreshExpiresIn,
+      if (!replacement) {
+        // Another request rotated the same token first
+        return this.rejectReusedRefreshToken(payload.userId, familyId, context);
+      }
+    } else {
+      await authRepository.createRefreshToken(tokenData);
+    }
+
+    const accessToken = jwt.sign({ ...payload, sessionId: familyId }, this.jwtSecret, {
+      expiresIn: this.jwtExpiresIn,
     } as jwt.SignOptions);
 
     return {
@@ -317,6 +714,60 @@ export class AuthService {
     };
   }
 
+  /**
+   * Revoke the family of a reused refresh token and reject the request
+   * @param userId - Owner of the token
+   * @param familyId - Token family ID
+   * @param context - Client information
+   */
+  private async rejectReusedRefreshToken(
+    userId: string,
+    familyId: string,
+    context: SessionContext
+  ): Promise<never> {
+    const revoked = await authRepository.revokeRefreshTokenFamily(familyId);
+
+    loggers.security('Refresh token reuse detected, session revoked', 'high', {
+      userId,
+      familyId,
+      revokedTokens: revoked,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+    throw ApiError.unauthorized('Invalid or expired refresh token');
+  }
+
+  /**
+   * Hash a refresh token for storage
+   * @param token - Plain refresh token
+   * @returns SHA-256 hex digest
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Convert a duration like "7d" or "12h" to milliseconds
+   * @param duration - Duration string (s, m, h or d suffix)
+   * @returns Milliseconds
+   */
+  private parseDuration(duration: string): number {
+    const match = /^(\d+)([smhd])$/.exec(duration.trim());
+
+    if (!match) {
+      throw ApiError.internal(`Invalid duration format: ${duration}`);
+    }
+
+    const units: Record<string, number> = {
+      s: 1000,
+      m: 60 * 1000,
+      h: 60 * 60 * 1000,
+      d: 24 * 60 * 60 * 1000,
+    };
+
+    return Number(match[1]) * (units[match[2] as string] as number);
+  }
+
   /**
    * Verify JWT token
    * @param token - JWT token
@@ -337,80 +788,123 @@ export class AuthService {
   }
 
   /**
-   * Generate password reset token
+   * Verify an email address with the token sent by email
+   * @param token - Verification token
+   */
+  async verifyEmail(token: string): Promise<void> {
+    this.ensureEmailVerificationEnabled();
+
+    const userId = await authRepository.consumeEmailVerificationToken(this.hashToken(token));
+
+    if (!userId) {
+      loggers.security('Invalid email verification token', 'low', {});
+      throw ApiError.badRequest('Invalid or expired verification token');
+    }
+
+    loggers.auth('email_verified', userId, true);
+  }
+
+  /**
+   * Send a new verification link
+   * Unknown or already verified emails are ignored silently to prevent email enumeration
    * @param email - User email
-   * @returns Reset token
    */
-  async generatePasswordResetToken(email: string): Promise<string> {
-    const user = await authRepository.findUserByEmail(email);
+  async resendVerificationEmail(email: string): Promise<void> {
+    this.ensureEmailVerificationEnabled();
+
+    const user = await authRepository.findActiveUserByEmail(email);
+
+    if (!user || user.emailVerified) {
+      loggers.security('Verification email requested for unknown or verified email', 'low', {
+        email,
+      });
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * Request a password reset
+   * Stores a hashed single-use token and emails the reset link
+   * Unknown emails are ignored silently to prevent email enumeration
+   * @param email - User email
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await authRepository.findActiveUserByEmail(email);
 
     if (!user) {
-      // Don't reveal if email exists or not for security
       loggers.security('Password reset requested for non-existent email', 'low', {
         email,
       });
-      // Return a fake token to prevent email enumeration
-      return 'fake-token';
+      return;
     }
 
-    // Generate reset token (valid for 1 hour)
-    const resetToken = jwt.sign(
-      { userId: user.id, email: user.email, type: 'password_reset' },
-      this.jwtSecret,
-      { expiresIn: '1h' }
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresInMinutes = env.PASSWORD_RESET_EXPIRES_MINUTES;
+
+    await authRepository.createPasswordResetToken(
+      user.id,
+      this.hashToken(token),
+      new Date(Date.now() + expiresInMinutes * 60 * 1000)
     );
 
+    try {
+      await mailService.sendPasswordReset({
+        to: user.email,
+        firstName: user.firstName,
+        token,
+        expiresInMinutes,
+      });
+    } catch (error) {
+      // The response must not reveal whether the email exists, so only log
+      logger.error('Failed to send password reset email', {
+        userId: user.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
     loggers.auth('password_reset_requested', user.id, true, {
       email: user.email,
     });
-
-    return resetToken;
   }
 
   /**
-   * Reset password with token
+   * Reset password with a token sent by email
+   * The token is consumed; every session of the user is closed
    * @param token - Reset token
    * @param newPassword - New password
    */
   async resetPassword(token: string, newPassword: string): Promise<void> {
-    try {
-      const decoded = jwt.verify(token, this.jwtSecret) as JwtPayload & { type: string };
-
-      if (decoded.type !== 'password_reset') {
-        throw ApiError.unauthorized('Invalid reset token');
-      }
-
-      const user = await authRepository.findUserById(decoded.userId);
+    const userId = await authRepository.consumePasswordResetToken(this.hashToken(token));
 
-      if (!user) {
-        throw ApiError.notFound('User not found');
-      }
+    if (!userId) {
+      loggers.security('Invalid password reset token', 'medium', {});
+      throw ApiError.unauthorized('Invalid or expired reset token');
+    }
 
-      // Hash new password
-      const hashedPassword = await this.hashPassword(newPassword);
+    const user = await authRepository.findUserById(userId);
 
-      // Update password
-      await authRepository.updatePassword(user.id, hashedPassword);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
 
-      loggers.auth('password_reset', user.id, true, {
-        email: user.email,
-      });
+    // Hash new password
+    const hashedPassword = await this.hashPassword(newPassword);
 
-      loggers.security('Password reset successfully', 'low', {
-        userId: user.id,
-        email: user.email,
-      });
-    } catch (error) {
-      if (error instanceof ApiError) {
-        throw error;
-      }
+    // Update password (invalidates other reset links), close every session and lift any lockout
+    await authRepository.updatePassword(user.id, hashedPassword);
+    await authRepository.revokeAllRefreshTokens(user.id);
+    await authRepository.resetFailedLogins(user.id);
 
-      loggers.security('Invalid password reset token', 'medium', {
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+    loggers.auth('password_reset', user.id, true, {
+      email: user.email,
+    });
 
-      throw ApiError.unauthorized('Invalid or expired reset token');
-    }
+    loggers.security('Password reset successfully', 'low', {
+      userId: user.id,
+      email: user.email,
+    });
   }
 }
 
@@ -0,0 +1,466 @@
+import { catalogRepository } from '@repositories/catalog.repository';
+import { ApiError } from '@utils/ApiError';
+import { parseCie10Csv } from '@utils/catalog';
+import { periodsOverlap, resolveCatalogPrice, selectPriceList } from '@utils/priceList';
+import logger from '@utils/logger';
+import type {
+  CatalogListOptions,
+  Cie10CodeResponse,
+  Cie10CsvParseResult,
+  Cie10ImportResponse,
+  CreateCie10CodeDTO,
+  CreatePriceListDTO,
+  CreatePriceListItemDTO,
+  CreateTreatmentCatalogDTO,
+  PaginatedCatalogResponse,
+  PatientPricesResponse,
+  PriceListItemResponse,
+  PriceListResponse,
+  TreatmentCatalogPriceResponse,
+  TreatmentCatalogResponse,
+  UpdateCie10CodeDTO,
+  UpdatePriceListDTO,
+  UpdateTreatmentCatalogDTO,
+} from '../types/catalog.types';
+
+/**
+ * Catalog Service
+ * Administration and search of the CIE-10 codes used in diagnoses and of the
+ * treatment catalog, with its price history and the price lists applied to
+ * each patient (assigned list, insurer list or default list)
+ */
+export class CatalogService {
+  /**
+   * ============================================
+   * CIE-10 METHODS
+   * ============================================
+   */
+
+  /**
+   * Search CIE-10 codes
+   */
+  async getCie10Codes(options: CatalogListOptions = {}): Promise<PaginatedCatalogResponse<Cie10CodeResponse>> {
+    return catalogRepository.findCie10Codes(options);
+  }
+
+  /**
+   * Get CIE-10 code
+   * @throws ApiError if not found
+   */
+  async getCie10Code(code: string): Promise<Cie10CodeResponse> {
+    const cie10 = await catalogRepository.findCie10Code(code);
+    if (!cie10) {
+      throw ApiError.notFound(`CIE-10 code ${code} not found`);
+    }
+
+    return cie10;
+  }
+
+  /**
+   * Create CIE-10 code
+   * @throws ApiError if the code already exists
+   */
+  async createCie10Code(data: CreateCie10CodeDTO): Promise<Cie10CodeResponse> {
+    const existing = await catalogRepository.findCie10Code(data.code);
+    if (existing) {
+      throw ApiError.conflict(`CIE-10 code ${data.code} already exists`);
+    }
+
+    const cie10 = await catalogRepository.createCie10Code(data);
+
+    logger.info('Created CIE-10 code', { code: cie10.code });
+
+    return cie10;
+  }
+
+  /**
+   * Update CIE-10 code (diagnoses keep the name they were recorded with)
+   * @throws ApiError if not found
+   */
+  async updateCie10Code(code: string, data: UpdateCie10CodeDTO): Promise<Cie10CodeResponse> {
+    await this.getCie10Code(code);
+
+    const cie10 = await catalogRepository.updateCie10Code(code, data);
+
+    logger.info('Updated CIE-10 code', { code });
+
+    return cie10;
+  }
+
+  /**
+   * Delete CIE-10 code
+   * @throws ApiError if not found or already used in a diagnosis
+   */
+  async deleteCie10Code(code: string): Promise<void> {
+    await this.getCie10Code(code);
+
+    const diagnoses = await catalogRepository.countDiagnosesByCie10Code(code);
+    if (diagnoses > 0) {
+      throw ApiError.conflict(`CIE-10 code ${code} is used in ${diagnoses} diagnoses and cannot be deleted`);
+    }
+
+    await catalogRepository.deleteCie10Code(code);
+
+    logger.info('Deleted CIE-10 code', { code });
+  }
+
+  /**
+   * Import the K00–K14 chapter from CSV: new codes are created and existing
+   * ones updated; invalid lines are reported as skipped
+   * @throws ApiError if the file has no code and name columns or no valid line
+   */
+  async importCie10Codes(csv: string): Promise<Cie10ImportResponse> {
+    let parsed: Cie10CsvParseResult;
+    try {
+      parsed = parseCie10Csv(csv);
+    } catch (error) {
+      throw ApiError.badRequest(error instanceof Error ? error.message : 'Invalid CSV file');
+    }
+
+    if (parsed.rows.length === 0) {
+      throw ApiError.badRequest('The CSV has no valid CIE-10 codes', parsed.errors);
+    }
+
+    const { created, updated } = await catalogRepository.importCie10Codes(parsed.rows);
+
+    logger.info('Imported CIE-10 codes', {
+      created,
+      updated,
+      skipped: parsed.errors.length,
+    });
+
+    return { created, updated, skipped: parsed.errors };
+  }
+
+  /**
+   * ============================================
+   * TREATMENT CATALOG METHODS
+   * ============================================
+   */
+
+  /**
+   * Search catalog treatments (active only unless includeInactive)
+   */
+  async getTreatments(
+    options: CatalogListOptions = {}
+  ): Promise<PaginatedCatalogResponse<TreatmentCatalogResponse>> {
+    return catalogRepository.findTreatments(options);
+  }
+
+  /**
+   * Get catalog treatment
+   * @throws ApiError if not found
+   */
+  async getTreatmentById(id: string): Promise<TreatmentCatalogResponse> {
+    const item = await catalogRepository.findTreatmentById(id);
+    if (!item) {
+      throw ApiError.notFound('Treatment catalog item not found');
+    }
+
+    return item;
+  }
+
+  /**
+   * Get a catalog treatment that can be used in new treatments
+   * @throws ApiError if not found or deactivated
+   */
+  async getActiveTreatment(id: string): Promise<TreatmentCatalogResponse> {
+    const item = await this.getTreatmentById(id);
+    if (!item.isActive) {
+      throw ApiError.badRequest(`Treatment catalog item ${item.code} is inactive`);
+    }
+
+    return item;
+  }
+
+  /**
+   * Create catalog treatment
+   * @throws ApiError if the code already exists
+   */
+  async createTreatment(data: CreateTreatmentCatalogDTO, userId: string): Promise<TreatmentCatalogResponse> {
+    const existing = await catalogRepository.findTreatmentByCode(data.code);
+    if (existing) {
+      throw ApiError.conflict(`Treatment catalog code ${data.code} already exists`);
+    }
+
+    const item = await catalogRepository.createTreatment(data, { changedById: userId });
+
+    logger.info('Created treatment catalog item', {
+      catalogId: item.id,
+      code: item.code,
+      baseCost: item.baseCost,
+    });
+
+    return item;
+  }
+
+  /**
+   * Update catalog treatment
+   * Existing treatments keep the cost they were created with; a new price only
+   * applies from now on and is recorded in the price history
+   * @throws ApiError if not found or the new code already exists
+   */
+  async updateTreatment(
+    id: string,
+    data: UpdateTreatmentCatalogDTO,
+    userId: string
+  ): Promise<TreatmentCatalogResponse> {
+    const existing = await this.getTreatmentById(id);
+
+    if (data.code && data.code !== existing.code) {
+      const duplicate = await catalogRepository.findTreatmentByCode(data.code);
+      if (duplicate) {
+        throw ApiError.conflict(`Treatment catalog code ${data.code} already exists`);
+      }
+    }
+
+    const { priceChangeReason, ...changes } = data;
+    const item = await catalogRepository.updateTreatment(id, changes, {
+      changedById: userId,
+      reason: priceChangeReason,
+    });
+
+    logger.info('Updated treatment catalog item', {
+      catalogId: id,
+      code: item.code,
+      ...(item.baseCost !== existing.baseCost && {
+        previousCost: existing.baseCost,
+        baseCost: item.baseCost,
+      }),
+    });
+
+    return item;
+  }
+
+  /**
+   * Deactivate catalog treatment: it is hidden from searches and cannot be used
+   * in new treatments or plans, while past records keep referencing it
+   * @throws ApiError if not found
+   */
+  async deactivateTreatment(id: string, userId: string): Promise<TreatmentCatalogResponse> {
+    await this.getTreatmentById(id);
+
+    const item = await catalogRepository.updateTreatment(id, { isActive: false }, { changedById: userId });
+
+    logger.info('Deactivated treatment catalog item', {
+      catalogId: id,
+      code: item.code,
+    });
+
+    return item;
+  }
+
+  /**
+   * Get the price history of a catalog treatment, newest first
+   * @throws ApiError if not found
+   */
+  async getPriceHistory(id: string): Promise<TreatmentCatalogPriceResponse[]> {
+    await this.getTreatmentById(id);
+
+    return catalogRepository.findPriceHistory(id);
+  }
+
+  /**
+   * ============================================
+   * PRICE LIST METHODS
+   * ============================================
+   */
+
+  /**
+   * Get price lists (active only unless includeInactive)
+   */
+  async getPriceLists(includeInactive = false): Promise<PriceListResponse[]> {
+    return catalogRepository.findPriceLists(includeInactive);
+  }
+
+  /**
+   * Get price list with its prices
+   * @throws ApiError if not found
+   */
+  async getPriceListById(id: string): Promise<PriceListResponse> {
+    const list = await catalogRepository.findPriceListById(id);
+    if (!list) {
+      throw ApiError.notFound('Price list not found');
+    }
+
+    return list;
+  }
+
+  /**
+   * Get a price list that can be assigned to patients
+   * @throws ApiError if not found or deactivated
+   */
+  async getActivePriceList(id: string): Promise<PriceListResponse> {
+    const list = await this.getPriceListById(id);
+    if (!list.isActive) {
+      throw ApiError.badRequest(`Price list ${list.name} is inactive`);
+    }
+
+    return list;
+  }
+
+  /**
+   * Create price list
+   * @throws ApiError if the name already exists
+   */
+  async createPriceList(data: CreatePriceListDTO): Promise<PriceListResponse> {
+    await this.assertUniquePriceListName(data.name);
+
+    const list = await catalogRepository.createPriceList(data);
+
+    logger.info('Created price list', {
+      priceListId: list.id,
+      name: list.name,
+      insuranceProvider: list.insuranceProvider,
+      isDefault: list.isDefault,
+    });
+
+    return list;
+  }
+
+  /**
+   * Update price list
+   * @throws ApiError if not found, the new name already exists or the period is inverted
+   */
+  async updatePriceList(id: string, data: UpdatePriceListDTO): Promise<PriceListResponse> {
+    const existing = await this.getPriceListById(id);
+
+    if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      await this.assertUniquePriceListName(data.name);
+    }
+
+    const validFrom = data.validFrom !== undefined ? data.validFrom : existing.validFrom;
+    const validTo = data.validTo !== undefined ? data.validTo : existing.validTo;
+    if (validFrom && validTo && new Date(validFrom) >= new Date(validTo)) {
+      throw ApiError.badRequest('validTo must be after validFrom');
+    }
+
+    const list = await catalogRepository.updatePriceList(id, data);
+
+    logger.info('Updated price list', { priceListId: id, name: list.name });
+
+    return list;
+  }
+
+  /**
+   * Deactivate price list: its patients fall back to the insurer or default list
+   * @throws ApiError if not found
+   */
+  async deactivatePriceList(id: string): Promise<PriceListResponse> {
+    await this.getPriceListById(id);
+
+    const list = await catalogRepository.updatePriceList(id, { isActive: false, isDefault: false });
+
+    logger.info('Deactivated price list', { priceListId: id, name: list.name });
+
+    return list;
+  }
+
+  /**
+   * Add the price of a catalog item to a list
+   * @throws ApiError if the list or item is not found, or the item already has
+   * a price in the list for part of the period
+   */
+  async addPriceListItem(priceListId: string, data: CreatePriceListItemDTO): Promise<PriceListItemResponse> {
+    await this.getPriceListById(priceListId);
+    const catalogItem = await this.getTreatmentById(data.catalogId);
+
+    const period = {
+      validFrom: data.validFrom ? new Date(data.validFrom) : null,
+      validTo: data.validTo ? new Date(data.validTo) : null,
+    };
+    const existing = await catalogRepository.findPriceListItems(priceListId, data.catalogId);
+    if (existing.some((item) => periodsOverlap(item, period))) {
+      throw ApiError.conflict(`${catalogItem.code} already has a price in this list for that period`);
+    }
+
+    const item = await catalogRepository.createPriceListItem(priceListId, data);
+
+    logger.info('Added price list item', {
+      priceListId,
+      catalogId: data.catalogId,
+      price: item.price,
+    });
+
+    return item;
+  }
+
+  /**
+   * Remove the price of a catalog item from a list
+   * @throws ApiError if not found
+   */
+  async removePriceListItem(priceListId: string, itemId: string): Promise<void> {
+    const item = await catalogRepository.findPriceListItem(priceListId, itemId);
+    if (!item) {
+      throw ApiError.notFound('Price list item not found');
+    }
+
+    await catalogRepository.deletePriceListItem(itemId);
+
+    logger.info('Removed price list item', { priceListId, itemId, catalogId: item.catalogId });
+  }
+
+  /**
+   * Get the prices of catalog items for a patient: the list assigned to the
+   * patient, else the list of their insurer, else the default list; inside the
+   * list, the item price in force or the base cost less the list discount
+   * @throws ApiError if the patient or a catalog item is not found
+   */
+  async getPatientPrices(
+    patientId: string,
+    catalogIds: string[],
+    at: Date = new Date()
+  ): Promise<PatientPricesResponse> {
+    const patient = await catalogRepository.findPatientPricingProfile(patientId);
+    if (!patient) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    const [baseCosts, lists] = await Promise.all([
+      catalogRepository.findBaseCosts(catalogIds),
+      catalogRepository.findActivePriceListsWithItems(catalogIds),
+    ]);
+
+    const missing = catalogIds.filter((id) => !baseCosts.has(id));
+    if (missing.length > 0) {
+      throw ApiError.notFound(`Treatment catalog items not found: ${missing.join(', ')}`);
+    }
+
+    const selected = selectPriceList(patient, lists, at);
+    const priceList = selected
+      ? { discountPercent: selected.priceList.discountPercent, items: selected.priceList.items ?? [] }
+      : null;
+
+    return {
+      priceList: selected ? { id: selected.priceList.id, name: selected.priceList.name } : null,
+      rule: selected?.rule ?? null,
+      prices: catalogIds.map((catalogId) => ({
+        catalogId,
+        ...resolveCatalogPrice(catalogId, baseCosts.get(catalogId)!, priceList, at),
+      })),
+    };
+  }
+
+  /**
+   * Get the price of a catalog item for a patient
+   * @throws ApiError if the patient or catalog item is not found
+   */
+  async getPatientPrice(patientId: string, catalogId: string): Promise<number> {
+    const { prices } = await this.getPatientPrices(patientId, [catalogId]);
+    return prices[0]!.price;
+  }
+
+  /**
+   * @throws ApiError if a list with the name already exists
+   */
+  private async assertUniquePriceListName(name: string): Promise<void> {
+    const duplicate = await catalogRepository.findPriceListByName(name);
+    if (duplicate) {
+      throw ApiError.conflict(`Price list ${name} already exists`);
+    }
+  }
+}
+
+const catalogService = new CatalogService();
+export { catalogService };
+export default catalogService;
@@ -0,0 +1,347 @@
+import { env } from '@config/env';
+import { consentRepository } from '@repositories/consent.repository';
+import { ApiError } from '@utils/ApiError';
+import { computeConsentHash, renderConsentContent } from '@utils/consent';
+import logger from '@utils/logger';
+import { getRequestContext } from '@utils/requestContext';
+import type {
+  ConsentTemplateResponse,
+  ConsentPreviewResponse,
+  ConsentVerificationResponse,
+  PatientConsentResponse,
+  PatientConsentDetailResponse,
+  CreateConsentTemplateDTO,
+  UpdateConsentTemplateDTO,
+  PreviewConsentQueryDTO,
+  SignConsentDTO,
+} from '../types/consent.types';
+
+/**
+ * Format a date as DD/MM/YYYY (UTC)
+ */
+const formatDate = (date: Date): string => {
+  const iso = date.toISOString();
+  return `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}`;
+};
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+/**
+ * Consent Service
+ * Informed consent templates per procedure category, signing and the rules
+ * that require a signed consent before approving plans and starting treatments
+ */
+export class ConsentService {
+  /**
+   * ============================================
+   * TEMPLATE METHODS
+   * ============================================
+   */
+
+  /**
+   * Get templates (active only unless includeInactive)
+   */
+  async getTemplates(includeInactive = false): Promise<ConsentTemplateResponse[]> {
+    return consentRepository.findTemplates(includeInactive);
+  }
+
+  /**
+   * Get template by ID
+   * @throws ApiError if not found
+   */
+  async getTemplateById(id: string): Promise<ConsentTemplateResponse> {
+    const template = await consentRepository.findTemplateById(id);
+    if (!template) {
+      throw ApiError.notFound('Consent template not found');
+    }
+
+    return template;
+  }
+
+  /**
+   * Create template
+   * @throws ApiError if the category already has a template
+   */
+  async createTemplate(data: CreateConsentTemplateDTO): Promise<ConsentTemplateResponse> {
+    const existing = await consentRepository.findTemplateByCategory(data.category);
+    if (existing) {
+      throw ApiError.conflict(`Category ${data.category} already has a consent template`);
+    }
+
+    const template = await consentRepository.createTemplate(data);
+
+    logger.info('Created consent template', {
+      templateId: template.id,
+      category: template.category,
+    });
+
+    return template;
+  }
+
+  /**
+   * Update template (signed consents keep the text they were signed with)
+   * @throws ApiError if not found
+   */
+  async updateTemplate(id: string, data: UpdateConsentTemplateDTO): Promise<ConsentTemplateResponse> {
+    await this.getTemplateById(id);
+
+    const template = await consentRepository.updateTemplate(id, data);
+
+    logger.info('Updated consent template', {
+      templateId: id,
+      category: template.category,
+    });
+
+    return template;
+  }
+
+  /**
+   * ============================================
+   * CONSENT METHODS
+   * ============================================
+   */
+
+  /**
+   * Document to be signed, filled with patient and procedure data
+   */
+  async previewConsent(patientId: string, query: PreviewConsentQueryDTO): Promise<ConsentPreviewResponse> {
+    return this.buildDocument(patientId, query, new Date());
+  }
+
+  /**
+   * Sign a consent: the filled document, typed name and drawn signature are
+   * stored with a timestamp and a hash of the whole
+   */
+  async signConsent(
+    patientId: string,
+    collectedById: string,
+    data: SignConsentDTO
+  ): Promise<PatientConsentResponse> {
+    const signedAt = new Date();
+    const document = await this.buildDocument(patientId, data, signedAt);
+    const context = getRequestContext();
+
+    const signed = {
+      patientId,
+      templateId: document.templateId,
+      category: document.category,
+      treatmentPlanId: document.treatmentPlanId,
+      treatmentId: document.treatmentId,
+      title: document.title,
+      content: document.content,
+      signedName: data.signedName,
+      signatureImage: data.signatureImage,
+      signedAt,
+      collectedById,
+    };
+
+    const consent = await consentRepository.create({
+      ...signed,
+      ipAddress: context?.ipAddress ?? null,
+      userAgent: context?.userAgent ?? null,
+      documentHash: computeConsentHash(signed),
+    });
+
+    logger.info('Signed consent', {
+      consentId: consent.id,
+      patientId,
+      category: consent.category,
+      treatmentPlanId: consent.treatmentPlanId,
+      treatmentId: consent.treatmentId,
+    });
+
+    return consent;
+  }
+
+  /**
+   * Get signed consents of a patient
+   */
+  async getPatientConsents(patientId: string): Promise<PatientConsentResponse[]> {
+    return consentRepository.findByPatientId(patientId);
+  }
+
+  /**
+   * Get signed consent with its document and signature
+   * @throws ApiError if not found
+   */
+  async getConsentById(id: string): Promise<PatientConsentDetailResponse> {
+    const consent = await consentRepository.findById(id);
+    if (!consent) {
+      throw ApiError.notFound('Consent not found');
+    }
+
+    return consent;
+  }
+
+  /**
+   * Recompute the hash of a signed consent and compare it with the stored one
+   * @throws ApiError if not found
+   */
+  async verifyConsent(id: string): Promise<ConsentVerificationResponse> {
+    const consent = await this.getConsentById(id);
+    const computedHash = computeConsentHash(consent);
+
+    return {
+      id,
+      valid: computedHash === consent.documentHash,
+      documentHash: consent.documentHash,
+      computedHash,
+    };
+  }
+
+  /**
+   * ============================================
+   * REQUIREMENT METHODS
+   * ============================================
+   */
+
+  /**
+   * A treatment of a category that requires consent can only start once the
+   * patient signed it, for the treatment itself or for the plan it comes from
+   * @throws ApiError if the consent is missing
+   */
+  async assertCanStartTreatment(treatmentId: string): Promise<void> {
+    const treatment = await consentRepository.findTreatment(treatmentId);
+    if (!treatment) {
+      throw ApiError.notFound('Treatment not found');
+    }
+
+    const category = treatment.catalog.category;
+    const required = await consentRepository.findRequiredTemplates([category]);
+    if (required.length === 0) {
+      return;
+    }
+
+    const treatmentPlanId = treatment.planItem?.treatmentPlanId;
+    const signed = [
+      ...(await consentRepository.findSignedCategories({ treatmentId })),
+      ...(treatmentPlanId ? await consentRepository.findSignedCategories({ treatmentPlanId }) : []),
+    ];
+
+    if (!signed.includes(category)) {
+      throw ApiError.conflict(`A signed consent for ${category} is required before starting this treatment`);
+    }
+  }
+
+  /**
+   * A new treatment of a category that requires consent cannot be created
+   * already started: it must be planned first and consented
+   * @throws ApiError if the category requires consent
+   */
+  async assertCanCreateStarted(catalogId: string): Promise<void> {
+    const category = await consentRepository.findCatalogCategory(catalogId);
+    if (!category) {
+      return;
+    }
+
+    const required = await consentRepository.findRequiredTemplates([category]);
+    if (required.length > 0) {
+      throw ApiError.conflict(
+        `A signed consent for ${category} is required: create the treatment as PLANNED and collect it first`
+      );
+    }
+  }
+
+  /**
+   * A plan can only be approved once the patient signed the consent of every
+   * category in it that requires one
+   * @throws ApiError listing the missing categories
+   */
+  async assertTreatmentPlanConsents(treatmentPlanId: string, categories: string[]): Promise<void> {
+    const required = await consentRepository.findRequiredTemplates(unique(categories));
+    if (required.length === 0) {
+      return;
+    }
+
+    const signed = await consentRepository.findSignedCategories({ treatmentPlanId });
+    const missing = required.map((template) => template.category).filter((category) => !signed.includes(category));
+
+    if (missing.length > 0) {
+      throw ApiError.conflict(`Signed consent required before approving the plan: ${missing.join(', ')}`);
+    }
+  }
+
+  /**
+   * ============================================
+   * DOCUMENT METHODS
+   * ============================================
+   */
+
+  /**
+   * Fill the active template of a category with the patient and the procedures
+   * of the treatment or plan (only plan items of that category)
+   * @throws ApiError if the template, patient, treatment or plan is not valid for the consent
+   */
+  private async buildDocument(
+    patientId: string,
+    target: PreviewConsentQueryDTO,
+    date: Date
+  ): Promise<ConsentPreviewResponse> {
+    const template = await consentRepository.findTemplateByCategory(target.category);
+    if (!template || !template.isActive) {
+      throw ApiError.notFound(`No active consent template for category ${target.category}`);
+    }
+
+    const patient = await consentRepository.findPatient(patientId);
+    if (!patient) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    let procedures: string[] = [target.category];
+    let teeth: string[] = [];
+    let doctor: { firstName: string; lastName: string } | null = null;
+
+    if (target.treatmentId) {
+      const treatment = await consentRepository.findTreatment(target.treatmentId);
+      if (!treatment || treatment.patientId !== patientId) {
+        throw ApiError.notFound('Treatment not found');
+      }
+      if (treatment.catalog.category !== target.category) {
+        throw ApiError.badRequest(`Treatment is not in category ${target.category}`);
+      }
+
+      procedures = [treatment.catalog.name];
+      teeth = treatment.toothNumber ? [treatment.toothNumber] : [];
+      doctor = treatment.doctor;
+    }
+
+    if (target.treatmentPlanId) {
+      const plan = await consentRepository.findTreatmentPlan(target.treatmentPlanId);
+      if (!plan || plan.patientId !== patientId) {
+        throw ApiError.notFound('Treatment plan not found');
+      }
+
+      const items = plan.items.filter((item) => item.catalog.category === target.category);
+      if (items.length === 0) {
+        throw ApiError.badRequest(`Treatment plan has no procedures in category ${target.category}`);
+      }
+
+      procedures = unique(items.map((item) => item.catalog.name));
+      teeth = unique(items.flatMap((item) => (item.toothNumber ? [item.toothNumber] : []))).sort();
+      doctor = plan.doctor;
+    }
+
+    const content = renderConsentContent(template.content, {
+      patientName: `${patient.firstName} ${patient.lastName}`,
+      patientIdentification: `${patient.identificationType} ${patient.identification}`,
+      procedures: procedures.join(', '),
+      teeth: teeth.length > 0 ? teeth.join(', ') : 'No aplica',
+      doctorName: doctor ? `${doctor.firstName} ${doctor.lastName}` : 'el profesional tratante',
+      date: formatDate(date),
+      clinicName: env.CLINIC_NAME,
+    });
+
+    return {
+      templateId: template.id,
+      category: template.category,
+      title: template.title,
+      content,
+      treatmentPlanId: target.treatmentPlanId ?? null,
+      treatmentId: target.treatmentId ?? null,
+    };
+  }
+}
+
+const consentService = new ConsentService();
+export { consentService };
+export default consentService;
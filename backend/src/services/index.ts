@@ -7,6 +7,18 @@ export * from './auth.service';
 export * from './patient.service';
 export * from './appointment.service';
 export * from './odontogram.service';
-// export * from './user.service';
+export * from './periodontogram.service';
+export * from './role.service';
+export * from './user.service';
+export * from './schedule.service';
+export * from './two-factor.service';
+export * from './mail.service';
+export * from './audit.service';
+export * from './consent.service';
+export * from './sri.service';
+export * from './catalog.service';
+export * from './insurance.service';
+export * from './notification.service';
+export * from './reminder.service';
 // export * from './treatment.service';
 // export * from './invoice.service';
@@ -0,0 +1,631 @@
+import { ClaimStatus, TransactionType, TreatmentStatus } from '@prisma/client';
+import { insuranceRepository } from '@repositories/insurance.repository';
+import { accountingRepository } from '@repositories/accounting.repository';
+import { ApiError } from '@utils/ApiError';
+import {
+  allocateClaimPayment,
+  calculateCoverage,
+  canTransitionClaim,
+  findCoverageRule,
+  PAYABLE_CLAIM_STATUSES,
+} from '@utils/insurance';
+import logger from '@utils/logger';
+import type {
+  ApproveClaimDTO,
+  ClaimItemInput,
+  ClaimListOptions,
+  ClaimPaymentResponse,
+  ClaimResponse,
+  CoverageEstimateResponse,
+  CoverageSplit,
+  CoverageUsage,
+  CreateClaimDTO,
+  CreateClaimPaymentDTO,
+  CreateInsurancePlanDTO,
+  CreateInsurerDTO,
+  InsurancePlanResponse,
+  InsurerResponse,
+  PaginatedClaimResponse,
+  SubmitClaimDTO,
+  UpdateInsurancePlanDTO,
+  UpdateInsurerDTO,
+} from '../types/insurance.types';
+
+type PatientCoverage = NonNullable<Awaited<ReturnType<typeof insuranceRepository.findPatientCoverage>>>;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Insurance Service
+ * Insurers and their plans, the split of treatment costs between insurer and
+ * patient, and the claims sent to insurers with their remittances
+ */
+export class InsuranceService {
+  /**
+   * ============================================
+   * INSURER METHODS
+   * ============================================
+   */
+
+  /**
+   * Get insurers (active only unless includeInactive)
+   */
+  async getInsurers(includeInactive = false): Promise<InsurerResponse[]> {
+    return insuranceRepository.findInsurers(includeInactive);
+  }
+
+  /**
+   * Get insurer with its plans
+   * @throws ApiError if not found
+   */
+  async getInsurerById(id: string): Promise<InsurerResponse> {
+    const insurer = await insuranceRepository.findInsurerById(id);
+    if (!insurer) {
+      throw ApiError.notFound('Insurer not found');
+    }
+
+    return insurer;
+  }
+
+  /**
+   * Create insurer
+   * @throws ApiError if the name already exists
+   */
+  async createInsurer(data: CreateInsurerDTO): Promise<InsurerResponse> {
+    await this.assertUniqueInsurerName(data.name);
+
+    const insurer = await insuranceRepository.createInsurer(data);
+
+    logger.info('Created insurer', { insurerId: insurer.id, name: insurer.name });
+
+    return insurer;
+  }
+
+  /**
+   * Update insurer
+   * @throws ApiError if not found or the new name already exists
+   */
+  async updateInsurer(id: string, data: UpdateInsurerDTO): Promise<InsurerResponse> {
+    const existing = await this.getInsurerById(id);
+
+    if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      await this.assertUniqueInsurerName(data.name);
+    }
+
+    const insurer = await insuranceRepository.updateInsurer(id, data);
+
+    logger.info('Updated insurer', { insurerId: id, name: insurer.name });
+
+    return insurer;
+  }
+
+  /**
+   * Deactivate insurer: its plans cannot be assigned or claimed anymore,
+   * while open claims can still be resolved and paid
+   * @throws ApiError if not found
+   */
+  async deactivateInsurer(id: string): Promise<InsurerResponse> {
+    await this.getInsurerById(id);
+
+    const insurer = await insuranceRepository.updateInsurer(id, { isActive: false });
+
+    logger.info('Deactivated insurer', { insurerId: id, name: insurer.name });
+
+    return insurer;
+  }
+
+  /**
+   * ============================================
+   * PLAN METHODS
+   * ============================================
+   */
+
+  /**
+   * Get plan with its coverage rules
+   * @throws ApiError if not found
+   */
+  async getPlanById(id: string): Promise<InsurancePlanResponse> {
+    const plan = await insuranceRepository.findPlanById(id);
+    if (!plan) {
+      throw ApiError.notFound('Insurance plan not found');
+    }
+
+    return plan;
+  }
+
+  /**
+   * Get a plan that can be assigned to patients
+   * @throws ApiError if not found, or the plan or its insurer is inactive
+   */
+  async getActivePlan(id: string): Promise<InsurancePlanResponse> {
+    const plan = await this.getPlanById(id);
+
+    if (!plan.isActive || !plan.insurer?.isActive) {
+      throw ApiError.badRequest(`Insurance plan ${plan.insurer?.name} - ${plan.name} is inactive`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Create plan of an insurer
+   * @throws ApiError if the insurer is not found or already has a plan with the name
+   */
+  async createPlan(insurerId: string, data: CreateInsurancePlanDTO): Promise<InsurancePlanResponse> {
+    await this.getInsurerById(insurerId);
+
+    const duplicate = await insuranceRepository.findPlanByName(insurerId, data.name);
+    if (duplicate) {
+      throw ApiError.conflict(`Insurance plan ${data.name} already exists`);
+    }
+
+    const plan = await insuranceRepository.createPlan(insurerId, data);
+
+    logger.info('Created insurance plan', {
+      planId: plan.id,
+      insurerId,
+      name: plan.name,
+      rules: plan.rules.length,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Update plan; new rules apply to estimates and claims created from now on
+   * @throws ApiError if not found or the new name already exists
+   */
+  async updatePlan(id: string, data: UpdateInsurancePlanDTO): Promise<InsurancePlanResponse> {
+    const existing = await this.getPlanById(id);
+
+    if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      const duplicate = await insuranceRepository.findPlanByName(existing.insurerId, data.name);
+      if (duplicate) {
+        throw ApiError.conflict(`Insurance plan ${data.name} already exists`);
+      }
+    }
+
+    const plan = await insuranceRepository.updatePlan(id, data);
+
+    logger.info('Updated insurance plan', { planId: id, name: plan.name });
+
+    return plan;
+  }
+
+  /**
+   * ============================================
+   * COVERAGE METHODS
+   * ============================================
+   */
+
+  /**
+   * Estimate the insurer portion of a treatment cost with the patient's plan
+   * @returns 0 when the patient has no active plan
+   */
+  async estimateInsurerPortion(
+    patientId: string,
+    category: string,
+    cost: number,
+    serviceDate: Date = new Date(),
+    excludeTreatmentIds: string[] = []
+  ): Promise<number> {
+    const coverage = await insuranceRepository.findPatientCoverage(patientId);
+    if (!coverage || !this.hasActivePlan(coverage)) {
+      return 0;
+    }
+
+    const usage = await insuranceRepository.findYearUsage(
+      patientId,
+      coverage.insurancePlan!.id,
+      serviceDate.getFullYear(),
+      excludeTreatmentIds
+    );
+
+    return this.splitCost(coverage, category, cost, serviceDate, usage).insurerPortion;
+  }
+
+  /**
+   * Verify the cost of a treatment can still change
+   * @throws ApiError if the treatment belongs to a claim that was not denied
+   */
+  async assertCanRepriceTreatment(treatmentId: string): Promise<void> {
+    if (await insuranceRepository.hasActiveClaim(treatmentId)) {
+      throw ApiError.conflict('Cannot change cost or catalog of a treatment with an insurance claim');
+    }
+  }
+
+  /**
+   * Get the split of a treatment cost between insurer and patient
+   * @throws ApiError if the treatment is not found
+   */
+  async getTreatmentCoverage(treatmentId: string): Promise<CoverageEstimateResponse> {
+    const [treatment] = await insuranceRepository.findTreatmentsForClaim([treatmentId]);
+    if (!treatment) {
+      throw ApiError.notFound('Treatment not found');
+    }
+
+    const cost = Number(treatment.cost);
+    const coverage = await insuranceRepository.findPatientCoverage(treatment.patientId);
+
+    if (!coverage || !this.hasActivePlan(coverage)) {
+      return {
+        treatmentId,
+        planId: null,
+        cost,
+        requiresPreauthorization: false,
+        coveragePercent: 0,
+        deductibleApplied: 0,
+        insurerPortion: 0,
+        patientPortion: cost,
+        limitedBy: 'NOT_COVERED',
+      };
+    }
+
+    const plan = coverage.insurancePlan!;
+    const serviceDate = treatment.completedDate ?? treatment.plannedDate ?? new Date();
+    const usage = await insuranceRepository.findYearUsage(
+      treatment.patientId,
+      plan.id,
+      serviceDate.getFullYear(),
+      [treatmentId]
+    );
+
+    return {
+      treatmentId,
+      planId: plan.id,
+      cost,
+      requiresPreauthorization: findCoverageRule(plan.rules, treatment.catalog.category)?.requiresPreauthorization ?? false,
+      ...this.splitCost(coverage, treatment.catalog.category, cost, serviceDate, usage),
+    };
+  }
+
+  /**
+   * ============================================
+   * CLAIM METHODS
+   * ============================================
+   */
+
+  /**
+   * Get claims with filters and pagination
+   */
+  async getClaims(options: ClaimListOptions = {}): Promise<PaginatedClaimResponse> {
+    return insuranceRepository.findClaims(options);
+  }
+
+  /**
+   * Get claim with its items and payments
+   * @throws ApiError if not found
+   */
+  async getClaimById(id: string): Promise<ClaimResponse> {
+    const claim = await insuranceRepository.findClaimById(id);
+    if (!claim) {
+      throw ApiError.notFound('Insurance claim not found');
+    }
+
+    return claim;
+  }
+
+  /**
+   * Create a draft claim from completed treatments of an insured patient
+   * Each treatment is claimed for its insurer portion, which also becomes the
+   * treatment's insurer portion; the deductible and annual maximum are shared
+   * by the treatments of the claim
+   * @throws ApiError if the patient has no active plan, or a treatment is not
+   * completed, belongs to another patient, is already claimed or is not covered
+   */
+  async createClaim(data: CreateClaimDTO, userId: string): Promise<ClaimResponse> {
+    const coverage = await insuranceRepository.findPatientCoverage(data.patientId);
+    if (!coverage) {
+      throw ApiError.notFound('Patient not found');
+    }
+    if (!this.hasActivePlan(coverage)) {
+      throw ApiError.badRequest('Patient has no active insurance plan');
+    }
+    const plan = coverage.insurancePlan!;
+
+    const treatments = await insuranceRepository.findTreatmentsForClaim(data.treatmentIds);
+
+    const usageByYear = new Map<number, CoverageUsage>();
+    const items: ClaimItemInput[] = [];
+
+    for (const treatmentId of data.treatmentIds) {
+      const treatment = treatments.find((t) => t.id === treatmentId);
+      if (!treatment || treatment.patientId !== data.patientId) {
+        throw ApiError.badRequest(`Treatment ${treatmentId} not found for this patient`);
+      }
+      if (treatment.status !== TreatmentStatus.COMPLETED || !treatment.completedDate) {
+        throw ApiError.badRequest(`Treatment ${treatment.catalog.code} is not completed`);
+      }
+      if (treatment.claimItems.length > 0) {
+        throw ApiError.conflict(`Treatment ${treatment.catalog.code} is already in a claim`);
+      }
+
+      const year = treatment.completedDate.getFullYear();
+      const usage = usageByYear.get(year) ??
+        await insuranceRepository.findYearUsage(data.patientId, plan.id, year, data.treatmentIds);
+
+      const cost = Number(treatment.cost);
+      const split = this.splitCost(coverage, treatment.catalog.category, cost, treatment.completedDate, usage);
+      if (split.insurerPortion <= 0) {
+        throw ApiError.badRequest(
+          `Treatment ${treatment.catalog.code} is not covered by the plan (${split.limitedBy ?? 'NOT_COVERED'})`
+        );
+      }
+
+      usageByYear.set(year, {
+        deductibleUsed: round(usage.deductibleUsed + split.deductibleApplied),
+        benefitsUsed: round(usage.benefitsUsed + split.insurerPortion),
+      });
+      items.push({ treatmentId, cost, ...split });
+    }
+
+    const claim = await insuranceRepository.createClaim(
+      {
+        patientId: data.patientId,
+        insurerId: plan.insurerId,
+        planId: plan.id,
+        preauthorizationNumber: data.preauthorizationNumber,
+        notes: data.notes,
+        createdBy: userId,
+      },
+      items
+    );
+
+    logger.info('Created insurance claim', {
+      claimId: claim.id,
+      patientId: data.patientId,
+      insurerId: plan.insurerId,
+      claimedAmount: claim.claimedAmount,
+    });
+
+    return claim;
+  }
+
+  /**
+   * Submit a draft claim to the insurer
+   * @throws ApiError if the claim is not a draft, or a treatment category of
+   * the plan requires pre-authorization and there is no number
+   */
+  async submitClaim(id: string, data: SubmitClaimDTO): Promise<ClaimResponse> {
+    const claim = await this.getClaimForTransition(id, ClaimStatus.SUBMITTED);
+
+    const preauthorizationNumber = data.preauthorizationNumber ?? claim.preauthorizationNumber;
+    if (!preauthorizationNumber) {
+      const plan = await this.getPlanById(claim.planId);
+      const needsPreauthorization = claim.items!.find(
+        (item) => findCoverageRule(plan.rules, item.treatment.catalog.category)?.requiresPreauthorization
+      );
+      if (needsPreauthorization) {
+        throw ApiError.badRequest(
+          `${needsPreauthorization.treatment.catalog.name} requires a pre-authorization number`
+        );
+      }
+    }
+
+    const submitted = await insuranceRepository.updateClaimStatus(id, claim.status, {
+      status: ClaimStatus.SUBMITTED,
+      submittedAt: new Date(),
+      preauthorizationNumber,
+      insurerReference: data.insurerReference,
+    });
+
+    if (!submitted) {
+      throw ApiError.conflict('Insurance claim changed meanwhile, please reload');
+    }
+
+    logger.info('Submitted insurance claim', { claimId: id, insurerId: claim.insurerId });
+
+    return submitted;
+  }
+
+  /**
+   * Record the approval of a submitted claim
+   * Treatments not listed are approved for their claimed amount; whatever the
+   * insurer does not approve becomes part of the patient portion
+   * @throws ApiError if the claim is not submitted, a treatment is not in the
+   * claim, an amount exceeds the treatment cost or nothing is approved
+   */
+  async approveClaim(id: string, data: ApproveClaimDTO): Promise<ClaimResponse> {
+    const claim = await this.getClaimForTransition(id, ClaimStatus.APPROVED);
+    const items = claim.items!;
+
+    for (const approval of data.items ?? []) {
+      const item = items.find((i) => i.treatmentId === approval.treatmentId);
+      if (!item) {
+        throw ApiError.badRequest(`Treatment ${approval.treatmentId} is not in this claim`);
+      }
+      if (approval.approvedAmount > item.cost) {
+        throw ApiError.badRequest(`Approved amount exceeds the cost of ${item.treatment.catalog.name}`);
+      }
+    }
+
+    const approvals = items.map((item) => ({
+      itemId: item.id,
+      treatmentId: item.treatmentId,
+      approvedAmount:
+        data.items?.find((approval) => approval.treatmentId === item.treatmentId)?.approvedAmount ??
+        item.claimedAmount,
+    }));
+
+    if (approvals.every((approval) => approval.approvedAmount <= 0)) {
+      throw ApiError.badRequest('Nothing was approved, deny the claim instead');
+    }
+
+    const approved = await insuranceRepository.resolveClaim(id, approvals, {
+      status: ClaimStatus.APPROVED,
+      insurerReference: data.insurerReference,
+    });
+
+    if (!approved) {
+      throw ApiError.conflict('Insurance claim changed meanwhile, please reload');
+    }
+
+    logger.info('Approved insurance claim', {
+      claimId: id,
+      claimedAmount: approved.claimedAmount,
+      approvedAmount: approved.approvedAmount,
+    });
+
+    return approved;
+  }
+
+  /**
+   * Record the denial of a submitted claim: the whole cost of its treatments
+   * goes back to the patient
+   * @throws ApiError if the claim is not submitted
+   */
+  async denyClaim(id: string, reason: string): Promise<ClaimResponse> {
+    const claim = await this.getClaimForTransition(id, ClaimStatus.DENIED);
+
+    const denied = await insuranceRepository.resolveClaim(
+      id,
+      claim.items!.map((item) => ({ itemId: item.id, treatmentId: item.treatmentId, approvedAmount: 0 })),
+      { status: ClaimStatus.DENIED, denialReason: reason }
+    );
+
+    if (!denied) {
+      throw ApiError.conflict('Insurance claim changed meanwhile, please reload');
+    }
+
+    logger.info('Denied insurance claim', { claimId: id, reason });
+
+    return denied;
+  }
+
+  /**
+   * Post a remittance of the insurer on an approved claim
+   * It is applied to the treatments in order, reducing their balance like a
+   * patient payment, and recorded as income
+   * @throws ApiError if the claim does not accept payments or the amount
+   * exceeds what is pending
+   */
+  async createClaimPayment(
+    id: string,
+    data: CreateClaimPaymentDTO,
+    userId: string
+  ): Promise<ClaimPaymentResponse> {
+    const claim = await this.getClaimById(id);
+
+    if (!PAYABLE_CLAIM_STATUSES.includes(claim.status)) {
+      throw ApiError.conflict(`Cannot record payments on a claim in ${claim.status} status`);
+    }
+
+    const pending = round((claim.approvedAmount ?? 0) - claim.paidAmount);
+    if (data.amount > pending) {
+      throw ApiError.badRequest(`Amount exceeds the pending claim amount of ${pending.toFixed(2)}`);
+    }
+
+    const allocations = allocateClaimPayment(
+      data.amount,
+      claim.items!.map((item) => ({
+        id: item.id,
+        treatmentId: item.treatmentId,
+        approvedAmount: item.approvedAmount ?? 0,
+        paidAmount: item.paidAmount,
+      }))
+    );
+
+    const payment = await insuranceRepository.createClaimPayment(id, { ...data, createdBy: userId }, allocations);
+    if (!payment) {
+      throw ApiError.conflict('Insurance claim changed while recording the payment, please reload');
+    }
+
+    await accountingRepository.createTransaction({
+      type: TransactionType.INCOME,
+      amount: data.amount,
+      description: `Insurance payment: ${claim.insurer.name}${data.reference ? ` (${data.reference})` : ''}`,
+      category: 'Insurance Payment',
+      paymentMethod: data.paymentMethod,
+      patientId: claim.patientId,
+      createdBy: userId,
+      date: data.date,
+    });
+
+    logger.info('Recorded insurance claim payment', {
+      claimId: id,
+      paymentId: payment.id,
+      amount: data.amount,
+    });
+
+    return payment;
+  }
+
+  /**
+   * Delete a draft claim; its treatments can be claimed again
+   * @throws ApiError if not found or no longer a draft
+   */
+  async deleteClaim(id: string): Promise<void> {
+    const claim = await this.getClaimById(id);
+    if (claim.status !== ClaimStatus.DRAFT) {
+      throw ApiError.conflict(`Cannot delete a claim in ${claim.status} status`);
+    }
+
+    const deleted = await insuranceRepository.deleteDraftClaim(id);
+    if (!deleted) {
+      throw ApiError.conflict('Insurance claim changed meanwhile, please reload');
+    }
+
+    logger.info('Deleted insurance claim', { claimId: id });
+  }
+
+  /**
+   * @throws ApiError if the claim is not found or cannot move to the status
+   */
+  private async getClaimForTransition(id: string, to: ClaimStatus): Promise<ClaimResponse> {
+    const claim = await this.getClaimById(id);
+
+    if (!canTransitionClaim(claim.status, to)) {
+      throw ApiError.conflict(`Cannot change a claim from ${claim.status} to ${to}`);
+    }
+
+    return claim;
+  }
+
+  /**
+   * Check whether the patient is insured with an active plan of an active insurer
+   */
+  private hasActivePlan(coverage: PatientCoverage): boolean {
+    const plan = coverage.insurancePlan;
+    return coverage.hasInsurance && !!plan?.isActive && !!plan.insurer?.isActive;
+  }
+
+  /**
+   * Split a cost with the plan rule of the treatment category
+   */
+  private splitCost(
+    coverage: PatientCoverage,
+    category: string,
+    cost: number,
+    serviceDate: Date,
+    usage: CoverageUsage
+  ): CoverageSplit {
+    const plan = coverage.insurancePlan!;
+    const rule = findCoverageRule(plan.rules, category);
+
+    return calculateCoverage({
+      cost,
+      coveragePercent: rule?.coveragePercent ?? plan.defaultCoveragePercent,
+      waitingPeriodDays: rule?.waitingPeriodDays ?? 0,
+      coverageStart: coverage.insuranceStartDate,
+      serviceDate,
+      deductible: plan.deductible,
+      deductibleUsed: usage.deductibleUsed,
+      annualMaximum: plan.annualMaximum,
+      benefitsUsed: usage.benefitsUsed,
+    });
+  }
+
+  /**
+   * @throws ApiError if an insurer with the name already exists
+   */
+  private async assertUniqueInsurerName(name: string): Promise<void> {
+    const duplicate = await insuranceRepository.findInsurerByName(name);
+    if (duplicate) {
+      throw ApiError.conflict(`Insurer ${name} already exists`);
+    }
+  }
+}
+
+const insuranceService = new InsuranceService();
+export { insuranceService };
+export default insuranceService;
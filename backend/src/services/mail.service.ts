@@ -0,0 +1,243 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { env } from '@config/env';
+import logger from '@utils/logger';
+import type {
+  MailMessage,
+  MailTransport,
+  OutgoingMail,
+  PasswordResetMailData,
+  EmailVerificationMailData,
+} from '../types/mail.types';
+
+const DEFAULT_FROM = 'Soldent <noreply@soldent.com>';
+
+/**
+ * Escape text interpolated into HTML emails
+ */
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * ============================================
+ * TRANSPORTS
+ * ============================================
+ */
+
+/**
+ * SMTP transport (EMAIL_HOST, EMAIL_PORT, EMAIL_SECURE, EMAIL_USER, EMAIL_PASSWORD)
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor() {
+    if (!env.EMAIL_HOST) {
+      throw new Error('EMAIL_HOST is required when MAIL_TRANSPORT=smtp');
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: env.EMAIL_HOST,
+      port: env.EMAIL_PORT ?? 587,
+      secure: env.EMAIL_SECURE ?? false,
+      auth: env.EMAIL_USER
+        ? { user: env.EMAIL_USER, pass: env.EMAIL_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await this.transporter.sendMail(mail);
+  }
+}
+
+/**
+ * File transport for development
+ * Writes each message as an .eml file and logs where it was written
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string = env.MAIL_FILE_PATH) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    const filePath = path.join(this.directory, fileName);
+
+    const content = [
+      `From: ${mail.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${mail.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      mail.text,
+    ].join('\r\n');
+
+    await fs.writeFile(filePath, content, 'utf8');
+
+    logger.info('Email written to file', {
+      to: mail.to,
+      subject: mail.subject,
+      file: filePath,
+    });
+  }
+}
+
+/**
+ * In-memory transport for tests
+ * Keeps every sent message so tests can assert on them
+ */
+export class InMemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly messages: OutgoingMail[] = [];
+
+  async send(mail: OutgoingMail): Promise<void> {
+    this.messages.push(mail);
+  }
+
+  /**
+   * Last message sent to an address
+   */
+  lastTo(to: string): OutgoingMail | undefined {
+    return [...this.messages].reverse().find((mail) => mail.to === to);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT
+ */
+export const createMailTransport = (): MailTransport => {
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'memory':
+      return new InMemoryMailTransport();
+    case 'file':
+    default:
+      return new FileMailTransport();
+  }
+};
+
+/**
+ * ============================================
+ * SERVICE
+ * ============================================
+ */
+
+/**
+ * Mail Service
+ * Builds application emails and hands them to the configured transport
+ */
+export class MailService {
+  private transport: MailTransport | null = null;
+
+  /**
+   * Replace the transport (tests use InMemoryMailTransport)
+   * @param transport - Transport to use from now on
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get the current transport, creating it on first use
+   */
+  getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createMailTransport();
+    }
+
+    return this.transport;
+  }
+
+  /**
+   * Send an email
+   * @param message - Recipient, subject and body
+   */
+  async send(message: MailMessage): Promise<void> {
+    const transport = this.getTransport();
+
+    await transport.send({ from: env.EMAIL_FROM || DEFAULT_FROM, ...message });
+
+    logger.info('Email sent', {
+      transport: transport.name,
+      to: message.to,
+      subject: message.subject,
+    });
+  }
+
+  /**
+   * Send the password reset link
+   * @param data - Recipient, name, token and validity
+   */
+  async sendPasswordReset(data: PasswordResetMailData): Promise<void> {
+    const link = `${env.FRONTEND_URL}/reset-password?token=${encodeURIComponent(data.token)}`;
+
+    await this.send({
+      to: data.to,
+      subject: 'Restablecer contraseña - Soldent',
+      text: [
+        `Hola ${data.firstName},`,
+        '',
+        'Recibimos una solicitud para restablecer la contraseña de tu cuenta.',
+        `Abre el siguiente enlace para elegir una nueva contraseña (válido por ${data.expiresInMinutes} minutos):`,
+        '',
+        link,
+        '',
+        'El enlace solo puede usarse una vez. Si no solicitaste el cambio, ignora este mensaje.',
+      ].join('\n'),
+      html: [
+        `<p>Hola ${escapeHtml(data.firstName)},</p>`,
+        '<p>Recibimos una solicitud para restablecer la contraseña de tu cuenta.</p>',
+        `<p><a href="${link}">Restablecer contraseña</a> (válido por ${data.expiresInMinutes} minutos)</p>`,
+        '<p>El enlace solo puede usarse una vez. Si no solicitaste el cambio, ignora este mensaje.</p>',
+      ].join('\n'),
+    });
+  }
+
+  /**
+   * Send the email verification link
+   * @param data - Recipient, name, token and validity
+   */
+  async sendEmailVerification(data: EmailVerificationMailData): Promise<void> {
+    const link = `${env.FRONTEND_URL}/verify-email?token=${encodeURIComponent(data.token)}`;
+
+    await this.send({
+      to: data.to,
+      subject: 'Confirma tu email - Soldent',
+      text: [
+        `Hola ${data.firstName},`,
+        '',
+        'Gracias por registrarte en Soldent. Confirma tu dirección de email abriendo el siguiente enlace',
+        `(válido por ${data.expiresInHours} horas):`,
+        '',
+        link,
+        '',
+        'Si no creaste esta cuenta, ignora este mensaje.',
+      ].join('\n'),
+      html: [
+        `<p>Hola ${escapeHtml(data.firstName)},</p>`,
+        '<p>Gracias por registrarte en Soldent. Confirma tu dirección de email:</p>',
+        `<p><a href="${link}">Confirmar email</a> (válido por ${data.expiresInHours} horas)</p>`,
+        '<p>Si no creaste esta cuenta, ignora este mensaje.</p>',
+      ].join('\n'),
+    });
+  }
+}
+
+// Export singleton instance
+export const mailService = new MailService();
+export default mailService;
@@ -1,11 +1,24 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { env } from '@config/env';
 import { ApiError } from '@utils/ApiError';
 import logger from '@utils/logger';
 import { medicalRepository } from '@repositories/medical.repository';
+import { auditService } from '@services/audit.service';
+import { odontogramService } from '@services/odontogram.service';
+import { accountingService } from '@services/accounting.service';
+import { consentService } from '@services/consent.service';
+import { catalogService } from '@services/catalog.service';
+import { insuranceService } from '@services/insurance.service';
+import { calculateLineTotal, calculateQuoteTotals, canTransitionTreatmentPlan } from '@utils/treatmentPlan';
+import { renderTreatmentPlanQuotePdf } from '@utils/treatmentPlanQuote';
 import type {
   MedicalHistoryResponse,
   DiagnosisResponse,
   TreatmentResponse,
   TreatmentPlanResponse,
+  ApprovedTreatmentPlanResponse,
+  ApprovalPaymentPlan,
   CompleteMedicalHistoryResponse,
   CreateMedicalHistoryDTO,
   UpdateMedicalHistoryDTO,
@@ -14,8 +27,19 @@ import type {
   UpdateTreatmentDTO,
   CreateTreatmentPlanDTO,
   UpdateTreatmentPlanDTO,
+  ApproveTreatmentPlanDTO,
+  RejectTreatmentPlanDTO,
+  TreatmentPlanPhaseDTO,
+  PricedTreatmentPlanPhase,
+  TreatmentPlanQuote,
+  TreatmentPlanQuoteFile,
 } from '../types/medical.types';
-import { TreatmentStatus } from '@prisma/client';
+import { PatientAccessResource, TreatmentPlanStatus, TreatmentStatus } from '@prisma/client';
+
+/**
+ * Directory under UPLOAD_PATH where treatment plan quotes are stored
+ */
+const QUOTES_DIRECTORY = 'treatment-plans';
 
 /**
  * Medical Service
@@ -256,18 +280,31 @@ export class MedicalService {
       }
     }
 
-    // Verify treatment catalog exists
-    const catalogExists = await medicalRepository.treatmentCatalogExists(data.catalogId);
-    if (!catalogExists) {
-      throw ApiError.notFound('Treatment catalog item not found');
+    // Verify treatment catalog exists and is active
+    const catalog = await catalogService.getActiveTreatment(data.catalogId);
+
+    // Procedures that require informed consent cannot start before it is signed
+    if (data.status === TreatmentStatus.IN_PROGRESS) {
+      await consentService.assertCanCreateStarted(data.catalogId);
     }
 
+    // Without an explicit cost, use the price of the patient's price list
+    const cost = data.cost ?? await catalogService.getPatientPrice(patientId, data.catalogId);
+
     // Validate payment
-    if (data.paid && data.paid > data.cost) {
+    if (data.paid && data.paid > cost) {
       throw ApiError.badRequest('Paid amount cannot exceed total cost');
     }
 
-    const treatment = await medicalRepository.createTreatment(patientId, doctorId, data);
+    // Part of the cost expected from the patient's insurance plan
+    const insurerPortion = await insuranceService.estimateInsurerPortion(
+      patientId,
+      catalog.category,
+      cost,
+      data.plannedDate ? new Date(data.plannedDate) : undefined
+    );
+
+    const treatment = await medicalRepository.createTreatment(patientId, doctorId, { ...data, cost, insurerPortion });
 
     logger.info('Created treatment', {
       treatmentId: treatment.id,
@@ -277,6 +314,11 @@ export class MedicalService {
       diagnosisId: data.diagnosisId,
     });
 
+    if (treatment.status === TreatmentStatus.COMPLETED) {
+      const odontogramProposal = await odontogramService.proposeFromCompletedTreatment(treatment);
+      return { ...treatment, odontogramProposal };
+    }
+
     return treatment;
   }
 
@@ -305,12 +347,16 @@ export class MedicalService {
       }
     }
 
-    // Verify treatment catalog if being updated
-    if (data.catalogId) {
-      const catalogExists = await medicalRepository.treatmentCatalogExists(data.catalogId);
-      if (!catalogExists) {
-        throw ApiError.notFound('Treatment catalog item not found');
-      }
+    // Verify treatment catalog if being changed
+    const catalogChanged = !!data.catalogId && data.catalogId !== existing.catalogId;
+    const catalog = catalogChanged
+      ? await catalogService.getActiveTreatment(data.catalogId!)
+      : existing.catalog;
+
+    // A claimed treatment keeps the cost the insurer was billed
+    const costChanged = data.cost !== undefined && data.cost !== Number(existing.cost);
+    if (catalogChanged || costChanged) {
+      await insuranceService.assertCanRepriceTreatment(id);
     }
 
     // Validate payment if being updated
@@ -320,18 +366,41 @@ export class MedicalService {
       throw ApiError.badRequest('Paid amount cannot exceed total cost');
     }
 
+    // Procedures that require informed consent cannot start before it is signed
+    if (data.status === TreatmentStatus.IN_PROGRESS && existing.status !== TreatmentStatus.IN_PROGRESS) {
+      await consentService.assertCanStartTreatment(id);
+    }
+
     // Auto-set completed date when status changes to COMPLETED
     if (data.status === TreatmentStatus.COMPLETED && !data.completedDate && !existing.completedDate) {
       data.completedDate = new Date().toISOString();
     }
 
-    const treatment = await medicalRepository.updateTreatment(id, data);
+    // Re-estimate the insurer portion when the priced procedure changes
+    let insurerPortion: number | undefined;
+    if ((catalogChanged || costChanged) && catalog) {
+      insurerPortion = await insuranceService.estimateInsurerPortion(
+        existing.patientId,
+        catalog.category,
+        Number(newCost),
+        existing.completedDate ?? existing.plannedDate ?? undefined,
+        [id]
+      );
+    }
+
+    const treatment = await medicalRepository.updateTreatment(id, { ...data, insurerPortion });
 
     logger.info('Updated treatment', {
       treatmentId: id,
       patientId: treatment.patientId,
     });
 
+    // Completing a treatment proposes the matching change to the patient's chart
+    if (treatment.status === TreatmentStatus.COMPLETED && existing.status !== TreatmentStatus.COMPLETED) {
+      const odontogramProposal = await odontogramService.proposeFromCompletedTreatment(treatment);
+      return { ...treatment, odontogramProposal };
+    }
+
     return treatment;
   }
 
@@ -395,9 +464,11 @@ export class MedicalService {
 
   /**
    * Create treatment plan
+   * Item prices default to the catalog base cost; the total is computed
    */
   async createTreatmentPlan(
     patientId: string,
+    doctorId: string,
     data: CreateTreatmentPlanDTO
   ): Promise<TreatmentPlanResponse> {
     // Verify patient exists
@@ -406,7 +477,10 @@ export class MedicalService {
       throw ApiError.notFound('Patient not found');
     }
 
-    const plan = await medicalRepository.createTreatmentPlan(patientId, data);
+    const { phases, ...planData } = data;
+    const pricedPhases = await this.priceTreatmentPlanPhases(patientId, phases);
+
+    const plan = await medicalRepository.createTreatmentPlan(patientId, doctorId, planData, pricedPhases);
 
     logger.info('Created treatment plan', {
       planId: plan.id,
@@ -414,11 +488,12 @@ export class MedicalService {
       totalCost: plan.totalCost,
     });
 
-    return plan;
+    return this.refreshTreatmentPlanQuote(plan);
   }
 
   /**
    * Update treatment plan
+   * @throws ApiError if the plan is not a draft
    */
   async updateTreatmentPlan(
     id: string,
@@ -430,16 +505,292 @@ export class MedicalService {
       throw ApiError.notFound('Treatment plan not found');
     }
 
-    const plan = await medicalRepository.updateTreatmentPlan(id, data);
+    if (existing.status !== TreatmentPlanStatus.DRAFT) {
+      throw ApiError.conflict('Only draft treatment plans can be modified');
+    }
+
+    const { phases, ...planData } = data;
+
+    const pricedPhases = phases ? await this.priceTreatmentPlanPhases(existing.patientId, phases) : undefined;
+
+    const plan = await medicalRepository.updateTreatmentPlan(id, planData, pricedPhases);
+
+    if (!plan) {
+      throw ApiError.conflict('Treatment plan status changed, please reload');
+    }
 
     logger.info('Updated treatment plan', {
       planId: id,
       patientId: plan.patientId,
     });
 
+    // The quote follows the plan until it is submitted to the patient
+    return this.refreshTreatmentPlanQuote(plan);
+  }
+
+  /**
+   * Submit a draft plan for patient approval
+   * @throws ApiError if the plan is not a draft
+   */
+  async submitTreatmentPlan(id: string): Promise<TreatmentPlanResponse> {
+    const existing = await this.getTreatmentPlanForTransition(id, TreatmentPlanStatus.PENDING_APPROVAL);
+
+    const plan = await medicalRepository.updateTreatmentPlanStatus(id, existing.status, {
+      status: TreatmentPlanStatus.PENDING_APPROVAL,
+      submittedAt: new Date(),
+    });
+
+    if (!plan) {
+      throw ApiError.conflict('Treatment plan status changed, please reload');
+    }
+
+    logger.info('Submitted treatment plan', {
+      planId: id,
+      patientId: plan.patientId,
+    });
+
+    // Final version of the quote, dated on submission
+    return this.refreshTreatmentPlanQuote(plan);
+  }
+
+  /**
+   * Approve a plan pending approval
+   * Creates a PLANNED treatment per item and, if requested, a payment plan for the total,
+   * all in one transaction
+   * @throws ApiError if the plan is not pending approval
+   */
+  async approveTreatmentPlan(
+    id: string,
+    approvedById: string,
+    data: ApproveTreatmentPlanDTO
+  ): Promise<ApprovedTreatmentPlanResponse> {
+    const existing = await this.getTreatmentPlanForTransition(id, TreatmentPlanStatus.APPROVED);
+
+    // Procedures that require informed consent need it signed for this plan
+    const categories = existing.phases.flatMap(phase =>
+      phase.items.flatMap(item => (item.catalog ? [item.catalog.category] : []))
+    );
+    await consentService.assertTreatmentPlanConsents(id, categories);
+
+    // Items cannot change while pending approval, so the total is final
+    let paymentPlan: ApprovalPaymentPlan | undefined;
+
+    if (data.paymentPlan && existing.totalCost > 0) {
+      const paymentPlanData = {
+        patientId: existing.patientId,
+        treatmentPlanId: existing.id,
+        totalAmount: existing.totalCost,
+        totalInstallments: data.paymentPlan.totalInstallments,
+        firstDueDate: data.paymentPlan.firstDueDate,
+        frequency: data.paymentPlan.frequency,
+      };
+
+      paymentPlan = {
+        data: paymentPlanData,
+        installments: accountingService.calculatePaymentPlanInstallments(paymentPlanData),
+      };
+    }
+
+    const result = await medicalRepository.approveTreatmentPlan(id, approvedById, paymentPlan);
+    if (!result) {
+      throw ApiError.conflict('Treatment plan status changed, please reload');
+    }
+
+    const { plan, treatments, paymentPlanId } = result;
+
+    logger.info('Approved treatment plan', {
+      planId: id,
+      patientId: plan.patientId,
+      treatmentsCount: treatments.length,
+      paymentPlanId,
+    });
+
+    return { ...plan, treatments, paymentPlanId };
+  }
+
+  /**
+   * Reject a plan pending approval
+   * @throws ApiError if the plan is not pending approval
+   */
+  async rejectTreatmentPlan(id: string, data: RejectTreatmentPlanDTO): Promise<TreatmentPlanResponse> {
+    const existing = await this.getTreatmentPlanForTransition(id, TreatmentPlanStatus.REJECTED);
+
+    const plan = await medicalRepository.updateTreatmentPlanStatus(id, existing.status, {
+      status: TreatmentPlanStatus.REJECTED,
+      rejectedAt: new Date(),
+      rejectionReason: data.reason,
+    });
+
+    if (!plan) {
+      throw ApiError.conflict('Treatment plan status changed, please reload');
+    }
+
+    logger.info('Rejected treatment plan', {
+      planId: id,
+      patientId: plan.patientId,
+    });
+
     return plan;
   }
 
+  /**
+   * Get the quote PDF of a plan
+   * The stored file is returned; it is generated if missing
+   */
+  async getTreatmentPlanQuote(id: string): Promise<TreatmentPlanQuoteFile> {
+    const plan = await this.getTreatmentPlanById(id);
+    const quote = await this.buildTreatmentPlanQuote(plan);
+
+    let content: Buffer;
+    try {
+      content = await fs.readFile(this.getQuotePath(id));
+    } catch {
+      content = await this.writeTreatmentPlanQuote(quote);
+    }
+
+    return {
+      content,
+      contentType: 'application/pdf',
+      filename: `presupuesto-${quote.patient.identification}-${quote.plan.id.slice(0, 8)}.pdf`,
+    };
+  }
+
+  /**
+   * Regenerate the quote PDF and set pdfUrl
+   * A failure is logged and the plan is returned unchanged
+   */
+  private async refreshTreatmentPlanQuote(plan: TreatmentPlanResponse): Promise<TreatmentPlanResponse> {
+    try {
+      const quote = await this.buildTreatmentPlanQuote(plan);
+      await this.writeTreatmentPlanQuote(quote);
+
+      return { ...plan, pdfUrl: this.getQuoteUrl(plan.id) };
+    } catch (error) {
+      logger.error('Error generating treatment plan quote', { planId: plan.id, error });
+      return plan;
+    }
+  }
+
+  /**
+   * Collect the data shown on a quote
+   * @throws ApiError if the patient does not exist
+   */
+  private async buildTreatmentPlanQuote(plan: TreatmentPlanResponse): Promise<TreatmentPlanQuote> {
+    const { patient, doctor } = await medicalRepository.findTreatmentPlanQuoteParties(
+      plan.patientId,
+      plan.doctorId
+    );
+    if (!patient) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    const issuedAt = plan.submittedAt ?? new Date();
+    const validUntil = new Date(issuedAt);
+    validUntil.setDate(validUntil.getDate() + env.QUOTE_VALIDITY_DAYS);
+
+    return {
+      plan,
+      patient,
+      doctor,
+      clinic: {
+        name: env.CLINIC_NAME,
+        ruc: env.CLINIC_RUC,
+        address: env.CLINIC_ADDRESS,
+        phone: env.CLINIC_PHONE,
+        email: env.CLINIC_EMAIL,
+      },
+      totals: calculateQuoteTotals(plan.phases.flatMap(phase => phase.items), {
+        rate: env.TAX_RATE,
+        appliesToServices: env.TAX_APPLIES_TO_SERVICES,
+      }),
+      currency: env.CURRENCY,
+      issuedAt,
+      validUntil,
+    };
+  }
+
+  /**
+   * Render a quote and store it under UPLOAD_PATH, pointing pdfUrl to it
+   */
+  private async writeTreatmentPlanQuote(quote: TreatmentPlanQuote): Promise<Buffer> {
+    const content = await renderTreatmentPlanQuotePdf(quote);
+    const filePath = this.getQuotePath(quote.plan.id);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    await medicalRepository.setTreatmentPlanPdfUrl(quote.plan.id, this.getQuoteUrl(quote.plan.id));
+
+    logger.info('Generated treatment plan quote', {
+      planId: quote.plan.id,
+      filePath,
+    });
+
+    return content;
+  }
+
+  private getQuotePath(planId: string): string {
+    return path.join(env.UPLOAD_PATH, QUOTES_DIRECTORY, `${planId}.pdf`);
+  }
+
+  private getQuoteUrl(planId: string): string {
+    return `${env.API_PREFIX}/${env.API_VERSION}/medical/treatment-plans/${planId}/quote`;
+  }
+
+  /**
+   * Get a plan and check it can move to the given status
+   * @throws ApiError if not found or the transition is not allowed
+   */
+  private async getTreatmentPlanForTransition(
+    id: string,
+    to: TreatmentPlanStatus
+  ): Promise<TreatmentPlanResponse> {
+    const plan = await medicalRepository.findTreatmentPlanById(id);
+    if (!plan) {
+      throw ApiError.notFound('Treatment plan not found');
+    }
+
+    if (!canTransitionTreatmentPlan(plan.status, to)) {
+      throw ApiError.conflict(`Cannot change treatment plan status from ${plan.status} to ${to}`);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Resolve item prices from the patient's price list and compute line totals
+   * @throws ApiError if a catalog item does not exist or is inactive, or a discount exceeds its line
+   */
+  private async priceTreatmentPlanPhases(
+    patientId: string,
+    phases: TreatmentPlanPhaseDTO[]
+  ): Promise<PricedTreatmentPlanPhase[]> {
+    const catalogIds = [...new Set(phases.flatMap(phase => phase.items.map(item => item.catalogId)))];
+    const catalogItems = await medicalRepository.findActiveCatalogItemsByIds(catalogIds);
+    const catalogMap = new Map(catalogItems.map(item => [item.id, item]));
+
+    const missing = catalogIds.find(id => !catalogMap.has(id));
+    if (missing) {
+      throw ApiError.badRequest(`Treatment catalog item ${missing} not found or inactive`);
+    }
+
+    const { prices } = await catalogService.getPatientPrices(patientId, catalogIds);
+    const priceMap = new Map(prices.map(price => [price.catalogId, price.price]));
+
+    return phases.map(phase => ({
+      ...phase,
+      items: phase.items.map(item => {
+        const catalog = catalogMap.get(item.catalogId)!;
+
+        const unitPrice = item.unitPrice ?? priceMap.get(item.catalogId)!;
+        if (item.discount > item.quantity * unitPrice) {
+          throw ApiError.badRequest(`Discount exceeds line subtotal for ${catalog.name}`);
+        }
+
+        return { ...item, unitPrice, total: calculateLineTotal(item.quantity, unitPrice, item.discount) };
+      }),
+    }));
+  }
+
   /**
    * ============================================
    * COMPLETE HISTORY METHOD
@@ -449,6 +800,7 @@ export class MedicalService {
   /**
    * Get complete medical history for a patient
    * Includes medical history, diagnoses, treatments, and treatment plans
+   * The read is recorded in the patient access log
    */
   async getCompleteHistory(patientId: string): Promise<CompleteMedicalHistoryResponse> {
     // Verify patient exists
@@ -472,6 +824,8 @@ export class MedicalService {
       plansCount: treatmentPlans.length,
     });
 
+    await auditService.recordPatientAccess(patientId, PatientAccessResource.COMPLETE_HISTORY);
+
     return {
       medicalHistory,
       diagnoses,
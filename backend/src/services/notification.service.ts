@@ -0,0 +1,275 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { ReminderChannel } from '@prisma/client';
+import { env } from '@config/env';
+import logger from '@utils/logger';
+import { normalizePhone } from '@utils/reminder';
+import { mailService } from '@services/mail.service';
+import type {
+  NotificationChannel,
+  NotificationContact,
+  NotificationContent,
+  TextMessage,
+  TextMessageTransport,
+} from '../types/notification.types';
+
+const HTTP_TIMEOUT_MS = 15000;
+const WHATSAPP_API_URL = 'https://graph.facebook.com/v20.0';
+
+/**
+ * ============================================
+ * TRANSPORTS
+ * ============================================
+ */
+
+/**
+ * SMS gateway over HTTP (SMS_API_URL, SMS_API_KEY, SMS_API_SECRET, SMS_SENDER)
+ * Posts { from, to, text } as JSON with basic authentication
+ */
+export class HttpSmsTransport implements TextMessageTransport {
+  readonly name = 'http';
+  private readonly url: string;
+
+  constructor() {
+    if (!env.SMS_API_URL) {
+      throw new Error('SMS_API_URL is required when SMS_TRANSPORT=http');
+    }
+
+    this.url = env.SMS_API_URL;
+  }
+
+  async send(message: TextMessage): Promise<void> {
+    const credentials = Buffer.from(`${env.SMS_API_KEY ?? ''}:${env.SMS_API_SECRET ?? ''}`).toString('base64');
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Basic ${credentials}` },
+      body: JSON.stringify({ from: env.SMS_SENDER, to: message.to, text: message.text }),
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded ${response.status}`);
+    }
+  }
+}
+
+/**
+ * WhatsApp Cloud API (WHATSAPP_API_KEY access token, WHATSAPP_PHONE_NUMBER_ID)
+ */
+export class WhatsAppCloudTransport implements TextMessageTransport {
+  readonly name = 'cloud';
+  private readonly phoneNumberId: string;
+  private readonly token: string;
+
+  constructor() {
+    if (!env.WHATSAPP_API_KEY || !env.WHATSAPP_PHONE_NUMBER_ID) {
+      throw new Error('WHATSAPP_API_KEY and WHATSAPP_PHONE_NUMBER_ID are required when WHATSAPP_TRANSPORT=cloud');
+    }
+
+    this.phoneNumberId = env.WHATSAPP_PHONE_NUMBER_ID;
+    this.token = env.WHATSAPP_API_KEY;
+  }
+
+  async send(message: TextMessage): Promise<void> {
+    const response = await fetch(`${WHATSAPP_API_URL}/${this.phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        to: message.to.replace(/^\+/, ''),
+        type: 'text',
+        text: { body: message.text },
+      }),
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`WhatsApp Cloud API responded ${response.status}`);
+    }
+  }
+}
+
+/**
+ * File transport for development
+ * Writes each message as a .txt file and logs where it was written
+ */
+export class FileTextMessageTransport implements TextMessageTransport {
+  readonly name = 'file';
+
+  constructor(
+    private readonly kind: string,
+    private readonly directory: string = env.NOTIFICATION_FILE_PATH
+  ) {}
+
+  async send(message: TextMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${this.kind}-${crypto.randomBytes(4).toString('hex')}.txt`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.writeFile(filePath, [`To: ${message.to}`, `Date: ${new Date().toUTCString()}`, '', message.text].join('\n'), 'utf8');
+
+    logger.info('Text message written to file', { kind: this.kind, to: message.to, file: filePath });
+  }
+}
+
+/**
+ * In-memory transport for tests
+ * Keeps every sent message; `fail` makes the next sends throw
+ */
+export class InMemoryTextMessageTransport implements TextMessageTransport {
+  readonly name = 'memory';
+  readonly messages: TextMessage[] = [];
+  fail: Error | null = null;
+
+  async send(message: TextMessage): Promise<void> {
+    if (this.fail) {
+      throw this.fail;
+    }
+
+    this.messages.push(message);
+  }
+
+  /**
+   * Last message sent to a number
+   */
+  lastTo(to: string): TextMessage | undefined {
+    return [...this.messages].reverse().find((message) => message.to === to);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+    this.fail = null;
+  }
+}
+
+/**
+ * Create the SMS transport selected by SMS_TRANSPORT
+ */
+export const createSmsTransport = (): TextMessageTransport => {
+  switch (env.SMS_TRANSPORT) {
+    case 'http':
+      return new HttpSmsTransport();
+    case 'memory':
+      return new InMemoryTextMessageTransport();
+    case 'file':
+    default:
+      return new FileTextMessageTransport('sms');
+  }
+};
+
+/**
+ * Create the WhatsApp transport selected by WHATSAPP_TRANSPORT
+ */
+export const createWhatsAppTransport = (): TextMessageTransport => {
+  switch (env.WHATSAPP_TRANSPORT) {
+    case 'cloud':
+      return new WhatsAppCloudTransport();
+    case 'memory':
+      return new InMemoryTextMessageTransport();
+    case 'file':
+    default:
+      return new FileTextMessageTransport('whatsapp');
+  }
+};
+
+/**
+ * ============================================
+ * CHANNELS
+ * ============================================
+ */
+
+/**
+ * Email through the mail service (EMAIL_* / MAIL_TRANSPORT)
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly channel = ReminderChannel.EMAIL;
+
+  resolveRecipient(contact: NotificationContact): string | null {
+    return contact.email?.trim() || null;
+  }
+
+  async send(recipient: string, content: NotificationContent): Promise<void> {
+    await mailService.send({ to: recipient, subject: content.subject, text: content.text });
+  }
+}
+
+/**
+ * Text message to the patient's phone (SMS or WhatsApp)
+ */
+export class TextMessageChannel implements NotificationChannel {
+  constructor(
+    readonly channel: ReminderChannel,
+    private readonly transport: TextMessageTransport
+  ) {}
+
+  resolveRecipient(contact: NotificationContact): string | null {
+    return contact.phone ? normalizePhone(contact.phone, env.PHONE_COUNTRY_CODE) : null;
+  }
+
+  async send(recipient: string, content: NotificationContent): Promise<void> {
+    await this.transport.send({ to: recipient, text: content.text });
+  }
+}
+
+/**
+ * ============================================
+ * SERVICE
+ * ============================================
+ */
+
+/**
+ * Notification Service
+ * Delivers patient notifications through email, SMS and WhatsApp channels
+ */
+export class NotificationService {
+  private readonly channels = new Map<ReminderChannel, NotificationChannel>();
+
+  /**
+   * Replace a channel (tests use channels over InMemoryTextMessageTransport)
+   * @param channel - Channel to use from now on for its type
+   */
+  setChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.channel, channel);
+  }
+
+  /**
+   * Get a channel, creating it with its configured transport on first use
+   */
+  getChannel(channel: ReminderChannel): NotificationChannel {
+    let instance = this.channels.get(channel);
+
+    if (!instance) {
+      switch (channel) {
+        case ReminderChannel.SMS:
+          instance = new TextMessageChannel(channel, createSmsTransport());
+          break;
+        case ReminderChannel.WHATSAPP:
+          instance = new TextMessageChannel(channel, createWhatsAppTransport());
+          break;
+        case ReminderChannel.EMAIL:
+        default:
+          instance = new EmailChannel();
+      }
+
+      this.channels.set(channel, instance);
+    }
+
+    return instance;
+  }
+
+  /**
+   * Send a notification to an address of the channel
+   */
+  async send(channel: ReminderChannel, recipient: string, content: NotificationContent): Promise<void> {
+    await this.getChannel(channel).send(recipient, content);
+
+    logger.info('Notification sent', { channel, to: recipient, subject: content.subject });
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
+export default notificationService;
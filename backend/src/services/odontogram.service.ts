@@ -1,5 +1,11 @@
-import { DentitionType, ToothStatus } from '@prisma/client';
+import { DentitionType, OdontogramProposalStatus, PatientAccessResource, ToothStatus } from '@prisma/client';
 import { OdontogramRepository } from '../repositories/odontogram.repository';
+import { medicalRepository } from '@repositories/medical.repository';
+import { auditService } from '@services/audit.service';
+import { ApiError } from '@utils/ApiError';
+import logger from '@utils/logger';
+import { detectNewFindings, getFindingRule, proposeToothOutcome } from '@utils/clinicalRules';
+import { renderOdontogramPdf, renderOdontogramSvg } from '@utils/odontogramChart';
 import type {
   OdontogramResponse,
   OdontogramWithTeethResponse,
@@ -10,7 +16,14 @@ import type {
   OdontogramComparisonResponse,
   ToothChange,
   ToothSurfacesResponse,
+  OdontogramExport,
+  ExportOdontogramQueryDTO,
+  FindingSuggestion,
+  ToothUpdateResponse,
+  OdontogramProposalResponse,
+  ApplyOdontogramProposalResponse,
 } from '../types/odontogram.types';
+import type { TreatmentResponse } from '../types/medical.types';
 import {
   validateToothNumbersForType,
 } from '../types/odontogram.types';
@@ -44,9 +57,14 @@ export class OdontogramService {
 
   /**
    * Get current odontogram for a patient
+   * The read is recorded in the patient access log
    */
   async getCurrentOdontogram(patientId: string): Promise<OdontogramWithTeethResponse | null> {
-    return this.repository.findCurrentByPatientId(patientId);
+    const odontogram = await this.repository.findCurrentByPatientId(patientId);
+
+    await auditService.recordPatientAccess(patientId, PatientAccessResource.CURRENT_ODONTOGRAM);
+
+    return odontogram;
   }
 
   /**
@@ -105,12 +123,13 @@ export class OdontogramService {
 
   /**
    * Update specific tooth in odontogram
+   * New pathological findings come back with the diagnosis and treatment they suggest
    */
   async updateTooth(
     odontogramId: string,
     toothNumber: string,
     data: UpdateToothDTO
-  ): Promise<ToothResponse> {
+  ): Promise<ToothUpdateResponse> {
     // Find tooth
     const tooth = await this.repository.findToothByNumber(odontogramId, toothNumber);
 
@@ -124,7 +143,10 @@ export class OdontogramService {
     }
 
     // Update tooth
-    return this.repository.updateTooth(tooth.id, data);
+    const updated = await this.repository.updateTooth(tooth.id, data);
+    const suggestions = await this.buildSuggestions(tooth, updated);
+
+    return { ...updated, suggestions };
   }
 
   /**
@@ -146,6 +168,7 @@ export class OdontogramService {
 
   /**
    * Compare two odontogram versions
+   * Covers status, surface and notes changes, plus teeth added or removed between versions
    */
   async compareVersions(
     version1Id: string,
@@ -169,17 +192,31 @@ export class OdontogramService {
     const modifiedTeeth = new Set<string>();
     let statusChanges = 0;
     let surfaceChanges = 0;
+    let teethAdded = 0;
+    let teethRemoved = 0;
 
     // Create maps for easy lookup
     const v1TeethMap = new Map(v1.teeth.map((t) => [t.toothNumber, t]));
     const v2TeethMap = new Map(v2.teeth.map((t) => [t.toothNumber, t]));
 
-    // Compare each tooth
-    for (const toothNumber of v1TeethMap.keys()) {
-      const tooth1 = v1TeethMap.get(toothNumber)!;
+    // Compare each tooth present in either version
+    const toothNumbers = [...new Set([...v1TeethMap.keys(), ...v2TeethMap.keys()])].sort();
+
+    for (const toothNumber of toothNumbers) {
+      const tooth1 = v1TeethMap.get(toothNumber);
       const tooth2 = v2TeethMap.get(toothNumber);
 
+      // Tooth only in the second version (e.g. permanent tooth erupted)
+      if (!tooth1) {
+        changes.push({ toothNumber, field: 'tooth', oldValue: null, newValue: tooth2!.status });
+        teethAdded++;
+        continue;
+      }
+
+      // Tooth only in the first version (e.g. temporary tooth exfoliated)
       if (!tooth2) {
+        changes.push({ toothNumber, field: 'tooth', oldValue: tooth1.status, newValue: null });
+        teethRemoved++;
         continue;
       }
 
@@ -248,10 +285,220 @@ export class OdontogramService {
         teethModified: modifiedTeeth.size,
         statusChanges,
         surfaceChanges,
+        teethAdded,
+        teethRemoved,
       },
     };
   }
 
+  /**
+   * ============================================
+   * EXPORT METHODS
+   * ============================================
+   */
+
+  /**
+   * Render an odontogram version (chart, legend, notes and patient header) for
+   * referrals and printed records
+   * @throws ApiError if the odontogram or its patient is not found
+   */
+  async exportOdontogram(
+    id: string,
+    format: ExportOdontogramQueryDTO['format']
+  ): Promise<OdontogramExport> {
+    const odontogram = await this.repository.findById(id);
+    if (!odontogram) {
+      throw ApiError.notFound('Odontogram not found');
+    }
+
+    const patient = await this.repository.findPatientForExport(odontogram.patientId);
+    if (!patient) {
+      throw ApiError.notFound('Patient not found');
+    }
+
+    const filename = `odontograma-${patient.identification}-v${odontogram.version}.${format}`;
+
+    if (format === 'svg') {
+      return {
+        content: renderOdontogramSvg(odontogram, patient),
+        contentType: 'image/svg+xml; charset=utf-8',
+        filename,
+      };
+    }
+
+    return {
+      content: await renderOdontogramPdf(odontogram, patient),
+      contentType: 'application/pdf',
+      filename,
+    };
+  }
+
+  /**
+   * ============================================
+   * CLINICAL SUGGESTION METHODS
+   * ============================================
+   */
+
+  /**
+   * Diagnoses and treatments suggested by the findings a tooth update introduced
+   * Codes missing from the CIE-10 table or the active catalog are left out
+   */
+  private async buildSuggestions(
+    before: ToothResponse,
+    after: ToothResponse
+  ): Promise<FindingSuggestion[]> {
+    const findings = detectNewFindings(before, after);
+    if (findings.length === 0) {
+      return [];
+    }
+
+    const rules = findings.map((finding) => ({
+      finding,
+      rule: getFindingRule(after.toothNumber, finding),
+    }));
+
+    const cie10Codes = rules.flatMap(({ rule }) => (rule?.cie10Code ? [rule.cie10Code] : []));
+    const catalogCodes = rules.flatMap(({ rule }) => (rule ? [rule.catalogCode] : []));
+
+    const [diagnoses, catalogItems] = await Promise.all([
+      medicalRepository.findCIE10Codes(cie10Codes),
+      medicalRepository.findActiveCatalogItemsByCode(catalogCodes),
+    ]);
+
+    return rules.map(({ finding, rule }) => {
+      const diagnosis = diagnoses.find((d) => d.code === rule?.cie10Code);
+      const catalogItem = catalogItems.find((c) => c.code === rule?.catalogCode);
+
+      return {
+        toothNumber: after.toothNumber,
+        status: finding.status,
+        surfaces: finding.surfaces,
+        diagnosis: diagnosis ? { cie10Code: diagnosis.code, cie10Name: diagnosis.name } : null,
+        treatment: catalogItem
+          ? {
+              catalogId: catalogItem.id,
+              code: catalogItem.code,
+              name: catalogItem.name,
+              baseCost: Number(catalogItem.baseCost),
+            }
+          : null,
+      };
+    });
+  }
+
+  /**
+   * ============================================
+   * PROPOSAL METHODS
+   * ============================================
+   */
+
+  /**
+   * Propose the chart change a completed treatment implies on its tooth
+   * Never fails the treatment update: errors are logged and null is returned
+   * @returns The pending proposal, or null when the treatment does not change the chart
+   */
+  async proposeFromCompletedTreatment(
+    treatment: TreatmentResponse
+  ): Promise<OdontogramProposalResponse | null> {
+    if (!treatment.toothNumber || !treatment.catalog) {
+      return null;
+    }
+
+    try {
+      const existing = await this.repository.findProposalByTreatmentId(treatment.id);
+      if (existing && existing.status !== OdontogramProposalStatus.PENDING) {
+        return null;
+      }
+
+      const odontogram = await this.repository.findCurrentByPatientId(treatment.patientId);
+      const tooth = odontogram?.teeth.find((t) => t.toothNumber === treatment.toothNumber);
+      if (!odontogram || !tooth) {
+        return null;
+      }
+
+      const completedDate = (treatment.completedDate ?? new Date()).toISOString().slice(0, 10);
+      const outcome = proposeToothOutcome(treatment.catalog.code, tooth, completedDate);
+      if (!outcome) {
+        return null;
+      }
+
+      return await this.repository.upsertProposal({
+        patientId: treatment.patientId,
+        treatmentId: treatment.id,
+        odontogramId: odontogram.id,
+        toothNumber: tooth.toothNumber,
+        currentStatus: tooth.status,
+        proposedStatus: outcome.status,
+        surfaces: outcome.surfaces,
+      });
+    } catch (error) {
+      logger.error('Error proposing odontogram update', { treatmentId: treatment.id, error });
+      return null;
+    }
+  }
+
+  /**
+   * Get odontogram proposals for a patient
+   */
+  async getProposals(
+    patientId: string,
+    status?: OdontogramProposalStatus
+  ): Promise<OdontogramProposalResponse[]> {
+    return this.repository.findProposalsByPatientId(patientId, status);
+  }
+
+  /**
+   * Apply a pending proposal as a new odontogram version
+   * @throws ApiError if the proposal is not found or cannot be applied
+   */
+  async applyProposal(id: string, userId: string): Promise<ApplyOdontogramProposalResponse> {
+    const proposal = await this.repository.findProposalById(id);
+    if (!proposal) {
+      throw ApiError.notFound('Odontogram proposal not found');
+    }
+
+    if (proposal.status !== OdontogramProposalStatus.PENDING) {
+      throw ApiError.conflict('Odontogram proposal has already been resolved');
+    }
+
+    const current = await this.repository.findCurrentByPatientId(proposal.patientId);
+    if (!current?.teeth.some((t) => t.toothNumber === proposal.toothNumber)) {
+      throw ApiError.conflict(`Tooth ${proposal.toothNumber} is not in the current odontogram`);
+    }
+
+    const odontogram = await this.repository.createNewVersion(proposal.patientId, userId, current.id, {
+      toothNumber: proposal.toothNumber,
+      status: proposal.proposedStatus,
+      surfaces: proposal.surfaces,
+    });
+
+    const resolved = await this.repository.resolveProposal(
+      id,
+      OdontogramProposalStatus.APPLIED,
+      userId,
+      odontogram.id
+    );
+
+    return { proposal: resolved, odontogram };
+  }
+
+  /**
+   * Dismiss a pending proposal without changing the chart
+   * @throws ApiError if the proposal is not found or already resolved
+   */
+  async dismissProposal(id: string, userId: string): Promise<OdontogramProposalResponse> {
+    const proposal = await this.repository.findProposalById(id);
+    if (!proposal) {
+      throw ApiError.notFound('Odontogram proposal not found');
+    }
+
+    if (proposal.status !== OdontogramProposalStatus.PENDING) {
+      throw ApiError.conflict('Odontogram proposal has already been resolved');
+    }
+
+    return this.repository.resolveProposal(id, OdontogramProposalStatus.DISMISSED, userId);
+  }
+
   /**
    * ============================================
    * VALIDATION METHODS
@@ -1,7 +1,11 @@
+import { PatientAccessResource } from '@prisma/client';
 import { ApiError } from '@utils/ApiError';
 import { loggers } from '@utils/logger';
 import logger from '@utils/logger';
 import { patientRepository } from '@repositories/patient.repository';
+import { auditService } from '@services/audit.service';
+import { catalogService } from '@services/catalog.service';
+import { insuranceService } from '@services/insurance.service';
 import type {
   CreatePatientData,
   UpdatePatientData,
@@ -78,6 +82,16 @@ export class PatientService {
       }
     }
 
+    // Validate the assigned price list
+    if (data.priceListId) {
+      await catalogService.getActivePriceList(data.priceListId);
+    }
+
+    // Validate the insurance plan
+    if (data.insurancePlanId) {
+      await insuranceService.getActivePlan(data.insurancePlanId);
+    }
+
     // Validate age based on date of birth
     const birthDate = new Date(data.dateOfBirth);
     const today = new Date();
@@ -136,6 +150,16 @@ export class PatientService {
       }
     }
 
+    // Validate the assigned price list if being changed
+    if (data.priceListId && data.priceListId !== existingPatient.priceListId) {
+      await catalogService.getActivePriceList(data.priceListId);
+    }
+
+    // Validate the insurance plan if being changed
+    if (data.insurancePlanId && data.insurancePlanId !== existingPatient.insurancePlanId) {
+      await insuranceService.getActivePlan(data.insurancePlanId);
+    }
+
     // Validate date of birth if being updated
     if (data.dateOfBirth) {
       const birthDate = new Date(data.dateOfBirth);
@@ -283,6 +307,7 @@ export class PatientService {
 
   /**
    * Get patient medical history
+   * The read is recorded in the patient access log
    * @param id - Patient ID
    * @returns Medical history records
    */
@@ -294,14 +319,17 @@ export class PatientService {
       throw ApiError.notFound('Patient not found');
     }
 
+    let medicalHistory;
     try {
-      const medicalHistory = await patientRepository.getMedicalHistory(id);
-
-      return medicalHistory;
+      medicalHistory = await patientRepository.getMedicalHistory(id);
     } catch (error) {
       logger.error('Error fetching medical history', error);
       throw ApiError.internal('Failed to fetch medical history');
     }
+
+    await auditService.recordPatientAccess(id, PatientAccessResource.MEDICAL_HISTORY);
+
+    return medicalHistory;
   }
 
   /**
@@ -0,0 +1,217 @@
+import { PatientAccessResource } from '@prisma/client';
+import { periodontogramRepository } from '@repositories/periodontogram.repository';
+import { auditService } from '@services/audit.service';
+import { ApiError } from '@utils/ApiError';
+import { comparePeriodontalTeeth } from '@utils/periodontalIndices';
+import type {
+  PeriodontogramResponse,
+  PeriodontogramWithTeethResponse,
+  PeriodontalToothResponse,
+  PeriodontogramComparisonResponse,
+  CreatePeriodontogramDTO,
+  UpdatePeriodontogramDTO,
+  UpdatePeriodontalToothDTO,
+} from '../types/periodontogram.types';
+import { isPermanentTooth } from '../types/odontogram.types';
+
+/**
+ * Molars and upper first premolars (multi-rooted teeth, where furcation is assessed);
+ * temporary molars are 54-55, 64-65, 74-75 and 84-85
+ */
+const hasFurcation = (toothNumber: string): boolean => {
+  const position = Number(toothNumber.charAt(1));
+
+  if (!isPermanentTooth(toothNumber)) {
+    return position >= 4;
+  }
+
+  const upper = ['1', '2'].includes(toothNumber.charAt(0));
+  return position >= 6 || (upper && position === 4);
+};
+
+/**
+ * Periodontogram Service
+ * Business logic for periodontal charting: versioned exams, indices and comparison
+ */
+export class PeriodontogramService {
+  /**
+   * ============================================
+   * QUERY METHODS
+   * ============================================
+   */
+
+  /**
+   * Get all exams of a patient (without teeth)
+   */
+  async getPeriodontogramsByPatient(patientId: string): Promise<PeriodontogramResponse[]> {
+    return periodontogramRepository.findByPatientId(patientId);
+  }
+
+  /**
+   * Get the current periodontogram of a patient
+   * The read is recorded in the patient access log
+   */
+  async getCurrentPeriodontogram(patientId: string): Promise<PeriodontogramWithTeethResponse | null> {
+    const periodontogram = await periodontogramRepository.findCurrentByPatientId(patientId);
+
+    await auditService.recordPatientAccess(patientId, PatientAccessResource.CURRENT_PERIODONTOGRAM);
+
+    return periodontogram;
+  }
+
+  /**
+   * Get periodontogram by ID
+   * @throws ApiError if not found
+   */
+  async getPeriodontogramById(id: string): Promise<PeriodontogramWithTeethResponse> {
+    const periodontogram = await periodontogramRepository.findById(id);
+    if (!periodontogram) {
+      throw ApiError.notFound('Periodontogram not found');
+    }
+
+    return periodontogram;
+  }
+
+  /**
+   * ============================================
+   * CREATE/UPDATE METHODS
+   * ============================================
+   */
+
+  /**
+   * Record a new exam; it becomes the patient's current periodontogram
+   * @throws ApiError if furcation is recorded on a single-rooted tooth
+   */
+  async createPeriodontogram(
+    patientId: string,
+    examinerId: string,
+    data: CreatePeriodontogramDTO
+  ): Promise<PeriodontogramWithTeethResponse> {
+    for (const tooth of data.teeth ?? []) {
+      this.validateFurcation(tooth.toothNumber, tooth.furcation);
+    }
+
+    return periodontogramRepository.create(patientId, examinerId, data);
+  }
+
+  /**
+   * Update exam date or notes
+   * @throws ApiError if not found
+   */
+  async updatePeriodontogram(
+    id: string,
+    data: UpdatePeriodontogramDTO
+  ): Promise<PeriodontogramWithTeethResponse> {
+    const exists = await periodontogramRepository.exists(id);
+    if (!exists) {
+      throw ApiError.notFound('Periodontogram not found');
+    }
+
+    return periodontogramRepository.update(id, data);
+  }
+
+  /**
+   * Update the measurements of a tooth
+   * @throws ApiError if the tooth is not in the exam or furcation does not apply
+   */
+  async updateTooth(
+    periodontogramId: string,
+    toothNumber: string,
+    data: UpdatePeriodontalToothDTO
+  ): Promise<PeriodontalToothResponse> {
+    const tooth = await periodontogramRepository.findToothByNumber(periodontogramId, toothNumber);
+    if (!tooth) {
+      throw ApiError.notFound(`Tooth ${toothNumber} not found in periodontogram`);
+    }
+
+    this.validateFurcation(toothNumber, data.furcation);
+
+    return periodontogramRepository.updateTooth(tooth, data);
+  }
+
+  /**
+   * Delete an exam (the previous one becomes current if needed)
+   * @throws ApiError if not found
+   */
+  async deletePeriodontogram(id: string): Promise<void> {
+    const exists = await periodontogramRepository.exists(id);
+    if (!exists) {
+      throw ApiError.notFound('Periodontogram not found');
+    }
+
+    await periodontogramRepository.delete(id);
+  }
+
+  /**
+   * ============================================
+   * COMPARISON METHODS
+   * ============================================
+   */
+
+  /**
+   * Compare two exams of the same patient (p1 is the earlier one)
+   * @throws ApiError if an exam is missing or they belong to different patients
+   */
+  async comparePeriodontograms(p1Id: string, p2Id: string): Promise<PeriodontogramComparisonResponse> {
+    const [p1, p2] = await Promise.all([
+      periodontogramRepository.findById(p1Id),
+      periodontogramRepository.findById(p2Id),
+    ]);
+
+    if (!p1 || !p2) {
+      throw ApiError.notFound('One or both periodontograms not found');
+    }
+
+    if (p1.patientId !== p2.patientId) {
+      throw ApiError.badRequest('Periodontograms must belong to the same patient');
+    }
+
+    const { changes, sitesImproved, sitesWorsened } = comparePeriodontalTeeth(p1.teeth, p2.teeth);
+
+    const { teeth: _teeth1, indices: indices1, ...exam1 } = p1;
+    const { teeth: _teeth2, indices: indices2, ...exam2 } = p2;
+
+    return {
+      exam1,
+      exam2,
+      indices: { exam1: indices1, exam2: indices2 },
+      changes,
+      summary: {
+        totalChanges: changes.length,
+        sitesImproved,
+        sitesWorsened,
+        meanProbingDepthChange: this.difference(indices1.meanProbingDepth, indices2.meanProbingDepth),
+        bleedingOnProbingChange: this.difference(
+          indices1.bleedingOnProbingPercentage,
+          indices2.bleedingOnProbingPercentage
+        ),
+      },
+    };
+  }
+
+  /**
+   * ============================================
+   * VALIDATION METHODS
+   * ============================================
+   */
+
+  /**
+   * Furcation involvement only applies to multi-rooted teeth
+   */
+  private validateFurcation(toothNumber: string, furcation: number | null | undefined): void {
+    if (furcation && !hasFurcation(toothNumber)) {
+      throw ApiError.badRequest(`Tooth ${toothNumber} has no furcation`);
+    }
+  }
+
+  /**
+   * Change between two index values, rounded to 2 decimals
+   */
+  private difference(before: number | null, after: number | null): number | null {
+    return before !== null && after !== null ? Math.round((after - before) * 100) / 100 : null;
+  }
+}
+
+const periodontogramService = new PeriodontogramService();
+export { periodontogramService };
+export default periodontogramService;
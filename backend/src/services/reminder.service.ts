@@ -0,0 +1,230 @@
+import { ReminderChannel, ReminderStatus } from '@prisma/client';
+import { env } from '@config/env';
+import logger from '@utils/logger';
+import { reminderRepository, UpcomingAppointment } from '@repositories/reminder.repository';
+import { notificationService } from '@services/notification.service';
+import {
+  formatReminderDay,
+  getAppointmentStart,
+  renderReminder,
+  selectDueLeadHours,
+} from '@utils/reminder';
+import { DAY_MS, startOfDay } from '@utils/schedule';
+import type {
+  PaginatedReminderResponse,
+  ReminderListOptions,
+  ReminderOutcome,
+  ReminderRunSummary,
+  SkippedReminderReport,
+} from '../types/reminder.types';
+
+const NO_CONTACT_ERRORS: Record<ReminderChannel, string> = {
+  [ReminderChannel.EMAIL]: 'Patient has no email',
+  [ReminderChannel.SMS]: 'Patient has no valid phone',
+  [ReminderChannel.WHATSAPP]: 'Patient has no valid phone',
+};
+
+/**
+ * Reminder Service
+ * Sends appointment reminders ahead of each configured lead time through the
+ * configured channels and records the outcome of every delivery
+ */
+export class ReminderService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start running the reminder job every REMINDER_INTERVAL_MINUTES
+   * Does nothing when FEATURE_APPOINTMENT_REMINDERS is off or already started
+   */
+  start(): void {
+    if (!env.FEATURE_APPOINTMENT_REMINDERS || this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.runReminders().catch((error) => logger.error('Appointment reminder job failed', { error }));
+    };
+
+    this.timer = setInterval(run, env.REMINDER_INTERVAL_MINUTES * 60 * 1000);
+    this.timer.unref();
+    run();
+
+    logger.info('Appointment reminder job started', {
+      intervalMinutes: env.REMINDER_INTERVAL_MINUTES,
+      leadHours: env.REMINDER_LEAD_HOURS,
+      channels: env.REMINDER_CHANNELS,
+    });
+  }
+
+  /**
+   * Stop the reminder job
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send the reminders due at a moment
+   * A delivery already sent or skipped is not repeated; a failed one is retried
+   * until REMINDER_MAX_ATTEMPTS. Overlapping runs return an empty summary.
+   * @param now - Moment of the run
+   * @param leadHours - Lead times before the appointment
+   * @param channels - Channels to deliver through
+   */
+  async runReminders(
+    now: Date = new Date(),
+    leadHours: number[] = env.REMINDER_LEAD_HOURS,
+    channels: ReminderChannel[] = env.REMINDER_CHANNELS.map((channel) => ReminderChannel[channel])
+  ): Promise<ReminderRunSummary> {
+    const summary: ReminderRunSummary = {
+      startedAt: now,
+      finishedAt: now,
+      appointments: 0,
+      sent: 0,
+      failed: 0,
+      skipped: [],
+    };
+
+    if (this.running) {
+      logger.warn('Appointment reminder job is still running, skipping this run');
+      return summary;
+    }
+
+    this.running = true;
+
+    try {
+      const maxLeadMs = Math.max(...leadHours) * 60 * 60 * 1000;
+      const appointments = await reminderRepository.findUpcomingAppointments(
+        startOfDay(new Date(now.getTime() - DAY_MS)),
+        startOfDay(new Date(now.getTime() + maxLeadMs + DAY_MS))
+      );
+
+      for (const appointment of appointments) {
+        const start = getAppointmentStart(appointment.date, appointment.startTime, env.CLINIC_TIME_ZONE);
+        const lead = selectDueLeadHours(start, now, leadHours);
+        if (lead === null) continue;
+
+        const pending = channels.filter((channel) => this.isPending(appointment, lead, channel));
+        if (pending.length === 0) continue;
+
+        summary.appointments++;
+        const skipped = await this.remindAppointment(appointment, start, lead, pending, now, summary);
+        if (skipped) {
+          summary.skipped.push(skipped);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    summary.finishedAt = new Date();
+
+    logger.info('Appointment reminder job finished', {
+      appointments: summary.appointments,
+      sent: summary.sent,
+      failed: summary.failed,
+      skipped: summary.skipped.length,
+    });
+
+    return summary;
+  }
+
+  /**
+   * Get reminder outcomes with filters and pagination
+   */
+  async getReminders(options: ReminderListOptions = {}): Promise<PaginatedReminderResponse> {
+    return reminderRepository.findReminders(options);
+  }
+
+  /**
+   * Check whether a reminder still has to be delivered through a channel
+   */
+  private isPending(appointment: UpcomingAppointment, leadHours: number, channel: ReminderChannel): boolean {
+    const previous = appointment.reminders.find(
+      (reminder) => reminder.leadHours === leadHours && reminder.channel === channel
+    );
+
+    return !previous || (previous.status === ReminderStatus.FAILED && previous.attempts < env.REMINDER_MAX_ATTEMPTS);
+  }
+
+  /**
+   * Deliver the reminder of an appointment through the pending channels
+   * @returns Report of the appointment when no channel could reach the patient
+   */
+  private async remindAppointment(
+    appointment: UpcomingAppointment,
+    start: Date,
+    leadHours: number,
+    channels: ReminderChannel[],
+    now: Date,
+    summary: ReminderRunSummary
+  ): Promise<SkippedReminderReport | null> {
+    const { patient } = appointment;
+    const templateData = {
+      patientFirstName: patient.firstName,
+      doctorName: `Dr(a). ${appointment.doctor.firstName} ${appointment.doctor.lastName}`,
+      type: appointment.type,
+      startTime: appointment.startTime,
+      dayLabel: formatReminderDay(start, now, env.CLINIC_TIME_ZONE),
+      clinicName: env.CLINIC_NAME,
+      clinicPhone: env.CLINIC_PHONE,
+    };
+
+    let reached = false;
+    let sentAt: Date | null = null;
+
+    for (const channel of channels) {
+      const recipient = notificationService.getChannel(channel).resolveRecipient(patient);
+      let outcome: ReminderOutcome;
+
+      if (!recipient) {
+        outcome = { status: ReminderStatus.SKIPPED, recipient: null, error: NO_CONTACT_ERRORS[channel], sentAt: null };
+      } else {
+        reached = true;
+
+        try {
+          await notificationService.send(channel, recipient, renderReminder(templateData, channel));
+          sentAt = new Date();
+          outcome = { status: ReminderStatus.SENT, recipient, error: null, sentAt };
+          summary.sent++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          outcome = { status: ReminderStatus.FAILED, recipient, error: message.slice(0, 500), sentAt: null };
+          summary.failed++;
+
+          logger.warn('Appointment reminder failed', { appointmentId: appointment.id, channel, error: message });
+        }
+      }
+
+      await reminderRepository.saveOutcome(appointment.id, leadHours, channel, outcome);
+    }
+
+    if (sentAt) {
+      await reminderRepository.markReminderSent(appointment.id, sentAt);
+    }
+
+    if (reached) {
+      return null;
+    }
+
+    const report: SkippedReminderReport = {
+      appointmentId: appointment.id,
+      patientId: patient.id,
+      patientName: `${patient.firstName} ${patient.lastName}`,
+      leadHours,
+      reason: 'Patient has no phone or email for the reminder channels',
+    };
+
+    logger.warn('Appointment reminder skipped', report);
+
+    return report;
+  }
+}
+
+// Export singleton instance
+export const reminderService = new ReminderService();
+export default reminderService;
@@ -0,0 +1,253 @@
+import { ApiError } from '@utils/ApiError';
+import { loggers } from '@utils/logger';
+import logger from '@utils/logger';
+import { clearPermissionCache } from '@middleware/auth';
+import { roleRepository } from '@repositories/role.repository';
+import type { CreateRoleData, RoleWithPermissions } from '../types/role.types';
+
+/**
+ * Permissions a role needs to keep managing roles
+ * Removing them from one's own role would lock the user out of this module
+ */
+const ROLE_MANAGEMENT_PERMISSIONS = ['roles:update', 'roles:assign'];
+
+/**
+ * User performing a role change
+ */
+interface RoleActor {
+  id: string;
+  role: string;
+}
+
+/**
+ * Role Service
+ * Handles all business logic related to roles and permissions
+ */
+export class RoleService {
+  /**
+   * Get all roles with their permissions
+   * @returns List of roles
+   */
+  async getAllRoles(): Promise<RoleWithPermissions[]> {
+    return roleRepository.findAll();
+  }
+
+  /**
+   * Get role by ID
+   * @param id - Role ID
+   * @returns Role with permissions
+   */
+  async getRoleById(id: string): Promise<RoleWithPermissions> {
+    const role = await roleRepository.findById(id);
+
+    if (!role) {
+      throw ApiError.notFound('Role not found');
+    }
+
+    return role;
+  }
+
+  /**
+   * Get all available permissions
+   * @returns List of permissions
+   */
+  async getAllPermissions() {
+    return roleRepository.findAllPermissions();
+  }
+
+  /**
+   * Create new role
+   * @param data - Role creation data
+   * @param actor - User creating the role
+   * @returns Created role
+   */
+  async createRole(data: CreateRoleData, actor: RoleActor): Promise<RoleWithPermissions> {
+    if (await roleRepository.nameExists(data.name)) {
+      throw ApiError.conflict('A role with this name already exists');
+    }
+
+    if (data.permissionIds?.length) {
+      await this.ensurePermissionsExist(data.permissionIds);
+    }
+
+    const role = await roleRepository.create(data);
+
+    loggers.security('Role created', 'low', {
+      roleId: role.id,
+      name: role.name,
+      permissions: role.permissions.length,
+      createdBy: actor.id,
+    });
+
+    return role;
+  }
+
+  /**
+   * Attach permissions to a role
+   * @param id - Role ID
+   * @param permissionIds - Permission IDs
+   * @param actor - User changing the role
+   * @returns Updated role
+   */
+  async attachPermissions(
+    id: string,
+    permissionIds: string[],
+    actor: RoleActor
+  ): Promise<RoleWithPermissions> {
+    await this.getRoleById(id);
+    await this.ensurePermissionsExist(permissionIds);
+
+    const role = await roleRepository.attachPermissions(id, permissionIds);
+    clearPermissionCache();
+
+    loggers.security('Permissions attached to role', 'medium', {
+      roleId: id,
+      name: role.name,
+      permissionIds,
+      changedBy: actor.id,
+    });
+
+    return role;
+  }
+
+  /**
+   * Detach a permission from a role
+   * @param id - Role ID
+   * @param permissionId - Permission ID
+   * @param actor - User changing the role
+   * @returns Updated role
+   */
+  async detachPermission(
+    id: string,
+    permissionId: string,
+    actor: RoleActor
+  ): Promise<RoleWithPermissions> {
+    const role = await this.getRoleById(id);
+    const permission = role.permissions.find((p) => p.id === permissionId);
+
+    if (!permission) {
+      throw ApiError.notFound('Permission is not attached to this role');
+    }
+
+    if (
+      role.name === actor.role &&
+      ROLE_MANAGEMENT_PERMISSIONS.includes(`${permission.resource}:${permission.action}`)
+    ) {
+      throw ApiError.badRequest(
+        'You cannot remove role management permissions from your own role'
+      );
+    }
+
+    const updatedRole = await roleRepository.detachPermission(id, permissionId);
+    clearPermissionCache();
+
+    loggers.security('Permission detached from role', 'medium', {
+      roleId: id,
+      name: role.name,
+      permission: `${permission.resource}:${permission.action}`,
+      changedBy: actor.id,
+    });
+
+    return updatedRole;
+  }
+
+  /**
+   * Require (or stop requiring) two-factor authentication for a role
+   * Users of the role without 2FA can only reach the enrollment endpoints
+   * @param id - Role ID
+   * @param required - Whether 2FA is required
+   * @param actor - User changing the role
+   * @returns Updated role
+   */
+  async setTwoFactorRequirement(
+    id: string,
+    required: boolean,
+    actor: RoleActor
+  ): Promise<RoleWithPermissions> {
+    const role = await this.getRoleById(id);
+
+    if (role.requireTwoFactor === required) {
+      return role;
+    }
+
+    const updatedRole = await roleRepository.setTwoFactorRequirement(id, required);
+
+    loggers.security('Role two-factor requirement changed', required ? 'low' : 'medium', {
+      roleId: id,
+      name: role.name,
+      requireTwoFactor: required,
+      changedBy: actor.id,
+    });
+
+    return updatedRole;
+  }
+
+  /**
+   * Assign a role to a user
+   * @param id - Role ID
+   * @param userId - User ID
+   * @param actor - User assigning the role
+   * @returns Assigned role
+   */
+  async assignRoleToUser(
+    id: string,
+    userId: string,
+    actor: RoleActor
+  ): Promise<RoleWithPermissions> {
+    if (userId === actor.id) {
+      throw ApiError.badRequest('You cannot change your own role');
+    }
+
+    const role = await this.getRoleById(id);
+    const user = await roleRepository.findUserById(userId);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    if (user.roleId === id) {
+      return role;
+    }
+
+    await roleRepository.assignToUser(userId, id);
+    clearPermissionCache();
+
+    logger.info('Role assigned to user', {
+      userId,
+      roleId: id,
+    });
+
+    loggers.security('User role changed', 'medium', {
+      userId,
+      email: user.email,
+      previousRoleId: user.roleId,
+      newRole: role.name,
+      changedBy: actor.id,
+    });
+
+    return role;
+  }
+
+  /**
+   * Ensure every permission ID exists
+   * @param permissionIds - Permission IDs
+   */
+  private async ensurePermissionsExist(permissionIds: string[]): Promise<void> {
+    const uniqueIds = [...new Set(permissionIds)];
+    const permissions = await roleRepository.findPermissionsByIds(uniqueIds);
+
+    if (permissions.length !== uniqueIds.length) {
+      const found = new Set(permissions.map((p) => p.id));
+      throw ApiError.badRequest('Some permissions do not exist', [
+        {
+          field: 'permissionIds',
+          message: `Unknown permission IDs: ${uniqueIds.filter((id) => !found.has(id)).join(', ')}`,
+        },
+      ]);
+    }
+  }
+}
+
+// Export singleton instance
+export const roleService = new RoleService();
+export default roleService;
@@ -0,0 +1,283 @@
+import { BlockedTime, WorkSchedule } from '@prisma/client';
+import { ApiError } from '@utils/ApiError';
+import logger from '@utils/logger';
+import { startOfDay } from '@utils/schedule';
+import { scheduleRepository } from '@repositories/schedule.repository';
+import { userRepository, DOCTOR_ROLE } from '@repositories/user.repository';
+import {
+  ALL_DAY_END,
+  ALL_DAY_START,
+  MAX_BLOCKED_DAYS,
+} from '../types/schedule.types';
+import type {
+  WorkScheduleDayData,
+  WeeklyScheduleDayData,
+  CreateBlockedTimeData,
+  UpdateBlockedTimeData,
+  BlockedTimeRecordData,
+  BlockedTimeResult,
+  WeeklyScheduleResponse,
+} from '../types/schedule.types';
+
+/**
+ * Schedule Service
+ * Business logic for doctor work schedules and blocked times
+ */
+export class ScheduleService {
+  /**
+   * Normalize date to start of day (UTC midnight, as block days are stored)
+   */
+  private normalizeDate(date: string | Date): Date {
+    return startOfDay(date);
+  }
+
+  /**
+   * Ensure the user exists and is a doctor
+   */
+  private async ensureDoctor(doctorId: string): Promise<void> {
+    const doctor = await userRepository.findById(doctorId);
+
+    if (!doctor || doctor.role.name !== DOCTOR_ROLE) {
+      throw ApiError.notFound('Doctor not found');
+    }
+  }
+
+  /**
+   * Build the persisted form of a blocked time
+   * All-day blocks are stored as 00:00-23:59
+   */
+  private buildBlockedTimeRecord(
+    doctorId: string,
+    data: CreateBlockedTimeData | UpdateBlockedTimeData,
+    existing?: BlockedTime
+  ): BlockedTimeRecordData {
+    const date = data.date ? this.normalizeDate(data.date) : existing?.date;
+    if (!date) {
+      throw ApiError.badRequest('Date is required');
+    }
+
+    let endDate: Date | null;
+    if (data.endDate === undefined) {
+      endDate = existing?.endDate ?? null;
+    } else {
+      endDate = data.endDate ? this.normalizeDate(data.endDate) : null;
+    }
+
+    let startTime = data.startTime ?? existing?.startTime;
+    let endTime = data.endTime ?? existing?.endTime;
+    if (data.allDay) {
+      startTime = ALL_DAY_START;
+      endTime = ALL_DAY_END;
+    }
+    if (!startTime || !endTime) {
+      throw ApiError.badRequest('Either allDay or startTime and endTime are required');
+    }
+
+    const frequency = data.frequency === undefined ? existing?.frequency ?? null : data.frequency;
+
+    if (endDate && endDate < date) {
+      throw ApiError.badRequest('End date must be on or after start date');
+    }
+
+    if (startTime >= endTime) {
+      throw ApiError.badRequest('End time must be after start time');
+    }
+
+    if (!frequency && endDate) {
+      const days = Math.round((endDate.getTime() - date.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+      if (days > MAX_BLOCKED_DAYS) {
+        throw ApiError.badRequest(`A blocked period cannot exceed ${MAX_BLOCKED_DAYS} days`);
+      }
+    }
+
+    return {
+      doctorId,
+      date,
+      endDate,
+      startTime,
+      endTime,
+      reason: data.reason ?? existing?.reason ?? '',
+      frequency,
+    };
+  }
+
+  // ============================================
+  // WORK SCHEDULES
+  // ============================================
+
+  /**
+   * Get the weekly work schedule of a doctor
+   * @param doctorId - Doctor user ID
+   */
+  async getWeeklySchedule(doctorId: string): Promise<WeeklyScheduleResponse> {
+    await this.ensureDoctor(doctorId);
+
+    const days = await scheduleRepository.findWorkSchedules(doctorId);
+
+    return { doctorId, days };
+  }
+
+  /**
+   * Replace the whole weekly work schedule of a doctor
+   * @param doctorId - Doctor user ID
+   * @param days - Working hours per day; missing days become non-working days
+   */
+  async setWeeklySchedule(
+    doctorId: string,
+    days: WeeklyScheduleDayData[]
+  ): Promise<WeeklyScheduleResponse> {
+    await this.ensureDoctor(doctorId);
+
+    const schedule = await scheduleRepository.replaceWeeklySchedule(doctorId, days);
+
+    logger.info('Weekly schedule updated', {
+      doctorId,
+      days: days.map((day) => day.dayOfWeek),
+    });
+
+    return { doctorId, days: schedule };
+  }
+
+  /**
+   * Create or update the work schedule of a doctor for one day
+   * @param doctorId - Doctor user ID
+   * @param dayOfWeek - 0 (Sunday) - 6 (Saturday)
+   * @param data - Working hours
+   */
+  async upsertWorkScheduleDay(
+    doctorId: string,
+    dayOfWeek: number,
+    data: WorkScheduleDayData
+  ): Promise<WorkSchedule> {
+    await this.ensureDoctor(doctorId);
+
+    const schedule = await scheduleRepository.upsertWorkSchedule(doctorId, dayOfWeek, data);
+
+    logger.info('Work schedule day updated', { doctorId, dayOfWeek });
+
+    return schedule;
+  }
+
+  /**
+   * Remove a day from the work schedule of a doctor
+   * @param doctorId - Doctor user ID
+   * @param dayOfWeek - 0 (Sunday) - 6 (Saturday)
+   */
+  async deleteWorkScheduleDay(doctorId: string, dayOfWeek: number): Promise<void> {
+    await this.ensureDoctor(doctorId);
+
+    const existing = await scheduleRepository.findWorkScheduleDay(doctorId, dayOfWeek);
+    if (!existing) {
+      throw ApiError.notFound('Work schedule not found for this day');
+    }
+
+    await scheduleRepository.deleteWorkSchedule(doctorId, dayOfWeek);
+
+    logger.info('Work schedule day removed', { doctorId, dayOfWeek });
+  }
+
+  // ============================================
+  // BLOCKED TIMES
+  // ============================================
+
+  /**
+   * List blocked times of a doctor
+   * @param doctorId - Doctor user ID
+   * @param startDate - Optional window start
+   * @param endDate - Optional window end
+   */
+  async listBlockedTimes(
+    doctorId: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<BlockedTime[]> {
+    await this.ensureDoctor(doctorId);
+
+    const start = startDate ? this.normalizeDate(startDate) : undefined;
+    const end = endDate ? this.normalizeDate(endDate) : undefined;
+
+    if (start && end && start > end) {
+      throw ApiError.badRequest('Start date must be before end date');
+    }
+
+    return scheduleRepository.findBlockedTimes(doctorId, start, end);
+  }
+
+  /**
+   * Get blocked time by ID
+   * @param id - Blocked time ID
+   */
+  async getBlockedTimeById(id: string): Promise<BlockedTime> {
+    const blockedTime = await scheduleRepository.findBlockedTimeById(id);
+
+    if (!blockedTime) {
+      throw ApiError.notFound('Blocked time not found');
+    }
+
+    return blockedTime;
+  }
+
+  /**
+   * Create blocked time
+   * Returns the appointments that overlap the block so they can be rescheduled
+   * @param data - Blocked time data
+   */
+  async createBlockedTime(data: CreateBlockedTimeData): Promise<BlockedTimeResult> {
+    await this.ensureDoctor(data.doctorId);
+
+    const record = this.buildBlockedTimeRecord(data.doctorId, data);
+
+    const blockedTime = await scheduleRepository.createBlockedTime(record);
+    const overlappingAppointments = await scheduleRepository.findOverlappingAppointments(record);
+
+    logger.info('Blocked time created', {
+      blockedTimeId: blockedTime.id,
+      doctorId: data.doctorId,
+      overlappingAppointments: overlappingAppointments.length,
+    });
+
+    return { blockedTime, overlappingAppointments };
+  }
+
+  /**
+   * Update blocked time
+   * Returns the appointments that overlap the updated block
+   * @param id - Blocked time ID
+   * @param data - Fields to update
+   */
+  async updateBlockedTime(id: string, data: UpdateBlockedTimeData): Promise<BlockedTimeResult> {
+    const existing = await this.getBlockedTimeById(id);
+
+    const record = this.buildBlockedTimeRecord(existing.doctorId, data, existing);
+
+    const blockedTime = await scheduleRepository.updateBlockedTime(id, record);
+    const overlappingAppointments = await scheduleRepository.findOverlappingAppointments(record);
+
+    logger.info('Blocked time updated', {
+      blockedTimeId: id,
+      doctorId: existing.doctorId,
+      overlappingAppointments: overlappingAppointments.length,
+    });
+
+    return { blockedTime, overlappingAppointments };
+  }
+
+  /**
+   * Delete blocked time
+   * @param id - Blocked time ID
+   */
+  async deleteBlockedTime(id: string): Promise<void> {
+    const existing = await this.getBlockedTimeById(id);
+
+    await scheduleRepository.deleteBlockedTime(id);
+
+    logger.info('Blocked time deleted', {
+      blockedTimeId: id,
+      doctorId: existing.doctorId,
+    });
+  }
+}
+
+// Export singleton instance
+export const scheduleService = new ScheduleService();
+export default scheduleService;
@@ -0,0 +1,516 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { InvoiceStatus, Prisma, SriStatus } from '@prisma/client';
+import { env } from '@config/env';
+import { ApiError } from '@utils/ApiError';
+import logger from '@utils/logger';
+import { accountingRepository } from '@repositories/accounting.repository';
+import { loadPkcs12Certificate, signXades } from '@utils/xades';
+import {
+  SRI_BUYER_IDENTIFICATION_CODES,
+  SRI_DEFAULT_PAYMENT_METHOD,
+  SRI_INVOICE_DOCUMENT_TYPE,
+  SRI_PAYMENT_METHOD_CODES,
+  buildInvoiceXml,
+  buildIvaTax,
+  generateAccessKey,
+  getIvaRateCode,
+} from '@utils/sri';
+import type { InvoiceResponse } from '../types/accounting.types';
+import type {
+  SriAuthorizationResult,
+  SriCertificate,
+  SriEnvironment,
+  SriInvoiceDocument,
+  SriMessage,
+  SriReceptionResult,
+  SriSignedXmlFile,
+  SriTransport,
+} from '../types/sri.types';
+
+const SIGNED_XML_DIRECTORY = 'sri';
+
+const SRI_HOSTS: Record<SriEnvironment, string> = {
+  '1': 'https://celcer.sri.gob.ec',
+  '2': 'https://cel.sri.gob.ec',
+};
+const RECEPTION_PATH = '/comprobantes-electronicos-ws/RecepcionComprobantesOffline';
+const AUTHORIZATION_PATH = '/comprobantes-electronicos-ws/AutorizacionComprobantesOffline';
+const SOAP_TIMEOUT_MS = 30000;
+
+type SriInvoice = NonNullable<Awaited<ReturnType<typeof accountingRepository.findInvoiceForSri>>>;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toJson = (messages: SriMessage[]): Prisma.InputJsonValue => messages.map((message) => ({ ...message }));
+
+/**
+ * ============================================
+ * TRANSPORTS
+ * ============================================
+ */
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+const readTag = (xml: string, tag: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match?.[1] !== undefined ? decodeXml(match[1]) : undefined;
+};
+
+/**
+ * Messages of a reception or authorization response
+ */
+const readMessages = (xml: string): SriMessage[] =>
+  [
+    ...xml.matchAll(
+      /<mensaje>\s*<identificador>([\s\S]*?)<\/identificador>\s*<mensaje>([\s\S]*?)<\/mensaje>\s*(?:<informacionAdicional>([\s\S]*?)<\/informacionAdicional>\s*)?<tipo>([\s\S]*?)<\/tipo>/g
+    ),
+  ].map(([, identifier, message, additionalInfo, type]) => ({
+    identifier: decodeXml(identifier ?? ''),
+    message: decodeXml(message ?? ''),
+    ...(additionalInfo ? { additionalInfo: decodeXml(additionalInfo) } : {}),
+    type: decodeXml(type ?? ''),
+  }));
+
+/**
+ * SRI offline web services (SRI_ENVIRONMENT selects pruebas or producción)
+ */
+export class SoapSriTransport implements SriTransport {
+  readonly name = 'soap';
+  private readonly host: string;
+
+  constructor(environment: SriEnvironment = env.SRI_ENVIRONMENT) {
+    this.host = SRI_HOSTS[environment];
+  }
+
+  async submit(signedXml: string): Promise<SriReceptionResult> {
+    const response = await this.call(
+      RECEPTION_PATH,
+      'http://ec.gob.sri.ws.recepcion',
+      `<ec:validarComprobante><xml>${Buffer.from(signedXml, 'utf8').toString('base64')}</xml></ec:validarComprobante>`
+    );
+
+    return {
+      status: readTag(response, 'estado') === 'RECIBIDA' ? 'RECIBIDA' : 'DEVUELTA',
+      messages: readMessages(response),
+    };
+  }
+
+  async authorize(accessKey: string): Promise<SriAuthorizationResult> {
+    const response = await this.call(
+      AUTHORIZATION_PATH,
+      'http://ec.gob.sri.ws.autorizacion',
+      `<ec:autorizacionComprobante><claveAccesoComprobante>${accessKey}</claveAccesoComprobante></ec:autorizacionComprobante>`
+    );
+
+    const authorization = readTag(response, 'autorizacion');
+    if (!authorization) {
+      return { status: 'EN PROCESO', messages: [] };
+    }
+
+    const status = readTag(authorization, 'estado');
+    const authorizedAt = readTag(authorization, 'fechaAutorizacion');
+
+    return {
+      status: status === 'AUTORIZADO' || status === 'NO AUTORIZADO' ? status : 'EN PROCESO',
+      authorizationNumber: readTag(authorization, 'numeroAutorizacion'),
+      authorizedAt: authorizedAt ? new Date(authorizedAt) : undefined,
+      messages: readMessages(authorization),
+    };
+  }
+
+  private async call(servicePath: string, namespace: string, body: string): Promise<string> {
+    const response = await fetch(`${this.host}${servicePath}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/xml; charset=utf-8', SOAPAction: '' },
+      body:
+        `<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ec="${namespace}">` +
+        `<soapenv:Header></soapenv:Header><soapenv:Body>${body}</soapenv:Body></soapenv:Envelope>`,
+      signal: AbortSignal.timeout(SOAP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SRI web service responded ${response.status}`);
+    }
+
+    return response.text();
+  }
+}
+
+/**
+ * File transport for development
+ * Writes each signed document and simulates its reception and authorization
+ */
+export class FileSriTransport implements SriTransport {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string = env.SRI_FILE_PATH) {}
+
+  async submit(signedXml: string, accessKey: string): Promise<SriReceptionResult> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const filePath = path.join(this.directory, `${accessKey}.xml`);
+    await fs.writeFile(filePath, signedXml, 'utf8');
+
+    logger.info('SRI document written to file', { accessKey, file: filePath });
+
+    return { status: 'RECIBIDA', messages: [] };
+  }
+
+  async authorize(accessKey: string): Promise<SriAuthorizationResult> {
+    return {
+      status: 'AUTORIZADO',
+      authorizationNumber: accessKey,
+      authorizedAt: new Date(),
+      messages: [],
+    };
+  }
+}
+
+/**
+ * In-memory transport for tests
+ * Keeps every submitted document; the results can be set per test
+ */
+export class InMemorySriTransport implements SriTransport {
+  readonly name = 'memory';
+  readonly documents = new Map<string, string>();
+  reception: SriReceptionResult = { status: 'RECIBIDA', messages: [] };
+  authorization: SriAuthorizationResult = { status: 'AUTORIZADO', messages: [] };
+
+  async submit(signedXml: string, accessKey: string): Promise<SriReceptionResult> {
+    this.documents.set(accessKey, signedXml);
+    return this.reception;
+  }
+
+  async authorize(accessKey: string): Promise<SriAuthorizationResult> {
+    return {
+      authorizationNumber: accessKey,
+      authorizedAt: this.authorization.status === 'AUTORIZADO' ? new Date() : undefined,
+      ...this.authorization,
+    };
+  }
+
+  clear(): void {
+    this.documents.clear();
+  }
+}
+
+/**
+ * Create the transport selected by SRI_TRANSPORT
+ */
+export const createSriTransport = (): SriTransport => {
+  switch (env.SRI_TRANSPORT) {
+    case 'soap':
+      return new SoapSriTransport();
+    case 'memory':
+      return new InMemorySriTransport();
+    case 'file':
+    default:
+      return new FileSriTransport();
+  }
+};
+
+/**
+ * ============================================
+ * SERVICE
+ * ============================================
+ */
+
+/**
+ * SRI Service
+ * Builds, signs and submits electronic invoices (factura electrónica)
+ */
+export class SriService {
+  private transport: SriTransport | null = null;
+  private certificate: SriCertificate | null = null;
+
+  /**
+   * Replace the transport (tests use InMemorySriTransport)
+   * @param transport - Transport to use from now on
+   */
+  setTransport(transport: SriTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Get the current transport, creating it on first use
+   */
+  getTransport(): SriTransport {
+    if (!this.transport) {
+      this.transport = createSriTransport();
+    }
+
+    return this.transport;
+  }
+
+  /**
+   * Replace the signing certificate (tests use a generated one)
+   * @param certificate - Key and certificate to sign with
+   */
+  setCertificate(certificate: SriCertificate): void {
+    this.certificate = certificate;
+  }
+
+  /**
+   * Sign an issued invoice, submit it to the SRI and record the result
+   * A document already received is only queried for its authorization;
+   * one not authorized gets a new access key on the next submission.
+   */
+  async submitInvoice(id: string): Promise<InvoiceResponse> {
+    if (!env.SRI_ENABLED) {
+      throw ApiError.notFound('SRI electronic invoicing is not enabled');
+    }
+
+    const invoice = await accountingRepository.findInvoiceForSri(id);
+
+    if (!invoice) {
+      throw ApiError.notFound('Invoice not found');
+    }
+
+    if (invoice.status === InvoiceStatus.DRAFT || invoice.status === InvoiceStatus.VOID) {
+      throw ApiError.conflict(`Cannot send an invoice in ${invoice.status} status to the SRI`);
+    }
+
+    if (invoice.sriStatus === SriStatus.AUTHORIZED) {
+      throw ApiError.conflict('Invoice is already authorized by the SRI');
+    }
+
+    if (!env.CLINIC_RUC || !/^\d{13}$/.test(env.CLINIC_RUC) || !env.CLINIC_ADDRESS) {
+      throw ApiError.badRequest('CLINIC_RUC (13 digits) and CLINIC_ADDRESS are required for electronic invoicing');
+    }
+
+    if (getIvaRateCode(Number(invoice.taxRate)) === null) {
+      throw ApiError.badRequest(`Tax rate ${Number(invoice.taxRate)} has no SRI code`);
+    }
+
+    const transport = this.getTransport();
+    const accessKey = invoice.accessKey ?? this.generateInvoiceAccessKey(invoice, env.CLINIC_RUC);
+
+    try {
+      if (invoice.sriStatus !== SriStatus.RECEIVED || !invoice.accessKey) {
+        const document = this.buildInvoiceDocument(invoice, accessKey, env.CLINIC_RUC, env.CLINIC_ADDRESS);
+        const signedXml = signXades(buildInvoiceXml(document), await this.getCertificate());
+
+        await this.writeSignedXml(accessKey, signedXml);
+        if (!invoice.accessKey) {
+          await accountingRepository.updateInvoiceSri(id, { accessKey });
+        }
+
+        const reception = await transport.submit(signedXml, accessKey);
+
+        if (reception.status === 'DEVUELTA') {
+          logger.warn('SRI returned invoice', { invoiceId: id, accessKey, messages: reception.messages });
+
+          return accountingRepository.updateInvoiceSri(id, {
+            sriStatus: SriStatus.REJECTED,
+            sriMessages: toJson(reception.messages),
+          });
+        }
+      }
+
+      const authorization = await transport.authorize(accessKey);
+
+      if (authorization.status === 'EN PROCESO') {
+        logger.info('SRI received invoice, authorization pending', { invoiceId: id, accessKey });
+
+        return accountingRepository.updateInvoiceSri(id, {
+          sriStatus: SriStatus.RECEIVED,
+          sriMessages: toJson(authorization.messages),
+        });
+      }
+
+      if (authorization.status === 'NO AUTORIZADO') {
+        logger.warn('SRI did not authorize invoice', { invoiceId: id, accessKey, messages: authorization.messages });
+
+        return accountingRepository.updateInvoiceSri(id, {
+          accessKey: null,
+          sriStatus: SriStatus.REJECTED,
+          sriMessages: toJson(authorization.messages),
+        });
+      }
+
+      logger.info('SRI authorized invoice', { invoiceId: id, number: invoice.number, accessKey });
+
+      return accountingRepository.updateInvoiceSri(id, {
+        sriStatus: SriStatus.AUTHORIZED,
+        sriAuthorizedAt: authorization.authorizedAt ?? new Date(),
+        sriMessages: toJson(authorization.messages),
+      });
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      logger.error('Error submitting invoice to the SRI', { invoiceId: id, accessKey, error });
+      throw ApiError.serviceUnavailable('Could not submit the invoice to the SRI, please retry');
+    }
+  }
+
+  /**
+   * Get the signed XML of an invoice sent to the SRI
+   */
+  async getSignedXml(id: string): Promise<SriSignedXmlFile> {
+    const invoice = await accountingRepository.findInvoiceById(id);
+
+    if (!invoice) {
+      throw ApiError.notFound('Invoice not found');
+    }
+
+    if (!invoice.accessKey) {
+      throw ApiError.notFound('Invoice has not been sent to the SRI');
+    }
+
+    let content: Buffer;
+    try {
+      content = await fs.readFile(this.getSignedXmlPath(invoice.accessKey));
+    } catch {
+      throw ApiError.notFound('Signed XML not found');
+    }
+
+    return {
+      content,
+      contentType: 'application/xml',
+      filename: `factura-${invoice.number ?? invoice.id}.xml`,
+    };
+  }
+
+  /**
+   * Access key of an issued invoice with a random numeric code
+   */
+  private generateInvoiceAccessKey(invoice: SriInvoice, ruc: string): string {
+    const [establishment, emissionPoint] = (invoice.number ?? '').split('-');
+
+    return generateAccessKey({
+      issueDate: invoice.issueDate ?? new Date(),
+      documentType: SRI_INVOICE_DOCUMENT_TYPE,
+      ruc,
+      environment: env.SRI_ENVIRONMENT,
+      establishment: establishment ?? env.INVOICE_ESTABLISHMENT,
+      emissionPoint: emissionPoint ?? env.INVOICE_EMISSION_POINT,
+      sequence: invoice.sequence ?? 0,
+      numericCode: String(crypto.randomInt(0, 100000000)).padStart(8, '0'),
+    });
+  }
+
+  /**
+   * SRI document of an invoice: IVA per line and per rate, payments per
+   * payment method and the unpaid balance as "otros con utilización del sistema financiero"
+   */
+  private buildInvoiceDocument(
+    invoice: SriInvoice,
+    accessKey: string,
+    ruc: string,
+    address: string
+  ): SriInvoiceDocument {
+    const taxRate = Number(invoice.taxRate);
+
+    const lines = invoice.items.map((item) => {
+      const total = Number(item.total);
+
+      return {
+        code: item.catalog?.code ?? item.treatment?.catalog.code ?? `ITEM-${item.sequence}`,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: Number(item.unitPrice),
+        discount: Number(item.discount),
+        total,
+        tax: buildIvaTax(total, item.taxable ? taxRate : 0),
+      };
+    });
+
+    const bases = new Map<number, number>();
+    invoice.items.forEach((item) => {
+      const rate = item.taxable ? taxRate : 0;
+      bases.set(rate, (bases.get(rate) ?? 0) + Number(item.total));
+    });
+
+    const payments = new Map<string, number>();
+    invoice.payments.forEach((payment) => {
+      const method = SRI_PAYMENT_METHOD_CODES[payment.paymentMethod];
+      payments.set(method, (payments.get(method) ?? 0) + Number(payment.amount));
+    });
+    if (Number(invoice.balance) > 0) {
+      payments.set(
+        SRI_DEFAULT_PAYMENT_METHOD,
+        (payments.get(SRI_DEFAULT_PAYMENT_METHOD) ?? 0) + Number(invoice.balance)
+      );
+    }
+
+    const [establishment, emissionPoint] = (invoice.number ?? '').split('-');
+
+    return {
+      environment: env.SRI_ENVIRONMENT,
+      accessKey,
+      issuer: {
+        ruc,
+        businessName: env.SRI_BUSINESS_NAME ?? env.CLINIC_NAME,
+        tradeName: env.SRI_BUSINESS_NAME ? env.CLINIC_NAME : undefined,
+        address,
+        accountingRequired: env.SRI_ACCOUNTING_REQUIRED,
+      },
+      establishment: establishment ?? env.INVOICE_ESTABLISHMENT,
+      emissionPoint: emissionPoint ?? env.INVOICE_EMISSION_POINT,
+      sequence: invoice.sequence ?? 0,
+      issueDate: invoice.issueDate ?? new Date(),
+      buyer: {
+        identificationType: SRI_BUYER_IDENTIFICATION_CODES[invoice.patient.identificationType],
+        identification: invoice.patient.identification,
+        name: `${invoice.patient.firstName} ${invoice.patient.lastName}`,
+        address: invoice.patient.address,
+        email: invoice.patient.email,
+        phone: invoice.patient.phone,
+      },
+      lines,
+      totals: {
+        subtotal: round(Number(invoice.subtotal) - Number(invoice.discount)),
+        discount: Number(invoice.discount),
+        taxes: [...bases.entries()].map(([rate, base]) => buildIvaTax(base, rate)),
+        total: Number(invoice.total),
+      },
+      payments: [...payments.entries()].map(([method, amount]) => ({ method, amount: round(amount) })),
+    };
+  }
+
+  /**
+   * Load the signing certificate on first use (SRI_CERTIFICATE_PATH, SRI_CERTIFICATE_PASSWORD)
+   */
+  private async getCertificate(): Promise<SriCertificate> {
+    if (this.certificate) {
+      return this.certificate;
+    }
+
+    if (!env.SRI_CERTIFICATE_PATH) {
+      throw ApiError.badRequest('SRI_CERTIFICATE_PATH is required to sign electronic invoices');
+    }
+
+    try {
+      const content = await fs.readFile(env.SRI_CERTIFICATE_PATH);
+      this.certificate = loadPkcs12Certificate(content, env.SRI_CERTIFICATE_PASSWORD ?? '');
+    } catch (error) {
+      logger.error('Error loading the electronic signature certificate', { error });
+      throw ApiError.internal('Could not load the electronic signature certificate');
+    }
+
+    return this.certificate;
+  }
+
+  private async writeSignedXml(accessKey: string, signedXml: string): Promise<void> {
+    const filePath = this.getSignedXmlPath(accessKey);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, signedXml, 'utf8');
+  }
+
+  private getSignedXmlPath(accessKey: string): string {
+    return path.join(env.UPLOAD_PATH, SIGNED_XML_DIRECTORY, `${accessKey}.xml`);
+  }
+}
+
+// Export singleton instance
+export const sriService = new SriService();
+export default sriService;
@@ -0,0 +1,280 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import { User } from '@prisma/client';
+import { env } from '@config/env';
+import { ApiError } from '@utils/ApiError';
+import { loggers } from '@utils/logger';
+import { buildOtpAuthUri, generateSecret, verifyCode } from '@utils/totp';
+import { authRepository } from '@repositories/auth.repository';
+import type {
+  LoginTwoFactorData,
+  RecoveryCodesResponse,
+  TwoFactorSetupResponse,
+  TwoFactorStatus,
+} from '../types/auth.types';
+
+/**
+ * Name shown in authenticator apps
+ */
+const TOTP_ISSUER = 'Soldent';
+
+/**
+ * Number of recovery codes issued at a time
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Two-Factor Service
+ * TOTP enrollment, verification and recovery codes
+ */
+export class TwoFactorService {
+  /**
+   * Check whether two-factor authentication is enabled for this deployment
+   */
+  isFeatureEnabled(): boolean {
+    return env.FEATURE_TWO_FACTOR_AUTH;
+  }
+
+  /**
+   * Get the two-factor status of a user
+   * @param userId - User ID
+   */
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    this.ensureFeatureEnabled();
+
+    const user = await this.getUser(userId);
+    const recoveryCodesRemaining = user.twoFactorEnabled
+      ? await authRepository.countUnusedRecoveryCodes(userId)
+      : 0;
+
+    return {
+      enabled: user.twoFactorEnabled,
+      required: user.role.requireTwoFactor,
+      confirmedAt: user.twoFactorConfirmedAt,
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * Start enrollment: generate a secret and its otpauth URI
+   * The secret is stored as pending until confirmed with a code
+   * @param userId - User ID
+   */
+  async setup(userId: string): Promise<TwoFactorSetupResponse> {
+    this.ensureFeatureEnabled();
+
+    const user = await this.getUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw ApiError.conflict('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateSecret();
+    await authRepository.setPendingTwoFactorSecret(userId, secret);
+
+    loggers.auth('two_factor_setup_started', userId, true, { email: user.email });
+
+    return {
+      secret,
+      otpauthUri: buildOtpAuthUri(secret, user.email, TOTP_ISSUER),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   * @param userId - User ID
+   * @param code - TOTP code
+   * @returns Recovery codes (shown once)
+   */
+  async confirm(userId: string, code: string): Promise<RecoveryCodesResponse> {
+    this.ensureFeatureEnabled();
+
+    const user = await this.getUser(userId);
+
+    if (user.twoFactorEnabled) {
+      throw ApiError.conflict('Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw ApiError.badRequest('Two-factor setup has not been started');
+    }
+
+    const step = verifyCode(user.twoFactorSecret, code);
+    if (step === null) {
+      loggers.security('Invalid two-factor confirmation code', 'low', { userId });
+      throw ApiError.unauthorized('Invalid two-factor code');
+    }
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await authRepository.enableTwoFactor(userId, step, hashes);
+
+    loggers.security('Two-factor authentication enabled', 'low', {
+      userId,
+      email: user.email,
+    });
+
+    return { recoveryCodes: codes };
+  }
+
+  /**
+   * Disable two-factor authentication
+   * Not allowed when the user's role requires it
+   * @param userId - User ID
+   * @param password - Current password
+   * @param code - TOTP code
+   */
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    this.ensureFeatureEnabled();
+
+    const user = await this.getUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw ApiError.badRequest('Two-factor authentication is not enabled');
+    }
+
+    if (user.role.requireTwoFactor) {
+      throw ApiError.forbidden('Two-factor authentication is required for your role');
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      loggers.security('Two-factor disable attempt with invalid password', 'medium', { userId });
+      throw ApiError.unauthorized('Current password is incorrect');
+    }
+
+    await this.verifyTotpOrThrow(user, code);
+    await authRepository.disableTwoFactor(userId);
+
+    loggers.security('Two-factor authentication disabled', 'medium', {
+      userId,
+      email: user.email,
+    });
+  }
+
+  /**
+   * Replace the recovery codes of a user
+   * @param userId - User ID
+   * @param code - TOTP code
+   * @returns New recovery codes (shown once)
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<RecoveryCodesResponse> {
+    this.ensureFeatureEnabled();
+
+    const user = await this.getUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw ApiError.badRequest('Two-factor authentication is not enabled');
+    }
+
+    await this.verifyTotpOrThrow(user, code);
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await authRepository.replaceRecoveryCodes(userId, hashes);
+
+    loggers.security('Two-factor recovery codes regenerated', 'low', {
+      userId,
+      email: user.email,
+    });
+
+    return { recoveryCodes: codes };
+  }
+
+  /**
+   * Verify the second login factor
+   * TOTP codes are accepted once; recovery codes are consumed
+   * @param user - User completing the login
+   * @param data - TOTP code or recovery code
+   * @returns true if the factor is valid
+   */
+  async verifyLoginFactor(user: User, data: Omit<LoginTwoFactorData, 'challengeToken'>): Promise<boolean> {
+    if (data.recoveryCode) {
+      const used = await authRepository.useRecoveryCode(
+        user.id,
+        this.hashRecoveryCode(data.recoveryCode)
+      );
+
+      if (used) {
+        const remaining = await authRepository.countUnusedRecoveryCodes(user.id);
+        loggers.security('Two-factor recovery code used', 'medium', {
+          userId: user.id,
+          remaining,
+        });
+      }
+
+      return used;
+    }
+
+    if (!data.code || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyCode(user.twoFactorSecret, data.code);
+    if (step === null) {
+      return false;
+    }
+
+    return authRepository.markTwoFactorStepUsed(user.id, step);
+  }
+
+  /**
+   * Ensure the feature flag is on
+   */
+  private ensureFeatureEnabled(): void {
+    if (!this.isFeatureEnabled()) {
+      throw ApiError.notFound('Two-factor authentication is not enabled');
+    }
+  }
+
+  /**
+   * Get user with role or throw
+   */
+  private async getUser(userId: string) {
+    const user = await authRepository.findUserById(userId);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Verify a TOTP code for a sensitive action
+   */
+  private async verifyTotpOrThrow(user: User, code: string): Promise<void> {
+    const isValid = await this.verifyLoginFactor(user, { code });
+
+    if (!isValid) {
+      loggers.security('Invalid two-factor code', 'medium', { userId: user.id });
+      throw ApiError.unauthorized('Invalid two-factor code');
+    }
+  }
+
+  /**
+   * Generate recovery codes and their hashes
+   * Format: xxxxx-xxxxx (hex)
+   */
+  private generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return {
+      codes,
+      hashes: codes.map((code) => this.hashRecoveryCode(code)),
+    };
+  }
+
+  /**
+   * Hash a recovery code for storage (dash and case insensitive)
+   */
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.trim().toLowerCase().replace(/-/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+}
+
+// Export singleton instance
+export const twoFactorService = new TwoFactorService();
+export default twoFactorService;
@@ -0,0 +1,233 @@
+import bcrypt from 'bcryptjs';
+import { env } from '@config/env';
+import { ApiError } from '@utils/ApiError';
+import { loggers } from '@utils/logger';
+import logger from '@utils/logger';
+import { userRepository, DOCTOR_ROLE } from '@repositories/user.repository';
+import { authRepository } from '@repositories/auth.repository';
+import type {
+  UpdateUserData,
+  UserListOptions,
+  PaginatedUserResponse,
+  SafeUserWithRole,
+  DoctorSummary,
+} from '../types/user.types';
+import type { LoginHistoryOptions, PaginatedLoginHistory } from '../types/auth.types';
+
+/**
+ * User Service
+ * Handles all business logic related to staff users
+ */
+export class UserService {
+  /**
+   * Get all users with optional filters and pagination
+   * @param options - Filter, pagination and sorting options
+   * @returns Paginated list of users
+   */
+  async getAllUsers(options: UserListOptions = {}): Promise<PaginatedUserResponse> {
+    try {
+      return await userRepository.findAll(options);
+    } catch (error) {
+      logger.error('Error fetching users', error);
+      throw ApiError.internal('Failed to fetch users');
+    }
+  }
+
+  /**
+   * Get user by ID
+   * @param id - User ID
+   * @returns User without password
+   */
+  async getUserById(id: string): Promise<SafeUserWithRole> {
+    const user = await userRepository.findById(id);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Get active doctors
+   * Used to populate doctor pickers in appointment forms
+   * @returns Doctors ordered by name
+   */
+  async getDoctors(): Promise<DoctorSummary[]> {
+    try {
+      return await userRepository.findDoctors();
+    } catch (error) {
+      logger.error('Error fetching doctors', error);
+      throw ApiError.internal('Failed to fetch doctors');
+    }
+  }
+
+  /**
+   * Update user profile data
+   * @param id - User ID
+   * @param data - User update data
+   * @returns Updated user
+   */
+  async updateUser(id: string, data: UpdateUserData): Promise<SafeUserWithRole> {
+    await this.getUserById(id);
+
+    const user = await userRepository.update(id, data);
+
+    logger.info('User updated successfully', {
+      userId: id,
+      fields: Object.keys(data),
+    });
+
+    return user;
+  }
+
+  /**
+   * Soft delete user
+   * Deactivates the account and closes all of its sessions
+   * @param id - User ID
+   * @param actorId - User performing the deletion
+   */
+  async deleteUser(id: string, actorId: string): Promise<void> {
+    if (id === actorId) {
+      throw ApiError.badRequest('You cannot delete your own account');
+    }
+
+    const user = await this.getUserById(id);
+
+    if (user.role.name === DOCTOR_ROLE) {
+      const upcomingAppointments = await userRepository.countUpcomingAppointments(id);
+
+      if (upcomingAppointments > 0) {
+        throw ApiError.badRequest(
+          'Cannot delete a doctor with upcoming appointments. Please reassign or cancel them first.'
+        );
+      }
+    }
+
+    await userRepository.softDelete(id);
+    await authRepository.revokeAllRefreshTokens(id);
+
+    loggers.security('User account deleted', 'medium', {
+      userId: id,
+      email: user.email,
+      deletedBy: actorId,
+    });
+  }
+
+  /**
+   * Reactivate a deactivated or soft-deleted user
+   * @param id - User ID
+   * @param actorId - User performing the reactivation
+   * @returns Reactivated user
+   */
+  async reactivateUser(id: string, actorId: string): Promise<SafeUserWithRole> {
+    const user = await userRepository.findById(id, true);
+
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+
+    if (user.isActive && !user.deletedAt) {
+      throw ApiError.badRequest('User is already active');
+    }
+
+    const reactivated = await userRepository.reactivate(id);
+
+    loggers.security('User account reactivated', 'low', {
+      userId: id,
+      email: user.email,
+      reactivatedBy: actorId,
+    });
+
+    return reactivated;
+  }
+
+  /**
+   * Reset another user's password as admin
+   * Closes all sessions of the user
+   * @param id - User ID
+   * @param password - New password
+   * @param actorId - User performing the reset
+   */
+  async resetUserPassword(id: string, password: string, actorId: string): Promise<void> {
+    if (id === actorId) {
+      throw ApiError.badRequest('Use change-password to update your own password');
+    }
+
+    const user = await this.getUserById(id);
+
+    const hashedPassword = await bcrypt.hash(password, env.BCRYPT_ROUNDS);
+
+    await userRepository.updatePassword(id, hashedPassword);
+    await authRepository.revokeAllRefreshTokens(id);
+
+    loggers.security('Password reset by administrator', 'medium', {
+      userId: id,
+      email: user.email,
+      resetBy: actorId,
+    });
+  }
+
+  /**
+   * Get the login history of a user
+   * @param id - User ID
+   * @param options - Filters and pagination
+   * @returns Paginated login attempts, newest first
+   */
+  async getLoginHistory(
+    id: string,
+    options: LoginHistoryOptions = {}
+  ): Promise<PaginatedLoginHistory> {
+    await this.getUserById(id);
+
+    return authRepository.findLoginAttempts(id, options);
+  }
+
+  /**
+   * Clear the failed login counter and lockout of a user
+   * @param id - User ID
+   * @param actorId - User performing the unlock
+   */
+  async unlockUser(id: string, actorId: string): Promise<void> {
+    const user = await this.getUserById(id);
+
+    await authRepository.resetFailedLogins(id);
+
+    loggers.security('Account unlocked by administrator', 'low', {
+      userId: id,
+      email: user.email,
+      unlockedBy: actorId,
+    });
+  }
+
+  /**
+   * Reset two-factor authentication of another user (lost device)
+   * Removes the secret and recovery codes; the user must enroll again
+   * @param id - User ID
+   * @param actorId - User performing the reset
+   */
+  async resetTwoFactor(id: string, actorId: string): Promise<void> {
+    if (id === actorId) {
+      throw ApiError.badRequest('Use the two-factor settings to manage your own account');
+    }
+
+    const user = await this.getUserById(id);
+
+    if (!user.twoFactorEnabled) {
+      throw ApiError.badRequest('Two-factor authentication is not enabled for this user');
+    }
+
+    await authRepository.disableTwoFactor(id);
+    await authRepository.revokeAllRefreshTokens(id);
+
+    loggers.security('Two-factor authentication reset by administrator', 'high', {
+      userId: id,
+      email: user.email,
+      resetBy: actorId,
+    });
+  }
+}
+
+// Export singleton instance
+export const userService = new UserService();
+export default userService;
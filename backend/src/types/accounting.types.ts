@@ -6,6 +6,9 @@ import {
   PaymentPlanStatus,
   // InstallmentStatus,
   ExpenseCategory,
+  InvoiceStatus,
+  SriStatus,
+  Prisma,
 } from '@prisma/client';
 
 /**
@@ -101,10 +104,68 @@ export const createPatientPaymentSchema = z.object({
     .min(3, 'Concept must be at least 3 characters')
     .max(200, 'Concept must not exceed 200 characters'),
   installmentId: z.string().uuid().optional(),
+  invoiceId: z.string().uuid().optional(),
   notes: z.string().max(500).optional(),
   receiptNumber: z.string().max(50).optional(),
 });
 
+/**
+ * Invoice schemas
+ * An item comes from a performed treatment, a catalog procedure or is a free concept;
+ * treatment and catalog items take their description and price unless given
+ */
+const invoiceItemSchema = z
+  .object({
+    treatmentId: z.string().uuid().optional(),
+    catalogId: z.string().uuid().optional(),
+    description: z.string().min(1).max(255).optional(),
+    quantity: z.number().int().positive().max(1000).default(1),
+    unitPrice: z.number().min(0).optional(),
+    discount: z.number().min(0).default(0),
+    taxable: z.boolean().optional(),
+  })
+  .refine((item) => !(item.treatmentId && item.catalogId), {
+    message: 'Provide either treatmentId or catalogId, not both',
+  })
+  .refine(
+    (item) => item.treatmentId || item.catalogId || (item.description && item.unitPrice !== undefined),
+    { message: 'Items without treatment or catalog need a description and a unit price' }
+  );
+
+export const createInvoiceSchema = z.object({
+  patientId: z.string().uuid('Invalid patient ID'),
+  dueDate: z.string().datetime().optional(),
+  notes: z.string().max(1000).optional(),
+  items: z.array(invoiceItemSchema).min(1, 'Invoice must have at least one item').max(100),
+});
+
+export const updateInvoiceSchema = z.object({
+  dueDate: z.string().datetime().nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+  items: z.array(invoiceItemSchema).min(1, 'Invoice must have at least one item').max(100).optional(),
+});
+
+export const issueInvoiceSchema = z.object({
+  dueDate: z.string().datetime().optional(),
+});
+
+export const voidInvoiceSchema = z.object({
+  reason: z
+    .string()
+    .min(3, 'Reason must be at least 3 characters')
+    .max(500, 'Reason must not exceed 500 characters'),
+});
+
+export const getInvoicesSchema = z.object({
+  status: z.nativeEnum(InvoiceStatus).optional(),
+  patientId: z.string().uuid().optional(),
+  search: z.string().max(100).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  page: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional(),
+});
+
 /**
  * Payment Plan schemas
  */
@@ -204,6 +265,10 @@ export const paymentPlanIdSchema = z.object({
   id: z.string().uuid('Invalid payment plan ID'),
 });
 
+export const invoiceIdSchema = z.object({
+  id: z.string().uuid('Invalid invoice ID'),
+});
+
 export const expenseIdSchema = z.object({
   id: z.string().uuid('Invalid expense ID'),
 });
@@ -266,17 +331,105 @@ export interface CreatePatientPaymentData {
   date?: string;
   concept: string;
   installmentId?: string;
+  invoiceId?: string;
   notes?: string;
   receiptNumber?: string;
   createdBy: string;
 }
 
+/**
+ * Invoice interfaces
+ */
+export type InvoiceItemInput = CreateInvoiceDTO['items'][number];
+
+export interface CreateInvoiceData extends CreateInvoiceDTO {
+  createdBy: string;
+}
+
+/**
+ * Invoice line with its description, price and total resolved
+ */
+export interface InvoiceLine {
+  sequence: number;
+  treatmentId: string | null;
+  catalogId: string | null;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  total: number;
+  taxable: boolean;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number;
+  taxableBase: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+export interface InvoiceFilters {
+  status?: InvoiceStatus;
+  patientId?: string;
+  search?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface InvoiceListOptions {
+  filters?: InvoiceFilters;
+  pagination?: {
+    page: number;
+    limit: number;
+  };
+}
+
+export interface InvoiceItemResponse extends InvoiceLine {
+  id: string;
+}
+
+export interface InvoiceResponse {
+  id: string;
+  number: string | null;
+  patientId: string;
+  patient: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    identification: string;
+  };
+  status: InvoiceStatus;
+  issueDate: Date | null;
+  dueDate: Date | null;
+  subtotal: number;
+  discount: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+  paidAmount: number;
+  balance: number;
+  notes: string | null;
+  voidedAt: Date | null;
+  voidReason: string | null;
+  accessKey: string | null;
+  sriStatus: SriStatus | null;
+  sriAuthorizedAt: Date | null;
+  sriMessages: Prisma.JsonValue;
+  createdBy: string;
+  items: InvoiceItemResponse[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Payment Plan interfaces
  */
 export interface CreatePaymentPlanData {
   patientId: string;
-  treatmentId: string;
+  treatmentId?: string;
+  treatmentPlanId?: string;
   totalAmount: number;
   totalInstallments: number;
   startDate?: string;
@@ -404,6 +557,17 @@ export interface PaginatedTransactionResponse {
   };
 }
 
+export interface PaginatedInvoiceResponse {
+  data: InvoiceResponse[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
 export interface PaginatedExpenseResponse {
   data: any[];
   pagination: {
@@ -428,6 +592,13 @@ export type TransactionIdDTO = z.infer<typeof transactionIdSchema>;
 export type CreatePatientPaymentDTO = z.infer<typeof createPatientPaymentSchema>;
 export type PaymentIdDTO = z.infer<typeof paymentIdSchema>;
 
+export type CreateInvoiceDTO = z.infer<typeof createInvoiceSchema>;
+export type UpdateInvoiceDTO = z.infer<typeof updateInvoiceSchema>;
+export type IssueInvoiceDTO = z.infer<typeof issueInvoiceSchema>;
+export type VoidInvoiceDTO = z.infer<typeof voidInvoiceSchema>;
+export type GetInvoicesDTO = z.infer<typeof getInvoicesSchema>;
+export type InvoiceIdDTO = z.infer<typeof invoiceIdSchema>;
+
 export type CreatePaymentPlanDTO = z.infer<typeof createPaymentPlanSchema>;
 export type UpdatePaymentPlanDTO = z.infer<typeof updatePaymentPlanSchema>;
 export type RecordPaymentDTO = z.infer<typeof recordPaymentSchema>;
@@ -93,6 +93,7 @@ export const updateAppointmentStatusSchema = z.object({
   status: z.nativeEnum(AppointmentStatus, {
     errorMap: () => ({ message: 'Invalid appointment status' }),
   }),
+  // Recorded in the status history as the reason of the change
   notes: z.string().max(500, 'Notes must not exceed 500 characters').optional(),
 });
 
@@ -241,6 +242,22 @@ export const cancelAppointmentSchema = z.object({
     .max(500, 'Cancellation reason must not exceed 500 characters'),
 });
 
+/**
+ * Reschedule appointment schema
+ * The replacement keeps patient, type, reason and notes; doctor and duration default to the original
+ */
+export const rescheduleAppointmentSchema = z.object({
+  date: dateSchema,
+  startTime: timeSchema,
+  duration: durationSchema.optional(),
+  doctorId: z.string().uuid('Invalid doctor ID').optional(),
+  reason: z
+    .string()
+    .min(3, 'Reschedule reason must be at least 3 characters')
+    .max(500, 'Reschedule reason must not exceed 500 characters')
+    .optional(),
+});
+
 /**
  * ============================================
  * TYPESCRIPT INTERFACES
@@ -393,10 +410,40 @@ export interface AppointmentResponse {
   reminderSent: boolean;
   reminderSentAt: Date | null;
   recurringAppointmentId: string | null;
+  /** Replacement of a rescheduled appointment */
+  rescheduledToId: string | null;
+  /** Appointment this one replaces */
+  rescheduledFromId: string | null;
+  /** Only returned for a single appointment */
+  statusHistory?: AppointmentStatusChangeResponse[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Status change of an appointment
+ */
+export interface AppointmentStatusChangeResponse {
+  id: string;
+  fromStatus: AppointmentStatus;
+  toStatus: AppointmentStatus;
+  reason: string | null;
+  changedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  createdAt: Date;
+}
+
+/**
+ * User changing the status of an appointment
+ */
+export interface AppointmentActor {
+  id: string;
+  role: string;
+}
+
 /**
  * Recurring appointment response
  */
@@ -427,6 +474,17 @@ export interface CancelAppointmentData {
   reason: string;
 }
 
+/**
+ * Reschedule appointment data
+ */
+export interface RescheduleAppointmentData {
+  date: string | Date;
+  startTime: string;
+  duration?: number;
+  doctorId?: string;
+  reason?: string;
+}
+
 /**
  * ============================================
  * DATA TRANSFER OBJECTS (DTOs)
@@ -473,6 +531,11 @@ export type ListAppointmentsDTO = z.infer<typeof listAppointmentsSchema>;
  */
 export type CancelAppointmentDTO = z.infer<typeof cancelAppointmentSchema>;
 
+/**
+ * Reschedule appointment DTO
+ */
+export type RescheduleAppointmentDTO = z.infer<typeof rescheduleAppointmentSchema>;
+
 /**
  * ============================================
  * UTILITY TYPES
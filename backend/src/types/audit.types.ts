@@ -0,0 +1,334 @@
+import { z } from 'zod';
+import { AuditAction, AuditLog, PatientAccessLog, PatientAccessResource } from '@prisma/client';
+
+/**
+ * ============================================
+ * ZOD VALIDATION SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Date validation schema
+ * Must be a valid ISO date string
+ */
+const dateSchema = z
+  .string()
+  .datetime({ message: 'Invalid date format. Use ISO 8601 format' })
+  .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD'));
+
+/**
+ * Date range and pagination shared by all audit queries
+ */
+const auditQueryBaseSchema = z.object({
+  action: z
+    .nativeEnum(AuditAction, {
+      errorMap: () => ({ message: 'Invalid audit action' }),
+    })
+    .optional(),
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+
+  // Pagination
+  page: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional(),
+});
+
+/**
+ * Search audit log schema
+ * GET /audit-logs
+ */
+export const searchAuditLogsSchema = auditQueryBaseSchema
+  .extend({
+    entityType: z.string().min(1).max(50).optional(),
+    entityId: z.string().uuid('Invalid entity ID').optional(),
+    userId: z.string().uuid('Invalid user ID').optional(),
+    patientId: z.string().uuid('Invalid patient ID').optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+/**
+ * Audit log query schema for a patient, user or entity
+ */
+export const auditHistoryQuerySchema = auditQueryBaseSchema.refine(
+  (data) => !data.startDate || !data.endDate || new Date(data.endDate) >= new Date(data.startDate),
+  {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  }
+);
+
+/**
+ * Patient ID parameter schema
+ */
+export const auditPatientIdParamSchema = z.object({
+  patientId: z.string().uuid('Invalid patient ID'),
+});
+
+/**
+ * User ID parameter schema
+ */
+export const auditUserIdParamSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+});
+
+/**
+ * Entity parameters schema
+ */
+export const auditEntityParamSchema = z.object({
+  entityType: z.string().min(1).max(50),
+  entityId: z.string().uuid('Invalid entity ID'),
+});
+
+/**
+ * Patient access log query schema
+ * GET /patients/:id/access-log
+ */
+export const patientAccessLogQuerySchema = z
+  .object({
+    userId: z.string().uuid('Invalid user ID').optional(),
+    resource: z
+      .nativeEnum(PatientAccessResource, {
+        errorMap: () => ({ message: 'Invalid resource' }),
+      })
+      .optional(),
+    startDate: dateSchema.optional(),
+    endDate: dateSchema.optional(),
+
+    // Pagination
+    page: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+    limit: z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+/**
+ * Maximum number of days covered by one access anomaly report
+ */
+export const MAX_ACCESS_REPORT_DAYS = 31;
+
+/**
+ * Access anomaly report schema
+ * GET /audit-logs/access-anomalies
+ * Defaults to today (UTC days)
+ */
+export const accessAnomalyReportSchema = z
+  .object({
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD').optional(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD').optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  })
+  .refine(
+    (data) =>
+      !data.startDate ||
+      !data.endDate ||
+      (Date.parse(data.endDate) - Date.parse(data.startDate)) / 86400000 < MAX_ACCESS_REPORT_DAYS,
+    {
+      message: `The report can cover at most ${MAX_ACCESS_REPORT_DAYS} days`,
+      path: ['endDate'],
+    }
+  );
+
+/**
+ * ============================================
+ * TYPESCRIPT INTERFACES
+ * ============================================
+ */
+
+/**
+ * Audit log filters
+ */
+export interface AuditLogFilters {
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  patientId?: string;
+  action?: AuditAction;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Audit log list options
+ */
+export interface AuditLogListOptions {
+  filters?: AuditLogFilters;
+  pagination?: {
+    page: number;
+    limit: number;
+  };
+}
+
+/**
+ * Actor of an audit entry
+ */
+export interface AuditActor {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Audit entry with its actor
+ */
+export interface AuditLogWithActor extends AuditLog {
+  user: AuditActor | null;
+}
+
+/**
+ * Paginated audit log response
+ */
+export interface PaginatedAuditLogResponse {
+  data: AuditLogWithActor[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Hash chain verification result
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt: {
+    sequence: number;
+    id: string;
+    reason: 'HASH_MISMATCH' | 'CHAIN_MISMATCH';
+  } | null;
+}
+
+/**
+ * Patient access log filters
+ */
+export interface PatientAccessLogFilters {
+  userId?: string;
+  resource?: PatientAccessResource;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Patient access log list options
+ */
+export interface PatientAccessLogListOptions {
+  filters?: PatientAccessLogFilters;
+  pagination?: {
+    page: number;
+    limit: number;
+  };
+}
+
+/**
+ * Access entry with the user who opened the chart
+ */
+export interface PatientAccessLogWithUser extends PatientAccessLog {
+  user: AuditActor | null;
+}
+
+/**
+ * Paginated patient access log response
+ */
+export interface PaginatedPatientAccessLogResponse {
+  data: PatientAccessLogWithUser[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Charts opened by a user in one day
+ */
+export interface DailyAccessCount {
+  userId: string;
+  day: string; // YYYY-MM-DD (UTC)
+  patients: number; // Distinct patients
+  accesses: number;
+}
+
+/**
+ * Reason a user-day is flagged
+ * - HIGH_VOLUME: more distinct patients than the daily limit
+ * - ABOVE_BASELINE: several times the user's own daily average
+ */
+export type AccessAnomalyReason = 'HIGH_VOLUME' | 'ABOVE_BASELINE';
+
+/**
+ * Thresholds used by the access anomaly report
+ */
+export interface AccessAnomalyThresholds {
+  dailyPatients: number;
+  baselineDays: number;
+  baselineFactor: number;
+}
+
+/**
+ * Flagged user-day
+ */
+export interface AccessAnomaly {
+  userId: string;
+  user: AuditActor | null;
+  day: string;
+  patients: number;
+  accesses: number;
+  baselineAverage: number | null;
+  reasons: AccessAnomalyReason[];
+}
+
+/**
+ * Access anomaly report
+ */
+export interface AccessAnomalyReport {
+  period: {
+    startDate: string;
+    endDate: string;
+  };
+  thresholds: AccessAnomalyThresholds;
+  anomalies: AccessAnomaly[];
+}
+
+/**
+ * ============================================
+ * DATA TRANSFER OBJECTS (DTOs)
+ * ============================================
+ */
+
+/**
+ * Search Audit Logs DTO
+ * Inferred from Zod schema
+ */
+export type SearchAuditLogsDTO = z.infer<typeof searchAuditLogsSchema>;
+
+/**
+ * Audit History Query DTO
+ * Inferred from Zod schema
+ */
+export type AuditHistoryQueryDTO = z.infer<typeof auditHistoryQuerySchema>;
+
+/**
+ * Patient Access Log Query DTO
+ * Inferred from Zod schema
+ */
+export type PatientAccessLogQueryDTO = z.infer<typeof patientAccessLogQuerySchema>;
+
+/**
+ * Access Anomaly Report DTO
+ * Inferred from Zod schema
+ */
+export type AccessAnomalyReportDTO = z.infer<typeof accessAnomalyReportSchema>;
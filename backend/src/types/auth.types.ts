@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { LoginFailureReason } from '@prisma/client';
 import { commonSchemas } from '@middleware/validation';
 
 /**
@@ -47,6 +48,14 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+/**
+ * Logout schema
+ * The refresh token is optional: the session is taken from the access token when omitted
+ */
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
 /**
  * Change password schema
  * Validates password change request
@@ -84,6 +93,77 @@ export const resetPasswordSchema = z.object({
   path: ['confirmPassword'],
 });
 
+/**
+ * TOTP code schema
+ * 6-digit code from the authenticator app
+ */
+const totpCodeSchema = z
+  .string()
+  .regex(/^\d{6}$/, 'Code must be 6 digits');
+
+/**
+ * Recovery code schema
+ * Format: xxxxx-xxxxx
+ */
+const recoveryCodeSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[0-9a-f]{5}-?[0-9a-f]{5}$/, 'Invalid recovery code format');
+
+/**
+ * Second login step schema
+ * Validates the challenge token with either a TOTP code or a recovery code
+ */
+export const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: totpCodeSchema.optional(),
+  recoveryCode: recoveryCodeSchema.optional(),
+}).refine((data) => !!data.code !== !!data.recoveryCode, {
+  message: 'Provide either a code or a recovery code',
+  path: ['code'],
+});
+
+/**
+ * Two-factor code schema
+ * Used to confirm enrollment and to regenerate recovery codes
+ */
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+/**
+ * Disable two-factor schema
+ * Requires the password and a current code
+ */
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: totpCodeSchema,
+});
+
+/**
+ * Verify email schema
+ */
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required'),
+});
+
+/**
+ * Resend verification email schema
+ */
+export const resendVerificationSchema = z.object({
+  email: commonSchemas.email,
+});
+
+/**
+ * Login history query schema
+ */
+export const loginHistorySchema = z.object({
+  success: z.enum(['true', 'false']).transform((val) => val === 'true').optional(),
+  page: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional(),
+});
+
 /**
  * ============================================
  * TYPESCRIPT INTERFACES
@@ -117,8 +197,17 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+/**
+ * Client information stored with each refresh token session
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 /**
  * Auth response with user data and tokens
+ * twoFactorSetupRequired is set when the user's role requires 2FA and it is not enabled yet
  */
 export interface AuthResponse {
   user: {
@@ -136,6 +225,56 @@ export interface AuthResponse {
     createdAt: Date;
   };
   tokens: AuthTokens;
+  twoFactorSetupRequired?: boolean;
+}
+
+/**
+ * First login step response when the user has 2FA enabled
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: string;
+}
+
+/**
+ * Login result: a session, or a challenge for the second step
+ */
+export type LoginResult = AuthResponse | TwoFactorChallengeResponse;
+
+/**
+ * Second login step data
+ */
+export interface LoginTwoFactorData {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Two-factor enrollment response
+ * The secret is shown once so it can be typed when the QR code cannot be scanned
+ */
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Recovery codes response (shown once)
+ */
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+/**
+ * Two-factor status of a user
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  confirmedAt: Date | null;
+  recoveryCodesRemaining: number;
 }
 
 /**
@@ -189,6 +328,67 @@ export interface ResetPasswordData {
   confirmPassword: string;
 }
 
+/**
+ * Registration pending email verification (no session is started)
+ */
+export interface EmailVerificationPendingResponse {
+  user: AuthResponse['user'];
+  emailVerificationRequired: true;
+}
+
+/**
+ * Register result: a session, or a pending email verification
+ */
+export type RegisterResult = AuthResponse | EmailVerificationPendingResponse;
+
+/**
+ * Login attempt to record
+ * userId is omitted when the email does not match any user
+ */
+export interface LoginAttemptData {
+  userId?: string;
+  email: string;
+  success: boolean;
+  failureReason?: LoginFailureReason;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Login history entry
+ */
+export interface LoginHistoryEntry {
+  id: string;
+  success: boolean;
+  failureReason: LoginFailureReason | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Login history filters and pagination
+ */
+export interface LoginHistoryOptions {
+  success?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Paginated login history
+ */
+export interface PaginatedLoginHistory {
+  data: LoginHistoryEntry[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
 /**
  * ============================================
  * DATA TRANSFER OBJECTS (DTOs)
@@ -213,6 +413,12 @@ export type LoginDTO = z.infer<typeof loginSchema>;
  */
 export type RefreshTokenDTO = z.infer<typeof refreshTokenSchema>;
 
+/**
+ * Logout DTO
+ * Inferred from Zod schema
+ */
+export type LogoutDTO = z.infer<typeof logoutSchema>;
+
 /**
  * Change password DTO
  * Inferred from Zod schema
@@ -231,6 +437,42 @@ export type ForgotPasswordDTO = z.infer<typeof forgotPasswordSchema>;
  */
 export type ResetPasswordDTO = z.infer<typeof resetPasswordSchema>;
 
+/**
+ * Second login step DTO
+ * Inferred from Zod schema
+ */
+export type LoginTwoFactorDTO = z.infer<typeof loginTwoFactorSchema>;
+
+/**
+ * Two-factor code DTO
+ * Inferred from Zod schema
+ */
+export type TwoFactorCodeDTO = z.infer<typeof twoFactorCodeSchema>;
+
+/**
+ * Disable two-factor DTO
+ * Inferred from Zod schema
+ */
+export type DisableTwoFactorDTO = z.infer<typeof disableTwoFactorSchema>;
+
+/**
+ * Verify email DTO
+ * Inferred from Zod schema
+ */
+export type VerifyEmailDTO = z.infer<typeof verifyEmailSchema>;
+
+/**
+ * Resend verification email DTO
+ * Inferred from Zod schema
+ */
+export type ResendVerificationDTO = z.infer<typeof resendVerificationSchema>;
+
+/**
+ * Login history query DTO
+ * Inferred from Zod schema
+ */
+export type LoginHistoryQueryDTO = z.infer<typeof loginHistorySchema>;
+
 /**
  * ============================================
  * UTILITY TYPES
@@ -244,18 +486,15 @@ export type SafeUser = Omit<UserProfile, 'password'>;
 
 /**
  * JWT token payload
+ * sessionId is the refresh token family the access token was issued for;
+ * type is only set on non-access tokens (two-factor challenge, password reset)
  */
 export interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  sessionId?: string;
+  type?: string;
   iat?: number;
   exp?: number;
 }
-
-/**
- * Refresh token payload
- */
-export interface RefreshTokenPayload extends JwtPayload {
-  tokenId: string;
-}
@@ -0,0 +1,424 @@
+import { z } from 'zod';
+
+/**
+ * ============================================
+ * CATALOG VALIDATION
+ * ============================================
+ */
+
+const pageSchema = z.string().transform(Number).pipe(z.number().int().positive()).optional();
+const limitSchema = z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional();
+
+/**
+ * Código CIE-10 con subcategoría ("K02.1")
+ */
+const cie10CodeSchema = z.string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]\d{2}\.\d{1,2}$/, 'Invalid CIE-10 code (e.g. K02.1)');
+
+/**
+ * ============================================
+ * CIE-10 SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Schema para buscar códigos: prefijo de código o palabras del nombre
+ */
+export const cie10QuerySchema = z.object({
+  search: z.string().max(100).optional(),
+  category: z.string().max(100).optional(),
+  page: pageSchema,
+  limit: limitSchema,
+});
+
+export const cie10CodeParamSchema = z.object({
+  code: cie10CodeSchema,
+});
+
+/**
+ * Schema para crear un código
+ */
+export const createCie10CodeSchema = z.object({
+  code: cie10CodeSchema,
+  name: z.string().trim().min(1).max(255),
+  category: z.string().trim().min(1).max(255),
+  chapter: z.string().trim().min(1).max(20),
+  description: z.string().max(2000).optional(),
+});
+
+/**
+ * Schema para actualizar un código (el código no cambia: los diagnósticos lo referencian)
+ */
+export const updateCie10CodeSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  category: z.string().trim().min(1).max(255).optional(),
+  chapter: z.string().trim().min(1).max(20).optional(),
+  description: z.string().max(2000).nullable().optional(),
+});
+
+/**
+ * Schema para importar el capítulo K00–K14 desde CSV
+ */
+export const importCie10Schema = z.object({
+  csv: z.string().min(1).max(2_000_000),
+});
+
+/**
+ * ============================================
+ * TREATMENT CATALOG SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Schema para buscar tratamientos del catálogo
+ */
+export const treatmentCatalogQuerySchema = z.object({
+  search: z.string().max(100).optional(),
+  category: z.string().max(100).optional(),
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+  page: pageSchema,
+  limit: limitSchema,
+});
+
+/**
+ * Schema para crear un tratamiento del catálogo
+ */
+export const createTreatmentCatalogSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1).max(20),
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(2000).optional(),
+  category: z.string().trim().min(1).max(100),
+  baseCost: z.number().nonnegative().max(99_999_999),
+  duration: z.number().int().min(5).max(480).optional().default(30),
+});
+
+/**
+ * Schema para actualizar un tratamiento del catálogo
+ * Un cambio de baseCost abre un nuevo precio en el historial
+ */
+export const updateTreatmentCatalogSchema = z.object({
+  code: z.string().trim().toUpperCase().min(1).max(20).optional(),
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  category: z.string().trim().min(1).max(100).optional(),
+  baseCost: z.number().nonnegative().max(99_999_999).optional(),
+  duration: z.number().int().min(5).max(480).optional(),
+  isActive: z.boolean().optional(),
+  priceChangeReason: z.string().trim().min(3).max(500).optional(),
+});
+
+/**
+ * ============================================
+ * PRICE LIST SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Vigencia opcional [validFrom, validTo): sin límites la lista o el precio no caduca
+ */
+const validitySchema = {
+  validFrom: z.string().datetime().nullable().optional(),
+  validTo: z.string().datetime().nullable().optional(),
+};
+
+const validPeriod = (data: { validFrom?: string | null; validTo?: string | null }) =>
+  !data.validFrom || !data.validTo || new Date(data.validFrom) < new Date(data.validTo);
+
+const validPeriodMessage = {
+  message: 'validTo must be after validFrom',
+  path: ['validTo'],
+};
+
+/**
+ * Schema para listar listas de precios
+ */
+export const priceListsQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+/**
+ * Schema para crear una lista de precios
+ * insuranceProvider la asocia a los pacientes de esa aseguradora; isDefault, a los particulares
+ */
+export const createPriceListSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  insuranceProvider: z.string().trim().min(1).max(100).optional(),
+  isDefault: z.boolean().optional().default(false),
+  discountPercent: z.number().min(0).max(100).optional().default(0),
+  ...validitySchema,
+}).refine(validPeriod, validPeriodMessage);
+
+/**
+ * Schema para actualizar una lista de precios
+ */
+export const updatePriceListSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  insuranceProvider: z.string().trim().min(1).max(100).nullable().optional(),
+  isDefault: z.boolean().optional(),
+  discountPercent: z.number().min(0).max(100).optional(),
+  isActive: z.boolean().optional(),
+  ...validitySchema,
+}).refine(validPeriod, validPeriodMessage);
+
+/**
+ * Schema para agregar el precio propio de un procedimiento en una lista
+ */
+export const createPriceListItemSchema = z.object({
+  catalogId: z.string().uuid(),
+  price: z.number().nonnegative().max(99_999_999),
+  ...validitySchema,
+}).refine(validPeriod, validPeriodMessage);
+
+export const priceListItemParamsSchema = z.object({
+  id: z.string().uuid('Invalid ID format'),
+  itemId: z.string().uuid('Invalid ID format'),
+});
+
+/**
+ * Schema para consultar los precios que se aplican a un paciente
+ */
+export const patientPricesParamsSchema = z.object({
+  patientId: z.string().uuid('Invalid ID format'),
+});
+
+export const patientPricesQuerySchema = z.object({
+  catalogIds: z.string()
+    .transform((val) => [...new Set(val.split(',').map((id) => id.trim()).filter(Boolean))])
+    .pipe(z.array(z.string().uuid()).min(1).max(100)),
+});
+
+/**
+ * ============================================
+ * DTO TYPES
+ * ============================================
+ */
+
+export type Cie10QueryDTO = z.infer<typeof cie10QuerySchema>;
+export type CreateCie10CodeDTO = z.infer<typeof createCie10CodeSchema>;
+export type UpdateCie10CodeDTO = z.infer<typeof updateCie10CodeSchema>;
+export type ImportCie10DTO = z.infer<typeof importCie10Schema>;
+export type TreatmentCatalogQueryDTO = z.infer<typeof treatmentCatalogQuerySchema>;
+export type CreateTreatmentCatalogDTO = z.infer<typeof createTreatmentCatalogSchema>;
+export type UpdateTreatmentCatalogDTO = z.infer<typeof updateTreatmentCatalogSchema>;
+export type PriceListsQueryDTO = z.infer<typeof priceListsQuerySchema>;
+export type CreatePriceListDTO = z.infer<typeof createPriceListSchema>;
+export type UpdatePriceListDTO = z.infer<typeof updatePriceListSchema>;
+export type CreatePriceListItemDTO = z.infer<typeof createPriceListItemSchema>;
+export type PatientPricesQueryDTO = z.infer<typeof patientPricesQuerySchema>;
+
+/**
+ * ============================================
+ * SERVICE TYPES
+ * ============================================
+ */
+
+export interface CatalogSearchFilters {
+  search?: string;
+  category?: string;
+  includeInactive?: boolean;
+}
+
+export interface CatalogListOptions {
+  filters?: CatalogSearchFilters;
+  pagination?: {
+    page: number;
+    limit: number;
+  };
+}
+
+/**
+ * Código listo para importar
+ */
+export interface Cie10ImportRow {
+  code: string;
+  name: string;
+  category: string;
+  chapter: string;
+  description: string | null;
+}
+
+/**
+ * Línea del archivo que no se importó
+ */
+export interface Cie10ImportError {
+  line: number;
+  code: string | null;
+  message: string;
+}
+
+export interface Cie10CsvParseResult {
+  rows: Cie10ImportRow[];
+  errors: Cie10ImportError[];
+}
+
+/**
+ * Período de vigencia [validFrom, validTo)
+ */
+export interface ValidityPeriod {
+  validFrom: Date | null;
+  validTo: Date | null;
+}
+
+/**
+ * Regla por la que se aplica una lista a un paciente:
+ * asignada al paciente, de su aseguradora o la general
+ */
+export type PriceListRule = 'PATIENT' | 'INSURER' | 'DEFAULT';
+
+/**
+ * Origen del precio de un procedimiento
+ */
+export type PriceSource = 'PRICE_LIST_ITEM' | 'PRICE_LIST_DISCOUNT' | 'BASE_COST';
+
+/**
+ * Datos del paciente que deciden su lista de precios
+ */
+export interface PatientPricingProfile {
+  priceListId: string | null;
+  hasInsurance: boolean;
+  insuranceProvider: string | null;
+}
+
+/**
+ * Lista candidata para un paciente
+ */
+export interface PriceListCandidate extends ValidityPeriod {
+  id: string;
+  insuranceProvider: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+/**
+ * Precio propio de un procedimiento en una lista
+ */
+export interface PriceOverride extends ValidityPeriod {
+  catalogId: string;
+  price: number;
+}
+
+/**
+ * Cambio de catálogo con su autor
+ */
+export interface CatalogChange {
+  changedById: string;
+  reason?: string;
+}
+
+/**
+ * ============================================
+ * RESPONSE TYPES
+ * ============================================
+ */
+
+export interface Cie10CodeResponse {
+  code: string;
+  name: string;
+  category: string;
+  chapter: string;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TreatmentCatalogResponse {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  category: string;
+  baseCost: number;
+  duration: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Precio del catálogo vigente entre validFrom y validTo (abierto si es null)
+ */
+export interface TreatmentCatalogPriceResponse {
+  id: string;
+  catalogId: string;
+  price: number;
+  validFrom: Date;
+  validTo: Date | null;
+  reason: string | null;
+  changedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+export interface PaginatedCatalogResponse<T> {
+  data: T[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+export interface PriceListItemResponse {
+  id: string;
+  priceListId: string;
+  catalogId: string;
+  price: number;
+  validFrom: Date | null;
+  validTo: Date | null;
+  catalog: {
+    id: string;
+    code: string;
+    name: string;
+    baseCost: number;
+  };
+}
+
+export interface PriceListResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  insuranceProvider: string | null;
+  isDefault: boolean;
+  discountPercent: number;
+  validFrom: Date | null;
+  validTo: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  items?: PriceListItemResponse[];
+}
+
+/**
+ * Precio de un procedimiento para un paciente
+ */
+export interface PatientPrice {
+  catalogId: string;
+  price: number;
+  source: PriceSource;
+}
+
+/**
+ * Lista que se aplica a un paciente y precios resultantes
+ */
+export interface PatientPricesResponse {
+  priceList: { id: string; name: string } | null;
+  rule: PriceListRule | null;
+  prices: PatientPrice[];
+}
+
+/**
+ * Resultado de la importación del capítulo K00–K14
+ */
+export interface Cie10ImportResponse {
+  created: number;
+  updated: number;
+  skipped: Cie10ImportError[];
+}
@@ -0,0 +1,185 @@
+import { z } from 'zod';
+
+/**
+ * ============================================
+ * CONSENT VALIDATION
+ * ============================================
+ */
+
+/**
+ * Marcadores que se reemplazan al generar el documento
+ */
+export const CONSENT_PLACEHOLDERS = [
+  'patientName',
+  'patientIdentification',
+  'procedures',
+  'teeth',
+  'doctorName',
+  'date',
+  'clinicName',
+] as const;
+
+export type ConsentPlaceholder = (typeof CONSENT_PLACEHOLDERS)[number];
+
+/**
+ * Firma dibujada en el canvas, exportada como PNG (data URL, máx. ~500 KB)
+ */
+export const signatureImageSchema = z.string()
+  .max(700_000, 'Signature image is too large')
+  .regex(/^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/, 'Signature must be a PNG data URL');
+
+/**
+ * ============================================
+ * TEMPLATE SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Schema para crear una plantilla (una por categoría de procedimiento)
+ */
+export const createConsentTemplateSchema = z.object({
+  category: z.string().min(1).max(100),
+  title: z.string().min(1).max(255),
+  content: z.string().min(1).max(20_000),
+  isRequired: z.boolean().optional().default(false),
+  isActive: z.boolean().optional().default(true),
+});
+
+/**
+ * Schema para actualizar una plantilla
+ * Los consentimientos ya firmados conservan el texto con el que se firmaron
+ */
+export const updateConsentTemplateSchema = z.object({
+  title: z.string().min(1).max(255).optional(),
+  content: z.string().min(1).max(20_000).optional(),
+  isRequired: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Schema para listar plantillas
+ */
+export const consentTemplatesQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+/**
+ * ============================================
+ * CONSENT SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Procedimientos que cubre el consentimiento: un plan de tratamiento o un tratamiento
+ */
+const consentTargetSchema = z.object({
+  category: z.string().min(1).max(100),
+  treatmentPlanId: z.string().uuid().optional(),
+  treatmentId: z.string().uuid().optional(),
+});
+
+const singleTarget = (data: z.infer<typeof consentTargetSchema>) => !(data.treatmentPlanId && data.treatmentId);
+
+/**
+ * Schema para previsualizar el documento antes de firmar
+ */
+export const previewConsentQuerySchema = consentTargetSchema.refine(singleTarget, {
+  message: 'Provide either treatmentPlanId or treatmentId, not both',
+});
+
+/**
+ * Schema para firmar un consentimiento
+ */
+export const signConsentSchema = consentTargetSchema.extend({
+  signedName: z.string().trim().min(3).max(255),
+  signatureImage: signatureImageSchema,
+}).refine(singleTarget, {
+  message: 'Provide either treatmentPlanId or treatmentId, not both',
+});
+
+/**
+ * ============================================
+ * DTO TYPES
+ * ============================================
+ */
+
+export type CreateConsentTemplateDTO = z.infer<typeof createConsentTemplateSchema>;
+export type UpdateConsentTemplateDTO = z.infer<typeof updateConsentTemplateSchema>;
+export type ConsentTemplatesQueryDTO = z.infer<typeof consentTemplatesQuerySchema>;
+export type PreviewConsentQueryDTO = z.infer<typeof previewConsentQuerySchema>;
+export type SignConsentDTO = z.infer<typeof signConsentSchema>;
+
+/**
+ * ============================================
+ * RESPONSE TYPES
+ * ============================================
+ */
+
+/**
+ * Plantilla de consentimiento
+ */
+export interface ConsentTemplateResponse {
+  id: string;
+  category: string;
+  title: string;
+  content: string;
+  isRequired: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Datos con los que se completa una plantilla
+ */
+export type ConsentDocumentData = Record<ConsentPlaceholder, string>;
+
+/**
+ * Documento generado para firmar
+ */
+export interface ConsentPreviewResponse {
+  templateId: string;
+  category: string;
+  title: string;
+  content: string;
+  treatmentPlanId: string | null;
+  treatmentId: string | null;
+}
+
+/**
+ * Consentimiento firmado (sin la imagen de la firma)
+ */
+export interface PatientConsentResponse {
+  id: string;
+  patientId: string;
+  templateId: string;
+  category: string;
+  treatmentPlanId: string | null;
+  treatmentId: string | null;
+  title: string;
+  signedName: string;
+  signedAt: Date;
+  collectedById: string;
+  documentHash: string;
+  createdAt: Date;
+}
+
+/**
+ * Consentimiento firmado con el documento completo
+ */
+export interface PatientConsentDetailResponse extends PatientConsentResponse {
+  content: string;
+  signatureImage: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Verificación de integridad de un consentimiento
+ */
+export interface ConsentVerificationResponse {
+  id: string;
+  valid: boolean;
+  documentHash: string;
+  computedHash: string;
+}
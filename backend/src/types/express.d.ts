@@ -16,8 +16,16 @@ declare global {
         role: string;
         firstName: string;
         lastName: string;
+        sessionId?: string;
+        twoFactorSetupRequired?: boolean;
       };
 
+      /**
+       * Permissions of the authenticated user ("resource:action"),
+       * resolved once per request by requirePermission
+       */
+      permissions?: Set<string>;
+
       /**
        * Request ID for tracking
        */
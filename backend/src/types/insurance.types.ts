@@ -0,0 +1,394 @@
+import { z } from 'zod';
+import { ClaimStatus, PaymentMethod } from '@prisma/client';
+
+/**
+ * ============================================
+ * INSURANCE VALIDATION
+ * ============================================
+ */
+
+const pageSchema = z.string().transform(Number).pipe(z.number().int().positive()).optional();
+const limitSchema = z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional();
+const amountSchema = z.number().nonnegative().max(99_999_999);
+const percentSchema = z.number().min(0).max(100);
+
+/**
+ * ============================================
+ * INSURER SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Schema para listar aseguradoras
+ */
+export const insurersQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+/**
+ * Schema para crear una aseguradora
+ */
+export const createInsurerSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  ruc: z.string().regex(/^\d{13}$/, 'RUC must have 13 digits').optional(),
+  phone: z.string().max(20).optional(),
+  email: z.string().email().optional(),
+});
+
+/**
+ * Schema para actualizar una aseguradora
+ */
+export const updateInsurerSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  ruc: z.string().regex(/^\d{13}$/, 'RUC must have 13 digits').nullable().optional(),
+  phone: z.string().max(20).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * ============================================
+ * PLAN SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Cobertura de una categoría del catálogo (p. ej. "Endodoncia")
+ * waitingPeriodDays se cuenta desde Patient.insuranceStartDate
+ */
+const coverageRuleSchema = z.object({
+  category: z.string().trim().min(1).max(100),
+  coveragePercent: percentSchema,
+  waitingPeriodDays: z.number().int().min(0).max(3650).optional().default(0),
+  requiresPreauthorization: z.boolean().optional().default(false),
+});
+
+const coverageRulesSchema = z.array(coverageRuleSchema)
+  .max(50)
+  .refine(
+    (rules) => new Set(rules.map((rule) => rule.category.toLowerCase())).size === rules.length,
+    { message: 'Each category can only have one coverage rule' }
+  );
+
+/**
+ * Schema para crear un plan de una aseguradora
+ * Las categorías sin regla se cubren con defaultCoveragePercent
+ */
+export const createInsurancePlanSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  annualMaximum: amountSchema.positive().optional(),
+  deductible: amountSchema.optional().default(0),
+  defaultCoveragePercent: percentSchema.optional().default(0),
+  rules: coverageRulesSchema.optional().default([]),
+});
+
+/**
+ * Schema para actualizar un plan; rules reemplaza todas las reglas
+ */
+export const updateInsurancePlanSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  annualMaximum: amountSchema.positive().nullable().optional(),
+  deductible: amountSchema.optional(),
+  defaultCoveragePercent: percentSchema.optional(),
+  isActive: z.boolean().optional(),
+  rules: coverageRulesSchema.optional(),
+});
+
+/**
+ * ============================================
+ * CLAIM SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Schema para listar reclamos
+ */
+export const claimsQuerySchema = z.object({
+  status: z.nativeEnum(ClaimStatus).optional(),
+  patientId: z.string().uuid().optional(),
+  insurerId: z.string().uuid().optional(),
+  page: pageSchema,
+  limit: limitSchema,
+});
+
+/**
+ * Schema para crear un reclamo con tratamientos terminados del paciente
+ */
+export const createClaimSchema = z.object({
+  patientId: z.string().uuid('Invalid patient ID'),
+  treatmentIds: z.array(z.string().uuid())
+    .min(1, 'Claim must have at least one treatment')
+    .max(50)
+    .refine((ids) => new Set(ids).size === ids.length, { message: 'Treatments must not repeat' }),
+  preauthorizationNumber: z.string().trim().min(1).max(50).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Schema para enviar un reclamo a la aseguradora
+ */
+export const submitClaimSchema = z.object({
+  preauthorizationNumber: z.string().trim().min(1).max(50).optional(),
+  insurerReference: z.string().trim().min(1).max(50).optional(),
+});
+
+/**
+ * Schema para registrar la aprobación de la aseguradora
+ * Los tratamientos no listados se aprueban por el monto reclamado
+ */
+export const approveClaimSchema = z.object({
+  items: z.array(z.object({
+    treatmentId: z.string().uuid(),
+    approvedAmount: amountSchema,
+  })).max(50).optional(),
+  insurerReference: z.string().trim().min(1).max(50).optional(),
+});
+
+/**
+ * Schema para registrar el rechazo de la aseguradora
+ */
+export const denyClaimSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+/**
+ * Schema para registrar una remesa de la aseguradora
+ */
+export const createClaimPaymentSchema = z.object({
+  amount: amountSchema.positive(),
+  paymentMethod: z.nativeEnum(PaymentMethod, {
+    errorMap: () => ({ message: 'Invalid payment method' }),
+  }),
+  date: z.string().datetime().optional(),
+  reference: z.string().trim().max(50).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+/**
+ * ============================================
+ * DTO TYPES
+ * ============================================
+ */
+
+export type InsurersQueryDTO = z.infer<typeof insurersQuerySchema>;
+export type CreateInsurerDTO = z.infer<typeof createInsurerSchema>;
+export type UpdateInsurerDTO = z.infer<typeof updateInsurerSchema>;
+export type CoverageRuleDTO = z.infer<typeof coverageRuleSchema>;
+export type CreateInsurancePlanDTO = z.infer<typeof createInsurancePlanSchema>;
+export type UpdateInsurancePlanDTO = z.infer<typeof updateInsurancePlanSchema>;
+export type ClaimsQueryDTO = z.infer<typeof claimsQuerySchema>;
+export type CreateClaimDTO = z.infer<typeof createClaimSchema>;
+export type SubmitClaimDTO = z.infer<typeof submitClaimSchema>;
+export type ApproveClaimDTO = z.infer<typeof approveClaimSchema>;
+export type DenyClaimDTO = z.infer<typeof denyClaimSchema>;
+export type CreateClaimPaymentDTO = z.infer<typeof createClaimPaymentSchema>;
+
+/**
+ * ============================================
+ * SERVICE TYPES
+ * ============================================
+ */
+
+/**
+ * Motivo por el que la aseguradora cubre menos del porcentaje del plan
+ */
+export type CoverageLimit = 'NOT_COVERED' | 'WAITING_PERIOD' | 'ANNUAL_MAXIMUM';
+
+/**
+ * Datos para repartir el costo de un tratamiento
+ * deductibleUsed y benefitsUsed son los del paciente en el año del servicio
+ */
+export interface CoverageInput {
+  cost: number;
+  coveragePercent: number;
+  waitingPeriodDays: number;
+  coverageStart: Date | null;
+  serviceDate: Date;
+  deductible: number;
+  deductibleUsed: number;
+  annualMaximum: number | null;
+  benefitsUsed: number;
+}
+
+/**
+ * Reparto del costo entre aseguradora y paciente
+ */
+export interface CoverageSplit {
+  coveragePercent: number;
+  deductibleApplied: number;
+  insurerPortion: number;
+  patientPortion: number;
+  limitedBy: CoverageLimit | null;
+}
+
+/**
+ * Lo que ya consumió un paciente de su plan en un año
+ */
+export interface CoverageUsage {
+  deductibleUsed: number;
+  benefitsUsed: number;
+}
+
+/**
+ * Línea de reclamo lista para crear
+ */
+export interface ClaimItemInput extends CoverageSplit {
+  treatmentId: string;
+  cost: number;
+}
+
+/**
+ * Parte de una remesa que se abona a un tratamiento
+ */
+export interface ClaimPaymentAllocation {
+  itemId: string;
+  treatmentId: string;
+  amount: number;
+}
+
+export interface ClaimFilters {
+  status?: ClaimStatus;
+  patientId?: string;
+  insurerId?: string;
+}
+
+export interface ClaimListOptions {
+  filters?: ClaimFilters;
+  pagination?: {
+    page: number;
+    limit: number;
+  };
+}
+
+/**
+ * ============================================
+ * RESPONSE TYPES
+ * ============================================
+ */
+
+export interface CoverageRuleResponse {
+  id: string;
+  category: string;
+  coveragePercent: number;
+  waitingPeriodDays: number;
+  requiresPreauthorization: boolean;
+}
+
+export interface InsurancePlanResponse {
+  id: string;
+  insurerId: string;
+  name: string;
+  annualMaximum: number | null;
+  deductible: number;
+  defaultCoveragePercent: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  rules: CoverageRuleResponse[];
+  insurer?: {
+    id: string;
+    name: string;
+    isActive: boolean;
+  };
+}
+
+export interface InsurerResponse {
+  id: string;
+  name: string;
+  ruc: string | null;
+  phone: string | null;
+  email: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  plans?: InsurancePlanResponse[];
+}
+
+/**
+ * Reparto estimado del costo de un tratamiento
+ */
+export interface CoverageEstimateResponse extends CoverageSplit {
+  treatmentId: string;
+  planId: string | null;
+  cost: number;
+  requiresPreauthorization: boolean;
+}
+
+export interface ClaimItemResponse {
+  id: string;
+  treatmentId: string;
+  cost: number;
+  coveragePercent: number;
+  deductibleApplied: number;
+  claimedAmount: number;
+  approvedAmount: number | null;
+  paidAmount: number;
+  treatment: {
+    id: string;
+    toothNumber: string | null;
+    completedDate: Date | null;
+    catalog: {
+      code: string;
+      name: string;
+      category: string;
+    };
+  };
+}
+
+export interface ClaimPaymentResponse {
+  id: string;
+  claimId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  date: Date;
+  reference: string | null;
+  notes: string | null;
+  createdAt: Date;
+}
+
+export interface ClaimResponse {
+  id: string;
+  patientId: string;
+  insurerId: string;
+  planId: string;
+  status: ClaimStatus;
+  claimedAmount: number;
+  approvedAmount: number | null;
+  paidAmount: number;
+  preauthorizationNumber: string | null;
+  insurerReference: string | null;
+  denialReason: string | null;
+  notes: string | null;
+  submittedAt: Date | null;
+  respondedAt: Date | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  patient: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    insuranceNumber: string | null;
+  };
+  insurer: {
+    id: string;
+    name: string;
+  };
+  plan: {
+    id: string;
+    name: string;
+  };
+  items?: ClaimItemResponse[];
+  payments?: ClaimPaymentResponse[];
+}
+
+export interface PaginatedClaimResponse {
+  data: ClaimResponse[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
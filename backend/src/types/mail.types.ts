@@ -0,0 +1,51 @@
+/**
+ * ============================================
+ * TYPESCRIPT INTERFACES
+ * ============================================
+ */
+
+/**
+ * Email message
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Email message as handed to a transport (sender resolved)
+ */
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * Mail transport
+ * Delivers an outgoing message (SMTP, local files, memory, ...)
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+/**
+ * Password reset email data
+ */
+export interface PasswordResetMailData {
+  to: string;
+  firstName: string;
+  token: string;
+  expiresInMinutes: number;
+}
+
+/**
+ * Email verification data
+ */
+export interface EmailVerificationMailData {
+  to: string;
+  firstName: string;
+  token: string;
+  expiresInHours: number;
+}
@@ -6,6 +6,9 @@ import {
   SmokingHabit,
   AlcoholConsumption
 } from '@prisma/client';
+import { dentalSurfaceSchema, toothNumberSchema } from './odontogram.types';
+import type { OdontogramProposalResponse } from './odontogram.types';
+import type { CreatePaymentPlanData, InstallmentCalculation } from './accounting.types';
 
 /**
  * ============================================
@@ -117,7 +120,8 @@ export const createTreatmentSchema = z.object({
   toothNumber: z.string().optional(),
   description: z.string().optional(),
   status: z.nativeEnum(TreatmentStatus).optional().default(TreatmentStatus.PLANNED),
-  cost: z.number().positive(),
+  // Defaults to the price of the catalog item in the patient's price list
+  cost: z.number().positive().optional(),
   paid: z.number().min(0).optional().default(0),
   plannedDate: z.string().datetime().optional(),
   notes: z.string().optional(),
@@ -177,36 +181,76 @@ export type TreatmentsByDiagnosisDTO = z.infer<typeof treatmentsByDiagnosisSchem
  * ============================================
  */
 
+/**
+ * Schema for a treatment plan line item
+ * unitPrice defaults to the price in the patient's price list; discount is an amount off the line
+ */
+export const treatmentPlanItemSchema = z.object({
+  catalogId: z.string().uuid(),
+  toothNumber: toothNumberSchema.optional(),
+  surfaces: z.array(dentalSurfaceSchema).optional(),
+  quantity: z.number().int().positive().optional().default(1),
+  unitPrice: z.number().min(0).optional(),
+  discount: z.number().min(0).optional().default(0),
+  notes: z.string().optional(),
+}).refine((data) => {
+  // Discount cannot exceed the line subtotal
+  if (data.unitPrice !== undefined) {
+    return data.discount <= data.quantity * data.unitPrice;
+  }
+  return true;
+}, {
+  message: 'Discount cannot exceed line subtotal',
+  path: ['discount'],
+});
+
+/**
+ * Schema for a treatment plan phase (phases and items are sequenced in array order)
+ */
+export const treatmentPlanPhaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  items: z.array(treatmentPlanItemSchema).min(1, 'Phase must have at least one item'),
+});
+
 /**
  * Schema for creating treatment plan
+ * The total cost is computed from the items
  */
 export const createTreatmentPlanSchema = z.object({
   title: z.string().min(1).max(255),
   description: z.string().optional(),
-  totalCost: z.number().positive(),
-  status: z.nativeEnum(TreatmentPlanStatus).optional().default(TreatmentPlanStatus.DRAFT),
-  pdfUrl: z.string().url().optional(),
+  phases: z.array(treatmentPlanPhaseSchema).min(1, 'Plan must have at least one phase'),
 });
 
 /**
  * Schema for updating treatment plan
+ * Phases can only be replaced while the plan is a draft; status changes
+ * go through the submit/approve/reject actions
  */
 export const updateTreatmentPlanSchema = z.object({
   title: z.string().min(1).max(255).optional(),
   description: z.string().optional(),
-  totalCost: z.number().positive().optional(),
-  status: z.nativeEnum(TreatmentPlanStatus).optional(),
-  pdfUrl: z.string().url().optional(),
-  approvedAt: z.string().datetime().optional(),
-}).refine((data) => {
-  // If status is APPROVED, must have approvedAt
-  if (data.status === TreatmentPlanStatus.APPROVED && !data.approvedAt) {
-    return false;
-  }
-  return true;
-}, {
-  message: 'Approved date is required when status is APPROVED',
-  path: ['approvedAt'],
+  phases: z.array(treatmentPlanPhaseSchema).min(1, 'Plan must have at least one phase').optional(),
+});
+
+/**
+ * Schema for approving a treatment plan
+ * If paymentPlan is sent, a payment plan is created for the plan total
+ */
+export const approveTreatmentPlanSchema = z.object({
+  paymentPlan: z.object({
+    totalInstallments: z.number().int().min(1).max(60),
+    firstDueDate: z.string().datetime(),
+    frequency: z.enum(['WEEKLY', 'BIWEEKLY', 'MONTHLY']).default('MONTHLY'),
+  }).optional(),
+});
+
+/**
+ * Schema for rejecting a treatment plan
+ */
+export const rejectTreatmentPlanSchema = z.object({
+  reason: z.string().min(1).max(1000),
 });
 
 /**
@@ -214,6 +258,35 @@ export const updateTreatmentPlanSchema = z.object({
  */
 export type CreateTreatmentPlanDTO = z.infer<typeof createTreatmentPlanSchema>;
 export type UpdateTreatmentPlanDTO = z.infer<typeof updateTreatmentPlanSchema>;
+export type TreatmentPlanItemDTO = z.infer<typeof treatmentPlanItemSchema>;
+export type TreatmentPlanPhaseDTO = z.infer<typeof treatmentPlanPhaseSchema>;
+export type ApproveTreatmentPlanDTO = z.infer<typeof approveTreatmentPlanSchema>;
+export type RejectTreatmentPlanDTO = z.infer<typeof rejectTreatmentPlanSchema>;
+
+/**
+ * Plan item with its resolved unit price and computed total
+ */
+export interface PricedTreatmentPlanItem extends Omit<TreatmentPlanItemDTO, 'unitPrice'> {
+  unitPrice: number;
+  total: number;
+}
+
+/**
+ * Plan phase with priced items
+ */
+export interface PricedTreatmentPlanPhase {
+  name: string;
+  description?: string;
+  items: PricedTreatmentPlanItem[];
+}
+
+/**
+ * Payment plan created together with the approval of a treatment plan
+ */
+export interface ApprovalPaymentPlan {
+  data: CreatePaymentPlanData;
+  installments: InstallmentCalculation[];
+}
 
 /**
  * ============================================
@@ -290,6 +363,8 @@ export interface TreatmentResponse {
   description: string | null;
   status: TreatmentStatus;
   cost: number;
+  insurerPortion: number;
+  patientPortion: number;
   paid: number;
   balance: number;
   plannedDate: Date | null;
@@ -309,6 +384,43 @@ export interface TreatmentResponse {
     category: string;
   };
   diagnosis?: DiagnosisResponse;
+  odontogramProposal?: OdontogramProposalResponse | null;
+}
+
+/**
+ * Treatment Plan Item Response
+ */
+export interface TreatmentPlanItemResponse {
+  id: string;
+  phaseId: string;
+  sequence: number;
+  catalogId: string;
+  toothNumber: string | null;
+  surfaces: string[];
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  total: number;
+  notes: string | null;
+  treatmentId: string | null;
+  catalog?: {
+    id: string;
+    code: string;
+    name: string;
+    category: string;
+  };
+}
+
+/**
+ * Treatment Plan Phase Response
+ */
+export interface TreatmentPlanPhaseResponse {
+  id: string;
+  sequence: number;
+  name: string;
+  description: string | null;
+  total: number;
+  items: TreatmentPlanItemResponse[];
 }
 
 /**
@@ -317,14 +429,82 @@ export interface TreatmentResponse {
 export interface TreatmentPlanResponse {
   id: string;
   patientId: string;
+  doctorId: string | null;
   title: string;
   description: string | null;
   totalCost: number;
   status: TreatmentPlanStatus;
   pdfUrl: string | null;
+  submittedAt: Date | null;
   approvedAt: Date | null;
+  approvedById: string | null;
+  rejectedAt: Date | null;
+  rejectionReason: string | null;
   createdAt: Date;
   updatedAt: Date;
+  phases: TreatmentPlanPhaseResponse[];
+}
+
+/**
+ * Approved Treatment Plan Response
+ * Includes the treatments and the payment plan created on approval
+ */
+export interface ApprovedTreatmentPlanResponse extends TreatmentPlanResponse {
+  treatments: TreatmentResponse[];
+  paymentPlanId: string | null;
+}
+
+/**
+ * Quote (presupuesto) totals
+ * Tax only applies if dental services are taxed (TAX_APPLIES_TO_SERVICES)
+ */
+export interface TreatmentPlanQuoteTotals {
+  subtotal: number;  // Sum of quantity * unitPrice
+  discount: number;
+  taxableBase: number;
+  taxRate: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Data rendered on a treatment plan quote
+ */
+export interface TreatmentPlanQuote {
+  plan: TreatmentPlanResponse;
+  patient: {
+    firstName: string;
+    lastName: string;
+    identification: string;
+    identificationType: string;
+    phone: string;
+    email: string | null;
+    address: string | null;
+  };
+  doctor: {
+    firstName: string;
+    lastName: string;
+  } | null;
+  clinic: {
+    name: string;
+    ruc?: string;
+    address?: string;
+    phone?: string;
+    email?: string;
+  };
+  totals: TreatmentPlanQuoteTotals;
+  currency: string;
+  issuedAt: Date;
+  validUntil: Date;
+}
+
+/**
+ * Treatment plan quote PDF file
+ */
+export interface TreatmentPlanQuoteFile {
+  content: Buffer;
+  contentType: string;
+  filename: string;
 }
 
 /**
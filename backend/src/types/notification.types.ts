@@ -0,0 +1,54 @@
+import { ReminderChannel } from '@prisma/client';
+
+/**
+ * ============================================
+ * TYPESCRIPT INTERFACES
+ * ============================================
+ */
+
+/**
+ * Text message (SMS or WhatsApp) as handed to a transport
+ * `to` is a phone number in international format (+593991234567)
+ */
+export interface TextMessage {
+  to: string;
+  text: string;
+}
+
+/**
+ * Text message transport
+ * Delivers a message through a provider API, local files, memory, ...
+ */
+export interface TextMessageTransport {
+  readonly name: string;
+  send(message: TextMessage): Promise<void>;
+}
+
+/**
+ * Contact data of a patient
+ */
+export interface NotificationContact {
+  email: string | null;
+  phone: string | null;
+}
+
+/**
+ * Rendered notification; channels without subject ignore it
+ */
+export interface NotificationContent {
+  subject: string;
+  text: string;
+}
+
+/**
+ * Notification channel
+ * Knows which address of a patient it uses and how to deliver to it
+ */
+export interface NotificationChannel {
+  readonly channel: ReminderChannel;
+  /**
+   * Address of the patient for this channel, or null when the patient has none
+   */
+  resolveRecipient(contact: NotificationContact): string | null;
+  send(recipient: string, content: NotificationContent): Promise<void>;
+}
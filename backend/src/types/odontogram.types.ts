@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { DentitionType, ToothStatus } from '@prisma/client';
+import { DentitionType, IdentificationType, OdontogramProposalStatus, ToothStatus } from '@prisma/client';
 
 /**
  * ============================================
@@ -206,6 +206,20 @@ export const compareVersionsSchema = z.object({
   v2: z.string().uuid(),
 });
 
+/**
+ * Schema para exportar un odontograma
+ */
+export const exportOdontogramQuerySchema = z.object({
+  format: z.enum(['pdf', 'svg']).default('pdf'),
+});
+
+/**
+ * Schema para listar propuestas de cambio del odontograma
+ */
+export const odontogramProposalQuerySchema = z.object({
+  status: z.nativeEnum(OdontogramProposalStatus).optional(),
+});
+
 /**
  * ============================================
  * DTO TYPES
@@ -219,6 +233,8 @@ export type UpdateOdontogramDTO = z.infer<typeof updateOdontogramSchema>;
 export type UpdateToothInOdontogramDTO = z.infer<typeof updateToothInOdontogramSchema>;
 export type OdontogramQueryDTO = z.infer<typeof odontogramQuerySchema>;
 export type CompareVersionsDTO = z.infer<typeof compareVersionsSchema>;
+export type ExportOdontogramQueryDTO = z.infer<typeof exportOdontogramQuerySchema>;
+export type OdontogramProposalQueryDTO = z.infer<typeof odontogramProposalQuerySchema>;
 
 /**
  * ============================================
@@ -285,6 +301,8 @@ export interface OdontogramWithTeethResponse extends OdontogramResponse {
 
 /**
  * Tooth change para comparación de versiones
+ * field: 'status', 'notes', 'surface.<S>.status', 'surface.<S>.notes' o 'tooth'
+ * (diente agregado: oldValue null; diente eliminado: newValue null)
  */
 export interface ToothChange {
   toothNumber: string;
@@ -305,9 +323,85 @@ export interface OdontogramComparisonResponse {
     teethModified: number;
     statusChanges: number;
     surfaceChanges: number;
+    teethAdded: number;
+    teethRemoved: number;
   };
 }
 
+/**
+ * Diagnóstico y procedimiento sugeridos para un hallazgo patológico en una pieza
+ */
+export interface FindingSuggestion {
+  toothNumber: string;
+  status: ToothStatus;
+  surfaces: string[];
+  diagnosis: {
+    cie10Code: string;
+    cie10Name: string;
+  } | null;
+  treatment: {
+    catalogId: string;
+    code: string;
+    name: string;
+    baseCost: number;
+  } | null;
+}
+
+/**
+ * Tooth response al actualizar, con las sugerencias de los nuevos hallazgos
+ */
+export interface ToothUpdateResponse extends ToothResponse {
+  suggestions: FindingSuggestion[];
+}
+
+/**
+ * Cambio del odontograma propuesto al completar un tratamiento
+ */
+export interface OdontogramProposalResponse {
+  id: string;
+  patientId: string;
+  treatmentId: string;
+  odontogramId: string;
+  toothNumber: string;
+  currentStatus: ToothStatus;
+  proposedStatus: ToothStatus;
+  surfaces?: ToothSurfacesResponse;
+  status: OdontogramProposalStatus;
+  resultingOdontogramId: string | null;
+  resolvedById: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Resultado de aplicar una propuesta: la propuesta y la nueva versión
+ */
+export interface ApplyOdontogramProposalResponse {
+  proposal: OdontogramProposalResponse;
+  odontogram: OdontogramWithTeethResponse;
+}
+
+/**
+ * Datos del paciente para el encabezado del odontograma exportado
+ */
+export interface OdontogramExportPatient {
+  firstName: string;
+  lastName: string;
+  identification: string;
+  identificationType: IdentificationType;
+  dateOfBirth: Date;
+}
+
+/**
+ * Odontograma exportado (SVG o PDF)
+ */
+export interface OdontogramExport {
+  content: Buffer | string;
+  contentType: string;
+  filename: string;
+}
+
 /**
  * ============================================
  * UTILITY TYPES
@@ -143,6 +143,12 @@ export const createPatientSchema = z.object({
   hasInsurance: z.boolean().default(false),
   insuranceProvider: z.string().max(100).optional(),
   insuranceNumber: z.string().max(50).optional(),
+  // Insurer plan used to split treatment costs; waiting periods count from insuranceStartDate
+  insurancePlanId: z.string().uuid().optional(),
+  insuranceStartDate: z.string().datetime().optional(),
+
+  // Price list assigned to the patient (e.g. staff); otherwise insurer or default list
+  priceListId: z.string().uuid().optional(),
 
   // Additional information
   occupation: z.string().max(100).optional(),
@@ -180,6 +186,9 @@ export const updatePatientSchema = z.object({
   hasInsurance: z.boolean().optional(),
   insuranceProvider: z.string().max(100).optional(),
   insuranceNumber: z.string().max(50).optional(),
+  insurancePlanId: z.string().uuid().nullable().optional(),
+  insuranceStartDate: z.string().datetime().nullable().optional(),
+  priceListId: z.string().uuid().nullable().optional(),
   occupation: z.string().max(100).optional(),
   maritalStatus: z.nativeEnum(MaritalStatus).optional(),
   bloodType: z.nativeEnum(BloodType).optional(),
@@ -255,6 +264,9 @@ export interface CreatePatientData {
   hasInsurance: boolean;
   insuranceProvider?: string;
   insuranceNumber?: string;
+  insurancePlanId?: string;
+  insuranceStartDate?: string;
+  priceListId?: string;
 
   // Additional information
   occupation?: string;
@@ -281,6 +293,9 @@ export interface UpdatePatientData {
   hasInsurance?: boolean;
   insuranceProvider?: string;
   insuranceNumber?: string;
+  insurancePlanId?: string | null;
+  insuranceStartDate?: string | null;
+  priceListId?: string | null;
   occupation?: string;
   maritalStatus?: MaritalStatus;
   bloodType?: BloodType;
@@ -347,6 +362,9 @@ export interface PatientWithRelations {
   hasInsurance: boolean;
   insuranceProvider: string | null;
   insuranceNumber: string | null;
+  insurancePlanId: string | null;
+  insuranceStartDate: Date | null;
+  priceListId: string | null;
   occupation: string | null;
   maritalStatus: MaritalStatus | null;
   bloodType: BloodType | null;
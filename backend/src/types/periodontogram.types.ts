@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import { DentitionType } from '@prisma/client';
+import { toothNumberSchema, validateToothNumbersForType } from './odontogram.types';
+
+/**
+ * ============================================
+ * PERIODONTOGRAM VALIDATION
+ * ============================================
+ */
+
+/**
+ * Sitios de sondaje (6 por diente)
+ * Vestibulares: mesiovestibular, vestibular, distovestibular
+ * Linguales/palatinos: mesiolingual, lingual, distolingual
+ */
+export enum ProbingSite {
+  MESIOVESTIBULAR = 'MV',
+  VESTIBULAR = 'V',
+  DISTOVESTIBULAR = 'DV',
+  MESIOLINGUAL = 'ML',
+  LINGUAL = 'L',
+  DISTOLINGUAL = 'DL',
+}
+
+export const PROBING_SITES = Object.values(ProbingSite);
+
+/**
+ * Medición de un sitio
+ * probingDepth: profundidad de sondaje en mm (margen gingival al fondo del surco)
+ * gingivalMargin: distancia en mm del límite amelocementario al margen gingival;
+ *   positiva si hay recesión, negativa si el margen está coronal (agrandamiento)
+ * El nivel de inserción clínica (NIC = probingDepth + gingivalMargin) se calcula
+ */
+export const probingSiteSchema = z.object({
+  probingDepth: z.number().int().min(0).max(20).optional(),
+  gingivalMargin: z.number().int().min(-10).max(20).optional(),
+  bleeding: z.boolean().optional(),      // Sangrado al sondaje
+  suppuration: z.boolean().optional(),   // Supuración
+  plaque: z.boolean().optional(),        // Placa bacteriana
+});
+
+/**
+ * Sitios del diente (JSON)
+ */
+export const probingSitesSchema = z.object({
+  MV: probingSiteSchema.optional(),
+  V: probingSiteSchema.optional(),
+  DV: probingSiteSchema.optional(),
+  ML: probingSiteSchema.optional(),
+  L: probingSiteSchema.optional(),
+  DL: probingSiteSchema.optional(),
+}).optional();
+
+/**
+ * ============================================
+ * TOOTH SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Schema para los datos periodontales de un diente
+ */
+export const periodontalToothSchema = z.object({
+  toothNumber: toothNumberSchema,
+  isMissing: z.boolean().default(false),
+  mobility: z.number().int().min(0).max(3).optional(),   // Grado 0-3
+  furcation: z.number().int().min(0).max(3).optional(),  // Grado 0-3 (solo multirradiculares)
+  sites: probingSitesSchema,
+  notes: z.string().optional(),
+});
+
+/**
+ * Schema para actualizar un diente
+ */
+export const updatePeriodontalToothSchema = z.object({
+  isMissing: z.boolean().optional(),
+  mobility: z.number().int().min(0).max(3).nullable().optional(),
+  furcation: z.number().int().min(0).max(3).nullable().optional(),
+  sites: probingSitesSchema,
+  notes: z.string().optional(),
+});
+
+/**
+ * ============================================
+ * PERIODONTOGRAM SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Schema para crear un periodontograma (nuevo examen)
+ * Los dientes no enviados se crean sin mediciones
+ */
+export const createPeriodontogramSchema = z.object({
+  type: z.nativeEnum(DentitionType),
+  date: z.string().datetime().optional(),
+  notes: z.string().optional(),
+  teeth: z.array(periodontalToothSchema).optional(),
+}).refine(
+  (data) => !data.teeth || validateToothNumbersForType(data.teeth.map((t) => t.toothNumber), data.type),
+  {
+    message: 'Tooth numbers must match dentition type',
+  }
+).refine(
+  (data) => !data.teeth || new Set(data.teeth.map((t) => t.toothNumber)).size === data.teeth.length,
+  {
+    message: 'Duplicate tooth numbers',
+  }
+);
+
+/**
+ * Schema para actualizar un periodontograma
+ */
+export const updatePeriodontogramSchema = z.object({
+  date: z.string().datetime().optional(),
+  notes: z.string().optional(),
+});
+
+/**
+ * Schema para comparar exámenes
+ */
+export const comparePeriodontogramsSchema = z.object({
+  p1: z.string().uuid(),
+  p2: z.string().uuid(),
+});
+
+/**
+ * ============================================
+ * DTO TYPES
+ * ============================================
+ */
+
+export type ProbingSiteDTO = z.infer<typeof probingSiteSchema>;
+export type ProbingSitesDTO = z.infer<typeof probingSitesSchema>;
+export type PeriodontalToothDTO = z.infer<typeof periodontalToothSchema>;
+export type UpdatePeriodontalToothDTO = z.infer<typeof updatePeriodontalToothSchema>;
+export type CreatePeriodontogramDTO = z.infer<typeof createPeriodontogramSchema>;
+export type UpdatePeriodontogramDTO = z.infer<typeof updatePeriodontogramSchema>;
+export type ComparePeriodontogramsDTO = z.infer<typeof comparePeriodontogramsSchema>;
+
+/**
+ * ============================================
+ * RESPONSE TYPES
+ * ============================================
+ */
+
+/**
+ * Medición de un sitio con el nivel de inserción calculado
+ */
+export interface ProbingSiteResponse {
+  probingDepth?: number;
+  gingivalMargin?: number;
+  attachmentLevel?: number;
+  bleeding?: boolean;
+  suppuration?: boolean;
+  plaque?: boolean;
+}
+
+export type ProbingSitesResponse = Partial<Record<ProbingSite, ProbingSiteResponse>>;
+
+/**
+ * Diente del periodontograma
+ */
+export interface PeriodontalToothResponse {
+  id: string;
+  periodontogramId: string;
+  toothNumber: string;
+  isMissing: boolean;
+  mobility: number | null;
+  furcation: number | null;
+  sites: ProbingSitesResponse;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Índices periodontales de un examen
+ * Solo se consideran los dientes presentes y los sitios con profundidad registrada
+ */
+export interface PeriodontalIndices {
+  teethExamined: number;
+  sitesExamined: number;
+  meanProbingDepth: number | null;          // mm
+  meanAttachmentLevel: number | null;       // mm
+  bleedingOnProbingPercentage: number | null; // %BOP
+  plaquePercentage: number | null;
+  suppurationSites: number;
+  sitesProbingDepth4mm: number;             // Sitios con 4 mm
+  sitesProbingDepthAtLeast5mm: number;      // Sitios ≥ 5 mm
+  teethWithMobility: number;
+  teethWithFurcation: number;
+}
+
+/**
+ * Periodontograma (básico, sin dientes)
+ */
+export interface PeriodontogramResponse {
+  id: string;
+  patientId: string;
+  examinerId: string | null;
+  date: string;
+  version: number;
+  type: DentitionType;
+  notes?: string;
+  isCurrent: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Periodontograma con dientes e índices
+ */
+export interface PeriodontogramWithTeethResponse extends PeriodontogramResponse {
+  teeth: PeriodontalToothResponse[];
+  indices: PeriodontalIndices;
+}
+
+/**
+ * Cambio de un sitio o diente entre dos exámenes
+ * field: 'probingDepth', 'attachmentLevel', 'bleeding', 'mobility', 'furcation' o 'isMissing'
+ */
+export interface PeriodontalChange {
+  toothNumber: string;
+  site: ProbingSite | null;
+  field: string;
+  oldValue: number | boolean | null;
+  newValue: number | boolean | null;
+}
+
+/**
+ * Comparación entre dos exámenes
+ * Un sitio mejora o empeora cuando la profundidad de sondaje cambia 2 mm o más
+ */
+export interface PeriodontogramComparisonResponse {
+  exam1: PeriodontogramResponse;
+  exam2: PeriodontogramResponse;
+  indices: {
+    exam1: PeriodontalIndices;
+    exam2: PeriodontalIndices;
+  };
+  changes: PeriodontalChange[];
+  summary: {
+    totalChanges: number;
+    sitesImproved: number;
+    sitesWorsened: number;
+    meanProbingDepthChange: number | null;
+    bleedingOnProbingChange: number | null;
+  };
+}
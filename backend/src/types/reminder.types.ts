@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import { AppointmentType, ReminderChannel, ReminderStatus } from '@prisma/client';
+
+/**
+ * ============================================
+ * REMINDER VALIDATION
+ * ============================================
+ */
+
+/**
+ * Schema para listar resultados de recordatorios
+ */
+export const remindersQuerySchema = z.object({
+  status: z.nativeEnum(ReminderStatus).optional(),
+  channel: z.nativeEnum(ReminderChannel).optional(),
+  appointmentId: z.string().uuid().optional(),
+  patientId: z.string().uuid().optional(),
+  page: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional(),
+});
+
+/**
+ * ============================================
+ * DTO TYPES
+ * ============================================
+ */
+
+export type RemindersQueryDTO = z.infer<typeof remindersQuerySchema>;
+
+/**
+ * ============================================
+ * SERVICE TYPES
+ * ============================================
+ */
+
+/**
+ * Datos con los que se arma el texto de un recordatorio
+ */
+export interface ReminderTemplateData {
+  patientFirstName: string;
+  doctorName: string;
+  type: AppointmentType;
+  startTime: string;
+  /** "hoy", "mañana" o "el lunes 20 de octubre" */
+  dayLabel: string;
+  clinicName: string;
+  clinicPhone?: string;
+}
+
+/**
+ * Resultado de entregar un recordatorio por un canal
+ */
+export interface ReminderOutcome {
+  status: ReminderStatus;
+  recipient: string | null;
+  error: string | null;
+  sentAt: Date | null;
+}
+
+export interface ReminderFilters {
+  status?: ReminderStatus;
+  channel?: ReminderChannel;
+  appointmentId?: string;
+  patientId?: string;
+}
+
+export interface ReminderListOptions {
+  filters?: ReminderFilters;
+  pagination?: {
+    page: number;
+    limit: number;
+  };
+}
+
+/**
+ * ============================================
+ * RESPONSE TYPES
+ * ============================================
+ */
+
+export interface AppointmentReminderResponse {
+  id: string;
+  appointmentId: string;
+  leadHours: number;
+  channel: ReminderChannel;
+  status: ReminderStatus;
+  recipient: string | null;
+  error: string | null;
+  attempts: number;
+  sentAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  appointment: {
+    id: string;
+    date: Date;
+    startTime: string;
+    type: AppointmentType;
+    patient: {
+      id: string;
+      firstName: string;
+      lastName: string;
+    };
+  };
+}
+
+export interface PaginatedReminderResponse {
+  data: AppointmentReminderResponse[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Cita que no se pudo recordar porque el paciente no tiene contacto para
+ * ningún canal configurado
+ */
+export interface SkippedReminderReport {
+  appointmentId: string;
+  patientId: string;
+  patientName: string;
+  leadHours: number;
+  reason: string;
+}
+
+/**
+ * Resumen de una ejecución del trabajo de recordatorios
+ */
+export interface ReminderRunSummary {
+  startedAt: Date;
+  finishedAt: Date;
+  /** Citas con un recordatorio pendiente en esta ejecución */
+  appointments: number;
+  sent: number;
+  failed: number;
+  skipped: SkippedReminderReport[];
+}
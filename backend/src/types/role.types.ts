@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { Role, Permission } from '@prisma/client';
+
+/**
+ * ============================================
+ * ZOD VALIDATION SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Role name validation
+ * Lowercase words separated by underscores or hyphens, e.g. 'billing_clerk'
+ */
+export const roleNameSchema = z
+  .string()
+  .min(3, 'Role name must be at least 3 characters')
+  .max(50, 'Role name must not exceed 50 characters')
+  .regex(
+    /^[a-z][a-z0-9_-]*$/,
+    'Role name must be lowercase and contain only letters, numbers, underscores or hyphens'
+  );
+
+/**
+ * Create role schema
+ */
+export const createRoleSchema = z.object({
+  name: roleNameSchema,
+  description: z.string().max(255).optional(),
+  permissionIds: z.array(z.string().uuid('Invalid permission ID format')).optional(),
+});
+
+/**
+ * Attach permissions schema
+ */
+export const attachPermissionsSchema = z.object({
+  permissionIds: z
+    .array(z.string().uuid('Invalid permission ID format'))
+    .min(1, 'At least one permission is required'),
+});
+
+/**
+ * Two-factor requirement schema
+ */
+export const twoFactorRequirementSchema = z.object({
+  required: z.boolean({ required_error: 'required is required' }),
+});
+
+/**
+ * Role ID parameter schema
+ */
+export const roleIdSchema = z.object({
+  id: z.string().uuid('Invalid role ID format'),
+});
+
+/**
+ * Role permission parameter schema
+ */
+export const rolePermissionParamsSchema = z.object({
+  id: z.string().uuid('Invalid role ID format'),
+  permissionId: z.string().uuid('Invalid permission ID format'),
+});
+
+/**
+ * Role user parameter schema
+ */
+export const roleUserParamsSchema = z.object({
+  id: z.string().uuid('Invalid role ID format'),
+  userId: z.string().uuid('Invalid user ID format'),
+});
+
+/**
+ * ============================================
+ * TYPESCRIPT INTERFACES
+ * ============================================
+ */
+
+/**
+ * Role creation data
+ */
+export interface CreateRoleData {
+  name: string;
+  description?: string;
+  permissionIds?: string[];
+}
+
+/**
+ * Role with its permissions and number of users
+ */
+export type RoleWithPermissions = Role & {
+  permissions: Permission[];
+  _count: {
+    users: number;
+  };
+};
+
+/**
+ * ============================================
+ * DATA TRANSFER OBJECTS (DTOs)
+ * ============================================
+ */
+
+/**
+ * Create role DTO
+ */
+export type CreateRoleDTO = z.infer<typeof createRoleSchema>;
+
+/**
+ * Attach permissions DTO
+ */
+export type AttachPermissionsDTO = z.infer<typeof attachPermissionsSchema>;
+
+/**
+ * Two-factor requirement DTO
+ */
+export type TwoFactorRequirementDTO = z.infer<typeof twoFactorRequirementSchema>;
@@ -0,0 +1,358 @@
+import { z } from 'zod';
+import { AppointmentStatus, BlockedTime, RecurrenceFrequency, WorkSchedule } from '@prisma/client';
+
+/**
+ * ============================================
+ * ZOD VALIDATION SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Time validation schema
+ * Format: "HH:MM" (24-hour format)
+ */
+const timeSchema = z
+  .string()
+  .regex(/^([0-1][0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format. Use HH:MM (24-hour format)');
+
+/**
+ * Date validation schema
+ * Must be a valid ISO date string
+ */
+const dateSchema = z
+  .string()
+  .datetime({ message: 'Invalid date format. Use ISO 8601 format' })
+  .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format. Use YYYY-MM-DD'));
+
+/**
+ * Day of week validation
+ * 0 (Sunday) - 6 (Saturday), same as Date.getDay()
+ */
+const dayOfWeekSchema = z
+  .number()
+  .int('Day must be an integer')
+  .min(0, 'Day must be between 0 (Sunday) and 6 (Saturday)')
+  .max(6, 'Day must be between 0 (Sunday) and 6 (Saturday)');
+
+/**
+ * Maximum length of a non-recurring blocked time (vacations, leaves)
+ */
+export const MAX_BLOCKED_DAYS = 366;
+
+/**
+ * Time range used for all-day blocks
+ */
+export const ALL_DAY_START = '00:00';
+export const ALL_DAY_END = '23:59';
+
+/**
+ * Work schedule fields (one day of the week)
+ */
+const workScheduleDaySchema = z.object({
+  startTime: timeSchema,
+  endTime: timeSchema,
+  breakStart: timeSchema.nullable().optional(),
+  breakEnd: timeSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Work schedule consistency rules
+ */
+const isValidWorkDay = (data: z.infer<typeof workScheduleDaySchema>): boolean =>
+  data.startTime < data.endTime;
+
+const isValidBreak = (data: z.infer<typeof workScheduleDaySchema>): boolean => {
+  if (!data.breakStart && !data.breakEnd) {
+    return true;
+  }
+  if (!data.breakStart || !data.breakEnd) {
+    return false;
+  }
+  return (
+    data.breakStart < data.breakEnd &&
+    data.breakStart >= data.startTime &&
+    data.breakEnd <= data.endTime
+  );
+};
+
+/**
+ * Upsert work schedule for one day schema
+ * PUT /schedules/doctors/:doctorId/work-schedule/:dayOfWeek
+ */
+export const upsertWorkScheduleSchema = workScheduleDaySchema
+  .refine(isValidWorkDay, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  })
+  .refine(isValidBreak, {
+    message: 'Break must have start and end times within working hours',
+    path: ['breakStart'],
+  });
+
+/**
+ * Replace weekly work schedule schema
+ * Days not included are removed from the doctor's schedule
+ */
+export const setWeeklyScheduleSchema = z
+  .object({
+    days: z
+      .array(
+        workScheduleDaySchema
+          .extend({ dayOfWeek: dayOfWeekSchema })
+          .refine(isValidWorkDay, {
+            message: 'End time must be after start time',
+            path: ['endTime'],
+          })
+          .refine(isValidBreak, {
+            message: 'Break must have start and end times within working hours',
+            path: ['breakStart'],
+          })
+      )
+      .max(7, 'A week has at most 7 days'),
+  })
+  .refine((data) => new Set(data.days.map((day) => day.dayOfWeek)).size === data.days.length, {
+    message: 'Each day of the week can only appear once',
+    path: ['days'],
+  });
+
+/**
+ * Blocked time fields
+ */
+const blockedTimeFieldsSchema = z.object({
+  date: dateSchema,
+  endDate: dateSchema.nullable().optional(),
+  allDay: z.boolean().optional(),
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  reason: z
+    .string()
+    .min(3, 'Reason must be at least 3 characters')
+    .max(500, 'Reason must not exceed 500 characters'),
+  frequency: z
+    .nativeEnum(RecurrenceFrequency, {
+      errorMap: () => ({ message: 'Invalid recurrence frequency' }),
+    })
+    .nullable()
+    .optional(),
+});
+
+type BlockedTimeFields = Partial<z.infer<typeof blockedTimeFieldsSchema>>;
+
+/**
+ * Blocked time consistency rules
+ */
+const hasTimeRange = (data: BlockedTimeFields): boolean =>
+  data.allDay === true || (!!data.startTime && !!data.endTime);
+
+const isValidTimeRange = (data: BlockedTimeFields): boolean =>
+  data.allDay === true || !data.startTime || !data.endTime || data.startTime < data.endTime;
+
+const isValidDateRange = (data: BlockedTimeFields): boolean =>
+  !data.date || !data.endDate || new Date(data.endDate) >= new Date(data.date);
+
+/**
+ * Create blocked time schema
+ * Supports single-day blocks, multi-day ranges (vacations) and recurring blocks
+ */
+export const createBlockedTimeSchema = blockedTimeFieldsSchema
+  .extend({
+    doctorId: z.string().uuid('Invalid doctor ID'),
+  })
+  .refine(hasTimeRange, {
+    message: 'Either allDay or startTime and endTime are required',
+    path: ['startTime'],
+  })
+  .refine(isValidTimeRange, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  })
+  .refine(isValidDateRange, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+/**
+ * Update blocked time schema
+ * All fields are optional for partial updates
+ */
+export const updateBlockedTimeSchema = blockedTimeFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field is required',
+  })
+  .refine((data) => !!data.startTime === !!data.endTime, {
+    message: 'startTime and endTime must be provided together',
+    path: ['startTime'],
+  })
+  .refine(isValidTimeRange, {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  })
+  .refine(isValidDateRange, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+/**
+ * List blocked times schema
+ */
+export const listBlockedTimesSchema = z.object({
+  startDate: dateSchema.optional(),
+  endDate: dateSchema.optional(),
+});
+
+/**
+ * Doctor ID parameter schema
+ */
+export const doctorIdParamSchema = z.object({
+  doctorId: z.string().uuid('Invalid doctor ID'),
+});
+
+/**
+ * Doctor ID and day of week parameters schema
+ */
+export const workScheduleDayParamSchema = z.object({
+  doctorId: z.string().uuid('Invalid doctor ID'),
+  dayOfWeek: z.string().transform(Number).pipe(dayOfWeekSchema),
+});
+
+/**
+ * Blocked time ID parameter schema
+ */
+export const blockedTimeIdSchema = z.object({
+  id: z.string().uuid('Invalid blocked time ID'),
+});
+
+/**
+ * ============================================
+ * TYPESCRIPT INTERFACES
+ * ============================================
+ */
+
+/**
+ * Work schedule data for one day
+ */
+export interface WorkScheduleDayData {
+  startTime: string;
+  endTime: string;
+  breakStart?: string | null;
+  breakEnd?: string | null;
+  isActive?: boolean;
+}
+
+/**
+ * Work schedule data including its day of week
+ */
+export interface WeeklyScheduleDayData extends WorkScheduleDayData {
+  dayOfWeek: number;
+}
+
+/**
+ * Create blocked time data
+ */
+export interface CreateBlockedTimeData {
+  doctorId: string;
+  date: string | Date;
+  endDate?: string | Date | null;
+  allDay?: boolean;
+  startTime?: string;
+  endTime?: string;
+  reason: string;
+  frequency?: RecurrenceFrequency | null;
+}
+
+/**
+ * Update blocked time data
+ */
+export interface UpdateBlockedTimeData {
+  date?: string | Date;
+  endDate?: string | Date | null;
+  allDay?: boolean;
+  startTime?: string;
+  endTime?: string;
+  reason?: string;
+  frequency?: RecurrenceFrequency | null;
+}
+
+/**
+ * Blocked time data as persisted
+ */
+export interface BlockedTimeRecordData {
+  doctorId: string;
+  date: Date;
+  endDate: Date | null;
+  startTime: string;
+  endTime: string;
+  reason: string;
+  frequency: RecurrenceFrequency | null;
+}
+
+/**
+ * Fields needed to decide on which days a block applies
+ */
+export type BlockedTimeOccurrence = Pick<BlockedTime, 'date' | 'endDate' | 'frequency'>;
+
+/**
+ * Appointment overlapping a blocked time
+ */
+export interface OverlappingAppointment {
+  id: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  status: AppointmentStatus;
+  patient: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    phone: string;
+  };
+}
+
+/**
+ * Blocked time with the appointments that must be rescheduled
+ */
+export interface BlockedTimeResult {
+  blockedTime: BlockedTime;
+  overlappingAppointments: OverlappingAppointment[];
+}
+
+/**
+ * Weekly schedule response
+ */
+export interface WeeklyScheduleResponse {
+  doctorId: string;
+  days: WorkSchedule[];
+}
+
+/**
+ * ============================================
+ * DATA TRANSFER OBJECTS (DTOs)
+ * ============================================
+ */
+
+/**
+ * Upsert work schedule DTO
+ */
+export type UpsertWorkScheduleDTO = z.infer<typeof upsertWorkScheduleSchema>;
+
+/**
+ * Set weekly schedule DTO
+ */
+export type SetWeeklyScheduleDTO = z.infer<typeof setWeeklyScheduleSchema>;
+
+/**
+ * Create blocked time DTO
+ */
+export type CreateBlockedTimeDTO = z.infer<typeof createBlockedTimeSchema>;
+
+/**
+ * Update blocked time DTO
+ */
+export type UpdateBlockedTimeDTO = z.infer<typeof updateBlockedTimeSchema>;
+
+/**
+ * List blocked times DTO
+ */
+export type ListBlockedTimesDTO = z.infer<typeof listBlockedTimesSchema>;
@@ -0,0 +1,152 @@
+import type forge from 'node-forge';
+
+/**
+ * ============================================
+ * TYPESCRIPT INTERFACES
+ * ============================================
+ */
+
+/**
+ * SRI environment: 1 pruebas, 2 producción
+ */
+export type SriEnvironment = '1' | '2';
+
+/**
+ * Data encoded in the 49-digit access key (clave de acceso)
+ */
+export interface AccessKeyData {
+  issueDate: Date;
+  /** Document type (01 factura) */
+  documentType: string;
+  ruc: string;
+  environment: SriEnvironment;
+  establishment: string;
+  emissionPoint: string;
+  sequence: number;
+  /** 8-digit code chosen by the issuer */
+  numericCode: string;
+  /** 1: emisión normal */
+  emissionType?: string;
+}
+
+/**
+ * Tax of a line or of the invoice totals (IVA)
+ */
+export interface SriTax {
+  /** codigoPorcentaje of the IVA rate */
+  rateCode: string;
+  /** Rate as a percentage (15, 0) */
+  rate: number;
+  base: number;
+  value: number;
+}
+
+export interface SriInvoiceLine {
+  code: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  /** Total before taxes (quantity x price - discount) */
+  total: number;
+  tax: SriTax;
+}
+
+export interface SriPayment {
+  /** formaPago code of the SRI catalog */
+  method: string;
+  amount: number;
+}
+
+/**
+ * Everything needed to build a factura v1.1.0
+ */
+export interface SriInvoiceDocument {
+  environment: SriEnvironment;
+  accessKey: string;
+  issuer: {
+    ruc: string;
+    businessName: string;
+    tradeName?: string;
+    address: string;
+    accountingRequired: boolean;
+  };
+  establishment: string;
+  emissionPoint: string;
+  sequence: number;
+  issueDate: Date;
+  buyer: {
+    /** tipoIdentificacionComprador code */
+    identificationType: string;
+    identification: string;
+    name: string;
+    address?: string | null;
+    email?: string | null;
+    phone?: string | null;
+  };
+  lines: SriInvoiceLine[];
+  totals: {
+    /** Total before taxes (after discounts) */
+    subtotal: number;
+    discount: number;
+    taxes: SriTax[];
+    total: number;
+  };
+  payments: SriPayment[];
+}
+
+/**
+ * Signing key and certificate loaded from a PKCS#12 file
+ */
+export interface SriCertificate {
+  privateKey: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+}
+
+/**
+ * Message returned by the SRI web services
+ */
+export interface SriMessage {
+  identifier: string;
+  message: string;
+  additionalInfo?: string;
+  type: string;
+}
+
+/**
+ * Reception (validarComprobante) result
+ */
+export interface SriReceptionResult {
+  status: 'RECIBIDA' | 'DEVUELTA';
+  messages: SriMessage[];
+}
+
+/**
+ * Authorization (autorizacionComprobante) result
+ * EN PROCESO when the SRI has not finished validating the document
+ */
+export interface SriAuthorizationResult {
+  status: 'AUTORIZADO' | 'NO AUTORIZADO' | 'EN PROCESO';
+  authorizationNumber?: string;
+  authorizedAt?: Date;
+  messages: SriMessage[];
+}
+
+/**
+ * SRI transport
+ * Sends signed documents and queries their authorization (SOAP web services, local files, memory, ...)
+ */
+export interface SriTransport {
+  readonly name: string;
+  submit(signedXml: string, accessKey: string): Promise<SriReceptionResult>;
+  authorize(accessKey: string): Promise<SriAuthorizationResult>;
+}
+
+/**
+ * Signed XML file of an invoice
+ */
+export interface SriSignedXmlFile {
+  content: Buffer;
+  contentType: string;
+  filename: string;
+}
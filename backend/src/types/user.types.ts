@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { commonSchemas } from '@middleware/validation';
+
+/**
+ * ============================================
+ * ZOD VALIDATION SCHEMAS
+ * ============================================
+ */
+
+/**
+ * Search/filter users schema
+ */
+export const searchUsersSchema = z.object({
+  // Search by name or email
+  search: z.string().min(1).max(100).optional(),
+
+  // Filters
+  role: z.string().min(1).max(50).optional(), // Role name, e.g. 'doctor'
+  isActive: z.string().transform((val) => val === 'true').optional(),
+  includeDeleted: z.string().transform((val) => val === 'true').optional(),
+
+  // Pagination
+  page: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  limit: z.string().transform(Number).pipe(z.number().int().positive().max(100)).optional(),
+
+  // Sorting
+  sortBy: z.enum(['firstName', 'lastName', 'email', 'createdAt']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+/**
+ * Update user schema
+ * Email and role are not editable here (role changes go through /roles)
+ */
+export const updateUserSchema = z
+  .object({
+    firstName: z
+      .string()
+      .min(2, 'First name must be at least 2 characters')
+      .max(50, 'First name must not exceed 50 characters')
+      .regex(/^[a-zA-ZáéíóúÁÉÍÓÚñÑ\s]+$/, 'First name must contain only letters')
+      .optional(),
+    lastName: z
+      .string()
+      .min(2, 'Last name must be at least 2 characters')
+      .max(50, 'Last name must not exceed 50 characters')
+      .regex(/^[a-zA-ZáéíóúÁÉÍÓÚñÑ\s]+$/, 'Last name must contain only letters')
+      .optional(),
+    phone: z
+      .string()
+      .regex(/^(\+593|0)[0-9]{9}$/, 'Invalid phone number format')
+      .nullable()
+      .optional(),
+    avatar: z.string().url('Avatar must be a valid URL').max(500).nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field is required',
+  });
+
+/**
+ * Admin password reset schema
+ */
+export const adminResetPasswordSchema = z
+  .object({
+    password: commonSchemas.password,
+    confirmPassword: z.string().min(1, 'Password confirmation is required'),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+/**
+ * User ID parameter schema
+ */
+export const userIdSchema = z.object({
+  id: z.string().uuid('Invalid user ID format'),
+});
+
+/**
+ * ============================================
+ * TYPESCRIPT INTERFACES
+ * ============================================
+ */
+
+/**
+ * User update data
+ */
+export interface UpdateUserData {
+  firstName?: string;
+  lastName?: string;
+  phone?: string | null;
+  avatar?: string | null;
+}
+
+/**
+ * User search filters
+ */
+export interface UserSearchFilters {
+  search?: string;
+  role?: string;
+  isActive?: boolean;
+  includeDeleted?: boolean;
+}
+
+/**
+ * User list options
+ */
+export interface UserListOptions {
+  filters?: UserSearchFilters;
+  pagination?: {
+    page: number;
+    limit: number;
+  };
+  sorting?: {
+    sortBy: string;
+    sortOrder: 'asc' | 'desc';
+  };
+}
+
+/**
+ * User without password, with role
+ */
+export interface SafeUserWithRole {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone: string | null;
+  avatar: string | null;
+  isActive: boolean;
+  twoFactorEnabled: boolean;
+  lockedUntil: Date | null;
+  roleId: string;
+  role: {
+    id: string;
+    name: string;
+    description: string | null;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt: Date | null;
+}
+
+/**
+ * Paginated user response
+ */
+export interface PaginatedUserResponse {
+  data: SafeUserWithRole[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Doctor option for pickers
+ */
+export interface DoctorSummary {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  avatar: string | null;
+}
+
+/**
+ * ============================================
+ * DATA TRANSFER OBJECTS (DTOs)
+ * ============================================
+ */
+
+/**
+ * Search users DTO
+ */
+export type SearchUsersDTO = z.infer<typeof searchUsersSchema>;
+
+/**
+ * Update user DTO
+ */
+export type UpdateUserDTO = z.infer<typeof updateUserSchema>;
+
+/**
+ * Admin reset password DTO
+ */
+export type AdminResetPasswordDTO = z.infer<typeof adminResetPasswordSchema>;
@@ -23,6 +23,14 @@ export enum HttpStatus {
   SERVICE_UNAVAILABLE = 503,
 }
 
+/**
+ * Machine-readable error codes
+ * Sent as `code` so clients can react without parsing the message
+ */
+export enum ErrorCode {
+  EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+}
+
 /**
  * Custom API Error class
  * Extends the native Error class with additional properties for HTTP responses
@@ -31,6 +39,7 @@ export class ApiError extends Error {
   public readonly statusCode: number;
   public readonly isOperational: boolean;
   public readonly errors?: any[];
+  public code?: ErrorCode;
 
   /**
    * Creates an ApiError instance
@@ -125,6 +134,15 @@ export class ApiError extends Error {
     return new ApiError(HttpStatus.SERVICE_UNAVAILABLE, message);
   }
 
+  /**
+   * Attach a machine-readable error code
+   * @param code - Error code
+   */
+  withCode(code: ErrorCode): this {
+    this.code = code;
+    return this;
+  }
+
   /**
    * Convert error to JSON response format
    */
@@ -133,6 +151,7 @@ export class ApiError extends Error {
       success: false,
       message: this.message,
       statusCode: this.statusCode,
+      ...(this.code && { code: this.code }),
       errors: this.errors,
       ...(process.env.NODE_ENV === 'development' && { stack: this.stack }),
     };
@@ -0,0 +1,65 @@
+import { AppointmentStatus } from '@prisma/client';
+import { DOCTOR_ROLE } from '@repositories/user.repository';
+
+/**
+ * Appointment status rules
+ *
+ * An appointment is scheduled, optionally confirmed, and then either attended
+ * (IN_PROGRESS → COMPLETED), cancelled, marked as a no-show or rescheduled into
+ * a new appointment. Every final status is permanent; a rescheduled appointment
+ * keeps a link to its replacement.
+ */
+
+/**
+ * Allowed status transitions of an appointment
+ */
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  [AppointmentStatus.SCHEDULED]: [
+    AppointmentStatus.CONFIRMED,
+    AppointmentStatus.IN_PROGRESS,
+    AppointmentStatus.CANCELLED,
+    AppointmentStatus.NO_SHOW,
+    AppointmentStatus.RESCHEDULED,
+  ],
+  [AppointmentStatus.CONFIRMED]: [
+    AppointmentStatus.IN_PROGRESS,
+    AppointmentStatus.CANCELLED,
+    AppointmentStatus.NO_SHOW,
+    AppointmentStatus.RESCHEDULED,
+  ],
+  [AppointmentStatus.IN_PROGRESS]: [AppointmentStatus.COMPLETED],
+  [AppointmentStatus.COMPLETED]: [],
+  [AppointmentStatus.CANCELLED]: [],
+  [AppointmentStatus.NO_SHOW]: [],
+  [AppointmentStatus.RESCHEDULED]: [],
+};
+
+/**
+ * Roles allowed to move an appointment to a status
+ * Statuses not listed can be set by anyone with appointments:update;
+ * only doctors start and complete appointments (admins are refused too)
+ */
+export const APPOINTMENT_STATUS_ROLES: Partial<Record<AppointmentStatus, string[]>> = {
+  [AppointmentStatus.IN_PROGRESS]: [DOCTOR_ROLE],
+  [AppointmentStatus.COMPLETED]: [DOCTOR_ROLE],
+};
+
+/**
+ * Check whether an appointment can move from one status to another
+ */
+export const canTransitionAppointment = (from: AppointmentStatus, to: AppointmentStatus): boolean =>
+  APPOINTMENT_TRANSITIONS[from].includes(to);
+
+/**
+ * Check whether a role can move an appointment to a status
+ */
+export const canRoleSetAppointmentStatus = (role: string, to: AppointmentStatus): boolean => {
+  const roles = APPOINTMENT_STATUS_ROLES[to];
+  return !roles || roles.includes(role);
+};
+
+/**
+ * Check whether a status is final
+ */
+export const isFinalAppointmentStatus = (status: AppointmentStatus): boolean =>
+  APPOINTMENT_TRANSITIONS[status].length === 0;
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { AuditAction } from '@prisma/client';
+
+/**
+ * Audit log helpers
+ * Snapshots, diffs and the hash chain that makes the audit log tamper-evident
+ */
+
+export type AuditSnapshot = Record<string, unknown>;
+
+/**
+ * Fields of an audit entry covered by its hash
+ */
+export interface AuditHashInput {
+  previousHash: string | null;
+  userId: string | null;
+  action: AuditAction;
+  entityType: string;
+  entityId: string | null;
+  patientId: string | null;
+  before: unknown;
+  after: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Convert a value to its JSON representation (Dates as ISO strings, Decimals as strings)
+ */
+const toJsonValue = (value: unknown): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+
+  if (typeof value === 'object') {
+    // Prisma.Decimal and other value objects
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      return (value as { toJSON: () => unknown }).toJSON();
+    }
+
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, toJsonValue(item)])
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Serialize a value as JSON with sorted keys
+ * Postgres jsonb does not keep key order, so hashes must not depend on it
+ */
+export const canonicalJson = (value: unknown): string => {
+  const normalized = toJsonValue(value);
+
+  if (Array.isArray(normalized)) {
+    return `[${normalized.map(canonicalJson).join(',')}]`;
+  }
+
+  if (normalized !== null && typeof normalized === 'object') {
+    const entries = Object.keys(normalized)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((normalized as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(normalized);
+};
+
+/**
+ * Keep only the given fields of a record, as JSON values
+ * @param record - Record returned by Prisma
+ * @param fields - Scalar fields of the model
+ */
+export const toAuditSnapshot = (
+  record: Record<string, unknown>,
+  fields: readonly string[]
+): AuditSnapshot =>
+  Object.fromEntries(
+    fields.filter((field) => field in record).map((field) => [field, toJsonValue(record[field])])
+  );
+
+/**
+ * Compare two snapshots of the same record
+ * `updatedAt` is ignored: it changes on every write
+ * @returns Changed fields before and after, or null if nothing changed
+ */
+export const diffSnapshots = (
+  before: AuditSnapshot,
+  after: AuditSnapshot
+): { before: AuditSnapshot; after: AuditSnapshot } | null => {
+  const changedBefore: AuditSnapshot = {};
+  const changedAfter: AuditSnapshot = {};
+
+  for (const field of Object.keys(after)) {
+    if (field === 'updatedAt') {
+      continue;
+    }
+
+    if (canonicalJson(before[field]) !== canonicalJson(after[field])) {
+      changedBefore[field] = before[field] ?? null;
+      changedAfter[field] = after[field];
+    }
+  }
+
+  return Object.keys(changedAfter).length > 0
+    ? { before: changedBefore, after: changedAfter }
+    : null;
+};
+
+/**
+ * Action recorded for an update: setting `deletedAt` is a (soft) delete
+ */
+export const resolveUpdateAction = (before: AuditSnapshot, after: AuditSnapshot): AuditAction =>
+  'deletedAt' in after && !before.deletedAt && after.deletedAt
+    ? AuditAction.DELETE
+    : AuditAction.UPDATE;
+
+/**
+ * Hash of an audit entry chained to the previous one
+ */
+export const computeAuditHash = (entry: AuditHashInput): string =>
+  crypto
+    .createHash('sha256')
+    .update(
+      canonicalJson({
+        previousHash: entry.previousHash,
+        userId: entry.userId,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        patientId: entry.patientId,
+        before: entry.before,
+        after: entry.after,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        createdAt: entry.createdAt,
+      })
+    )
+    .digest('hex');
@@ -0,0 +1,187 @@
+import type { Cie10CsvParseResult, Cie10ImportError, Cie10ImportRow } from '../types/catalog.types';
+
+/**
+ * Catalog helpers
+ *
+ * Parsing of the CIE-10 K00–K14 chapter (diseases of the oral cavity, salivary
+ * glands and jaws) published as CSV, and the search terms used for codes and
+ * names of both catalogs.
+ */
+
+export const CIE10_DENTAL_CHAPTER = 'K00-K14';
+
+/**
+ * Code inside K00–K14, with or without subcategory (K02, K02.1, K08.81)
+ */
+const CIE10_DENTAL_CODE = /^K(0\d|1[0-4])(\.\d{1,2})?$/;
+
+/**
+ * Accepted column names (English and Spanish, without accents)
+ */
+const CIE10_COLUMNS: Record<string, 'code' | 'name' | 'category' | 'description'> = {
+  code: 'code',
+  codigo: 'code',
+  name: 'name',
+  nombre: 'name',
+  category: 'category',
+  categoria: 'category',
+  description: 'description',
+  descripcion: 'description',
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF)
+ * The delimiter is a comma, or a semicolon when the header has one (Excel in Spanish)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Normalize a CIE-10 code as written in official lists ("k02.1", "K021", "K02.1-")
+ */
+export const normalizeCie10Code = (value: string): string => {
+  const code = value.trim().toUpperCase().replace(/[^A-Z0-9.]/g, '');
+  return /^[A-Z]\d{3,4}$/.test(code) ? `${code.slice(0, 3)}.${code.slice(3)}` : code;
+};
+
+/**
+ * Check whether a code belongs to the K00–K14 chapter
+ */
+export const isDentalCie10Code = (code: string): boolean => CIE10_DENTAL_CODE.test(code);
+
+const normalizeHeader = (value: string): string =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Parse the K00–K14 chapter from CSV
+ *
+ * Requires `code` and `name` columns (or `codigo` and `nombre`). Three-character
+ * rows (K02) are categories: they are not imported and name the category of
+ * their subcodes ("K02: Caries dental") when the file has no `category` column.
+ * Invalid lines are reported and skipped.
+ */
+export const parseCie10Csv = (text: string): Cie10CsvParseResult => {
+  const [header = [], ...lines] = parseCsv(text);
+  const columns = header.map((value) => CIE10_COLUMNS[normalizeHeader(value)]);
+
+  if (!columns.includes('code') || !columns.includes('name')) {
+    throw new Error('The CSV must have code and name columns');
+  }
+
+  const parsed = lines
+    .map((values, index) => {
+      const record: Partial<Record<'code' | 'name' | 'category' | 'description', string>> = {};
+      columns.forEach((column, position) => {
+        if (column) {
+          record[column] = values[position]?.trim() ?? '';
+        }
+      });
+      return { line: index + 2, record, empty: values.every((value) => !value.trim()) };
+    })
+    .filter(({ empty }) => !empty);
+
+  const categoryNames = new Map<string, string>();
+  for (const { record } of parsed) {
+    const code = normalizeCie10Code(record.code ?? '');
+    if (/^K\d{2}$/.test(code) && record.name) {
+      categoryNames.set(code, record.name);
+    }
+  }
+
+  const rows: Cie10ImportRow[] = [];
+  const errors: Cie10ImportError[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, record } of parsed) {
+    const code = normalizeCie10Code(record.code ?? '');
+
+    if (!code) {
+      errors.push({ line, code: null, message: 'Missing code' });
+      continue;
+    }
+    if (!isDentalCie10Code(code)) {
+      errors.push({ line, code, message: `Code is not in chapter ${CIE10_DENTAL_CHAPTER}` });
+      continue;
+    }
+    if (!code.includes('.')) {
+      continue;
+    }
+    if (!record.name) {
+      errors.push({ line, code, message: 'Missing name' });
+      continue;
+    }
+    if (seen.has(code)) {
+      errors.push({ line, code, message: 'Duplicated code' });
+      continue;
+    }
+
+    const parent = code.slice(0, 3);
+    const category = record.category || (categoryNames.has(parent) ? `${parent}: ${categoryNames.get(parent)}` : '');
+    if (!category) {
+      errors.push({ line, code, message: `Missing category (add a ${parent} row or a category column)` });
+      continue;
+    }
+
+    seen.add(code);
+    rows.push({
+      code,
+      name: record.name,
+      category,
+      chapter: CIE10_DENTAL_CHAPTER,
+      description: record.description || null,
+    });
+  }
+
+  return { rows, errors };
+};
+
+/**
+ * Split a search query into terms; every term must match
+ */
+export const getSearchTerms = (query: string | undefined): string[] =>
+  (query ?? '').trim().split(/\s+/).filter(Boolean).slice(0, 5);
@@ -0,0 +1,166 @@
+import { ToothStatus } from '@prisma/client';
+import type { ToothSurfacesResponse } from '../types/odontogram.types';
+
+/**
+ * Clinical rules linking odontogram findings with diagnoses and treatments
+ *
+ * Findings: a pathological tooth or surface status suggests a CIE-10 diagnosis
+ * and a TreatmentCatalog procedure (by code).
+ * Outcomes: completing a catalog procedure on a tooth yields the status the
+ * tooth should have afterwards (e.g. a restoration turns CARIES into FILLED).
+ */
+
+type Surface = keyof ToothSurfacesResponse;
+
+export interface ToothState {
+  toothNumber: string;
+  status: ToothStatus;
+  surfaces?: ToothSurfacesResponse;
+}
+
+export interface ToothFinding {
+  status: ToothStatus;
+  surfaces: Surface[];
+}
+
+export interface FindingRule {
+  cie10Code: string | null;
+  catalogCode: string;
+}
+
+/**
+ * Third molars (18, 28, 38, 48)
+ */
+const isThirdMolar = (toothNumber: string): boolean =>
+  ['1', '2', '3', '4'].includes(toothNumber.charAt(0)) && toothNumber.charAt(1) === '8';
+
+/**
+ * Diagnosis and procedure suggested for each pathological status
+ */
+const FINDING_RULES: Partial<Record<ToothStatus, (toothNumber: string, finding: ToothFinding) => FindingRule>> = {
+  // Caries de la dentina; resina simple o compuesta según superficies afectadas
+  [ToothStatus.CARIES]: (_toothNumber, finding) => ({
+    cie10Code: 'K02.1',
+    catalogCode: finding.surfaces.length > 1 ? 'REST-002' : 'REST-001',
+  }),
+  // Fractura de los dientes; corona
+  [ToothStatus.FRACTURED]: () => ({ cie10Code: 'S02.5', catalogCode: 'PROT-001' }),
+  // Pérdida de dientes; implante
+  [ToothStatus.MISSING]: () => ({ cie10Code: 'K08.1', catalogCode: 'CIRUG-004' }),
+  // Indicación de extracción (el diagnóstico depende de la causa)
+  [ToothStatus.EXTRACTION]: (toothNumber) => ({
+    cie10Code: null,
+    catalogCode: isThirdMolar(toothNumber) ? 'CIRUG-003' : 'CIRUG-001',
+  }),
+};
+
+/**
+ * Statuses that represent a finding to diagnose and treat
+ */
+export const PATHOLOGICAL_STATUSES = Object.keys(FINDING_RULES) as ToothStatus[];
+
+/**
+ * Pathological statuses present on a tooth, with the surfaces that have them
+ */
+const collectFindings = (tooth: ToothState): Map<ToothStatus, Surface[]> => {
+  const findings = new Map<ToothStatus, Surface[]>();
+
+  if (PATHOLOGICAL_STATUSES.includes(tooth.status)) {
+    findings.set(tooth.status, []);
+  }
+
+  for (const [surface, condition] of Object.entries(tooth.surfaces ?? {}) as Array<
+    [Surface, ToothSurfacesResponse[Surface]]
+  >) {
+    if (condition && PATHOLOGICAL_STATUSES.includes(condition.status)) {
+      findings.set(condition.status, [...(findings.get(condition.status) ?? []), surface]);
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Pathological statuses present after an update that the tooth did not have before
+ * @param before - Tooth before the update
+ * @param after - Tooth after the update
+ */
+export const detectNewFindings = (before: ToothState, after: ToothState): ToothFinding[] => {
+  const previous = collectFindings(before);
+
+  return [...collectFindings(after).entries()]
+    .filter(([status]) => !previous.has(status))
+    .map(([status, surfaces]) => ({ status, surfaces }));
+};
+
+/**
+ * Diagnosis and procedure codes suggested for a finding
+ */
+export const getFindingRule = (toothNumber: string, finding: ToothFinding): FindingRule | null => {
+  const rule = FINDING_RULES[finding.status];
+  return rule ? rule(toothNumber, finding) : null;
+};
+
+/**
+ * Status a tooth ends up with after each kind of procedure, by catalog code
+ */
+const resolveOutcomeStatus = (catalogCode: string): ToothStatus | null => {
+  if (catalogCode.startsWith('REST-')) return ToothStatus.FILLED;
+  if (catalogCode.startsWith('ENDO-')) return ToothStatus.ROOT_CANAL;
+
+  switch (catalogCode) {
+    case 'CIRUG-001':
+    case 'CIRUG-002':
+    case 'CIRUG-003':
+      return ToothStatus.MISSING;
+    case 'CIRUG-004':
+      return ToothStatus.IMPLANT;
+    case 'PROT-001':
+    case 'PROT-002':
+      return ToothStatus.CROWN;
+    case 'PROT-003':
+      return ToothStatus.BRIDGE;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Tooth state after completing a procedure on it, or null when the procedure does
+ * not change the chart (e.g. cleaning) or the tooth already reflects it
+ * @param catalogCode - TreatmentCatalog code of the completed treatment
+ * @param tooth - Tooth in the current odontogram
+ * @param date - Completion date recorded on treated surfaces
+ */
+export const proposeToothOutcome = (
+  catalogCode: string,
+  tooth: ToothState,
+  date: string
+): { status: ToothStatus; surfaces?: ToothSurfacesResponse } | null => {
+  const status = resolveOutcomeStatus(catalogCode);
+  if (!status) {
+    return null;
+  }
+
+  let surfaces: ToothSurfacesResponse | undefined = tooth.surfaces;
+
+  if (status === ToothStatus.FILLED) {
+    // Restorations fill the decayed or fractured surfaces and keep the others
+    surfaces = Object.fromEntries(
+      Object.entries(tooth.surfaces ?? {}).map(([surface, condition]) => [
+        surface,
+        condition && (condition.status === ToothStatus.CARIES || condition.status === ToothStatus.FRACTURED)
+          ? { ...condition, status: ToothStatus.FILLED, date }
+          : condition,
+      ])
+    );
+  } else if (status === ToothStatus.MISSING || status === ToothStatus.IMPLANT || status === ToothStatus.CROWN) {
+    // The whole crown is removed or covered
+    surfaces = undefined;
+  }
+
+  const unchanged =
+    status === tooth.status && JSON.stringify(surfaces ?? {}) === JSON.stringify(tooth.surfaces ?? {});
+
+  return unchanged ? null : { status, surfaces };
+};
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import { canonicalJson } from '@utils/audit';
+import { CONSENT_PLACEHOLDERS, type ConsentDocumentData } from '../types/consent.types';
+
+/**
+ * Informed consent helpers
+ * Template filling and the hash that makes a signed consent tamper-evident
+ */
+
+/**
+ * Fields of a signed consent covered by its hash
+ */
+export interface ConsentHashInput {
+  patientId: string;
+  templateId: string;
+  category: string;
+  treatmentPlanId: string | null;
+  treatmentId: string | null;
+  title: string;
+  content: string;
+  signedName: string;
+  signatureImage: string;
+  signedAt: Date;
+  collectedById: string;
+}
+
+/**
+ * Fill a template: each {{placeholder}} is replaced by its value
+ * Unknown placeholders are left as they are
+ */
+export const renderConsentContent = (template: string, data: ConsentDocumentData): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    (CONSENT_PLACEHOLDERS as readonly string[]).includes(key) ? data[key as keyof ConsentDocumentData] : match
+  );
+
+/**
+ * Hash of a signed consent (SHA-256 over its canonical JSON)
+ */
+export const computeConsentHash = (consent: ConsentHashInput): string =>
+  crypto
+    .createHash('sha256')
+    .update(
+      canonicalJson({
+        patientId: consent.patientId,
+        templateId: consent.templateId,
+        category: consent.category,
+        treatmentPlanId: consent.treatmentPlanId,
+        treatmentId: consent.treatmentId,
+        title: consent.title,
+        content: consent.content,
+        signedName: consent.signedName,
+        signatureImage: consent.signatureImage,
+        signedAt: consent.signedAt,
+        collectedById: consent.collectedById,
+      })
+    )
+    .digest('hex');
@@ -0,0 +1,130 @@
+import { ClaimStatus } from '@prisma/client';
+import type {
+  ClaimPaymentAllocation,
+  CoverageInput,
+  CoverageSplit,
+} from '../types/insurance.types';
+
+/**
+ * Insurance rules
+ *
+ * The cost of a treatment is split with the patient's plan: the deductible
+ * left for the year is paid by the patient, the insurer covers the percentage
+ * of the rest set for the treatment category, up to what is left of the
+ * annual maximum. Categories inside their waiting period are not covered.
+ *
+ * A claim is drafted from completed treatments, submitted, then approved
+ * (fully or partially) or denied, and paid in one or more remittances.
+ */
+
+/**
+ * Allowed status transitions of a claim
+ * PARTIALLY_PAID and PAID are reached by posting remittances
+ */
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  [ClaimStatus.DRAFT]: [ClaimStatus.SUBMITTED],
+  [ClaimStatus.SUBMITTED]: [ClaimStatus.APPROVED, ClaimStatus.DENIED],
+  [ClaimStatus.APPROVED]: [ClaimStatus.PARTIALLY_PAID, ClaimStatus.PAID],
+  [ClaimStatus.PARTIALLY_PAID]: [ClaimStatus.PAID],
+  [ClaimStatus.PAID]: [],
+  [ClaimStatus.DENIED]: [],
+};
+
+/**
+ * Statuses that accept remittances
+ */
+export const PAYABLE_CLAIM_STATUSES: ClaimStatus[] = [ClaimStatus.APPROVED, ClaimStatus.PARTIALLY_PAID];
+
+/**
+ * Check whether a claim can move from one status to another
+ */
+export const canTransitionClaim = (from: ClaimStatus, to: ClaimStatus): boolean =>
+  CLAIM_TRANSITIONS[from].includes(to);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Coverage rule of a plan for a treatment category (case-insensitive)
+ * Categories without a rule use the default percentage of the plan
+ */
+export const findCoverageRule = <T extends { category: string }>(rules: T[], category: string): T | undefined =>
+  rules.find((rule) => rule.category.trim().toLowerCase() === category.trim().toLowerCase());
+
+/**
+ * Split the cost of a treatment between the insurer and the patient
+ */
+export const calculateCoverage = (input: CoverageInput): CoverageSplit => {
+  const notCovered = (limitedBy: CoverageSplit['limitedBy']): CoverageSplit => ({
+    coveragePercent: input.coveragePercent,
+    deductibleApplied: 0,
+    insurerPortion: 0,
+    patientPortion: round(input.cost),
+    limitedBy,
+  });
+
+  if (input.coveragePercent <= 0) {
+    return notCovered('NOT_COVERED');
+  }
+
+  if (input.waitingPeriodDays > 0 && input.coverageStart) {
+    const coveredFrom = input.coverageStart.getTime() + input.waitingPeriodDays * DAY_MS;
+    if (input.serviceDate.getTime() < coveredFrom) {
+      return notCovered('WAITING_PERIOD');
+    }
+  }
+
+  const deductibleApplied = round(Math.min(input.cost, Math.max(0, input.deductible - input.deductibleUsed)));
+  let insurerPortion = round((input.cost - deductibleApplied) * input.coveragePercent / 100);
+  let limitedBy: CoverageSplit['limitedBy'] = null;
+
+  if (input.annualMaximum !== null) {
+    const remaining = round(Math.max(0, input.annualMaximum - input.benefitsUsed));
+    if (insurerPortion > remaining) {
+      insurerPortion = remaining;
+      limitedBy = 'ANNUAL_MAXIMUM';
+    }
+  }
+
+  return {
+    coveragePercent: input.coveragePercent,
+    deductibleApplied,
+    insurerPortion,
+    patientPortion: round(input.cost - insurerPortion),
+    limitedBy,
+  };
+};
+
+/**
+ * Allocate a remittance to the claim items in order, up to what is pending
+ * of each approved amount
+ */
+export const allocateClaimPayment = (
+  amount: number,
+  items: { id: string; treatmentId: string; approvedAmount: number; paidAmount: number }[]
+): ClaimPaymentAllocation[] => {
+  const allocations: ClaimPaymentAllocation[] = [];
+  let remaining = round(amount);
+
+  for (const item of items) {
+    if (remaining <= 0) break;
+
+    const pending = round(item.approvedAmount - item.paidAmount);
+    if (pending <= 0) continue;
+
+    const allocated = Math.min(pending, remaining);
+    allocations.push({ itemId: item.id, treatmentId: item.treatmentId, amount: allocated });
+    remaining = round(remaining - allocated);
+  }
+
+  return allocations;
+};
+
+/**
+ * Status of an approved claim after a remittance
+ */
+export const resolveClaimPaymentStatus = (approvedAmount: number, paidAmount: number): ClaimStatus => {
+  if (paidAmount <= 0) return ClaimStatus.APPROVED;
+  return round(paidAmount) >= round(approvedAmount) ? ClaimStatus.PAID : ClaimStatus.PARTIALLY_PAID;
+};
@@ -0,0 +1,73 @@
+import { InvoiceStatus } from '@prisma/client';
+import { sumLineTotals } from '@utils/treatmentPlan';
+import type { InvoiceTotals } from '../types/accounting.types';
+
+/**
+ * Invoice rules
+ *
+ * An invoice is drafted, then issued (which assigns its sequential number) and
+ * paid in one or more payments. Only drafts can be edited or deleted; an issued
+ * invoice without payments can be voided, never renumbered.
+ */
+
+/**
+ * Allowed status transitions of an invoice
+ * PARTIALLY_PAID and PAID are reached by recording payments
+ */
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  [InvoiceStatus.DRAFT]: [InvoiceStatus.ISSUED],
+  [InvoiceStatus.ISSUED]: [InvoiceStatus.PARTIALLY_PAID, InvoiceStatus.PAID, InvoiceStatus.VOID],
+  [InvoiceStatus.PARTIALLY_PAID]: [InvoiceStatus.PAID],
+  [InvoiceStatus.PAID]: [],
+  [InvoiceStatus.VOID]: [],
+};
+
+/**
+ * Statuses that accept payments
+ */
+export const PAYABLE_INVOICE_STATUSES: InvoiceStatus[] = [InvoiceStatus.ISSUED, InvoiceStatus.PARTIALLY_PAID];
+
+/**
+ * Check whether an invoice can move from one status to another
+ */
+export const canTransitionInvoice = (from: InvoiceStatus, to: InvoiceStatus): boolean =>
+  INVOICE_TRANSITIONS[from].includes(to);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Invoice totals: subtotal before discounts, discounts, and tax over the
+ * discounted amount of taxable lines
+ */
+export const calculateInvoiceTotals = (
+  items: { quantity: number; unitPrice: number; discount: number; total: number; taxable: boolean }[],
+  taxRate: number
+): InvoiceTotals => {
+  const subtotal = round(items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+  const discount = round(items.reduce((sum, item) => sum + item.discount, 0));
+  const taxableBase = sumLineTotals(items.filter((item) => item.taxable));
+  const tax = round(taxableBase * taxRate);
+
+  return {
+    subtotal,
+    discount,
+    taxableBase,
+    taxRate,
+    tax,
+    total: round(sumLineTotals(items) + tax),
+  };
+};
+
+/**
+ * Status of an issued invoice after a payment
+ */
+export const resolveInvoicePaymentStatus = (total: number, paidAmount: number): InvoiceStatus => {
+  if (paidAmount <= 0) return InvoiceStatus.ISSUED;
+  return round(paidAmount) >= round(total) ? InvoiceStatus.PAID : InvoiceStatus.PARTIALLY_PAID;
+};
+
+/**
+ * Invoice number: establishment, emission point and 9-digit sequence (001-001-000000123)
+ */
+export const formatInvoiceNumber = (establishment: string, emissionPoint: string, sequence: number): string =>
+  `${establishment}-${emissionPoint}-${String(sequence).padStart(9, '0')}`;
@@ -0,0 +1,478 @@
+import PDFDocument from 'pdfkit';
+import { DentitionType, ToothStatus } from '@prisma/client';
+import type {
+  OdontogramExportPatient,
+  OdontogramWithTeethResponse,
+  ToothResponse,
+  ToothSurfacesResponse,
+} from '../types/odontogram.types';
+
+/**
+ * Odontogram chart rendering (SVG and PDF)
+ *
+ * The chart is first laid out as a list of drawing primitives (polygons, lines,
+ * rectangles and text) so that both outputs share the same standard layout:
+ * FDI rows drawn as seen from the front of the patient (patient's right on the
+ * left of the chart), each tooth split into its five surfaces.
+ */
+
+type Surface = keyof ToothSurfacesResponse;
+
+export type ChartShape =
+  | { kind: 'polygon'; points: Array<[number, number]>; fill: string; fillOpacity: number; stroke: string }
+  | { kind: 'line'; from: [number, number]; to: [number, number]; stroke: string; width: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill: string; stroke: string }
+  | {
+      kind: 'text';
+      x: number;
+      y: number; // top of the text
+      text: string;
+      size: number;
+      bold?: boolean;
+      width?: number; // centered within [x, x + width] when set
+    };
+
+export interface ChartDrawing {
+  width: number;
+  height: number;
+  shapes: ChartShape[];
+}
+
+/**
+ * Fill color per status (same palette as the web odontogram)
+ */
+export const TOOTH_STATUS_COLORS: Record<ToothStatus, string> = {
+  HEALTHY: '#ffffff',
+  CARIES: '#ef4444',
+  FILLED: '#3b82f6',
+  MISSING: '#9ca3af',
+  FRACTURED: '#f97316',
+  CROWN: '#eab308',
+  IMPLANT: '#14b8a6',
+  ROOT_CANAL: '#a855f7',
+  EXTRACTION: '#b91c1c',
+  BRIDGE: '#6366f1',
+  TEMPORARY: '#22c55e',
+};
+
+export const TOOTH_STATUS_LABELS: Record<ToothStatus, string> = {
+  HEALTHY: 'Sano',
+  CARIES: 'Caries',
+  FILLED: 'Obturado',
+  MISSING: 'Ausente',
+  FRACTURED: 'Fracturado',
+  CROWN: 'Corona',
+  IMPLANT: 'Implante',
+  ROOT_CANAL: 'Endodoncia',
+  EXTRACTION: 'A extraer',
+  BRIDGE: 'Puente',
+  TEMPORARY: 'Temporal',
+};
+
+const SURFACE_LABELS: Record<Surface, string> = {
+  O: 'Oclusal',
+  M: 'Mesial',
+  D: 'Distal',
+  V: 'Vestibular',
+  L: 'Lingual',
+  P: 'Palatina',
+};
+
+const DENTITION_LABELS: Record<DentitionType, string> = {
+  PERMANENT: 'Permanente',
+  TEMPORARY: 'Temporal',
+  MIXED: 'Mixta',
+};
+
+const MARGIN = 24;
+const TOOTH = 36;
+const INNER = 11;
+const GAP = 6;
+const MIDLINE = 16;
+const LABEL = 14;
+const ROW = LABEL + TOOTH + 12;
+const TEETH_PER_SIDE = 8;
+const CHART_WIDTH = 2 * TEETH_PER_SIDE * (TOOTH + GAP) + MIDLINE;
+const STROKE = '#374151';
+const MUTED = '#6b7280';
+
+interface ChartRow {
+  right: string[];
+  left: string[];
+  upper: boolean;
+}
+
+const range = (quadrant: number, from: number, to: number): string[] => {
+  const step = from <= to ? 1 : -1;
+  const teeth: string[] = [];
+  for (let i = from; i !== to + step; i += step) {
+    teeth.push(`${quadrant}${i}`);
+  }
+  return teeth;
+};
+
+const PERMANENT_UPPER: ChartRow = { right: range(1, 8, 1), left: range(2, 1, 8), upper: true };
+const PERMANENT_LOWER: ChartRow = { right: range(4, 8, 1), left: range(3, 1, 8), upper: false };
+const TEMPORARY_UPPER: ChartRow = { right: range(5, 5, 1), left: range(6, 1, 5), upper: true };
+const TEMPORARY_LOWER: ChartRow = { right: range(8, 5, 1), left: range(7, 1, 5), upper: false };
+
+/**
+ * Chart rows for a dentition type (top to bottom)
+ */
+export const getChartRows = (type: DentitionType): ChartRow[] => {
+  switch (type) {
+    case DentitionType.TEMPORARY:
+      return [TEMPORARY_UPPER, TEMPORARY_LOWER];
+    case DentitionType.MIXED:
+      return [PERMANENT_UPPER, TEMPORARY_UPPER, TEMPORARY_LOWER, PERMANENT_LOWER];
+    default:
+      return [PERMANENT_UPPER, PERMANENT_LOWER];
+  }
+};
+
+/**
+ * Surface drawn on each side of a tooth: vestibular faces outwards, the inner
+ * face (palatal/lingual) faces the other arch and mesial faces the midline
+ */
+const getRegionSurfaces = (toothNumber: string) => {
+  const upper = ['1', '2', '5', '6'].includes(toothNumber.charAt(0));
+  const patientRight = ['1', '4', '5', '8'].includes(toothNumber.charAt(0));
+
+  return {
+    top: (upper ? 'V' : 'L') as Surface,
+    bottom: (upper ? 'P' : 'V') as Surface,
+    left: (patientRight ? 'D' : 'M') as Surface,
+    right: (patientRight ? 'M' : 'D') as Surface,
+    center: 'O' as Surface,
+  };
+};
+
+/**
+ * Format a date as DD/MM/YYYY (UTC)
+ */
+const formatDate = (date: Date | string): string => {
+  const iso = (typeof date === 'string' ? new Date(date) : date).toISOString();
+  return `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}`;
+};
+
+/**
+ * Draw a tooth as five surface polygons with its number above or below
+ */
+const drawTooth = (shapes: ChartShape[], tooth: ToothResponse, x: number, y: number, upper: boolean) => {
+  const toothY = upper ? y + LABEL : y;
+  const p = (dx: number, dy: number): [number, number] => [x + dx, toothY + dy];
+  const regions = {
+    top: [p(0, 0), p(TOOTH, 0), p(TOOTH - INNER, INNER), p(INNER, INNER)],
+    bottom: [p(0, TOOTH), p(TOOTH, TOOTH), p(TOOTH - INNER, TOOTH - INNER), p(INNER, TOOTH - INNER)],
+    left: [p(0, 0), p(INNER, INNER), p(INNER, TOOTH - INNER), p(0, TOOTH)],
+    right: [p(TOOTH, 0), p(TOOTH - INNER, INNER), p(TOOTH - INNER, TOOTH - INNER), p(TOOTH, TOOTH)],
+    center: [p(INNER, INNER), p(TOOTH - INNER, INNER), p(TOOTH - INNER, TOOTH - INNER), p(INNER, TOOTH - INNER)],
+  };
+  const regionSurfaces = getRegionSurfaces(tooth.toothNumber);
+
+  for (const [region, points] of Object.entries(regions) as Array<[keyof typeof regions, Array<[number, number]>]>) {
+    const condition = tooth.surfaces?.[regionSurfaces[region]];
+    shapes.push({
+      kind: 'polygon',
+      points,
+      fill: TOOTH_STATUS_COLORS[condition?.status ?? tooth.status],
+      // Whole-tooth status tints surfaces without their own condition
+      fillOpacity: condition || tooth.status === ToothStatus.HEALTHY ? 1 : 0.35,
+      stroke: STROKE,
+    });
+  }
+
+  if (tooth.status === ToothStatus.MISSING) {
+    shapes.push({ kind: 'line', from: p(0, 0), to: p(TOOTH, TOOTH), stroke: STROKE, width: 2 });
+    shapes.push({ kind: 'line', from: p(TOOTH, 0), to: p(0, TOOTH), stroke: STROKE, width: 2 });
+  }
+
+  shapes.push({
+    kind: 'text',
+    x,
+    y: upper ? y : y + TOOTH + 2,
+    width: TOOTH,
+    text: tooth.toothNumber,
+    size: 9,
+    bold: true,
+  });
+};
+
+/**
+ * Lay out the header, chart and legend of an odontogram
+ * @param odontogram - Odontogram with teeth
+ * @param patient - Patient shown in the header
+ */
+export const layoutOdontogramChart = (
+  odontogram: OdontogramWithTeethResponse,
+  patient: OdontogramExportPatient
+): ChartDrawing => {
+  const shapes: ChartShape[] = [];
+  const width = CHART_WIDTH + 2 * MARGIN;
+  let y = MARGIN;
+
+  // Header
+  shapes.push({ kind: 'text', x: MARGIN, y, text: 'Odontograma', size: 18, bold: true });
+  y += 28;
+  shapes.push({
+    kind: 'text',
+    x: MARGIN,
+    y,
+    text: `Paciente: ${patient.firstName} ${patient.lastName}`,
+    size: 11,
+    bold: true,
+  });
+  y += 16;
+  shapes.push({
+    kind: 'text',
+    x: MARGIN,
+    y,
+    text: `${patient.identificationType}: ${patient.identification} · Fecha de nacimiento: ${formatDate(patient.dateOfBirth)}`,
+    size: 10,
+  });
+  y += 14;
+  shapes.push({
+    kind: 'text',
+    x: MARGIN,
+    y,
+    text: `Versión ${odontogram.version} · ${formatDate(odontogram.date)} · Dentición ${DENTITION_LABELS[odontogram.type].toLowerCase()}`,
+    size: 10,
+  });
+  y += 20;
+  shapes.push({ kind: 'line', from: [MARGIN, y], to: [MARGIN + CHART_WIDTH, y], stroke: MUTED, width: 1 });
+  y += 12;
+
+  // Chart
+  const teeth = new Map(odontogram.teeth.map((tooth) => [tooth.toothNumber, tooth]));
+  const rows = getChartRows(odontogram.type);
+  const midX = MARGIN + CHART_WIDTH / 2;
+  const chartTop = y;
+
+  rows.forEach((row, index) => {
+    if (index === rows.length / 2) {
+      shapes.push({ kind: 'line', from: [MARGIN, y], to: [MARGIN + CHART_WIDTH, y], stroke: MUTED, width: 1 });
+      y += 8;
+    }
+
+    // Patient's right: drawn right-aligned up to the midline
+    row.right.forEach((number, i) => {
+      const tooth = teeth.get(number);
+      const x = midX - MIDLINE / 2 - (row.right.length - i) * (TOOTH + GAP) + GAP;
+      if (tooth) drawTooth(shapes, tooth, x, y, row.upper);
+    });
+    row.left.forEach((number, i) => {
+      const tooth = teeth.get(number);
+      const x = midX + MIDLINE / 2 + i * (TOOTH + GAP);
+      if (tooth) drawTooth(shapes, tooth, x, y, row.upper);
+    });
+
+    y += ROW;
+  });
+
+  shapes.push({ kind: 'line', from: [midX, chartTop], to: [midX, y - 8], stroke: MUTED, width: 1 });
+  y += 8;
+
+  // Legend
+  shapes.push({ kind: 'text', x: MARGIN, y, text: 'Leyenda', size: 10, bold: true });
+  y += 16;
+  const columns = 6;
+  const columnWidth = CHART_WIDTH / columns;
+  Object.values(ToothStatus).forEach((status, i) => {
+    const x = MARGIN + (i % columns) * columnWidth;
+    const rowY = y + Math.floor(i / columns) * 18;
+    shapes.push({ kind: 'rect', x, y: rowY, width: 12, height: 12, fill: TOOTH_STATUS_COLORS[status], stroke: STROKE });
+    shapes.push({ kind: 'text', x: x + 18, y: rowY + 1, text: TOOTH_STATUS_LABELS[status], size: 9 });
+  });
+  y += Math.ceil(Object.values(ToothStatus).length / columns) * 18 + 8;
+
+  return { width, height: y, shapes };
+};
+
+/**
+ * Notes of the odontogram and of teeth/surfaces with notes, in chart order
+ */
+export const collectOdontogramNotes = (odontogram: OdontogramWithTeethResponse): string[] => {
+  const notes: string[] = [];
+
+  if (odontogram.generalNotes) {
+    notes.push(`General: ${odontogram.generalNotes}`);
+  }
+
+  const order = getChartRows(odontogram.type).flatMap((row) => [...row.right, ...row.left]);
+  const teeth = [...odontogram.teeth].sort(
+    (a, b) => order.indexOf(a.toothNumber) - order.indexOf(b.toothNumber)
+  );
+
+  for (const tooth of teeth) {
+    const surfaceNotes = (Object.entries(tooth.surfaces ?? {}) as Array<
+      [Surface, NonNullable<ToothSurfacesResponse[Surface]>]
+    >)
+      .filter(([, condition]) => condition.notes)
+      .map(([surface, condition]) => `${SURFACE_LABELS[surface]}: ${condition.notes}`);
+
+    if (!tooth.notes && surfaceNotes.length === 0) {
+      continue;
+    }
+
+    const details = [TOOTH_STATUS_LABELS[tooth.status], ...surfaceNotes];
+    if (tooth.notes) {
+      details.push(tooth.notes);
+    }
+    notes.push(`Pieza ${tooth.toothNumber}: ${details.join(' · ')}`);
+  }
+
+  return notes;
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Render an odontogram as a standalone SVG document
+ * @param odontogram - Odontogram with teeth
+ * @param patient - Patient shown in the header
+ */
+export const renderOdontogramSvg = (
+  odontogram: OdontogramWithTeethResponse,
+  patient: OdontogramExportPatient
+): string => {
+  const drawing = layoutOdontogramChart(odontogram, patient);
+  const notes = collectOdontogramNotes(odontogram);
+  const elements: string[] = [];
+
+  for (const shape of drawing.shapes) {
+    switch (shape.kind) {
+      case 'polygon':
+        elements.push(
+          `<polygon points="${shape.points.map(([x, y]) => `${x},${y}`).join(' ')}" fill="${shape.fill}" fill-opacity="${shape.fillOpacity}" stroke="${shape.stroke}" stroke-width="1"/>`
+        );
+        break;
+      case 'line':
+        elements.push(
+          `<line x1="${shape.from[0]}" y1="${shape.from[1]}" x2="${shape.to[0]}" y2="${shape.to[1]}" stroke="${shape.stroke}" stroke-width="${shape.width}"/>`
+        );
+        break;
+      case 'rect':
+        elements.push(
+          `<rect x="${shape.x}" y="${shape.y}" width="${shape.width}" height="${shape.height}" fill="${shape.fill}" stroke="${shape.stroke}"/>`
+        );
+        break;
+      case 'text': {
+        const x = shape.width ? shape.x + shape.width / 2 : shape.x;
+        const anchor = shape.width ? ' text-anchor="middle"' : '';
+        const weight = shape.bold ? ' font-weight="bold"' : '';
+        elements.push(
+          `<text x="${x}" y="${shape.y}" font-size="${shape.size}" dominant-baseline="hanging"${anchor}${weight}>${escapeXml(shape.text)}</text>`
+        );
+        break;
+      }
+    }
+  }
+
+  let height = drawing.height;
+  if (notes.length > 0) {
+    elements.push(
+      `<text x="${MARGIN}" y="${height}" font-size="10" dominant-baseline="hanging" font-weight="bold">Notas</text>`
+    );
+    height += 16;
+    for (const note of notes) {
+      elements.push(
+        `<text x="${MARGIN}" y="${height}" font-size="9" dominant-baseline="hanging">${escapeXml(note)}</text>`
+      );
+      height += 14;
+    }
+  }
+  height += MARGIN;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}" height="${height}" viewBox="0 0 ${drawing.width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${drawing.width}" height="${height}" fill="#ffffff"/>`,
+    ...elements,
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Render an odontogram as a PDF (A4 landscape); notes flow onto extra pages
+ * @param odontogram - Odontogram with teeth
+ * @param patient - Patient shown in the header
+ */
+export const renderOdontogramPdf = (
+  odontogram: OdontogramWithTeethResponse,
+  patient: OdontogramExportPatient
+): Promise<Buffer> => {
+  const drawing = layoutOdontogramChart(odontogram, patient);
+  const notes = collectOdontogramNotes(odontogram);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: MARGIN,
+      info: {
+        Title: `Odontograma - ${patient.firstName} ${patient.lastName}`,
+        Subject: `Versión ${odontogram.version}`,
+      },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Fit the drawing to the page width
+    const scale = Math.min(1, doc.page.width / drawing.width);
+    doc.save();
+    doc.scale(scale);
+
+    for (const shape of drawing.shapes) {
+      switch (shape.kind) {
+        case 'polygon':
+          doc
+            .polygon(...shape.points)
+            .lineWidth(0.8)
+            .fillOpacity(shape.fillOpacity)
+            .fillAndStroke(shape.fill, shape.stroke);
+          doc.fillOpacity(1);
+          break;
+        case 'line':
+          doc.moveTo(...shape.from).lineTo(...shape.to).lineWidth(shape.width).stroke(shape.stroke);
+          break;
+        case 'rect':
+          doc.rect(shape.x, shape.y, shape.width, shape.height).lineWidth(0.8).fillAndStroke(shape.fill, shape.stroke);
+          break;
+        case 'text':
+          doc
+            .font(shape.bold ? 'Helvetica-Bold' : 'Helvetica')
+            .fontSize(shape.size)
+            .fillColor('#111827')
+            .text(shape.text, shape.x, shape.y, {
+              lineBreak: false,
+              ...(shape.width && { width: shape.width, align: 'center' }),
+            });
+          break;
+      }
+    }
+
+    doc.restore();
+
+    if (notes.length > 0) {
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(10)
+        .fillColor('#111827')
+        .text('Notas', MARGIN, drawing.height * scale);
+      doc.font('Helvetica').fontSize(9);
+      for (const note of notes) {
+        doc.text(note, { width: doc.page.width - 2 * MARGIN });
+      }
+    }
+
+    doc.end();
+  });
+};
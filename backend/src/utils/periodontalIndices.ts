@@ -0,0 +1,147 @@
+import {
+  PROBING_SITES,
+  type PeriodontalChange,
+  type PeriodontalIndices,
+  type PeriodontalToothResponse,
+  type ProbingSiteDTO,
+  type ProbingSiteResponse,
+  type ProbingSitesDTO,
+  type ProbingSitesResponse,
+} from '../types/periodontogram.types';
+
+/**
+ * Periodontal chart calculations
+ *
+ * Clinical attachment level (CAL) = probing depth + gingival margin, where the
+ * gingival margin is positive for recession and negative for enlargement.
+ * Indices only count present teeth and sites with a recorded probing depth.
+ */
+
+/**
+ * Probing depth change (mm) that counts as a site improving or worsening
+ */
+export const SIGNIFICANT_PROBING_CHANGE = 2;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+const percentage = (count: number, total: number): number | null =>
+  total > 0 ? round((count / total) * 100) : null;
+
+/**
+ * Site measurement with its attachment level
+ */
+export const withAttachmentLevel = (site: ProbingSiteDTO): ProbingSiteResponse => {
+  const { probingDepth, gingivalMargin } = site;
+
+  if (probingDepth === undefined) {
+    return { ...site };
+  }
+
+  return { ...site, attachmentLevel: probingDepth + (gingivalMargin ?? 0) };
+};
+
+/**
+ * Sites of a tooth with their attachment levels (unknown site keys are dropped)
+ */
+export const withAttachmentLevels = (sites: ProbingSitesDTO): ProbingSitesResponse =>
+  Object.fromEntries(
+    PROBING_SITES.flatMap((site) => {
+      const measurement = sites?.[site];
+      return measurement ? [[site, withAttachmentLevel(measurement)]] : [];
+    })
+  );
+
+/**
+ * Indices of an exam: mean probing depth and attachment level, %BOP, plaque,
+ * suppuration and the number of deep sites
+ */
+export const calculatePeriodontalIndices = (teeth: PeriodontalToothResponse[]): PeriodontalIndices => {
+  const present = teeth.filter((tooth) => !tooth.isMissing);
+  const examined = present.filter((tooth) =>
+    PROBING_SITES.some((site) => tooth.sites[site]?.probingDepth !== undefined)
+  );
+  const probed = present.flatMap((tooth) =>
+    PROBING_SITES.map((site) => tooth.sites[site]).filter(
+      (site): site is ProbingSiteResponse & { probingDepth: number } => site?.probingDepth !== undefined
+    )
+  );
+
+  const depths = probed.map((site) => site.probingDepth);
+  const attachmentLevels = probed.flatMap((site) =>
+    site.attachmentLevel !== undefined ? [site.attachmentLevel] : []
+  );
+
+  return {
+    teethExamined: examined.length,
+    sitesExamined: probed.length,
+    meanProbingDepth: average(depths),
+    meanAttachmentLevel: average(attachmentLevels),
+    bleedingOnProbingPercentage: percentage(probed.filter((site) => site.bleeding).length, probed.length),
+    plaquePercentage: percentage(probed.filter((site) => site.plaque).length, probed.length),
+    suppurationSites: probed.filter((site) => site.suppuration).length,
+    sitesProbingDepth4mm: depths.filter((depth) => depth === 4).length,
+    sitesProbingDepthAtLeast5mm: depths.filter((depth) => depth >= 5).length,
+    teethWithMobility: present.filter((tooth) => (tooth.mobility ?? 0) > 0).length,
+    teethWithFurcation: present.filter((tooth) => (tooth.furcation ?? 0) > 0).length,
+  };
+};
+
+/**
+ * Site-level changes between two exams, plus the number of sites whose probing
+ * depth improved or worsened by at least SIGNIFICANT_PROBING_CHANGE
+ * Teeth present in only one exam are skipped
+ */
+export const comparePeriodontalTeeth = (
+  before: PeriodontalToothResponse[],
+  after: PeriodontalToothResponse[]
+): { changes: PeriodontalChange[]; sitesImproved: number; sitesWorsened: number } => {
+  const changes: PeriodontalChange[] = [];
+  let sitesImproved = 0;
+  let sitesWorsened = 0;
+
+  const afterMap = new Map(after.map((tooth) => [tooth.toothNumber, tooth]));
+
+  for (const tooth1 of [...before].sort((a, b) => a.toothNumber.localeCompare(b.toothNumber))) {
+    const tooth2 = afterMap.get(tooth1.toothNumber);
+    if (!tooth2) {
+      continue;
+    }
+
+    const toothNumber = tooth1.toothNumber;
+
+    for (const field of ['isMissing', 'mobility', 'furcation'] as const) {
+      if (tooth1[field] !== tooth2[field]) {
+        changes.push({ toothNumber, site: null, field, oldValue: tooth1[field], newValue: tooth2[field] });
+      }
+    }
+
+    if (tooth1.isMissing || tooth2.isMissing) {
+      continue;
+    }
+
+    for (const site of PROBING_SITES) {
+      const site1 = tooth1.sites[site] ?? {};
+      const site2 = tooth2.sites[site] ?? {};
+
+      for (const field of ['probingDepth', 'attachmentLevel', 'bleeding'] as const) {
+        const oldValue = site1[field] ?? null;
+        const newValue = site2[field] ?? null;
+
+        if (oldValue !== newValue) {
+          changes.push({ toothNumber, site, field, oldValue, newValue });
+        }
+      }
+
+      if (site1.probingDepth !== undefined && site2.probingDepth !== undefined) {
+        const difference = site2.probingDepth - site1.probingDepth;
+        if (difference <= -SIGNIFICANT_PROBING_CHANGE) sitesImproved++;
+        if (difference >= SIGNIFICANT_PROBING_CHANGE) sitesWorsened++;
+      }
+    }
+  }
+
+  return { changes, sitesImproved, sitesWorsened };
+};
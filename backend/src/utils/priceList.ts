@@ -0,0 +1,89 @@
+import type {
+  PatientPricingProfile,
+  PriceListCandidate,
+  PriceListRule,
+  PriceOverride,
+  PriceSource,
+  ValidityPeriod,
+} from '../types/catalog.types';
+
+/**
+ * Price list rules
+ *
+ * A patient is priced with, in order: the list assigned to them (staff,
+ * agreements), the list of their insurer, or the default list for private
+ * patients. A procedure takes its own price in that list when one is in force,
+ * otherwise the catalog baseCost less the list discount. Lists and prices are
+ * in force from validFrom (inclusive) to validTo (exclusive); missing bounds
+ * are open.
+ */
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const normalizeProvider = (value: string | null): string => (value ?? '').trim().toLowerCase();
+
+/**
+ * Check whether a period is in force at a date
+ */
+export const isValidAt = (period: ValidityPeriod, at: Date): boolean =>
+  (!period.validFrom || period.validFrom <= at) && (!period.validTo || at < period.validTo);
+
+/**
+ * Check whether two periods share any moment
+ */
+export const periodsOverlap = (a: ValidityPeriod, b: ValidityPeriod): boolean =>
+  (!a.validFrom || !b.validTo || a.validFrom < b.validTo) &&
+  (!b.validFrom || !a.validTo || b.validFrom < a.validTo);
+
+/**
+ * Select the price list of a patient among the lists in force
+ * @returns The list and the rule that selected it, or null to use catalog prices
+ */
+export const selectPriceList = <T extends PriceListCandidate>(
+  patient: PatientPricingProfile,
+  lists: T[],
+  at: Date
+): { priceList: T; rule: PriceListRule } | null => {
+  const usable = lists.filter((list) => list.isActive && isValidAt(list, at));
+
+  const assigned = patient.priceListId ? usable.find((list) => list.id === patient.priceListId) : undefined;
+  if (assigned) {
+    return { priceList: assigned, rule: 'PATIENT' };
+  }
+
+  const provider = normalizeProvider(patient.insuranceProvider);
+  if (patient.hasInsurance && provider) {
+    const insurer = usable.find((list) => normalizeProvider(list.insuranceProvider) === provider);
+    if (insurer) {
+      return { priceList: insurer, rule: 'INSURER' };
+    }
+  }
+
+  const defaultList = usable.find((list) => list.isDefault);
+  return defaultList ? { priceList: defaultList, rule: 'DEFAULT' } : null;
+};
+
+/**
+ * Price of a procedure in a list (or the catalog price without a list)
+ */
+export const resolveCatalogPrice = (
+  catalogId: string,
+  baseCost: number,
+  priceList: { discountPercent: number; items: PriceOverride[] } | null,
+  at: Date
+): { price: number; source: PriceSource } => {
+  if (!priceList) {
+    return { price: baseCost, source: 'BASE_COST' };
+  }
+
+  const override = priceList.items.find((item) => item.catalogId === catalogId && isValidAt(item, at));
+  if (override) {
+    return { price: override.price, source: 'PRICE_LIST_ITEM' };
+  }
+
+  if (priceList.discountPercent > 0) {
+    return { price: round(baseCost * (1 - priceList.discountPercent / 100)), source: 'PRICE_LIST_DISCOUNT' };
+  }
+
+  return { price: baseCost, source: 'BASE_COST' };
+};
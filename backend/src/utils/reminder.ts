@@ -0,0 +1,187 @@
+import { AppointmentType, ReminderChannel } from '@prisma/client';
+import type { NotificationContent } from '../types/notification.types';
+import type { ReminderTemplateData } from '../types/reminder.types';
+
+/**
+ * Appointment reminder rules
+ *
+ * Each lead time (e.g. 48 h and 2 h) opens a window that lasts until the next
+ * shorter lead time starts, so an appointment booked late only receives the
+ * reminders whose windows are still open and never two for the same window.
+ * Start times are wall-clock times of the clinic time zone on the stored day.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Wording of each appointment type in reminders
+ */
+export const REMINDER_TEMPLATES: Record<AppointmentType, { label: string; note: string }> = {
+  [AppointmentType.CONSULTATION]: {
+    label: 'consulta',
+    note: 'Si tienes radiografías o exámenes previos, tráelos a la cita.',
+  },
+  [AppointmentType.TREATMENT]: {
+    label: 'tratamiento',
+    note: 'Te pedimos llegar 10 minutos antes para preparar tu atención.',
+  },
+  [AppointmentType.FOLLOW_UP]: {
+    label: 'control',
+    note: 'Cuéntanos en la cita cómo te has sentido desde tu último tratamiento.',
+  },
+  [AppointmentType.EMERGENCY]: {
+    label: 'atención de urgencia',
+    note: 'Si el dolor o la inflamación aumentan, comunícate con nosotros de inmediato.',
+  },
+  [AppointmentType.CLEANING]: {
+    label: 'limpieza dental',
+    note: 'Te recomendamos cepillarte los dientes antes de venir.',
+  },
+  [AppointmentType.CHECKUP]: {
+    label: 'revisión',
+    note: 'Trae la lista de medicamentos que estés tomando.',
+  },
+};
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  return asUtc - Math.floor(date.getTime() / 60000) * 60000;
+};
+
+/**
+ * Calendar day of a date in a time zone (YYYY-MM-DD)
+ */
+const getDayKey = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+/**
+ * Instant an appointment starts: its stored day at startTime ("09:00") in the clinic time zone
+ */
+export const getAppointmentStart = (date: Date, startTime: string, timeZone: string): Date => {
+  const [year, month, day] = date.toISOString().slice(0, 10).split('-').map(Number);
+  const [hours, minutes] = startTime.split(':').map(Number);
+
+  const wallClock = Date.UTC(year!, month! - 1, day!, hours ?? 0, minutes ?? 0);
+  return new Date(wallClock - getTimeZoneOffset(new Date(wallClock), timeZone));
+};
+
+/**
+ * Lead time (hours) whose reminder window is open at `now`, or null
+ * The window of a lead time closes when the next shorter one opens
+ */
+export const selectDueLeadHours = (start: Date, now: Date, leadHours: number[]): number | null => {
+  const leads = [...new Set(leadHours)].sort((a, b) => b - a);
+
+  for (let i = 0; i < leads.length; i++) {
+    const opensAt = start.getTime() - leads[i]! * HOUR_MS;
+    const next = leads[i + 1];
+    const closesAt = next !== undefined ? start.getTime() - next * HOUR_MS : start.getTime();
+
+    if (now.getTime() >= opensAt && now.getTime() < closesAt) {
+      return leads[i]!;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Day of the appointment as said in a reminder: "hoy", "mañana" or "el lunes 20 de octubre"
+ */
+export const formatReminderDay = (start: Date, now: Date, timeZone: string): string => {
+  const startDay = getDayKey(start, timeZone);
+  const today = getDayKey(now, timeZone);
+  const days = Math.round((Date.parse(startDay) - Date.parse(today)) / (24 * HOUR_MS));
+
+  if (days === 0) return 'hoy';
+  if (days === 1) return 'mañana';
+
+  const date = new Intl.DateTimeFormat('es-EC', {
+    timeZone,
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+  }).format(start);
+
+  return `el ${date.replace(',', '')}`;
+};
+
+/**
+ * Phone number in international format (+593991234567), or null if it does not look valid
+ * Local numbers starting with 0 take the country code
+ */
+export const normalizePhone = (phone: string, countryCode: string): string | null => {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = `${countryCode}${digits.slice(1)}`;
+  } else if (!digits.startsWith(countryCode)) {
+    digits = `${countryCode}${digits}`;
+  }
+
+  return digits.length >= 10 && digits.length <= 15 ? `+${digits}` : null;
+};
+
+/**
+ * Render the reminder of an appointment for a channel
+ * SMS stays short; email and WhatsApp include the doctor and the note of the type
+ */
+export const renderReminder = (data: ReminderTemplateData, channel: ReminderChannel): NotificationContent => {
+  const { label, note } = REMINDER_TEMPLATES[data.type];
+  const contact = data.clinicPhone ? ` al ${data.clinicPhone}` : '';
+  const subject = `Recordatorio de tu cita de ${label} - ${data.clinicName}`;
+
+  switch (channel) {
+    case ReminderChannel.SMS:
+      return {
+        subject,
+        text:
+          `${data.clinicName}: Hola ${data.patientFirstName}, te recordamos tu cita de ${label} ` +
+          `${data.dayLabel} a las ${data.startTime}. Si no puedes asistir, avísanos${contact}.`,
+      };
+    case ReminderChannel.WHATSAPP:
+      return {
+        subject,
+        text: [
+          `Hola ${data.patientFirstName}, te recordamos tu cita de *${label}* ${data.dayLabel} ` +
+            `a las *${data.startTime}* con ${data.doctorName} en ${data.clinicName}.`,
+          note,
+          `Si no puedes asistir, responde a este mensaje o llámanos${contact} para reprogramarla.`,
+        ].join('\n\n'),
+      };
+    case ReminderChannel.EMAIL:
+    default:
+      return {
+        subject,
+        text: [
+          `Hola ${data.patientFirstName},`,
+          '',
+          `Te recordamos tu cita de ${label} ${data.dayLabel} a las ${data.startTime} con ${data.doctorName}.`,
+          note,
+          '',
+          `Si no puedes asistir, por favor avísanos${contact} para reprogramarla.`,
+          '',
+          data.clinicName,
+        ].join('\n'),
+      };
+  }
+};
@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request information available anywhere in the call chain
+ * (used by the audit log to know who made a change and from where)
+ */
+export interface RequestContext {
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a callback with its own request context
+ * @param context - Initial context
+ * @param callback - Code to run inside the context
+ */
+export const runWithRequestContext = <T>(context: RequestContext, callback: () => T): T =>
+  storage.run(context, callback);
+
+/**
+ * Get the context of the current request, if any
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * Record the authenticated user in the current request context
+ * @param userId - Authenticated user ID
+ */
+export const setRequestUser = (userId: string): void => {
+  const context = storage.getStore();
+
+  if (context) {
+    context.userId = userId;
+  }
+};
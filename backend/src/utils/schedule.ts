@@ -0,0 +1,62 @@
+import { RecurrenceFrequency } from '@prisma/client';
+import type { BlockedTimeOccurrence } from '../types/schedule.types';
+
+/**
+ * Blocked time recurrence rules
+ *
+ * Block and appointment days are timestamps written at UTC midnight of the
+ * calendar day (by `startOfDay` or from `YYYY-MM-DD` input), so every
+ * calendar comparison uses UTC fields regardless of the server time zone.
+ * Monthly blocks starting on the 29th–31st fall on the last day of shorter months.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize a date to UTC midnight of its calendar day
+ */
+export const startOfDay = (date: string | Date): Date => {
+  const normalized = new Date(date);
+  normalized.setUTCHours(0, 0, 0, 0);
+  return normalized;
+};
+
+/**
+ * Number of days of the month a date falls in
+ */
+const daysInMonth = (date: Date): number =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+/**
+ * Check whether a blocked time applies on a given day
+ * Non-recurring blocks cover every day from `date` to `endDate` (or only `date`);
+ * recurring blocks repeat from `date` until `endDate` (or indefinitely)
+ */
+export const occursOn = (block: BlockedTimeOccurrence, day: Date): boolean => {
+  const target = startOfDay(day);
+  const start = startOfDay(block.date);
+  const end = block.endDate ? startOfDay(block.endDate) : null;
+
+  if (target < start || (end && target > end)) {
+    return false;
+  }
+
+  if (!block.frequency) {
+    return end !== null || target.getTime() === start.getTime();
+  }
+
+  switch (block.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return true;
+    case RecurrenceFrequency.WEEKLY:
+      return target.getUTCDay() === start.getUTCDay();
+    case RecurrenceFrequency.BIWEEKLY: {
+      const weeksDiff = Math.round((target.getTime() - start.getTime()) / DAY_MS / 7);
+      return target.getUTCDay() === start.getUTCDay() && weeksDiff % 2 === 0;
+    }
+    case RecurrenceFrequency.MONTHLY:
+      return target.getUTCDate() === Math.min(start.getUTCDate(), daysInMonth(target));
+    default:
+      return false;
+  }
+};
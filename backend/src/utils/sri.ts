@@ -0,0 +1,268 @@
+import { IdentificationType, PaymentMethod } from '@prisma/client';
+import type { AccessKeyData, SriInvoiceDocument, SriTax } from '../types/sri.types';
+
+/**
+ * SRI electronic invoice rules (ficha técnica de comprobantes electrónicos, esquema offline)
+ *
+ * Documents are identified by a 49-digit access key and built as factura v1.1.0.
+ * The XML is written in canonical form (no whitespace between elements, explicit
+ * end tags, attributes in order) so it can be signed as generated.
+ */
+
+/**
+ * Document type code of an invoice (codDoc)
+ */
+export const SRI_INVOICE_DOCUMENT_TYPE = '01';
+
+/**
+ * Buyer identification codes (tipoIdentificacionComprador)
+ */
+export const SRI_BUYER_IDENTIFICATION_CODES: Record<IdentificationType, string> = {
+  [IdentificationType.RUC]: '04',
+  [IdentificationType.CEDULA]: '05',
+  [IdentificationType.PASAPORTE]: '06',
+};
+
+/**
+ * Payment method codes (formaPago)
+ * 01: sin utilización del sistema financiero, 19: tarjeta de crédito,
+ * 20: otros con utilización del sistema financiero
+ */
+export const SRI_PAYMENT_METHOD_CODES: Record<PaymentMethod, string> = {
+  [PaymentMethod.CASH]: '01',
+  [PaymentMethod.CARD]: '19',
+  [PaymentMethod.TRANSFER]: '20',
+  [PaymentMethod.CHECK]: '20',
+};
+
+/**
+ * Payment method declared for the unpaid part of an invoice
+ */
+export const SRI_DEFAULT_PAYMENT_METHOD = '20';
+
+/**
+ * IVA tax code (codigo) and rate codes (codigoPorcentaje) by percentage
+ */
+export const SRI_IVA_TAX_CODE = '2';
+const SRI_IVA_RATE_CODES: Record<string, string> = {
+  '0': '0',
+  '5': '5',
+  '8': '8',
+  '12': '2',
+  '13': '10',
+  '14': '3',
+  '15': '4',
+};
+
+/**
+ * Time zone of the dates printed on SRI documents
+ */
+const SRI_TIME_ZONE = 'America/Guayaquil';
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Percentage of a rate (0.15 -> 15)
+ */
+const toPercentage = (rate: number): number => Math.round(rate * 10000) / 100;
+
+/**
+ * IVA rate code (codigoPorcentaje) of a rate
+ * @returns Code, or null if the SRI has no code for the rate
+ */
+export const getIvaRateCode = (rate: number): string | null =>
+  SRI_IVA_RATE_CODES[String(toPercentage(rate))] ?? null;
+
+/**
+ * IVA of an amount at a rate; a rate without code cannot be declared
+ */
+export const buildIvaTax = (base: number, rate: number, value = round(base * rate)): SriTax => {
+  const rateCode = getIvaRateCode(rate);
+  if (rateCode === null) {
+    throw new Error(`IVA rate ${toPercentage(rate)}% has no SRI code`);
+  }
+
+  return { rateCode, rate: toPercentage(rate), base: round(base), value: round(value) };
+};
+
+/**
+ * Módulo 11 check digit: digits weighted 2 to 7 from right to left
+ * 11 becomes 0 and 10 becomes 1
+ */
+export const calculateModulo11 = (digits: string): number => {
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * factor;
+    factor = factor === 7 ? 2 : factor + 1;
+  }
+
+  const result = 11 - (sum % 11);
+  if (result === 11) return 0;
+  if (result === 10) return 1;
+  return result;
+};
+
+/**
+ * Day, month and year of a date in Ecuador
+ */
+const getSriDateParts = (date: Date): { day: string; month: string; year: string } => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: SRI_TIME_ZONE,
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? '';
+
+  return { day: get('day'), month: get('month'), year: get('year') };
+};
+
+/**
+ * Date as printed on SRI documents (dd/mm/yyyy)
+ */
+export const formatSriDate = (date: Date): string => {
+  const { day, month, year } = getSriDateParts(date);
+  return `${day}/${month}/${year}`;
+};
+
+/**
+ * 49-digit access key: date (ddmmyyyy), document type, RUC, environment,
+ * series (establishment + emission point), sequence, numeric code,
+ * emission type and módulo 11 check digit
+ */
+export const generateAccessKey = (data: AccessKeyData): string => {
+  const { day, month, year } = getSriDateParts(data.issueDate);
+  const key = [
+    `${day}${month}${year}`,
+    data.documentType,
+    data.ruc,
+    data.environment,
+    data.establishment,
+    data.emissionPoint,
+    String(data.sequence).padStart(9, '0'),
+    data.numericCode,
+    data.emissionType ?? '1',
+  ].join('');
+
+  if (!/^\d{48}$/.test(key)) {
+    throw new Error('Access key data must produce 48 digits');
+  }
+
+  return `${key}${calculateModulo11(key)}`;
+};
+
+/**
+ * Check an access key: 49 digits with a valid check digit
+ */
+export const isValidAccessKey = (accessKey: string): boolean =>
+  /^\d{49}$/.test(accessKey) && calculateModulo11(accessKey.slice(0, 48)) === Number(accessKey[48]);
+
+/**
+ * Escape element text (canonical XML only escapes &, < and >)
+ */
+const escapeText = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Escape attribute values (canonical XML escapes &, < and ")
+ */
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+
+/**
+ * Single-line text limited to the SRI field length
+ */
+const clean = (value: string, maxLength = 300): string =>
+  value.replace(/\s+/g, ' ').trim().slice(0, maxLength);
+
+const field = (name: string, value: string): string => `<${name}>${escapeText(value)}</${name}>`;
+
+const node = (name: string, children: string[]): string => `<${name}>${children.join('')}</${name}>`;
+
+const money = (value: number): string => value.toFixed(2);
+
+const taxNode = (name: string, tax: SriTax, withRate: boolean): string =>
+  node(name, [
+    field('codigo', SRI_IVA_TAX_CODE),
+    field('codigoPorcentaje', tax.rateCode),
+    ...(withRate ? [field('tarifa', String(tax.rate))] : []),
+    field('baseImponible', money(tax.base)),
+    field('valor', money(tax.value)),
+  ]);
+
+/**
+ * Build the unsigned factura v1.1.0 XML
+ */
+export const buildInvoiceXml = (doc: SriInvoiceDocument): string => {
+  const infoTributaria = node('infoTributaria', [
+    field('ambiente', doc.environment),
+    field('tipoEmision', '1'),
+    field('razonSocial', clean(doc.issuer.businessName)),
+    ...(doc.issuer.tradeName ? [field('nombreComercial', clean(doc.issuer.tradeName))] : []),
+    field('ruc', doc.issuer.ruc),
+    field('claveAcceso', doc.accessKey),
+    field('codDoc', SRI_INVOICE_DOCUMENT_TYPE),
+    field('estab', doc.establishment),
+    field('ptoEmi', doc.emissionPoint),
+    field('secuencial', String(doc.sequence).padStart(9, '0')),
+    field('dirMatriz', clean(doc.issuer.address)),
+  ]);
+
+  const infoFactura = node('infoFactura', [
+    field('fechaEmision', formatSriDate(doc.issueDate)),
+    field('dirEstablecimiento', clean(doc.issuer.address)),
+    field('obligadoContabilidad', doc.issuer.accountingRequired ? 'SI' : 'NO'),
+    field('tipoIdentificacionComprador', doc.buyer.identificationType),
+    field('razonSocialComprador', clean(doc.buyer.name)),
+    field('identificacionComprador', doc.buyer.identification),
+    ...(doc.buyer.address ? [field('direccionComprador', clean(doc.buyer.address))] : []),
+    field('totalSinImpuestos', money(doc.totals.subtotal)),
+    field('totalDescuento', money(doc.totals.discount)),
+    node('totalConImpuestos', doc.totals.taxes.map((tax) => taxNode('totalImpuesto', tax, false))),
+    field('propina', money(0)),
+    field('importeTotal', money(doc.totals.total)),
+    field('moneda', 'DOLAR'),
+    node(
+      'pagos',
+      doc.payments.map((payment) =>
+        node('pago', [field('formaPago', payment.method), field('total', money(payment.amount))])
+      )
+    ),
+  ]);
+
+  const detalles = node(
+    'detalles',
+    doc.lines.map((line) =>
+      node('detalle', [
+        field('codigoPrincipal', clean(line.code, 25)),
+        field('descripcion', clean(line.description)),
+        field('cantidad', line.quantity.toFixed(6)),
+        field('precioUnitario', line.unitPrice.toFixed(6)),
+        field('descuento', money(line.discount)),
+        field('precioTotalSinImpuesto', money(line.total)),
+        node('impuestos', [taxNode('impuesto', line.tax, true)]),
+      ])
+    )
+  );
+
+  const additional = [
+    { name: 'Email', value: doc.buyer.email },
+    { name: 'Teléfono', value: doc.buyer.phone },
+  ].filter((item): item is { name: string; value: string } => Boolean(item.value));
+  const infoAdicional = additional.length
+    ? node(
+        'infoAdicional',
+        additional.map(
+          ({ name, value }) =>
+            `<campoAdicional nombre="${escapeAttribute(name)}">${escapeText(clean(value))}</campoAdicional>`
+        )
+      )
+    : '';
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<factura id="comprobante" version="1.1.0">${infoTributaria}${infoFactura}${detalles}${infoAdicional}</factura>`
+  );
+};
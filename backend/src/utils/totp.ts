@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+
+/**
+ * TOTP (RFC 6238) helpers
+ * Compatible with Google Authenticator, Authy, Microsoft Authenticator, etc.
+ * (SHA-1, 6 digits, 30 second steps)
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const DIGITS = 6;
+const STEP_SECONDS = 30;
+
+/**
+ * Encode bytes as base32 (RFC 4648, no padding)
+ */
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decode a base32 string (case-insensitive, padding and spaces ignored)
+ */
+const base32Decode = (input: string): Buffer => {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Compute the HOTP code for a counter (RFC 4226)
+ */
+const hotp = (key: Buffer, counter: number): string => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = (hmac[hmac.length - 1] as number) & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+/**
+ * Current time step
+ */
+export const currentStep = (now: number = Date.now()): number =>
+  Math.floor(now / 1000 / STEP_SECONDS);
+
+/**
+ * Generate a random base32 secret (160 bits)
+ */
+export const generateSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Generate the code for a secret at a given time
+ * @param secret - Base32 secret
+ * @param now - Timestamp in milliseconds
+ */
+export const generateCode = (secret: string, now: number = Date.now()): string =>
+  hotp(base32Decode(secret), currentStep(now));
+
+/**
+ * Verify a code allowing a drift of `window` steps on each side
+ * @param secret - Base32 secret
+ * @param code - Code entered by the user
+ * @param window - Accepted clock drift in steps
+ * @returns The matched time step, or null when the code is invalid
+ */
+export const verifyCode = (secret: string, code: string, window = 1): number | null => {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const step = currentStep();
+
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = hotp(key, step + offset);
+    if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(code))) {
+      return step + offset;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Build the otpauth:// URI used to render the enrollment QR code
+ * @param secret - Base32 secret
+ * @param account - Account label (user email)
+ * @param issuer - Application name shown in the authenticator app
+ */
+export const buildOtpAuthUri = (secret: string, account: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
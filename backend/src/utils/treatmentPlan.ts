@@ -0,0 +1,71 @@
+import { TreatmentPlanStatus } from '@prisma/client';
+import type { TreatmentPlanQuoteTotals } from '../types/medical.types';
+
+/**
+ * Treatment plan rules
+ *
+ * A plan is drafted, submitted to the patient for approval and then approved or
+ * rejected. Only drafts can be edited; a rejected plan is final and a new one is
+ * drafted instead. Line totals are computed, never typed.
+ */
+
+/**
+ * Allowed status transitions of a treatment plan
+ */
+export const TREATMENT_PLAN_TRANSITIONS: Record<TreatmentPlanStatus, TreatmentPlanStatus[]> = {
+  [TreatmentPlanStatus.DRAFT]: [TreatmentPlanStatus.PENDING_APPROVAL, TreatmentPlanStatus.CANCELLED],
+  [TreatmentPlanStatus.PENDING_APPROVAL]: [
+    TreatmentPlanStatus.APPROVED,
+    TreatmentPlanStatus.REJECTED,
+    TreatmentPlanStatus.CANCELLED,
+  ],
+  [TreatmentPlanStatus.APPROVED]: [TreatmentPlanStatus.IN_PROGRESS, TreatmentPlanStatus.CANCELLED],
+  [TreatmentPlanStatus.IN_PROGRESS]: [TreatmentPlanStatus.COMPLETED, TreatmentPlanStatus.CANCELLED],
+  [TreatmentPlanStatus.REJECTED]: [],
+  [TreatmentPlanStatus.COMPLETED]: [],
+  [TreatmentPlanStatus.CANCELLED]: [],
+};
+
+/**
+ * Check whether a plan can move from one status to another
+ */
+export const canTransitionTreatmentPlan = (from: TreatmentPlanStatus, to: TreatmentPlanStatus): boolean =>
+  TREATMENT_PLAN_TRANSITIONS[from].includes(to);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Line total: quantity * unit price minus the discount amount
+ */
+export const calculateLineTotal = (quantity: number, unitPrice: number, discount = 0): number =>
+  round(quantity * unitPrice - discount);
+
+/**
+ * Sum of line totals
+ */
+export const sumLineTotals = (items: { total: number }[]): number =>
+  round(items.reduce((sum, item) => sum + item.total, 0));
+
+/**
+ * Quote totals: subtotal before discounts, discounts, and tax over the discounted
+ * amount when dental services are taxed
+ */
+export const calculateQuoteTotals = (
+  items: { quantity: number; unitPrice: number; discount: number; total: number }[],
+  tax: { rate: number; appliesToServices: boolean }
+): TreatmentPlanQuoteTotals => {
+  const subtotal = round(items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+  const discount = round(items.reduce((sum, item) => sum + item.discount, 0));
+  const taxableBase = sumLineTotals(items);
+  const taxRate = tax.appliesToServices ? tax.rate : 0;
+  const taxAmount = round(taxableBase * taxRate);
+
+  return {
+    subtotal,
+    discount,
+    taxableBase,
+    taxRate,
+    tax: taxAmount,
+    total: round(taxableBase + taxAmount),
+  };
+};
@@ -0,0 +1,277 @@
+import PDFDocument from 'pdfkit';
+import type { TreatmentPlanItemResponse, TreatmentPlanQuote } from '../types/medical.types';
+
+/**
+ * Treatment plan quote (presupuesto) rendering
+ *
+ * A4 portrait document with the clinic header, patient data, the itemized
+ * procedures grouped by phase, a per-tooth summary, totals with tax, the
+ * validity date and signature lines for the professional and the patient.
+ */
+
+const MARGIN = 40;
+const TEXT = '#111827';
+const MUTED = '#6b7280';
+const BORDER = '#d1d5db';
+const ROW_HEIGHT = 16;
+
+/**
+ * Table columns (x offset from the margin and width)
+ */
+const COLUMNS = {
+  number: { x: 0, width: 22, label: '#' },
+  tooth: { x: 22, width: 38, label: 'Pieza' },
+  procedure: { x: 60, width: 223, label: 'Procedimiento' },
+  quantity: { x: 283, width: 36, label: 'Cant.' },
+  unitPrice: { x: 319, width: 64, label: 'P. unit.' },
+  discount: { x: 383, width: 64, label: 'Desc.' },
+  total: { x: 447, width: 68, label: 'Total' },
+} as const;
+
+const NUMERIC_COLUMNS = new Set<keyof typeof COLUMNS>(['quantity', 'unitPrice', 'discount', 'total']);
+
+/**
+ * Format a date as DD/MM/YYYY (UTC)
+ */
+const formatDate = (date: Date): string => {
+  const iso = date.toISOString();
+  return `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}`;
+};
+
+const formatMoney = (value: number): string => value.toFixed(2);
+
+/**
+ * Procedure description of an item: catalog code and name plus the surfaces
+ */
+const describeItem = (item: TreatmentPlanItemResponse): string => {
+  const name = item.catalog ? `${item.catalog.code} - ${item.catalog.name}` : item.catalogId;
+  return item.surfaces.length > 0 ? `${name} (${item.surfaces.join(', ')})` : name;
+};
+
+/**
+ * Procedures planned per tooth, in FDI order
+ */
+export const groupItemsByTooth = (quote: TreatmentPlanQuote): Array<{ toothNumber: string; procedures: string[] }> => {
+  const byTooth = new Map<string, string[]>();
+
+  for (const phase of quote.plan.phases) {
+    for (const item of phase.items) {
+      if (!item.toothNumber) continue;
+      const procedures = byTooth.get(item.toothNumber) ?? [];
+      procedures.push(describeItem(item));
+      byTooth.set(item.toothNumber, procedures);
+    }
+  }
+
+  return [...byTooth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([toothNumber, procedures]) => ({ toothNumber, procedures }));
+};
+
+/**
+ * Render a treatment plan quote as a PDF
+ * @param quote - Plan, patient, clinic, totals and dates shown on the document
+ */
+export const renderTreatmentPlanQuotePdf = (quote: TreatmentPlanQuote): Promise<Buffer> => {
+  const { plan, patient, doctor, clinic, totals } = quote;
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      info: {
+        Title: `Presupuesto - ${patient.firstName} ${patient.lastName}`,
+        Subject: plan.title,
+      },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const contentWidth = doc.page.width - 2 * MARGIN;
+    const bottom = doc.page.height - MARGIN;
+
+    const ensureSpace = (height: number) => {
+      if (doc.y + height > bottom) {
+        doc.addPage();
+      }
+    };
+
+    const drawRow = (values: Record<keyof typeof COLUMNS, string>, bold = false) => {
+      ensureSpace(ROW_HEIGHT);
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8).fillColor(TEXT);
+
+      for (const [key, column] of Object.entries(COLUMNS) as Array<[keyof typeof COLUMNS, (typeof COLUMNS)[keyof typeof COLUMNS]]>) {
+        doc.text(values[key], MARGIN + column.x + 2, y + 4, {
+          width: column.width - 4,
+          align: NUMERIC_COLUMNS.has(key) ? 'right' : 'left',
+          lineBreak: false,
+          ellipsis: true,
+        });
+      }
+
+      doc
+        .moveTo(MARGIN, y + ROW_HEIGHT)
+        .lineTo(MARGIN + contentWidth, y + ROW_HEIGHT)
+        .lineWidth(0.5)
+        .stroke(BORDER);
+      doc.y = y + ROW_HEIGHT;
+    };
+
+    // Clinic header
+    doc.font('Helvetica-Bold').fontSize(16).fillColor(TEXT).text(clinic.name, MARGIN, MARGIN);
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED);
+    if (clinic.ruc) doc.text(`RUC: ${clinic.ruc}`);
+    if (clinic.address) doc.text(clinic.address);
+    const contact = [clinic.phone, clinic.email].filter(Boolean).join(' · ');
+    if (contact) doc.text(contact);
+    const headerBottom = doc.y;
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(14)
+      .fillColor(TEXT)
+      .text('PRESUPUESTO', MARGIN, MARGIN, { width: contentWidth, align: 'right' });
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .text(`N.º ${plan.id.slice(0, 8).toUpperCase()}`, { width: contentWidth, align: 'right' })
+      .text(`Fecha: ${formatDate(quote.issuedAt)}`, { width: contentWidth, align: 'right' })
+      .text(`Válido hasta: ${formatDate(quote.validUntil)}`, { width: contentWidth, align: 'right' });
+
+    doc.y = Math.max(doc.y, headerBottom) + 12;
+    doc.moveTo(MARGIN, doc.y).lineTo(MARGIN + contentWidth, doc.y).lineWidth(1).stroke(TEXT);
+    doc.y += 10;
+
+    // Patient data
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(TEXT).text('Paciente', MARGIN);
+    doc.font('Helvetica').fontSize(9);
+    doc.text(`${patient.firstName} ${patient.lastName} · ${patient.identificationType}: ${patient.identification}`);
+    doc.text([`Teléfono: ${patient.phone}`, patient.email && `Email: ${patient.email}`].filter(Boolean).join(' · '));
+    if (patient.address) doc.text(`Dirección: ${patient.address}`);
+    if (doctor) doc.text(`Profesional: ${doctor.firstName} ${doctor.lastName}`);
+    doc.moveDown();
+
+    // Plan
+    doc.font('Helvetica-Bold').fontSize(11).text(plan.title);
+    if (plan.description) {
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED).text(plan.description, { width: contentWidth });
+    }
+    doc.moveDown(0.5);
+
+    // Itemized procedures by phase
+    const header = Object.fromEntries(
+      Object.entries(COLUMNS).map(([key, column]) => [key, column.label])
+    ) as Record<keyof typeof COLUMNS, string>;
+    drawRow(header, true);
+
+    let number = 0;
+    for (const phase of plan.phases) {
+      ensureSpace(ROW_HEIGHT * 2);
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(9)
+        .fillColor(TEXT)
+        .text(`Fase ${phase.sequence}: ${phase.name}`, MARGIN + 2, doc.y + 6);
+      doc.y += 2;
+
+      for (const item of phase.items) {
+        number++;
+        drawRow({
+          number: String(number),
+          tooth: item.toothNumber ?? '-',
+          procedure: describeItem(item),
+          quantity: String(item.quantity),
+          unitPrice: formatMoney(item.unitPrice),
+          discount: item.discount > 0 ? formatMoney(item.discount) : '-',
+          total: formatMoney(item.total),
+        });
+      }
+
+      drawRow(
+        {
+          number: '',
+          tooth: '',
+          procedure: `Subtotal fase ${phase.sequence}`,
+          quantity: '',
+          unitPrice: '',
+          discount: '',
+          total: formatMoney(phase.total),
+        },
+        true
+      );
+    }
+
+    // Totals
+    doc.y += 8;
+    const totalLines: Array<[string, string, boolean]> = [
+      ['Subtotal', formatMoney(totals.subtotal), false],
+      ['Descuento', formatMoney(totals.discount), false],
+      ['Base imponible', formatMoney(totals.taxableBase), false],
+      [`IVA ${Math.round(totals.taxRate * 100)}%`, formatMoney(totals.tax), false],
+      [`Total ${quote.currency}`, formatMoney(totals.total), true],
+    ];
+    ensureSpace(totalLines.length * 14);
+    for (const [label, value, bold] of totalLines) {
+      const y = doc.y;
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 10 : 9).fillColor(TEXT);
+      doc.text(label, MARGIN + COLUMNS.unitPrice.x, y, { width: COLUMNS.unitPrice.width + COLUMNS.discount.width });
+      doc.text(value, MARGIN + COLUMNS.total.x, y, { width: COLUMNS.total.width - 2, align: 'right' });
+      doc.y = y + 14;
+    }
+
+    // Per-tooth references
+    const teeth = groupItemsByTooth(quote);
+    if (teeth.length > 0) {
+      doc.moveDown();
+      ensureSpace(30);
+      doc.font('Helvetica-Bold').fontSize(10).fillColor(TEXT).text('Procedimientos por pieza (FDI)', MARGIN);
+      doc.font('Helvetica').fontSize(8);
+      for (const { toothNumber, procedures } of teeth) {
+        ensureSpace(12);
+        doc.text(`${toothNumber}: ${procedures.join('; ')}`, MARGIN, doc.y, { width: contentWidth });
+      }
+    }
+
+    // Validity and signatures
+    doc.moveDown();
+    ensureSpace(110);
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(MUTED)
+      .text(
+        `Presupuesto válido hasta el ${formatDate(quote.validUntil)}. Los valores pueden variar si el ` +
+          'diagnóstico cambia durante el tratamiento.',
+        MARGIN,
+        doc.y,
+        { width: contentWidth }
+      );
+
+    const signatureY = Math.min(doc.y + 60, bottom - 30);
+    const signatureWidth = (contentWidth - 60) / 2;
+    const signatures: Array<[number, string, string]> = [
+      [MARGIN, 'Profesional', doctor ? `${doctor.firstName} ${doctor.lastName}` : ''],
+      [
+        MARGIN + signatureWidth + 60,
+        'Paciente / Representante',
+        `${patient.firstName} ${patient.lastName} · ${patient.identification}`,
+      ],
+    ];
+    for (const [x, label, name] of signatures) {
+      doc.moveTo(x, signatureY).lineTo(x + signatureWidth, signatureY).lineWidth(0.8).stroke(TEXT);
+      doc.font('Helvetica-Bold').fontSize(8).fillColor(TEXT).text(label, x, signatureY + 4, {
+        width: signatureWidth,
+        align: 'center',
+      });
+      doc.font('Helvetica').fontSize(8).fillColor(MUTED).text(name, x, signatureY + 16, {
+        width: signatureWidth,
+        align: 'center',
+      });
+    }
+
+    doc.end();
+  });
+};
@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+import type { SriCertificate } from '../types/sri.types';
+
+/**
+ * XAdES-BES enveloped signature required by the SRI
+ *
+ * The signature references the signed properties, the signing certificate
+ * (KeyInfo) and the comprobante element. Every signed element is written in
+ * canonical form (C14N 1.0), so digests are computed over the generated
+ * strings with the namespaces inherited from ds:Signature.
+ */
+
+const DS_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+const ETSI_NAMESPACE = 'http://uri.etsi.org/01903/v1.3.2#';
+const NAMESPACES = `xmlns:ds="${DS_NAMESPACE}" xmlns:etsi="${ETSI_NAMESPACE}"`;
+
+const C14N_ALGORITHM = 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+const RSA_SHA1_ALGORITHM = 'http://www.w3.org/2000/09/xmldsig#rsa-sha1';
+const SHA1_ALGORITHM = 'http://www.w3.org/2000/09/xmldsig#sha1';
+const ENVELOPED_ALGORITHM = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+const SIGNED_PROPERTIES_TYPE = 'http://uri.etsi.org/01903#SignedProperties';
+
+/**
+ * Bags of a type in a PKCS#12 container
+ */
+const getBags = (p12: forge.pkcs12.Pkcs12Pfx, type: string): forge.pkcs12.Bag[] => {
+  const bagType = forge.pki.oids[type] ?? type;
+  return p12.getBags({ bagType })[bagType] ?? [];
+};
+
+/**
+ * Load the signing key and its certificate from a PKCS#12 (.p12) file
+ * Files issued in Ecuador carry the CA chain too, so the certificate is the
+ * one matching the private key.
+ */
+export const loadPkcs12Certificate = (buffer: Buffer, password: string): SriCertificate => {
+  const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(buffer.toString('binary')), password);
+
+  const keyBags = [...getBags(p12, 'pkcs8ShroudedKeyBag'), ...getBags(p12, 'keyBag')];
+  const privateKey = keyBags.find((bag) => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!privateKey) {
+    throw new Error('The PKCS#12 file has no private key');
+  }
+
+  const certificates = getBags(p12, 'certBag')
+    .map((bag) => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => Boolean(cert));
+  const certificate = certificates.find((cert) =>
+    (cert.publicKey as forge.pki.rsa.PublicKey).n.equals(privateKey.n)
+  );
+  if (!certificate) {
+    throw new Error('The PKCS#12 file has no certificate for its private key');
+  }
+
+  return { privateKey, certificate };
+};
+
+const sha1Base64 = (value: string | Buffer): string =>
+  crypto.createHash('sha1').update(value).digest('base64');
+
+const bigIntegerToBase64 = (value: forge.jsbn.BigInteger): string => {
+  const hex = value.toString(16);
+  return Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex').toString('base64');
+};
+
+const escapeText = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Issuer distinguished name, most specific attribute first (RFC 2253)
+ */
+const formatIssuerName = (certificate: forge.pki.Certificate): string =>
+  [...certificate.issuer.attributes]
+    .reverse()
+    .map((attribute) => `${attribute.shortName ?? attribute.type}=${String(attribute.value)}`)
+    .join(',');
+
+/**
+ * Add the inherited namespaces to the root tag of a signed element,
+ * as canonicalization does when the element is digested on its own
+ */
+const withNamespaces = (element: string): string => element.replace(/^<([\w:]+)/, `<$1 ${NAMESPACES}`);
+
+const digestReference = (attributes: string, digest: string, transforms = ''): string =>
+  `<ds:Reference ${attributes}>${transforms}` +
+  `<ds:DigestMethod Algorithm="${SHA1_ALGORITHM}"></ds:DigestMethod>` +
+  `<ds:DigestValue>${digest}</ds:DigestValue></ds:Reference>`;
+
+/**
+ * Sign an XML document whose root element has id="comprobante"
+ * @param xml - Canonical XML as built by buildInvoiceXml
+ * @returns The document with the ds:Signature appended to its root element
+ */
+export const signXades = (xml: string, { privateKey, certificate }: SriCertificate, signingTime = new Date()): string => {
+  const rootMatch = xml.match(/<(\w+)[^>]*\bid="comprobante"[^>]*>[\s\S]*<\/\1>\s*$/);
+  if (!rootMatch) {
+    throw new Error('The document has no comprobante element to sign');
+  }
+  const document = rootMatch[0].trim();
+  const closingTag = `</${rootMatch[1]}>`;
+
+  const id = crypto.randomInt(100000, 1000000);
+  const signatureId = `Signature${id}`;
+  const signedPropertiesId = `${signatureId}-SignedProperties${id}`;
+  const certificateId = `Certificate${id}`;
+  const referenceId = `Reference-ID-${id}`;
+
+  const certificateDer = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+  const certificateBase64 = forge.util.encode64(certificateDer);
+
+  const signedProperties =
+    `<etsi:SignedProperties Id="${signedPropertiesId}">` +
+    '<etsi:SignedSignatureProperties>' +
+    `<etsi:SigningTime>${signingTime.toISOString()}</etsi:SigningTime>` +
+    '<etsi:SigningCertificate><etsi:Cert><etsi:CertDigest>' +
+    `<ds:DigestMethod Algorithm="${SHA1_ALGORITHM}"></ds:DigestMethod>` +
+    `<ds:DigestValue>${sha1Base64(Buffer.from(certificateDer, 'binary'))}</ds:DigestValue>` +
+    '</etsi:CertDigest><etsi:IssuerSerial>' +
+    `<ds:X509IssuerName>${escapeText(formatIssuerName(certificate))}</ds:X509IssuerName>` +
+    `<ds:X509SerialNumber>${BigInt(`0x${certificate.serialNumber}`).toString()}</ds:X509SerialNumber>` +
+    '</etsi:IssuerSerial></etsi:Cert></etsi:SigningCertificate>' +
+    '</etsi:SignedSignatureProperties>' +
+    '<etsi:SignedDataObjectProperties>' +
+    `<etsi:DataObjectFormat ObjectReference="#${referenceId}">` +
+    '<etsi:Description>contenido comprobante</etsi:Description>' +
+    '<etsi:MimeType>text/xml</etsi:MimeType>' +
+    '</etsi:DataObjectFormat></etsi:SignedDataObjectProperties>' +
+    '</etsi:SignedProperties>';
+
+  const keyInfo =
+    `<ds:KeyInfo Id="${certificateId}">` +
+    `<ds:X509Data><ds:X509Certificate>${certificateBase64}</ds:X509Certificate></ds:X509Data>` +
+    '<ds:KeyValue><ds:RSAKeyValue>' +
+    `<ds:Modulus>${bigIntegerToBase64(privateKey.n)}</ds:Modulus>` +
+    `<ds:Exponent>${bigIntegerToBase64(privateKey.e)}</ds:Exponent>` +
+    '</ds:RSAKeyValue></ds:KeyValue></ds:KeyInfo>';
+
+  const signedInfo =
+    `<ds:SignedInfo Id="${signatureId}-SignedInfo${id}">` +
+    `<ds:CanonicalizationMethod Algorithm="${C14N_ALGORITHM}"></ds:CanonicalizationMethod>` +
+    `<ds:SignatureMethod Algorithm="${RSA_SHA1_ALGORITHM}"></ds:SignatureMethod>` +
+    digestReference(
+      `Id="SignedPropertiesID${id}" Type="${SIGNED_PROPERTIES_TYPE}" URI="#${signedPropertiesId}"`,
+      sha1Base64(withNamespaces(signedProperties))
+    ) +
+    digestReference(`URI="#${certificateId}"`, sha1Base64(withNamespaces(keyInfo))) +
+    digestReference(
+      `Id="${referenceId}" URI="#comprobante"`,
+      sha1Base64(document),
+      `<ds:Transforms><ds:Transform Algorithm="${ENVELOPED_ALGORITHM}"></ds:Transform></ds:Transforms>`
+    ) +
+    '</ds:SignedInfo>';
+
+  const md = forge.md.sha1.create();
+  md.update(withNamespaces(signedInfo), 'utf8');
+  const signatureValue = forge.util.encode64(privateKey.sign(md));
+
+  const signature =
+    `<ds:Signature ${NAMESPACES} Id="${signatureId}">` +
+    signedInfo +
+    `<ds:SignatureValue Id="SignatureValue${id}">${signatureValue}</ds:SignatureValue>` +
+    keyInfo +
+    `<ds:Object Id="${signatureId}-Object${id}">` +
+    `<etsi:QualifyingProperties Target="#${signatureId}">${signedProperties}</etsi:QualifyingProperties>` +
+    '</ds:Object>' +
+    '</ds:Signature>';
+
+  const closingIndex = xml.lastIndexOf(closingTag);
+  return `${xml.slice(0, closingIndex)}${signature}${xml.slice(closingIndex)}`;
+};
@@ -0,0 +1,34 @@
+import { prisma } from '@config/database';
+
+const CRUD_ACTIONS = ['create', 'read', 'update', 'delete'];
+
+/**
+ * Grant permissions to a test role
+ * Routes are guarded by requirePermission, so test roles need the
+ * (resource, action) rows the seed would normally attach
+ *
+ * @param roleId - Role ID
+ * @param resources - Permission resources, e.g. ['patients']
+ * @param actions - Actions granted on every resource (CRUD by default)
+ */
+export const grantPermissions = async (
+  roleId: string,
+  resources: string[],
+  actions: string[] = CRUD_ACTIONS
+): Promise<void> => {
+  for (const resource of resources) {
+    for (const action of actions) {
+      await prisma.permission.upsert({
+        where: { resource_action: { resource, action } },
+        update: {
+          roles: { connect: { id: roleId } },
+        },
+        create: {
+          resource,
+          action,
+          roles: { connect: { id: roleId } },
+        },
+      });
+    }
+  }
+};
@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '@app';
 import { prisma } from '@config/database';
+import { grantPermissions } from '../helpers/permissions';
 import bcrypt from 'bcryptjs';
 import {
   Gender,
@@ -58,6 +59,7 @@ describe('Accounting Integration Tests', () => {
       },
     });
     testRoleId = role.id;
+    await grantPermissions(role.id, ['billing', 'financial-reports', 'patients']);
     testUser.roleId = role.id;
 
     // Create test user
@@ -155,6 +157,11 @@ describe('Accounting Integration Tests', () => {
       where: { patientId: testPatientId },
     });
 
+    // Delete invoices (items cascade)
+    await prisma.invoice.deleteMany({
+      where: { patientId: testPatientId },
+    });
+
     // Delete transactions
     await prisma.transaction.deleteMany({
       where: { createdBy: testUserId },
@@ -485,6 +492,100 @@ describe('Accounting Integration Tests', () => {
     });
   });
 
+  /**
+   * ==========================================
+   * INVOICE ENDPOINT TESTS
+   * ==========================================
+   */
+  describe('Invoice lifecycle', () => {
+    let invoiceId: string;
+
+    it('should create a draft invoice from a treatment and a free item', async () => {
+      const response = await request(app)
+        .post('/api/v1/accounting/invoices')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          patientId: testPatientId,
+          items: [
+            { treatmentId: testTreatmentId, taxable: false },
+            { description: 'Kit de higiene', unitPrice: 10, quantity: 2, taxable: false },
+          ],
+        })
+        .expect(201);
+
+      invoiceId = response.body.data.id;
+      expect(response.body.data.status).toBe('DRAFT');
+      expect(response.body.data.number).toBeNull();
+      expect(response.body.data.items[0].description).toBe('Test Treatment');
+      expect(response.body.data.total).toBe(520);
+    });
+
+    it('should issue the invoice with the next sequential number', async () => {
+      const response = await request(app)
+        .post(`/api/v1/accounting/invoices/${invoiceId}/issue`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({})
+        .expect(200);
+
+      expect(response.body.data.status).toBe('ISSUED');
+      expect(response.body.data.number).toMatch(/^\d{3}-\d{3}-\d{9}$/);
+      expect(response.body.data.dueDate).not.toBeNull();
+    });
+
+    it('should reject updates once issued', async () => {
+      await request(app)
+        .put(`/api/v1/accounting/invoices/${invoiceId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ notes: 'Cambio' })
+        .expect(409);
+    });
+
+    it('should allocate payments to the invoice', async () => {
+      await request(app)
+        .post(`/api/v1/accounting/patients/${testPatientId}/payments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          patientId: testPatientId,
+          invoiceId,
+          amount: 200,
+          paymentMethod: PaymentMethod.CASH,
+          concept: 'Abono factura',
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .get(`/api/v1/accounting/invoices/${invoiceId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.status).toBe('PARTIALLY_PAID');
+      expect(response.body.data.paidAmount).toBe(200);
+      expect(response.body.data.balance).toBe(320);
+    });
+
+    it('should reject payments above the invoice balance', async () => {
+      await request(app)
+        .post(`/api/v1/accounting/patients/${testPatientId}/payments`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          patientId: testPatientId,
+          invoiceId,
+          amount: 500,
+          paymentMethod: PaymentMethod.CASH,
+          concept: 'Abono factura',
+        })
+        .expect(400);
+    });
+
+    it('should not void an invoice with payments', async () => {
+      await request(app)
+        .post(`/api/v1/accounting/invoices/${invoiceId}/void`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ reason: 'Error de digitación' })
+        .expect(409);
+    });
+  });
+
   /**
    * ==========================================
    * EXPENSE ENDPOINT TESTS
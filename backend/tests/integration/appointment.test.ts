@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '@app';
 import { prisma } from '@config/database';
+import { grantPermissions } from '../helpers/permissions';
 import bcrypt from 'bcryptjs';
 import { AppointmentStatus, AppointmentType, RecurrenceFrequency } from '@prisma/client';
 
@@ -46,6 +47,7 @@ describe('Appointment Integration Tests', () => {
       },
     });
     testRoleId = role.id;
+    await grantPermissions(role.id, ['appointments', 'patients']);
 
     // Create test doctor user
     const hashedPassword = await bcrypt.hash('TestPassword123!', 10);
@@ -480,6 +482,84 @@ describe('Appointment Integration Tests', () => {
         .send({ status: 'INVALID_STATUS' })
         .expect(422);
     });
+
+    it('should return 400 for a transition that is not allowed', async () => {
+      const response = await request(app)
+        .patch(`/api/v1/appointments/${testAppointmentId}/status`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: AppointmentStatus.COMPLETED })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should record the change in the status history', async () => {
+      await request(app)
+        .patch(`/api/v1/appointments/${testAppointmentId}/status`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: AppointmentStatus.CONFIRMED, notes: 'Confirmed by phone' })
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/api/v1/appointments/${testAppointmentId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(response.body.data.statusHistory).toHaveLength(1);
+      expect(response.body.data.statusHistory[0]).toMatchObject({
+        fromStatus: AppointmentStatus.SCHEDULED,
+        toStatus: AppointmentStatus.CONFIRMED,
+        reason: 'Confirmed by phone',
+        changedBy: { id: testUserId },
+      });
+    });
+  });
+
+  /**
+   * ==========================================
+   * RESCHEDULE APPOINTMENT TESTS
+   * ==========================================
+   */
+  describe('POST /api/v1/appointments/:id/reschedule', () => {
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/v1/appointments')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send(testAppointment);
+      testAppointmentId = response.body.data.id;
+    });
+
+    it('should create the replacement and link it from the original', async () => {
+      const response = await request(app)
+        .post(`/api/v1/appointments/${testAppointmentId}/reschedule`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ date: testAppointment.date, startTime: '11:00', reason: 'Patient asked for a later time' })
+        .expect(201);
+
+      const replacementId = response.body.data.id;
+      expect(response.body.data.status).toBe(AppointmentStatus.SCHEDULED);
+      expect(response.body.data.startTime).toBe('11:00');
+      expect(response.body.data.rescheduledFromId).toBe(testAppointmentId);
+
+      const original = await request(app)
+        .get(`/api/v1/appointments/${testAppointmentId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(original.body.data.status).toBe(AppointmentStatus.RESCHEDULED);
+      expect(original.body.data.rescheduledToId).toBe(replacementId);
+      expect(original.body.data.statusHistory[0].reason).toBe('Patient asked for a later time');
+
+      await prisma.appointment.deleteMany({ where: { id: replacementId } });
+    });
+
+    it('should return 400 when setting RESCHEDULED through the status endpoint', async () => {
+      await request(app)
+        .patch(`/api/v1/appointments/${testAppointmentId}/status`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ status: AppointmentStatus.RESCHEDULED })
+        .expect(400);
+    });
   });
 
   /**
@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '@app';
 import { prisma } from '@config/database';
+import { grantPermissions } from '../helpers/permissions';
 import bcrypt from 'bcryptjs';
 import { FollowUpStatus, Priority, Gender, IdentificationType } from '@prisma/client';
 
@@ -63,6 +64,7 @@ describe('FollowUp Integration Tests', () => {
       },
     });
     testRoleId = role.id;
+    await grantPermissions(role.id, ['followups', 'patients']);
     testUser.roleId = role.id;
 
     // Create test user
@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '@app';
 import { prisma } from '@config/database';
+import { grantPermissions } from '../helpers/permissions';
 import bcrypt from 'bcryptjs';
 
 /**
@@ -52,6 +53,7 @@ describe('Medical Integration Tests', () => {
       },
     });
     testRoleId = role.id;
+    await grantPermissions(role.id, ['medical-history', 'treatments', 'patients']);
 
     // Create test doctor
     const hashedPassword = await bcrypt.hash(testDoctor.password, 10);
@@ -403,6 +405,70 @@ describe('Medical Integration Tests', () => {
         expect(response.body).toHaveProperty('success', false);
       });
 
+      it('should take the cost from the price list of the patient when omitted', async () => {
+        const priceList = await prisma.priceList.create({
+          data: {
+            name: 'Medical Test Staff',
+            discountPercent: 30,
+            items: { create: { catalogId, price: 40.00 } },
+          },
+        });
+        await prisma.patient.update({
+          where: { id: testPatientId },
+          data: { priceListId: priceList.id },
+        });
+
+        const response = await request(app)
+          .post(`/api/v1/medical/patients/${testPatientId}/treatments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ catalogId, toothNumber: '26' })
+          .expect(201);
+
+        expect(response.body.data.cost).toBe(40);
+        expect(response.body.data.balance).toBe(40);
+
+        // Cleanup
+        await prisma.treatment.delete({ where: { id: response.body.data.id } });
+        await prisma.priceList.delete({ where: { id: priceList.id } });
+      });
+
+      it('should split the cost with the insurance plan of the patient', async () => {
+        const insurer = await prisma.insurer.create({
+          data: {
+            name: 'Medical Test Insurer',
+            plans: {
+              create: {
+                name: 'Dental Plus',
+                deductible: 10,
+                rules: { create: { category: 'Restauraciones', coveragePercent: 80 } },
+              },
+            },
+          },
+          include: { plans: true },
+        });
+        await prisma.patient.update({
+          where: { id: testPatientId },
+          data: { hasInsurance: true, insurancePlanId: insurer.plans[0].id },
+        });
+
+        const response = await request(app)
+          .post(`/api/v1/medical/patients/${testPatientId}/treatments`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ catalogId, cost: 60.00, toothNumber: '27' })
+          .expect(201);
+
+        expect(response.body.data.insurerPortion).toBe(40);
+        expect(response.body.data.patientPortion).toBe(20);
+
+        // Cleanup
+        await prisma.treatment.delete({ where: { id: response.body.data.id } });
+        await prisma.patient.update({
+          where: { id: testPatientId },
+          data: { hasInsurance: false, insurancePlanId: null },
+        });
+        await prisma.insurer.delete({ where: { id: insurer.id } });
+      });
+
       it('should return 400 for invalid catalog', async () => {
         const fakeCatalogId = '00000000-0000-0000-0000-000000000000';
 
@@ -524,12 +590,19 @@ describe('Medical Integration Tests', () => {
    */
   describe('Treatment Plan Endpoints', () => {
     describe('POST /api/v1/medical/patients/:patientId/treatment-plans', () => {
-      it('should create treatment plan', async () => {
+      it('should create treatment plan with a computed total', async () => {
         const planData = {
           title: 'Plan de tratamiento integral',
           description: 'Incluye restauraciones y limpieza',
-          totalCost: 500.00,
-          status: 'DRAFT',
+          phases: [
+            {
+              name: 'Restauraciones',
+              items: [
+                { catalogId, toothNumber: '16', surfaces: ['O', 'M'] },
+                { catalogId, toothNumber: '26', quantity: 2, unitPrice: 60, discount: 20 },
+              ],
+            },
+          ],
         };
 
         const response = await request(app)
@@ -541,18 +614,25 @@ describe('Medical Integration Tests', () => {
         expect(response.body).toHaveProperty('success', true);
         expect(response.body.data).toHaveProperty('id');
         expect(response.body.data.title).toBe(planData.title);
-        expect(response.body.data.totalCost).toBe(500);
+        expect(response.body.data.status).toBe('DRAFT');
+        expect(response.body.data.phases[0].items[0].unitPrice).toBe(50);
+        expect(response.body.data.phases[0].items[0].surfaces).toEqual(['O', 'M']);
+        expect(response.body.data.phases[0].items[1].total).toBe(100);
+        expect(response.body.data.totalCost).toBe(150);
+        expect(response.body.data.pdfUrl).toBe(
+          `/api/v1/medical/treatment-plans/${response.body.data.id}/quote`
+        );
 
         treatmentPlanId = response.body.data.id;
       });
 
-      it('should return 422 for invalid total cost', async () => {
+      it('should return 422 for invalid plan item', async () => {
         const response = await request(app)
           .post(`/api/v1/medical/patients/${testPatientId}/treatment-plans`)
           .set('Authorization', `Bearer ${authToken}`)
           .send({
             title: 'Test Plan',
-            totalCost: -10,
+            phases: [{ name: 'Fase 1', items: [{ catalogId, quantity: 0 }] }],
           })
           .expect(422);
 
@@ -585,11 +665,22 @@ describe('Medical Integration Tests', () => {
       });
     });
 
+    describe('GET /api/v1/medical/treatment-plans/:id/quote', () => {
+      it('should download the quote PDF', async () => {
+        const response = await request(app)
+          .get(`/api/v1/medical/treatment-plans/${treatmentPlanId}/quote`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .expect(200);
+
+        expect(response.headers['content-type']).toContain('application/pdf');
+        expect(response.headers['content-disposition']).toContain('presupuesto-');
+      });
+    });
+
     describe('PUT /api/v1/medical/treatment-plans/:id', () => {
       it('should update treatment plan', async () => {
         const updateData = {
-          status: 'APPROVED',
-          approvedAt: new Date().toISOString(),
+          title: 'Plan de tratamiento actualizado',
         };
 
         const response = await request(app)
@@ -599,7 +690,52 @@ describe('Medical Integration Tests', () => {
           .expect(200);
 
         expect(response.body).toHaveProperty('success', true);
+        expect(response.body.data.title).toBe(updateData.title);
+        expect(response.body.data.totalCost).toBe(150);
+      });
+    });
+
+    describe('Treatment plan approval workflow', () => {
+      it('should not approve a draft plan', async () => {
+        await request(app)
+          .post(`/api/v1/medical/treatment-plans/${treatmentPlanId}/approve`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({})
+          .expect(409);
+      });
+
+      it('should submit the plan for approval', async () => {
+        const response = await request(app)
+          .post(`/api/v1/medical/treatment-plans/${treatmentPlanId}/submit`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .expect(200);
+
+        expect(response.body.data.status).toBe('PENDING_APPROVAL');
+        expect(response.body.data.submittedAt).not.toBeNull();
+      });
+
+      it('should not modify phases once submitted', async () => {
+        await request(app)
+          .put(`/api/v1/medical/treatment-plans/${treatmentPlanId}`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({ phases: [{ name: 'Fase 1', items: [{ catalogId }] }] })
+          .expect(409);
+      });
+
+      it('should approve the plan and create planned treatments', async () => {
+        const response = await request(app)
+          .post(`/api/v1/medical/treatment-plans/${treatmentPlanId}/approve`)
+          .set('Authorization', `Bearer ${authToken}`)
+          .send({})
+          .expect(200);
+
         expect(response.body.data.status).toBe('APPROVED');
+        expect(response.body.data.approvedById).toBe(testDoctorId);
+        expect(response.body.data.treatments).toHaveLength(2);
+        expect(response.body.data.treatments[0].status).toBe('PLANNED');
+        expect(response.body.data.treatments[1].cost).toBe(100);
+        expect(response.body.data.phases[0].items[0].treatmentId).toBe(response.body.data.treatments[0].id);
+        expect(response.body.data.paymentPlanId).toBeNull();
       });
     });
   });
@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '@app';
 import { prisma } from '@config/database';
+import { grantPermissions } from '../helpers/permissions';
 import bcrypt from 'bcryptjs';
 import { Gender, IdentificationType } from '@prisma/client';
 
@@ -56,6 +57,7 @@ describe('Patient Integration Tests', () => {
       },
     });
     testRoleId = role.id;
+    await grantPermissions(role.id, ['patients'], ['create', 'read', 'update']);
     testUser.roleId = role.id;
 
     // Create test user
@@ -394,6 +396,7 @@ describe('Patient Integration Tests', () => {
           description: 'Admin role',
         },
       });
+      await grantPermissions(adminRole.id, ['patients']);
 
       const hashedPassword = await bcrypt.hash('AdminPass123!', 10);
       const adminUser = await prisma.user.create({
@@ -0,0 +1,66 @@
+import { AppointmentStatus } from '@prisma/client';
+import {
+  canRoleSetAppointmentStatus,
+  canTransitionAppointment,
+  isFinalAppointmentStatus,
+} from '@utils/appointment';
+
+describe('Appointment status rules', () => {
+  describe('canTransitionAppointment', () => {
+    it('should follow the scheduled, confirmed, in progress, completed flow', () => {
+      // Act & Assert
+      expect(canTransitionAppointment(AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED)).toBe(true);
+      expect(canTransitionAppointment(AppointmentStatus.CONFIRMED, AppointmentStatus.IN_PROGRESS)).toBe(true);
+      expect(canTransitionAppointment(AppointmentStatus.IN_PROGRESS, AppointmentStatus.COMPLETED)).toBe(true);
+    });
+
+    it('should let pending appointments be cancelled, missed or rescheduled', () => {
+      // Act & Assert
+      for (const from of [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED]) {
+        expect(canTransitionAppointment(from, AppointmentStatus.CANCELLED)).toBe(true);
+        expect(canTransitionAppointment(from, AppointmentStatus.NO_SHOW)).toBe(true);
+        expect(canTransitionAppointment(from, AppointmentStatus.RESCHEDULED)).toBe(true);
+      }
+    });
+
+    it('should not go back or skip the attention', () => {
+      // Act & Assert
+      expect(canTransitionAppointment(AppointmentStatus.CONFIRMED, AppointmentStatus.SCHEDULED)).toBe(false);
+      expect(canTransitionAppointment(AppointmentStatus.SCHEDULED, AppointmentStatus.COMPLETED)).toBe(false);
+      expect(canTransitionAppointment(AppointmentStatus.IN_PROGRESS, AppointmentStatus.CANCELLED)).toBe(false);
+    });
+
+    it('should keep final statuses permanent', () => {
+      // Act & Assert
+      expect(canTransitionAppointment(AppointmentStatus.COMPLETED, AppointmentStatus.CANCELLED)).toBe(false);
+      expect(canTransitionAppointment(AppointmentStatus.CANCELLED, AppointmentStatus.SCHEDULED)).toBe(false);
+      expect(isFinalAppointmentStatus(AppointmentStatus.RESCHEDULED)).toBe(true);
+      expect(isFinalAppointmentStatus(AppointmentStatus.NO_SHOW)).toBe(true);
+      expect(isFinalAppointmentStatus(AppointmentStatus.CONFIRMED)).toBe(false);
+    });
+  });
+
+  describe('canRoleSetAppointmentStatus', () => {
+    it('should only let doctors start and complete appointments', () => {
+      // Act & Assert
+      expect(canRoleSetAppointmentStatus('doctor', AppointmentStatus.IN_PROGRESS)).toBe(true);
+      expect(canRoleSetAppointmentStatus('doctor', AppointmentStatus.COMPLETED)).toBe(true);
+      expect(canRoleSetAppointmentStatus('receptionist', AppointmentStatus.IN_PROGRESS)).toBe(false);
+    });
+
+    it('should not let admins start or complete appointments', () => {
+      // Act & Assert
+      for (const role of ['admin', 'super_admin']) {
+        expect(canRoleSetAppointmentStatus(role, AppointmentStatus.IN_PROGRESS)).toBe(false);
+        expect(canRoleSetAppointmentStatus(role, AppointmentStatus.COMPLETED)).toBe(false);
+        expect(canRoleSetAppointmentStatus(role, AppointmentStatus.CONFIRMED)).toBe(true);
+      }
+    });
+
+    it('should let any role confirm or cancel', () => {
+      // Act & Assert
+      expect(canRoleSetAppointmentStatus('receptionist', AppointmentStatus.CONFIRMED)).toBe(true);
+      expect(canRoleSetAppointmentStatus('receptionist', AppointmentStatus.CANCELLED)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { AuditAction, AuditLog, PatientAccessResource, Prisma } from '@prisma/client';
+import {
+  canonicalJson,
+  computeAuditHash,
+  diffSnapshots,
+  resolveUpdateAction,
+  toAuditSnapshot,
+} from '@utils/audit';
+import { auditService, detectAccessAnomalies } from '@services/audit.service';
+import { writeAuditEntries } from '@config/audit';
+import { auditRepository } from '@repositories/audit.repository';
+import { runWithRequestContext } from '@utils/requestContext';
+
+// Mock dependencies
+jest.mock('@repositories/audit.repository');
+jest.mock('@utils/logger');
+
+/**
+ * Build a chain of audit entries as the audit extension stores them
+ */
+const buildChain = (count: number): AuditLog[] => {
+  const entries: AuditLog[] = [];
+  let previousHash: string | null = null;
+
+  for (let i = 1; i <= count; i++) {
+    const data = {
+      userId: 'user-1',
+      action: AuditAction.UPDATE,
+      entityType: 'Tooth',
+      entityId: `tooth-${i}`,
+      patientId: 'patient-1',
+      before: { status: 'HEALTHY' },
+      after: { status: 'CARIES' },
+      ipAddress: '127.0.0.1',
+      userAgent: 'jest',
+      previousHash,
+      createdAt: new Date(Date.UTC(2025, 0, 1, 10, i)),
+    };
+    const hash = computeAuditHash(data);
+
+    entries.push({ id: `audit-${i}`, sequence: i, ...data, hash });
+    previousHash = hash;
+  }
+
+  return entries;
+};
+
+describe('Audit log helpers', () => {
+  describe('canonicalJson', () => {
+    it('should not depend on key order', () => {
+      // Assert
+      expect(canonicalJson({ b: 1, a: { d: 2, c: 3 } })).toBe(canonicalJson({ a: { c: 3, d: 2 }, b: 1 }));
+    });
+
+    it('should serialize dates and decimals as strings', () => {
+      // Act
+      const json = canonicalJson({
+        date: new Date('2025-01-01T10:00:00.000Z'),
+        amount: new Prisma.Decimal('120.50'),
+      });
+
+      // Assert
+      expect(json).toBe('{"amount":"120.5","date":"2025-01-01T10:00:00.000Z"}');
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should keep only changed fields and ignore updatedAt', () => {
+      // Arrange
+      const before = toAuditSnapshot(
+        { status: 'HEALTHY', notes: 'ok', updatedAt: new Date(1), odontogram: { id: 'x' } },
+        ['status', 'notes', 'updatedAt']
+      );
+      const after = toAuditSnapshot(
+        { status: 'CARIES', notes: 'ok', updatedAt: new Date(2) },
+        ['status', 'notes', 'updatedAt']
+      );
+
+      // Act
+      const diff = diffSnapshots(before, after);
+
+      // Assert
+      expect(before).not.toHaveProperty('odontogram');
+      expect(diff).toEqual({ before: { status: 'HEALTHY' }, after: { status: 'CARIES' } });
+    });
+
+    it('should return null when nothing changed', () => {
+      // Assert
+      expect(diffSnapshots({ status: 'HEALTHY', updatedAt: 'a' }, { status: 'HEALTHY', updatedAt: 'b' })).toBeNull();
+    });
+  });
+
+  describe('resolveUpdateAction', () => {
+    it('should record setting deletedAt as a delete', () => {
+      // Assert
+      expect(resolveUpdateAction({ deletedAt: null }, { deletedAt: '2025-01-01T00:00:00.000Z' })).toBe(
+        AuditAction.DELETE
+      );
+      expect(resolveUpdateAction({ amount: '10' }, { amount: '20' })).toBe(AuditAction.UPDATE);
+    });
+  });
+});
+
+describe('AuditService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('verifyChain', () => {
+    it('should accept an intact chain', async () => {
+      // Arrange
+      (auditRepository.findChainBatch as jest.Mock).mockResolvedValueOnce(buildChain(3));
+
+      // Act
+      const result = await auditService.verifyChain();
+
+      // Assert
+      expect(result).toEqual({ valid: true, checked: 3, brokenAt: null });
+    });
+
+    it('should detect an edited entry', async () => {
+      // Arrange
+      const chain = buildChain(3);
+      chain[1] = { ...chain[1], after: { status: 'HEALTHY' } } as AuditLog;
+      (auditRepository.findChainBatch as jest.Mock).mockResolvedValueOnce(chain);
+
+      // Act
+      const result = await auditService.verifyChain();
+
+      // Assert
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toEqual({ sequence: 2, id: 'audit-2', reason: 'HASH_MISMATCH' });
+    });
+
+    it('should detect a deleted entry', async () => {
+      // Arrange
+      const chain = buildChain(3);
+      (auditRepository.findChainBatch as jest.Mock).mockResolvedValueOnce([chain[0], chain[2]]);
+
+      // Act
+      const result = await auditService.verifyChain();
+
+      // Assert
+      expect(result.checked).toBe(1);
+      expect(result.brokenAt).toEqual({ sequence: 3, id: 'audit-3', reason: 'CHAIN_MISMATCH' });
+    });
+  });
+
+  describe('recordPatientAccess', () => {
+    it('should record the user and client of the current request', async () => {
+      // Act
+      await runWithRequestContext({ userId: 'user-1', ipAddress: '10.0.0.5', userAgent: 'jest' }, () =>
+        auditService.recordPatientAccess('patient-1', PatientAccessResource.COMPLETE_HISTORY)
+      );
+
+      // Assert
+      expect(auditRepository.createAccessLog).toHaveBeenCalledWith({
+        userId: 'user-1',
+        patientId: 'patient-1',
+        resource: PatientAccessResource.COMPLETE_HISTORY,
+        ipAddress: '10.0.0.5',
+        userAgent: 'jest',
+      });
+    });
+
+    it('should not fail the read when the access cannot be stored', async () => {
+      // Arrange
+      (auditRepository.createAccessLog as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+
+      // Act & Assert
+      await expect(
+        auditService.recordPatientAccess('patient-1', PatientAccessResource.CURRENT_ODONTOGRAM)
+      ).resolves.toBeUndefined();
+    });
+  });
+});
+
+describe('detectAccessAnomalies', () => {
+  const thresholds = { dailyPatients: 40, baselineDays: 30, baselineFactor: 3 };
+
+  const day = (userId: string, date: string, patients: number) => ({
+    userId,
+    day: date,
+    patients,
+    accesses: patients,
+  });
+
+  it('should flag users above the daily limit', () => {
+    // Act
+    const anomalies = detectAccessAnomalies([day('user-1', '2025-07-10', 55)], '2025-07-10', '2025-07-10', thresholds);
+
+    // Assert
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ userId: 'user-1', baselineAverage: null, reasons: ['HIGH_VOLUME'] });
+  });
+
+  it('should flag users far above their own average', () => {
+    // Arrange
+    const counts = [
+      ...['01', '02', '03', '04', '07'].map((d) => day('user-1', `2025-07-${d}`, 6)),
+      ...['01', '02', '03', '04', '07'].map((d) => day('user-2', `2025-07-${d}`, 8)),
+      day('user-1', '2025-07-10', 25),
+      day('user-2', '2025-07-10', 10),
+    ];
+
+    // Act
+    const anomalies = detectAccessAnomalies(counts, '2025-07-10', '2025-07-10', thresholds);
+
+    // Assert
+    expect(anomalies).toEqual([
+      { ...day('user-1', '2025-07-10', 25), baselineAverage: 6, reasons: ['ABOVE_BASELINE'] },
+    ]);
+  });
+
+  it('should not use a baseline with too few active days', () => {
+    // Arrange
+    const counts = [day('user-1', '2025-07-09', 1), day('user-1', '2025-07-10', 20)];
+
+    // Act & Assert
+    expect(detectAccessAnomalies(counts, '2025-07-10', '2025-07-10', thresholds)).toEqual([]);
+  });
+});
+
+describe('writeAuditEntries', () => {
+  const entry = (entityId: string) => ({
+    action: AuditAction.UPDATE,
+    entityType: 'Tooth',
+    entityId,
+    patientId: 'patient-1',
+    before: { status: 'HEALTHY' },
+    after: { status: 'CARIES' },
+  });
+
+  it('should chain the entries through the transaction of the audited writes', async () => {
+    // Arrange
+    const calls: string[] = [];
+    const tx = {
+      $executeRaw: jest.fn(async () => calls.push('lock')),
+      auditLog: {
+        findFirst: jest.fn(async () => {
+          calls.push('last');
+          return { hash: 'previous-hash' };
+        }),
+        create: jest.fn(async (args: { data: { hash: string } }) => args.data),
+      },
+    };
+
+    // Act
+    await runWithRequestContext({ userId: 'user-1', ipAddress: '127.0.0.1' }, () =>
+      writeAuditEntries(tx as never, [entry('tooth-1'), entry('tooth-2')])
+    );
+
+    // Assert
+    expect(calls).toEqual(['lock', 'last']);
+    const [first, second] = tx.auditLog.create.mock.calls.map(([args]) => args.data) as AuditLog[];
+    expect(first).toMatchObject({ entityId: 'tooth-1', userId: 'user-1', previousHash: 'previous-hash' });
+    expect(second).toMatchObject({ entityId: 'tooth-2', previousHash: first!.hash });
+    expect(first!.hash).toBe(computeAuditHash(first!));
+  });
+
+  it('should not take the lock without entries', async () => {
+    // Arrange
+    const tx = { $executeRaw: jest.fn(), auditLog: { findFirst: jest.fn(), create: jest.fn() } };
+
+    // Act
+    await writeAuditEntries(tx as never, []);
+
+    // Assert
+    expect(tx.$executeRaw).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,17 @@
 import { authService } from '@services/auth.service';
 import { authRepository } from '@repositories/auth.repository';
-import { ApiError } from '@utils/ApiError';
+import { twoFactorService } from '@services/two-factor.service';
+import { mailService, InMemoryMailTransport } from '@services/mail.service';
+import { ApiError, ErrorCode } from '@utils/ApiError';
+import { env } from '@config/env';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import type { AuthResponse } from '../../src/types/auth.types';
 
 // Mock dependencies
 jest.mock('@repositories/auth.repository');
-jest.mock('bcrypt');
+jest.mock('@services/two-factor.service');
+jest.mock('bcryptjs');
 jest.mock('jsonwebtoken');
 jest.mock('@utils/logger');
 
@@ -41,8 +46,14 @@ describe('AuthService', () => {
     updatedAt: new Date(),
   };
 
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
+    (twoFactorService.isFeatureEnabled as jest.Mock).mockReturnValue(false);
+    (authRepository.incrementFailedLogins as jest.Mock).mockResolvedValue(1);
   });
 
   describe('register', () => {
@@ -91,6 +102,34 @@ describe('AuthService', () => {
       );
       expect(authRepository.createUser).not.toHaveBeenCalled();
     });
+
+    it('should create an unverified user and email a link when verification is on', async () => {
+      // Arrange
+      jest.replaceProperty(env, 'FEATURE_EMAIL_VERIFICATION', true);
+      const mailbox = new InMemoryMailTransport();
+      mailService.setTransport(mailbox);
+      (authRepository.emailExists as jest.Mock).mockResolvedValue(false);
+      (authRepository.getDefaultRole as jest.Mock).mockResolvedValue(mockRole);
+      (authRepository.createUser as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        email: registerData.email,
+        emailVerified: false,
+      });
+
+      // Act
+      const result = await authService.register(registerData);
+
+      // Assert
+      expect(authRepository.createUser).toHaveBeenCalledWith(
+        expect.any(Object),
+        mockRole.id,
+        { emailVerified: false }
+      );
+      expect(result).toHaveProperty('emailVerificationRequired', true);
+      expect(result).not.toHaveProperty('tokens');
+      expect(authRepository.createRefreshToken).not.toHaveBeenCalled();
+      expect(mailbox.lastTo(registerData.email)?.text).toContain('/verify-email?token=');
+    });
   });
 
   describe('login', () => {
@@ -113,9 +152,38 @@ describe('AuthService', () => {
       expect(authRepository.findActiveUserByEmail).toHaveBeenCalledWith(loginData.email);
       expect(bcrypt.compare).toHaveBeenCalledWith(loginData.password, mockUser.password);
       expect(authRepository.updateLastLogin).toHaveBeenCalledWith(mockUser.id);
+      expect(authRepository.createRefreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id })
+      );
       expect(result).toHaveProperty('user');
       expect(result).toHaveProperty('tokens');
-      expect(result.user).not.toHaveProperty('password');
+      expect((result as AuthResponse).user).not.toHaveProperty('password');
+    });
+
+    it('should return a challenge instead of tokens when two-factor is enabled', async () => {
+      // Arrange
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        twoFactorEnabled: true,
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      (twoFactorService.isFeatureEnabled as jest.Mock).mockReturnValue(true);
+      (jwt.sign as jest.Mock).mockReturnValue('challenge-token');
+
+      // Act
+      const result = await authService.login(loginData);
+
+      // Assert
+      expect(result).toEqual(
+        expect.objectContaining({ twoFactorRequired: true, challengeToken: 'challenge-token' })
+      );
+      expect(jwt.sign).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, type: 'two_factor_challenge' }),
+        expect.any(String),
+        expect.any(Object)
+      );
+      expect(authRepository.createRefreshToken).not.toHaveBeenCalled();
+      expect(authRepository.updateLastLogin).not.toHaveBeenCalled();
     });
 
     it('should throw unauthorized error if user not found', async () => {
@@ -143,71 +211,274 @@ describe('AuthService', () => {
 
     it('should throw forbidden error if account is inactive', async () => {
       // Arrange
-      const inactiveUser = { ...mockUser, isActive: false };
       (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue(null);
 
       // Act & Assert
       await expect(authService.login(loginData)).rejects.toThrow(ApiError);
     });
+
+    it('should record failed attempts in the login history', async () => {
+      // Arrange
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+      // Act
+      await expect(
+        authService.login(loginData, { ipAddress: '10.0.0.1', userAgent: 'jest' })
+      ).rejects.toThrow(ApiError);
+
+      // Assert
+      expect(authRepository.createLoginAttempt).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        email: mockUser.email,
+        success: false,
+        failureReason: 'INVALID_PASSWORD',
+        ipAddress: '10.0.0.1',
+        userAgent: 'jest',
+      });
+      expect(authRepository.lockUser).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account with exponential backoff once the limit is reached', async () => {
+      // Arrange
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+      (authRepository.incrementFailedLogins as jest.Mock).mockResolvedValue(7);
+      const before = Date.now();
+
+      // Act
+      await expect(authService.login(loginData)).rejects.toThrow(ApiError);
+
+      // Assert: 5 minutes doubled twice (two failures past the limit of 5)
+      const lockedUntil = (authRepository.lockUser as jest.Mock).mock.calls[0][1] as Date;
+      const minutes = Math.round((lockedUntil.getTime() - before) / 60000);
+      expect(minutes).toBe(20);
+    });
+
+    it('should refuse unverified accounts with a distinct error code', async () => {
+      // Arrange
+      jest.replaceProperty(env, 'FEATURE_EMAIL_VERIFICATION', true);
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        emailVerified: false,
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+
+      // Act
+      const error = await authService.login(loginData).catch((err) => err);
+
+      // Assert
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.statusCode).toBe(403);
+      expect(error.code).toBe(ErrorCode.EMAIL_NOT_VERIFIED);
+      expect(authRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject locked accounts without checking the password', async () => {
+      // Arrange
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        lockedUntil: new Date(Date.now() + 10 * 60 * 1000),
+      });
+
+      // Act & Assert
+      await expect(authService.login(loginData)).rejects.toThrow(
+        'Account temporarily locked due to failed login attempts. Try again in 10 minute(s)'
+      );
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+      expect(authRepository.createLoginAttempt).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, failureReason: 'ACCOUNT_LOCKED' })
+      );
+    });
+
+    it('should clear failed attempts after a successful login', async () => {
+      // Arrange
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        failedLoginAttempts: 3,
+        lockedUntil: new Date(Date.now() - 60 * 1000),
+      });
+      (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+      (jwt.sign as jest.Mock).mockReturnValue('mock-token');
+
+      // Act
+      await authService.login(loginData);
+
+      // Assert
+      expect(authRepository.resetFailedLogins).toHaveBeenCalledWith(mockUser.id);
+      expect(authRepository.createLoginAttempt).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: mockUser.id, success: true })
+      );
+    });
+  });
+
+  describe('loginTwoFactor', () => {
+    const twoFactorUser = { ...mockUser, twoFactorEnabled: true, twoFactorSecret: 'SECRET' };
+
+    it('should start a session when the second factor is valid', async () => {
+      // Arrange
+      (jwt.verify as jest.Mock).mockReturnValue({
+        userId: mockUser.id,
+        type: 'two_factor_challenge',
+      });
+      (authRepository.findUserById as jest.Mock).mockResolvedValue(twoFactorUser);
+      (twoFactorService.verifyLoginFactor as jest.Mock).mockResolvedValue(true);
+      (jwt.sign as jest.Mock).mockReturnValue('mock-token');
+
+      // Act
+      const result = await authService.loginTwoFactor({
+        challengeToken: 'challenge-token',
+        code: '123456',
+      });
+
+      // Assert
+      expect(twoFactorService.verifyLoginFactor).toHaveBeenCalledWith(twoFactorUser, {
+        code: '123456',
+        recoveryCode: undefined,
+      });
+      expect(result.tokens.accessToken).toBe('mock-token');
+      expect(result.user).not.toHaveProperty('twoFactorSecret');
+    });
+
+    it('should reject a token that is not a two-factor challenge', async () => {
+      // Arrange
+      (jwt.verify as jest.Mock).mockReturnValue({ userId: mockUser.id });
+
+      // Act & Assert
+      await expect(
+        authService.loginTwoFactor({ challengeToken: 'access-token', code: '123456' })
+      ).rejects.toThrow(ApiError);
+      expect(twoFactorService.verifyLoginFactor).not.toHaveBeenCalled();
+    });
+
+    it('should throw unauthorized error if the code is invalid', async () => {
+      // Arrange
+      (jwt.verify as jest.Mock).mockReturnValue({
+        userId: mockUser.id,
+        type: 'two_factor_challenge',
+      });
+      (authRepository.findUserById as jest.Mock).mockResolvedValue(twoFactorUser);
+      (twoFactorService.verifyLoginFactor as jest.Mock).mockResolvedValue(false);
+
+      // Act & Assert
+      await expect(
+        authService.loginTwoFactor({ challengeToken: 'challenge-token', code: '000000' })
+      ).rejects.toThrow(ApiError.unauthorized('Invalid two-factor code'));
+      expect(authRepository.createRefreshToken).not.toHaveBeenCalled();
+    });
   });
 
   describe('refreshToken', () => {
     const refreshToken = 'valid-refresh-token';
-    const decodedToken = {
+    const storedToken = {
+      id: 'token-id-1',
       userId: mockUser.id,
-      email: mockUser.email,
-      role: mockUser.role.name,
+      tokenHash: 'hash',
+      familyId: 'family-id-1',
+      userAgent: null,
+      ipAddress: null,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      lastUsedAt: null,
+      revokedAt: null,
+      replacedById: null,
+      createdAt: new Date(),
+      user: mockUser,
     };
 
-    it('should successfully refresh token', async () => {
+    it('should rotate the refresh token within the same family', async () => {
       // Arrange
-      (jwt.verify as jest.Mock).mockReturnValue(decodedToken);
-      (authRepository.findUserById as jest.Mock).mockResolvedValue(mockUser);
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue(storedToken);
+      (authRepository.rotateRefreshToken as jest.Mock).mockResolvedValue({ id: 'token-id-2' });
       (jwt.sign as jest.Mock).mockReturnValue('new-token');
 
       // Act
       const result = await authService.refreshToken(refreshToken);
 
       // Assert
-      expect(jwt.verify).toHaveBeenCalled();
-      expect(authRepository.findUserById).toHaveBeenCalledWith(mockUser.id);
-      expect(result).toHaveProperty('accessToken');
-      expect(result).toHaveProperty('refreshToken');
+      expect(authRepository.findRefreshTokenByHash).toHaveBeenCalledWith(
+        expect.not.stringContaining(refreshToken)
+      );
+      expect(authRepository.rotateRefreshToken).toHaveBeenCalledWith(
+        storedToken.id,
+        expect.objectContaining({ userId: mockUser.id, familyId: storedToken.familyId })
+      );
+      expect(result).toHaveProperty('accessToken', 'new-token');
+      expect(result.refreshToken).not.toBe(refreshToken);
     });
 
-    it('should throw unauthorized error if token is invalid', async () => {
+    it('should throw unauthorized error if token is unknown', async () => {
       // Arrange
-      (jwt.verify as jest.Mock).mockImplementation(() => {
-        throw new Error('Invalid token');
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(authService.refreshToken(refreshToken)).rejects.toThrow(
+        ApiError.unauthorized('Invalid or expired refresh token')
+      );
+      expect(authRepository.rotateRefreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      // Arrange
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        ...storedToken,
+        revokedAt: new Date(),
       });
+      (authRepository.revokeRefreshTokenFamily as jest.Mock).mockResolvedValue(2);
 
       // Act & Assert
       await expect(authService.refreshToken(refreshToken)).rejects.toThrow(
         ApiError.unauthorized('Invalid or expired refresh token')
       );
+      expect(authRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith(
+        storedToken.familyId
+      );
+      expect(authRepository.rotateRefreshToken).not.toHaveBeenCalled();
     });
 
-    it('should throw unauthorized error if user not found', async () => {
+    it('should revoke the family when a concurrent refresh rotated the token first', async () => {
       // Arrange
-      (jwt.verify as jest.Mock).mockReturnValue(decodedToken);
-      (authRepository.findUserById as jest.Mock).mockResolvedValue(null);
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue(storedToken);
+      (authRepository.rotateRefreshToken as jest.Mock).mockResolvedValue(null);
+      (authRepository.revokeRefreshTokenFamily as jest.Mock).mockResolvedValue(2);
+
+      // Act & Assert
+      await expect(authService.refreshToken(refreshToken)).rejects.toThrow(
+        ApiError.unauthorized('Invalid or expired refresh token')
+      );
+      expect(authRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith(
+        storedToken.familyId
+      );
+      expect(jwt.sign).not.toHaveBeenCalled();
+    });
+
+    it('should throw unauthorized error if token is expired', async () => {
+      // Arrange
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        ...storedToken,
+        expiresAt: new Date(Date.now() - 1000),
+      });
 
       // Act & Assert
       await expect(authService.refreshToken(refreshToken)).rejects.toThrow(
-        ApiError.unauthorized('Invalid refresh token')
+        ApiError.unauthorized('Invalid or expired refresh token')
       );
+      expect(authRepository.rotateRefreshToken).not.toHaveBeenCalled();
     });
 
     it('should throw forbidden error if user is inactive', async () => {
       // Arrange
-      const inactiveUser = { ...mockUser, isActive: false };
-      (jwt.verify as jest.Mock).mockReturnValue(decodedToken);
-      (authRepository.findUserById as jest.Mock).mockResolvedValue(inactiveUser);
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        ...storedToken,
+        user: { ...mockUser, isActive: false },
+      });
 
       // Act & Assert
       await expect(authService.refreshToken(refreshToken)).rejects.toThrow(
         ApiError.forbidden('Account is inactive')
       );
+      expect(authRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith(
+        storedToken.familyId
+      );
     });
   });
 
@@ -239,6 +510,7 @@ describe('AuthService', () => {
         mockUser.id,
         '$2b$10$newhash'
       );
+      expect(authRepository.revokeAllRefreshTokens).toHaveBeenCalledWith(mockUser.id);
     });
 
     it('should throw not found error if user not found', async () => {
@@ -324,15 +596,55 @@ describe('AuthService', () => {
   });
 
   describe('logout', () => {
-    it('should successfully logout user', async () => {
+    it('should revoke the session of the access token', async () => {
+      // Act
+      await authService.logout(mockUser.id, 'family-id-1');
+
+      // Assert
+      expect(authRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith('family-id-1');
+      expect(authRepository.revokeAllRefreshTokens).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session of the given refresh token', async () => {
+      // Arrange
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        userId: mockUser.id,
+        familyId: 'family-id-2',
+      });
+
+      // Act
+      await authService.logout(mockUser.id, 'family-id-1', 'refresh-token');
+
+      // Assert
+      expect(authRepository.revokeRefreshTokenFamily).toHaveBeenCalledWith('family-id-2');
+    });
+
+    it('should reject a refresh token owned by another user', async () => {
+      // Arrange
+      (authRepository.findRefreshTokenByHash as jest.Mock).mockResolvedValue({
+        userId: 'another-user',
+        familyId: 'family-id-2',
+      });
+
+      // Act & Assert
+      await expect(
+        authService.logout(mockUser.id, undefined, 'refresh-token')
+      ).rejects.toThrow(ApiError.unauthorized('Invalid refresh token'));
+      expect(authRepository.revokeRefreshTokenFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should revoke every session of the user', async () => {
       // Arrange
-      (authRepository.updateRefreshToken as jest.Mock).mockResolvedValue(mockUser);
+      (authRepository.revokeAllRefreshTokens as jest.Mock).mockResolvedValue(3);
 
       // Act
-      await authService.logout(mockUser.id);
+      const result = await authService.logoutAll(mockUser.id);
 
       // Assert
-      expect(authRepository.updateRefreshToken).toHaveBeenCalledWith(mockUser.id, null);
+      expect(authRepository.revokeAllRefreshTokens).toHaveBeenCalledWith(mockUser.id);
+      expect(result).toBe(3);
     });
   });
 
@@ -368,4 +680,104 @@ describe('AuthService', () => {
       );
     });
   });
+
+  describe('verifyEmail', () => {
+    beforeEach(() => {
+      jest.replaceProperty(env, 'FEATURE_EMAIL_VERIFICATION', true);
+    });
+
+    it('should reject used, expired or unknown tokens', async () => {
+      // Arrange
+      (authRepository.consumeEmailVerificationToken as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(authService.verifyEmail('used-token')).rejects.toThrow(
+        ApiError.badRequest('Invalid or expired verification token')
+      );
+    });
+
+    it('should not be available when the feature is off', async () => {
+      // Arrange
+      jest.replaceProperty(env, 'FEATURE_EMAIL_VERIFICATION', false);
+
+      // Act & Assert
+      await expect(authService.verifyEmail('token')).rejects.toThrow(
+        'Email verification is not enabled'
+      );
+      expect(authRepository.consumeEmailVerificationToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    const mailbox = new InMemoryMailTransport();
+
+    beforeAll(() => {
+      mailService.setTransport(mailbox);
+    });
+
+    beforeEach(() => {
+      mailbox.clear();
+    });
+
+    it('should store only the token hash and email the reset link', async () => {
+      // Arrange
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue(mockUser);
+
+      // Act
+      await authService.requestPasswordReset(mockUser.email);
+
+      // Assert
+      const mail = mailbox.lastTo(mockUser.email);
+      const token = mail?.text.match(/reset-password\?token=([a-f0-9]+)/)?.[1];
+      expect(token).toBeDefined();
+
+      const [userId, tokenHash] = (authRepository.createPasswordResetToken as jest.Mock).mock
+        .calls[0];
+      expect(userId).toBe(mockUser.id);
+      expect(tokenHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(tokenHash).not.toBe(token);
+    });
+
+    it('should not send anything for unknown emails', async () => {
+      // Arrange
+      (authRepository.findActiveUserByEmail as jest.Mock).mockResolvedValue(null);
+
+      // Act
+      await authService.requestPasswordReset('unknown@example.com');
+
+      // Assert
+      expect(mailbox.messages).toHaveLength(0);
+      expect(authRepository.createPasswordResetToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should consume the token and close every session', async () => {
+      // Arrange
+      (authRepository.consumePasswordResetToken as jest.Mock).mockResolvedValue(mockUser.id);
+      (authRepository.findUserById as jest.Mock).mockResolvedValue(mockUser);
+      (bcrypt.hash as jest.Mock).mockResolvedValue('new-hash');
+
+      // Act
+      await authService.resetPassword('reset-token', 'NewPassword123!');
+
+      // Assert
+      expect(authRepository.consumePasswordResetToken).toHaveBeenCalledWith(
+        expect.not.stringContaining('reset-token')
+      );
+      expect(authRepository.updatePassword).toHaveBeenCalledWith(mockUser.id, 'new-hash');
+      expect(authRepository.revokeAllRefreshTokens).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should reject used, expired or unknown tokens', async () => {
+      // Arrange
+      (authRepository.consumePasswordResetToken as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(authService.resetPassword('used-token', 'NewPassword123!')).rejects.toThrow(
+        ApiError.unauthorized('Invalid or expired reset token')
+      );
+      expect(authRepository.updatePassword).not.toHaveBeenCalled();
+    });
+  });
 });
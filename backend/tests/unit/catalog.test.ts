@@ -0,0 +1,123 @@
+import {
+  getSearchTerms,
+  isDentalCie10Code,
+  normalizeCie10Code,
+  parseCie10Csv,
+  parseCsv,
+} from '@utils/catalog';
+
+describe('Catalog helpers', () => {
+  describe('parseCsv', () => {
+    it('should read quoted fields with commas, quotes and line breaks', () => {
+      // Act
+      const rows = parseCsv('code,name\r\nK02.1,"Caries de la dentina, ""profunda"""\r\nK03.0,"Atrición\nexcesiva"');
+
+      // Assert
+      expect(rows).toEqual([
+        ['code', 'name'],
+        ['K02.1', 'Caries de la dentina, "profunda"'],
+        ['K03.0', 'Atrición\nexcesiva'],
+      ]);
+    });
+
+    it('should use semicolons when the header is separated by them', () => {
+      // Act
+      const rows = parseCsv('\uFEFFcodigo;nombre\nK05.1;Gingivitis crónica\n');
+
+      // Assert
+      expect(rows).toEqual([
+        ['codigo', 'nombre'],
+        ['K05.1', 'Gingivitis crónica'],
+      ]);
+    });
+  });
+
+  describe('CIE-10 codes', () => {
+    it('should normalize codes written without the dot', () => {
+      // Act & Assert
+      expect(normalizeCie10Code(' k021 ')).toBe('K02.1');
+      expect(normalizeCie10Code('K08.81')).toBe('K08.81');
+      expect(normalizeCie10Code('K02')).toBe('K02');
+    });
+
+    it('should only accept codes of the K00–K14 chapter', () => {
+      // Act & Assert
+      expect(isDentalCie10Code('K00.0')).toBe(true);
+      expect(isDentalCie10Code('K14.9')).toBe(true);
+      expect(isDentalCie10Code('K15.0')).toBe(false);
+      expect(isDentalCie10Code('J02.1')).toBe(false);
+    });
+  });
+
+  describe('parseCie10Csv', () => {
+    it('should take categories from three-character rows', () => {
+      // Arrange
+      const csv = [
+        'Código,Nombre,Descripción',
+        'K02,Caries dental,',
+        'K02.0,Caries limitada al esmalte,Mancha blanca',
+        'K021,Caries de la dentina,',
+      ].join('\n');
+
+      // Act
+      const result = parseCie10Csv(csv);
+
+      // Assert
+      expect(result.errors).toEqual([]);
+      expect(result.rows).toEqual([
+        {
+          code: 'K02.0',
+          name: 'Caries limitada al esmalte',
+          category: 'K02: Caries dental',
+          chapter: 'K00-K14',
+          description: 'Mancha blanca',
+        },
+        {
+          code: 'K02.1',
+          name: 'Caries de la dentina',
+          category: 'K02: Caries dental',
+          chapter: 'K00-K14',
+          description: null,
+        },
+      ]);
+    });
+
+    it('should report invalid lines with their line number and keep the rest', () => {
+      // Arrange
+      const csv = [
+        'code,name,category',
+        'K05.1,Gingivitis crónica,K05: Gingivitis y enfermedades periodontales',
+        'J02.1,Faringitis,J02: Faringitis',
+        'K05.1,Gingivitis crónica,K05: Gingivitis y enfermedades periodontales',
+        'K06.0,,K06: Otros trastornos de la encía',
+        ',,',
+        'K07.3,Anomalías de la posición del diente,',
+      ].join('\n');
+
+      // Act
+      const result = parseCie10Csv(csv);
+
+      // Assert
+      expect(result.rows.map((row) => row.code)).toEqual(['K05.1']);
+      expect(result.errors).toEqual([
+        { line: 3, code: 'J02.1', message: 'Code is not in chapter K00-K14' },
+        { line: 4, code: 'K05.1', message: 'Duplicated code' },
+        { line: 5, code: 'K06.0', message: 'Missing name' },
+        { line: 7, code: 'K07.3', message: 'Missing category (add a K07 row or a category column)' },
+      ]);
+    });
+
+    it('should reject files without code and name columns', () => {
+      // Act & Assert
+      expect(() => parseCie10Csv('id,descripcion\n1,Caries')).toThrow('The CSV must have code and name columns');
+    });
+  });
+
+  describe('getSearchTerms', () => {
+    it('should split the query into words', () => {
+      // Act & Assert
+      expect(getSearchTerms('  caries   dentina ')).toEqual(['caries', 'dentina']);
+      expect(getSearchTerms(undefined)).toEqual([]);
+    });
+  });
+});
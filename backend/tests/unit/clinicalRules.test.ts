@@ -0,0 +1,73 @@
+import { ToothStatus } from '@prisma/client';
+import { detectNewFindings, getFindingRule, proposeToothOutcome } from '@utils/clinicalRules';
+
+describe('Clinical rules', () => {
+  describe('detectNewFindings', () => {
+    it('should report surfaces that became decayed', () => {
+      // Arrange
+      const before = { toothNumber: '16', status: ToothStatus.HEALTHY };
+      const after = {
+        toothNumber: '16',
+        status: ToothStatus.HEALTHY,
+        surfaces: {
+          O: { status: ToothStatus.CARIES },
+          M: { status: ToothStatus.CARIES },
+          D: { status: ToothStatus.FILLED },
+        },
+      };
+
+      // Act
+      const findings = detectNewFindings(before, after);
+
+      // Assert
+      expect(findings).toEqual([{ status: ToothStatus.CARIES, surfaces: ['O', 'M'] }]);
+      expect(getFindingRule('16', findings[0]!)).toEqual({ cie10Code: 'K02.1', catalogCode: 'REST-002' });
+    });
+
+    it('should ignore findings the tooth already had', () => {
+      // Arrange
+      const before = { toothNumber: '38', status: ToothStatus.EXTRACTION };
+      const after = { toothNumber: '38', status: ToothStatus.EXTRACTION, surfaces: { O: { status: ToothStatus.FILLED } } };
+
+      // Act & Assert
+      expect(detectNewFindings(before, after)).toEqual([]);
+      expect(getFindingRule('38', { status: ToothStatus.EXTRACTION, surfaces: [] })).toEqual({
+        cie10Code: null,
+        catalogCode: 'CIRUG-003',
+      });
+    });
+  });
+
+  describe('proposeToothOutcome', () => {
+    it('should fill decayed surfaces after a restoration', () => {
+      // Arrange
+      const tooth = {
+        toothNumber: '16',
+        status: ToothStatus.CARIES,
+        surfaces: { O: { status: ToothStatus.CARIES }, V: { status: ToothStatus.HEALTHY } },
+      };
+
+      // Act
+      const outcome = proposeToothOutcome('REST-001', tooth, '2025-03-15');
+
+      // Assert
+      expect(outcome).toEqual({
+        status: ToothStatus.FILLED,
+        surfaces: { O: { status: ToothStatus.FILLED, date: '2025-03-15' }, V: { status: ToothStatus.HEALTHY } },
+      });
+    });
+
+    it('should clear surfaces after an extraction and skip procedures that do not change the chart', () => {
+      // Arrange
+      const tooth = { toothNumber: '46', status: ToothStatus.EXTRACTION, surfaces: { O: { status: ToothStatus.CARIES } } };
+
+      // Act & Assert
+      expect(proposeToothOutcome('CIRUG-001', tooth, '2025-03-15')).toEqual({
+        status: ToothStatus.MISSING,
+        surfaces: undefined,
+      });
+      expect(proposeToothOutcome('PREV-001', tooth, '2025-03-15')).toBeNull();
+      expect(proposeToothOutcome('CIRUG-001', { toothNumber: '46', status: ToothStatus.MISSING }, '2025-03-15')).toBeNull();
+    });
+  });
+});
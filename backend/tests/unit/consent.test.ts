@@ -0,0 +1,83 @@
+import { computeConsentHash, renderConsentContent } from '@utils/consent';
+
+describe('Informed consent', () => {
+  const data = {
+    patientName: 'Ana Pérez',
+    patientIdentification: 'CEDULA 1712345678',
+    procedures: 'Extracción de cordal',
+    teeth: '38, 48',
+    doctorName: 'Luis Mora',
+    date: '19/10/2026',
+    clinicName: 'Clínica Odontológica',
+  };
+
+  describe('renderConsentContent', () => {
+    it('should replace every placeholder with the document data', () => {
+      // Act
+      const content = renderConsentContent(
+        'Yo, {{patientName}} ({{ patientIdentification }}), autorizo {{procedures}} en {{teeth}}.',
+        data
+      );
+
+      // Assert
+      expect(content).toBe('Yo, Ana Pérez (CEDULA 1712345678), autorizo Extracción de cordal en 38, 48.');
+    });
+
+    it('should leave unknown placeholders untouched', () => {
+      // Act
+      const content = renderConsentContent('{{date}} {{unknown}}', data);
+
+      // Assert
+      expect(content).toBe('19/10/2026 {{unknown}}');
+    });
+  });
+
+  describe('computeConsentHash', () => {
+    const consent = {
+      patientId: 'patient-1',
+      templateId: 'template-1',
+      category: 'Cirugía',
+      treatmentPlanId: 'plan-1',
+      treatmentId: null,
+      title: 'Consentimiento informado para cirugía oral',
+      content: 'Yo, Ana Pérez, autorizo...',
+      signedName: 'Ana Pérez',
+      signatureImage: 'data:image/png;base64,iVBORw0KGgo=',
+      signedAt: new Date('2026-10-19T15:00:00.000Z'),
+      collectedById: 'user-1',
+    };
+
+    it('should be stable for the same consent', () => {
+      // Act
+      const hash = computeConsentHash(consent);
+
+      // Assert
+      expect(hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(computeConsentHash({ ...consent })).toBe(hash);
+    });
+
+    it('should change when the document or signature is altered', () => {
+      // Arrange
+      const hash = computeConsentHash(consent);
+
+      // Act
+      const alteredContent = computeConsentHash({ ...consent, content: 'Yo, Ana Pérez, no autorizo...' });
+      const alteredSignature = computeConsentHash({ ...consent, signatureImage: 'data:image/png;base64,AAAA' });
+
+      // Assert
+      expect(alteredContent).not.toBe(hash);
+      expect(alteredSignature).not.toBe(hash);
+    });
+
+    it('should ignore fields outside the signed document', () => {
+      // Arrange
+      const stored = { ...consent, ipAddress: '10.0.0.1', documentHash: 'abc' };
+
+      // Act
+      const hash = computeConsentHash(stored);
+
+      // Assert
+      expect(hash).toBe(computeConsentHash(consent));
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { ClaimStatus } from '@prisma/client';
+import {
+  allocateClaimPayment,
+  calculateCoverage,
+  canTransitionClaim,
+  findCoverageRule,
+  resolveClaimPaymentStatus,
+} from '@utils/insurance';
+import type { CoverageInput } from '../../src/types/insurance.types';
+
+const input = (overrides: Partial<CoverageInput> = {}): CoverageInput => ({
+  cost: 100,
+  coveragePercent: 80,
+  waitingPeriodDays: 0,
+  coverageStart: new Date('2026-01-01T00:00:00Z'),
+  serviceDate: new Date('2026-06-15T12:00:00Z'),
+  deductible: 0,
+  deductibleUsed: 0,
+  annualMaximum: null,
+  benefitsUsed: 0,
+  ...overrides,
+});
+
+describe('Insurance rules', () => {
+  describe('calculateCoverage', () => {
+    it('should cover the plan percentage of the cost', () => {
+      // Act
+      const split = calculateCoverage(input());
+
+      // Assert
+      expect(split).toEqual({
+        coveragePercent: 80,
+        deductibleApplied: 0,
+        insurerPortion: 80,
+        patientPortion: 20,
+        limitedBy: null,
+      });
+    });
+
+    it('should charge the deductible left for the year to the patient first', () => {
+      // Arrange
+      const data = input({ deductible: 50, deductibleUsed: 30 });
+
+      // Act
+      const split = calculateCoverage(data);
+
+      // Assert
+      expect(split.deductibleApplied).toBe(20);
+      expect(split.insurerPortion).toBe(64);
+      expect(split.patientPortion).toBe(36);
+    });
+
+    it('should not cover categories inside their waiting period', () => {
+      // Arrange
+      const data = input({ waitingPeriodDays: 180 });
+
+      // Act
+      const split = calculateCoverage(data);
+
+      // Assert
+      expect(split.insurerPortion).toBe(0);
+      expect(split.patientPortion).toBe(100);
+      expect(split.limitedBy).toBe('WAITING_PERIOD');
+    });
+
+    it('should cap the insurer portion at what is left of the annual maximum', () => {
+      // Arrange
+      const data = input({ annualMaximum: 500, benefitsUsed: 470 });
+
+      // Act
+      const split = calculateCoverage(data);
+
+      // Assert
+      expect(split.insurerPortion).toBe(30);
+      expect(split.patientPortion).toBe(70);
+      expect(split.limitedBy).toBe('ANNUAL_MAXIMUM');
+    });
+
+    it('should not cover categories with no coverage', () => {
+      // Act
+      const split = calculateCoverage(input({ coveragePercent: 0 }));
+
+      // Assert
+      expect(split.insurerPortion).toBe(0);
+      expect(split.limitedBy).toBe('NOT_COVERED');
+    });
+  });
+
+  describe('findCoverageRule', () => {
+    it('should match categories ignoring case and spaces', () => {
+      // Arrange
+      const rules = [{ category: 'Endodoncia' }, { category: 'Ortodoncia' }];
+
+      // Act & Assert
+      expect(findCoverageRule(rules, ' endodoncia ')).toBe(rules[0]);
+      expect(findCoverageRule(rules, 'Cirugía')).toBeUndefined();
+    });
+  });
+
+  describe('allocateClaimPayment', () => {
+    it('should fill pending approved amounts in order', () => {
+      // Arrange
+      const items = [
+        { id: 'i1', treatmentId: 't1', approvedAmount: 50, paidAmount: 50 },
+        { id: 'i2', treatmentId: 't2', approvedAmount: 80, paidAmount: 20 },
+        { id: 'i3', treatmentId: 't3', approvedAmount: 40, paidAmount: 0 },
+      ];
+
+      // Act
+      const allocations = allocateClaimPayment(75, items);
+
+      // Assert
+      expect(allocations).toEqual([
+        { itemId: 'i2', treatmentId: 't2', amount: 60 },
+        { itemId: 'i3', treatmentId: 't3', amount: 15 },
+      ]);
+    });
+  });
+
+  describe('resolveClaimPaymentStatus', () => {
+    it('should be partially paid until the approved amount is covered', () => {
+      // Act & Assert
+      expect(resolveClaimPaymentStatus(100, 0)).toBe(ClaimStatus.APPROVED);
+      expect(resolveClaimPaymentStatus(100, 40)).toBe(ClaimStatus.PARTIALLY_PAID);
+      expect(resolveClaimPaymentStatus(100, 100)).toBe(ClaimStatus.PAID);
+    });
+  });
+
+  describe('canTransitionClaim', () => {
+    it('should only let submitted claims be approved or denied', () => {
+      // Act & Assert
+      expect(canTransitionClaim(ClaimStatus.DRAFT, ClaimStatus.SUBMITTED)).toBe(true);
+      expect(canTransitionClaim(ClaimStatus.SUBMITTED, ClaimStatus.DENIED)).toBe(true);
+      expect(canTransitionClaim(ClaimStatus.DRAFT, ClaimStatus.APPROVED)).toBe(false);
+      expect(canTransitionClaim(ClaimStatus.DENIED, ClaimStatus.SUBMITTED)).toBe(false);
+    });
+  });
+});
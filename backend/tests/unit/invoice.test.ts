@@ -0,0 +1,191 @@
+import { InvoiceStatus, PaymentMethod } from '@prisma/client';
+import { prisma } from '@config/database';
+import { accountingService } from '@services/accounting.service';
+import { accountingRepository } from '@repositories/accounting.repository';
+import {
+  calculateInvoiceTotals,
+  canTransitionInvoice,
+  formatInvoiceNumber,
+  resolveInvoicePaymentStatus,
+} from '@utils/invoice';
+
+// Mock dependencies
+jest.mock('@config/database', () => ({
+  prisma: {
+    patient: { findFirst: jest.fn() },
+    treatment: { findUnique: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock('@repositories/accounting.repository');
+jest.mock('@utils/logger');
+
+describe('Invoice rules', () => {
+  describe('calculateInvoiceTotals', () => {
+    it('should charge tax only over the discounted amount of taxable lines', () => {
+      // Arrange
+      const items = [
+        { quantity: 1, unitPrice: 50, discount: 0, total: 50, taxable: false },
+        { quantity: 2, unitPrice: 60, discount: 20, total: 100, taxable: true },
+      ];
+
+      // Act
+      const totals = calculateInvoiceTotals(items, 0.15);
+
+      // Assert
+      expect(totals).toEqual({ subtotal: 170, discount: 20, taxableBase: 100, taxRate: 0.15, tax: 15, total: 165 });
+    });
+
+    it('should round tax to cents', () => {
+      // Act
+      const totals = calculateInvoiceTotals(
+        [{ quantity: 3, unitPrice: 33.33, discount: 0, total: 99.99, taxable: true }],
+        0.12
+      );
+
+      // Assert
+      expect(totals.tax).toBe(12);
+      expect(totals.total).toBe(111.99);
+    });
+  });
+
+  describe('resolveInvoicePaymentStatus', () => {
+    it('should be partially paid while a balance remains', () => {
+      // Act & Assert
+      expect(resolveInvoicePaymentStatus(100, 40)).toBe(InvoiceStatus.PARTIALLY_PAID);
+    });
+
+    it('should be paid once the total is covered', () => {
+      // Act & Assert
+      expect(resolveInvoicePaymentStatus(111.99, 111.99)).toBe(InvoiceStatus.PAID);
+    });
+
+    it('should stay issued without payments', () => {
+      // Act & Assert
+      expect(resolveInvoicePaymentStatus(100, 0)).toBe(InvoiceStatus.ISSUED);
+    });
+  });
+
+  describe('canTransitionInvoice', () => {
+    it('should only void issued invoices', () => {
+      // Act & Assert
+      expect(canTransitionInvoice(InvoiceStatus.ISSUED, InvoiceStatus.VOID)).toBe(true);
+      expect(canTransitionInvoice(InvoiceStatus.PARTIALLY_PAID, InvoiceStatus.VOID)).toBe(false);
+      expect(canTransitionInvoice(InvoiceStatus.DRAFT, InvoiceStatus.VOID)).toBe(false);
+    });
+  });
+
+  describe('formatInvoiceNumber', () => {
+    it('should pad the sequence to nine digits', () => {
+      // Act & Assert
+      expect(formatInvoiceNumber('001', '002', 123)).toBe('001-002-000000123');
+    });
+  });
+});
+
+describe('AccountingService.createPatientPayment', () => {
+  const data = {
+    patientId: 'patient-1',
+    treatmentId: 'treatment-1',
+    invoiceId: 'invoice-1',
+    amount: 40,
+    paymentMethod: PaymentMethod.CASH,
+    concept: 'Abono',
+    createdBy: 'user-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.patient.findFirst as jest.Mock).mockResolvedValue({ id: 'patient-1' });
+    (prisma.treatment.findUnique as jest.Mock).mockResolvedValue({ id: 'treatment-1', paid: 0, balance: 100 });
+    (accountingRepository.findInvoiceById as jest.Mock).mockResolvedValue({
+      id: 'invoice-1',
+      patientId: 'patient-1',
+      number: '001-001-000000123',
+      status: InvoiceStatus.ISSUED,
+      balance: 100,
+    });
+  });
+
+  it('should allocate the payment to the invoice and the treatment together', async () => {
+    // Arrange
+    (accountingRepository.createAllocatedPayment as jest.Mock).mockResolvedValue({ id: 'payment-1' });
+
+    // Act
+    const payment = await accountingService.createPatientPayment(data);
+
+    // Assert
+    expect(payment).toEqual({ id: 'payment-1' });
+    expect(accountingRepository.createAllocatedPayment).toHaveBeenCalledWith(data);
+    expect(prisma.treatment.update).not.toHaveBeenCalled();
+    expect(accountingRepository.createTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 40, invoiceNumber: '001-001-000000123' })
+    );
+  });
+
+  it('should not record income when the invoice balance changed meanwhile', async () => {
+    // Arrange
+    (accountingRepository.createAllocatedPayment as jest.Mock).mockResolvedValue(null);
+
+    // Act & Assert
+    await expect(accountingService.createPatientPayment(data)).rejects.toThrow(
+      'Balance changed while recording the payment, please reload'
+    );
+    expect(prisma.treatment.update).not.toHaveBeenCalled();
+    expect(accountingRepository.createTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('AccountingRepository.createAllocatedPayment', () => {
+  const { accountingRepository: repository } = jest.requireActual('@repositories/accounting.repository');
+
+  const tx = {
+    invoice: { findUnique: jest.fn(), updateMany: jest.fn() },
+    treatment: { findUniqueOrThrow: jest.fn(), updateMany: jest.fn() },
+    patientPayment: { create: jest.fn() },
+  };
+
+  const data = {
+    patientId: 'patient-1',
+    treatmentId: 'treatment-1',
+    invoiceId: 'invoice-1',
+    amount: 40,
+    method: PaymentMethod.CASH,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+    tx.invoice.findUnique.mockResolvedValue({ id: 'invoice-1', status: InvoiceStatus.ISSUED, total: 100, paidAmount: 0 });
+    tx.invoice.updateMany.mockResolvedValue({ count: 1 });
+    tx.treatment.findUniqueOrThrow.mockResolvedValue({ id: 'treatment-1', paid: 20, balance: 80 });
+    tx.patientPayment.create.mockResolvedValue({ id: 'payment-1' });
+  });
+
+  it('should increment the treatment paid amount only if it did not change meanwhile', async () => {
+    // Arrange
+    tx.treatment.updateMany.mockResolvedValue({ count: 1 });
+
+    // Act
+    const payment = await repository.createAllocatedPayment(data);
+
+    // Assert
+    expect(payment).toEqual({ id: 'payment-1' });
+    expect(tx.treatment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'treatment-1', paid: 20 },
+      data: { paid: { increment: 40 }, balance: 40 },
+    });
+  });
+
+  it('should roll back the payment when another payment updated the treatment first', async () => {
+    // Arrange
+    tx.treatment.updateMany.mockResolvedValue({ count: 0 });
+
+    // Act
+    const payment = await repository.createAllocatedPayment(data);
+
+    // Assert
+    expect(payment).toBeNull();
+    expect(tx.patientPayment.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { DentitionType, ToothStatus } from '@prisma/client';
+import { odontogramService } from '@services/odontogram.service';
+import { OdontogramRepository } from '@repositories/odontogram.repository';
+import type { OdontogramWithTeethResponse, ToothResponse } from '../../src/types/odontogram.types';
+
+// Mock dependencies
+jest.mock('@config/database', () => ({ prisma: {} }));
+jest.mock('@repositories/odontogram.repository');
+jest.mock('@services/audit.service', () => ({
+  auditService: { recordPatientAccess: jest.fn() },
+}));
+jest.mock('@utils/logger');
+
+const buildTooth = (toothNumber: string, overrides: Partial<ToothResponse> = {}): ToothResponse => ({
+  id: `tooth-${toothNumber}`,
+  odontogramId: 'odontogram',
+  toothNumber,
+  status: ToothStatus.HEALTHY,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const buildOdontogram = (
+  id: string,
+  version: number,
+  type: DentitionType,
+  teeth: ToothResponse[]
+): OdontogramWithTeethResponse => ({
+  id,
+  patientId: 'patient-1',
+  date: '2025-01-01T00:00:00.000Z',
+  version,
+  type,
+  isCurrent: version === 2,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  teeth,
+});
+
+describe('OdontogramService', () => {
+  const findById = OdontogramRepository.prototype.findById as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('compareVersions', () => {
+    it('should report status and surface changes of teeth present in both versions', async () => {
+      // Arrange
+      findById
+        .mockResolvedValueOnce(
+          buildOdontogram('v1', 1, DentitionType.PERMANENT, [
+            buildTooth('16', { status: ToothStatus.CARIES, surfaces: { O: { status: ToothStatus.CARIES } } }),
+            buildTooth('11'),
+          ])
+        )
+        .mockResolvedValueOnce(
+          buildOdontogram('v2', 2, DentitionType.PERMANENT, [
+            buildTooth('16', { status: ToothStatus.FILLED, surfaces: { O: { status: ToothStatus.FILLED } } }),
+            buildTooth('11'),
+          ])
+        );
+
+      // Act
+      const result = await odontogramService.compareVersions('v1', 'v2');
+
+      // Assert
+      expect(result.changes).toEqual([
+        { toothNumber: '16', field: 'status', oldValue: ToothStatus.CARIES, newValue: ToothStatus.FILLED },
+        {
+          toothNumber: '16',
+          field: 'surface.O.status',
+          oldValue: ToothStatus.CARIES,
+          newValue: ToothStatus.FILLED,
+        },
+      ]);
+      expect(result.summary).toMatchObject({ teethModified: 1, statusChanges: 1, surfaceChanges: 1 });
+    });
+
+    it('should report teeth added and removed between versions', async () => {
+      // Arrange
+      findById
+        .mockResolvedValueOnce(
+          buildOdontogram('v1', 1, DentitionType.MIXED, [buildTooth('16'), buildTooth('55')])
+        )
+        .mockResolvedValueOnce(
+          buildOdontogram('v2', 2, DentitionType.PERMANENT, [buildTooth('16'), buildTooth('15')])
+        );
+
+      // Act
+      const result = await odontogramService.compareVersions('v1', 'v2');
+
+      // Assert
+      expect(result.changes).toEqual([
+        { toothNumber: '15', field: 'tooth', oldValue: null, newValue: ToothStatus.HEALTHY },
+        { toothNumber: '55', field: 'tooth', oldValue: ToothStatus.HEALTHY, newValue: null },
+      ]);
+      expect(result.summary).toEqual({
+        totalChanges: 2,
+        teethModified: 0,
+        statusChanges: 0,
+        surfaceChanges: 0,
+        teethAdded: 1,
+        teethRemoved: 1,
+      });
+    });
+  });
+});
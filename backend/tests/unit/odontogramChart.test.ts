@@ -0,0 +1,102 @@
+import { DentitionType, IdentificationType, ToothStatus } from '@prisma/client';
+import {
+  collectOdontogramNotes,
+  layoutOdontogramChart,
+  renderOdontogramPdf,
+  renderOdontogramSvg,
+} from '@utils/odontogramChart';
+import { getAllToothNumbers } from '../../src/types/odontogram.types';
+import type { OdontogramWithTeethResponse, ToothResponse } from '../../src/types/odontogram.types';
+
+const patient = {
+  firstName: 'María',
+  lastName: 'González',
+  identification: '0912345678',
+  identificationType: IdentificationType.CEDULA,
+  dateOfBirth: new Date('1990-05-12T00:00:00.000Z'),
+};
+
+const buildOdontogram = (
+  type: DentitionType,
+  overrides: Record<string, Partial<ToothResponse>> = {}
+): OdontogramWithTeethResponse => ({
+  id: 'odontogram-1',
+  patientId: 'patient-1',
+  date: '2025-03-15T10:00:00.000Z',
+  version: 2,
+  type,
+  isCurrent: true,
+  createdAt: '2025-03-15T10:00:00.000Z',
+  updatedAt: '2025-03-15T10:00:00.000Z',
+  teeth: getAllToothNumbers(type).map((toothNumber) => ({
+    id: `tooth-${toothNumber}`,
+    odontogramId: 'odontogram-1',
+    toothNumber,
+    status: ToothStatus.HEALTHY,
+    createdAt: '2025-03-15T10:00:00.000Z',
+    updatedAt: '2025-03-15T10:00:00.000Z',
+    ...overrides[toothNumber],
+  })),
+});
+
+const toothLabels = (type: DentitionType) =>
+  layoutOdontogramChart(buildOdontogram(type), patient)
+    .shapes.filter((shape) => shape.kind === 'text' && /^\d{2}$/.test(shape.text))
+    .map((shape) => (shape.kind === 'text' ? shape.text : ''));
+
+describe('Odontogram chart export', () => {
+  it('should draw every tooth of the dentition with five surfaces', () => {
+    // Act
+    const drawing = layoutOdontogramChart(buildOdontogram(DentitionType.PERMANENT), patient);
+
+    // Assert
+    expect(toothLabels(DentitionType.PERMANENT)).toHaveLength(32);
+    expect(toothLabels(DentitionType.TEMPORARY)).toHaveLength(20);
+    expect(toothLabels(DentitionType.MIXED)).toHaveLength(52);
+    expect(drawing.shapes.filter((shape) => shape.kind === 'polygon')).toHaveLength(32 * 5);
+  });
+
+  it('should color surfaces by status and include header, legend and notes in the SVG', () => {
+    // Arrange
+    const odontogram = buildOdontogram(DentitionType.PERMANENT, {
+      '16': {
+        status: ToothStatus.CARIES,
+        surfaces: { O: { status: ToothStatus.CARIES, notes: 'Profunda' } },
+        notes: 'Requiere <endodoncia>',
+      },
+    });
+
+    // Act
+    const svg = renderOdontogramSvg(odontogram, patient);
+
+    // Assert
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toContain('Paciente: María González');
+    expect(svg).toContain('CEDULA: 0912345678');
+    expect(svg).toContain('fill="#ef4444" fill-opacity="1"');
+    expect(svg).toContain('Endodoncia');
+    expect(svg).toContain('Pieza 16: Caries · Oclusal: Profunda · Requiere &lt;endodoncia&gt;');
+  });
+
+  it('should list only teeth with notes', () => {
+    // Arrange
+    const odontogram = {
+      ...buildOdontogram(DentitionType.TEMPORARY, {
+        '55': { status: ToothStatus.FILLED },
+        '61': { notes: 'Movilidad' },
+      }),
+      generalNotes: 'Control semestral',
+    };
+
+    // Act & Assert
+    expect(collectOdontogramNotes(odontogram)).toEqual(['General: Control semestral', 'Pieza 61: Sano · Movilidad']);
+  });
+
+  it('should render a PDF document', async () => {
+    // Act
+    const pdf = await renderOdontogramPdf(buildOdontogram(DentitionType.MIXED), patient);
+
+    // Assert
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  calculatePeriodontalIndices,
+  comparePeriodontalTeeth,
+  withAttachmentLevels,
+} from '@utils/periodontalIndices';
+import type { PeriodontalToothResponse, ProbingSitesDTO } from '../../src/types/periodontogram.types';
+
+const buildTooth = (
+  toothNumber: string,
+  sites: ProbingSitesDTO,
+  overrides: Partial<PeriodontalToothResponse> = {}
+): PeriodontalToothResponse => ({
+  id: `tooth-${toothNumber}`,
+  periodontogramId: 'periodontogram-1',
+  toothNumber,
+  isMissing: false,
+  mobility: null,
+  furcation: null,
+  sites: withAttachmentLevels(sites),
+  createdAt: '2025-03-15T10:00:00.000Z',
+  updatedAt: '2025-03-15T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('Periodontal indices', () => {
+  describe('withAttachmentLevels', () => {
+    it('should add probing depth and gingival margin', () => {
+      // Act
+      const sites = withAttachmentLevels({
+        MV: { probingDepth: 5, gingivalMargin: 2 },
+        V: { probingDepth: 3, gingivalMargin: -1 },
+        DV: { bleeding: true },
+      });
+
+      // Assert
+      expect(sites.MV?.attachmentLevel).toBe(7);
+      expect(sites.V?.attachmentLevel).toBe(2);
+      expect(sites.DV).toEqual({ bleeding: true });
+    });
+  });
+
+  describe('calculatePeriodontalIndices', () => {
+    it('should compute means, %BOP and deep sites over present teeth', () => {
+      // Arrange
+      const teeth = [
+        buildTooth('16', {
+          MV: { probingDepth: 6, gingivalMargin: 1, bleeding: true, suppuration: true },
+          V: { probingDepth: 4, bleeding: true, plaque: true },
+          DV: { probingDepth: 5 },
+          ML: { probingDepth: 3 },
+        }, { mobility: 1, furcation: 2 }),
+        buildTooth('11', { MV: { probingDepth: 2 }, V: { probingDepth: 2 } }),
+        buildTooth('21', { MV: { probingDepth: 9, bleeding: true } }, { isMissing: true }),
+        buildTooth('22', {}),
+      ];
+
+      // Act
+      const indices = calculatePeriodontalIndices(teeth);
+
+      // Assert
+      expect(indices).toEqual({
+        teethExamined: 2,
+        sitesExamined: 6,
+        meanProbingDepth: 3.67,
+        meanAttachmentLevel: 3.83,
+        bleedingOnProbingPercentage: 33.33,
+        plaquePercentage: 16.67,
+        suppurationSites: 1,
+        sitesProbingDepth4mm: 1,
+        sitesProbingDepthAtLeast5mm: 2,
+        teethWithMobility: 1,
+        teethWithFurcation: 1,
+      });
+    });
+
+    it('should return null averages when nothing was probed', () => {
+      // Act
+      const indices = calculatePeriodontalIndices([buildTooth('11', {})]);
+
+      // Assert
+      expect(indices.meanProbingDepth).toBeNull();
+      expect(indices.bleedingOnProbingPercentage).toBeNull();
+    });
+  });
+
+  describe('comparePeriodontalTeeth', () => {
+    it('should count sites that changed by 2 mm or more', () => {
+      // Arrange
+      const before = [buildTooth('16', { MV: { probingDepth: 6, bleeding: true }, V: { probingDepth: 3 }, DV: { probingDepth: 4 } })];
+      const after = [
+        buildTooth('16', { MV: { probingDepth: 4 }, V: { probingDepth: 5 }, DV: { probingDepth: 3 } }, { mobility: 1 }),
+      ];
+
+      // Act
+      const result = comparePeriodontalTeeth(before, after);
+
+      // Assert
+      expect(result.sitesImproved).toBe(1);
+      expect(result.sitesWorsened).toBe(1);
+      expect(result.changes).toContainEqual({ toothNumber: '16', site: null, field: 'mobility', oldValue: null, newValue: 1 });
+      expect(result.changes).toContainEqual({ toothNumber: '16', site: 'MV', field: 'bleeding', oldValue: true, newValue: null });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { requirePermission, clearPermissionCache, AuthRequest } from '@middleware/auth';
+import { prisma } from '@config/database';
+import { ApiError } from '@utils/ApiError';
+
+// Mock dependencies
+jest.mock('@config/database', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+jest.mock('@utils/logger');
+
+describe('requirePermission middleware', () => {
+  const permissionsRow = {
+    role: {
+      permissions: [
+        { resource: 'patients', action: 'read' },
+        { resource: 'patients', action: 'update' },
+      ],
+    },
+  };
+
+  const buildRequest = (token = 'token-1'): AuthRequest =>
+    ({
+      headers: { authorization: `Bearer ${token}` },
+      path: '/patients',
+      user: {
+        id: 'user-1',
+        email: 'doctor@example.com',
+        role: 'doctor',
+        firstName: 'Ana',
+        lastName: 'Vera',
+      },
+    }) as unknown as AuthRequest;
+
+  /**
+   * Run a middleware and resolve with the value passed to next()
+   */
+  const run = (
+    middleware: ReturnType<typeof requirePermission>,
+    req: Request
+  ): Promise<unknown> =>
+    new Promise((resolve) => {
+      middleware(req, {} as Response, resolve);
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearPermissionCache();
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(permissionsRow);
+  });
+
+  it('should call next when the role grants the permission', async () => {
+    // Act
+    const result = await run(requirePermission('patients', 'read'), buildRequest());
+
+    // Assert
+    expect(result).toBeUndefined();
+  });
+
+  it('should reject with forbidden when the permission is missing', async () => {
+    // Act
+    const result = await run(requirePermission('patients', 'delete'), buildRequest());
+
+    // Assert
+    expect(result).toBeInstanceOf(ApiError);
+    expect((result as ApiError).statusCode).toBe(403);
+  });
+
+  it('should load permissions once per request', async () => {
+    // Arrange
+    const req = buildRequest();
+
+    // Act
+    await run(requirePermission('patients', 'read'), req);
+    await run(requirePermission('patients', 'update'), req);
+
+    // Assert
+    expect(prisma.user.findUnique).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reuse cached permissions for the same token', async () => {
+    // Act
+    await run(requirePermission('patients', 'read'), buildRequest('token-1'));
+    await run(requirePermission('patients', 'read'), buildRequest('token-1'));
+    await run(requirePermission('patients', 'read'), buildRequest('token-2'));
+
+    // Assert
+    expect(prisma.user.findUnique).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reload permissions after the cache is cleared', async () => {
+    // Act
+    await run(requirePermission('patients', 'read'), buildRequest());
+    clearPermissionCache();
+    await run(requirePermission('patients', 'read'), buildRequest());
+
+    // Assert
+    expect(prisma.user.findUnique).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { isValidAt, periodsOverlap, resolveCatalogPrice, selectPriceList } from '@utils/priceList';
+
+const list = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  insuranceProvider: null as string | null,
+  isDefault: false,
+  isActive: true,
+  validFrom: null as Date | null,
+  validTo: null as Date | null,
+  ...overrides,
+});
+
+const at = new Date('2026-03-15T12:00:00Z');
+
+describe('Price list rules', () => {
+  describe('isValidAt', () => {
+    it('should include validFrom and exclude validTo', () => {
+      // Arrange
+      const period = { validFrom: new Date('2026-03-01T00:00:00Z'), validTo: new Date('2026-04-01T00:00:00Z') };
+
+      // Act & Assert
+      expect(isValidAt(period, new Date('2026-03-01T00:00:00Z'))).toBe(true);
+      expect(isValidAt(period, new Date('2026-04-01T00:00:00Z'))).toBe(false);
+      expect(isValidAt({ validFrom: null, validTo: null }, at)).toBe(true);
+    });
+  });
+
+  describe('periodsOverlap', () => {
+    it('should let consecutive periods share no moment', () => {
+      // Arrange
+      const march = { validFrom: new Date('2026-03-01T00:00:00Z'), validTo: new Date('2026-04-01T00:00:00Z') };
+      const april = { validFrom: new Date('2026-04-01T00:00:00Z'), validTo: null };
+
+      // Act & Assert
+      expect(periodsOverlap(march, april)).toBe(false);
+      expect(periodsOverlap(march, { validFrom: null, validTo: null })).toBe(true);
+      expect(periodsOverlap(april, { validFrom: new Date('2027-01-01T00:00:00Z'), validTo: null })).toBe(true);
+    });
+  });
+
+  describe('selectPriceList', () => {
+    const lists = [
+      list('default', { isDefault: true }),
+      list('insurer', { insuranceProvider: 'Salud S.A.' }),
+      list('staff'),
+    ];
+
+    it('should prefer the list assigned to the patient', () => {
+      // Act
+      const result = selectPriceList(
+        { priceListId: 'staff', hasInsurance: true, insuranceProvider: 'Salud S.A.' },
+        lists,
+        at
+      );
+
+      // Assert
+      expect(result).toEqual({ priceList: lists[2], rule: 'PATIENT' });
+    });
+
+    it('should match the insurer ignoring case and spaces', () => {
+      // Act
+      const result = selectPriceList(
+        { priceListId: null, hasInsurance: true, insuranceProvider: ' salud s.a. ' },
+        lists,
+        at
+      );
+
+      // Assert
+      expect(result?.rule).toBe('INSURER');
+      expect(result?.priceList.id).toBe('insurer');
+    });
+
+    it('should fall back to the default list when the other lists are not in force', () => {
+      // Arrange
+      const expired = [
+        list('default', { isDefault: true }),
+        list('insurer', { insuranceProvider: 'Salud S.A.', validTo: new Date('2026-01-01T00:00:00Z') }),
+        list('staff', { isActive: false }),
+      ];
+
+      // Act
+      const result = selectPriceList(
+        { priceListId: 'staff', hasInsurance: true, insuranceProvider: 'Salud S.A.' },
+        expired,
+        at
+      );
+
+      // Assert
+      expect(result?.rule).toBe('DEFAULT');
+      expect(result?.priceList.id).toBe('default');
+    });
+
+    it('should ignore the insurer of patients without insurance and return null without a default list', () => {
+      // Act
+      const result = selectPriceList(
+        { priceListId: null, hasInsurance: false, insuranceProvider: 'Salud S.A.' },
+        lists.slice(1),
+        at
+      );
+
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('resolveCatalogPrice', () => {
+    const items = [
+      { catalogId: 'rest', price: 45, validFrom: null, validTo: new Date('2026-03-01T00:00:00Z') },
+      { catalogId: 'rest', price: 50, validFrom: new Date('2026-03-01T00:00:00Z'), validTo: null },
+    ];
+
+    it('should use the list price in force for the date', () => {
+      // Act & Assert
+      expect(resolveCatalogPrice('rest', 60, { discountPercent: 10, items }, at))
+        .toEqual({ price: 50, source: 'PRICE_LIST_ITEM' });
+      expect(resolveCatalogPrice('rest', 60, { discountPercent: 10, items }, new Date('2026-02-01T00:00:00Z')))
+        .toEqual({ price: 45, source: 'PRICE_LIST_ITEM' });
+    });
+
+    it('should apply the list discount to procedures without a list price', () => {
+      // Act & Assert
+      expect(resolveCatalogPrice('endo', 33.33, { discountPercent: 30, items }, at))
+        .toEqual({ price: 23.33, source: 'PRICE_LIST_DISCOUNT' });
+    });
+
+    it('should use the base cost without a list', () => {
+      // Act & Assert
+      expect(resolveCatalogPrice('endo', 120, null, at)).toEqual({ price: 120, source: 'BASE_COST' });
+      expect(resolveCatalogPrice('endo', 120, { discountPercent: 0, items: [] }, at))
+        .toEqual({ price: 120, source: 'BASE_COST' });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { AppointmentType, ReminderChannel, ReminderStatus } from '@prisma/client';
+import { reminderService } from '@services/reminder.service';
+import {
+  notificationService,
+  InMemoryTextMessageTransport,
+  TextMessageChannel,
+} from '@services/notification.service';
+import { mailService, InMemoryMailTransport } from '@services/mail.service';
+import { reminderRepository } from '@repositories/reminder.repository';
+import {
+  formatReminderDay,
+  getAppointmentStart,
+  normalizePhone,
+  renderReminder,
+  selectDueLeadHours,
+} from '@utils/reminder';
+
+// Mock dependencies
+jest.mock('@repositories/reminder.repository');
+jest.mock('@utils/logger');
+
+const TIME_ZONE = 'America/Guayaquil';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Appointment reminders', () => {
+  describe('getAppointmentStart', () => {
+    it('should read startTime as clinic time on the stored day', () => {
+      // Act
+      const start = getAppointmentStart(new Date('2026-10-20T00:00:00.000Z'), '09:30', TIME_ZONE);
+
+      // Assert
+      expect(start.toISOString()).toBe('2026-10-20T14:30:00.000Z');
+    });
+  });
+
+  describe('selectDueLeadHours', () => {
+    const start = new Date('2026-10-20T14:30:00.000Z');
+
+    it('should keep each window open until the next shorter lead time', () => {
+      // Act & Assert
+      expect(selectDueLeadHours(start, new Date(start.getTime() - 49 * HOUR_MS), [48, 2])).toBeNull();
+      expect(selectDueLeadHours(start, new Date(start.getTime() - 47 * HOUR_MS), [48, 2])).toBe(48);
+      expect(selectDueLeadHours(start, new Date(start.getTime() - 3 * HOUR_MS), [2, 48])).toBe(48);
+      expect(selectDueLeadHours(start, new Date(start.getTime() - 1 * HOUR_MS), [48, 2])).toBe(2);
+      expect(selectDueLeadHours(start, start, [48, 2])).toBeNull();
+    });
+  });
+
+  describe('formatReminderDay', () => {
+    it('should say today, tomorrow or the date in the clinic time zone', () => {
+      // Arrange
+      const start = new Date('2026-10-20T14:30:00.000Z');
+
+      // Act & Assert
+      expect(formatReminderDay(start, new Date('2026-10-20T12:00:00.000Z'), TIME_ZONE)).toBe('hoy');
+      expect(formatReminderDay(start, new Date('2026-10-20T03:00:00.000Z'), TIME_ZONE)).toBe('mañana');
+      expect(formatReminderDay(start, new Date('2026-10-18T14:30:00.000Z'), TIME_ZONE)).toBe('el martes 20 de octubre');
+    });
+  });
+
+  describe('normalizePhone', () => {
+    it('should add the country code to local numbers and reject short ones', () => {
+      // Act & Assert
+      expect(normalizePhone('099 123 4567', '593')).toBe('+593991234567');
+      expect(normalizePhone('+593 99 123 4567', '593')).toBe('+593991234567');
+      expect(normalizePhone('0034612345678', '593')).toBe('+34612345678');
+      expect(normalizePhone('12345', '593')).toBeNull();
+    });
+  });
+
+  describe('renderReminder', () => {
+    it('should render the wording of the appointment type', () => {
+      // Arrange
+      const data = {
+        patientFirstName: 'Juan',
+        doctorName: 'Dr(a). Ana Torres',
+        type: AppointmentType.CLEANING,
+        startTime: '09:30',
+        dayLabel: 'mañana',
+        clinicName: 'Soldent',
+        clinicPhone: '022222222',
+      };
+
+      // Act
+      const email = renderReminder(data, ReminderChannel.EMAIL);
+      const sms = renderReminder(data, ReminderChannel.SMS);
+
+      // Assert
+      expect(email.subject).toBe('Recordatorio de tu cita de limpieza dental - Soldent');
+      expect(email.text).toContain('cepillarte');
+      expect(sms.text).toBe(
+        'Soldent: Hola Juan, te recordamos tu cita de limpieza dental mañana a las 09:30. ' +
+          'Si no puedes asistir, avísanos al 022222222.'
+      );
+    });
+  });
+
+  describe('ReminderService.runReminders', () => {
+    const mail = new InMemoryMailTransport();
+    const whatsapp = new InMemoryTextMessageTransport();
+    const now = new Date('2026-10-18T16:00:00.000Z');
+
+    const appointment = (overrides: Record<string, unknown> = {}) => ({
+      id: 'appointment-1',
+      date: new Date('2026-10-20T00:00:00.000Z'),
+      startTime: '09:30',
+      type: AppointmentType.CHECKUP,
+      patient: { id: 'patient-1', firstName: 'Juan', lastName: 'Pérez', phone: '0991234567', email: 'juan@example.com' },
+      doctor: { firstName: 'Ana', lastName: 'Torres' },
+      reminders: [] as { leadHours: number; channel: ReminderChannel; status: ReminderStatus; attempts: number }[],
+      ...overrides,
+    });
+
+    beforeAll(() => {
+      mailService.setTransport(mail);
+      notificationService.setChannel(new TextMessageChannel(ReminderChannel.WHATSAPP, whatsapp));
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mail.clear();
+      whatsapp.clear();
+    });
+
+    it('should send through every channel, record the outcomes and mark the appointment', async () => {
+      // Arrange
+      (reminderRepository.findUpcomingAppointments as jest.Mock).mockResolvedValue([appointment()]);
+
+      // Act
+      const summary = await reminderService.runReminders(now, [48, 2], [ReminderChannel.EMAIL, ReminderChannel.WHATSAPP]);
+
+      // Assert
+      expect(summary).toMatchObject({ appointments: 1, sent: 2, failed: 0, skipped: [] });
+      expect(mail.lastTo('juan@example.com')?.subject).toContain('revisión');
+      expect(whatsapp.lastTo('+593991234567')?.text).toContain('el martes 20 de octubre');
+      expect(reminderRepository.saveOutcome).toHaveBeenCalledWith(
+        'appointment-1',
+        48,
+        ReminderChannel.WHATSAPP,
+        expect.objectContaining({ status: ReminderStatus.SENT, recipient: '+593991234567' })
+      );
+      expect(reminderRepository.markReminderSent).toHaveBeenCalledWith('appointment-1', expect.any(Date));
+    });
+
+    it('should not repeat sent reminders and retry failed ones', async () => {
+      // Arrange
+      (reminderRepository.findUpcomingAppointments as jest.Mock).mockResolvedValue([
+        appointment({
+          reminders: [
+            { leadHours: 48, channel: ReminderChannel.EMAIL, status: ReminderStatus.SENT, attempts: 1 },
+            { leadHours: 48, channel: ReminderChannel.WHATSAPP, status: ReminderStatus.FAILED, attempts: 1 },
+          ],
+        }),
+      ]);
+      whatsapp.fail = new Error('WhatsApp Cloud API responded 503');
+
+      // Act
+      const summary = await reminderService.runReminders(now, [48, 2], [ReminderChannel.EMAIL, ReminderChannel.WHATSAPP]);
+
+      // Assert
+      expect(mail.messages).toHaveLength(0);
+      expect(summary).toMatchObject({ appointments: 1, sent: 0, failed: 1 });
+      expect(reminderRepository.saveOutcome).toHaveBeenCalledWith(
+        'appointment-1',
+        48,
+        ReminderChannel.WHATSAPP,
+        expect.objectContaining({ status: ReminderStatus.FAILED, error: 'WhatsApp Cloud API responded 503' })
+      );
+      expect(reminderRepository.markReminderSent).not.toHaveBeenCalled();
+    });
+
+    it('should skip and report patients without phone or email', async () => {
+      // Arrange
+      (reminderRepository.findUpcomingAppointments as jest.Mock).mockResolvedValue([
+        appointment({
+          patient: { id: 'patient-2', firstName: 'Ana', lastName: 'López', phone: '', email: null },
+        }),
+      ]);
+
+      // Act
+      const summary = await reminderService.runReminders(now, [48, 2], [ReminderChannel.EMAIL, ReminderChannel.WHATSAPP]);
+
+      // Assert
+      expect(summary.sent).toBe(0);
+      expect(summary.skipped).toEqual([
+        expect.objectContaining({ appointmentId: 'appointment-1', patientId: 'patient-2', patientName: 'Ana López' }),
+      ]);
+      expect(reminderRepository.saveOutcome).toHaveBeenCalledWith(
+        'appointment-1',
+        48,
+        ReminderChannel.EMAIL,
+        expect.objectContaining({ status: ReminderStatus.SKIPPED, error: 'Patient has no email' })
+      );
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { scheduleService } from '@services/schedule.service';
+import { scheduleRepository } from '@repositories/schedule.repository';
+import { userRepository } from '@repositories/user.repository';
+import { ApiError } from '@utils/ApiError';
+import { occursOn } from '@utils/schedule';
+import { RecurrenceFrequency } from '@prisma/client';
+
+// Mock dependencies
+jest.mock('@repositories/schedule.repository');
+jest.mock('@repositories/user.repository', () => ({
+  DOCTOR_ROLE: 'doctor',
+  userRepository: { findById: jest.fn() },
+}));
+jest.mock('@utils/logger');
+
+describe('ScheduleService', () => {
+  const doctorId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockDoctor = {
+    id: doctorId,
+    email: 'doctor@example.com',
+    firstName: 'Ana',
+    lastName: 'Torres',
+    role: { id: 'role-doctor', name: 'doctor', description: null },
+  };
+
+  const mockAppointment = {
+    id: 'appointment-1',
+    date: new Date(2025, 6, 2),
+    startTime: '10:00',
+    endTime: '10:30',
+    status: 'SCHEDULED',
+    patient: { id: 'patient-1', firstName: 'Juan', lastName: 'Pérez', phone: '0991234567' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (userRepository.findById as jest.Mock).mockResolvedValue(mockDoctor);
+    (scheduleRepository.createBlockedTime as jest.Mock).mockImplementation(async (data) => ({
+      id: 'blocked-1',
+      ...data,
+    }));
+    (scheduleRepository.findOverlappingAppointments as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('createBlockedTime', () => {
+    it('should store all-day vacations as a full-day range over several days', async () => {
+      // Act
+      await scheduleService.createBlockedTime({
+        doctorId,
+        date: '2025-07-01',
+        endDate: '2025-07-15',
+        allDay: true,
+        reason: 'Vacaciones',
+      });
+
+      // Assert
+      const record = (scheduleRepository.createBlockedTime as jest.Mock).mock.calls[0][0];
+      expect(record.startTime).toBe('00:00');
+      expect(record.endTime).toBe('23:59');
+      expect(record.endDate).toBeInstanceOf(Date);
+      expect(record.frequency).toBeNull();
+    });
+
+    it('should return overlapping appointments so they can be rescheduled', async () => {
+      // Arrange
+      (scheduleRepository.findOverlappingAppointments as jest.Mock).mockResolvedValue([
+        mockAppointment,
+      ]);
+
+      // Act
+      const result = await scheduleService.createBlockedTime({
+        doctorId,
+        date: '2025-07-02',
+        startTime: '09:00',
+        endTime: '12:00',
+        reason: 'Congreso',
+      });
+
+      // Assert
+      expect(result.blockedTime.id).toBe('blocked-1');
+      expect(result.overlappingAppointments).toEqual([mockAppointment]);
+    });
+
+    it('should keep the recurrence of recurring blocks', async () => {
+      // Act
+      await scheduleService.createBlockedTime({
+        doctorId,
+        date: '2025-07-07',
+        startTime: '08:00',
+        endTime: '09:00',
+        reason: 'Reunión semanal',
+        frequency: RecurrenceFrequency.WEEKLY,
+      });
+
+      // Assert
+      const record = (scheduleRepository.createBlockedTime as jest.Mock).mock.calls[0][0];
+      expect(record.frequency).toBe(RecurrenceFrequency.WEEKLY);
+      expect(record.endDate).toBeNull();
+    });
+
+    it('should reject non-recurring blocks longer than a year', async () => {
+      // Act & Assert
+      await expect(
+        scheduleService.createBlockedTime({
+          doctorId,
+          date: '2025-01-01',
+          endDate: '2026-06-01',
+          allDay: true,
+          reason: 'Licencia',
+        })
+      ).rejects.toThrow(ApiError);
+      expect(scheduleRepository.createBlockedTime).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if user is not a doctor', async () => {
+      // Arrange
+      (userRepository.findById as jest.Mock).mockResolvedValue({
+        ...mockDoctor,
+        role: { id: 'role-receptionist', name: 'receptionist', description: null },
+      });
+
+      // Act & Assert
+      await expect(
+        scheduleService.createBlockedTime({
+          doctorId,
+          date: '2025-07-02',
+          allDay: true,
+          reason: 'Vacaciones',
+        })
+      ).rejects.toThrow('Doctor not found');
+    });
+  });
+
+  describe('updateBlockedTime', () => {
+    it('should merge partial changes with the stored block', async () => {
+      // Arrange
+      const existing = {
+        id: 'blocked-1',
+        doctorId,
+        date: new Date(2025, 6, 2),
+        endDate: null,
+        startTime: '09:00',
+        endTime: '12:00',
+        reason: 'Congreso',
+        frequency: null,
+      };
+      (scheduleRepository.findBlockedTimeById as jest.Mock).mockResolvedValue(existing);
+      (scheduleRepository.updateBlockedTime as jest.Mock).mockImplementation(
+        async (id, data) => ({ id, ...data })
+      );
+
+      // Act
+      await scheduleService.updateBlockedTime('blocked-1', { endTime: '13:00', startTime: '09:00' });
+
+      // Assert
+      expect(scheduleRepository.updateBlockedTime).toHaveBeenCalledWith(
+        'blocked-1',
+        expect.objectContaining({
+          doctorId,
+          startTime: '09:00',
+          endTime: '13:00',
+          reason: 'Congreso',
+        })
+      );
+    });
+  });
+
+  describe('deleteWorkScheduleDay', () => {
+    it('should throw not found if the day has no schedule', async () => {
+      // Arrange
+      (scheduleRepository.findWorkScheduleDay as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(scheduleService.deleteWorkScheduleDay(doctorId, 0)).rejects.toThrow(
+        'Work schedule not found for this day'
+      );
+      expect(scheduleRepository.deleteWorkSchedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('occursOn', () => {
+    // Block days are stored at UTC midnight
+    const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+    it('should repeat biweekly blocks every other week on the same weekday', () => {
+      // Arrange
+      const block = { date: day('2025-07-07'), endDate: null, frequency: RecurrenceFrequency.BIWEEKLY };
+
+      // Act & Assert
+      expect(occursOn(block, day('2025-07-07'))).toBe(true);
+      expect(occursOn(block, day('2025-07-14'))).toBe(false);
+      expect(occursOn(block, day('2025-07-21'))).toBe(true);
+      expect(occursOn(block, day('2025-07-22'))).toBe(false);
+      expect(occursOn(block, day('2025-06-23'))).toBe(false);
+    });
+
+    it('should stop recurring blocks after their end date', () => {
+      // Arrange
+      const block = {
+        date: day('2025-07-07'),
+        endDate: day('2025-07-20'),
+        frequency: RecurrenceFrequency.BIWEEKLY,
+      };
+
+      // Act & Assert
+      expect(occursOn(block, day('2025-07-21'))).toBe(false);
+    });
+
+    it('should repeat monthly blocks on the same day of the month', () => {
+      // Arrange
+      const block = { date: day('2025-01-15'), endDate: null, frequency: RecurrenceFrequency.MONTHLY };
+
+      // Act & Assert
+      expect(occursOn(block, day('2025-02-15'))).toBe(true);
+      expect(occursOn(block, day('2025-02-14'))).toBe(false);
+      expect(occursOn(block, day('2025-02-28'))).toBe(false);
+    });
+
+    it('should move monthly blocks after the 28th to the last day of shorter months', () => {
+      // Arrange
+      const block = { date: day('2025-01-31'), endDate: null, frequency: RecurrenceFrequency.MONTHLY };
+
+      // Act & Assert
+      expect(occursOn(block, day('2025-02-28'))).toBe(true);
+      expect(occursOn(block, day('2025-04-30'))).toBe(true);
+      expect(occursOn(block, day('2025-05-31'))).toBe(true);
+      expect(occursOn(block, day('2025-05-30'))).toBe(false);
+      expect(occursOn(block, day('2028-02-29'))).toBe(true);
+      expect(occursOn(block, day('2028-02-28'))).toBe(false);
+    });
+
+    it('should match the stored day whatever the time of the checked date', () => {
+      // Arrange
+      const block = { date: day('2025-07-07'), endDate: null, frequency: RecurrenceFrequency.WEEKLY };
+
+      // Act & Assert
+      expect(occursOn(block, new Date('2025-07-14T23:30:00.000Z'))).toBe(true);
+      expect(occursOn(block, new Date('2025-07-13T23:30:00.000Z'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+import {
+  buildInvoiceXml,
+  buildIvaTax,
+  calculateModulo11,
+  generateAccessKey,
+  getIvaRateCode,
+  isValidAccessKey,
+  SRI_BUYER_IDENTIFICATION_CODES,
+} from '@utils/sri';
+import { loadPkcs12Certificate, signXades } from '@utils/xades';
+import type { SriInvoiceDocument } from '../../src/types/sri.types';
+
+/**
+ * Self-signed certificate packed as PKCS#12, like the files issued by Ecuadorian CAs
+ */
+const createPkcs12 = (password: string): Buffer => {
+  const keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '0a1b2c';
+  certificate.validity.notBefore = new Date('2026-01-01T00:00:00Z');
+  certificate.validity.notAfter = new Date('2028-01-01T00:00:00Z');
+  const attributes = [
+    { shortName: 'CN', value: 'Clinica Dental Prueba' },
+    { shortName: 'O', value: 'Soldent' },
+    { shortName: 'C', value: 'EC' },
+  ];
+  certificate.setSubject(attributes);
+  certificate.setIssuer(attributes);
+  certificate.sign(keys.privateKey, forge.md.sha256.create());
+
+  const p12 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [certificate], password, { algorithm: '3des' });
+  return Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary');
+};
+
+const buildDocument = (): SriInvoiceDocument => ({
+  environment: '1',
+  accessKey: '1510202601179001234500110010010000001231234567811',
+  issuer: {
+    ruc: '1790012345001',
+    businessName: 'Clínica Dental Soldent S.A.',
+    address: 'Av. Amazonas N34-12 & Atahualpa',
+    accountingRequired: false,
+  },
+  establishment: '001',
+  emissionPoint: '001',
+  sequence: 123,
+  issueDate: new Date('2026-10-15T15:00:00Z'),
+  buyer: {
+    identificationType: SRI_BUYER_IDENTIFICATION_CODES.CEDULA,
+    identification: '1712345678',
+    name: 'María López',
+    email: 'maria@example.com',
+  },
+  lines: [
+    {
+      code: 'PRO-001',
+      description: 'Profilaxis',
+      quantity: 1,
+      unitPrice: 40,
+      discount: 0,
+      total: 40,
+      tax: buildIvaTax(40, 0),
+    },
+    {
+      code: 'RES-002',
+      description: 'Resina <compuesta> - pieza 16',
+      quantity: 2,
+      unitPrice: 60,
+      discount: 20,
+      total: 100,
+      tax: buildIvaTax(100, 0.15),
+    },
+  ],
+  totals: {
+    subtotal: 140,
+    discount: 20,
+    taxes: [buildIvaTax(40, 0), buildIvaTax(100, 0.15)],
+    total: 155,
+  },
+  payments: [{ method: '01', amount: 155 }],
+});
+
+describe('SRI electronic invoice', () => {
+  describe('calculateModulo11', () => {
+    it('should weight digits from 2 to 7 starting from the right', () => {
+      // Act & Assert
+      expect(calculateModulo11('41261533')).toBe(6);
+    });
+
+    it('should turn 11 into 0 and 10 into 1', () => {
+      // Act & Assert
+      expect(calculateModulo11('0')).toBe(0);
+      expect(calculateModulo11('6')).toBe(1);
+    });
+  });
+
+  describe('generateAccessKey', () => {
+    it('should build a 49-digit key with its check digit', () => {
+      // Act
+      const accessKey = generateAccessKey({
+        issueDate: new Date('2026-10-15T15:00:00Z'),
+        documentType: '01',
+        ruc: '1790012345001',
+        environment: '1',
+        establishment: '001',
+        emissionPoint: '002',
+        sequence: 123,
+        numericCode: '12345678',
+      });
+
+      // Assert
+      expect(accessKey).toHaveLength(49);
+      expect(accessKey.slice(0, 48)).toBe('151020260117900123450011001002000000123123456781');
+      expect(isValidAccessKey(accessKey)).toBe(true);
+    });
+
+    it('should use the date in Ecuador', () => {
+      // Act
+      const accessKey = generateAccessKey({
+        issueDate: new Date('2026-10-16T03:00:00Z'),
+        documentType: '01',
+        ruc: '1790012345001',
+        environment: '1',
+        establishment: '001',
+        emissionPoint: '001',
+        sequence: 1,
+        numericCode: '00000001',
+      });
+
+      // Assert
+      expect(accessKey.slice(0, 8)).toBe('15102026');
+    });
+
+    it('should reject data that does not fit the key', () => {
+      // Act & Assert
+      expect(() =>
+        generateAccessKey({
+          issueDate: new Date(),
+          documentType: '01',
+          ruc: '17900123',
+          environment: '1',
+          establishment: '001',
+          emissionPoint: '001',
+          sequence: 1,
+          numericCode: '12345678',
+        })
+      ).toThrow();
+    });
+  });
+
+  describe('codes', () => {
+    it('should map identification types to buyer codes', () => {
+      // Act & Assert
+      expect(SRI_BUYER_IDENTIFICATION_CODES).toEqual({ RUC: '04', CEDULA: '05', PASAPORTE: '06' });
+    });
+
+    it('should map IVA rates to their codes', () => {
+      // Act & Assert
+      expect(getIvaRateCode(0)).toBe('0');
+      expect(getIvaRateCode(0.12)).toBe('2');
+      expect(getIvaRateCode(0.15)).toBe('4');
+      expect(getIvaRateCode(0.1)).toBeNull();
+    });
+  });
+
+  describe('buildInvoiceXml', () => {
+    it('should build the factura with tax breakdown, payments and escaped text', () => {
+      // Act
+      const xml = buildInvoiceXml(buildDocument());
+
+      // Assert
+      expect(xml).toContain('<factura id="comprobante" version="1.1.0">');
+      expect(xml).toContain('<claveAcceso>1510202601179001234500110010010000001231234567811</claveAcceso>');
+      expect(xml).toContain('<secuencial>000000123</secuencial>');
+      expect(xml).toContain('<fechaEmision>15/10/2026</fechaEmision>');
+      expect(xml).toContain('<tipoIdentificacionComprador>05</tipoIdentificacionComprador>');
+      expect(xml).toContain(
+        '<totalImpuesto><codigo>2</codigo><codigoPorcentaje>4</codigoPorcentaje>' +
+          '<baseImponible>100.00</baseImponible><valor>15.00</valor></totalImpuesto>'
+      );
+      expect(xml).toContain('<importeTotal>155.00</importeTotal>');
+      expect(xml).toContain('<pago><formaPago>01</formaPago><total>155.00</total></pago>');
+      expect(xml).toContain('<descripcion>Resina &lt;compuesta&gt; - pieza 16</descripcion>');
+      expect(xml).toContain('<campoAdicional nombre="Email">maria@example.com</campoAdicional>');
+      expect(xml.slice(xml.indexOf('<factura'))).not.toMatch(/>\s+</);
+    });
+  });
+
+  describe('signXades', () => {
+    const password = 'secreto';
+    const certificate = loadPkcs12Certificate(createPkcs12(password), password);
+
+    it('should load the key and its certificate from a PKCS#12 file', () => {
+      // Assert
+      expect(certificate.certificate.subject.getField('CN').value).toBe('Clinica Dental Prueba');
+    });
+
+    it('should append a verifiable enveloped signature to the comprobante', () => {
+      // Arrange
+      const xml = buildInvoiceXml(buildDocument());
+
+      // Act
+      const signed = signXades(xml, certificate, new Date('2026-10-15T15:00:00Z'));
+
+      // Assert
+      const signature = signed.match(/<ds:Signature [\s\S]*<\/ds:Signature>/)?.[0] ?? '';
+      expect(signed.replace(signature, '')).toBe(xml);
+      expect(signed.endsWith('</ds:Signature></factura>')).toBe(true);
+
+      const comprobanteDigest = crypto
+        .createHash('sha1')
+        .update(xml.slice(xml.indexOf('<factura')))
+        .digest('base64');
+      expect(signature).toContain(`URI="#comprobante"><ds:Transforms>`);
+      expect(signature).toContain(`<ds:DigestValue>${comprobanteDigest}</ds:DigestValue></ds:Reference></ds:SignedInfo>`);
+      expect(signature).toContain('<ds:X509SerialNumber>662316</ds:X509SerialNumber>');
+      expect(signature).toContain('<ds:X509IssuerName>C=EC,O=Soldent,CN=Clinica Dental Prueba</ds:X509IssuerName>');
+
+      const signedInfo = signature.match(/<ds:SignedInfo [\s\S]*<\/ds:SignedInfo>/)?.[0] ?? '';
+      const signatureValue = signature.match(/<ds:SignatureValue [^>]*>([^<]*)</)?.[1] ?? '';
+      const canonicalSignedInfo = signedInfo.replace(
+        '<ds:SignedInfo ',
+        '<ds:SignedInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#" xmlns:etsi="http://uri.etsi.org/01903/v1.3.2#" '
+      );
+      const verified = crypto.verify(
+        'sha1',
+        Buffer.from(canonicalSignedInfo, 'utf8'),
+        forge.pki.certificateToPem(certificate.certificate),
+        Buffer.from(signatureValue, 'base64')
+      );
+      expect(verified).toBe(true);
+    });
+  });
+});
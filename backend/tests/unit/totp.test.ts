@@ -0,0 +1,48 @@
+import { buildOtpAuthUri, generateCode, generateSecret, verifyCode } from '@utils/totp';
+
+describe('TOTP', () => {
+  // RFC 6238 test secret ("12345678901234567890" in base32)
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('generateCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(generateCode(rfcSecret, 59 * 1000)).toBe('287082');
+      expect(generateCode(rfcSecret, 1111111109 * 1000)).toBe('081804');
+      expect(generateCode(rfcSecret, 1234567890 * 1000)).toBe('005924');
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should accept the current code and codes within the drift window', () => {
+      // Arrange
+      const secret = generateSecret();
+      const now = Date.now();
+
+      // Act & Assert
+      expect(verifyCode(secret, generateCode(secret, now))).not.toBeNull();
+      expect(verifyCode(secret, generateCode(secret, now - 30 * 1000))).not.toBeNull();
+    });
+
+    it('should reject codes outside the drift window or malformed codes', () => {
+      // Arrange
+      const secret = generateSecret();
+
+      // Act & Assert
+      expect(verifyCode(secret, generateCode(secret, Date.now() - 5 * 60 * 1000))).toBeNull();
+      expect(verifyCode(secret, '12345')).toBeNull();
+      expect(verifyCode(secret, 'abcdef')).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUri', () => {
+    it('should include the issuer and account in the label', () => {
+      // Act
+      const uri = buildOtpAuthUri('ABC', 'ana@soldent.com', 'Soldent');
+
+      // Assert
+      expect(uri.startsWith('otpauth://totp/Soldent%3Aana%40soldent.com?')).toBe(true);
+      expect(uri).toContain('secret=ABC');
+      expect(uri).toContain('issuer=Soldent');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { TreatmentPlanStatus } from '@prisma/client';
+import { prisma } from '@config/database';
+import { medicalService } from '@services/medical.service';
+import { medicalRepository } from '@repositories/medical.repository';
+import { consentService } from '@services/consent.service';
+import {
+  calculateLineTotal,
+  calculateQuoteTotals,
+  canTransitionTreatmentPlan,
+  sumLineTotals,
+} from '@utils/treatmentPlan';
+
+// Mock dependencies
+jest.mock('@config/database', () => ({
+  prisma: { $transaction: jest.fn() },
+}));
+jest.mock('@repositories/medical.repository');
+jest.mock('@services/consent.service');
+jest.mock('@utils/logger');
+
+describe('Treatment plan rules', () => {
+  describe('calculateLineTotal', () => {
+    it('should multiply quantity by unit price and subtract the discount', () => {
+      // Act
+      const total = calculateLineTotal(3, 33.33, 10);
+
+      // Assert
+      expect(total).toBe(89.99);
+    });
+
+    it('should sum line totals rounded to cents', () => {
+      // Act
+      const total = sumLineTotals([{ total: 0.1 }, { total: 0.2 }, { total: 45 }]);
+
+      // Assert
+      expect(total).toBe(45.3);
+    });
+  });
+
+  describe('calculateQuoteTotals', () => {
+    const items = [
+      { quantity: 1, unitPrice: 50, discount: 0, total: 50 },
+      { quantity: 2, unitPrice: 60, discount: 20, total: 100 },
+    ];
+
+    it('should not charge tax when dental services are exempt', () => {
+      // Act
+      const totals = calculateQuoteTotals(items, { rate: 0.15, appliesToServices: false });
+
+      // Assert
+      expect(totals).toEqual({ subtotal: 170, discount: 20, taxableBase: 150, taxRate: 0, tax: 0, total: 150 });
+    });
+
+    it('should charge tax over the discounted amount', () => {
+      // Act
+      const totals = calculateQuoteTotals(items, { rate: 0.15, appliesToServices: true });
+
+      // Assert
+      expect(totals.tax).toBe(22.5);
+      expect(totals.total).toBe(172.5);
+    });
+  });
+
+  describe('canTransitionTreatmentPlan', () => {
+    it('should follow draft, pending approval, approved or rejected', () => {
+      // Assert
+      expect(canTransitionTreatmentPlan(TreatmentPlanStatus.DRAFT, TreatmentPlanStatus.PENDING_APPROVAL)).toBe(true);
+      expect(canTransitionTreatmentPlan(TreatmentPlanStatus.PENDING_APPROVAL, TreatmentPlanStatus.APPROVED)).toBe(true);
+      expect(canTransitionTreatmentPlan(TreatmentPlanStatus.PENDING_APPROVAL, TreatmentPlanStatus.REJECTED)).toBe(true);
+    });
+
+    it('should not skip approval or reopen a rejected plan', () => {
+      // Assert
+      expect(canTransitionTreatmentPlan(TreatmentPlanStatus.DRAFT, TreatmentPlanStatus.APPROVED)).toBe(false);
+      expect(canTransitionTreatmentPlan(TreatmentPlanStatus.REJECTED, TreatmentPlanStatus.APPROVED)).toBe(false);
+      expect(canTransitionTreatmentPlan(TreatmentPlanStatus.APPROVED, TreatmentPlanStatus.REJECTED)).toBe(false);
+    });
+  });
+});
+
+describe('MedicalService treatment plans', () => {
+  const plan = (status: TreatmentPlanStatus) => ({
+    id: 'plan-1',
+    patientId: 'patient-1',
+    doctorId: 'doctor-1',
+    title: 'Plan de rehabilitación',
+    totalCost: 300,
+    status,
+    phases: [],
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('updateTreatmentPlan', () => {
+    it.each([TreatmentPlanStatus.PENDING_APPROVAL, TreatmentPlanStatus.APPROVED, TreatmentPlanStatus.REJECTED])(
+      'should reject any change to a %s plan',
+      async (status) => {
+        // Arrange
+        (medicalRepository.findTreatmentPlanById as jest.Mock).mockResolvedValue(plan(status));
+
+        // Act & Assert
+        await expect(medicalService.updateTreatmentPlan('plan-1', { title: 'Nuevo título' })).rejects.toThrow(
+          'Only draft treatment plans can be modified'
+        );
+        expect(medicalRepository.updateTreatmentPlan).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should reject the change if the plan left draft meanwhile', async () => {
+      // Arrange
+      (medicalRepository.findTreatmentPlanById as jest.Mock).mockResolvedValue(plan(TreatmentPlanStatus.DRAFT));
+      (medicalRepository.updateTreatmentPlan as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(medicalService.updateTreatmentPlan('plan-1', { title: 'Nuevo título' })).rejects.toThrow(
+        'Treatment plan status changed, please reload'
+      );
+      expect(medicalRepository.findTreatmentPlanQuoteParties).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveTreatmentPlan', () => {
+    const firstDueDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    beforeEach(() => {
+      (medicalRepository.findTreatmentPlanById as jest.Mock).mockResolvedValue(
+        plan(TreatmentPlanStatus.PENDING_APPROVAL)
+      );
+      (consentService.assertTreatmentPlanConsents as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should create the payment plan in the approval transaction', async () => {
+      // Arrange
+      (medicalRepository.approveTreatmentPlan as jest.Mock).mockResolvedValue({
+        plan: plan(TreatmentPlanStatus.APPROVED),
+        treatments: [],
+        paymentPlanId: 'payment-plan-1',
+      });
+
+      // Act
+      const result = await medicalService.approveTreatmentPlan('plan-1', 'doctor-1', {
+        paymentPlan: { totalInstallments: 3, firstDueDate, frequency: 'MONTHLY' },
+      });
+
+      // Assert
+      expect(medicalRepository.approveTreatmentPlan).toHaveBeenCalledWith('plan-1', 'doctor-1', {
+        data: expect.objectContaining({ patientId: 'patient-1', treatmentPlanId: 'plan-1', totalAmount: 300 }),
+        installments: [
+          expect.objectContaining({ number: 1, amount: 100 }),
+          expect.objectContaining({ number: 2, amount: 100 }),
+          expect.objectContaining({ number: 3, amount: 100 }),
+        ],
+      });
+      expect(result.paymentPlanId).toBe('payment-plan-1');
+    });
+
+    it('should not approve the plan with an invalid payment plan', async () => {
+      // Act & Assert
+      await expect(
+        medicalService.approveTreatmentPlan('plan-1', 'doctor-1', {
+          paymentPlan: { totalInstallments: 3, firstDueDate: '2020-01-01', frequency: 'MONTHLY' },
+        })
+      ).rejects.toThrow('First due date cannot be in the past');
+      expect(medicalRepository.approveTreatmentPlan).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('MedicalRepository.updateTreatmentPlan', () => {
+  const { medicalRepository: repository } = jest.requireActual('@repositories/medical.repository');
+
+  const tx = {
+    treatmentPlan: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+    treatmentPlanPhase: { deleteMany: jest.fn(), create: jest.fn() },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+  });
+
+  it('should leave phases untouched when the plan is no longer a draft', async () => {
+    // Arrange
+    tx.treatmentPlan.updateMany.mockResolvedValue({ count: 0 });
+
+    // Act
+    const result = await repository.updateTreatmentPlan('plan-1', { title: 'Nuevo título' }, []);
+
+    // Assert
+    expect(result).toBeNull();
+    expect(tx.treatmentPlan.updateMany).toHaveBeenCalledWith({
+      where: { id: 'plan-1', status: TreatmentPlanStatus.DRAFT },
+      data: { title: 'Nuevo título', totalCost: 0 },
+    });
+    expect(tx.treatmentPlanPhase.deleteMany).not.toHaveBeenCalled();
+    expect(tx.treatmentPlanPhase.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,94 @@
+import { TreatmentPlanStatus } from '@prisma/client';
+import { groupItemsByTooth, renderTreatmentPlanQuotePdf } from '@utils/treatmentPlanQuote';
+import type { TreatmentPlanItemResponse, TreatmentPlanQuote } from '../../src/types/medical.types';
+
+const buildItem = (
+  sequence: number,
+  toothNumber: string | null,
+  overrides: Partial<TreatmentPlanItemResponse> = {}
+): TreatmentPlanItemResponse => ({
+  id: `item-${sequence}`,
+  phaseId: 'phase-1',
+  sequence,
+  catalogId: 'catalog-1',
+  toothNumber,
+  surfaces: [],
+  quantity: 1,
+  unitPrice: 50,
+  discount: 0,
+  total: 50,
+  notes: null,
+  treatmentId: null,
+  catalog: { id: 'catalog-1', code: 'RES-001', name: 'Restauración con resina', category: 'Restauraciones' },
+  ...overrides,
+});
+
+const buildQuote = (items: TreatmentPlanItemResponse[]): TreatmentPlanQuote => ({
+  plan: {
+    id: 'a1b2c3d4-0000-0000-0000-000000000000',
+    patientId: 'patient-1',
+    doctorId: 'doctor-1',
+    title: 'Plan de rehabilitación',
+    description: 'Restauraciones',
+    totalCost: 150,
+    status: TreatmentPlanStatus.DRAFT,
+    pdfUrl: null,
+    submittedAt: null,
+    approvedAt: null,
+    approvedById: null,
+    rejectedAt: null,
+    rejectionReason: null,
+    createdAt: new Date('2025-03-15T10:00:00.000Z'),
+    updatedAt: new Date('2025-03-15T10:00:00.000Z'),
+    phases: [{ id: 'phase-1', sequence: 1, name: 'Restauraciones', description: null, total: 150, items }],
+  },
+  patient: {
+    firstName: 'Ana',
+    lastName: 'Pérez',
+    identification: '1710034065',
+    identificationType: 'CEDULA',
+    phone: '+593999999999',
+    email: null,
+    address: null,
+  },
+  doctor: { firstName: 'Luis', lastName: 'Mora' },
+  clinic: { name: 'Clínica Odontológica', ruc: '1790000000001' },
+  totals: { subtotal: 170, discount: 20, taxableBase: 150, taxRate: 0, tax: 0, total: 150 },
+  currency: 'USD',
+  issuedAt: new Date('2025-03-15T10:00:00.000Z'),
+  validUntil: new Date('2025-04-14T10:00:00.000Z'),
+});
+
+describe('Treatment plan quote', () => {
+  it('should group procedures by tooth in FDI order', () => {
+    // Arrange
+    const quote = buildQuote([
+      buildItem(1, '26', { surfaces: ['O', 'M'] }),
+      buildItem(2, null),
+      buildItem(3, '16'),
+      buildItem(4, '26', { catalog: { id: 'catalog-2', code: 'END-001', name: 'Endodoncia', category: 'Endodoncia' } }),
+    ]);
+
+    // Act
+    const teeth = groupItemsByTooth(quote);
+
+    // Assert
+    expect(teeth).toEqual([
+      { toothNumber: '16', procedures: ['RES-001 - Restauración con resina'] },
+      {
+        toothNumber: '26',
+        procedures: ['RES-001 - Restauración con resina (O, M)', 'END-001 - Endodoncia'],
+      },
+    ]);
+  });
+
+  it('should render a PDF document', async () => {
+    // Act
+    const pdf = await renderTreatmentPlanQuotePdf(
+      buildQuote([buildItem(1, '16'), buildItem(2, '26', { quantity: 2, unitPrice: 60, discount: 20, total: 100 })])
+    );
+
+    // Assert
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
@@ -0,0 +1,188 @@
+import bcrypt from 'bcryptjs';
+import { userService } from '@services/user.service';
+import { userRepository } from '@repositories/user.repository';
+import { authRepository } from '@repositories/auth.repository';
+import { ApiError } from '@utils/ApiError';
+
+// Mock dependencies
+jest.mock('bcryptjs');
+jest.mock('@repositories/user.repository', () => ({
+  DOCTOR_ROLE: 'doctor',
+  userRepository: {
+    findById: jest.fn(),
+    findDoctors: jest.fn(),
+    softDelete: jest.fn(),
+    reactivate: jest.fn(),
+    updatePassword: jest.fn(),
+    countUpcomingAppointments: jest.fn(),
+  },
+}));
+jest.mock('@repositories/auth.repository');
+jest.mock('@utils/logger');
+
+describe('UserService', () => {
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+  const userId = '123e4567-e89b-12d3-a456-426614174001';
+
+  const mockDoctor = {
+    id: userId,
+    email: 'doctor@example.com',
+    firstName: 'Ana',
+    lastName: 'Torres',
+    isActive: true,
+    deletedAt: null,
+    twoFactorEnabled: false,
+    role: { id: 'role-doctor', name: 'doctor', description: null },
+  };
+
+  const mockReceptionist = {
+    ...mockDoctor,
+    email: 'recepcion@example.com',
+    role: { id: 'role-receptionist', name: 'receptionist', description: null },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (userRepository.findById as jest.Mock).mockResolvedValue(mockDoctor);
+    (userRepository.countUpcomingAppointments as jest.Mock).mockResolvedValue(0);
+  });
+
+  describe('getDoctors', () => {
+    it('should return the active doctors', async () => {
+      // Arrange
+      const doctors = [{ id: userId, firstName: 'Ana', lastName: 'Torres', email: mockDoctor.email }];
+      (userRepository.findDoctors as jest.Mock).mockResolvedValue(doctors);
+
+      // Act
+      const result = await userService.getDoctors();
+
+      // Assert
+      expect(result).toEqual(doctors);
+    });
+
+    it('should throw internal error if the query fails', async () => {
+      // Arrange
+      (userRepository.findDoctors as jest.Mock).mockRejectedValue(new Error('Connection lost'));
+
+      // Act & Assert
+      await expect(userService.getDoctors()).rejects.toThrow(
+        ApiError.internal('Failed to fetch doctors')
+      );
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should soft delete the user and revoke all of its sessions', async () => {
+      // Act
+      await userService.deleteUser(userId, adminId);
+
+      // Assert
+      expect(userRepository.countUpcomingAppointments).toHaveBeenCalledWith(userId);
+      expect(userRepository.softDelete).toHaveBeenCalledWith(userId);
+      expect(authRepository.revokeAllRefreshTokens).toHaveBeenCalledWith(userId);
+    });
+
+    it('should reject deleting a doctor with upcoming appointments', async () => {
+      // Arrange
+      (userRepository.countUpcomingAppointments as jest.Mock).mockResolvedValue(3);
+
+      // Act & Assert
+      await expect(userService.deleteUser(userId, adminId)).rejects.toThrow(
+        'Cannot delete a doctor with upcoming appointments'
+      );
+      expect(userRepository.softDelete).not.toHaveBeenCalled();
+      expect(authRepository.revokeAllRefreshTokens).not.toHaveBeenCalled();
+    });
+
+    it('should not check appointments of users that are not doctors', async () => {
+      // Arrange
+      (userRepository.findById as jest.Mock).mockResolvedValue(mockReceptionist);
+
+      // Act
+      await userService.deleteUser(userId, adminId);
+
+      // Assert
+      expect(userRepository.countUpcomingAppointments).not.toHaveBeenCalled();
+      expect(userRepository.softDelete).toHaveBeenCalledWith(userId);
+    });
+
+    it('should reject deleting your own account', async () => {
+      // Act & Assert
+      await expect(userService.deleteUser(adminId, adminId)).rejects.toThrow(
+        ApiError.badRequest('You cannot delete your own account')
+      );
+      expect(userRepository.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('should throw not found error if user does not exist', async () => {
+      // Arrange
+      (userRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(userService.deleteUser(userId, adminId)).rejects.toThrow(
+        ApiError.notFound('User not found')
+      );
+      expect(userRepository.softDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reactivateUser', () => {
+    it('should reactivate a soft-deleted user', async () => {
+      // Arrange
+      const deleted = { ...mockDoctor, isActive: false, deletedAt: new Date() };
+      (userRepository.findById as jest.Mock).mockResolvedValue(deleted);
+      (userRepository.reactivate as jest.Mock).mockResolvedValue(mockDoctor);
+
+      // Act
+      const result = await userService.reactivateUser(userId, adminId);
+
+      // Assert
+      expect(userRepository.findById).toHaveBeenCalledWith(userId, true);
+      expect(userRepository.reactivate).toHaveBeenCalledWith(userId);
+      expect(result).toEqual(mockDoctor);
+    });
+
+    it('should reject reactivating an active user', async () => {
+      // Act & Assert
+      await expect(userService.reactivateUser(userId, adminId)).rejects.toThrow(
+        ApiError.badRequest('User is already active')
+      );
+      expect(userRepository.reactivate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetUserPassword', () => {
+    it('should store the new hashed password and revoke all sessions', async () => {
+      // Arrange
+      (bcrypt.hash as jest.Mock).mockResolvedValue('hashed-password');
+
+      // Act
+      await userService.resetUserPassword(userId, 'NewPassword123!', adminId);
+
+      // Assert
+      expect(bcrypt.hash).toHaveBeenCalledWith('NewPassword123!', expect.any(Number));
+      expect(userRepository.updatePassword).toHaveBeenCalledWith(userId, 'hashed-password');
+      expect(authRepository.revokeAllRefreshTokens).toHaveBeenCalledWith(userId);
+    });
+
+    it('should reject resetting your own password', async () => {
+      // Act & Assert
+      await expect(
+        userService.resetUserPassword(adminId, 'NewPassword123!', adminId)
+      ).rejects.toThrow(ApiError);
+      expect(userRepository.updatePassword).not.toHaveBeenCalled();
+      expect(authRepository.revokeAllRefreshTokens).not.toHaveBeenCalled();
+    });
+
+    it('should throw not found error if user does not exist', async () => {
+      // Arrange
+      (userRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        userService.resetUserPassword(userId, 'NewPassword123!', adminId)
+      ).rejects.toThrow(ApiError.notFound('User not found'));
+      expect(authRepository.revokeAllRefreshTokens).not.toHaveBeenCalled();
+    });
+  });
+});
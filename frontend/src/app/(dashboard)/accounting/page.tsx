@@ -16,6 +16,9 @@ import {
   FileText,
   AlertCircle,
   TrendingUp,
+  Send,
+  Ban,
+  Trash2,
 } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
@@ -35,7 +38,6 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
-import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import {
@@ -51,132 +53,30 @@ import { CreateInvoiceDialog } from '@/components/accounting/CreateInvoiceDialog
 import { EditInvoiceDialog } from '@/components/accounting/EditInvoiceDialog'
 import { ViewInvoiceDialog } from '@/components/accounting/ViewInvoiceDialog'
 import { MarkAsPaidDialog } from '@/components/accounting/MarkAsPaidDialog'
+import { VoidInvoiceDialog } from '@/components/accounting/VoidInvoiceDialog'
+import {
+  InvoiceStatusBadge,
+  SriStatusBadge,
+  getInvoiceDisplayStatus,
+} from '@/components/accounting/InvoiceStatusBadge'
 
+import { useInvoices } from '@/hooks/useInvoices'
 import { formatCurrency } from '@/lib/utils'
-import { InvoiceStatus } from '@/types'
-
-// Mock data types
-interface InvoiceListItem {
-  id: string
-  invoiceNumber: string
-  patientId: string
-  patientName: string
-  date: string
-  dueDate: string
-  subtotal: number
-  tax: number
-  total: number
-  status: InvoiceStatus
-  amountPaid: number
-}
-
-// Mock data
-const mockInvoices: InvoiceListItem[] = [
-  {
-    id: '1',
-    invoiceNumber: 'INV-2024-001',
-    patientId: '1',
-    patientName: 'María González',
-    date: '2024-01-15',
-    dueDate: '2024-02-15',
-    subtotal: 150.00,
-    tax: 18.00,
-    total: 168.00,
-    status: InvoiceStatus.PAID,
-    amountPaid: 168.00,
-  },
-  {
-    id: '2',
-    invoiceNumber: 'INV-2024-002',
-    patientId: '2',
-    patientName: 'Juan Pérez',
-    date: '2024-01-20',
-    dueDate: '2024-02-20',
-    subtotal: 250.00,
-    tax: 30.00,
-    total: 280.00,
-    status: InvoiceStatus.PENDING,
-    amountPaid: 0,
-  },
-  {
-    id: '3',
-    invoiceNumber: 'INV-2024-003',
-    patientId: '3',
-    patientName: 'Ana Martínez',
-    date: '2024-01-10',
-    dueDate: '2024-01-25',
-    subtotal: 180.00,
-    tax: 21.60,
-    total: 201.60,
-    status: InvoiceStatus.OVERDUE,
-    amountPaid: 0,
-  },
-  {
-    id: '4',
-    invoiceNumber: 'INV-2024-004',
-    patientId: '4',
-    patientName: 'Carlos Rodríguez',
-    date: '2024-01-22',
-    dueDate: '2024-02-22',
-    subtotal: 300.00,
-    tax: 36.00,
-    total: 336.00,
-    status: InvoiceStatus.PARTIALLY_PAID,
-    amountPaid: 150.00,
-  },
-  {
-    id: '5',
-    invoiceNumber: 'INV-2024-005',
-    patientId: '5',
-    patientName: 'Laura Sánchez',
-    date: '2024-01-25',
-    dueDate: '2024-02-25',
-    subtotal: 120.00,
-    tax: 14.40,
-    total: 134.40,
-    status: InvoiceStatus.PENDING,
-    amountPaid: 0,
-  },
-]
-
-// Status configuration
-const invoiceStatusConfig = {
-  [InvoiceStatus.DRAFT]: {
-    label: 'Borrador',
-    variant: 'secondary' as const,
-    className: 'bg-gray-100 text-gray-800',
-  },
-  [InvoiceStatus.PENDING]: {
-    label: 'Pendiente',
-    variant: 'default' as const,
-    className: 'bg-yellow-100 text-yellow-800',
-  },
-  [InvoiceStatus.PAID]: {
-    label: 'Pagada',
-    variant: 'default' as const,
-    className: 'bg-green-100 text-green-800',
-  },
-  [InvoiceStatus.PARTIALLY_PAID]: {
-    label: 'Pago Parcial',
-    variant: 'default' as const,
-    className: 'bg-blue-100 text-blue-800',
-  },
-  [InvoiceStatus.OVERDUE]: {
-    label: 'Vencida',
-    variant: 'destructive' as const,
-    className: 'bg-red-100 text-red-800',
-  },
-  [InvoiceStatus.CANCELLED]: {
-    label: 'Cancelada',
-    variant: 'secondary' as const,
-    className: 'bg-gray-100 text-gray-800',
-  },
-}
+import { INVOICE_STATUS_LABELS } from '@/constants'
+import { InvoiceStatus, SriStatus, type Invoice } from '@/types'
 
 export default function AccountingPage() {
   // State
-  const [loading, setLoading] = useState(true)
-  const [invoices, setInvoices] = useState<InvoiceListItem[]>([])
+  const {
+    invoices,
+    total,
+    loading,
+    fetchInvoices,
+    issueInvoice,
+    voidInvoice,
+    submitInvoiceToSri,
+    deleteInvoice,
+  } = useInvoices()
   const [searchQuery, setSearchQuery] = useState('')
   const [filterStatus, setFilterStatus] = useState<string>('all')
   const [searchInput, setSearchInput] = useState('')
@@ -186,16 +86,8 @@ export default function AccountingPage() {
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [viewDialogOpen, setViewDialogOpen] = useState(false)
   const [markAsPaidDialogOpen, setMarkAsPaidDialogOpen] = useState(false)
-  const [selectedInvoice, setSelectedInvoice] = useState<InvoiceListItem | null>(null)
-
-  // Simulate loading data
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setInvoices(mockInvoices)
-      setLoading(false)
-    }, 1000)
-    return () => clearTimeout(timer)
-  }, [])
+  const [voidDialogOpen, setVoidDialogOpen] = useState(false)
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null)
 
   // Debounced search
   useEffect(() => {
@@ -214,14 +106,19 @@ export default function AccountingPage() {
       const query = searchQuery.toLowerCase()
       filtered = filtered.filter(
         (inv) =>
-          inv.invoiceNumber.toLowerCase().includes(query) ||
-          inv.patientName.toLowerCase().includes(query)
+          inv.number?.includes(query) ||
+          `${inv.patient.firstName} ${inv.patient.lastName}`.toLowerCase().includes(query) ||
+          inv.patient.identification.includes(query)
       )
     }
 
-    // Status filter
+    // Status filter (overdue is derived from the due date)
     if (filterStatus && filterStatus !== 'all') {
-      filtered = filtered.filter((inv) => inv.status === filterStatus)
+      filtered = filtered.filter((inv) =>
+        filterStatus === 'OVERDUE'
+          ? getInvoiceDisplayStatus(inv) === 'OVERDUE'
+          : inv.status === filterStatus
+      )
     }
 
     return filtered
@@ -233,66 +130,64 @@ export default function AccountingPage() {
     const currentYear = new Date().getFullYear()
 
     const monthlyInvoices = invoices.filter((inv) => {
-      const invDate = new Date(inv.date)
+      if (!inv.issueDate) return false
+      const invDate = new Date(inv.issueDate)
       return invDate.getMonth() === currentMonth && invDate.getFullYear() === currentYear
     })
 
-    const monthlyIncome = monthlyInvoices
-      .filter((inv) => inv.status === InvoiceStatus.PAID)
-      .reduce((sum, inv) => sum + inv.total, 0)
+    const monthlyIncome = monthlyInvoices.reduce((sum, inv) => sum + inv.paidAmount, 0)
 
     const pendingInvoices = invoices.filter(
-      (inv) => inv.status === InvoiceStatus.PENDING || inv.status === InvoiceStatus.PARTIALLY_PAID
+      (inv) => inv.status === InvoiceStatus.ISSUED || inv.status === InvoiceStatus.PARTIALLY_PAID
     )
 
-    const overdueInvoices = invoices.filter((inv) => inv.status === InvoiceStatus.OVERDUE)
+    const overdueInvoices = pendingInvoices.filter((inv) => getInvoiceDisplayStatus(inv) === 'OVERDUE')
 
-    const totalCollected = invoices.reduce((sum, inv) => sum + inv.amountPaid, 0)
+    const totalCollected = invoices.reduce((sum, inv) => sum + inv.paidAmount, 0)
 
     return {
       monthlyIncome,
       pendingCount: pendingInvoices.length,
-      pendingAmount: pendingInvoices.reduce((sum, inv) => sum + (inv.total - inv.amountPaid), 0),
+      pendingAmount: pendingInvoices.reduce((sum, inv) => sum + inv.balance, 0),
       overdueCount: overdueInvoices.length,
-      overdueAmount: overdueInvoices.reduce((sum, inv) => sum + inv.total, 0),
+      overdueAmount: overdueInvoices.reduce((sum, inv) => sum + inv.balance, 0),
       totalCollected,
     }
   }, [invoices])
 
   // Dialog handlers
-  const handleView = (invoice: InvoiceListItem) => {
+  const handleView = (invoice: Invoice) => {
     setSelectedInvoice(invoice)
     setViewDialogOpen(true)
   }
 
-  const handleEdit = (invoice: InvoiceListItem) => {
+  const handleEdit = (invoice: Invoice) => {
     setSelectedInvoice(invoice)
     setEditDialogOpen(true)
   }
 
-  const handleMarkAsPaid = (invoice: InvoiceListItem) => {
+  const handleMarkAsPaid = (invoice: Invoice) => {
     setSelectedInvoice(invoice)
     setMarkAsPaidDialogOpen(true)
   }
 
-  const handlePrint = (invoice: InvoiceListItem) => {
+  const handleVoid = (invoice: Invoice) => {
+    setSelectedInvoice(invoice)
+    setVoidDialogOpen(true)
+  }
+
+  const handlePrint = (invoice: Invoice) => {
     // Placeholder for print functionality
-    console.log('Print invoice:', invoice.invoiceNumber)
-    alert(`Función de impresión para ${invoice.invoiceNumber} - Por implementar`)
+    alert(`Función de impresión para ${invoice.number} - Por implementar`)
   }
 
-  const handleExportPDF = (invoice: InvoiceListItem) => {
+  const handleExportPDF = (invoice: Invoice) => {
     // Placeholder for PDF export
-    console.log('Export PDF:', invoice.invoiceNumber)
-    alert(`Exportar PDF para ${invoice.invoiceNumber} - Por implementar`)
+    alert(`Exportar PDF para ${invoice.number} - Por implementar`)
   }
 
   const handleRefresh = () => {
-    setLoading(true)
-    setTimeout(() => {
-      setInvoices(mockInvoices)
-      setLoading(false)
-    }, 500)
+    fetchInvoices()
   }
 
   return (
@@ -447,11 +342,11 @@ export default function AccountingPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">Todos los estados</SelectItem>
-                <SelectItem value={InvoiceStatus.PENDING}>Pendiente</SelectItem>
-                <SelectItem value={InvoiceStatus.PAID}>Pagada</SelectItem>
-                <SelectItem value={InvoiceStatus.PARTIALLY_PAID}>Pago Parcial</SelectItem>
-                <SelectItem value={InvoiceStatus.OVERDUE}>Vencida</SelectItem>
-                <SelectItem value={InvoiceStatus.CANCELLED}>Cancelada</SelectItem>
+                {[...Object.values(InvoiceStatus), 'OVERDUE'].map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {INVOICE_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -540,39 +435,44 @@ export default function AccountingPage() {
               </TableHeader>
               <TableBody>
                 {filteredInvoices.map((invoice) => {
-                  const statusConfig = invoiceStatusConfig[invoice.status]
-                  const isPending = invoice.status === InvoiceStatus.PENDING ||
-                                   invoice.status === InvoiceStatus.PARTIALLY_PAID ||
-                                   invoice.status === InvoiceStatus.OVERDUE
+                  const isDraft = invoice.status === InvoiceStatus.DRAFT
+                  const isPending = invoice.status === InvoiceStatus.ISSUED ||
+                                   invoice.status === InvoiceStatus.PARTIALLY_PAID
+                  const canVoid = invoice.status === InvoiceStatus.ISSUED && invoice.paidAmount === 0
+                  const canSubmitToSri = !isDraft && invoice.status !== InvoiceStatus.VOID &&
+                                         invoice.sriStatus !== SriStatus.AUTHORIZED
 
                   return (
                     <TableRow key={invoice.id}>
                       <TableCell className="font-medium">
-                        {invoice.invoiceNumber}
+                        {invoice.number ?? <span className="text-gray-400">Borrador</span>}
                       </TableCell>
-                      <TableCell>{invoice.patientName}</TableCell>
                       <TableCell>
-                        {format(new Date(invoice.date), 'dd/MM/yyyy')}
+                        {invoice.patient.firstName} {invoice.patient.lastName}
                       </TableCell>
                       <TableCell>
-                        {format(new Date(invoice.dueDate), 'dd/MM/yyyy')}
+                        {invoice.issueDate ? format(new Date(invoice.issueDate), 'dd/MM/yyyy') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {invoice.dueDate ? format(new Date(invoice.dueDate), 'dd/MM/yyyy') : '-'}
                       </TableCell>
                       <TableCell>
                         <div>
                           <div className="font-medium">
                             {formatCurrency(invoice.total)}
                           </div>
-                          {invoice.amountPaid > 0 && invoice.amountPaid < invoice.total && (
+                          {invoice.paidAmount > 0 && invoice.balance > 0 && (
                             <div className="text-xs text-gray-500">
-                              Pagado: {formatCurrency(invoice.amountPaid)}
+                              Pagado: {formatCurrency(invoice.paidAmount)}
                             </div>
                           )}
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge className={statusConfig.className}>
-                          {statusConfig.label}
-                        </Badge>
+                        <div className="flex flex-col items-start gap-1">
+                          <InvoiceStatusBadge invoice={invoice} />
+                          <SriStatusBadge invoice={invoice} />
+                        </div>
                       </TableCell>
                       <TableCell className="text-right">
                         <DropdownMenu>
@@ -588,18 +488,43 @@ export default function AccountingPage() {
                               <Eye className="h-4 w-4 mr-2" />
                               Ver Detalles
                             </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleEdit(invoice)}>
-                              <Edit className="h-4 w-4 mr-2" />
-                              Editar
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handlePrint(invoice)}>
-                              <Printer className="h-4 w-4 mr-2" />
-                              Imprimir
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleExportPDF(invoice)}>
-                              <Download className="h-4 w-4 mr-2" />
-                              Exportar PDF
-                            </DropdownMenuItem>
+                            {isDraft && (
+                              <>
+                                <DropdownMenuItem onClick={() => handleEdit(invoice)}>
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Editar
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => issueInvoice(invoice.id)}>
+                                  <Send className="h-4 w-4 mr-2" />
+                                  Emitir
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => deleteInvoice(invoice.id)}
+                                  className="text-red-600 focus:text-red-600"
+                                >
+                                  <Trash2 className="h-4 w-4 mr-2" />
+                                  Eliminar Borrador
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            {!isDraft && (
+                              <>
+                                <DropdownMenuItem onClick={() => handlePrint(invoice)}>
+                                  <Printer className="h-4 w-4 mr-2" />
+                                  Imprimir
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleExportPDF(invoice)}>
+                                  <Download className="h-4 w-4 mr-2" />
+                                  Exportar PDF
+                                </DropdownMenuItem>
+                                {canSubmitToSri && (
+                                  <DropdownMenuItem onClick={() => submitInvoiceToSri(invoice.id)}>
+                                    <Send className="h-4 w-4 mr-2" />
+                                    Enviar al SRI
+                                  </DropdownMenuItem>
+                                )}
+                              </>
+                            )}
                             {isPending && (
                               <>
                                 <DropdownMenuSeparator />
@@ -608,10 +533,19 @@ export default function AccountingPage() {
                                   className="text-green-600 focus:text-green-600"
                                 >
                                   <CheckCircle className="h-4 w-4 mr-2" />
-                                  Marcar como Pagada
+                                  Registrar Pago
                                 </DropdownMenuItem>
                               </>
                             )}
+                            {canVoid && (
+                              <DropdownMenuItem
+                                onClick={() => handleVoid(invoice)}
+                                className="text-red-600 focus:text-red-600"
+                              >
+                                <Ban className="h-4 w-4 mr-2" />
+                                Anular
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -624,7 +558,7 @@ export default function AccountingPage() {
             {/* Results Summary */}
             <div className="px-6 py-4 border-t">
               <div className="text-sm text-gray-600">
-                Mostrando {filteredInvoices.length} de {invoices.length} facturas
+                Mostrando {filteredInvoices.length} de {total} facturas
               </div>
             </div>
           </>
@@ -657,6 +591,13 @@ export default function AccountingPage() {
         onOpenChange={setMarkAsPaidDialogOpen}
         onSuccess={handleRefresh}
       />
+
+      <VoidInvoiceDialog
+        invoice={selectedInvoice}
+        open={voidDialogOpen}
+        onOpenChange={setVoidDialogOpen}
+        onVoid={voidInvoice}
+      />
     </div>
   )
 }
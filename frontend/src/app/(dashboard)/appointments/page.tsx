@@ -34,6 +34,7 @@ import {
 } from '@/components/ui/popover'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useAppointments } from '@/hooks/useAppointments'
+import { useDoctors, getDoctorName } from '@/hooks/useDoctors'
 import { CreateAppointmentDialog } from '@/components/appointments/CreateAppointmentDialog'
 import { EditAppointmentDialog } from '@/components/appointments/EditAppointmentDialog'
 import { ViewAppointmentDialog } from '@/components/appointments/ViewAppointmentDialog'
@@ -65,11 +66,7 @@ export default function AppointmentsPage() {
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null)
 
-  // Mock doctors list - replace with actual API
-  const doctors = [
-    { id: 1, name: 'Dr. Carlos Mendoza' },
-    { id: 2, name: 'Dra. Ana Martínez' },
-  ]
+  const { doctors } = useDoctors()
 
   // Filter appointments based on view mode and filters
   const filteredAppointments = useMemo(() => {
@@ -108,7 +105,7 @@ export default function AppointmentsPage() {
 
     // Doctor filter
     if (filterDoctor && filterDoctor !== 'all') {
-      filtered = filtered.filter((apt) => apt.doctorId.toString() === filterDoctor)
+      filtered = filtered.filter((apt) => apt.doctorId === filterDoctor)
     }
 
     // Status filter
@@ -415,8 +412,8 @@ export default function AppointmentsPage() {
               <SelectContent>
                 <SelectItem value="all">Todos los doctores</SelectItem>
                 {doctors.map((doctor) => (
-                  <SelectItem key={doctor.id} value={doctor.id.toString()}>
-                    {doctor.name}
+                  <SelectItem key={doctor.id} value={doctor.id}>
+                    {getDoctorName(doctor)}
                   </SelectItem>
                 ))}
               </SelectContent>
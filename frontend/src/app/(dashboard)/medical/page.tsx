@@ -17,7 +17,9 @@ import {
   Trash2,
   ChevronDown,
   ChevronUp,
+  PenLine,
 } from 'lucide-react'
+import { toast } from 'sonner'
 
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -52,6 +54,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { CreateMedicalRecordDialog } from '@/components/medical/CreateMedicalRecordDialog'
 import { ViewMedicalRecordDialog } from '@/components/medical/ViewMedicalRecordDialog'
 import { EditMedicalRecordDialog } from '@/components/medical/EditMedicalRecordDialog'
+import { OdontogramEditor } from '@/components/odontogram'
+import { PatientConsents } from '@/components/consents'
+import { patientsApi } from '@/lib/api/patients.api'
+import type { PatientSummary } from '@/types'
 
 // Types
 interface Patient {
@@ -85,11 +91,6 @@ interface Prescription {
   instructions?: string
 }
 
-interface ToothCondition {
-  status: 'healthy' | 'caries' | 'filled' | 'missing' | 'crown' | 'root_canal' | 'extraction_needed'
-  notes?: string
-}
-
 // Mock data
 const mockPatients: Patient[] = [
   { id: '1', firstName: 'Juan', lastName: 'Pérez', identificationNumber: '0987654321' },
@@ -144,17 +145,6 @@ const mockRecords: MedicalRecord[] = [
   },
 ]
 
-// Tooth status colors
-const toothStatusConfig = {
-  healthy: { color: 'bg-green-100 border-green-500', label: 'Sano', icon: '✓' },
-  caries: { color: 'bg-red-100 border-red-500', label: 'Caries', icon: '●' },
-  filled: { color: 'bg-blue-100 border-blue-500', label: 'Obturado', icon: '■' },
-  missing: { color: 'bg-gray-200 border-gray-400', label: 'Ausente', icon: '✕' },
-  crown: { color: 'bg-yellow-100 border-yellow-500', label: 'Corona', icon: '◆' },
-  root_canal: { color: 'bg-purple-100 border-purple-500', label: 'Endodoncia', icon: '▼' },
-  extraction_needed: { color: 'bg-orange-100 border-orange-500', label: 'A extraer', icon: '!' },
-}
-
 export default function MedicalRecordsPage() {
   const [loading, setLoading] = useState(false)
   const [records, setRecords] = useState<MedicalRecord[]>(mockRecords)
@@ -171,9 +161,11 @@ export default function MedicalRecordsPage() {
   const [filterDate, setFilterDate] = useState('all')
   const [expandedRecords, setExpandedRecords] = useState<Set<string>>(new Set())
 
-  // Odontogram state (adult dentition - 32 teeth)
-  const [odontogramData, setOdontogramData] = useState<Record<string, ToothCondition>>({})
-  const [selectedTooth, setSelectedTooth] = useState<string | null>(null)
+  // Patient picker (odontogram and consents tabs)
+  const [patientQuery, setPatientQuery] = useState('')
+  const [patientResults, setPatientResults] = useState<PatientSummary[]>([])
+  const [searchingPatients, setSearchingPatients] = useState(false)
+  const [selectedPatient, setSelectedPatient] = useState<PatientSummary | null>(null)
 
   // Filter records
   const filteredRecords = useMemo(() => {
@@ -240,155 +232,51 @@ export default function MedicalRecordsPage() {
     }
   }
 
-  const handleToothClick = (toothNumber: string) => {
-    setSelectedTooth(toothNumber)
-  }
-
-  const handleToothStatusChange = (status: ToothCondition['status']) => {
-    if (selectedTooth) {
-      setOdontogramData({
-        ...odontogramData,
-        [selectedTooth]: { status },
-      })
+  const handlePatientSearch = async () => {
+    setSearchingPatients(true)
+    try {
+      setPatientResults(await patientsApi.search(patientQuery))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al buscar pacientes')
+    } finally {
+      setSearchingPatients(false)
     }
   }
 
-  // Odontogram component
-  const Odontogram = () => {
-    // Adult dentition FDI notation: 11-18, 21-28, 31-38, 41-48
-    const quadrants = [
-      { name: 'Superior Derecho', teeth: ['18', '17', '16', '15', '14', '13', '12', '11'] },
-      { name: 'Superior Izquierdo', teeth: ['21', '22', '23', '24', '25', '26', '27', '28'] },
-      { name: 'Inferior Izquierdo', teeth: ['31', '32', '33', '34', '35', '36', '37', '38'] },
-      { name: 'Inferior Derecho', teeth: ['48', '47', '46', '45', '44', '43', '42', '41'] },
-    ]
-
-    const renderTooth = (toothNumber: string) => {
-      const condition = odontogramData[toothNumber] || { status: 'healthy' }
-      const config = toothStatusConfig[condition.status]
-      const isSelected = selectedTooth === toothNumber
-
-      return (
-        <div
-          key={toothNumber}
-          onClick={() => handleToothClick(toothNumber)}
-          className={`
-            relative cursor-pointer transition-all duration-200
-            w-12 h-16 rounded-md border-2 flex flex-col items-center justify-center
-            hover:scale-110 hover:shadow-lg
-            ${config.color}
-            ${isSelected ? 'ring-4 ring-blue-500 scale-110' : ''}
-          `}
-        >
-          <span className="text-xs font-semibold text-gray-700">{toothNumber}</span>
-          {condition.status !== 'healthy' && (
-            <span className="text-2xl font-bold text-gray-700">{config.icon}</span>
-          )}
-        </div>
-      )
-    }
-
-    return (
-      <div className="space-y-6">
-        {/* Upper teeth */}
-        <div className="space-y-4">
-          <div className="grid grid-cols-2 gap-8">
-            {/* Upper right */}
-            <div>
-              <h4 className="text-sm font-medium text-gray-700 mb-2 text-center">
-                {quadrants[0].name}
-              </h4>
-              <div className="flex justify-center gap-1">
-                {quadrants[0].teeth.map(renderTooth)}
-              </div>
-            </div>
-            {/* Upper left */}
-            <div>
-              <h4 className="text-sm font-medium text-gray-700 mb-2 text-center">
-                {quadrants[1].name}
-              </h4>
-              <div className="flex justify-center gap-1">
-                {quadrants[1].teeth.map(renderTooth)}
-              </div>
-            </div>
-          </div>
-        </div>
-
-        {/* Divider */}
-        <div className="border-t-2 border-gray-300" />
-
-        {/* Lower teeth */}
-        <div className="space-y-4">
-          <div className="grid grid-cols-2 gap-8">
-            {/* Lower left */}
-            <div>
-              <div className="flex justify-center gap-1">
-                {quadrants[2].teeth.map(renderTooth)}
-              </div>
-              <h4 className="text-sm font-medium text-gray-700 mt-2 text-center">
-                {quadrants[2].name}
-              </h4>
-            </div>
-            {/* Lower right */}
-            <div>
-              <div className="flex justify-center gap-1">
-                {quadrants[3].teeth.map(renderTooth)}
-              </div>
-              <h4 className="text-sm font-medium text-gray-700 mt-2 text-center">
-                {quadrants[3].name}
-              </h4>
-            </div>
-          </div>
+  const patientPicker = (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Buscar paciente por nombre o identificación..."
+            value={patientQuery}
+            onChange={(e) => setPatientQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handlePatientSearch()}
+            className="pl-10"
+          />
         </div>
-
-        {/* Legend */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-sm">Leyenda</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              {Object.entries(toothStatusConfig).map(([status, config]) => (
-                <div key={status} className="flex items-center gap-2">
-                  <div className={`w-8 h-8 rounded border-2 flex items-center justify-center ${config.color}`}>
-                    <span className="text-sm font-bold">{config.icon}</span>
-                  </div>
-                  <span className="text-sm text-gray-700">{config.label}</span>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Tooth status selector */}
-        {selectedTooth && (
-          <Card className="border-blue-500">
-            <CardHeader>
-              <CardTitle className="text-sm">
-                Pieza Dental {selectedTooth}
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-                {Object.entries(toothStatusConfig).map(([status, config]) => (
-                  <Button
-                    key={status}
-                    variant={odontogramData[selectedTooth]?.status === status ? 'default' : 'outline'}
-                    size="sm"
-                    onClick={() => handleToothStatusChange(status as ToothCondition['status'])}
-                    className="text-xs"
-                  >
-                    <span className="mr-1">{config.icon}</span>
-                    {config.label}
-                  </Button>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        )}
+        <Button variant="outline" onClick={handlePatientSearch} disabled={searchingPatients}>
+          Buscar
+        </Button>
       </div>
-    )
-  }
+      {patientResults.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {patientResults.map((patient) => (
+            <Button
+              key={patient.id}
+              size="sm"
+              variant={selectedPatient?.id === patient.id ? 'default' : 'outline'}
+              onClick={() => setSelectedPatient(patient)}
+            >
+              <User className="h-4 w-4 mr-2" />
+              {patient.firstName} {patient.lastName} · {patient.identification}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
 
   return (
     <div className="space-y-6">
@@ -408,7 +296,7 @@ export default function MedicalRecordsPage() {
 
       {/* Tabs */}
       <Tabs value={selectedTab} onValueChange={setSelectedTab}>
-        <TabsList className="grid w-full max-w-md grid-cols-2">
+        <TabsList className="grid w-full max-w-lg grid-cols-3">
           <TabsTrigger value="records">
             <FileText className="h-4 w-4 mr-2" />
             Registros
@@ -417,6 +305,10 @@ export default function MedicalRecordsPage() {
             <Stethoscope className="h-4 w-4 mr-2" />
             Odontograma
           </TabsTrigger>
+          <TabsTrigger value="consents">
+            <PenLine className="h-4 w-4 mr-2" />
+            Consentimientos
+          </TabsTrigger>
         </TabsList>
 
         {/* Records Tab */}
@@ -700,11 +592,42 @@ export default function MedicalRecordsPage() {
             <CardHeader>
               <CardTitle>Odontograma Dental Interactivo</CardTitle>
               <p className="text-sm text-muted-foreground">
-                Haga clic en cualquier pieza dental para registrar su estado
+                Seleccione un paciente y haga clic en cualquier pieza dental para registrar su estado
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {patientPicker}
+
+              {selectedPatient ? (
+                <OdontogramEditor key={selectedPatient.id} patientId={selectedPatient.id} />
+              ) : (
+                <p className="text-center text-muted-foreground py-8">
+                  Seleccione un paciente para ver su odontograma
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Consents Tab */}
+        <TabsContent value="consents" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Consentimientos Informados</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Seleccione un paciente para ver sus consentimientos firmados o recoger uno nuevo
               </p>
             </CardHeader>
-            <CardContent>
-              <Odontogram />
+            <CardContent className="space-y-6">
+              {patientPicker}
+
+              {selectedPatient ? (
+                <PatientConsents key={selectedPatient.id} patientId={selectedPatient.id} />
+              ) : (
+                <p className="text-center text-muted-foreground py-8">
+                  Seleccione un paciente para ver sus consentimientos
+                </p>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import { toast } from 'sonner'
 import {
   Dialog,
   DialogContent,
@@ -8,7 +9,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { InvoiceForm } from '@/components/accounting/InvoiceForm'
+import { InvoiceForm, type InvoiceFormData } from '@/components/accounting/InvoiceForm'
+import { accountingApi } from '@/lib/api/accounting.api'
 
 interface CreateInvoiceDialogProps {
   open: boolean
@@ -19,16 +21,20 @@ interface CreateInvoiceDialogProps {
 export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInvoiceDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
 
-  const handleSubmit = async (data: any) => {
+  const handleSubmit = async (data: InvoiceFormData) => {
     setIsSubmitting(true)
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      console.log('Create invoice:', data)
+      await accountingApi.createInvoice({
+        patientId: data.patientId,
+        dueDate: data.dueDate?.toISOString(),
+        notes: data.notes || undefined,
+        items: data.items,
+      })
+      toast.success('Borrador de factura creado')
       onOpenChange(false)
       onSuccess?.()
     } catch (error) {
-      console.error('Error creating invoice:', error)
+      toast.error(error instanceof Error ? error.message : 'Error al crear la factura')
     } finally {
       setIsSubmitting(false)
     }
@@ -44,10 +50,13 @@ export function CreateInvoiceDialog({ open, onOpenChange, onSuccess }: CreateInv
         <DialogHeader>
           <DialogTitle>Nueva Factura</DialogTitle>
           <DialogDescription>
-            Complete la información de la factura. Los campos marcados con * son obligatorios.
+            La factura se guarda como borrador y recibe su número al emitirla. Los campos marcados
+            con * son obligatorios.
           </DialogDescription>
         </DialogHeader>
-        <InvoiceForm onSubmit={handleSubmit} onCancel={handleCancel} isSubmitting={isSubmitting} />
+        {open && (
+          <InvoiceForm onSubmit={handleSubmit} onCancel={handleCancel} isSubmitting={isSubmitting} />
+        )}
       </DialogContent>
     </Dialog>
   )
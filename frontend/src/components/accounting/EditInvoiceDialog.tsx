@@ -1,6 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
+import { toast } from 'sonner'
 import {
   Dialog,
   DialogContent,
@@ -8,28 +9,38 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { InvoiceForm } from '@/components/accounting/InvoiceForm'
+import { InvoiceForm, type InvoiceFormData } from '@/components/accounting/InvoiceForm'
+import { accountingApi } from '@/lib/api/accounting.api'
+import type { Invoice } from '@/types'
 
 interface EditInvoiceDialogProps {
-  invoice: any
+  invoice: Invoice | null
   open: boolean
   onOpenChange: (open: boolean) => void
   onSuccess?: () => void
 }
 
+/**
+ * Edit a draft invoice; issued invoices can only be voided
+ */
 export function EditInvoiceDialog({ invoice, open, onOpenChange, onSuccess }: EditInvoiceDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
 
-  const handleSubmit = async (data: any) => {
+  const handleSubmit = async (data: InvoiceFormData) => {
+    if (!invoice) return
+
     setIsSubmitting(true)
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      console.log('Update invoice:', data)
+      await accountingApi.updateInvoice(invoice.id, {
+        dueDate: data.dueDate?.toISOString() ?? null,
+        notes: data.notes || null,
+        items: data.items,
+      })
+      toast.success('Factura actualizada')
       onOpenChange(false)
       onSuccess?.()
     } catch (error) {
-      console.error('Error updating invoice:', error)
+      toast.error(error instanceof Error ? error.message : 'Error al actualizar la factura')
     } finally {
       setIsSubmitting(false)
     }
@@ -41,41 +52,24 @@ export function EditInvoiceDialog({ invoice, open, onOpenChange, onSuccess }: Ed
 
   if (!invoice) return null
 
-  // Convert invoice data to form format
-  const initialData = {
-    patientId: invoice.patientId,
-    patientName: invoice.patientName,
-    date: new Date(invoice.date),
-    dueDate: new Date(invoice.dueDate),
-    items: [
-      {
-        id: '1',
-        description: 'Servicio dental',
-        quantity: 1,
-        unitPrice: invoice.subtotal,
-        total: invoice.subtotal,
-      },
-    ],
-    notes: '',
-    paymentMethod: 'cash' as any,
-    status: invoice.status,
-  }
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Editar Factura - {invoice.invoiceNumber}</DialogTitle>
+          <DialogTitle>Editar Borrador</DialogTitle>
           <DialogDescription>
             Modifique la información de la factura. Los campos marcados con * son obligatorios.
           </DialogDescription>
         </DialogHeader>
-        <InvoiceForm
-          initialData={initialData}
-          onSubmit={handleSubmit}
-          onCancel={handleCancel}
-          isSubmitting={isSubmitting}
-        />
+        {open && (
+          <InvoiceForm
+            key={invoice.id}
+            invoice={invoice}
+            onSubmit={handleSubmit}
+            onCancel={handleCancel}
+            isSubmitting={isSubmitting}
+          />
+        )}
       </DialogContent>
     </Dialog>
   )
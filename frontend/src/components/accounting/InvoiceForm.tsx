@@ -3,19 +3,14 @@
 import { useState, useEffect, useMemo } from 'react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
+import { toast } from 'sonner'
 import { CalendarIcon, Plus, Trash2, Search } from 'lucide-react'
 
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Calendar } from '@/components/ui/calendar'
 import {
   Popover,
@@ -24,111 +19,106 @@ import {
 } from '@/components/ui/popover'
 import { cn } from '@/lib/utils'
 import { formatCurrency } from '@/lib/utils'
-import { PaymentMethod, InvoiceStatus } from '@/types'
-
-const TAX_RATE = 0.12 // 12% tax rate for Ecuador
+import { patientsApi } from '@/lib/api/patients.api'
+import type { Invoice, InvoiceItemData, PatientSummary } from '@/types'
 
-interface InvoiceItem {
+interface InvoiceFormItem {
   id: string
+  treatmentId?: string
+  catalogId?: string
   description: string
   quantity: number
   unitPrice: number
+  discount: number
+  taxable: boolean
   total: number
 }
 
-interface InvoiceFormData {
+export interface InvoiceFormData {
   patientId: string
-  patientName: string
-  date: Date
-  dueDate: Date
-  items: InvoiceItem[]
+  dueDate?: Date
+  items: InvoiceItemData[]
   notes: string
-  paymentMethod: PaymentMethod
-  status: InvoiceStatus
 }
 
-// Mock patients data
-const mockPatients = [
-  { id: '1', name: 'María González', identification: '1234567890' },
-  { id: '2', name: 'Juan Pérez', identification: '0987654321' },
-  { id: '3', name: 'Ana Martínez', identification: '1122334455' },
-  { id: '4', name: 'Carlos Rodríguez', identification: '5544332211' },
-  { id: '5', name: 'Laura Sánchez', identification: '6677889900' },
-]
-
 interface InvoiceFormProps {
-  initialData?: Partial<InvoiceFormData>
+  /** Draft being edited */
+  invoice?: Invoice
   onSubmit: (data: InvoiceFormData) => Promise<void>
   onCancel: () => void
   isSubmitting: boolean
 }
 
-export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: InvoiceFormProps) {
+const emptyItem = (): InvoiceFormItem => ({
+  id: Date.now().toString(),
+  description: '',
+  quantity: 1,
+  unitPrice: 0,
+  discount: 0,
+  taxable: false,
+  total: 0,
+})
+
+/**
+ * Draft invoice form. Tax is applied by the server with the clinic rate when saving;
+ * the number is assigned when the invoice is issued
+ */
+export function InvoiceForm({ invoice, onSubmit, onCancel, isSubmitting }: InvoiceFormProps) {
   // Form state
-  const [patientSearch, setPatientSearch] = useState('')
-  const [selectedPatient, setSelectedPatient] = useState<{ id: string; name: string } | null>(
-    initialData?.patientId && initialData?.patientName
-      ? { id: initialData.patientId, name: initialData.patientName }
-      : null
+  const [patientSearch, setPatientSearch] = useState(
+    invoice ? `${invoice.patient.firstName} ${invoice.patient.lastName}` : ''
   )
-  const [date, setDate] = useState<Date>(initialData?.date || new Date())
-  const [dueDate, setDueDate] = useState<Date>(
-    initialData?.dueDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+  const [selectedPatient, setSelectedPatient] = useState<PatientSummary | null>(
+    invoice?.patient ?? null
   )
-  const [items, setItems] = useState<InvoiceItem[]>(
-    initialData?.items || [
-      {
-        id: '1',
-        description: '',
-        quantity: 1,
-        unitPrice: 0,
-        total: 0,
-      },
-    ]
+  const [patientResults, setPatientResults] = useState<PatientSummary[]>([])
+  const [dueDate, setDueDate] = useState<Date | undefined>(
+    invoice?.dueDate ? new Date(invoice.dueDate) : undefined
   )
-  const [notes, setNotes] = useState(initialData?.notes || '')
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>(
-    initialData?.paymentMethod || PaymentMethod.CASH
-  )
-  const [status, setStatus] = useState<InvoiceStatus>(
-    initialData?.status || InvoiceStatus.PENDING
+  const [items, setItems] = useState<InvoiceFormItem[]>(
+    invoice?.items.map((item) => ({
+      id: item.id,
+      treatmentId: item.treatmentId ?? undefined,
+      catalogId: item.treatmentId ? undefined : item.catalogId ?? undefined,
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      taxable: item.taxable,
+      total: item.total,
+    })) || [emptyItem()]
   )
+  const [notes, setNotes] = useState(invoice?.notes || '')
   const [showPatientDropdown, setShowPatientDropdown] = useState(false)
 
-  // Filter patients based on search
-  const filteredPatients = useMemo(() => {
-    if (!patientSearch) return mockPatients
-    const search = patientSearch.toLowerCase()
-    return mockPatients.filter(
-      (p) =>
-        p.name.toLowerCase().includes(search) ||
-        p.identification.includes(search)
-    )
-  }, [patientSearch])
+  // Search patients (debounced)
+  useEffect(() => {
+    if (invoice || !showPatientDropdown) return
+
+    const timer = setTimeout(() => {
+      patientsApi
+        .search(patientSearch)
+        .then(setPatientResults)
+        .catch(() => setPatientResults([]))
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [invoice, patientSearch, showPatientDropdown])
 
-  // Calculate totals
+  // Calculate totals before tax
   const calculations = useMemo(() => {
-    const subtotal = items.reduce((sum, item) => sum + item.total, 0)
-    const tax = subtotal * TAX_RATE
-    const total = subtotal + tax
+    const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+    const discount = items.reduce((sum, item) => sum + item.discount, 0)
 
     return {
       subtotal,
-      tax,
-      total,
+      discount,
+      net: subtotal - discount,
     }
   }, [items])
 
   // Add new item
   const handleAddItem = () => {
-    const newItem: InvoiceItem = {
-      id: Date.now().toString(),
-      description: '',
-      quantity: 1,
-      unitPrice: 0,
-      total: 0,
-    }
-    setItems([...items, newItem])
+    setItems([...items, emptyItem()])
   }
 
   // Remove item
@@ -139,15 +129,19 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
   }
 
   // Update item field
-  const handleUpdateItem = (id: string, field: keyof InvoiceItem, value: any) => {
+  const handleUpdateItem = <K extends keyof InvoiceFormItem>(
+    id: string,
+    field: K,
+    value: InvoiceFormItem[K]
+  ) => {
     setItems(
       items.map((item) => {
         if (item.id === id) {
           const updated = { ...item, [field]: value }
 
-          // Recalculate total when quantity or unitPrice changes
-          if (field === 'quantity' || field === 'unitPrice') {
-            updated.total = updated.quantity * updated.unitPrice
+          // Recalculate total when quantity, unitPrice or discount changes
+          if (field === 'quantity' || field === 'unitPrice' || field === 'discount') {
+            updated.total = updated.quantity * updated.unitPrice - updated.discount
           }
 
           return updated
@@ -158,9 +152,9 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
   }
 
   // Select patient
-  const handleSelectPatient = (patient: { id: string; name: string }) => {
+  const handleSelectPatient = (patient: PatientSummary) => {
     setSelectedPatient(patient)
-    setPatientSearch(patient.name)
+    setPatientSearch(`${patient.firstName} ${patient.lastName}`)
     setShowPatientDropdown(false)
   }
 
@@ -169,24 +163,33 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
     e.preventDefault()
 
     if (!selectedPatient) {
-      alert('Por favor seleccione un paciente')
+      toast.error('Por favor seleccione un paciente')
       return
     }
 
     if (items.some((item) => !item.description || item.quantity <= 0 || item.unitPrice <= 0)) {
-      alert('Por favor complete todos los items de la factura')
+      toast.error('Por favor complete todos los items de la factura')
+      return
+    }
+
+    if (items.some((item) => item.total < 0)) {
+      toast.error('El descuento no puede superar el valor del item')
       return
     }
 
     const formData: InvoiceFormData = {
       patientId: selectedPatient.id,
-      patientName: selectedPatient.name,
-      date,
       dueDate,
-      items,
+      items: items.map((item) => ({
+        treatmentId: item.treatmentId,
+        catalogId: item.catalogId,
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+        taxable: item.taxable,
+      })),
       notes,
-      paymentMethod,
-      status,
     }
 
     await onSubmit(formData)
@@ -210,19 +213,20 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
               }}
               onFocus={() => setShowPatientDropdown(true)}
               className="pl-10"
+              disabled={!!invoice}
               required
             />
           </div>
-          {showPatientDropdown && filteredPatients.length > 0 && (
+          {showPatientDropdown && patientResults.length > 0 && (
             <div className="absolute z-50 w-full mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-auto">
-              {filteredPatients.map((patient) => (
+              {patientResults.map((patient) => (
                 <button
                   key={patient.id}
                   type="button"
                   className="w-full px-4 py-2 text-left hover:bg-gray-100 focus:bg-gray-100 focus:outline-none"
                   onClick={() => handleSelectPatient(patient)}
                 >
-                  <div className="font-medium">{patient.name}</div>
+                  <div className="font-medium">{patient.firstName} {patient.lastName}</div>
                   <div className="text-sm text-gray-500">{patient.identification}</div>
                 </button>
               ))}
@@ -231,62 +235,44 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
         </div>
         {selectedPatient && (
           <p className="text-sm text-gray-600">
-            Paciente seleccionado: <span className="font-medium">{selectedPatient.name}</span>
+            Paciente seleccionado:{' '}
+            <span className="font-medium">
+              {selectedPatient.firstName} {selectedPatient.lastName}
+            </span>
           </p>
         )}
       </div>
 
-      {/* Dates */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {/* Invoice Date */}
-        <div className="space-y-2">
-          <Label>Fecha de Factura *</Label>
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                className={cn(
-                  'w-full justify-start text-left font-normal',
-                  !date && 'text-muted-foreground'
-                )}
-              >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {date ? format(date, 'PPP', { locale: es }) : <span>Seleccionar fecha</span>}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0" align="start">
-              <Calendar mode="single" selected={date} onSelect={(d) => d && setDate(d)} initialFocus />
-            </PopoverContent>
-          </Popover>
-        </div>
-
-        {/* Due Date */}
-        <div className="space-y-2">
-          <Label>Fecha de Vencimiento *</Label>
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                className={cn(
-                  'w-full justify-start text-left font-normal',
-                  !dueDate && 'text-muted-foreground'
-                )}
-              >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {dueDate ? format(dueDate, 'PPP', { locale: es }) : <span>Seleccionar fecha</span>}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0" align="start">
-              <Calendar
-                mode="single"
-                selected={dueDate}
-                onSelect={(d) => d && setDueDate(d)}
-                initialFocus
-                disabled={(date) => date < new Date()}
-              />
-            </PopoverContent>
-          </Popover>
-        </div>
+      {/* Due Date */}
+      <div className="space-y-2">
+        <Label>Fecha de Vencimiento</Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              className={cn(
+                'w-full justify-start text-left font-normal md:w-1/2',
+                !dueDate && 'text-muted-foreground'
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {dueDate ? (
+                format(dueDate, 'PPP', { locale: es })
+              ) : (
+                <span>Se calcula al emitir la factura</span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={dueDate}
+              onSelect={setDueDate}
+              initialFocus
+              disabled={(date) => date < new Date()}
+            />
+          </PopoverContent>
+        </Popover>
       </div>
 
       {/* Invoice Items */}
@@ -320,8 +306,8 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
                     />
                   </div>
 
-                  {/* Quantity, Unit Price, Total */}
-                  <div className="grid grid-cols-3 gap-3">
+                  {/* Quantity, Unit Price, Discount, Total */}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                     <div>
                       <Label htmlFor={`quantity-${item.id}`} className="text-sm">
                         Cantidad
@@ -354,6 +340,21 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
                         required
                       />
                     </div>
+                    <div>
+                      <Label htmlFor={`discount-${item.id}`} className="text-sm">
+                        Descuento (USD)
+                      </Label>
+                      <Input
+                        id={`discount-${item.id}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={item.discount}
+                        onChange={(e) =>
+                          handleUpdateItem(item.id, 'discount', parseFloat(e.target.value) || 0)
+                        }
+                      />
+                    </div>
                     <div>
                       <Label htmlFor={`total-${item.id}`} className="text-sm">
                         Subtotal
@@ -367,6 +368,20 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
                       />
                     </div>
                   </div>
+
+                  {/* Taxable */}
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`taxable-${item.id}`}
+                      checked={item.taxable}
+                      onCheckedChange={(checked) =>
+                        handleUpdateItem(item.id, 'taxable', checked === true)
+                      }
+                    />
+                    <Label htmlFor={`taxable-${item.id}`} className="text-sm font-normal">
+                      Grava IVA
+                    </Label>
+                  </div>
                 </div>
 
                 {/* Remove button */}
@@ -393,51 +408,19 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
           <span className="text-gray-600">Subtotal:</span>
           <span className="font-medium">{formatCurrency(calculations.subtotal)}</span>
         </div>
-        <div className="flex justify-between text-sm">
-          <span className="text-gray-600">IVA (12%):</span>
-          <span className="font-medium">{formatCurrency(calculations.tax)}</span>
-        </div>
+        {calculations.discount > 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Descuentos:</span>
+            <span className="font-medium">-{formatCurrency(calculations.discount)}</span>
+          </div>
+        )}
         <div className="flex justify-between text-lg font-bold border-t pt-2">
-          <span>Total:</span>
-          <span>{formatCurrency(calculations.total)}</span>
-        </div>
-      </div>
-
-      {/* Payment Method and Status */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {/* Payment Method */}
-        <div className="space-y-2">
-          <Label htmlFor="paymentMethod">Método de Pago *</Label>
-          <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
-            <SelectTrigger id="paymentMethod">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value={PaymentMethod.CASH}>Efectivo</SelectItem>
-              <SelectItem value={PaymentMethod.CREDIT_CARD}>Tarjeta de Crédito</SelectItem>
-              <SelectItem value={PaymentMethod.DEBIT_CARD}>Tarjeta de Débito</SelectItem>
-              <SelectItem value={PaymentMethod.BANK_TRANSFER}>Transferencia Bancaria</SelectItem>
-              <SelectItem value={PaymentMethod.CHECK}>Cheque</SelectItem>
-              <SelectItem value={PaymentMethod.INSURANCE}>Seguro</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Status */}
-        <div className="space-y-2">
-          <Label htmlFor="status">Estado de Pago *</Label>
-          <Select value={status} onValueChange={(value) => setStatus(value as InvoiceStatus)}>
-            <SelectTrigger id="status">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value={InvoiceStatus.DRAFT}>Borrador</SelectItem>
-              <SelectItem value={InvoiceStatus.PENDING}>Pendiente</SelectItem>
-              <SelectItem value={InvoiceStatus.PAID}>Pagada</SelectItem>
-              <SelectItem value={InvoiceStatus.PARTIALLY_PAID}>Pago Parcial</SelectItem>
-            </SelectContent>
-          </Select>
+          <span>Total sin impuestos:</span>
+          <span>{formatCurrency(calculations.net)}</span>
         </div>
+        <p className="text-xs text-gray-500">
+          El IVA de los items gravados se calcula con la tarifa vigente al guardar
+        </p>
       </div>
 
       {/* Notes */}
@@ -458,7 +441,7 @@ export function InvoiceForm({ initialData, onSubmit, onCancel, isSubmitting }: I
           Cancelar
         </Button>
         <Button type="submit" disabled={isSubmitting}>
-          {isSubmitting ? 'Guardando...' : initialData ? 'Actualizar Factura' : 'Crear Factura'}
+          {isSubmitting ? 'Guardando...' : invoice ? 'Actualizar Borrador' : 'Crear Borrador'}
         </Button>
       </div>
     </form>
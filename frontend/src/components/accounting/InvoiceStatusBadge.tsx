@@ -0,0 +1,35 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { INVOICE_STATUS_COLORS, INVOICE_STATUS_LABELS, SRI_STATUS_COLORS, SRI_STATUS_LABELS } from '@/constants'
+import { InvoiceStatus, type Invoice } from '@/types'
+
+/**
+ * Status shown for an invoice: unpaid invoices past their due date are overdue
+ */
+export function getInvoiceDisplayStatus(invoice: Pick<Invoice, 'status' | 'dueDate'>): string {
+  const unpaid = invoice.status === InvoiceStatus.ISSUED || invoice.status === InvoiceStatus.PARTIALLY_PAID
+  if (unpaid && invoice.dueDate && new Date(invoice.dueDate) < new Date()) {
+    return 'OVERDUE'
+  }
+  return invoice.status
+}
+
+export function InvoiceStatusBadge({ invoice }: { invoice: Pick<Invoice, 'status' | 'dueDate'> }) {
+  const status = getInvoiceDisplayStatus(invoice)
+
+  return <Badge className={INVOICE_STATUS_COLORS[status]}>{INVOICE_STATUS_LABELS[status]}</Badge>
+}
+
+/**
+ * Electronic invoice status, hidden until the invoice is sent to the SRI
+ */
+export function SriStatusBadge({ invoice }: { invoice: Pick<Invoice, 'sriStatus' | 'sriMessages'> }) {
+  if (!invoice.sriStatus) return null
+
+  return (
+    <Badge variant="outline" className={SRI_STATUS_COLORS[invoice.sriStatus]} title={invoice.sriMessages?.[0]?.message}>
+      {SRI_STATUS_LABELS[invoice.sriStatus]}
+    </Badge>
+  )
+}
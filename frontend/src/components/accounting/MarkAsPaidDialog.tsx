@@ -1,8 +1,9 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
+import { toast } from 'sonner'
 import { CalendarIcon, DollarSign } from 'lucide-react'
 
 import {
@@ -32,15 +33,20 @@ import {
 } from '@/components/ui/popover'
 import { cn } from '@/lib/utils'
 import { formatCurrency } from '@/lib/utils'
-import { PaymentMethod, InvoiceStatus } from '@/types'
+import { accountingApi } from '@/lib/api/accounting.api'
+import { PAYMENT_METHOD_LABELS } from '@/constants'
+import { PaymentMethod, type Invoice } from '@/types'
 
 interface MarkAsPaidDialogProps {
-  invoice: any
+  invoice: Invoice | null
   open: boolean
   onOpenChange: (open: boolean) => void
   onSuccess?: () => void
 }
 
+/**
+ * Record a payment allocated to an issued invoice (partial or full)
+ */
 export function MarkAsPaidDialog({ invoice, open, onOpenChange, onSuccess }: MarkAsPaidDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [paymentDate, setPaymentDate] = useState<Date>(new Date())
@@ -49,6 +55,17 @@ export function MarkAsPaidDialog({ invoice, open, onOpenChange, onSuccess }: Mar
   const [transactionId, setTransactionId] = useState('')
   const [notes, setNotes] = useState('')
 
+  // Reset form with the pending balance when dialog opens
+  useEffect(() => {
+    if (open && invoice) {
+      setAmount(invoice.balance.toFixed(2))
+      setPaymentDate(new Date())
+      setPaymentMethod(PaymentMethod.CASH)
+      setTransactionId('')
+      setNotes('')
+    }
+  }, [open, invoice])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -56,32 +73,32 @@ export function MarkAsPaidDialog({ invoice, open, onOpenChange, onSuccess }: Mar
 
     const paymentAmount = parseFloat(amount)
     if (isNaN(paymentAmount) || paymentAmount <= 0) {
-      alert('Por favor ingrese un monto válido')
+      toast.error('Por favor ingrese un monto válido')
       return
     }
 
-    const remainingAmount = invoice.total - invoice.amountPaid
-    if (paymentAmount > remainingAmount) {
-      alert(`El monto no puede ser mayor al saldo pendiente (${formatCurrency(remainingAmount)})`)
+    if (paymentAmount > invoice.balance) {
+      toast.error(`El monto no puede ser mayor al saldo pendiente (${formatCurrency(invoice.balance)})`)
       return
     }
 
     setIsSubmitting(true)
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      console.log('Register payment:', {
+      await accountingApi.createPayment({
+        patientId: invoice.patientId,
         invoiceId: invoice.id,
         amount: paymentAmount,
-        method: paymentMethod,
-        transactionId,
-        date: paymentDate,
-        notes,
+        paymentMethod,
+        date: paymentDate.toISOString(),
+        concept: `Abono factura ${invoice.number}`,
+        receiptNumber: transactionId || undefined,
+        notes: notes || undefined,
       })
+      toast.success('Pago registrado')
       onOpenChange(false)
       onSuccess?.()
     } catch (error) {
-      console.error('Error registering payment:', error)
+      toast.error(error instanceof Error ? error.message : 'Error al registrar el pago')
     } finally {
       setIsSubmitting(false)
     }
@@ -89,28 +106,16 @@ export function MarkAsPaidDialog({ invoice, open, onOpenChange, onSuccess }: Mar
 
   if (!invoice) return null
 
-  const remainingAmount = invoice.total - invoice.amountPaid
+  const remainingAmount = invoice.balance
   const isFullPayment = parseFloat(amount) === remainingAmount
 
-  // Reset form when dialog opens
-  const handleOpenChange = (open: boolean) => {
-    if (open) {
-      setAmount(remainingAmount.toFixed(2))
-      setPaymentDate(new Date())
-      setPaymentMethod(PaymentMethod.CASH)
-      setTransactionId('')
-      setNotes('')
-    }
-    onOpenChange(open)
-  }
-
   return (
-    <Dialog open={open} onOpenChange={handleOpenChange}>
+    <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-md">
         <DialogHeader>
           <DialogTitle>Registrar Pago</DialogTitle>
           <DialogDescription>
-            Registre el pago recibido para la factura {invoice.invoiceNumber}
+            Registre el pago recibido para la factura {invoice.number}
           </DialogDescription>
         </DialogHeader>
 
@@ -119,7 +124,9 @@ export function MarkAsPaidDialog({ invoice, open, onOpenChange, onSuccess }: Mar
           <div className="bg-gray-50 rounded-lg p-4 space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-gray-600">Paciente:</span>
-              <span className="font-medium">{invoice.patientName}</span>
+              <span className="font-medium">
+                {invoice.patient.firstName} {invoice.patient.lastName}
+              </span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-gray-600">Total Factura:</span>
@@ -128,7 +135,7 @@ export function MarkAsPaidDialog({ invoice, open, onOpenChange, onSuccess }: Mar
             <div className="flex justify-between text-sm">
               <span className="text-gray-600">Pagado:</span>
               <span className="font-medium text-green-600">
-                {formatCurrency(invoice.amountPaid)}
+                {formatCurrency(invoice.paidAmount)}
               </span>
             </div>
             <div className="flex justify-between text-sm font-bold border-t pt-2">
@@ -204,19 +211,18 @@ export function MarkAsPaidDialog({ invoice, open, onOpenChange, onSuccess }: Mar
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value={PaymentMethod.CASH}>Efectivo</SelectItem>
-                <SelectItem value={PaymentMethod.CREDIT_CARD}>Tarjeta de Crédito</SelectItem>
-                <SelectItem value={PaymentMethod.DEBIT_CARD}>Tarjeta de Débito</SelectItem>
-                <SelectItem value={PaymentMethod.BANK_TRANSFER}>Transferencia Bancaria</SelectItem>
-                <SelectItem value={PaymentMethod.CHECK}>Cheque</SelectItem>
-                <SelectItem value={PaymentMethod.INSURANCE}>Seguro</SelectItem>
+                {Object.values(PaymentMethod).map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
           {/* Transaction ID */}
           <div className="space-y-2">
-            <Label htmlFor="transactionId">ID de Transacción</Label>
+            <Label htmlFor="transactionId">Número de Comprobante</Label>
             <Input
               id="transactionId"
               placeholder="Opcional - Número de referencia"
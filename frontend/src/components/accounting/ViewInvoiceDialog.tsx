@@ -8,63 +8,34 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
+import { InvoiceStatusBadge } from '@/components/accounting/InvoiceStatusBadge'
 import { formatCurrency } from '@/lib/utils'
-import { InvoiceStatus } from '@/types'
+import { InvoiceStatus, type Invoice } from '@/types'
 
 interface ViewInvoiceDialogProps {
-  invoice: any
+  invoice: Invoice | null
   open: boolean
   onOpenChange: (open: boolean) => void
 }
 
-const invoiceStatusConfig = {
-  [InvoiceStatus.DRAFT]: {
-    label: 'Borrador',
-    className: 'bg-gray-100 text-gray-800',
-  },
-  [InvoiceStatus.PENDING]: {
-    label: 'Pendiente',
-    className: 'bg-yellow-100 text-yellow-800',
-  },
-  [InvoiceStatus.PAID]: {
-    label: 'Pagada',
-    className: 'bg-green-100 text-green-800',
-  },
-  [InvoiceStatus.PARTIALLY_PAID]: {
-    label: 'Pago Parcial',
-    className: 'bg-blue-100 text-blue-800',
-  },
-  [InvoiceStatus.OVERDUE]: {
-    label: 'Vencida',
-    className: 'bg-red-100 text-red-800',
-  },
-  [InvoiceStatus.CANCELLED]: {
-    label: 'Cancelada',
-    className: 'bg-gray-100 text-gray-800',
-  },
-}
-
 export function ViewInvoiceDialog({ invoice, open, onOpenChange }: ViewInvoiceDialogProps) {
   if (!invoice) return null
 
-  const statusConfig = invoiceStatusConfig[invoice.status]
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-start justify-between">
             <div>
-              <DialogTitle className="text-2xl">Factura {invoice.invoiceNumber}</DialogTitle>
+              <DialogTitle className="text-2xl">
+                {invoice.number ? `Factura ${invoice.number}` : 'Borrador de factura'}
+              </DialogTitle>
               <p className="text-sm text-gray-600 mt-1">
                 Detalles completos de la factura
               </p>
             </div>
-            <Badge className={statusConfig.className}>
-              {statusConfig.label}
-            </Badge>
+            <InvoiceStatusBadge invoice={invoice} />
           </div>
         </DialogHeader>
 
@@ -73,8 +44,10 @@ export function ViewInvoiceDialog({ invoice, open, onOpenChange }: ViewInvoiceDi
           <div>
             <h3 className="text-sm font-semibold text-gray-900 mb-3">Información del Paciente</h3>
             <div className="bg-gray-50 rounded-lg p-4">
-              <p className="font-medium text-lg">{invoice.patientName}</p>
-              <p className="text-sm text-gray-600">ID: {invoice.patientId}</p>
+              <p className="font-medium text-lg">
+                {invoice.patient.firstName} {invoice.patient.lastName}
+              </p>
+              <p className="text-sm text-gray-600">Identificación: {invoice.patient.identification}</p>
             </div>
           </div>
 
@@ -85,13 +58,17 @@ export function ViewInvoiceDialog({ invoice, open, onOpenChange }: ViewInvoiceDi
             <div>
               <h3 className="text-sm font-semibold text-gray-900 mb-2">Fecha de Emisión</h3>
               <p className="text-gray-700">
-                {format(new Date(invoice.date), 'dd MMMM yyyy', { locale: es })}
+                {invoice.issueDate
+                  ? format(new Date(invoice.issueDate), 'dd MMMM yyyy', { locale: es })
+                  : 'Sin emitir'}
               </p>
             </div>
             <div>
               <h3 className="text-sm font-semibold text-gray-900 mb-2">Fecha de Vencimiento</h3>
               <p className="text-gray-700">
-                {format(new Date(invoice.dueDate), 'dd MMMM yyyy', { locale: es })}
+                {invoice.dueDate
+                  ? format(new Date(invoice.dueDate), 'dd MMMM yyyy', { locale: es })
+                  : 'Se calcula al emitir'}
               </p>
             </div>
           </div>
@@ -114,22 +91,33 @@ export function ViewInvoiceDialog({ invoice, open, onOpenChange }: ViewInvoiceDi
                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-600">
                       Precio Unit.
                     </th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-600">
+                      Descuento
+                    </th>
                     <th className="px-4 py-2 text-right text-xs font-medium text-gray-600">
                       Total
                     </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  <tr>
-                    <td className="px-4 py-3 text-sm">Servicio dental</td>
-                    <td className="px-4 py-3 text-sm text-right">1</td>
-                    <td className="px-4 py-3 text-sm text-right">
-                      {formatCurrency(invoice.subtotal)}
-                    </td>
-                    <td className="px-4 py-3 text-sm text-right font-medium">
-                      {formatCurrency(invoice.subtotal)}
-                    </td>
-                  </tr>
+                  {invoice.items.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-4 py-3 text-sm">
+                        {item.description}
+                        {item.taxable && <span className="ml-1 text-xs text-gray-500">(IVA)</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">{item.quantity}</td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {formatCurrency(item.unitPrice)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {item.discount > 0 ? formatCurrency(item.discount) : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right font-medium">
+                        {formatCurrency(item.total)}
+                      </td>
+                    </tr>
+                  ))}
                 </tbody>
               </table>
             </div>
@@ -141,8 +129,14 @@ export function ViewInvoiceDialog({ invoice, open, onOpenChange }: ViewInvoiceDi
               <span className="text-gray-600">Subtotal:</span>
               <span className="font-medium">{formatCurrency(invoice.subtotal)}</span>
             </div>
+            {invoice.discount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Descuentos:</span>
+                <span className="font-medium">-{formatCurrency(invoice.discount)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
-              <span className="text-gray-600">IVA (12%):</span>
+              <span className="text-gray-600">IVA ({Math.round(invoice.taxRate * 100)}%):</span>
               <span className="font-medium">{formatCurrency(invoice.tax)}</span>
             </div>
             <Separator />
@@ -150,34 +144,36 @@ export function ViewInvoiceDialog({ invoice, open, onOpenChange }: ViewInvoiceDi
               <span>Total:</span>
               <span>{formatCurrency(invoice.total)}</span>
             </div>
-            {invoice.amountPaid > 0 && (
+            {invoice.paidAmount > 0 && (
               <>
                 <div className="flex justify-between text-sm text-green-600">
                   <span>Pagado:</span>
-                  <span className="font-medium">{formatCurrency(invoice.amountPaid)}</span>
+                  <span className="font-medium">{formatCurrency(invoice.paidAmount)}</span>
                 </div>
-                {invoice.amountPaid < invoice.total && (
+                {invoice.balance > 0 && (
                   <div className="flex justify-between text-sm text-red-600">
                     <span>Pendiente:</span>
-                    <span className="font-medium">
-                      {formatCurrency(invoice.total - invoice.amountPaid)}
-                    </span>
+                    <span className="font-medium">{formatCurrency(invoice.balance)}</span>
                   </div>
                 )}
               </>
             )}
           </div>
 
-          {/* Payment Information */}
-          {invoice.status === InvoiceStatus.PAID && (
+          {invoice.notes && (
             <div>
-              <h3 className="text-sm font-semibold text-gray-900 mb-2">Información de Pago</h3>
-              <div className="bg-green-50 rounded-lg p-4">
-                <p className="text-sm text-green-800">
-                  Factura pagada completamente el{' '}
-                  {format(new Date(invoice.date), 'dd MMMM yyyy', { locale: es })}
-                </p>
-              </div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Notas</h3>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{invoice.notes}</p>
+            </div>
+          )}
+
+          {/* Void Information */}
+          {invoice.status === InvoiceStatus.VOID && invoice.voidedAt && (
+            <div className="bg-red-50 rounded-lg p-4">
+              <p className="text-sm text-red-800">
+                Anulada el {format(new Date(invoice.voidedAt), 'dd MMMM yyyy', { locale: es })}:{' '}
+                {invoice.voidReason}
+              </p>
             </div>
           )}
         </div>
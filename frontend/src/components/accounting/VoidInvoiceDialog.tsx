@@ -0,0 +1,85 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { Invoice } from '@/types'
+
+interface VoidInvoiceDialogProps {
+  invoice: Invoice | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onVoid: (id: string, reason: string) => Promise<boolean>
+}
+
+/**
+ * Void an issued invoice; its number stays used
+ */
+export function VoidInvoiceDialog({ invoice, open, onOpenChange, onVoid }: VoidInvoiceDialogProps) {
+  const [reason, setReason] = useState('')
+  const [isVoiding, setIsVoiding] = useState(false)
+
+  useEffect(() => {
+    if (open) setReason('')
+  }, [open])
+
+  const handleVoid = async (e: React.MouseEvent) => {
+    e.preventDefault()
+    if (!invoice) return
+
+    setIsVoiding(true)
+    try {
+      if (await onVoid(invoice.id, reason.trim())) {
+        onOpenChange(false)
+      }
+    } finally {
+      setIsVoiding(false)
+    }
+  }
+
+  if (!invoice) return null
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Anular factura {invoice.number}</AlertDialogTitle>
+          <AlertDialogDescription>
+            La factura quedará anulada y su número no se volverá a usar. Esta acción no se puede
+            deshacer.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="voidReason">Motivo *</Label>
+          <Textarea
+            id="voidReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            disabled={isVoiding}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isVoiding}>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleVoid}
+            disabled={isVoiding || reason.trim().length < 3}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isVoiding ? 'Anulando...' : 'Anular'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
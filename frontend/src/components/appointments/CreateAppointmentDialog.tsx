@@ -16,7 +16,7 @@ interface CreateAppointmentDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   defaultDate?: Date
-  defaultDoctorId?: number
+  defaultDoctorId?: string
   onSuccess?: () => void
 }
 
@@ -0,0 +1,171 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, PenLine } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { consentsApi } from '@/lib/api/consents.api'
+import type { ConsentPreview, ConsentTemplate, SignConsentData } from '@/types'
+import { SignaturePad } from './SignaturePad'
+
+interface ConsentSignDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  patientId: string
+  templates: ConsentTemplate[]
+  /** Treatment plan or treatment the consent is collected for */
+  target?: { treatmentPlanId?: string; treatmentId?: string }
+  saving?: boolean
+  onSign: (data: SignConsentData) => Promise<boolean>
+}
+
+/**
+ * Dialog to collect an informed consent: the patient reads the generated
+ * document, types their full name and draws their signature
+ */
+export function ConsentSignDialog({
+  open,
+  onOpenChange,
+  patientId,
+  templates,
+  target,
+  saving = false,
+  onSign,
+}: ConsentSignDialogProps) {
+  const [category, setCategory] = useState('')
+  const [preview, setPreview] = useState<ConsentPreview | null>(null)
+  const [loadingPreview, setLoadingPreview] = useState(false)
+  const [signedName, setSignedName] = useState('')
+  const [signatureImage, setSignatureImage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setCategory('')
+      setPreview(null)
+      setSignedName('')
+      setSignatureImage(null)
+    }
+  }, [open])
+
+  useEffect(() => {
+    if (!open || !category) return
+
+    setLoadingPreview(true)
+    consentsApi
+      .preview(patientId, { category, ...target })
+      .then(setPreview)
+      .catch((err) => {
+        setPreview(null)
+        toast.error(err instanceof Error ? err.message : 'Error al generar el documento')
+      })
+      .finally(() => setLoadingPreview(false))
+  }, [open, patientId, category, target])
+
+  const canSign = !!preview && signedName.trim().length >= 3 && !!signatureImage && !saving
+
+  const handleSign = async () => {
+    if (!preview || !signatureImage) return
+
+    const signed = await onSign({
+      category: preview.category,
+      treatmentPlanId: preview.treatmentPlanId ?? undefined,
+      treatmentId: preview.treatmentId ?? undefined,
+      signedName: signedName.trim(),
+      signatureImage,
+    })
+    if (signed) {
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Consentimiento informado</DialogTitle>
+          <DialogDescription>
+            El paciente debe leer el documento antes de firmarlo
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Procedimiento</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccione la categoría" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={template.category}>
+                    {template.category}
+                    {template.isRequired ? ' (obligatorio)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {loadingPreview && <Skeleton className="h-48 w-full" />}
+
+          {preview && !loadingPreview && (
+            <>
+              <div className="rounded-md border bg-muted/30 p-4">
+                <h3 className="font-semibold mb-2">{preview.title}</h3>
+                <p className="whitespace-pre-line text-sm">{preview.content}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="signedName">Nombre completo del paciente</Label>
+                <Input
+                  id="signedName"
+                  value={signedName}
+                  onChange={(e) => setSignedName(e.target.value)}
+                  disabled={saving}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Firma</Label>
+                <SignaturePad onChange={setSignatureImage} disabled={saving} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSign} disabled={!canSign}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <PenLine className="h-4 w-4 mr-2" />
+            )}
+            Firmar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
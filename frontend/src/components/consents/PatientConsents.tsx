@@ -0,0 +1,80 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { PenLine, ShieldCheck } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useConsents } from '@/hooks/useConsents'
+import { ConsentSignDialog } from './ConsentSignDialog'
+
+interface PatientConsentsProps {
+  patientId: string
+}
+
+/**
+ * Signed informed consents of a patient, with the dialog to collect a new one
+ */
+export function PatientConsents({ patientId }: PatientConsentsProps) {
+  const { consents, templates, loading, saving, signConsent, verifyConsent } = useConsents(patientId)
+  const [signDialogOpen, setSignDialogOpen] = useState(false)
+
+  if (loading) {
+    return <Skeleton className="h-48 w-full" />
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setSignDialogOpen(true)} disabled={templates.length === 0}>
+          <PenLine className="h-4 w-4 mr-2" />
+          Recoger consentimiento
+        </Button>
+      </div>
+
+      {consents.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          El paciente no tiene consentimientos firmados
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {consents.map((consent) => (
+            <div
+              key={consent.id}
+              className="flex flex-col gap-3 rounded-md border p-3 md:flex-row md:items-center md:justify-between"
+            >
+              <div className="space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{consent.category}</Badge>
+                  <span className="font-medium">{consent.title}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  Firmado por {consent.signedName} el{' '}
+                  {format(new Date(consent.signedAt), "d 'de' MMMM, yyyy HH:mm", { locale: es })}
+                  {consent.treatmentPlanId && ' · Plan de tratamiento'}
+                  {consent.treatmentId && ' · Tratamiento'}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => verifyConsent(consent.id)}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Verificar
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ConsentSignDialog
+        open={signDialogOpen}
+        onOpenChange={setSignDialogOpen}
+        patientId={patientId}
+        templates={templates}
+        saving={saving}
+        onSign={signConsent}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Eraser } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+
+interface SignaturePadProps {
+  onChange: (signature: string | null) => void
+  disabled?: boolean
+}
+
+const WIDTH = 500
+const HEIGHT = 160
+
+/**
+ * Canvas where the patient draws their signature with mouse, pen or finger
+ * Reports the drawing as a PNG data URL after each stroke (null once cleared)
+ */
+export function SignaturePad({ onChange, disabled = false }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const drawingRef = useRef(false)
+  const [isEmpty, setIsEmpty] = useState(true)
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context) return
+
+    context.lineWidth = 2
+    context.lineCap = 'round'
+    context.lineJoin = 'round'
+    context.strokeStyle = '#111827'
+  }, [])
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((event.clientY - rect.top) * canvas.height) / rect.height,
+    }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    drawingRef.current = true
+    const { x, y } = getPoint(event)
+    context.beginPath()
+    context.moveTo(x, y)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+
+    const context = event.currentTarget.getContext('2d')
+    if (!context) return
+
+    const { x, y } = getPoint(event)
+    context.lineTo(x, y)
+    context.stroke()
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return
+
+    drawingRef.current = false
+    setIsEmpty(false)
+    onChange(event.currentTarget.toDataURL('image/png'))
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    setIsEmpty(true)
+    onChange(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="w-full touch-none rounded-md border bg-white"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{isEmpty ? 'Firme dentro del recuadro' : 'Firma registrada'}</span>
+        <Button type="button" size="sm" variant="ghost" onClick={handleClear} disabled={disabled || isEmpty}>
+          <Eraser className="h-4 w-4 mr-2" />
+          Borrar
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,6 @@
+/**
+ * Consent components exports
+ */
+export { PatientConsents } from './PatientConsents'
+export { ConsentSignDialog } from './ConsentSignDialog'
+export { SignaturePad } from './SignaturePad'
@@ -6,6 +6,7 @@ import { CalendarIcon } from 'lucide-react'
 import { format } from 'date-fns'
 import { es } from 'date-fns/locale'
 import { cn } from '@/lib/utils'
+import { useDoctors, getDoctorName } from '@/hooks/useDoctors'
 import {
   appointmentSchema,
   appointmentTypeLabels,
@@ -64,6 +65,7 @@ export function AppointmentForm({
   })
 
   const isRecurring = form.watch('isRecurring')
+  const { doctors, loading: doctorsLoading } = useDoctors()
 
   // Mock data - replace with actual API calls
   const patients = [
@@ -72,11 +74,6 @@ export function AppointmentForm({
     { id: 3, name: 'Pedro Rodríguez Gómez' },
   ]
 
-  const doctors = [
-    { id: 1, name: 'Dr. Carlos Mendoza' },
-    { id: 2, name: 'Dra. Ana Martínez' },
-  ]
-
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -117,18 +114,21 @@ export function AppointmentForm({
             <FormItem>
               <FormLabel>Doctor *</FormLabel>
               <Select
-                onValueChange={(value) => field.onChange(parseInt(value))}
-                value={field.value?.toString()}
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={doctorsLoading}
               >
                 <FormControl>
                   <SelectTrigger>
-                    <SelectValue placeholder="Seleccione un doctor" />
+                    <SelectValue
+                      placeholder={doctorsLoading ? 'Cargando doctores...' : 'Seleccione un doctor'}
+                    />
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
                   {doctors.map((doctor) => (
-                    <SelectItem key={doctor.id} value={doctor.id.toString()}>
-                      {doctor.name}
+                    <SelectItem key={doctor.id} value={doctor.id}>
+                      {getDoctorName(doctor)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import { ClipboardPlus, Stethoscope, X } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { TOOTH_STATUS_LABELS, TOOTH_SURFACE_LABELS } from '@/constants'
+import { medicalApi } from '@/lib/api/medical.api'
+import { formatCurrency } from '@/lib/utils'
+import type { FindingSuggestion } from '@/types'
+
+interface FindingSuggestionsProps {
+  patientId: string
+  suggestions: FindingSuggestion[]
+  onDone: (suggestion: FindingSuggestion) => void
+}
+
+/**
+ * Diagnoses and treatments suggested by the findings of the last saved tooth
+ * A diagnosis registered here is linked to the treatment planned for the same finding
+ */
+export function FindingSuggestions({ patientId, suggestions, onDone }: FindingSuggestionsProps) {
+  const [diagnosisIds, setDiagnosisIds] = useState<Map<FindingSuggestion, string>>(new Map())
+  const [busy, setBusy] = useState(false)
+
+  if (suggestions.length === 0) {
+    return null
+  }
+
+  const registerDiagnosis = async (suggestion: FindingSuggestion) => {
+    if (!suggestion.diagnosis) return
+
+    setBusy(true)
+    try {
+      const diagnosis = await medicalApi.createDiagnosis(patientId, {
+        cie10Code: suggestion.diagnosis.cie10Code,
+        toothNumber: suggestion.toothNumber,
+      })
+      setDiagnosisIds((current) => new Map(current).set(suggestion, diagnosis.id))
+      toast.success(`Diagnóstico ${suggestion.diagnosis.cie10Code} registrado`)
+      if (!suggestion.treatment) {
+        onDone(suggestion)
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al registrar el diagnóstico')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const planTreatment = async (suggestion: FindingSuggestion) => {
+    if (!suggestion.treatment) return
+
+    setBusy(true)
+    try {
+      await medicalApi.createTreatment(patientId, {
+        catalogId: suggestion.treatment.catalogId,
+        diagnosisId: diagnosisIds.get(suggestion),
+        toothNumber: suggestion.toothNumber,
+        cost: suggestion.treatment.baseCost,
+      })
+      toast.success(`Tratamiento planificado: ${suggestion.treatment.name}`)
+      onDone(suggestion)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al planificar el tratamiento')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Sugerencias clínicas</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {suggestions.map((suggestion) => {
+          const registered = diagnosisIds.has(suggestion)
+
+          return (
+            <div
+              key={`${suggestion.toothNumber}-${suggestion.status}`}
+              className="flex flex-col gap-3 rounded-md border p-3 md:flex-row md:items-center md:justify-between"
+            >
+              <div className="space-y-1 text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">Pieza {suggestion.toothNumber}</Badge>
+                  <span className="font-medium">{TOOTH_STATUS_LABELS[suggestion.status]}</span>
+                  {suggestion.surfaces.length > 0 && (
+                    <span className="text-muted-foreground">
+                      ({suggestion.surfaces.map((s) => TOOTH_SURFACE_LABELS[s]).join(', ')})
+                    </span>
+                  )}
+                </div>
+                {suggestion.diagnosis && (
+                  <p>
+                    Diagnóstico: {suggestion.diagnosis.cie10Code} · {suggestion.diagnosis.cie10Name}
+                  </p>
+                )}
+                {suggestion.treatment && (
+                  <p>
+                    Tratamiento: {suggestion.treatment.name} ·{' '}
+                    {formatCurrency(suggestion.treatment.baseCost)}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {suggestion.diagnosis && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => registerDiagnosis(suggestion)}
+                    disabled={busy || registered}
+                  >
+                    <Stethoscope className="h-4 w-4 mr-2" />
+                    {registered ? 'Diagnóstico registrado' : 'Registrar diagnóstico'}
+                  </Button>
+                )}
+                {suggestion.treatment && (
+                  <Button size="sm" onClick={() => planTreatment(suggestion)} disabled={busy}>
+                    <ClipboardPlus className="h-4 w-4 mr-2" />
+                    Planificar tratamiento
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onDone(suggestion)}
+                  disabled={busy}
+                  aria-label="Descartar sugerencia"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+import { getOdontogramRows } from '@/lib/odontogram'
+import type { DentitionType, Tooth, ToothSurface } from '@/types'
+import { ToothDiagram } from './ToothDiagram'
+
+interface OdontogramChartProps {
+  type: DentitionType
+  teeth: Tooth[]
+  selectedTooth?: string | null
+  highlightedTeeth?: Record<string, ToothSurface[]>
+  onToothClick?: (toothNumber: string) => void
+}
+
+/**
+ * Odontogram chart in FDI notation
+ * Teeth missing from the chart (e.g. not recorded in this version) are skipped
+ */
+export function OdontogramChart({
+  type,
+  teeth,
+  selectedTooth = null,
+  highlightedTeeth = {},
+  onToothClick,
+}: OdontogramChartProps) {
+  const teethByNumber = new Map(teeth.map((tooth) => [tooth.toothNumber, tooth]))
+  const rows = getOdontogramRows(type)
+
+  const renderTeeth = (numbers: string[]) =>
+    numbers.map((number) => {
+      const tooth = teethByNumber.get(number)
+      if (!tooth) {
+        return <div key={number} className="w-12" />
+      }
+
+      return (
+        <ToothDiagram
+          key={number}
+          tooth={tooth}
+          selected={selectedTooth === number}
+          highlighted={number in highlightedTeeth}
+          highlightedSurfaces={highlightedTeeth[number]}
+          onClick={onToothClick}
+        />
+      )
+    })
+
+  return (
+    <div className="space-y-4 overflow-x-auto">
+      {rows.map((row, index) => (
+        <div key={row.label}>
+          {index === rows.length / 2 && <div className="border-t-2 border-gray-300 mb-4" />}
+          <h4 className="text-xs font-medium text-muted-foreground mb-1 text-center">{row.label}</h4>
+          <div className="flex justify-center gap-4">
+            <div className="flex justify-end gap-1">{renderTeeth(row.right)}</div>
+            <div className="border-l-2 border-gray-300" />
+            <div className="flex justify-start gap-1">{renderTeeth(row.left)}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { GitBranchPlus, Loader2, Plus } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { DENTITION_TYPE_LABELS } from '@/constants'
+import { useOdontogram } from '@/hooks/useOdontogram'
+import type { DentitionType } from '@/types'
+import { FindingSuggestions } from './FindingSuggestions'
+import { OdontogramChart } from './OdontogramChart'
+import { OdontogramLegend } from './OdontogramLegend'
+import { OdontogramProposals } from './OdontogramProposals'
+import { OdontogramTimeline } from './OdontogramTimeline'
+import { ToothEditor } from './ToothEditor'
+
+interface OdontogramEditorProps {
+  patientId: string
+}
+
+/**
+ * Interactive editor for a patient's current odontogram
+ * Tooth changes are saved in place; "Nueva versión" starts a new version from the current one
+ * and the timeline compares any two versions. New findings suggest a diagnosis and treatment,
+ * and completed treatments propose chart changes
+ */
+export function OdontogramEditor({ patientId }: OdontogramEditorProps) {
+  const {
+    odontogram,
+    suggestions,
+    proposals,
+    loading,
+    saving,
+    createOdontogram,
+    updateTooth,
+    createNewVersion,
+    applyProposal,
+    dismissProposal,
+    dismissSuggestion,
+  } = useOdontogram(patientId)
+  const [selectedTooth, setSelectedTooth] = useState<string | null>(null)
+  const [dentitionType, setDentitionType] = useState<DentitionType>('PERMANENT')
+
+  if (loading) {
+    return <Skeleton className="h-96 w-full" />
+  }
+
+  if (!odontogram) {
+    return (
+      <div className="flex flex-col items-center gap-4 py-12 text-center">
+        <p className="text-muted-foreground">Este paciente aún no tiene odontograma</p>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1 text-left">
+            <Label>Dentición</Label>
+            <Select
+              value={dentitionType}
+              onValueChange={(value) => setDentitionType(value as DentitionType)}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DENTITION_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => createOdontogram(dentitionType)} disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Crear odontograma
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const tooth = odontogram.teeth.find((t) => t.toothNumber === selectedTooth)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">Versión {odontogram.version}</Badge>
+          <Badge variant="secondary">{DENTITION_TYPE_LABELS[odontogram.type]}</Badge>
+          <span className="text-sm text-muted-foreground">
+            {format(new Date(odontogram.date), "d 'de' MMMM, yyyy", { locale: es })}
+          </span>
+        </div>
+        <Button variant="outline" onClick={createNewVersion} disabled={saving}>
+          <GitBranchPlus className="h-4 w-4 mr-2" />
+          Nueva versión
+        </Button>
+      </div>
+
+      <OdontogramChart
+        type={odontogram.type}
+        teeth={odontogram.teeth}
+        selectedTooth={selectedTooth}
+        onToothClick={setSelectedTooth}
+      />
+
+      {tooth && <ToothEditor tooth={tooth} saving={saving} onSave={updateTooth} />}
+
+      <FindingSuggestions
+        patientId={patientId}
+        suggestions={suggestions}
+        onDone={dismissSuggestion}
+      />
+
+      <OdontogramProposals
+        proposals={proposals}
+        saving={saving}
+        onApply={applyProposal}
+        onDismiss={dismissProposal}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Leyenda</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OdontogramLegend />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Historial de versiones</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OdontogramTimeline key={odontogram.id} odontogramId={odontogram.id} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
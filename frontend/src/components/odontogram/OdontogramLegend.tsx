@@ -0,0 +1,22 @@
+'use client'
+
+import { TOOTH_STATUS_COLORS, TOOTH_STATUS_LABELS } from '@/constants'
+
+/**
+ * Color legend for tooth and surface statuses
+ */
+export function OdontogramLegend() {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {Object.entries(TOOTH_STATUS_LABELS).map(([status, label]) => (
+        <div key={status} className="flex items-center gap-2">
+          <div
+            className="w-5 h-5 rounded border border-gray-400"
+            style={{ backgroundColor: TOOTH_STATUS_COLORS[status] }}
+          />
+          <span className="text-sm text-gray-700">{label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
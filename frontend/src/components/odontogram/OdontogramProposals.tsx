@@ -0,0 +1,74 @@
+'use client'
+
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { ArrowRight, Check, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { TOOTH_STATUS_LABELS } from '@/constants'
+import type { OdontogramProposal } from '@/types'
+
+interface OdontogramProposalsProps {
+  proposals: OdontogramProposal[]
+  saving?: boolean
+  onApply: (id: string) => void
+  onDismiss: (id: string) => void
+}
+
+/**
+ * Pending chart changes proposed by completed treatments
+ * Applying one creates a new odontogram version with the proposed tooth status
+ */
+export function OdontogramProposals({
+  proposals,
+  saving = false,
+  onApply,
+  onDismiss,
+}: OdontogramProposalsProps) {
+  if (proposals.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Cambios propuestos por tratamientos completados</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {proposals.map((proposal) => (
+          <div
+            key={proposal.id}
+            className="flex flex-col gap-3 rounded-md border p-3 md:flex-row md:items-center md:justify-between"
+          >
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">Pieza {proposal.toothNumber}</Badge>
+              <span>{TOOTH_STATUS_LABELS[proposal.currentStatus]}</span>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <span className="font-medium">{TOOTH_STATUS_LABELS[proposal.proposedStatus]}</span>
+              <span className="text-muted-foreground">
+                {format(new Date(proposal.createdAt), "d 'de' MMMM, yyyy", { locale: es })}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => onApply(proposal.id)} disabled={saving}>
+                <Check className="h-4 w-4 mr-2" />
+                Aplicar
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onDismiss(proposal.id)}
+                disabled={saving}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Descartar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,262 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { es } from 'date-fns/locale'
+import { toast } from 'sonner'
+import { ArrowRight, History, Loader2 } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { DENTITION_TYPE_LABELS, TOOTH_STATUS_LABELS, TOOTH_SURFACE_LABELS } from '@/constants'
+import { odontogramsApi } from '@/lib/api/odontograms.api'
+import { cn } from '@/lib/utils'
+import type { Odontogram, OdontogramComparison, OdontogramSummary, ToothChange, ToothSurface } from '@/types'
+import { OdontogramChart } from './OdontogramChart'
+
+interface OdontogramTimelineProps {
+  odontogramId: string
+}
+
+const formatVersionDate = (date: string) =>
+  format(new Date(date), "d 'de' MMMM, yyyy", { locale: es })
+
+const statusLabel = (value: ToothChange['oldValue']) =>
+  value ? TOOTH_STATUS_LABELS[value] ?? value : 'Sin hallazgos'
+
+/**
+ * Describe a change in Spanish for the change list
+ */
+function describeChange(change: ToothChange): string {
+  if (change.field === 'tooth') {
+    return change.oldValue === null
+      ? `Pieza agregada (${statusLabel(change.newValue)})`
+      : `Pieza eliminada (${statusLabel(change.oldValue)})`
+  }
+
+  const [kind, surface, attribute] = change.field.split('.')
+  if (kind === 'surface') {
+    const name = TOOTH_SURFACE_LABELS[surface] ?? surface
+    return attribute === 'notes'
+      ? `Notas de la superficie ${name} actualizadas`
+      : `Superficie ${name}: ${statusLabel(change.oldValue)} → ${statusLabel(change.newValue)}`
+  }
+
+  return change.field === 'notes'
+    ? 'Notas actualizadas'
+    : `Estado: ${statusLabel(change.oldValue)} → ${statusLabel(change.newValue)}`
+}
+
+/**
+ * Teeth to highlight on one side of the comparison, with their changed surfaces
+ * Added teeth only exist on the newer side and removed teeth only on the older one
+ */
+function getHighlightedTeeth(
+  changes: ToothChange[],
+  side: 'before' | 'after'
+): Record<string, ToothSurface[]> {
+  const highlighted: Record<string, ToothSurface[]> = {}
+
+  for (const change of changes) {
+    if (change.field === 'tooth' && (side === 'before' ? change.oldValue : change.newValue) === null) {
+      continue
+    }
+
+    const surfaces = highlighted[change.toothNumber] ?? []
+    const [kind, surface] = change.field.split('.')
+    if (kind === 'surface' && !surfaces.includes(surface as ToothSurface)) {
+      surfaces.push(surface as ToothSurface)
+    }
+    highlighted[change.toothNumber] = surfaces
+  }
+
+  return highlighted
+}
+
+/**
+ * Timeline of every odontogram version with a side-by-side comparison of any two
+ */
+export function OdontogramTimeline({ odontogramId }: OdontogramTimelineProps) {
+  const [versions, setVersions] = useState<OdontogramSummary[]>([])
+  const [loading, setLoading] = useState(false)
+  const [beforeId, setBeforeId] = useState<string | null>(null)
+  const [afterId, setAfterId] = useState<string | null>(null)
+  const [comparing, setComparing] = useState(false)
+  const [comparison, setComparison] = useState<{
+    before: Odontogram
+    after: Odontogram
+    result: OdontogramComparison
+  } | null>(null)
+
+  /**
+   * Fetch the version history; compare the two latest versions by default
+   */
+  const fetchHistory = useCallback(async () => {
+    setLoading(true)
+    try {
+      const history = await odontogramsApi.getHistory(odontogramId)
+      setVersions(history)
+      setAfterId(history[0]?.id ?? null)
+      setBeforeId(history[1]?.id ?? null)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al cargar el historial')
+    } finally {
+      setLoading(false)
+    }
+  }, [odontogramId])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  /**
+   * Load both versions and their comparison, older version first
+   */
+  const fetchComparison = useCallback(async () => {
+    if (!beforeId || !afterId || beforeId === afterId) {
+      setComparison(null)
+      return
+    }
+
+    const version = (id: string) => versions.find((v) => v.id === id)?.version ?? 0
+    const [olderId, newerId] =
+      version(beforeId) <= version(afterId) ? [beforeId, afterId] : [afterId, beforeId]
+
+    setComparing(true)
+    try {
+      const [before, after, result] = await Promise.all([
+        odontogramsApi.getById(olderId),
+        odontogramsApi.getById(newerId),
+        odontogramsApi.compare(olderId, newerId),
+      ])
+      setComparison({ before, after, result })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al comparar las versiones')
+    } finally {
+      setComparing(false)
+    }
+  }, [beforeId, afterId, versions])
+
+  useEffect(() => {
+    fetchComparison()
+  }, [fetchComparison])
+
+  const changesByTooth = useMemo(() => {
+    const grouped = new Map<string, ToothChange[]>()
+    for (const change of comparison?.result.changes ?? []) {
+      grouped.set(change.toothNumber, [...(grouped.get(change.toothNumber) ?? []), change])
+    }
+    return grouped
+  }, [comparison])
+
+  if (loading) {
+    return <Skeleton className="h-48 w-full" />
+  }
+
+  if (versions.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        Solo existe una versión. Cree una nueva versión para comparar la evolución del paciente.
+      </p>
+    )
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+      {/* Timeline */}
+      <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+        {versions.map((version) => (
+          <li key={version.id} className="ml-4">
+            <span
+              className={cn(
+                'absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full border-2 border-white',
+                version.isCurrent ? 'bg-blue-600' : 'bg-gray-400'
+              )}
+            />
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold">Versión {version.version}</span>
+              {version.isCurrent && <Badge variant="secondary">Actual</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatVersionDate(version.date)} · {DENTITION_TYPE_LABELS[version.type]}
+            </p>
+            {version.generalNotes && <p className="text-xs text-gray-600 mt-1">{version.generalNotes}</p>}
+            <div className="flex gap-1 mt-2">
+              <Button
+                size="sm"
+                variant={beforeId === version.id ? 'default' : 'outline'}
+                className="h-7 px-2 text-xs"
+                onClick={() => setBeforeId(version.id)}
+              >
+                Antes
+              </Button>
+              <Button
+                size="sm"
+                variant={afterId === version.id ? 'default' : 'outline'}
+                className="h-7 px-2 text-xs"
+                onClick={() => setAfterId(version.id)}
+              >
+                Después
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {/* Comparison */}
+      <div className="space-y-4 min-w-0">
+        {beforeId === afterId ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Seleccione dos versiones distintas para compararlas
+          </p>
+        ) : comparing || !comparison ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <History className="h-4 w-4 text-muted-foreground" />
+              <span>Versión {comparison.before.version}</span>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <span>Versión {comparison.after.version}</span>
+              <Badge variant="outline">{comparison.result.summary.totalChanges} cambio(s)</Badge>
+            </div>
+
+            <div className="grid gap-4 xl:grid-cols-2">
+              {[
+                { label: 'Antes', odontogram: comparison.before, side: 'before' as const },
+                { label: 'Después', odontogram: comparison.after, side: 'after' as const },
+              ].map(({ label, odontogram, side }) => (
+                <div key={side} className="rounded-md border p-3 space-y-2">
+                  <p className="text-sm font-medium">
+                    {label}: versión {odontogram.version} ({formatVersionDate(odontogram.date)})
+                  </p>
+                  <OdontogramChart
+                    type={odontogram.type}
+                    teeth={odontogram.teeth}
+                    highlightedTeeth={getHighlightedTeeth(comparison.result.changes, side)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {changesByTooth.size === 0 ? (
+              <p className="text-sm text-muted-foreground">Sin cambios entre estas versiones</p>
+            ) : (
+              <ul className="space-y-2">
+                {Array.from(changesByTooth.entries()).map(([toothNumber, changes]) => (
+                  <li key={toothNumber} className="text-sm">
+                    <span className="font-semibold">Pieza {toothNumber}:</span>{' '}
+                    {changes.map(describeChange).join('; ')}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { TOOTH_STATUS_COLORS } from '@/constants'
+import { isPatientRightTooth, isUpperTooth } from '@/lib/odontogram'
+import { cn } from '@/lib/utils'
+import type { Tooth, ToothSurface } from '@/types'
+
+interface ToothDiagramProps {
+  tooth: Tooth
+  selected?: boolean
+  highlighted?: boolean
+  highlightedSurfaces?: ToothSurface[]
+  onClick?: (toothNumber: string) => void
+}
+
+const SIZE = 40
+const INNER = 12
+
+/**
+ * Polygons of the five regions: top, bottom, left, right and center
+ */
+const REGIONS = {
+  top: `0,0 ${SIZE},0 ${SIZE - INNER},${INNER} ${INNER},${INNER}`,
+  bottom: `0,${SIZE} ${SIZE},${SIZE} ${SIZE - INNER},${SIZE - INNER} ${INNER},${SIZE - INNER}`,
+  left: `0,0 ${INNER},${INNER} ${INNER},${SIZE - INNER} 0,${SIZE}`,
+  right: `${SIZE},0 ${SIZE - INNER},${INNER} ${SIZE - INNER},${SIZE - INNER} ${SIZE},${SIZE}`,
+  center: `${INNER},${INNER} ${SIZE - INNER},${INNER} ${SIZE - INNER},${SIZE - INNER} ${INNER},${SIZE - INNER}`,
+}
+
+/**
+ * Surface drawn in each region: vestibular faces outwards, the inner face
+ * (palatal/lingual) faces the other arch and mesial faces the midline
+ */
+function getRegionSurfaces(toothNumber: string): Record<keyof typeof REGIONS, ToothSurface> {
+  const upper = isUpperTooth(toothNumber)
+  const patientRight = isPatientRightTooth(toothNumber)
+
+  return {
+    top: upper ? 'V' : 'L',
+    bottom: upper ? 'P' : 'V',
+    left: patientRight ? 'D' : 'M',
+    right: patientRight ? 'M' : 'D',
+    center: 'O',
+  }
+}
+
+/**
+ * Single tooth drawn as five surfaces colored by their condition
+ * The whole-tooth status tints surfaces without their own condition
+ */
+export function ToothDiagram({
+  tooth,
+  selected = false,
+  highlighted = false,
+  highlightedSurfaces = [],
+  onClick,
+}: ToothDiagramProps) {
+  const regionSurfaces = getRegionSurfaces(tooth.toothNumber)
+  const isMissing = tooth.status === 'MISSING'
+
+  return (
+    <button
+      type="button"
+      onClick={() => onClick?.(tooth.toothNumber)}
+      disabled={!onClick}
+      title={tooth.notes || tooth.toothNumber}
+      className={cn(
+        'flex flex-col items-center gap-1 rounded-md p-1 transition-colors',
+        onClick && 'hover:bg-muted cursor-pointer',
+        selected && 'bg-blue-50 ring-2 ring-blue-500',
+        highlighted && !selected && 'bg-amber-50 ring-2 ring-amber-400'
+      )}
+    >
+      <span className="text-xs font-semibold text-gray-700">{tooth.toothNumber}</span>
+      <svg width={SIZE} height={SIZE} viewBox={`-1 -1 ${SIZE + 2} ${SIZE + 2}`}>
+        {(Object.keys(REGIONS) as Array<keyof typeof REGIONS>).map((region) => {
+          const surface = regionSurfaces[region]
+          const condition = tooth.surfaces?.[surface]
+          const fill = condition
+            ? TOOTH_STATUS_COLORS[condition.status]
+            : TOOTH_STATUS_COLORS[tooth.status]
+
+          return (
+            <polygon
+              key={region}
+              points={REGIONS[region]}
+              fill={fill}
+              fillOpacity={condition || tooth.status === 'HEALTHY' ? 1 : 0.35}
+              stroke={highlightedSurfaces.includes(surface) ? '#f59e0b' : '#374151'}
+              strokeWidth={highlightedSurfaces.includes(surface) ? 2.5 : 1}
+            >
+              <title>{surface}</title>
+            </polygon>
+          )
+        })}
+        {isMissing && (
+          <g stroke="#374151" strokeWidth={2}>
+            <line x1={0} y1={0} x2={SIZE} y2={SIZE} />
+            <line x1={SIZE} y1={0} x2={0} y2={SIZE} />
+          </g>
+        )}
+      </svg>
+    </button>
+  )
+}
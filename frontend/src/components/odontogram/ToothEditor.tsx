@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Save } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TOOTH_STATUS_LABELS, TOOTH_SURFACE_LABELS } from '@/constants'
+import { getToothSurfaces } from '@/lib/odontogram'
+import type { Tooth, ToothStatus, ToothSurfaces, UpdateToothData } from '@/types'
+
+interface ToothEditorProps {
+  tooth: Tooth
+  saving?: boolean
+  onSave: (toothNumber: string, data: UpdateToothData) => Promise<unknown>
+}
+
+// Select value for a surface without its own condition
+const NO_CONDITION = 'NONE'
+
+/**
+ * Editor for the status, surface conditions and notes of a tooth
+ */
+export function ToothEditor({ tooth, saving = false, onSave }: ToothEditorProps) {
+  const [status, setStatus] = useState<ToothStatus>(tooth.status)
+  const [surfaces, setSurfaces] = useState<ToothSurfaces>(tooth.surfaces ?? {})
+  const [notes, setNotes] = useState(tooth.notes ?? '')
+
+  useEffect(() => {
+    setStatus(tooth.status)
+    setSurfaces(tooth.surfaces ?? {})
+    setNotes(tooth.notes ?? '')
+  }, [tooth])
+
+  const handleSurfaceChange = (surface: keyof ToothSurfaces, value: string) => {
+    const next = { ...surfaces }
+    if (value === NO_CONDITION) {
+      delete next[surface]
+    } else {
+      next[surface] = {
+        ...next[surface],
+        status: value as ToothStatus,
+        date: new Date().toISOString(),
+      }
+    }
+    setSurfaces(next)
+  }
+
+  const handleSave = () => {
+    onSave(tooth.toothNumber, { status, surfaces, notes })
+  }
+
+  return (
+    <Card className="border-blue-500">
+      <CardHeader>
+        <CardTitle className="text-sm">Pieza dental {tooth.toothNumber}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Estado de la pieza</Label>
+          <Select value={status} onValueChange={(value) => setStatus(value as ToothStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TOOTH_STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {getToothSurfaces(tooth.toothNumber).map((surface) => (
+            <div key={surface} className="space-y-1">
+              <Label className="text-xs">
+                {TOOTH_SURFACE_LABELS[surface]} ({surface})
+              </Label>
+              <Select
+                value={surfaces[surface]?.status ?? NO_CONDITION}
+                onValueChange={(value) => handleSurfaceChange(surface, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CONDITION}>Sin hallazgos</SelectItem>
+                  {Object.entries(TOOTH_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="tooth-notes">Notas</Label>
+          <Textarea
+            id="tooth-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Guardar pieza
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,11 @@
+/**
+ * Odontogram components exports
+ */
+export { OdontogramEditor } from './OdontogramEditor'
+export { OdontogramChart } from './OdontogramChart'
+export { OdontogramTimeline } from './OdontogramTimeline'
+export { OdontogramLegend } from './OdontogramLegend'
+export { ToothEditor } from './ToothEditor'
+export { FindingSuggestions } from './FindingSuggestions'
+export { OdontogramProposals } from './OdontogramProposals'
+export { ToothDiagram } from './ToothDiagram'
@@ -29,6 +29,7 @@ export const API_ENDPOINTS = {
   // Users
   USERS: '/api/v1/users',
   USER_BY_ID: (id: string) => `/api/v1/users/${id}`,
+  USER_DOCTORS: '/api/v1/users/doctors',
 
   // Patients
   PATIENTS: '/api/v1/patients',
@@ -37,18 +38,75 @@ export const API_ENDPOINTS = {
   // Appointments
   APPOINTMENTS: '/api/v1/appointments',
   APPOINTMENT_BY_ID: (id: string) => `/api/v1/appointments/${id}`,
+  APPOINTMENT_STATUS: (id: string) => `/api/v1/appointments/${id}/status`,
+  APPOINTMENT_RESCHEDULE: (id: string) => `/api/v1/appointments/${id}/reschedule`,
+  REMINDERS: '/api/v1/reminders',
+  REMINDERS_RUN: '/api/v1/reminders/run',
+
+  // Odontograms
+  PATIENT_ODONTOGRAMS: (patientId: string) => `/api/v1/odontograms/patients/${patientId}/odontograms`,
+  PATIENT_CURRENT_ODONTOGRAM: (patientId: string) =>
+    `/api/v1/odontograms/patients/${patientId}/odontograms/current`,
+  ODONTOGRAM_BY_ID: (id: string) => `/api/v1/odontograms/${id}`,
+  ODONTOGRAM_TOOTH: (id: string, toothNumber: string) => `/api/v1/odontograms/${id}/teeth/${toothNumber}`,
+  ODONTOGRAM_NEW_VERSION: (id: string) => `/api/v1/odontograms/${id}/new-version`,
+  ODONTOGRAM_HISTORY: (id: string) => `/api/v1/odontograms/${id}/history`,
+  ODONTOGRAM_COMPARE: '/api/v1/odontograms/compare',
+  PATIENT_ODONTOGRAM_PROPOSALS: (patientId: string) => `/api/v1/odontograms/patients/${patientId}/proposals`,
+  ODONTOGRAM_PROPOSAL_APPLY: (id: string) => `/api/v1/odontograms/proposals/${id}/apply`,
+  ODONTOGRAM_PROPOSAL_DISMISS: (id: string) => `/api/v1/odontograms/proposals/${id}/dismiss`,
+
+  // Consents
+  CONSENT_TEMPLATES: '/api/v1/consents/templates',
+  PATIENT_CONSENTS: (patientId: string) => `/api/v1/consents/patients/${patientId}/consents`,
+  PATIENT_CONSENT_PREVIEW: (patientId: string) => `/api/v1/consents/patients/${patientId}/preview`,
+  CONSENT_BY_ID: (id: string) => `/api/v1/consents/${id}`,
+  CONSENT_VERIFY: (id: string) => `/api/v1/consents/${id}/verify`,
+
+  // Catalogs
+  CIE10_CODES: '/api/v1/catalogs/cie10',
+  CIE10_IMPORT: '/api/v1/catalogs/cie10/import',
+  TREATMENT_CATALOG: '/api/v1/catalogs/treatments',
+  TREATMENT_CATALOG_BY_ID: (id: string) => `/api/v1/catalogs/treatments/${id}`,
+  TREATMENT_CATALOG_PRICES: (id: string) => `/api/v1/catalogs/treatments/${id}/prices`,
+  PRICE_LISTS: '/api/v1/catalogs/price-lists',
+  PRICE_LIST_BY_ID: (id: string) => `/api/v1/catalogs/price-lists/${id}`,
+  PRICE_LIST_ITEMS: (id: string) => `/api/v1/catalogs/price-lists/${id}/items`,
+  PRICE_LIST_ITEM_BY_ID: (id: string, itemId: string) => `/api/v1/catalogs/price-lists/${id}/items/${itemId}`,
+  PATIENT_PRICES: (patientId: string) => `/api/v1/catalogs/patients/${patientId}/prices`,
+
+  // Insurance
+  INSURERS: '/api/v1/insurance/insurers',
+  INSURER_BY_ID: (id: string) => `/api/v1/insurance/insurers/${id}`,
+  INSURER_PLANS: (id: string) => `/api/v1/insurance/insurers/${id}/plans`,
+  INSURANCE_PLAN_BY_ID: (id: string) => `/api/v1/insurance/plans/${id}`,
+  TREATMENT_COVERAGE: (id: string) => `/api/v1/insurance/treatments/${id}/coverage`,
+  INSURANCE_CLAIMS: '/api/v1/insurance/claims',
+  INSURANCE_CLAIM_BY_ID: (id: string) => `/api/v1/insurance/claims/${id}`,
+  INSURANCE_CLAIM_SUBMIT: (id: string) => `/api/v1/insurance/claims/${id}/submit`,
+  INSURANCE_CLAIM_APPROVE: (id: string) => `/api/v1/insurance/claims/${id}/approve`,
+  INSURANCE_CLAIM_DENY: (id: string) => `/api/v1/insurance/claims/${id}/deny`,
+  INSURANCE_CLAIM_PAYMENTS: (id: string) => `/api/v1/insurance/claims/${id}/payments`,
+
+  // Diagnoses & Treatments
+  PATIENT_DIAGNOSES: (patientId: string) => `/api/v1/medical/patients/${patientId}/diagnoses`,
+  PATIENT_TREATMENTS: (patientId: string) => `/api/v1/medical/patients/${patientId}/treatments`,
 
   // Medical Records
   MEDICAL_RECORDS: '/api/v1/medical-records',
   MEDICAL_RECORD_BY_ID: (id: string) => `/api/v1/medical-records/${id}`,
 
   // Invoices
-  INVOICES: '/api/v1/invoices',
-  INVOICE_BY_ID: (id: string) => `/api/v1/invoices/${id}`,
+  INVOICES: '/api/v1/accounting/invoices',
+  INVOICE_BY_ID: (id: string) => `/api/v1/accounting/invoices/${id}`,
+  INVOICE_ISSUE: (id: string) => `/api/v1/accounting/invoices/${id}/issue`,
+  INVOICE_VOID: (id: string) => `/api/v1/accounting/invoices/${id}/void`,
+  INVOICE_SRI: (id: string) => `/api/v1/accounting/invoices/${id}/sri`,
+  PATIENT_INVOICES: (patientId: string) => `/api/v1/accounting/patients/${patientId}/invoices`,
 
   // Payments
-  PAYMENTS: '/api/v1/payments',
-  PAYMENT_BY_ID: (id: string) => `/api/v1/payments/${id}`,
+  PAYMENT_BY_ID: (id: string) => `/api/v1/accounting/payments/${id}`,
+  PATIENT_PAYMENTS: (patientId: string) => `/api/v1/accounting/patients/${patientId}/payments`,
 
   // Follow-ups
   FOLLOWUPS: '/api/v1/follow-ups',
@@ -96,6 +154,7 @@ export const APPOINTMENT_STATUS = {
   COMPLETED: 'completed',
   CANCELLED: 'cancelled',
   NO_SHOW: 'no_show',
+  RESCHEDULED: 'rescheduled',
 } as const
 
 export const APPOINTMENT_STATUS_LABELS: Record<string, string> = {
@@ -105,6 +164,7 @@ export const APPOINTMENT_STATUS_LABELS: Record<string, string> = {
   completed: 'Completada',
   cancelled: 'Cancelada',
   no_show: 'No asistió',
+  rescheduled: 'Reagendada',
 }
 
 export const APPOINTMENT_STATUS_COLORS: Record<string, string> = {
@@ -114,6 +174,7 @@ export const APPOINTMENT_STATUS_COLORS: Record<string, string> = {
   completed: 'bg-gray-100 text-gray-800',
   cancelled: 'bg-red-100 text-red-800',
   no_show: 'bg-orange-100 text-orange-800',
+  rescheduled: 'bg-purple-100 text-purple-800',
 }
 
 // ============================================
@@ -121,30 +182,49 @@ export const APPOINTMENT_STATUS_COLORS: Record<string, string> = {
 // ============================================
 
 export const INVOICE_STATUS = {
-  DRAFT: 'draft',
-  PENDING: 'pending',
-  PAID: 'paid',
-  PARTIALLY_PAID: 'partially_paid',
-  OVERDUE: 'overdue',
-  CANCELLED: 'cancelled',
+  DRAFT: 'DRAFT',
+  ISSUED: 'ISSUED',
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
+  PAID: 'PAID',
+  VOID: 'VOID',
 } as const
 
 export const INVOICE_STATUS_LABELS: Record<string, string> = {
-  draft: 'Borrador',
-  pending: 'Pendiente',
-  paid: 'Pagada',
-  partially_paid: 'Parcialmente pagada',
-  overdue: 'Vencida',
-  cancelled: 'Cancelada',
+  DRAFT: 'Borrador',
+  ISSUED: 'Emitida',
+  PARTIALLY_PAID: 'Pago parcial',
+  PAID: 'Pagada',
+  VOID: 'Anulada',
+  // Issued invoices past their due date, derived on the client
+  OVERDUE: 'Vencida',
 }
 
 export const INVOICE_STATUS_COLORS: Record<string, string> = {
-  draft: 'bg-gray-100 text-gray-800',
-  pending: 'bg-yellow-100 text-yellow-800',
-  paid: 'bg-green-100 text-green-800',
-  partially_paid: 'bg-blue-100 text-blue-800',
-  overdue: 'bg-red-100 text-red-800',
-  cancelled: 'bg-gray-100 text-gray-800',
+  DRAFT: 'bg-gray-100 text-gray-800',
+  ISSUED: 'bg-yellow-100 text-yellow-800',
+  PARTIALLY_PAID: 'bg-blue-100 text-blue-800',
+  PAID: 'bg-green-100 text-green-800',
+  VOID: 'bg-gray-100 text-gray-500 line-through',
+  OVERDUE: 'bg-red-100 text-red-800',
+}
+
+export const SRI_STATUS_LABELS: Record<string, string> = {
+  RECEIVED: 'SRI: En proceso',
+  AUTHORIZED: 'SRI: Autorizada',
+  REJECTED: 'SRI: Rechazada',
+}
+
+export const SRI_STATUS_COLORS: Record<string, string> = {
+  RECEIVED: 'bg-blue-50 text-blue-700',
+  AUTHORIZED: 'bg-green-50 text-green-700',
+  REJECTED: 'bg-red-50 text-red-700',
+}
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  CASH: 'Efectivo',
+  CARD: 'Tarjeta',
+  TRANSFER: 'Transferencia',
+  CHECK: 'Cheque',
 }
 
 // ============================================
@@ -179,6 +259,56 @@ export const FOLLOWUP_PRIORITY_COLORS: Record<string, string> = {
   urgent: 'bg-red-100 text-red-800',
 }
 
+// ============================================
+// ODONTOGRAM
+// ============================================
+
+export const DENTITION_TYPE_LABELS: Record<string, string> = {
+  PERMANENT: 'Permanente',
+  TEMPORARY: 'Temporal',
+  MIXED: 'Mixta',
+}
+
+export const TOOTH_STATUS_LABELS: Record<string, string> = {
+  HEALTHY: 'Sano',
+  CARIES: 'Caries',
+  FILLED: 'Obturado',
+  MISSING: 'Ausente',
+  FRACTURED: 'Fracturado',
+  CROWN: 'Corona',
+  IMPLANT: 'Implante',
+  ROOT_CANAL: 'Endodoncia',
+  EXTRACTION: 'A extraer',
+  BRIDGE: 'Puente',
+  TEMPORARY: 'Temporal',
+}
+
+/**
+ * Fill colors used to paint teeth and surfaces in the odontogram
+ */
+export const TOOTH_STATUS_COLORS: Record<string, string> = {
+  HEALTHY: '#ffffff',
+  CARIES: '#ef4444',
+  FILLED: '#3b82f6',
+  MISSING: '#9ca3af',
+  FRACTURED: '#f97316',
+  CROWN: '#eab308',
+  IMPLANT: '#14b8a6',
+  ROOT_CANAL: '#a855f7',
+  EXTRACTION: '#b91c1c',
+  BRIDGE: '#6366f1',
+  TEMPORARY: '#22c55e',
+}
+
+export const TOOTH_SURFACE_LABELS: Record<string, string> = {
+  O: 'Oclusal',
+  M: 'Mesial',
+  D: 'Distal',
+  V: 'Vestibular',
+  L: 'Lingual',
+  P: 'Palatina',
+}
+
 // ============================================
 // PAGINATION
 // ============================================
@@ -9,6 +9,10 @@ export { useAuth } from './useAuth'
 export { useToast, toast } from './useToast'
 export { useDashboard } from './useDashboard'
 export { usePatients } from './usePatients'
+export { useDoctors, getDoctorName } from './useDoctors'
+export { useOdontogram } from './useOdontogram'
+export { useConsents } from './useConsents'
+export { useInvoices } from './useInvoices'
 
 // Example exports (to be implemented):
 // export { useUser } from './useUser'
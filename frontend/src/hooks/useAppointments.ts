@@ -9,7 +9,7 @@ export interface Appointment {
   id: number
   patientId: number
   patientName: string
-  doctorId: number
+  doctorId: string
   doctorName: string
   appointmentDate: string
   startTime: string
@@ -47,7 +47,7 @@ export const useAppointments = () => {
   const fetchAppointments = useCallback(async (filters?: {
     startDate?: string
     endDate?: string
-    doctorId?: number
+    doctorId?: string
     patientId?: number
     status?: string
     type?: string
@@ -66,7 +66,7 @@ export const useAppointments = () => {
           id: 1,
           patientId: 1,
           patientName: 'Juan Pérez García',
-          doctorId: 1,
+          doctorId: '1',
           doctorName: 'Dr. Carlos Mendoza',
           appointmentDate: '2025-11-07',
           startTime: '09:00',
@@ -82,7 +82,7 @@ export const useAppointments = () => {
           id: 2,
           patientId: 2,
           patientName: 'María López Sánchez',
-          doctorId: 1,
+          doctorId: '1',
           doctorName: 'Dr. Carlos Mendoza',
           appointmentDate: '2025-11-07',
           startTime: '10:00',
@@ -99,7 +99,7 @@ export const useAppointments = () => {
           id: 3,
           patientId: 3,
           patientName: 'Pedro Rodríguez Gómez',
-          doctorId: 2,
+          doctorId: '2',
           doctorName: 'Dra. Ana Martínez',
           appointmentDate: '2025-11-07',
           startTime: '11:00',
@@ -115,7 +115,7 @@ export const useAppointments = () => {
           id: 4,
           patientId: 4,
           patientName: 'Ana Torres Vega',
-          doctorId: 1,
+          doctorId: '1',
           doctorName: 'Dr. Carlos Mendoza',
           appointmentDate: '2025-11-08',
           startTime: '14:00',
@@ -131,7 +131,7 @@ export const useAppointments = () => {
           id: 5,
           patientId: 5,
           patientName: 'Luis Fernández Castro',
-          doctorId: 2,
+          doctorId: '2',
           doctorName: 'Dra. Ana Martínez',
           appointmentDate: '2025-11-09',
           startTime: '09:30',
@@ -278,7 +278,7 @@ export const useAppointments = () => {
    * Check availability for a specific date and time
    */
   const checkAvailability = async (
-    doctorId: number,
+    doctorId: string,
     date: string,
     startTime: string,
     endTime: string,
@@ -308,7 +308,7 @@ export const useAppointments = () => {
    * Get available time slots for a doctor on a specific date
    */
   const getAvailableSlots = async (
-    doctorId: number,
+    doctorId: string,
     date: string,
     duration: number = 30
   ): Promise<AvailabilitySlot[]> => {
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { consentsApi } from '@/lib/api/consents.api'
+import type { ConsentTemplate, PatientConsent, SignConsentData } from '@/types'
+
+/**
+ * Custom hook for a patient's signed consents and the templates available to sign
+ */
+export function useConsents(patientId: string | null) {
+  const [consents, setConsents] = useState<PatientConsent[]>([])
+  const [templates, setTemplates] = useState<ConsentTemplate[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  /**
+   * Fetch signed consents and active templates
+   */
+  const fetchConsents = useCallback(async () => {
+    if (!patientId) {
+      setConsents([])
+      return
+    }
+
+    setLoading(true)
+    try {
+      const [signed, available] = await Promise.all([
+        consentsApi.getByPatient(patientId),
+        consentsApi.getTemplates(),
+      ])
+      setConsents(signed)
+      setTemplates(available)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al cargar los consentimientos')
+    } finally {
+      setLoading(false)
+    }
+  }, [patientId])
+
+  useEffect(() => {
+    fetchConsents()
+  }, [fetchConsents])
+
+  /**
+   * Sign a consent and add it to the list
+   */
+  const signConsent = async (data: SignConsentData): Promise<boolean> => {
+    if (!patientId) return false
+
+    setSaving(true)
+    try {
+      const consent = await consentsApi.sign(patientId, data)
+      setConsents((current) => [consent, ...current])
+      toast.success('Consentimiento firmado')
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al firmar el consentimiento')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  /**
+   * Check that a signed consent has not been altered
+   */
+  const verifyConsent = async (id: string) => {
+    try {
+      const { valid } = await consentsApi.verify(id)
+      if (valid) {
+        toast.success('El documento firmado está íntegro')
+      } else {
+        toast.error('El documento firmado fue alterado')
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al verificar el consentimiento')
+    }
+  }
+
+  return {
+    consents,
+    templates,
+    loading,
+    saving,
+    fetchConsents,
+    signConsent,
+    verifyConsent,
+  }
+}
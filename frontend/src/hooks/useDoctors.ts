@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { usersApi } from '@/lib/api/users.api'
+import type { Doctor } from '@/types'
+
+/**
+ * Custom hook for loading active doctors
+ * Used to populate doctor pickers in appointment forms and filters
+ */
+export function useDoctors() {
+  const [doctors, setDoctors] = useState<Doctor[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Fetch active doctors
+   */
+  const fetchDoctors = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const data = await usersApi.getDoctors()
+      setDoctors(data)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error al cargar doctores'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDoctors()
+  }, [fetchDoctors])
+
+  return {
+    doctors,
+    loading,
+    error,
+    fetchDoctors,
+  }
+}
+
+/**
+ * Display name for a doctor
+ */
+export function getDoctorName(doctor: Pick<Doctor, 'firstName' | 'lastName'>): string {
+  return `${doctor.firstName} ${doctor.lastName}`
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { accountingApi } from '@/lib/api/accounting.api'
+import { SriStatus, type Invoice } from '@/types'
+
+/** Invoices loaded for the billing page (newest first) */
+const INVOICES_LIMIT = 100
+
+/**
+ * Custom hook for the latest invoices and their lifecycle actions
+ */
+export function useInvoices() {
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  /**
+   * Fetch the latest invoices
+   */
+  const fetchInvoices = useCallback(async () => {
+    setLoading(true)
+    try {
+      const result = await accountingApi.getInvoices({ limit: INVOICES_LIMIT })
+      setInvoices(result.data)
+      setTotal(result.pagination.total)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al cargar las facturas')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [fetchInvoices])
+
+  const replaceInvoice = (invoice: Invoice) => {
+    setInvoices((current) => current.map((item) => (item.id === invoice.id ? invoice : item)))
+  }
+
+  /**
+   * Issue a draft, assigning its number
+   */
+  const issueInvoice = async (id: string): Promise<boolean> => {
+    try {
+      const invoice = await accountingApi.issueInvoice(id)
+      replaceInvoice(invoice)
+      toast.success(`Factura ${invoice.number} emitida`)
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al emitir la factura')
+      return false
+    }
+  }
+
+  /**
+   * Void an issued invoice without payments
+   */
+  const voidInvoice = async (id: string, reason: string): Promise<boolean> => {
+    try {
+      const invoice = await accountingApi.voidInvoice(id, reason)
+      replaceInvoice(invoice)
+      toast.success(`Factura ${invoice.number} anulada`)
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al anular la factura')
+      return false
+    }
+  }
+
+  /**
+   * Sign and submit an issued invoice to the SRI
+   */
+  const submitInvoiceToSri = async (id: string): Promise<boolean> => {
+    try {
+      const invoice = await accountingApi.submitInvoiceToSri(id)
+      replaceInvoice(invoice)
+      if (invoice.sriStatus === SriStatus.AUTHORIZED) {
+        toast.success(`Factura ${invoice.number} autorizada por el SRI`)
+      } else if (invoice.sriStatus === SriStatus.RECEIVED) {
+        toast.info(`Factura ${invoice.number} recibida por el SRI, autorización pendiente`)
+      } else {
+        toast.error(invoice.sriMessages?.[0]?.message ?? `El SRI rechazó la factura ${invoice.number}`)
+      }
+      return invoice.sriStatus !== SriStatus.REJECTED
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al enviar la factura al SRI')
+      return false
+    }
+  }
+
+  /**
+   * Delete a draft
+   */
+  const deleteInvoice = async (id: string): Promise<boolean> => {
+    try {
+      await accountingApi.deleteInvoice(id)
+      setInvoices((current) => current.filter((item) => item.id !== id))
+      setTotal((current) => current - 1)
+      toast.success('Borrador eliminado')
+      return true
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al eliminar la factura')
+      return false
+    }
+  }
+
+  return {
+    invoices,
+    total,
+    loading,
+    fetchInvoices,
+    issueInvoice,
+    voidInvoice,
+    submitInvoiceToSri,
+    deleteInvoice,
+  }
+}
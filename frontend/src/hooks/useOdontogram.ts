@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback } from 'react'
+import { toast } from 'sonner'
+import { odontogramsApi } from '@/lib/api/odontograms.api'
+import type {
+  DentitionType,
+  FindingSuggestion,
+  Odontogram,
+  OdontogramProposal,
+  Tooth,
+  UpdateToothData,
+} from '@/types'
+
+/**
+ * Custom hook for a patient's current odontogram
+ * Loads the chart and keeps it in sync after tooth updates and new versions,
+ * along with the suggestions of the last saved tooth and pending proposals
+ */
+export function useOdontogram(patientId: string | null) {
+  const [odontogram, setOdontogram] = useState<Odontogram | null>(null)
+  const [suggestions, setSuggestions] = useState<FindingSuggestion[]>([])
+  const [proposals, setProposals] = useState<OdontogramProposal[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Fetch the current odontogram
+   */
+  const fetchOdontogram = useCallback(async () => {
+    if (!patientId) {
+      setOdontogram(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const data = await odontogramsApi.getCurrent(patientId)
+      setOdontogram(data)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Error al cargar el odontograma'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }, [patientId])
+
+  /**
+   * Fetch chart changes proposed by completed treatments
+   */
+  const fetchProposals = useCallback(async () => {
+    if (!patientId) {
+      setProposals([])
+      return
+    }
+
+    try {
+      const data = await odontogramsApi.getProposals(patientId, 'PENDING')
+      setProposals(data)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al cargar las propuestas')
+    }
+  }, [patientId])
+
+  useEffect(() => {
+    fetchOdontogram()
+    fetchProposals()
+  }, [fetchOdontogram, fetchProposals])
+
+  /**
+   * Create the patient's first odontogram
+   */
+  const createOdontogram = async (type: DentitionType, generalNotes?: string) => {
+    if (!patientId) return
+
+    setSaving(true)
+    try {
+      const data = await odontogramsApi.create(patientId, { type, generalNotes })
+      setOdontogram(data)
+      toast.success('Odontograma creado exitosamente')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al crear el odontograma')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  /**
+   * Save a tooth of the current odontogram
+   */
+  const updateTooth = async (toothNumber: string, data: UpdateToothData): Promise<Tooth | null> => {
+    if (!odontogram) return null
+
+    setSaving(true)
+    try {
+      const { suggestions: found, ...tooth } = await odontogramsApi.updateTooth(
+        odontogram.id,
+        toothNumber,
+        data
+      )
+      setSuggestions(found)
+      setOdontogram({
+        ...odontogram,
+        teeth: odontogram.teeth.map((t) => (t.toothNumber === toothNumber ? tooth : t)),
+      })
+      toast.success(`Pieza ${toothNumber} actualizada`)
+      return tooth
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al guardar la pieza dental')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  /**
+   * Start a new version from the current odontogram
+   */
+  const createNewVersion = async () => {
+    if (!odontogram) return
+
+    setSaving(true)
+    try {
+      const data = await odontogramsApi.createNewVersion(odontogram.id)
+      setOdontogram(data)
+      toast.success(`Versión ${data.version} creada`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al crear la nueva versión')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  /**
+   * Apply a proposal; the resulting version becomes the current odontogram
+   */
+  const applyProposal = async (id: string) => {
+    setSaving(true)
+    try {
+      const { odontogram: data } = await odontogramsApi.applyProposal(id)
+      setOdontogram(data)
+      setProposals((current) => current.filter((p) => p.id !== id))
+      toast.success(`Propuesta aplicada (versión ${data.version})`)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al aplicar la propuesta')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  /**
+   * Dismiss a proposal
+   */
+  const dismissProposal = async (id: string) => {
+    setSaving(true)
+    try {
+      await odontogramsApi.dismissProposal(id)
+      setProposals((current) => current.filter((p) => p.id !== id))
+      toast.success('Propuesta descartada')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Error al descartar la propuesta')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  /**
+   * Remove a suggestion once it has been handled
+   */
+  const dismissSuggestion = (suggestion: FindingSuggestion) => {
+    setSuggestions((current) => current.filter((s) => s !== suggestion))
+  }
+
+  return {
+    odontogram,
+    suggestions,
+    proposals,
+    loading,
+    saving,
+    error,
+    fetchOdontogram,
+    fetchProposals,
+    createOdontogram,
+    updateTooth,
+    createNewVersion,
+    applyProposal,
+    dismissProposal,
+    dismissSuggestion,
+  }
+}
@@ -0,0 +1,88 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type {
+  CreateInvoiceData,
+  CreatePatientPaymentData,
+  Invoice,
+  InvoiceFilters,
+  PaginatedResponse,
+  PatientPayment,
+  UpdateInvoiceData,
+} from '@/types'
+
+/**
+ * Accounting API functions (invoices and patient payments)
+ */
+export const accountingApi = {
+  /**
+   * Get invoices with filters and pagination
+   */
+  getInvoices: async (filters: InvoiceFilters = {}): Promise<PaginatedResponse<Invoice>> => {
+    return apiClient.get<PaginatedResponse<Invoice>>(API_ENDPOINTS.INVOICES, {
+      params: { ...filters, search: filters.search || undefined },
+    })
+  },
+
+  /**
+   * Get the invoices of a patient (newest first)
+   */
+  getPatientInvoices: async (patientId: string): Promise<Invoice[]> => {
+    return apiClient.get<Invoice[]>(API_ENDPOINTS.PATIENT_INVOICES(patientId))
+  },
+
+  /**
+   * Get an invoice with its items
+   */
+  getInvoice: async (id: string): Promise<Invoice> => {
+    return apiClient.get<Invoice>(API_ENDPOINTS.INVOICE_BY_ID(id))
+  },
+
+  /**
+   * Create a draft invoice
+   */
+  createInvoice: async (data: CreateInvoiceData): Promise<Invoice> => {
+    return apiClient.post<Invoice>(API_ENDPOINTS.INVOICES, data)
+  },
+
+  /**
+   * Update a draft invoice (items are replaced when given)
+   */
+  updateInvoice: async (id: string, data: UpdateInvoiceData): Promise<Invoice> => {
+    return apiClient.put<Invoice>(API_ENDPOINTS.INVOICE_BY_ID(id), data)
+  },
+
+  /**
+   * Delete a draft invoice
+   */
+  deleteInvoice: async (id: string): Promise<void> => {
+    await apiClient.delete(API_ENDPOINTS.INVOICE_BY_ID(id))
+  },
+
+  /**
+   * Issue a draft invoice, assigning its number
+   */
+  issueInvoice: async (id: string, dueDate?: string): Promise<Invoice> => {
+    return apiClient.post<Invoice>(API_ENDPOINTS.INVOICE_ISSUE(id), { dueDate })
+  },
+
+  /**
+   * Void an issued invoice without payments
+   */
+  voidInvoice: async (id: string, reason: string): Promise<Invoice> => {
+    return apiClient.post<Invoice>(API_ENDPOINTS.INVOICE_VOID(id), { reason })
+  },
+
+  /**
+   * Sign and submit an issued invoice to the SRI
+   */
+  submitInvoiceToSri: async (id: string): Promise<Invoice> => {
+    return apiClient.post<Invoice>(API_ENDPOINTS.INVOICE_SRI(id))
+  },
+
+  /**
+   * Record a patient payment, allocated to an invoice when invoiceId is given
+   */
+  createPayment: async (data: CreatePatientPaymentData): Promise<PatientPayment> => {
+    return apiClient.post<PatientPayment>(API_ENDPOINTS.PATIENT_PAYMENTS(data.patientId), data)
+  },
+}
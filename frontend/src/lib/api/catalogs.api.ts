@@ -0,0 +1,100 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type {
+  CatalogSearchParams,
+  Cie10Code,
+  Cie10ImportResult,
+  PaginatedResponse,
+  PatientPrices,
+  PriceList,
+  PriceListItem,
+  TreatmentCatalogItem,
+  TreatmentCatalogPrice,
+} from '@/types'
+
+/**
+ * Catalogs API functions (CIE-10 codes, treatment catalog and price lists)
+ */
+export const catalogsApi = {
+  /**
+   * Search CIE-10 codes by code prefix or words of the name
+   */
+  searchCie10: async (params: CatalogSearchParams = {}): Promise<PaginatedResponse<Cie10Code>> => {
+    return apiClient.get<PaginatedResponse<Cie10Code>>(API_ENDPOINTS.CIE10_CODES, { params })
+  },
+
+  /**
+   * Import the K00–K14 chapter from the text of a CSV file
+   */
+  importCie10: async (csv: string): Promise<Cie10ImportResult> => {
+    return apiClient.post<Cie10ImportResult>(API_ENDPOINTS.CIE10_IMPORT, { csv })
+  },
+
+  /**
+   * Search catalog treatments (active only unless includeInactive)
+   */
+  searchTreatments: async (
+    params: CatalogSearchParams = {}
+  ): Promise<PaginatedResponse<TreatmentCatalogItem>> => {
+    return apiClient.get<PaginatedResponse<TreatmentCatalogItem>>(API_ENDPOINTS.TREATMENT_CATALOG, {
+      params,
+    })
+  },
+
+  /**
+   * Update a catalog treatment; a new baseCost is recorded in the price history
+   */
+  updateTreatment: async (
+    id: string,
+    data: Partial<Omit<TreatmentCatalogItem, 'id'>> & { priceChangeReason?: string }
+  ): Promise<TreatmentCatalogItem> => {
+    return apiClient.put<TreatmentCatalogItem>(API_ENDPOINTS.TREATMENT_CATALOG_BY_ID(id), data)
+  },
+
+  /**
+   * Get the price history of a catalog treatment (newest first)
+   */
+  getTreatmentPrices: async (id: string): Promise<TreatmentCatalogPrice[]> => {
+    return apiClient.get<TreatmentCatalogPrice[]>(API_ENDPOINTS.TREATMENT_CATALOG_PRICES(id))
+  },
+
+  /**
+   * Get price lists (active only unless includeInactive)
+   */
+  getPriceLists: async (includeInactive = false): Promise<PriceList[]> => {
+    return apiClient.get<PriceList[]>(API_ENDPOINTS.PRICE_LISTS, { params: { includeInactive } })
+  },
+
+  /**
+   * Get a price list with its prices
+   */
+  getPriceList: async (id: string): Promise<PriceList> => {
+    return apiClient.get<PriceList>(API_ENDPOINTS.PRICE_LIST_BY_ID(id))
+  },
+
+  /**
+   * Add the price of a procedure to a list, optionally for a period
+   */
+  addPriceListItem: async (
+    id: string,
+    data: { catalogId: string; price: number; validFrom?: string; validTo?: string }
+  ): Promise<PriceListItem> => {
+    return apiClient.post<PriceListItem>(API_ENDPOINTS.PRICE_LIST_ITEMS(id), data)
+  },
+
+  /**
+   * Remove the price of a procedure from a list
+   */
+  removePriceListItem: async (id: string, itemId: string): Promise<void> => {
+    return apiClient.delete<void>(API_ENDPOINTS.PRICE_LIST_ITEM_BY_ID(id, itemId))
+  },
+
+  /**
+   * Get the price list applied to a patient and the prices of some procedures
+   */
+  getPatientPrices: async (patientId: string, catalogIds: string[]): Promise<PatientPrices> => {
+    return apiClient.get<PatientPrices>(API_ENDPOINTS.PATIENT_PRICES(patientId), {
+      params: { catalogIds: catalogIds.join(',') },
+    })
+  },
+}
@@ -0,0 +1,60 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type {
+  ConsentPreview,
+  ConsentTarget,
+  ConsentTemplate,
+  ConsentVerification,
+  PatientConsent,
+  PatientConsentDetail,
+  SignConsentData,
+} from '@/types'
+
+/**
+ * Consents API functions
+ */
+export const consentsApi = {
+  /**
+   * Get active consent templates
+   */
+  getTemplates: async (): Promise<ConsentTemplate[]> => {
+    return apiClient.get<ConsentTemplate[]>(API_ENDPOINTS.CONSENT_TEMPLATES)
+  },
+
+  /**
+   * Get the signed consents of a patient (newest first)
+   */
+  getByPatient: async (patientId: string): Promise<PatientConsent[]> => {
+    return apiClient.get<PatientConsent[]>(API_ENDPOINTS.PATIENT_CONSENTS(patientId))
+  },
+
+  /**
+   * Generate the document to be signed, filled with the patient and procedures
+   */
+  preview: async (patientId: string, target: ConsentTarget): Promise<ConsentPreview> => {
+    return apiClient.get<ConsentPreview>(API_ENDPOINTS.PATIENT_CONSENT_PREVIEW(patientId), {
+      params: target,
+    })
+  },
+
+  /**
+   * Sign a consent with the typed name and the drawn signature
+   */
+  sign: async (patientId: string, data: SignConsentData): Promise<PatientConsent> => {
+    return apiClient.post<PatientConsent>(API_ENDPOINTS.PATIENT_CONSENTS(patientId), data)
+  },
+
+  /**
+   * Get a signed consent with its document and signature
+   */
+  getById: async (id: string): Promise<PatientConsentDetail> => {
+    return apiClient.get<PatientConsentDetail>(API_ENDPOINTS.CONSENT_BY_ID(id))
+  },
+
+  /**
+   * Check that a signed consent has not been altered
+   */
+  verify: async (id: string): Promise<ConsentVerification> => {
+    return apiClient.get<ConsentVerification>(API_ENDPOINTS.CONSENT_VERIFY(id))
+  },
+}
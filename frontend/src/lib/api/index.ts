@@ -3,6 +3,14 @@
  */
 export { apiClient } from './client'
 export { authApi } from './auth.api'
+export { usersApi } from './users.api'
+export { patientsApi } from './patients.api'
+export { odontogramsApi } from './odontograms.api'
+export { medicalApi } from './medical.api'
+export { consentsApi } from './consents.api'
+export { catalogsApi } from './catalogs.api'
+export { accountingApi } from './accounting.api'
+export { insuranceApi } from './insurance.api'
 
 // Export types for API responses
 export type { AxiosError } from 'axios'
@@ -0,0 +1,132 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type {
+  ClaimPayment,
+  ClaimSearchParams,
+  CreateClaimData,
+  CreateClaimPaymentData,
+  InsuranceClaim,
+  InsurancePlan,
+  InsurancePlanData,
+  Insurer,
+  PaginatedResponse,
+  TreatmentCoverage,
+} from '@/types'
+
+type InsurerData = Pick<Insurer, 'name'> & Partial<Pick<Insurer, 'ruc' | 'phone' | 'email' | 'isActive'>>
+
+/**
+ * Insurance API functions (insurers, plans, coverage and claims)
+ */
+export const insuranceApi = {
+  /**
+   * Get insurers (active only unless includeInactive)
+   */
+  getInsurers: async (includeInactive = false): Promise<Insurer[]> => {
+    return apiClient.get<Insurer[]>(API_ENDPOINTS.INSURERS, { params: { includeInactive } })
+  },
+
+  /**
+   * Get an insurer with its plans and coverage rules
+   */
+  getInsurer: async (id: string): Promise<Insurer> => {
+    return apiClient.get<Insurer>(API_ENDPOINTS.INSURER_BY_ID(id))
+  },
+
+  /**
+   * Create an insurer
+   */
+  createInsurer: async (data: InsurerData): Promise<Insurer> => {
+    return apiClient.post<Insurer>(API_ENDPOINTS.INSURERS, data)
+  },
+
+  /**
+   * Update an insurer
+   */
+  updateInsurer: async (id: string, data: Partial<InsurerData>): Promise<Insurer> => {
+    return apiClient.put<Insurer>(API_ENDPOINTS.INSURER_BY_ID(id), data)
+  },
+
+  /**
+   * Create a plan of an insurer with its coverage rules
+   */
+  createPlan: async (insurerId: string, data: InsurancePlanData): Promise<InsurancePlan> => {
+    return apiClient.post<InsurancePlan>(API_ENDPOINTS.INSURER_PLANS(insurerId), data)
+  },
+
+  /**
+   * Update a plan; rules replace the current ones
+   */
+  updatePlan: async (id: string, data: Partial<InsurancePlanData>): Promise<InsurancePlan> => {
+    return apiClient.put<InsurancePlan>(API_ENDPOINTS.INSURANCE_PLAN_BY_ID(id), data)
+  },
+
+  /**
+   * Get the split of a treatment cost between the insurer and the patient
+   */
+  getTreatmentCoverage: async (treatmentId: string): Promise<TreatmentCoverage> => {
+    return apiClient.get<TreatmentCoverage>(API_ENDPOINTS.TREATMENT_COVERAGE(treatmentId))
+  },
+
+  /**
+   * Search claims
+   */
+  getClaims: async (params: ClaimSearchParams = {}): Promise<PaginatedResponse<InsuranceClaim>> => {
+    return apiClient.get<PaginatedResponse<InsuranceClaim>>(API_ENDPOINTS.INSURANCE_CLAIMS, { params })
+  },
+
+  /**
+   * Get a claim with its treatments and remittances
+   */
+  getClaim: async (id: string): Promise<InsuranceClaim> => {
+    return apiClient.get<InsuranceClaim>(API_ENDPOINTS.INSURANCE_CLAIM_BY_ID(id))
+  },
+
+  /**
+   * Create a draft claim from completed treatments
+   */
+  createClaim: async (data: CreateClaimData): Promise<InsuranceClaim> => {
+    return apiClient.post<InsuranceClaim>(API_ENDPOINTS.INSURANCE_CLAIMS, data)
+  },
+
+  /**
+   * Delete a draft claim
+   */
+  deleteClaim: async (id: string): Promise<void> => {
+    await apiClient.delete(API_ENDPOINTS.INSURANCE_CLAIM_BY_ID(id))
+  },
+
+  /**
+   * Submit a claim to the insurer
+   */
+  submitClaim: async (
+    id: string,
+    data: { preauthorizationNumber?: string; insurerReference?: string } = {}
+  ): Promise<InsuranceClaim> => {
+    return apiClient.post<InsuranceClaim>(API_ENDPOINTS.INSURANCE_CLAIM_SUBMIT(id), data)
+  },
+
+  /**
+   * Record the approval; treatments not listed are approved for the claimed amount
+   */
+  approveClaim: async (
+    id: string,
+    data: { items?: { treatmentId: string; approvedAmount: number }[]; insurerReference?: string } = {}
+  ): Promise<InsuranceClaim> => {
+    return apiClient.post<InsuranceClaim>(API_ENDPOINTS.INSURANCE_CLAIM_APPROVE(id), data)
+  },
+
+  /**
+   * Record the denial of a claim
+   */
+  denyClaim: async (id: string, reason: string): Promise<InsuranceClaim> => {
+    return apiClient.post<InsuranceClaim>(API_ENDPOINTS.INSURANCE_CLAIM_DENY(id), { reason })
+  },
+
+  /**
+   * Post a remittance of the insurer; it reduces the balance of the treatments
+   */
+  createClaimPayment: async (id: string, data: CreateClaimPaymentData): Promise<ClaimPayment> => {
+    return apiClient.post<ClaimPayment>(API_ENDPOINTS.INSURANCE_CLAIM_PAYMENTS(id), data)
+  },
+}
@@ -0,0 +1,22 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type { CreateDiagnosisData, CreateTreatmentData } from '@/types'
+
+/**
+ * Diagnoses and treatments API functions
+ */
+export const medicalApi = {
+  /**
+   * Record a CIE-10 diagnosis for a patient
+   */
+  createDiagnosis: async (patientId: string, data: CreateDiagnosisData): Promise<{ id: string }> => {
+    return apiClient.post<{ id: string }>(API_ENDPOINTS.PATIENT_DIAGNOSES(patientId), data)
+  },
+
+  /**
+   * Plan a treatment from the catalog for a patient
+   */
+  createTreatment: async (patientId: string, data: CreateTreatmentData): Promise<{ id: string }> => {
+    return apiClient.post<{ id: string }>(API_ENDPOINTS.PATIENT_TREATMENTS(patientId), data)
+  },
+}
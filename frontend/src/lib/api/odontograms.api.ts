@@ -0,0 +1,106 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type {
+  DentitionType,
+  Odontogram,
+  OdontogramComparison,
+  OdontogramProposal,
+  OdontogramProposalStatus,
+  OdontogramSummary,
+  ToothUpdateResult,
+  UpdateToothData,
+} from '@/types'
+
+/**
+ * Odontograms API functions
+ */
+export const odontogramsApi = {
+  /**
+   * Get the current odontogram of a patient (null if the patient has none)
+   */
+  getCurrent: async (patientId: string): Promise<Odontogram | null> => {
+    return apiClient.get<Odontogram | null>(API_ENDPOINTS.PATIENT_CURRENT_ODONTOGRAM(patientId))
+  },
+
+  /**
+   * Get an odontogram version with its teeth
+   */
+  getById: async (id: string): Promise<Odontogram> => {
+    return apiClient.get<Odontogram>(API_ENDPOINTS.ODONTOGRAM_BY_ID(id))
+  },
+
+  /**
+   * Get every version of the patient's odontogram (newest first), from any version ID
+   */
+  getHistory: async (id: string): Promise<OdontogramSummary[]> => {
+    return apiClient.get<OdontogramSummary[]>(API_ENDPOINTS.ODONTOGRAM_HISTORY(id))
+  },
+
+  /**
+   * Compare two versions of the same patient's odontogram (v1 is the older one)
+   */
+  compare: async (v1: string, v2: string): Promise<OdontogramComparison> => {
+    return apiClient.get<OdontogramComparison>(API_ENDPOINTS.ODONTOGRAM_COMPARE, {
+      params: { v1, v2 },
+    })
+  },
+
+  /**
+   * Create the first odontogram of a patient (all teeth healthy)
+   */
+  create: async (
+    patientId: string,
+    data: { type: DentitionType; generalNotes?: string }
+  ): Promise<Odontogram> => {
+    return apiClient.post<Odontogram>(API_ENDPOINTS.PATIENT_ODONTOGRAMS(patientId), data)
+  },
+
+  /**
+   * Save the status, surfaces and notes of a tooth
+   * The result carries the diagnoses and treatments suggested by new findings
+   */
+  updateTooth: async (
+    id: string,
+    toothNumber: string,
+    data: UpdateToothData
+  ): Promise<ToothUpdateResult> => {
+    return apiClient.put<ToothUpdateResult>(API_ENDPOINTS.ODONTOGRAM_TOOTH(id, toothNumber), data)
+  },
+
+  /**
+   * Create a new version copying every tooth of the given one
+   */
+  createNewVersion: async (id: string): Promise<Odontogram> => {
+    return apiClient.post<Odontogram>(API_ENDPOINTS.ODONTOGRAM_NEW_VERSION(id))
+  },
+
+  /**
+   * Get chart changes proposed by the patient's completed treatments
+   */
+  getProposals: async (
+    patientId: string,
+    status?: OdontogramProposalStatus
+  ): Promise<OdontogramProposal[]> => {
+    return apiClient.get<OdontogramProposal[]>(API_ENDPOINTS.PATIENT_ODONTOGRAM_PROPOSALS(patientId), {
+      params: { status },
+    })
+  },
+
+  /**
+   * Apply a proposal, creating a new version of the current odontogram
+   */
+  applyProposal: async (
+    id: string
+  ): Promise<{ proposal: OdontogramProposal; odontogram: Odontogram }> => {
+    return apiClient.post<{ proposal: OdontogramProposal; odontogram: Odontogram }>(
+      API_ENDPOINTS.ODONTOGRAM_PROPOSAL_APPLY(id)
+    )
+  },
+
+  /**
+   * Dismiss a proposal without changing the chart
+   */
+  dismissProposal: async (id: string): Promise<OdontogramProposal> => {
+    return apiClient.post<OdontogramProposal>(API_ENDPOINTS.ODONTOGRAM_PROPOSAL_DISMISS(id))
+  },
+}
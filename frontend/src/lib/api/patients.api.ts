@@ -0,0 +1,18 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type { PatientSummary } from '@/types'
+
+/**
+ * Patients API functions
+ */
+export const patientsApi = {
+  /**
+   * Search patients by name or identification (for patient pickers)
+   */
+  search: async (search: string, limit = 10): Promise<PatientSummary[]> => {
+    const result = await apiClient.get<{ data: PatientSummary[] }>(API_ENDPOINTS.PATIENTS, {
+      params: { search: search || undefined, limit },
+    })
+    return result.data
+  },
+}
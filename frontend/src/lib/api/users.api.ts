@@ -0,0 +1,22 @@
+import { apiClient } from './client'
+import { API_ENDPOINTS } from '@/constants'
+import type { Doctor, User } from '@/types'
+
+/**
+ * Users API functions
+ */
+export const usersApi = {
+  /**
+   * Get active doctors (for doctor pickers)
+   */
+  getDoctors: async (): Promise<Doctor[]> => {
+    return apiClient.get<Doctor[]>(API_ENDPOINTS.USER_DOCTORS)
+  },
+
+  /**
+   * Get user by ID
+   */
+  getById: async (id: string): Promise<User> => {
+    return apiClient.get<User>(API_ENDPOINTS.USER_BY_ID(id))
+  },
+}
@@ -0,0 +1,83 @@
+import type { DentitionType, ToothSurface } from '@/types'
+
+/**
+ * FDI tooth numbering helpers for the odontogram chart
+ *
+ * Rows are laid out as seen from the front of the patient: the patient's
+ * right side (quadrants 1/4 and 5/8) is drawn on the left of the chart.
+ */
+
+const range = (quadrant: number, from: number, to: number): string[] => {
+  const step = from <= to ? 1 : -1
+  const teeth: string[] = []
+  for (let i = from; i !== to + step; i += step) {
+    teeth.push(`${quadrant}${i}`)
+  }
+  return teeth
+}
+
+export interface OdontogramRow {
+  label: string
+  right: string[]
+  left: string[]
+}
+
+const PERMANENT_UPPER: OdontogramRow = {
+  label: 'Superior permanente',
+  right: range(1, 8, 1),
+  left: range(2, 1, 8),
+}
+
+const PERMANENT_LOWER: OdontogramRow = {
+  label: 'Inferior permanente',
+  right: range(4, 8, 1),
+  left: range(3, 1, 8),
+}
+
+const TEMPORARY_UPPER: OdontogramRow = {
+  label: 'Superior temporal',
+  right: range(5, 5, 1),
+  left: range(6, 1, 5),
+}
+
+const TEMPORARY_LOWER: OdontogramRow = {
+  label: 'Inferior temporal',
+  right: range(8, 5, 1),
+  left: range(7, 1, 5),
+}
+
+/**
+ * Chart rows for a dentition type (top to bottom)
+ */
+export function getOdontogramRows(type: DentitionType): OdontogramRow[] {
+  switch (type) {
+    case 'TEMPORARY':
+      return [TEMPORARY_UPPER, TEMPORARY_LOWER]
+    case 'MIXED':
+      return [PERMANENT_UPPER, TEMPORARY_UPPER, TEMPORARY_LOWER, PERMANENT_LOWER]
+    default:
+      return [PERMANENT_UPPER, PERMANENT_LOWER]
+  }
+}
+
+/**
+ * Upper arch teeth (quadrants 1, 2, 5 and 6)
+ */
+export function isUpperTooth(toothNumber: string): boolean {
+  return ['1', '2', '5', '6'].includes(toothNumber.charAt(0))
+}
+
+/**
+ * Teeth drawn on the left of the chart (patient's right: quadrants 1, 4, 5 and 8)
+ */
+export function isPatientRightTooth(toothNumber: string): boolean {
+  return ['1', '4', '5', '8'].includes(toothNumber.charAt(0))
+}
+
+/**
+ * Surfaces that apply to a tooth: the inner face is palatal on the upper arch
+ * and lingual on the lower arch
+ */
+export function getToothSurfaces(toothNumber: string): ToothSurface[] {
+  return ['O', 'M', 'D', 'V', isUpperTooth(toothNumber) ? 'P' : 'L']
+}
@@ -9,9 +9,9 @@ export const appointmentSchema = z.object({
     required_error: 'El paciente es requerido',
   }).positive('Seleccione un paciente válido'),
 
-  doctorId: z.number({
+  doctorId: z.string({
     required_error: 'El doctor es requerido',
-  }).positive('Seleccione un doctor válido'),
+  }).uuid('Seleccione un doctor válido'),
 
   appointmentDate: z.date({
     required_error: 'La fecha es requerida',
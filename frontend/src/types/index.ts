@@ -15,6 +15,15 @@ export interface User {
   updatedAt: string
 }
 
+export interface Doctor {
+  id: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string | null
+  avatar: string | null
+}
+
 export enum UserRole {
   ADMIN = 'admin',
   DOCTOR = 'doctor',
@@ -103,6 +112,12 @@ export interface Patient {
   province?: string
   emergencyContact?: EmergencyContact
   insuranceInfo?: InsuranceInfo
+  /** Price list assigned to the patient; otherwise the insurer or default list applies */
+  priceListId?: string | null
+  /** Insurer plan that covers part of the treatment costs */
+  insurancePlanId?: string | null
+  /** Waiting periods of the plan count from this date */
+  insuranceStartDate?: string | null
   medicalHistory?: string
   allergies?: string
   medications?: string
@@ -111,6 +126,16 @@ export interface Patient {
   updatedAt: string
 }
 
+/**
+ * Patient as returned by the patients API (used in pickers)
+ */
+export interface PatientSummary {
+  id: string
+  firstName: string
+  lastName: string
+  identification: string
+}
+
 export interface EmergencyContact {
   name: string
   relationship: string
@@ -165,10 +190,68 @@ export interface Appointment {
   status: AppointmentStatus
   reason?: string
   notes?: string
+  rescheduledToId?: string | null
+  rescheduledFromId?: string | null
+  statusHistory?: AppointmentStatusChange[]
+  /** Set by the reminder job on the first delivered reminder */
+  reminderSent?: boolean
+  reminderSentAt?: string | null
   createdAt: string
   updatedAt: string
 }
 
+export type ReminderChannel = 'EMAIL' | 'SMS' | 'WHATSAPP'
+
+/** SKIPPED: the patient has no email or valid phone for the channel */
+export type ReminderStatus = 'SENT' | 'FAILED' | 'SKIPPED'
+
+/** Outcome of an appointment reminder for a lead time and channel */
+export interface AppointmentReminder {
+  id: string
+  appointmentId: string
+  leadHours: number
+  channel: ReminderChannel
+  status: ReminderStatus
+  recipient: string | null
+  error: string | null
+  attempts: number
+  sentAt: string | null
+  createdAt: string
+  updatedAt: string
+  appointment: {
+    id: string
+    date: string
+    startTime: string
+    type: string
+    patient: { id: string; firstName: string; lastName: string }
+  }
+}
+
+/** Summary of a reminder job run */
+export interface ReminderRunSummary {
+  startedAt: string
+  finishedAt: string
+  appointments: number
+  sent: number
+  failed: number
+  skipped: {
+    appointmentId: string
+    patientId: string
+    patientName: string
+    leadHours: number
+    reason: string
+  }[]
+}
+
+export interface AppointmentStatusChange {
+  id: string
+  fromStatus: AppointmentStatus
+  toStatus: AppointmentStatus
+  reason: string | null
+  changedBy: Pick<User, 'id' | 'firstName' | 'lastName'>
+  createdAt: string
+}
+
 export enum AppointmentStatus {
   SCHEDULED = 'scheduled',
   CONFIRMED = 'confirmed',
@@ -176,6 +259,7 @@ export enum AppointmentStatus {
   COMPLETED = 'completed',
   CANCELLED = 'cancelled',
   NO_SHOW = 'no_show',
+  RESCHEDULED = 'rescheduled',
 }
 
 // ============================================
@@ -217,66 +301,592 @@ export interface Attachment {
   uploadedAt: string
 }
 
+export interface CreateDiagnosisData {
+  cie10Code: string
+  toothNumber?: string
+  description?: string
+}
+
+export interface CreateTreatmentData {
+  catalogId: string
+  diagnosisId?: string
+  toothNumber?: string
+  description?: string
+  cost: number
+}
+
+// ============================================
+// CATALOG TYPES
+// ============================================
+
+export interface Cie10Code {
+  code: string
+  name: string
+  category: string
+  chapter: string
+  description: string | null
+}
+
+export interface TreatmentCatalogItem {
+  id: string
+  code: string
+  name: string
+  description: string | null
+  category: string
+  baseCost: number
+  duration: number
+  isActive: boolean
+}
+
+/** Price in force from validFrom until validTo (null for the current one) */
+export interface TreatmentCatalogPrice {
+  id: string
+  catalogId: string
+  price: number
+  validFrom: string
+  validTo: string | null
+  reason: string | null
+  changedBy: Pick<User, 'id' | 'firstName' | 'lastName'> | null
+}
+
+export interface CatalogSearchParams {
+  search?: string
+  category?: string
+  includeInactive?: boolean
+  page?: number
+  limit?: number
+}
+
+export interface PriceListItem {
+  id: string
+  priceListId: string
+  catalogId: string
+  price: number
+  validFrom: string | null
+  validTo: string | null
+  catalog: Pick<TreatmentCatalogItem, 'id' | 'code' | 'name' | 'baseCost'>
+}
+
+export interface PriceList {
+  id: string
+  name: string
+  description: string | null
+  insuranceProvider: string | null
+  isDefault: boolean
+  discountPercent: number
+  validFrom: string | null
+  validTo: string | null
+  isActive: boolean
+  items?: PriceListItem[]
+}
+
+export type PriceListRule = 'PATIENT' | 'INSURER' | 'DEFAULT'
+
+/** Price list applied to a patient and the resulting price of each procedure */
+export interface PatientPrices {
+  priceList: Pick<PriceList, 'id' | 'name'> | null
+  rule: PriceListRule | null
+  prices: {
+    catalogId: string
+    price: number
+    source: 'PRICE_LIST_ITEM' | 'PRICE_LIST_DISCOUNT' | 'BASE_COST'
+  }[]
+}
+
+export interface Cie10ImportResult {
+  created: number
+  updated: number
+  skipped: { line: number; code: string | null; message: string }[]
+}
+
+// ============================================
+// ODONTOGRAM TYPES
+// ============================================
+
+export type DentitionType = 'PERMANENT' | 'TEMPORARY' | 'MIXED'
+
+export type ToothStatus =
+  | 'HEALTHY'
+  | 'CARIES'
+  | 'FILLED'
+  | 'MISSING'
+  | 'FRACTURED'
+  | 'CROWN'
+  | 'IMPLANT'
+  | 'ROOT_CANAL'
+  | 'EXTRACTION'
+  | 'BRIDGE'
+  | 'TEMPORARY'
+
+/**
+ * Tooth surfaces: Oclusal, Mesial, Distal, Vestibular, Lingual, Palatina
+ */
+export type ToothSurface = 'O' | 'M' | 'D' | 'V' | 'L' | 'P'
+
+export interface SurfaceCondition {
+  status: ToothStatus
+  date?: string
+  notes?: string
+}
+
+export type ToothSurfaces = Partial<Record<ToothSurface, SurfaceCondition>>
+
+export interface Tooth {
+  id: string
+  odontogramId: string
+  toothNumber: string
+  status: ToothStatus
+  surfaces?: ToothSurfaces
+  notes?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface OdontogramSummary {
+  id: string
+  patientId: string
+  date: string
+  version: number
+  type: DentitionType
+  generalNotes?: string
+  isCurrent: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Odontogram extends OdontogramSummary {
+  teeth: Tooth[]
+}
+
+export interface UpdateToothData {
+  status?: ToothStatus
+  surfaces?: ToothSurfaces
+  notes?: string
+}
+
+/**
+ * Change between two odontogram versions
+ * field: 'status', 'notes', 'surface.<S>.status', 'surface.<S>.notes' or 'tooth'
+ * ('tooth' changes are added (oldValue null) or removed (newValue null) teeth)
+ */
+export interface ToothChange {
+  toothNumber: string
+  field: string
+  oldValue: string | null | undefined
+  newValue: string | null | undefined
+}
+
+/**
+ * Diagnosis and treatment suggested by a new finding on a saved tooth
+ * (diagnosis or treatment is null when the code is not in the CIE-10 table or the active catalog)
+ */
+export interface FindingSuggestion {
+  toothNumber: string
+  status: ToothStatus
+  surfaces: ToothSurface[]
+  diagnosis: {
+    cie10Code: string
+    cie10Name: string
+  } | null
+  treatment: {
+    catalogId: string
+    code: string
+    name: string
+    baseCost: number
+  } | null
+}
+
+export interface ToothUpdateResult extends Tooth {
+  suggestions: FindingSuggestion[]
+}
+
+export type OdontogramProposalStatus = 'PENDING' | 'APPLIED' | 'DISMISSED'
+
+/**
+ * Chart change proposed when a treatment on a tooth is completed
+ */
+export interface OdontogramProposal {
+  id: string
+  patientId: string
+  treatmentId: string
+  odontogramId: string
+  toothNumber: string
+  currentStatus: ToothStatus
+  proposedStatus: ToothStatus
+  surfaces?: ToothSurfaces
+  status: OdontogramProposalStatus
+  resultingOdontogramId: string | null
+  resolvedById: string | null
+  resolvedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface OdontogramComparison {
+  version1: OdontogramSummary
+  version2: OdontogramSummary
+  changes: ToothChange[]
+  summary: {
+    totalChanges: number
+    teethModified: number
+    statusChanges: number
+    surfaceChanges: number
+    teethAdded: number
+    teethRemoved: number
+  }
+}
+
+// ============================================
+// CONSENT TYPES
+// ============================================
+
+/**
+ * Informed consent template of a procedure category
+ */
+export interface ConsentTemplate {
+  id: string
+  category: string
+  title: string
+  content: string
+  isRequired: boolean
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Procedures a consent covers: a treatment plan or a single treatment
+ */
+export interface ConsentTarget {
+  category: string
+  treatmentPlanId?: string
+  treatmentId?: string
+}
+
+/**
+ * Document generated for the patient to sign
+ */
+export interface ConsentPreview {
+  templateId: string
+  category: string
+  title: string
+  content: string
+  treatmentPlanId: string | null
+  treatmentId: string | null
+}
+
+export interface SignConsentData extends ConsentTarget {
+  signedName: string
+  signatureImage: string
+}
+
+export interface PatientConsent {
+  id: string
+  patientId: string
+  templateId: string
+  category: string
+  treatmentPlanId: string | null
+  treatmentId: string | null
+  title: string
+  signedName: string
+  signedAt: string
+  collectedById: string
+  documentHash: string
+  createdAt: string
+}
+
+export interface PatientConsentDetail extends PatientConsent {
+  content: string
+  signatureImage: string
+  ipAddress: string | null
+  userAgent: string | null
+}
+
+export interface ConsentVerification {
+  id: string
+  valid: boolean
+  documentHash: string
+  computedHash: string
+}
+
 // ============================================
 // BILLING & PAYMENT TYPES
 // ============================================
 
 export interface Invoice {
   id: string
+  /** Assigned on issue (001-001-000000123) */
+  number: string | null
   patientId: string
-  patient?: Patient
-  appointmentId?: string
-  appointment?: Appointment
-  invoiceNumber: string
-  date: string
-  dueDate: string
+  patient: PatientSummary
+  status: InvoiceStatus
+  issueDate: string | null
+  dueDate: string | null
   subtotal: number
-  tax: number
   discount: number
+  taxRate: number
+  tax: number
   total: number
-  status: InvoiceStatus
+  paidAmount: number
+  balance: number
+  notes: string | null
+  voidedAt: string | null
+  voidReason: string | null
+  /** 49-digit SRI access key, set when sent to the SRI */
+  accessKey: string | null
+  sriStatus: SriStatus | null
+  sriAuthorizedAt: string | null
+  sriMessages: SriMessage[] | null
   items: InvoiceItem[]
-  payments?: Payment[]
-  notes?: string
   createdAt: string
   updatedAt: string
 }
 
+export enum SriStatus {
+  RECEIVED = 'RECEIVED',
+  AUTHORIZED = 'AUTHORIZED',
+  REJECTED = 'REJECTED',
+}
+
+export interface SriMessage {
+  identifier: string
+  message: string
+  additionalInfo?: string
+  type: string
+}
+
 export enum InvoiceStatus {
-  DRAFT = 'draft',
-  PENDING = 'pending',
-  PAID = 'paid',
-  PARTIALLY_PAID = 'partially_paid',
-  OVERDUE = 'overdue',
-  CANCELLED = 'cancelled',
+  DRAFT = 'DRAFT',
+  ISSUED = 'ISSUED',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
+  PAID = 'PAID',
+  VOID = 'VOID',
 }
 
 export interface InvoiceItem {
   id: string
+  sequence: number
+  treatmentId: string | null
+  catalogId: string | null
   description: string
   quantity: number
   unitPrice: number
+  discount: number
   total: number
+  taxable: boolean
+}
+
+/** Treatment and catalog items take their description and price unless given */
+export interface InvoiceItemData {
+  treatmentId?: string
+  catalogId?: string
+  description?: string
+  quantity?: number
+  unitPrice?: number
+  discount?: number
+  taxable?: boolean
+}
+
+export interface CreateInvoiceData {
+  patientId: string
+  dueDate?: string
+  notes?: string
+  items: InvoiceItemData[]
+}
+
+export interface UpdateInvoiceData {
+  dueDate?: string | null
+  notes?: string | null
+  items?: InvoiceItemData[]
+}
+
+export interface InvoiceFilters {
+  status?: InvoiceStatus
+  patientId?: string
+  search?: string
+  page?: number
+  limit?: number
 }
 
-export interface Payment {
+export interface PatientPayment {
   id: string
-  invoiceId: string
+  patientId: string
+  invoiceId: string | null
+  treatmentId: string | null
   amount: number
-  method: PaymentMethod
-  transactionId?: string
+  paymentMethod: PaymentMethod
   date: string
-  notes?: string
+  concept: string
+  notes: string | null
+  receiptNumber: string | null
   createdAt: string
 }
 
+export interface CreatePatientPaymentData {
+  patientId: string
+  invoiceId?: string
+  treatmentId?: string
+  amount: number
+  paymentMethod: PaymentMethod
+  date?: string
+  concept: string
+  notes?: string
+  receiptNumber?: string
+}
+
 export enum PaymentMethod {
-  CASH = 'cash',
-  CREDIT_CARD = 'credit_card',
-  DEBIT_CARD = 'debit_card',
-  BANK_TRANSFER = 'bank_transfer',
-  CHECK = 'check',
-  INSURANCE = 'insurance',
+  CASH = 'CASH',
+  CARD = 'CARD',
+  TRANSFER = 'TRANSFER',
+  CHECK = 'CHECK',
+}
+
+// ============================================
+// INSURANCE TYPES
+// ============================================
+
+export interface CoverageRule {
+  id: string
+  /** Category of the treatment catalog */
+  category: string
+  coveragePercent: number
+  waitingPeriodDays: number
+  requiresPreauthorization: boolean
+}
+
+export interface InsurancePlan {
+  id: string
+  insurerId: string
+  name: string
+  annualMaximum: number | null
+  deductible: number
+  /** Coverage of categories without a rule */
+  defaultCoveragePercent: number
+  isActive: boolean
+  rules: CoverageRule[]
+  insurer?: Pick<Insurer, 'id' | 'name' | 'isActive'>
+}
+
+export interface Insurer {
+  id: string
+  name: string
+  ruc: string | null
+  phone: string | null
+  email: string | null
+  isActive: boolean
+  plans?: InsurancePlan[]
+}
+
+export type CoverageRuleData = Pick<CoverageRule, 'category' | 'coveragePercent'> &
+  Partial<Pick<CoverageRule, 'waitingPeriodDays' | 'requiresPreauthorization'>>
+
+export interface InsurancePlanData {
+  name: string
+  annualMaximum?: number | null
+  deductible?: number
+  defaultCoveragePercent?: number
+  isActive?: boolean
+  /** Replaces all the rules of the plan */
+  rules?: CoverageRuleData[]
+}
+
+export type CoverageLimit = 'NOT_COVERED' | 'WAITING_PERIOD' | 'ANNUAL_MAXIMUM'
+
+/** Split of a treatment cost between the insurer and the patient */
+export interface TreatmentCoverage {
+  treatmentId: string
+  planId: string | null
+  cost: number
+  requiresPreauthorization: boolean
+  coveragePercent: number
+  deductibleApplied: number
+  insurerPortion: number
+  patientPortion: number
+  limitedBy: CoverageLimit | null
+}
+
+export enum ClaimStatus {
+  DRAFT = 'DRAFT',
+  SUBMITTED = 'SUBMITTED',
+  APPROVED = 'APPROVED',
+  PARTIALLY_PAID = 'PARTIALLY_PAID',
+  PAID = 'PAID',
+  DENIED = 'DENIED',
+}
+
+export interface ClaimItem {
+  id: string
+  treatmentId: string
+  cost: number
+  coveragePercent: number
+  deductibleApplied: number
+  claimedAmount: number
+  approvedAmount: number | null
+  paidAmount: number
+  treatment: {
+    id: string
+    toothNumber: string | null
+    completedDate: string | null
+    catalog: { code: string; name: string; category: string }
+  }
+}
+
+export interface ClaimPayment {
+  id: string
+  claimId: string
+  amount: number
+  paymentMethod: PaymentMethod
+  date: string
+  reference: string | null
+  notes: string | null
+  createdAt: string
+}
+
+export interface InsuranceClaim {
+  id: string
+  patientId: string
+  insurerId: string
+  planId: string
+  status: ClaimStatus
+  claimedAmount: number
+  approvedAmount: number | null
+  paidAmount: number
+  preauthorizationNumber: string | null
+  insurerReference: string | null
+  denialReason: string | null
+  notes: string | null
+  submittedAt: string | null
+  respondedAt: string | null
+  createdAt: string
+  patient: { id: string; firstName: string; lastName: string; insuranceNumber: string | null }
+  insurer: { id: string; name: string }
+  plan: { id: string; name: string }
+  items?: ClaimItem[]
+  payments?: ClaimPayment[]
+}
+
+export interface ClaimSearchParams {
+  status?: ClaimStatus
+  patientId?: string
+  insurerId?: string
+  page?: number
+  limit?: number
+}
+
+export interface CreateClaimData {
+  patientId: string
+  /** Completed treatments of the patient not in another claim */
+  treatmentIds: string[]
+  preauthorizationNumber?: string
+  notes?: string
+}
+
+export interface CreateClaimPaymentData {
+  amount: number
+  paymentMethod: PaymentMethod
+  date?: string
+  reference?: string
+  notes?: string
 }
 
 // ============================================